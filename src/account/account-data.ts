@@ -0,0 +1,161 @@
+import { ModelDefinition } from "@nestjs/mongoose";
+import { Plan, PlanSchema } from "../plan/plan.model";
+import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
+import { WeightEntry, WeightEntrySchema } from "../progress/weight-entry.model";
+import { Goal, GoalSchema } from "../goals/goal.model";
+import {
+  MoodEntry,
+  MoodEntrySchema,
+  ThoughtEntry,
+  ThoughtEntrySchema,
+  CBTExerciseCompletion,
+  CBTExerciseCompletionSchema,
+  MealMoodCorrelation,
+  MealMoodCorrelationSchema,
+} from "../cbt/cbt.model";
+import { EatingProfile, EatingProfileSchema } from "../eating-profile/eating-profile.model";
+import { Chat, ChatSchema } from "../chat/chat.model";
+import { Challenge, ChallengeSchema } from "../challenge/challenge.model";
+import { SocialPost, SocialPostSchema } from "../social/schemas/social-post.schema";
+import { ShoppingList, ShoppingListSchema } from "../shopping/shopping-list.model";
+import {
+  ShoppingListShare,
+  ShoppingListShareSchema,
+} from "../shopping/shopping-list-share.model";
+import { PantryItem, PantryItemSchema } from "../pantry/pantry-item.model";
+import { InboxItem, InboxItemSchema } from "../notification/inbox-item.model";
+import {
+  NotificationDelivery,
+  NotificationDeliverySchema,
+} from "../notification/notification-delivery.model";
+import { QuotaUsage, QuotaUsageSchema } from "../quota/quota-usage.model";
+import { AiCallLog, AiCallLogSchema } from "../llm/ai-call-log.model";
+import { AiOutputFailure, AiOutputFailureSchema } from "../llm/ai-output-failure.model";
+import { Session, SessionSchema } from "../auth/session.model";
+import { AccountToken, AccountTokenSchema } from "../auth/account-token.model";
+import { CoachClient, CoachClientSchema } from "../coach/coach-client.model";
+import { CoachInvite, CoachInviteSchema } from "../coach/coach-invite.model";
+import { CoachNote, CoachNoteSchema } from "../coach/coach-note.model";
+import {
+  PlanEditProposal,
+  PlanEditProposalSchema,
+} from "../coach/plan-edit-proposal.model";
+import { Household, HouseholdSchema } from "../household/household.model";
+import { HouseholdMeal, HouseholdMealSchema } from "../household/household-meal.model";
+import {
+  HouseholdShoppingList,
+  HouseholdShoppingListSchema,
+} from "../household/household-shopping-list.model";
+
+/**
+ * A collection holding documents that belong to one user, keyed by `userId`
+ */
+export interface UserDataCollection {
+  // Name in the export archive
+  key: string;
+  model: string;
+  // Free-text CBT content, only included when users export their own data
+  sensitiveFields?: string[];
+}
+
+export const USER_DATA_COLLECTIONS: UserDataCollection[] = [
+  { key: "plans", model: Plan.name },
+  { key: "progress", model: DailyProgress.name },
+  { key: "weightEntries", model: WeightEntry.name },
+  { key: "goals", model: Goal.name },
+  { key: "moodEntries", model: MoodEntry.name, sensitiveFields: ["notes", "triggers"] },
+  {
+    key: "thoughtEntries",
+    model: ThoughtEntry.name,
+    sensitiveFields: [
+      "situation",
+      "automaticThought",
+      "emotions",
+      "cognitiveDistortions",
+      "evidence",
+      "balancedThought",
+      "outcomeEmotion",
+      "tags",
+    ],
+  },
+  {
+    key: "cbtExerciseCompletions",
+    model: CBTExerciseCompletion.name,
+    sensitiveFields: ["responses", "reflection"],
+  },
+  { key: "mealMoodCorrelations", model: MealMoodCorrelation.name, sensitiveFields: ["notes"] },
+  { key: "eatingProfile", model: EatingProfile.name },
+  { key: "chats", model: Chat.name },
+  { key: "challenges", model: Challenge.name },
+  { key: "socialPosts", model: SocialPost.name },
+];
+
+// Profile fields that are never exported
+export const PROFILE_EXCLUDED_FIELDS = ["password", "deviceTokens"];
+// Profile fields treated like CBT content
+export const PROFILE_SENSITIVE_FIELDS = ["foodRelationship", "emotionalTriggers"];
+
+export const USER_DATA_MODEL_DEFINITIONS: ModelDefinition[] = [
+  { name: Plan.name, schema: PlanSchema },
+  { name: DailyProgress.name, schema: DailyProgressSchema },
+  { name: WeightEntry.name, schema: WeightEntrySchema },
+  { name: Goal.name, schema: GoalSchema },
+  { name: MoodEntry.name, schema: MoodEntrySchema },
+  { name: ThoughtEntry.name, schema: ThoughtEntrySchema },
+  { name: CBTExerciseCompletion.name, schema: CBTExerciseCompletionSchema },
+  { name: MealMoodCorrelation.name, schema: MealMoodCorrelationSchema },
+  { name: EatingProfile.name, schema: EatingProfileSchema },
+  { name: Chat.name, schema: ChatSchema },
+  { name: Challenge.name, schema: ChallengeSchema },
+  { name: SocialPost.name, schema: SocialPostSchema },
+];
+
+/**
+ * Further collections keyed by `userId` that are not part of the export but
+ * are deleted with the account
+ */
+export const ACCOUNT_PURGE_MODELS: string[] = [
+  ShoppingList.name,
+  ShoppingListShare.name,
+  PantryItem.name,
+  InboxItem.name,
+  NotificationDelivery.name,
+  QuotaUsage.name,
+  AiOutputFailure.name,
+  Session.name,
+  AccountToken.name,
+];
+
+/**
+ * Collections linking two users (a coach and a client). Documents with the
+ * user in any of `fields` are deleted with the account.
+ */
+export const ACCOUNT_LINKED_MODELS: { model: string; fields: string[] }[] = [
+  { model: CoachClient.name, fields: ["coachId", "clientId"] },
+  { model: CoachInvite.name, fields: ["coachId", "acceptedBy"] },
+  { model: CoachNote.name, fields: ["coachId", "clientId"] },
+  { model: PlanEditProposal.name, fields: ["coachId", "clientId"] },
+];
+
+// Usage logs kept for cost reporting; only the link to the user is removed
+export const ACCOUNT_ANONYMIZED_MODELS: string[] = [AiCallLog.name];
+
+export const ACCOUNT_PURGE_MODEL_DEFINITIONS: ModelDefinition[] = [
+  { name: ShoppingList.name, schema: ShoppingListSchema },
+  { name: ShoppingListShare.name, schema: ShoppingListShareSchema },
+  { name: PantryItem.name, schema: PantryItemSchema },
+  { name: InboxItem.name, schema: InboxItemSchema },
+  { name: NotificationDelivery.name, schema: NotificationDeliverySchema },
+  { name: QuotaUsage.name, schema: QuotaUsageSchema },
+  { name: AiCallLog.name, schema: AiCallLogSchema },
+  { name: AiOutputFailure.name, schema: AiOutputFailureSchema },
+  { name: Session.name, schema: SessionSchema },
+  { name: AccountToken.name, schema: AccountTokenSchema },
+  { name: CoachClient.name, schema: CoachClientSchema },
+  { name: CoachInvite.name, schema: CoachInviteSchema },
+  { name: CoachNote.name, schema: CoachNoteSchema },
+  { name: PlanEditProposal.name, schema: PlanEditProposalSchema },
+  { name: Household.name, schema: HouseholdSchema },
+  { name: HouseholdMeal.name, schema: HouseholdMealSchema },
+  { name: HouseholdShoppingList.name, schema: HouseholdShoppingListSchema },
+];
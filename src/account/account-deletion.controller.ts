@@ -0,0 +1,34 @@
+import { Controller, Get, HttpCode, HttpStatus, Post, Request, UseGuards } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from "@nestjs/swagger";
+import { AuthGuard, AllowPendingDeletion } from "../auth/auth.guard";
+import { AccountDeletionService } from "./account-deletion.service";
+
+@ApiTags("users")
+@Controller("users/me/deletion")
+@UseGuards(AuthGuard)
+@AllowPendingDeletion()
+@ApiBearerAuth("JWT-auth")
+export class AccountDeletionController {
+  constructor(private readonly deletionService: AccountDeletionService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the status of my account deletion" })
+  @ApiResponse({ status: 200, description: "Latest deletion request, or null" })
+  async getStatus(@Request() req: any) {
+    return this.deletionService.getStatus(req.user._id.toString());
+  }
+
+  @Post("restore")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Restore my account",
+    description: "Cancels a scheduled deletion during the grace period.",
+  })
+  @ApiResponse({ status: 200, description: "Deletion cancelled" })
+  @ApiResponse({ status: 400, description: "Account is not scheduled for deletion" })
+  @ApiResponse({ status: 403, description: "Closed by an administrator" })
+  async restore(@Request() req: any) {
+    const userId = req.user._id.toString();
+    return this.deletionService.restore(userId, userId);
+  }
+}
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type AccountDeletionStatus =
+  | "scheduled"
+  | "cancelled"
+  | "purging"
+  | "completed"
+  | "failed";
+
+/**
+ * Audit record of an account deletion. It outlives the account, so it holds
+ * no personal data: the email is only kept as a hash to answer "was this
+ * address's account deleted?".
+ */
+export interface IAccountDeletion extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  emailHash?: string;
+  requestedBy: mongoose.Types.ObjectId;
+  requestedByAdmin: boolean;
+  reason?: string;
+  status: AccountDeletionStatus;
+  // End of the grace period; the purge runs after this
+  scheduledFor: Date;
+  cancelledAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  purgeStartedAt?: Date;
+  completedAt?: Date;
+  attempts: number;
+  lastError?: string;
+  // Documents deleted (or anonymized) per collection
+  purgedCounts?: Record<string, number>;
+  stripeCustomerId?: string;
+  cancelledSubscriptionIds?: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const AccountDeletion = { name: "AccountDeletion" };
+
+const accountDeletionSchema = new Schema<IAccountDeletion>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true },
+    emailHash: { type: String },
+    requestedBy: { type: Schema.Types.ObjectId, required: true },
+    requestedByAdmin: { type: Boolean, default: false },
+    reason: { type: String, maxlength: 500 },
+    status: {
+      type: String,
+      enum: ["scheduled", "cancelled", "purging", "completed", "failed"],
+      default: "scheduled",
+    },
+    scheduledFor: { type: Date, required: true },
+    cancelledAt: { type: Date },
+    cancelledBy: { type: Schema.Types.ObjectId },
+    purgeStartedAt: { type: Date },
+    completedAt: { type: Date },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    purgedCounts: { type: Schema.Types.Mixed },
+    stripeCustomerId: { type: String },
+    cancelledSubscriptionIds: { type: [String], default: undefined },
+  },
+  {
+    timestamps: true,
+    collection: "account_deletions",
+  }
+);
+
+accountDeletionSchema.index({ userId: 1, createdAt: -1 });
+// Purge sweep
+accountDeletionSchema.index({ status: 1, scheduledFor: 1 });
+accountDeletionSchema.index({ emailHash: 1 });
+
+export const AccountDeletionSchema = accountDeletionSchema;
@@ -0,0 +1,420 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectConnection, InjectModel } from "@nestjs/mongoose";
+import { Connection, Model, Types } from "mongoose";
+import { createHash } from "crypto";
+import { AccountDeletion, IAccountDeletion } from "./account-deletion.model";
+import {
+  ACCOUNT_ANONYMIZED_MODELS,
+  ACCOUNT_LINKED_MODELS,
+  ACCOUNT_PURGE_MODELS,
+  USER_DATA_COLLECTIONS,
+} from "./account-data";
+import { AccountExportService } from "./account-export.service";
+import { User } from "../user/user.model";
+import { SocialPost } from "../social/schemas/social-post.schema";
+import { Follow } from "../social/schemas/follow.schema";
+import { Household } from "../household/household.model";
+import { HouseholdMeal } from "../household/household-meal.model";
+import { HouseholdShoppingList } from "../household/household-shopping-list.model";
+import { removeAccountFromHousehold } from "../household/household-membership";
+import { IUserData } from "../types/interfaces";
+import { SessionService } from "../auth/session.service";
+import { DelegationService } from "../auth/delegation.service";
+import { SubscriptionService } from "../subscription/subscription.service";
+import { EmailService } from "../email/email.service";
+import { accountDeletionScheduledEmail } from "../email/templates";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+const PURGE_JOB = "account.purge-deletions";
+const PURGE_CRON = "41 * * * *";
+const DEFAULT_GRACE_DAYS = 30;
+// A failed purge is retried by the next sweeps up to this many attempts in total
+const MAX_PURGE_ATTEMPTS = 5;
+// A purge still "purging" after this long is assumed to have crashed
+const STALE_PURGE_MS = 60 * 60 * 1000;
+
+export interface RequestDeletionOptions {
+  reason?: string;
+  requestedByAdmin?: boolean;
+}
+
+export interface AccountDeletionView {
+  id: string;
+  status: IAccountDeletion["status"];
+  requestedByAdmin: boolean;
+  reason?: string;
+  requestedAt: Date;
+  scheduledFor: Date;
+  cancelledAt?: Date;
+  completedAt?: Date;
+  attempts: number;
+  lastError?: string;
+  purgedCounts?: Record<string, number>;
+  cancelledSubscriptionIds?: string[];
+}
+
+const hashEmail = (email: string) =>
+  createHash("sha256").update(email.trim().toLowerCase()).digest("hex");
+
+/**
+ * Account deletion with a grace period.
+ *
+ * Requesting deletion signs the account out everywhere and stops subscription
+ * renewal; the account can be restored until the grace period ends. The
+ * hourly purge sweep then cancels the Stripe subscriptions, deletes the user's
+ * documents across every collection, anonymizes comments left on other
+ * people's posts and finally deletes the user. Every step is idempotent, so a
+ * failed purge is simply run again. The AccountDeletion record is kept as the
+ * audit trail.
+ */
+@Injectable()
+export class AccountDeletionService implements OnModuleInit {
+  constructor(
+    @InjectModel(AccountDeletion.name) private deletionModel: Model<IAccountDeletion>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    @InjectModel(SocialPost.name) private socialPostModel: Model<any>,
+    @InjectModel(Follow.name) private followModel: Model<any>,
+    @InjectConnection() private connection: Connection,
+    private configService: ConfigService,
+    private sessionService: SessionService,
+    private delegationService: DelegationService,
+    private subscriptionService: SubscriptionService,
+    private exportService: AccountExportService,
+    private emailService: EmailService,
+    private jobScheduler: JobSchedulerService
+  ) {}
+
+  async onModuleInit() {
+    this.jobScheduler.registerHandler(PURGE_JOB, () => this.purgeDueDeletions(), {
+      maxAttempts: 1,
+    });
+    try {
+      await this.jobScheduler.scheduleRecurring(PURGE_JOB, PURGE_CRON);
+    } catch (error) {
+      logger.error(`[AccountDeletion] Could not schedule purge sweep: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Schedule `userId`'s account for deletion. Requesting it again while it
+   * is scheduled returns the existing schedule.
+   */
+  async requestDeletion(
+    userId: string,
+    requestedBy: string,
+    options: RequestDeletionOptions = {}
+  ): Promise<AccountDeletionView> {
+    if (!isMongoObjectIdString(userId)) {
+      throw new NotFoundException("User not found");
+    }
+
+    const now = new Date();
+    const scheduledFor = new Date(now.getTime() + this.graceDays() * 24 * 60 * 60 * 1000);
+    // Claiming on the user makes concurrent requests schedule only once.
+    // Push tokens are dropped so nothing is sent during the grace period.
+    const user = await this.userModel
+      .findOneAndUpdate(
+        { _id: userId, deletionScheduledFor: null },
+        {
+          $set: {
+            deletionRequestedAt: now,
+            deletionScheduledFor: scheduledFor,
+            deviceTokens: [],
+          },
+        }
+      )
+      .select("email name stripeCustomerId")
+      .lean();
+
+    if (!user) {
+      const scheduled = await this.deletionModel
+        .findOne({ userId, status: "scheduled" })
+        .sort({ createdAt: -1 })
+        .lean();
+      if (scheduled) return this.toView(scheduled);
+      throw new NotFoundException("User not found");
+    }
+
+    const record = await this.deletionModel.create({
+      userId,
+      emailHash: user.email ? hashEmail(user.email) : undefined,
+      requestedBy,
+      requestedByAdmin: !!options.requestedByAdmin,
+      reason: options.reason,
+      scheduledFor,
+      stripeCustomerId: user.stripeCustomerId,
+    });
+
+    await this.sessionService.revokeAll(userId);
+
+    if (user.stripeCustomerId) {
+      try {
+        await this.subscriptionService.setCancelAtPeriodEnd(user.stripeCustomerId, true);
+      } catch (error) {
+        // The purge cancels the subscriptions outright either way
+        logger.error(
+          `[AccountDeletion] Could not stop renewal for user ${userId}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+
+    if (user.email) {
+      await this.emailService.send({
+        to: user.email,
+        ...accountDeletionScheduledEmail(
+          user.name,
+          this.emailService.buildAppLink("/login", { restore: "1" }),
+          scheduledFor.toISOString().slice(0, 10)
+        ),
+      });
+    }
+
+    logger.info(
+      `[AccountDeletion] Account ${userId} scheduled for deletion on ${scheduledFor.toISOString()} by ${requestedBy}`
+    );
+    return this.toView(record.toObject());
+  }
+
+  /**
+   * Cancel a scheduled deletion. Deletions an admin scheduled can only be
+   * cancelled by an admin.
+   */
+  async restore(userId: string, restoredBy: string, byAdmin = false): Promise<AccountDeletionView> {
+    const scheduled = await this.deletionModel
+      .findOne({ userId, status: "scheduled" })
+      .sort({ createdAt: -1 })
+      .lean();
+    if (!scheduled) {
+      throw new BadRequestException("Account is not scheduled for deletion");
+    }
+    if (scheduled.requestedByAdmin && !byAdmin) {
+      throw new ForbiddenException("This account was closed by an administrator");
+    }
+
+    // Only a still-scheduled record can be cancelled, so a purge that has started wins
+    const cancelled = await this.deletionModel.findOneAndUpdate(
+      { _id: scheduled._id, status: "scheduled" },
+      { $set: { status: "cancelled", cancelledAt: new Date(), cancelledBy: restoredBy } },
+      { new: true }
+    );
+    if (!cancelled) {
+      throw new BadRequestException("Account is not scheduled for deletion");
+    }
+
+    await this.userModel.updateOne(
+      { _id: userId },
+      { $unset: { deletionRequestedAt: "", deletionScheduledFor: "" } }
+    );
+
+    if (scheduled.stripeCustomerId) {
+      try {
+        await this.subscriptionService.setCancelAtPeriodEnd(scheduled.stripeCustomerId, false);
+      } catch (error) {
+        logger.error(
+          `[AccountDeletion] Could not resume renewal for user ${userId}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+
+    logger.info(`[AccountDeletion] Account ${userId} restored by ${restoredBy}`);
+    return this.toView(cancelled.toObject());
+  }
+
+  /**
+   * Latest deletion request of a user, if any
+   */
+  async getStatus(userId: string): Promise<AccountDeletionView | null> {
+    const record = await this.deletionModel.findOne({ userId }).sort({ createdAt: -1 }).lean();
+    return record ? this.toView(record) : null;
+  }
+
+  /**
+   * Audit trail of a user's deletion requests, newest first
+   */
+  async listDeletions(userId: string): Promise<AccountDeletionView[]> {
+    if (!isMongoObjectIdString(userId)) {
+      throw new NotFoundException("User not found");
+    }
+    const records = await this.deletionModel.find({ userId }).sort({ createdAt: -1 }).lean();
+    return records.map((record) => this.toView(record));
+  }
+
+  /**
+   * Purge every account whose grace period is over. Run by the hourly sweep.
+   */
+  async purgeDueDeletions(now: Date = new Date()): Promise<{ purged: number; failed: number }> {
+    const due = await this.deletionModel
+      .find(this.purgeableFilter(now))
+      .select("_id")
+      .sort({ scheduledFor: 1 })
+      .lean();
+
+    let purged = 0;
+    let failed = 0;
+    for (const record of due) {
+      if (await this.purge(record._id.toString(), now)) purged++;
+      else failed++;
+    }
+
+    if (due.length > 0) {
+      logger.info(`[AccountDeletion] Purge sweep: ${purged} purged, ${failed} failed`);
+    }
+    return { purged, failed };
+  }
+
+  /**
+   * Permanently delete the account of a deletion record. Returns false when
+   * the purge failed (it is retried by the next sweep) or was not due.
+   */
+  async purge(deletionId: string, now: Date = new Date()): Promise<boolean> {
+    const record = await this.deletionModel.findOneAndUpdate(
+      { _id: deletionId, ...this.purgeableFilter(now) },
+      { $set: { status: "purging", purgeStartedAt: new Date() }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!record) return false;
+
+    const userId = record.userId.toString();
+    const userObjectId = new Types.ObjectId(userId);
+    const counts: Record<string, number> = { ...(record.purgedCounts || {}) };
+    const add = (key: string, n: number) => {
+      counts[key] = (counts[key] || 0) + n;
+    };
+
+    try {
+      // Billing first: if Stripe is unreachable nothing has been deleted yet
+      let cancelledSubscriptionIds = record.cancelledSubscriptionIds;
+      if (record.stripeCustomerId) {
+        const cancelled = await this.subscriptionService.cancelCustomerSubscriptions(
+          record.stripeCustomerId
+        );
+        cancelledSubscriptionIds = [...(cancelledSubscriptionIds || []), ...cancelled];
+      }
+
+      // The user's own posts go with the other user data
+      for (const collection of USER_DATA_COLLECTIONS) {
+        const result = await this.connection.model(collection.model).deleteMany({ userId });
+        add(collection.model, result.deletedCount);
+      }
+      for (const model of ACCOUNT_PURGE_MODELS) {
+        const result = await this.connection.model(model).deleteMany({ userId });
+        add(model, result.deletedCount);
+      }
+      for (const model of ACCOUNT_ANONYMIZED_MODELS) {
+        const result = await this.connection
+          .model(model)
+          .updateMany({ userId }, { $unset: { userId: "" } });
+        add(`${model}.anonymized`, result.modifiedCount);
+      }
+
+      const follows = await this.followModel.deleteMany({
+        $or: [{ followerId: userObjectId }, { followingId: userObjectId }],
+      });
+      add(Follow.name, follows.deletedCount);
+      add("Delegation", await this.delegationService.removeUser(userId));
+      for (const { model, fields } of ACCOUNT_LINKED_MODELS) {
+        const result = await this.connection
+          .model(model)
+          .deleteMany({ $or: fields.map((field) => ({ [field]: userObjectId })) });
+        add(model, result.deletedCount);
+      }
+      // The household goes on with its other members
+      const household = await removeAccountFromHousehold(
+        {
+          household: this.connection.model(Household.name),
+          meal: this.connection.model(HouseholdMeal.name),
+          shoppingList: this.connection.model(HouseholdShoppingList.name),
+        },
+        userId
+      );
+      add(Household.name, household === "deleted" ? 1 : 0);
+
+      // Comments on other people's posts stay, without their author
+      const comments = await this.socialPostModel.updateMany(
+        { "comments.userId": userObjectId },
+        {
+          $unset: { "comments.$[own].userId": "" },
+          $set: { "comments.$[own].authorDeleted": true },
+        },
+        { arrayFilters: [{ "own.userId": userObjectId }] }
+      );
+      add("SocialPost.commentsAnonymized", comments.modifiedCount);
+      const likes = await this.socialPostModel.updateMany(
+        { likes: userObjectId },
+        { $pull: { likes: userObjectId } }
+      );
+      add("SocialPost.likesRemoved", likes.modifiedCount);
+
+      add("DataExport", await this.exportService.removeUserExports(userId));
+
+      const user = await this.userModel.deleteOne({ _id: userId });
+      add(User.name, user.deletedCount);
+
+      await this.deletionModel.updateOne(
+        { _id: record._id },
+        {
+          $set: {
+            status: "completed",
+            completedAt: new Date(),
+            purgedCounts: counts,
+            cancelledSubscriptionIds,
+          },
+          $unset: { lastError: "" },
+        }
+      );
+      logger.info(`[AccountDeletion] Account ${userId} purged (deletion ${record._id})`);
+      return true;
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`[AccountDeletion] Purge of account ${userId} failed: ${message}`);
+      await this.deletionModel.updateOne(
+        { _id: record._id },
+        { $set: { status: "failed", lastError: message.slice(0, 500), purgedCounts: counts } }
+      );
+      return false;
+    }
+  }
+
+  private purgeableFilter(now: Date) {
+    return {
+      $or: [
+        { status: "scheduled", scheduledFor: { $lte: now } },
+        { status: "failed", attempts: { $lt: MAX_PURGE_ATTEMPTS } },
+        { status: "purging", purgeStartedAt: { $lte: new Date(now.getTime() - STALE_PURGE_MS) } },
+      ],
+    };
+  }
+
+  private graceDays(): number {
+    return (
+      Number(this.configService.get<string>("ACCOUNT_DELETION_GRACE_DAYS")) || DEFAULT_GRACE_DAYS
+    );
+  }
+
+  private toView(record: any): AccountDeletionView {
+    return {
+      id: record._id.toString(),
+      status: record.status,
+      requestedByAdmin: !!record.requestedByAdmin,
+      reason: record.reason,
+      requestedAt: record.createdAt,
+      scheduledFor: record.scheduledFor,
+      cancelledAt: record.cancelledAt,
+      completedAt: record.completedAt,
+      attempts: record.attempts || 0,
+      lastError: record.lastError,
+      purgedCounts: record.purgedCounts,
+      cancelledSubscriptionIds: record.cancelledSubscriptionIds,
+    };
+  }
+}
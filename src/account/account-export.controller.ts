@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Request,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import { Throttle } from "@nestjs/throttler";
+import { Response } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { AuthGuard, AllowPendingDeletion } from "../auth/auth.guard";
+import { AccountExportService } from "./account-export.service";
+
+@ApiTags("users")
+@Controller("users")
+export class AccountExportController {
+  constructor(private readonly exportService: AccountExportService) {}
+
+  @Post("me/exports")
+  @UseGuards(AuthGuard)
+  @AllowPendingDeletion()
+  @Throttle({ default: { limit: 3, ttl: 60 * 60 * 1000 } })
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Request an export of all my data",
+    description:
+      "Builds a ZIP with export.json, progress.csv and moods.csv in the background. Poll GET users/me/exports for the download link.",
+  })
+  @ApiResponse({ status: 201, description: "Export queued (or the one already in progress)" })
+  async requestExport(@Request() req: any) {
+    const userId = req.user._id.toString();
+    return this.exportService.requestExport(userId, userId);
+  }
+
+  @Get("me/exports")
+  @UseGuards(AuthGuard)
+  @AllowPendingDeletion()
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "List my data exports with their download links" })
+  @ApiResponse({ status: 200, description: "Exports, most recent first" })
+  async listExports(@Request() req: any) {
+    return this.exportService.listExports(req.user._id.toString());
+  }
+
+  @Get("exports/:exportId/download")
+  @ApiOperation({
+    summary: "Download a data export",
+    description: "Authorized by the signed token in the link, so it works as a plain browser download.",
+  })
+  @ApiParam({ name: "exportId", description: "Export ID" })
+  @ApiQuery({ name: "token", description: "Signed download token from the export's downloadUrl" })
+  @ApiResponse({ status: 200, description: "ZIP archive" })
+  @ApiResponse({ status: 404, description: "Link invalid or expired" })
+  async download(
+    @Param("exportId") exportId: string,
+    @Query("token") token: string,
+    @Res() res: Response
+  ) {
+    const { fileName, sizeBytes, stream } = await this.exportService.openDownload(exportId, token);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "no-store");
+    if (sizeBytes) res.setHeader("Content-Length", String(sizeBytes));
+    stream.on("error", () => res.destroy());
+    stream.pipe(res);
+  }
+}
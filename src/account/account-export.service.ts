@@ -0,0 +1,375 @@
+import { Injectable, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { InjectConnection, InjectModel } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { Connection, Model } from "mongoose";
+import mongoose from "mongoose";
+import { Readable } from "stream";
+import { DataExport, IDataExport } from "./data-export.model";
+import {
+  PROFILE_EXCLUDED_FIELDS,
+  PROFILE_SENSITIVE_FIELDS,
+  USER_DATA_COLLECTIONS,
+} from "./account-data";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import { EventBus } from "../events/event-bus";
+import { createZip } from "../utils/zip";
+import { formatMoodCsv, formatProgressCsv, omitFields } from "../utils/accountExport";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+const EXPORT_JOB = "account.export";
+const CLEANUP_JOB = "account.cleanup-exports";
+const CLEANUP_CRON = "17 * * * *";
+const BUCKET_NAME = "data_exports";
+// How long an archive and its download link stay available
+const EXPORT_TTL_HOURS = 48;
+const DOWNLOAD_PURPOSE = "data_export";
+// Sets download links apart from access tokens, which share the app secret
+export const DOWNLOAD_AUDIENCE = "data-export";
+
+interface ExportJobData {
+  exportId: string;
+}
+
+interface DownloadTokenPayload {
+  sub: string;
+  purpose: string;
+  jti: string;
+}
+
+export interface DataExportView {
+  id: string;
+  status: IDataExport["status"];
+  includeSensitive: boolean;
+  createdAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  sizeBytes?: number;
+  recordCounts?: Record<string, number>;
+  downloadUrl?: string;
+  error?: string;
+}
+
+/**
+ * Account data export ("takeout").
+ *
+ * A request queues an account.export job that collects everything stored for
+ * the user into a ZIP with export.json (all collections) plus progress.csv
+ * and moods.csv, and stores it in GridFS. Free-text CBT content is only
+ * included when users export their own data, not when an admin exports it
+ * for them. Archives are downloaded with a signed link that expires with the
+ * archive; the cleanup job then deletes the file.
+ */
+@Injectable()
+export class AccountExportService implements OnModuleInit {
+  constructor(
+    @InjectModel(DataExport.name) private exportModel: Model<IDataExport>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    @InjectConnection() private connection: Connection,
+    private jwtService: JwtService,
+    private jobScheduler: JobSchedulerService,
+    private eventBus: EventBus
+  ) {}
+
+  async onModuleInit() {
+    this.jobScheduler.registerHandler<ExportJobData>(
+      EXPORT_JOB,
+      ({ exportId }) => this.buildExport(exportId),
+      // buildExport records its own failure on the export
+      { maxAttempts: 1 }
+    );
+    this.jobScheduler.registerHandler(CLEANUP_JOB, () => this.removeExpiredExports(), {
+      maxAttempts: 1,
+    });
+    try {
+      await this.jobScheduler.scheduleRecurring(CLEANUP_JOB, CLEANUP_CRON);
+    } catch (error) {
+      logger.error(`[AccountExport] Could not schedule export cleanup: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Queue an export of `userId`'s data. An export that is still being built
+   * is returned instead of starting another one.
+   */
+  async requestExport(userId: string, requestedBy: string): Promise<DataExportView> {
+    if (!isMongoObjectIdString(userId)) {
+      throw new NotFoundException("User not found");
+    }
+    const user = await this.userModel.findById(userId).select("_id").lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const pending = await this.exportModel
+      .findOne({ userId, status: { $in: ["queued", "processing"] } })
+      .lean();
+    if (pending) return this.toView(pending);
+
+    const created = await this.exportModel.create({
+      userId,
+      requestedBy,
+      includeSensitive: userId === requestedBy,
+    });
+    await this.jobScheduler.schedule<ExportJobData>(EXPORT_JOB, {
+      exportId: created._id.toString(),
+    });
+    logger.info(`[AccountExport] Export ${created._id} queued for user ${userId} by ${requestedBy}`);
+    return this.toView(created.toObject());
+  }
+
+  /**
+   * Exports of a user, newest first, with download links for ready ones
+   */
+  async listExports(userId: string): Promise<DataExportView[]> {
+    const exports = await this.exportModel
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .limit(10)
+      .lean();
+    return exports.map((e) => this.toView(e));
+  }
+
+  /**
+   * Collect the user's data and store the archive. Run by the account.export job.
+   */
+  async buildExport(exportId: string): Promise<void> {
+    const record = await this.exportModel.findOneAndUpdate(
+      { _id: exportId, status: "queued" },
+      { $set: { status: "processing" } },
+      { new: true }
+    );
+    if (!record) {
+      logger.warn(`[AccountExport] Export ${exportId} is not queued, skipping`);
+      return;
+    }
+
+    const userId = record.userId.toString();
+    try {
+      const { archive, recordCounts } = await this.createArchive(userId, record.includeSensitive);
+      const fileName = `habeat-export-${new Date().toISOString().slice(0, 10)}.zip`;
+      const fileId = await this.storeFile(fileName, archive, exportId, userId);
+      const expiresAt = new Date(Date.now() + EXPORT_TTL_HOURS * 60 * 60 * 1000);
+
+      await this.exportModel.updateOne(
+        { _id: exportId },
+        {
+          $set: {
+            status: "ready",
+            fileId,
+            fileName,
+            sizeBytes: archive.length,
+            recordCounts,
+            completedAt: new Date(),
+            expiresAt,
+          },
+        }
+      );
+      logger.info(`[AccountExport] Export ${exportId} ready (${archive.length} bytes)`);
+
+      // Admin exports are handed over by the admin, not announced to the user
+      if (record.requestedBy.toString() === userId) {
+        await this.eventBus.publish("account.export_ready", {
+          userId,
+          exportId,
+          expiresAt: expiresAt.toISOString(),
+        });
+      }
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`[AccountExport] Export ${exportId} failed: ${message}`);
+      await this.exportModel.updateOne(
+        { _id: exportId },
+        {
+          $set: {
+            status: "failed",
+            error: message.slice(0, 500),
+            completedAt: new Date(),
+            expiresAt: new Date(Date.now() + EXPORT_TTL_HOURS * 60 * 60 * 1000),
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Archive stream for a signed download link
+   */
+  async openDownload(
+    exportId: string,
+    token: string
+  ): Promise<{ fileName: string; sizeBytes?: number; stream: Readable }> {
+    let payload: DownloadTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<DownloadTokenPayload>(token, {
+        audience: DOWNLOAD_AUDIENCE,
+      });
+    } catch {
+      throw new NotFoundException("Download link is invalid or has expired");
+    }
+    if (payload.purpose !== DOWNLOAD_PURPOSE || payload.jti !== exportId) {
+      throw new NotFoundException("Download link is invalid or has expired");
+    }
+
+    const record = await this.exportModel
+      .findOne({ _id: exportId, status: "ready", expiresAt: { $gt: new Date() } })
+      .lean();
+    if (!record?.fileId) {
+      throw new NotFoundException("Download link is invalid or has expired");
+    }
+
+    return {
+      fileName: record.fileName || "habeat-export.zip",
+      sizeBytes: record.sizeBytes,
+      stream: this.bucket().openDownloadStream(record.fileId),
+    };
+  }
+
+  /**
+   * Delete expired archives and their records. Run by the cleanup job.
+   */
+  async removeExpiredExports(now: Date = new Date()): Promise<{ removed: number }> {
+    const removed = await this.removeWhere({ expiresAt: { $lte: now } });
+    if (removed > 0) {
+      logger.info(`[AccountExport] Removed ${removed} expired export(s)`);
+    }
+    return { removed };
+  }
+
+  /**
+   * Delete every export of a user, archives included. Used when the account is purged.
+   */
+  async removeUserExports(userId: string): Promise<number> {
+    return this.removeWhere({ userId });
+  }
+
+  private async removeWhere(filter: Record<string, unknown>): Promise<number> {
+    const records = await this.exportModel.find(filter).select("_id fileId").lean();
+
+    let removed = 0;
+    for (const record of records) {
+      if (record.fileId) {
+        try {
+          await this.bucket().delete(record.fileId);
+        } catch (error) {
+          // Already gone is fine; anything else is retried next run
+          if (!/not found/i.test(getErrorMessage(error))) {
+            logger.error(
+              `[AccountExport] Could not delete archive of export ${record._id}: ${getErrorMessage(error)}`
+            );
+            continue;
+          }
+        }
+      }
+      await this.exportModel.deleteOne({ _id: record._id });
+      removed++;
+    }
+    return removed;
+  }
+
+  private async createArchive(
+    userId: string,
+    includeSensitive: boolean
+  ): Promise<{ archive: Buffer; recordCounts: Record<string, number> }> {
+    const profile = await this.userModel.findById(userId).lean();
+    if (!profile) {
+      throw new Error("User no longer exists");
+    }
+
+    const profileHidden = includeSensitive
+      ? PROFILE_EXCLUDED_FIELDS
+      : [...PROFILE_EXCLUDED_FIELDS, ...PROFILE_SENSITIVE_FIELDS];
+    const data: Record<string, any[]> = {};
+    const recordCounts: Record<string, number> = {};
+
+    for (const collection of USER_DATA_COLLECTIONS) {
+      const docs = await this.connection
+        .model(collection.model)
+        .find({ userId })
+        .sort({ createdAt: 1 })
+        .lean();
+      const hidden = includeSensitive ? [] : collection.sensitiveFields || [];
+      data[collection.key] = hidden.length
+        ? docs.map((doc) => omitFields(doc as Record<string, any>, hidden))
+        : docs;
+      recordCounts[collection.key] = docs.length;
+    }
+
+    const exportedAt = new Date();
+    const archiveJson = {
+      exportedAt: exportedAt.toISOString(),
+      userId,
+      includesSensitiveContent: includeSensitive,
+      recordCounts,
+      profile: omitFields(profile as Record<string, any>, profileHidden),
+      ...data,
+    };
+
+    const archive = createZip([
+      { name: "export.json", content: JSON.stringify(archiveJson, null, 2), modifiedAt: exportedAt },
+      { name: "progress.csv", content: formatProgressCsv(data.progress), modifiedAt: exportedAt },
+      {
+        name: "moods.csv",
+        content: formatMoodCsv(data.moodEntries, includeSensitive),
+        modifiedAt: exportedAt,
+      },
+    ]);
+    return { archive, recordCounts };
+  }
+
+  private storeFile(
+    fileName: string,
+    content: Buffer,
+    exportId: string,
+    userId: string
+  ): Promise<mongoose.Types.ObjectId> {
+    return new Promise((resolve, reject) => {
+      const upload = this.bucket().openUploadStream(fileName, {
+        metadata: { exportId, userId, contentType: "application/zip" },
+      });
+      upload.once("error", reject);
+      upload.once("finish", () => resolve(upload.id as mongoose.Types.ObjectId));
+      upload.end(content);
+    });
+  }
+
+  private bucket() {
+    if (!this.connection.db) {
+      throw new Error("Database connection is not ready");
+    }
+    return new mongoose.mongo.GridFSBucket(this.connection.db, { bucketName: BUCKET_NAME });
+  }
+
+  private toView(record: any): DataExportView {
+    const view: DataExportView = {
+      id: record._id.toString(),
+      status: record.status,
+      includeSensitive: record.includeSensitive,
+      createdAt: record.createdAt,
+      completedAt: record.completedAt,
+      expiresAt: record.expiresAt,
+      sizeBytes: record.sizeBytes,
+      recordCounts: record.recordCounts,
+      error: record.error,
+    };
+    if (record.status === "ready" && record.expiresAt && record.expiresAt > new Date()) {
+      view.downloadUrl = this.downloadUrl(record);
+    }
+    return view;
+  }
+
+  private downloadUrl(record: any): string {
+    const expiresInSeconds = Math.max(
+      1,
+      Math.floor((new Date(record.expiresAt).getTime() - Date.now()) / 1000)
+    );
+    const token = this.jwtService.sign(
+      { sub: record.userId.toString(), purpose: DOWNLOAD_PURPOSE },
+      { jwtid: record._id.toString(), expiresIn: expiresInSeconds, audience: DOWNLOAD_AUDIENCE }
+    );
+    return `/api/users/exports/${record._id}/download?token=${encodeURIComponent(token)}`;
+  }
+}
@@ -0,0 +1,37 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { User, UserSchema } from "../user/user.model";
+import { Follow, FollowSchema } from "../social/schemas/follow.schema";
+import { SubscriptionModule } from "../subscription/subscription.module";
+import { DataExport, DataExportSchema } from "./data-export.model";
+import { AccountDeletion, AccountDeletionSchema } from "./account-deletion.model";
+import { ACCOUNT_PURGE_MODEL_DEFINITIONS, USER_DATA_MODEL_DEFINITIONS } from "./account-data";
+import { AccountExportService } from "./account-export.service";
+import { AccountDeletionService } from "./account-deletion.service";
+import { AccountExportController } from "./account-export.controller";
+import { AccountDeletionController } from "./account-deletion.controller";
+import { AdminAccountExportController } from "./admin-account-export.controller";
+import { AdminAccountDeletionController } from "./admin-account-deletion.controller";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: DataExport.name, schema: DataExportSchema },
+      { name: AccountDeletion.name, schema: AccountDeletionSchema },
+      { name: Follow.name, schema: FollowSchema },
+      ...USER_DATA_MODEL_DEFINITIONS,
+      ...ACCOUNT_PURGE_MODEL_DEFINITIONS,
+    ]),
+    SubscriptionModule,
+  ],
+  controllers: [
+    AccountExportController,
+    AccountDeletionController,
+    AdminAccountExportController,
+    AdminAccountDeletionController,
+  ],
+  providers: [AccountExportService, AccountDeletionService],
+  exports: [AccountExportService, AccountDeletionService],
+})
+export class AccountModule {}
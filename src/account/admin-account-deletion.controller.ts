@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { AccountDeletionService } from "./account-deletion.service";
+import { ScheduleDeletionDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/users")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class AdminAccountDeletionController {
+  constructor(private readonly deletionService: AccountDeletionService) {}
+
+  @Delete(":userId")
+  @ApiOperation({
+    summary: "Schedule a user's account for deletion",
+    description: "Only an admin can restore an account closed this way.",
+  })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Deletion scheduled" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async scheduleDeletion(
+    @Param("userId") userId: string,
+    @Body() body: ScheduleDeletionDto,
+    @Request() req: any
+  ) {
+    return this.deletionService.requestDeletion(userId, req.user._id.toString(), {
+      reason: body.reason,
+      requestedByAdmin: true,
+    });
+  }
+
+  @Post(":userId/restore")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Cancel a user's scheduled account deletion" })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Deletion cancelled" })
+  @ApiResponse({ status: 400, description: "Account is not scheduled for deletion" })
+  async restore(@Param("userId") userId: string, @Request() req: any) {
+    return this.deletionService.restore(userId, req.user._id.toString(), true);
+  }
+
+  @Get(":userId/deletions")
+  @ApiOperation({
+    summary: "Deletion audit trail of a user",
+    description: "Kept after the account is purged.",
+  })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Deletion records, most recent first" })
+  async listDeletions(@Param("userId") userId: string) {
+    return this.deletionService.listDeletions(userId);
+  }
+}
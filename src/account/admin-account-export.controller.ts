@@ -0,0 +1,40 @@
+import { Controller, Get, Param, Post, Request, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { AccountExportService } from "./account-export.service";
+
+@ApiTags("admin")
+@Controller("admin/users")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class AdminAccountExportController {
+  constructor(private readonly exportService: AccountExportService) {}
+
+  @Post(":userId/exports")
+  @ApiOperation({
+    summary: "Export a user's data on their behalf",
+    description: "Free-text CBT content (thoughts, mood notes, exercise responses) is left out.",
+  })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 201, description: "Export queued" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async requestExport(@Param("userId") userId: string, @Request() req: any) {
+    return this.exportService.requestExport(userId, req.user._id.toString());
+  }
+
+  @Get(":userId/exports")
+  @ApiOperation({ summary: "List a user's data exports with their download links" })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Exports, most recent first" })
+  async listExports(@Param("userId") userId: string) {
+    return this.exportService.listExports(userId);
+  }
+}
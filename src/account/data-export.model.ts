@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type DataExportStatus = "queued" | "processing" | "ready" | "failed";
+
+export interface IDataExport extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId;
+  // Only true when users export their own data
+  includeSensitive: boolean;
+  status: DataExportStatus;
+  // Archive stored in the data_exports GridFS bucket
+  fileId?: mongoose.Types.ObjectId;
+  fileName?: string;
+  sizeBytes?: number;
+  recordCounts?: Record<string, number>;
+  error?: string;
+  completedAt?: Date;
+  // Archive and download link stop working; the cleanup job removes both
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const DataExport = { name: "DataExport" };
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    requestedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    includeSensitive: { type: Boolean, default: false },
+    status: {
+      type: String,
+      enum: ["queued", "processing", "ready", "failed"],
+      default: "queued",
+    },
+    fileId: { type: Schema.Types.ObjectId },
+    fileName: { type: String },
+    sizeBytes: { type: Number },
+    recordCounts: { type: Schema.Types.Mixed },
+    error: { type: String },
+    completedAt: { type: Date },
+    expiresAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "data_exports",
+  }
+);
+
+dataExportSchema.index({ userId: 1, createdAt: -1 });
+// Cleanup sweep
+dataExportSchema.index({ expiresAt: 1 });
+
+export const DataExportSchema = dataExportSchema;
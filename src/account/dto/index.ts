@@ -0,0 +1 @@
+export * from "./schedule-deletion.dto";
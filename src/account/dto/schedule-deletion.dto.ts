@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, MaxLength } from "class-validator";
+
+export class ScheduleDeletionDto {
+  @ApiPropertyOptional({
+    example: "Requested by the user via support ticket #4821",
+    description: "Kept on the deletion record for the audit trail",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * One privileged request: a call to an admin/moderator route, or a request
+ * made with a read-only impersonation token.
+ */
+export interface IAdminAuditLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId;
+  actorRole?: string;
+  // e.g. "users.tier_updated"; defaults to "<Controller>.<handler>"
+  action: string;
+  method: string;
+  path: string;
+  targetUserId?: mongoose.Types.ObjectId;
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  // Request body with secrets removed
+  body?: Record<string, unknown>;
+  // What the action changed, e.g. the previous tier or the removed post
+  details?: Record<string, unknown>;
+  impersonation: boolean;
+  outcome: "success" | "error";
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const AdminAuditLog = { name: "AdminAuditLog" };
+
+const adminAuditLogSchema = new Schema<IAdminAuditLog>(
+  {
+    actorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    actorRole: { type: String },
+    action: { type: String, required: true },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    targetUserId: { type: Schema.Types.ObjectId, ref: "User" },
+    params: { type: Schema.Types.Mixed },
+    query: { type: Schema.Types.Mixed },
+    body: { type: Schema.Types.Mixed },
+    details: { type: Schema.Types.Mixed },
+    impersonation: { type: Boolean, default: false },
+    outcome: { type: String, enum: ["success", "error"], required: true },
+    statusCode: { type: Number },
+    error: { type: String },
+    durationMs: { type: Number, required: true },
+    ip: { type: String },
+    userAgent: { type: String },
+  },
+  {
+    timestamps: true,
+    collection: "admin_audit_logs",
+  }
+);
+
+adminAuditLogSchema.index({ createdAt: -1 });
+adminAuditLogSchema.index({ actorId: 1, createdAt: -1 });
+adminAuditLogSchema.index({ targetUserId: 1, createdAt: -1 });
+adminAuditLogSchema.index({ action: 1, createdAt: -1 });
+
+export const AdminAuditLogSchema = adminAuditLogSchema;
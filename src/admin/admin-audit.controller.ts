@@ -0,0 +1,23 @@
+import { Controller, Get, Query, UseGuards } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { AdminAuditService } from "./admin-audit.service";
+import { AuditLogQueryDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/audit-log")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class AdminAuditController {
+  constructor(private readonly auditService: AdminAuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Admin and moderator actions, including impersonated requests" })
+  @ApiResponse({ status: 200, description: "Audit entries, most recent first" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async list(@Query() query: AuditLogQueryDto) {
+    return this.auditService.list(query);
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  SetMetadata,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Observable, catchError, from, mergeMap, throwError } from "rxjs";
+import { ROLES_KEY } from "../auth/guards/roles.guard";
+import { AdminAuditService } from "./admin-audit.service";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+export const AUDIT_ACTION_KEY = "auditAction";
+
+/**
+ * Name a privileged route's entry in the admin audit log.
+ * Usage: @AuditAction("users.tier_updated")
+ */
+export const AuditAction = (action: string) => SetMetadata(AUDIT_ACTION_KEY, action);
+
+/**
+ * Attach what an admin action changed (previous values, removed content) to
+ * its audit log entry.
+ */
+export const addAuditDetails = (request: any, details: Record<string, unknown>) => {
+  request.auditDetails = { ...(request.auditDetails || {}), ...details };
+};
+
+/**
+ * Writes every request to a @Roles route, and every request made with an
+ * impersonation token, to the admin audit log. Runs after the guards, so
+ * only requests that were allowed through are recorded, with their outcome.
+ */
+@Injectable()
+export class AdminAuditInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AdminAuditService
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== "http") {
+      return next.handle();
+    }
+    const request = context.switchToHttp().getRequest();
+    const roles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const impersonatedBy: string | undefined = request.impersonatedBy;
+    if (!roles?.length && !impersonatedBy) {
+      return next.handle();
+    }
+
+    const action = impersonatedBy
+      ? "impersonation.request"
+      : this.reflector.get<string>(AUDIT_ACTION_KEY, context.getHandler()) ||
+        `${context.getClass().name}.${context.getHandler().name}`;
+    const startedAt = Date.now();
+
+    const write = async (outcome: "success" | "error", error?: any) => {
+      const userId = request.user?._id?.toString();
+      try {
+        await this.auditService.record({
+          actorId: impersonatedBy || userId,
+          actorRole: impersonatedBy ? "admin" : request.user?.role,
+          action,
+          method: request.method,
+          path: request.originalUrl?.split("?")[0] || request.url,
+          targetUserId: impersonatedBy
+            ? userId
+            : request.params?.userId || (request.auditDetails?.targetUserId as string),
+          params: request.params,
+          query: request.query,
+          body: request.body,
+          details: request.auditDetails,
+          impersonation: !!impersonatedBy,
+          outcome,
+          statusCode: error ? error.status || 500 : undefined,
+          error: error ? getErrorMessage(error) : undefined,
+          durationMs: Date.now() - startedAt,
+          ip: request.ip,
+          userAgent: request.headers?.["user-agent"],
+        });
+      } catch (auditError) {
+        logger.error(`[AdminAudit] Could not record ${action}: ${getErrorMessage(auditError)}`);
+      }
+    };
+
+    return next.handle().pipe(
+      mergeMap((result) => from(write("success").then(() => result))),
+      catchError((error) =>
+        from(write("error", error)).pipe(mergeMap(() => throwError(() => error)))
+      )
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AdminAuditLog, IAdminAuditLog } from "./admin-audit-log.model";
+import { AuditLogQueryDto } from "./dto";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+
+export interface AdminAuditEntry {
+  actorId: string;
+  actorRole?: string;
+  action: string;
+  method: string;
+  path: string;
+  targetUserId?: string;
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  details?: Record<string, unknown>;
+  impersonation?: boolean;
+  outcome: "success" | "error";
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+const SECRET_KEY_PATTERN = /password|token|secret|authorization/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 4;
+
+// Copy of a request payload that is safe to keep: secrets masked, long text cut
+const sanitize = (value: unknown, depth = 0): unknown => {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  if (Array.isArray(value)) return value.slice(0, 50).map((item) => sanitize(item, depth + 1));
+  const clean: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    clean[key] = SECRET_KEY_PATTERN.test(key) ? "[redacted]" : sanitize(item, depth + 1);
+  }
+  return clean;
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "object" && Object.keys(value as object).length === 0);
+
+@Injectable()
+export class AdminAuditService {
+  constructor(
+    @InjectModel(AdminAuditLog.name) private auditModel: Model<IAdminAuditLog>
+  ) {}
+
+  async record(entry: AdminAuditEntry): Promise<void> {
+    await this.auditModel.create({
+      ...entry,
+      targetUserId: isMongoObjectIdString(entry.targetUserId) ? entry.targetUserId : undefined,
+      params: isEmpty(entry.params) ? undefined : sanitize(entry.params),
+      query: isEmpty(entry.query) ? undefined : sanitize(entry.query),
+      body: isEmpty(entry.body) ? undefined : sanitize(entry.body),
+      details: isEmpty(entry.details) ? undefined : sanitize(entry.details),
+      error: entry.error?.slice(0, MAX_STRING_LENGTH),
+    });
+  }
+
+  async list(query: AuditLogQueryDto) {
+    const filter: Record<string, unknown> = {};
+    if (query.actorId) filter.actorId = query.actorId;
+    if (query.targetUserId) filter.targetUserId = query.targetUserId;
+    if (query.action) filter.action = query.action;
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from ? { $gte: new Date(query.from) } : {}),
+        ...(query.to ? { $lt: new Date(query.to) } : {}),
+      };
+    }
+    return this.auditModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(query.limit ?? 50)
+      .lean();
+  }
+}
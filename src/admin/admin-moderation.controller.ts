@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { AdminModerationService } from "./admin-moderation.service";
+import { AuditAction, addAuditDetails } from "./admin-audit.interceptor";
+import { ModerationPostQueryDto, ModerationReasonDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/social")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin", "moderator")
+@ApiBearerAuth("JWT-auth")
+export class AdminModerationController {
+  constructor(private readonly moderationService: AdminModerationService) {}
+
+  @Get("posts")
+  @AuditAction("social.posts_reviewed")
+  @ApiOperation({ summary: "List posts of every visibility for moderation" })
+  @ApiResponse({ status: 200, description: "Posts, newest first, with pagination" })
+  @ApiResponse({ status: 403, description: "Admin or moderator access required" })
+  async listPosts(@Query() query: ModerationPostQueryDto) {
+    return this.moderationService.listPosts(query);
+  }
+
+  @Delete("posts/:postId")
+  @AuditAction("social.post_removed")
+  @ApiOperation({ summary: "Remove a post" })
+  @ApiParam({ name: "postId", description: "Post ID" })
+  @ApiResponse({ status: 200, description: "Post removed; its content is kept in the audit log" })
+  @ApiResponse({ status: 404, description: "Post not found" })
+  async removePost(
+    @Param("postId") postId: string,
+    @Body() _body: ModerationReasonDto,
+    @Request() req: any
+  ) {
+    const removed = await this.moderationService.removePost(postId);
+    addAuditDetails(req, { targetUserId: removed.authorId, removed });
+    return removed;
+  }
+
+  @Delete("posts/:postId/comments/:commentId")
+  @AuditAction("social.comment_removed")
+  @ApiOperation({ summary: "Remove a comment" })
+  @ApiParam({ name: "postId", description: "Post ID" })
+  @ApiParam({ name: "commentId", description: "Comment ID" })
+  @ApiResponse({ status: 200, description: "Comment removed; its text is kept in the audit log" })
+  @ApiResponse({ status: 404, description: "Comment not found" })
+  async removeComment(
+    @Param("postId") postId: string,
+    @Param("commentId") commentId: string,
+    @Body() _body: ModerationReasonDto,
+    @Request() req: any
+  ) {
+    const removed = await this.moderationService.removeComment(postId, commentId);
+    addAuditDetails(req, { targetUserId: removed.authorId, removed });
+    return removed;
+  }
+}
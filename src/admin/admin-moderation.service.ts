@@ -0,0 +1,98 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { SocialPost } from "../social/schemas/social-post.schema";
+import { ModerationPostQueryDto } from "./dto";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import logger from "../utils/logger";
+
+@Injectable()
+export class AdminModerationService {
+  constructor(@InjectModel(SocialPost.name) private socialPostModel: Model<any>) {}
+
+  /**
+   * Recent posts of every visibility, for review
+   */
+  async listPosts(query: ModerationPostQueryDto) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const filter: Record<string, unknown> = {};
+    if (query.userId) filter.userId = query.userId;
+
+    const [posts, total] = await Promise.all([
+      this.socialPostModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("userId", "name email")
+        .populate("comments.userId", "name email")
+        .lean(),
+      this.socialPostModel.countDocuments(filter),
+    ]);
+
+    return {
+      posts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Delete a post. Returns what was removed so the audit log keeps it.
+   */
+  async removePost(postId: string) {
+    if (!isMongoObjectIdString(postId)) {
+      throw new NotFoundException("Post not found");
+    }
+    const post = await this.socialPostModel.findByIdAndDelete(postId).lean<any>();
+    if (!post) {
+      throw new NotFoundException("Post not found");
+    }
+
+    logger.info(`[Moderation] Removed post ${postId} by user ${post.userId}`);
+    return {
+      postId,
+      authorId: post.userId.toString(),
+      type: post.type,
+      visibility: post.visibility,
+      title: post.content?.title,
+      caption: post.caption,
+      commentsCount: post.comments?.length || 0,
+      createdAt: post.createdAt,
+    };
+  }
+
+  /**
+   * Delete one comment. Returns what was removed so the audit log keeps it.
+   */
+  async removeComment(postId: string, commentId: string) {
+    if (!isMongoObjectIdString(postId) || !isMongoObjectIdString(commentId)) {
+      throw new NotFoundException("Comment not found");
+    }
+    // Returns the post as it was, with the comment still in it
+    const post = await this.socialPostModel
+      .findOneAndUpdate(
+        { _id: postId, "comments._id": commentId },
+        { $pull: { comments: { _id: commentId } } }
+      )
+      .lean<any>();
+    const comment = post?.comments?.find((c: any) => c._id.toString() === commentId);
+    if (!comment) {
+      throw new NotFoundException("Comment not found");
+    }
+
+    logger.info(`[Moderation] Removed comment ${commentId} on post ${postId}`);
+    return {
+      postId,
+      commentId,
+      authorId: comment.userId?.toString(),
+      text: comment.text,
+      createdAt: comment.createdAt,
+    };
+  }
+}
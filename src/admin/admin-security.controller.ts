@@ -0,0 +1,23 @@
+import { Controller, Get, Query, UseGuards } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { SecurityEventService } from "../auth/security-event.service";
+import { SecurityEventQueryDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/security-events")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class AdminSecurityController {
+  constructor(private readonly securityEventService: SecurityEventService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Denied access to other users' data, and delegation changes" })
+  @ApiResponse({ status: 200, description: "Security events, most recent first" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async list(@Query() query: SecurityEventQueryDto) {
+    return this.securityEventService.list(query);
+  }
+}
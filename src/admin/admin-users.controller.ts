@@ -0,0 +1,126 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { AdminUsersService } from "./admin-users.service";
+import { AuditAction, addAuditDetails } from "./admin-audit.interceptor";
+import { AdminUserQueryDto, UpdateUserRoleDto, UpdateUserTierDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/users")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class AdminUsersController {
+  constructor(private readonly adminUsersService: AdminUsersService) {}
+
+  @Get()
+  @AuditAction("users.searched")
+  @ApiOperation({ summary: "Search and list users" })
+  @ApiResponse({ status: 200, description: "Users, newest first, with pagination" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async listUsers(@Query() query: AdminUserQueryDto) {
+    return this.adminUsersService.listUsers(query);
+  }
+
+  @Get(":userId")
+  @AuditAction("users.viewed")
+  @ApiOperation({ summary: "A user's profile, engagement and subscription" })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "User overview" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async getUser(@Param("userId") userId: string) {
+    return this.adminUsersService.getUserOverview(userId);
+  }
+
+  @Put(":userId/tier")
+  @AuditAction("users.tier_updated")
+  @ApiOperation({
+    summary: "Grant or revoke a subscription tier by hand",
+    description: "Set tier to free to revoke. A later Stripe update for the user's own subscription overrides it.",
+  })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Tier updated" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async setTier(
+    @Param("userId") userId: string,
+    @Body() body: UpdateUserTierDto,
+    @Request() req: any
+  ) {
+    const result = await this.adminUsersService.setTier(userId, body.tier);
+    addAuditDetails(req, { previousTier: result.previousTier });
+    return result;
+  }
+
+  @Put(":userId/role")
+  @AuditAction("users.role_updated")
+  @ApiOperation({ summary: "Change a user's role" })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Role updated" })
+  @ApiResponse({ status: 400, description: "Own role cannot be changed" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async setRole(
+    @Param("userId") userId: string,
+    @Body() body: UpdateUserRoleDto,
+    @Request() req: any
+  ) {
+    const result = await this.adminUsersService.setRole(
+      req.user._id.toString(),
+      userId,
+      body.role
+    );
+    addAuditDetails(req, { previousRole: result.previousRole });
+    return result;
+  }
+
+  @Post(":userId/streak/reset")
+  @HttpCode(HttpStatus.OK)
+  @AuditAction("users.streak_reset")
+  @ApiOperation({
+    summary: "Reset a user's streaks",
+    description: "Current and longest streak restart from tomorrow; earlier days stop counting.",
+  })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 200, description: "Streaks reset" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async resetStreak(@Param("userId") userId: string, @Request() req: any) {
+    const result = await this.adminUsersService.resetStreak(userId);
+    addAuditDetails(req, {
+      previousStreak: result.previousStreak,
+      previousLongestStreak: result.previousLongestStreak,
+    });
+    return result;
+  }
+
+  @Post(":userId/impersonate")
+  @AuditAction("users.impersonation_started")
+  @ApiOperation({
+    summary: "Get a read-only token to see the app as the user",
+    description:
+      "The token expires after 15 minutes and only allows GET requests. Every request made with it is written to the audit log.",
+  })
+  @ApiParam({ name: "userId", description: "User ID" })
+  @ApiResponse({ status: 201, description: "Impersonation token" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  async impersonate(@Param("userId") userId: string, @Request() req: any) {
+    return this.adminUsersService.impersonate(req.user._id.toString(), userId);
+  }
+}
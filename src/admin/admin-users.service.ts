@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { Model } from "mongoose";
+import { User } from "../user/user.model";
+import { IUserData, JwtPayload, UserRole } from "../types/interfaces";
+import { SubscriptionTier } from "../enums/enumSubscription";
+import { QuotaService } from "../quota/quota.service";
+import { EngagementService } from "../engagement/engagement.service";
+import { SessionService } from "../auth/session.service";
+import { AdminUserQueryDto } from "./dto";
+import { escapeRegex } from "../utils/helpers";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+
+const IMPERSONATION_TTL_MINUTES = 15;
+const LIST_FIELDS =
+  "name email role subscriptionTier subscriptionStatus emailVerified oauthProvider deletionScheduledFor engagement.lastActiveDate createdAt";
+
+@Injectable()
+export class AdminUsersService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private jwtService: JwtService,
+    private quotaService: QuotaService,
+    private engagementService: EngagementService,
+    private sessionService: SessionService
+  ) {}
+
+  async listUsers(query: AdminUserQueryDto) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const filter: Record<string, unknown> = {};
+    if (query.search?.trim()) {
+      const pattern = new RegExp(escapeRegex(query.search.trim()), "i");
+      filter.$or = [{ name: pattern }, { email: pattern }];
+    }
+    if (query.role) {
+      // Users created before roles existed have none
+      filter.role = query.role === "user" ? { $in: ["user", null] } : query.role;
+    }
+    if (query.tier) {
+      filter.subscriptionTier =
+        query.tier === SubscriptionTier.FREE ? { $in: [SubscriptionTier.FREE, null] } : query.tier;
+    }
+
+    const [users, total] = await Promise.all([
+      this.userModel
+        .find(filter)
+        .select(LIST_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.userModel.countDocuments(filter),
+    ]);
+
+    return {
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Profile, engagement, subscription and sign-in state of a user
+   */
+  async getUserOverview(userId: string) {
+    const user = await this.findUser(
+      userId,
+      "-password -deviceTokens -engagement.weeklySummaries -mealLearningProfile"
+    );
+
+    const [quotas, sessions] = await Promise.all([
+      this.quotaService.getQuotaStatus(userId),
+      this.sessionService.listSessions(userId),
+    ]);
+    const { engagement, ...profile } = user as any;
+
+    return {
+      profile,
+      engagement: engagement
+        ? {
+            habitScore: engagement.habitScore,
+            streakDays: engagement.streakDays,
+            longestStreak: engagement.longestStreak,
+            streakResetDate: engagement.streakResetDate,
+            lastActiveDate: engagement.lastActiveDate,
+            totalMealsLogged: engagement.totalMealsLogged,
+            totalDaysTracked: engagement.totalDaysTracked,
+            badges: engagement.badges || [],
+            xp: engagement.xp,
+            level: engagement.level,
+          }
+        : null,
+      subscription: {
+        tier: user.subscriptionTier || SubscriptionTier.FREE,
+        status: user.subscriptionStatus || "none",
+        stripeCustomerId: user.stripeCustomerId,
+        stripeSubscriptionId: user.stripeSubscriptionId,
+        endDate: user.subscriptionEndDate,
+        quotas,
+      },
+      activeSessions: sessions.length,
+    };
+  }
+
+  /**
+   * Grant a tier by hand, or revoke it with "free". A later Stripe webhook for
+   * the user's own subscription overrides it.
+   */
+  async setTier(userId: string, tier: SubscriptionTier) {
+    const user = await this.findUser(userId, "subscriptionTier");
+    await this.userModel.updateOne({ _id: userId }, { $set: { subscriptionTier: tier } });
+    return { userId, previousTier: user.subscriptionTier || SubscriptionTier.FREE, tier };
+  }
+
+  async setRole(actorId: string, userId: string, role: UserRole) {
+    if (actorId === userId) {
+      throw new BadRequestException("You cannot change your own role");
+    }
+    const user = await this.findUser(userId, "role");
+    await this.userModel.updateOne({ _id: userId }, { $set: { role } });
+    return { userId, previousRole: user.role || "user", role };
+  }
+
+  async resetStreak(userId: string) {
+    await this.findUser(userId, "_id");
+    return { userId, ...(await this.engagementService.resetStreak(userId)) };
+  }
+
+  /**
+   * Short-lived, read-only access token for seeing the app as the user does
+   */
+  async impersonate(adminId: string, userId: string) {
+    if (adminId === userId) {
+      throw new BadRequestException("You cannot impersonate yourself");
+    }
+    const user = await this.findUser(userId, "name email");
+    const payload: JwtPayload = { id: userId, imp: adminId };
+    return {
+      token: this.jwtService.sign(payload, { expiresIn: IMPERSONATION_TTL_MINUTES * 60 }),
+      expiresIn: IMPERSONATION_TTL_MINUTES * 60,
+      readOnly: true,
+      user: { id: userId, name: user.name, email: user.email },
+    };
+  }
+
+  private async findUser(userId: string, fields: string): Promise<IUserData> {
+    if (!isMongoObjectIdString(userId)) {
+      throw new NotFoundException("User not found");
+    }
+    const user = await this.userModel.findById(userId).select(fields).lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+    return user as IUserData;
+  }
+}
@@ -0,0 +1,43 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { User, UserSchema } from "../user/user.model";
+import { SocialPost, SocialPostSchema } from "../social/schemas/social-post.schema";
+import { QuotaModule } from "../quota/quota.module";
+import { EngagementModule } from "../engagement/engagement.module";
+import { AdminAuditLog, AdminAuditLogSchema } from "./admin-audit-log.model";
+import { AdminAuditService } from "./admin-audit.service";
+import { AdminAuditInterceptor } from "./admin-audit.interceptor";
+import { AdminUsersService } from "./admin-users.service";
+import { AdminModerationService } from "./admin-moderation.service";
+import { AdminUsersController } from "./admin-users.controller";
+import { AdminModerationController } from "./admin-moderation.controller";
+import { AdminAuditController } from "./admin-audit.controller";
+import { AdminSecurityController } from "./admin-security.controller";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AdminAuditLog.name, schema: AdminAuditLogSchema },
+      { name: User.name, schema: UserSchema },
+      { name: SocialPost.name, schema: SocialPostSchema },
+    ]),
+    QuotaModule,
+    EngagementModule,
+  ],
+  controllers: [
+    AdminUsersController,
+    AdminModerationController,
+    AdminAuditController,
+    AdminSecurityController,
+  ],
+  providers: [
+    AdminAuditService,
+    AdminUsersService,
+    AdminModerationService,
+    // Audits @Roles routes of every module, not only this one
+    { provide: APP_INTERCEPTOR, useClass: AdminAuditInterceptor },
+  ],
+  exports: [AdminAuditService],
+})
+export class AdminModule {}
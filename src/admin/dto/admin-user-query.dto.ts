@@ -0,0 +1,40 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, IsIn, IsEnum, IsInt, Min, Max, MaxLength } from "class-validator";
+import { Type } from "class-transformer";
+import { SubscriptionTier } from "../../enums/enumSubscription";
+import { UserRole } from "../../types/interfaces";
+
+export const USER_ROLES: UserRole[] = ["user", "coach", "moderator", "admin"];
+
+export class AdminUserQueryDto {
+  @ApiPropertyOptional({ description: "Matches name or email (case-insensitive)" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({ enum: USER_ROLES })
+  @IsOptional()
+  @IsIn(USER_ROLES)
+  role?: UserRole;
+
+  @ApiPropertyOptional({ enum: SubscriptionTier })
+  @IsOptional()
+  @IsEnum(SubscriptionTier)
+  tier?: SubscriptionTier;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, IsMongoId, IsDateString, IsInt, Min, Max } from "class-validator";
+import { Type } from "class-transformer";
+
+export class AuditLogQueryDto {
+  @ApiPropertyOptional({ description: "Admin or moderator who acted" })
+  @IsOptional()
+  @IsMongoId()
+  actorId?: string;
+
+  @ApiPropertyOptional({ description: "User the action was about" })
+  @IsOptional()
+  @IsMongoId()
+  targetUserId?: string;
+
+  @ApiPropertyOptional({ description: "Action name, e.g. users.tier_updated" })
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  @ApiPropertyOptional({ description: "From (ISO date or datetime)" })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: "To, exclusive (ISO date or datetime)" })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,5 @@
+export * from "./admin-user-query.dto";
+export * from "./update-user.dto";
+export * from "./moderation.dto";
+export * from "./audit-log-query.dto";
+export * from "./security-event-query.dto";
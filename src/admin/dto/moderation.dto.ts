@@ -0,0 +1,33 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, IsMongoId, IsInt, Min, Max, MaxLength } from "class-validator";
+import { Type } from "class-transformer";
+
+export class ModerationPostQueryDto {
+  @ApiPropertyOptional({ description: "Only posts by this user" })
+  @IsOptional()
+  @IsMongoId()
+  userId?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ModerationReasonDto {
+  @ApiPropertyOptional({ example: "Spam" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsIn, IsMongoId, IsDateString, IsInt, Min, Max } from "class-validator";
+import { Type } from "class-transformer";
+import { SecurityEventType } from "../../auth/security-event.model";
+
+const SECURITY_EVENT_TYPES: SecurityEventType[] = [
+  "access_denied",
+  "delegation_granted",
+  "delegation_revoked",
+];
+
+export class SecurityEventQueryDto {
+  @ApiPropertyOptional({ enum: SECURITY_EVENT_TYPES })
+  @IsOptional()
+  @IsIn(SECURITY_EVENT_TYPES)
+  type?: SecurityEventType;
+
+  @ApiPropertyOptional({ description: "User who made the request" })
+  @IsOptional()
+  @IsMongoId()
+  actorId?: string;
+
+  @ApiPropertyOptional({ description: "Owner of the data" })
+  @IsOptional()
+  @IsMongoId()
+  ownerId?: string;
+
+  @ApiPropertyOptional({ description: "From (ISO date or datetime)" })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: "To, exclusive (ISO date or datetime)" })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
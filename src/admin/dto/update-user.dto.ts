@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsIn, IsOptional, IsString, MaxLength } from "class-validator";
+import { SubscriptionTier } from "../../enums/enumSubscription";
+import { UserRole } from "../../types/interfaces";
+import { USER_ROLES } from "./admin-user-query.dto";
+
+export class UpdateUserTierDto {
+  @ApiProperty({ enum: SubscriptionTier, description: "free revokes a granted tier" })
+  @IsEnum(SubscriptionTier)
+  tier: SubscriptionTier;
+
+  @ApiPropertyOptional({ example: "Beta tester compensation" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class UpdateUserRoleDto {
+  @ApiProperty({ enum: USER_ROLES })
+  @IsIn(USER_ROLES)
+  role: UserRole;
+}
@@ -4,6 +4,10 @@ import { MongooseModule } from "@nestjs/mongoose";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 import { ThrottlerModule, ThrottlerGuard } from "@nestjs/throttler";
 import { AuthModule } from "./auth/auth.module";
+import { LlmModule } from "./llm/llm.module";
+import { JobsModule } from "./jobs/jobs.module";
+import { EventsModule } from "./events/events.module";
+import { EmailModule } from "./email/email.module";
 import { UserModule } from "./user/user.module";
 import { GeneratorModule } from "./generator/generator.module";
 import { PlanModule } from "./plan/plan.module";
@@ -12,6 +16,7 @@ import { GoalModule } from "./goals/goal.module";
 import { MealModule } from "./meal/meal.module";
 import { RecipeModule } from "./recipe/recipe.module";
 import { ShoppingModule } from "./shopping/shopping.module";
+import { PantryModule } from "./pantry/pantry.module";
 import { ChatModule } from "./chat/chat.module";
 import { EngagementModule } from "./engagement/engagement.module";
 import { ChallengeModule } from "./challenge/challenge.module";
@@ -22,6 +27,10 @@ import { SubscriptionModule } from "./subscription/subscription.module";
 import { CBTModule } from "./cbt/cbt.module";
 import { SocialModule } from "./social/social.module";
 import { EatingProfileModule } from "./eating-profile/eating-profile.module";
+import { AccountModule } from "./account/account.module";
+import { AdminModule } from "./admin/admin.module";
+import { CoachModule } from "./coach/coach.module";
+import { HouseholdModule } from "./household/household.module";
 import logger from "./utils/logger";
 
 @Module({
@@ -77,6 +86,10 @@ import logger from "./utils/logger";
       inject: [ConfigService],
     }),
     AuthModule,
+    LlmModule,
+    JobsModule,
+    EventsModule,
+    EmailModule,
     UserModule,
     GeneratorModule,
     PlanModule,
@@ -85,6 +98,7 @@ import logger from "./utils/logger";
     MealModule,
     RecipeModule,
     ShoppingModule,
+    PantryModule,
     ChatModule,
     EngagementModule,
     ChallengeModule,
@@ -95,6 +109,10 @@ import logger from "./utils/logger";
     CBTModule,
     SocialModule,
     EatingProfileModule,
+    AccountModule,
+    AdminModule,
+    CoachModule,
+    HouseholdModule,
   ],
   providers: [
     { provide: APP_GUARD, useClass: ThrottlerGuard },
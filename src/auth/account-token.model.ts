@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type AccountTokenPurpose = "password_reset" | "email_verification";
+
+/**
+ * Server-side record of an emailed token. The token itself is a signed JWT
+ * whose jti is this record's id; the record makes it single-use and lets
+ * newer tokens invalidate older ones.
+ */
+export interface IAccountToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  // Lowercased address the token was sent to
+  email: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const AccountToken = { name: "AccountToken" };
+
+const accountTokenSchema = new Schema<IAccountToken>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    purpose: {
+      type: String,
+      enum: ["password_reset", "email_verification"],
+      required: true,
+    },
+    email: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "account_tokens",
+  }
+);
+
+// Per-email rate limiting
+accountTokenSchema.index({ email: 1, purpose: 1, createdAt: -1 });
+accountTokenSchema.index({ userId: 1, purpose: 1, usedAt: 1 });
+// Records outlive their token by a day so recent sends still count for rate limiting
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const AccountTokenSchema = accountTokenSchema;
@@ -0,0 +1,221 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { Model } from "mongoose";
+import { AccountToken, AccountTokenPurpose, IAccountToken } from "./account-token.model";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import { SessionService } from "./session.service";
+import { EmailService } from "../email/email.service";
+import { emailVerificationEmail, passwordResetEmail } from "../email/templates";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import logger from "../utils/logger";
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 48;
+// Emails of one kind sent to one address per window
+const MAX_EMAILS_PER_WINDOW = 3;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+// Sets these tokens apart from access tokens, which share the app secret
+export const ACCOUNT_TOKEN_AUDIENCE = "account-token";
+
+interface AccountTokenPayload {
+  sub: string;
+  purpose: AccountTokenPurpose;
+  jti: string;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Password reset and email verification links.
+ *
+ * Tokens are JWTs signed with the app secret for their own audience, carrying
+ * the user, the purpose and the id of an account_tokens record. The record is marked used when the
+ * token is redeemed and issuing a new token retires older unused ones, so
+ * each link works once and only the latest one works.
+ */
+@Injectable()
+export class AccountTokenService {
+  constructor(
+    @InjectModel(AccountToken.name) private tokenModel: Model<IAccountToken>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private jwtService: JwtService,
+    private emailService: EmailService,
+    private sessionService: SessionService
+  ) {}
+
+  /**
+   * Email a reset link if the address belongs to an account. Resolves the
+   * same way either way so the route can't be used to probe for accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userModel.findOne({ email: email.trim() }).select("_id email name").lean();
+    if (!user?.email) {
+      logger.info("[AccountTokenService] Password reset requested for an unknown email");
+      return;
+    }
+    if (await this.isRateLimited(user.email, "password_reset")) {
+      logger.warn(`[AccountTokenService] Password reset rate limit reached for user ${user._id}`);
+      return;
+    }
+
+    const token = await this.issueToken(
+      user._id.toString(),
+      user.email,
+      "password_reset",
+      PASSWORD_RESET_TTL_MINUTES * 60
+    );
+    await this.emailService.send({
+      to: user.email,
+      ...passwordResetEmail(
+        user.name,
+        this.emailService.buildAppLink("/reset-password", { token }),
+        PASSWORD_RESET_TTL_MINUTES
+      ),
+    });
+  }
+
+  /**
+   * Set a new password from a reset link and sign out every session
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const record = await this.redeemToken(token, "password_reset");
+    const user = await this.userModel.findById(record.userId);
+    if (!user) {
+      throw new BadRequestException("Invalid or expired link");
+    }
+
+    user.password = newPassword;
+    // Following the emailed link proves the address, as long as it hasn't changed since
+    if (user.email && normalizeEmail(user.email) === record.email && !user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    await this.sessionService.revokeAll(user._id.toString());
+    logger.info(`[AccountTokenService] Password reset for user ${user._id}`);
+  }
+
+  /**
+   * Email a verification link to the user's current address
+   */
+  async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.userModel.findById(userId).select("_id email name emailVerified").lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+    if (!user.email) {
+      throw new BadRequestException("Account has no email address");
+    }
+    if (user.emailVerified) {
+      throw new BadRequestException("Email is already verified");
+    }
+    if (await this.isRateLimited(user.email, "email_verification")) {
+      throw new HttpException(
+        "Too many verification emails, please try again later",
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    const token = await this.issueToken(
+      userId,
+      user.email,
+      "email_verification",
+      EMAIL_VERIFICATION_TTL_HOURS * 60 * 60
+    );
+    const result = await this.emailService.send({
+      to: user.email,
+      ...emailVerificationEmail(
+        user.name,
+        this.emailService.buildAppLink("/verify-email", { token }),
+        EMAIL_VERIFICATION_TTL_HOURS
+      ),
+    });
+    if (result.status === "failed") {
+      throw new ServiceUnavailableException("Could not send the verification email, please try again later");
+    }
+  }
+
+  async verifyEmail(token: string): Promise<{ email: string }> {
+    const record = await this.redeemToken(token, "email_verification");
+    const user = await this.userModel.findById(record.userId).select("email").lean();
+    if (!user?.email || normalizeEmail(user.email) !== record.email) {
+      throw new BadRequestException("This link was sent to an email address that is no longer on the account");
+    }
+
+    await this.userModel.updateOne(
+      { _id: record.userId },
+      { $set: { emailVerified: true, emailVerifiedAt: new Date() } }
+    );
+    logger.info(`[AccountTokenService] Email verified for user ${record.userId}`);
+    return { email: user.email };
+  }
+
+  private async issueToken(
+    userId: string,
+    email: string,
+    purpose: AccountTokenPurpose,
+    ttlSeconds: number
+  ): Promise<string> {
+    const now = new Date();
+    // Only the newest link of each kind stays valid
+    await this.tokenModel.updateMany(
+      { userId, purpose, usedAt: null },
+      { $set: { usedAt: now } }
+    );
+    const record = await this.tokenModel.create({
+      userId,
+      purpose,
+      email: normalizeEmail(email),
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+    });
+
+    return this.jwtService.sign(
+      { sub: userId, purpose },
+      { jwtid: record._id.toString(), expiresIn: ttlSeconds, audience: ACCOUNT_TOKEN_AUDIENCE }
+    );
+  }
+
+  private async redeemToken(token: string, purpose: AccountTokenPurpose): Promise<IAccountToken> {
+    let payload: AccountTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<AccountTokenPayload>(token, {
+        audience: ACCOUNT_TOKEN_AUDIENCE,
+      });
+    } catch {
+      throw new BadRequestException("Invalid or expired link");
+    }
+    if (payload.purpose !== purpose || !isMongoObjectIdString(payload.jti)) {
+      throw new BadRequestException("Invalid or expired link");
+    }
+
+    const now = new Date();
+    const record = await this.tokenModel.findOneAndUpdate(
+      { _id: payload.jti, userId: payload.sub, purpose, usedAt: null, expiresAt: { $gt: now } },
+      { $set: { usedAt: now } },
+      { new: true }
+    );
+    if (!record) {
+      throw new BadRequestException("Invalid or expired link");
+    }
+    return record;
+  }
+
+  private async isRateLimited(email: string, purpose: AccountTokenPurpose): Promise<boolean> {
+    const sent = await this.tokenModel.countDocuments({
+      email: normalizeEmail(email),
+      purpose,
+      createdAt: { $gte: new Date(Date.now() - RATE_LIMIT_WINDOW_MS) },
+    });
+    return sent >= MAX_EMAILS_PER_WINDOW;
+  }
+}
@@ -12,6 +12,8 @@ import {
   Res,
   Redirect,
   NotFoundException,
+  Delete,
+  Param,
 } from "@nestjs/common";
 import { Response } from "express";
 import {
@@ -23,8 +25,13 @@ import {
 } from "@nestjs/swagger";
 import { Throttle } from "@nestjs/throttler";
 import { AuthService } from "./auth.service";
-import { AuthGuard } from "./auth.guard";
+import { AuthGuard, AllowPendingDeletion } from "./auth.guard";
 import { SignupDto } from "./dto/signup.dto";
+import { RefreshTokenDto } from "./dto/refresh-token.dto";
+import { ForgotPasswordDto, ResetPasswordDto } from "./dto/password-reset.dto";
+import { VerifyEmailDto } from "./dto/verify-email.dto";
+import { SessionService, getSessionContext } from "./session.service";
+import { AccountTokenService } from "./account-token.service";
 import { IUserData } from "../types/interfaces";
 import logger from "../utils/logger";
 import { isMongoObjectIdString } from "../utils/mongoObjectId";
@@ -32,21 +39,31 @@ import { isMongoObjectIdString } from "../utils/mongoObjectId";
 @ApiTags("auth")
 @Controller("auth")
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private sessionService: SessionService,
+    private accountTokenService: AccountTokenService,
+  ) {}
 
   @Post("signup")
   @Throttle({ default: { limit: 5, ttl: 60000 } })
   @ApiOperation({ summary: "Register a new user" })
   @ApiResponse({ status: 201, description: "User successfully registered" })
   @ApiResponse({ status: 400, description: "User already exists" })
-  async registerUser(@Body() data: SignupDto) {
+  async registerUser(@Body() data: SignupDto, @Request() req: any) {
+    const context = getSessionContext(req);
     // If provider is specified, use OAuth signup
     if (data.provider === "google" && data.idToken) {
-      return this.authService.googleSignup(data.idToken, data.userData as any);
+      return this.authService.googleSignup(
+        data.idToken,
+        data.userData as any,
+        context,
+      );
     } else if (data.provider === "facebook" && data.idToken) {
       return this.authService.facebookSignup(
         data.idToken,
         data.userData as any,
+        context,
       );
     } else {
       // Regular signup
@@ -62,7 +79,7 @@ export class AuthController {
           email,
           preferences: data.userData.preferences || {},
         } as any,
-      });
+      }, context);
     }
   }
 
@@ -81,22 +98,175 @@ export class AuthController {
       },
     },
   })
-  async loginUser(@Body() body: { email: string; password: string }) {
-    return this.authService.login(body.email, body.password);
+  async loginUser(
+    @Body() body: { email: string; password: string },
+    @Request() req: any,
+  ) {
+    return this.authService.login(
+      body.email,
+      body.password,
+      getSessionContext(req),
+    );
+  }
+
+  @Post("refresh")
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Refresh the access token",
+    description:
+      "Exchanges a refresh token for a new access token and a new refresh token. Each refresh token works once; reusing an old one revokes the session.",
+  })
+  @ApiResponse({ status: 200, description: "New tokens issued" })
+  @ApiResponse({ status: 401, description: "Invalid, expired or reused refresh token" })
+  async refreshToken(@Body() body: RefreshTokenDto, @Request() req: any) {
+    const tokens = await this.sessionService.refresh(
+      body.refreshToken,
+      getSessionContext(req),
+    );
+    return {
+      status: "success",
+      data: tokens,
+    };
   }
 
   @Post("logout")
   @UseGuards(AuthGuard)
+  @AllowPendingDeletion()
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth("JWT-auth")
-  @ApiOperation({ summary: "Logout user" })
+  @ApiOperation({ summary: "Logout user (ends the current session)" })
   @ApiResponse({ status: 200, description: "User successfully logged out" })
-  async logoutUser() {
-    return this.authService.logout();
+  async logoutUser(@Request() req: any) {
+    return this.authService.logout(req.user._id.toString(), req.sessionId);
+  }
+
+  @Get("sessions")
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "List the devices signed in to this account" })
+  @ApiResponse({ status: 200, description: "Active sessions, most recent first" })
+  async listSessions(@Request() req: any) {
+    const sessions = await this.sessionService.listSessions(
+      req.user._id.toString(),
+      req.sessionId,
+    );
+    return {
+      status: "success",
+      data: sessions,
+    };
+  }
+
+  @Delete("sessions/:sessionId")
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "Sign out one device" })
+  @ApiResponse({ status: 200, description: "Session revoked" })
+  @ApiResponse({ status: 404, description: "Session not found" })
+  async revokeSession(
+    @Request() req: any,
+    @Param("sessionId") sessionId: string,
+  ) {
+    await this.sessionService.revoke(req.user._id.toString(), sessionId);
+    return {
+      status: "success",
+      message: "Session revoked",
+    };
+  }
+
+  @Delete("sessions")
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Sign out all devices",
+    description:
+      "Revokes every session of the user. With keepCurrent=true the session making the request stays signed in.",
+  })
+  @ApiResponse({ status: 200, description: "Sessions revoked" })
+  async revokeAllSessions(
+    @Request() req: any,
+    @Query("keepCurrent") keepCurrent?: string,
+  ) {
+    const result = await this.sessionService.revokeAll(
+      req.user._id.toString(),
+      keepCurrent === "true" ? req.sessionId : undefined,
+    );
+    return {
+      status: "success",
+      data: result,
+    };
+  }
+
+  @Post("password/forgot")
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Request a password reset email",
+    description:
+      "Sends a single-use reset link if the email belongs to an account. The response is the same whether or not it does.",
+  })
+  @ApiResponse({ status: 200, description: "Request accepted" })
+  async forgotPassword(@Body() body: ForgotPasswordDto) {
+    await this.accountTokenService.requestPasswordReset(body.email);
+    return {
+      status: "success",
+      message: "If an account exists for this email, a reset link has been sent",
+    };
+  }
+
+  @Post("password/reset")
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Set a new password from a reset link",
+    description: "Signs out every session of the account.",
+  })
+  @ApiResponse({ status: 200, description: "Password changed" })
+  @ApiResponse({ status: 400, description: "Invalid, used or expired link" })
+  async resetPassword(@Body() body: ResetPasswordDto) {
+    await this.accountTokenService.resetPassword(body.token, body.password);
+    return {
+      status: "success",
+      message: "Password has been reset, please sign in again",
+    };
+  }
+
+  @Post("email/verification")
+  @UseGuards(AuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({ summary: "Send a new email verification link" })
+  @ApiResponse({ status: 200, description: "Verification email sent" })
+  @ApiResponse({ status: 400, description: "Email already verified" })
+  @ApiResponse({ status: 429, description: "Too many verification emails" })
+  async sendVerificationEmail(@Request() req: any) {
+    await this.accountTokenService.sendVerificationEmail(
+      req.user._id.toString(),
+    );
+    return {
+      status: "success",
+      message: "Verification email sent",
+    };
+  }
+
+  @Post("email/verify")
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Verify an email address from a verification link" })
+  @ApiResponse({ status: 200, description: "Email verified" })
+  @ApiResponse({ status: 400, description: "Invalid, used or expired link" })
+  async verifyEmail(@Body() body: VerifyEmailDto) {
+    const result = await this.accountTokenService.verifyEmail(body.token);
+    return {
+      status: "success",
+      data: { email: result.email, emailVerified: true },
+    };
   }
 
   @Get("users/me")
   @UseGuards(AuthGuard)
+  @AllowPendingDeletion()
   @ApiBearerAuth("JWT-auth")
   @ApiOperation({ summary: "Get current user information" })
   @ApiResponse({
@@ -105,7 +275,7 @@ export class AuthController {
   })
   @ApiResponse({ status: 401, description: "Unauthorized" })
   async getUser(@Request() req) {
-    return this.authService.getUser(req.user._id.toString());
+    return this.authService.getUser(req.user._id.toString(), req.sessionId);
   }
 
   @Get("google/web/signup")
@@ -493,11 +663,16 @@ export class AuthController {
       idToken: string;
       userData?: Partial<IUserData>;
     },
+    @Request() req: any,
   ) {
     if (!body.idToken) {
       throw new BadRequestException("Google ID token is required");
     }
-    return this.authService.googleSignup(body.idToken, body.userData);
+    return this.authService.googleSignup(
+      body.idToken,
+      body.userData,
+      getSessionContext(req),
+    );
   }
 
   @Get("google/mobile/signin")
@@ -614,11 +789,17 @@ export class AuthController {
       required: ["idToken"],
     },
   })
-  async googleMobileSignin(@Body() body: { idToken: string }) {
+  async googleMobileSignin(
+    @Body() body: { idToken: string },
+    @Request() req: any,
+  ) {
     if (!body.idToken) {
       throw new BadRequestException("Google ID token is required");
     }
-    const result = await this.authService.googleSignin(body.idToken);
+    const result = await this.authService.googleSignin(
+      body.idToken,
+      getSessionContext(req),
+    );
 
     // Fetch user plan for consistency with other endpoints
     const userData = await this.authService.getUser(result.user._id.toString());
@@ -629,6 +810,8 @@ export class AuthController {
         user: result.user,
         plan: userData.data.plan,
         token: result.token,
+        refreshToken: result.refreshToken,
+        expiresIn: result.expiresIn,
       },
     };
   }
@@ -689,11 +872,16 @@ export class AuthController {
       accessToken: string;
       userData?: Partial<IUserData>;
     },
+    @Request() req: any,
   ) {
     if (!body.accessToken) {
       throw new BadRequestException("Google ID token is required");
     }
-    return this.authService.googleSignup(body.accessToken, body.userData);
+    return this.authService.googleSignup(
+      body.accessToken,
+      body.userData,
+      getSessionContext(req),
+    );
   }
 
   @Post("google/web/signin")
@@ -781,7 +969,8 @@ export class AuthController {
       throw new BadRequestException("accessToken is required");
     }
 
-    // If a valid userId is provided, this is a redirect flow completion
+    // If a valid userId is provided, this is a redirect flow completion.
+    // The callback redirect already carried the tokens, so none are issued here
     if (isMongoObjectIdString(body.userId)) {
       const data = await this.authService.getUser(body.userId);
       res.json({
@@ -789,14 +978,16 @@ export class AuthController {
         data: {
           user: data.data.user,
           plan: data.data.plan,
-          token: data.data.token,
         },
       });
       return;
     }
 
     // Otherwise, treat accessToken as Google ID token for direct authentication
-    const result = await this.authService.googleSignin(body.accessToken);
+    const result = await this.authService.googleSignin(
+      body.accessToken,
+      getSessionContext(req),
+    );
 
     // Fetch user plan
     const userData = await this.authService.getUser(result.user._id.toString());
@@ -807,6 +998,8 @@ export class AuthController {
         user: result.user,
         plan: userData.data.plan,
         token: result.token,
+        refreshToken: result.refreshToken,
+        expiresIn: result.expiresIn,
       },
     });
   }
@@ -900,6 +1093,7 @@ export class AuthController {
         code,
         redirectUri,
         state,
+        getSessionContext(req),
       );
       res.redirect(redirectUrl);
     } catch (error: any) {
@@ -965,7 +1159,13 @@ export class AuthController {
       },
     },
   })
-  async facebookSignin(@Body() body: { accessToken: string }) {
-    return this.authService.facebookSignin(body.accessToken);
+  async facebookSignin(
+    @Body() body: { accessToken: string },
+    @Request() req: any,
+  ) {
+    return this.authService.facebookSignin(
+      body.accessToken,
+      getSessionContext(req),
+    );
   }
 }
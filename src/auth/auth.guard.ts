@@ -3,7 +3,10 @@ import {
   CanActivate,
   ExecutionContext,
   UnauthorizedException,
+  ForbiddenException,
+  SetMetadata,
 } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
 import { JwtService } from "@nestjs/jwt";
 import { ConfigService } from "@nestjs/config";
 import { InjectModel } from "@nestjs/mongoose";
@@ -13,13 +16,27 @@ import logger from "../utils/logger";
 import { JwtPayload } from "../types/interfaces";
 import { User } from "src/user/user.model";
 import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { SessionService, isLegacyTokenRevoked } from "./session.service";
+
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export const ALLOW_PENDING_DELETION_KEY = "allowPendingDeletion";
+
+/**
+ * Lets accounts that are scheduled for deletion use a route, e.g. to restore
+ * the account or download their data. Every other route answers 403 for them.
+ * Usage: @AllowPendingDeletion()
+ */
+export const AllowPendingDeletion = () => SetMetadata(ALLOW_PENDING_DELETION_KEY, true);
 
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
+    private reflector: Reflector,
     private jwtService: JwtService,
     private configService: ConfigService,
-    @InjectModel(User.name) private userModel: Model<IUserData>
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private sessionService: SessionService
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -52,8 +69,21 @@ export class AuthGuard implements CanActivate {
       if (!user) {
         throw new UnauthorizedException("User not found");
       }
+      if (payload.sid && !(await this.sessionService.isActive(payload.sid, payload.id))) {
+        throw new UnauthorizedException("Session has been revoked");
+      }
+      // Tokens issued before sessions existed have no sid; signing out ends them
+      if (!payload.sid && isLegacyTokenRevoked(user, payload)) {
+        throw new UnauthorizedException("Session has been revoked");
+      }
+      // Impersonation tokens stop working once the admin loses the role
+      if (payload.imp && !(await this.isAdmin(payload.imp))) {
+        throw new UnauthorizedException("Impersonation is no longer allowed");
+      }
 
       request.user = user;
+      request.sessionId = payload.sid;
+      request.impersonatedBy = payload.imp;
     } catch (error) {
       logger.error("Auth guard error:", error);
       if (error instanceof Error && error.message === "invalid algorithm") {
@@ -64,9 +94,29 @@ export class AuthGuard implements CanActivate {
       throw new UnauthorizedException("Not authorized, token failed");
     }
 
+    if (request.impersonatedBy && !READ_ONLY_METHODS.includes(request.method)) {
+      throw new ForbiddenException("Impersonation sessions are read-only");
+    }
+
+    if (request.user.deletionScheduledFor) {
+      const allowed = this.reflector.getAllAndOverride<boolean>(ALLOW_PENDING_DELETION_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+      if (!allowed) {
+        throw new ForbiddenException("Account is scheduled for deletion");
+      }
+    }
+
     return true;
   }
 
+  private async isAdmin(userId: string): Promise<boolean> {
+    if (!isMongoObjectIdString(userId)) return false;
+    const admin = await this.userModel.exists({ _id: userId, role: "admin" });
+    return !!admin;
+  }
+
   private extractTokenFromHeader(request: any): string | undefined {
     const [type, token] = request.headers.authorization?.split(" ") ?? [];
     return type === "Bearer" ? token : undefined;
@@ -7,9 +7,23 @@ import { AuthController } from "./auth.controller";
 import { AuthService } from "./auth.service";
 import { AuthGuard } from "./auth.guard";
 import { SubscriptionGuard } from "./guards/subscription.guard";
+import { RolesGuard } from "./guards/roles.guard";
 import { JwtStrategy } from "./jwt.strategy";
+import { SessionService } from "./session.service";
+import { Session, SessionSchema } from "./session.model";
+import { AccountTokenService } from "./account-token.service";
+import { AccountToken, AccountTokenSchema } from "./account-token.model";
+import { EmailVerifiedGuard } from "./guards/email-verified.guard";
+import { OwnershipGuard } from "./guards/ownership.guard";
+import { DelegationController } from "./delegation.controller";
+import { DelegationService } from "./delegation.service";
+import { Delegation, DelegationSchema } from "./delegation.model";
+import { SecurityEventService } from "./security-event.service";
+import { ResourceOwnerService } from "./resource-owner.service";
+import { SecurityEvent, SecurityEventSchema } from "./security-event.model";
 import { User, UserSchema } from "../user/user.model";
 import { Plan, PlanSchema } from "../plan/plan.model";
+import { Goal, GoalSchema } from "../goals/goal.model";
 import { PlanModule } from "../plan/plan.module";
 
 @Global()
@@ -29,11 +43,42 @@ import { PlanModule } from "../plan/plan.module";
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: Plan.name, schema: PlanSchema },
+      { name: Session.name, schema: SessionSchema },
+      { name: AccountToken.name, schema: AccountTokenSchema },
+      { name: Goal.name, schema: GoalSchema },
+      { name: Delegation.name, schema: DelegationSchema },
+      { name: SecurityEvent.name, schema: SecurityEventSchema },
     ]),
     forwardRef(() => PlanModule),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, AuthGuard, JwtStrategy, SubscriptionGuard],
-  exports: [AuthService, AuthGuard, JwtModule, SubscriptionGuard],
+  controllers: [AuthController, DelegationController],
+  providers: [
+    AuthService,
+    SessionService,
+    AccountTokenService,
+    DelegationService,
+    SecurityEventService,
+    ResourceOwnerService,
+    AuthGuard,
+    JwtStrategy,
+    SubscriptionGuard,
+    RolesGuard,
+    EmailVerifiedGuard,
+    OwnershipGuard,
+  ],
+  exports: [
+    AuthService,
+    SessionService,
+    AccountTokenService,
+    DelegationService,
+    SecurityEventService,
+    ResourceOwnerService,
+    AuthGuard,
+    JwtModule,
+    SubscriptionGuard,
+    RolesGuard,
+    EmailVerifiedGuard,
+    OwnershipGuard,
+  ],
 })
 export class AuthModule {}
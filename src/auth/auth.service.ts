@@ -8,8 +8,7 @@ import { ConfigService } from "@nestjs/config";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { User } from "../user/user.model";
-import { Plan } from "../plan/plan.model";
-import generateToken from "../utils/generateToken";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
 import logger from "../utils/logger";
 import { IPlan, IUserData } from "../types/interfaces";
 import {
@@ -23,6 +22,8 @@ import { JwtService } from "@nestjs/jwt";
 import { PlanService } from "../plan/plan.service";
 import { isMongoObjectIdString } from "../utils/mongoObjectId";
 import { applyAdminPrivileges } from "./admin-privileges";
+import { SessionService, SessionContext } from "./session.service";
+import { AccountTokenService } from "./account-token.service";
 
 @Injectable()
 export class AuthService {
@@ -31,7 +32,9 @@ export class AuthService {
     @InjectModel(Plan.name) private planModel: Model<IPlan>,
     private jwtService: JwtService,
     private planService: PlanService,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private sessionService: SessionService,
+    private accountTokenService: AccountTokenService
   ) {}
 
   private async withAdminPrivileges<T extends { user: IUserData }>(
@@ -45,6 +48,14 @@ export class AuthService {
     return payload;
   }
 
+  // The OAuth provider has confirmed the address
+  private markEmailVerified(user: IUserData) {
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+  }
+
   private async privilegeUser(user: unknown): Promise<IUserData> {
     return applyAdminPrivileges(
       user as IUserData,
@@ -53,11 +64,14 @@ export class AuthService {
     );
   }
 
-  async register(data: {
-    email: string;
-    password: string;
-    userData: IUserData;
-  }) {
+  async register(
+    data: {
+      email: string;
+      password: string;
+      userData: IUserData;
+    },
+    context: SessionContext = {}
+  ) {
     const userExists = await this.userModel.findOne({ email: data.email });
 
     if (userExists) {
@@ -74,6 +88,13 @@ export class AuthService {
       preferences: data.userData.preferences || {},
     });
 
+    // Registration succeeds even if the email can't be sent; the user can request another
+    this.accountTokenService
+      .sendVerificationEmail(user._id.toString())
+      .catch((error) =>
+        logger.warn(`Verification email for new user ${user._id} not sent: ${error?.message}`)
+      );
+
     // Only create initial plan if KYC data is present (age, height, weight, path are required for plan)
     const hasKycData =
       data.userData.age &&
@@ -92,7 +113,7 @@ export class AuthService {
     const authPayload = await this.withAdminPrivileges({
       user: user as IUserData,
       plan: initialPlan,
-      token: generateToken((user as any)._id.toString()),
+      ...(await this.sessionService.createSession(user._id.toString(), context)),
     });
 
     return {
@@ -101,7 +122,7 @@ export class AuthService {
     };
   }
 
-  async login(email: string, password: string) {
+  async login(email: string, password: string, context: SessionContext = {}) {
     const user = await this.userModel.findOne({ email });
 
     if (
@@ -111,7 +132,7 @@ export class AuthService {
     ) {
       const authPayload = await this.withAdminPrivileges({
         user: user as IUserData,
-        token: generateToken((user as any)._id.toString()),
+        ...(await this.sessionService.createSession(user._id.toString(), context)),
       });
 
       return {
@@ -123,7 +144,13 @@ export class AuthService {
     }
   }
 
-  async logout() {
+  async logout(userId: string, sessionId?: string) {
+    if (sessionId) {
+      await this.sessionService.revoke(userId, sessionId, "logout");
+    } else {
+      // Legacy tokens have no session of their own; end all of them
+      await this.sessionService.revokeLegacyTokens(userId);
+    }
     return {
       status: "success",
       message: "Logged out successfully",
@@ -160,7 +187,11 @@ export class AuthService {
     }
   }
 
-  async googleSignup(idToken: string, userData?: Partial<IUserData>) {
+  async googleSignup(
+    idToken: string,
+    userData?: Partial<IUserData>,
+    context: SessionContext = {}
+  ) {
     if (!idToken) {
       throw new BadRequestException("Google ID token is required");
     }
@@ -191,7 +222,7 @@ export class AuthService {
         const data = await this.withAdminPrivileges({
           user: existingUser as IUserData,
           plan: null,
-          token: generateToken(existingUser._id.toString()),
+          ...(await this.sessionService.createSession(existingUser._id.toString(), context)),
           isNewUser: true,
         });
         return {
@@ -232,6 +263,7 @@ export class AuthService {
       picture: googleUser.picture,
       oauthProvider: "google",
       oauthId: googleUser.sub,
+      emailVerified: googleUser.email_verified === true,
       preferences: userData?.preferences || {},
     });
 
@@ -262,7 +294,7 @@ export class AuthService {
     const data = await this.withAdminPrivileges({
       user: user as IUserData,
       plan: initialPlan,
-      token: generateToken(user._id.toString()),
+      ...(await this.sessionService.createSession(user._id.toString(), context)),
       isNewUser: true,
     });
 
@@ -305,7 +337,8 @@ export class AuthService {
   async handleGoogleCallback(
     code: string,
     redirectUri: string,
-    state?: string
+    state?: string,
+    context: SessionContext = {}
   ): Promise<string> {
     // Decode state parameter to get frontendRedirectUri, backend redirectUri, and mode
     let frontendRedirectUri =
@@ -386,9 +419,10 @@ export class AuthService {
       if (user) {
         if (!(user as any).kycCompleted) {
           // User exists but never finished KYC — let them continue
-          const jwtToken = generateToken(user._id.toString());
+          const authTokens = await this.sessionService.createSession(user._id.toString(), context);
           const redirectUrl = new URL(frontendRedirectUri);
-          redirectUrl.searchParams.set("token", jwtToken);
+          redirectUrl.searchParams.set("token", authTokens.token);
+          redirectUrl.searchParams.set("refreshToken", authTokens.refreshToken);
           redirectUrl.searchParams.set("userId", user._id.toString());
           redirectUrl.searchParams.set("isNewUser", "true");
           return redirectUrl.toString();
@@ -414,6 +448,7 @@ export class AuthService {
         picture: googleUser.picture,
         oauthProvider: "google",
         oauthId: googleUser.sub,
+        emailVerified: googleUser.email_verified === true,
         preferences: {},
       });
 
@@ -453,15 +488,19 @@ export class AuthService {
       if (googleUser.picture && !(user as any).picture) {
         (user as any).picture = googleUser.picture;
       }
+      if (googleUser.email_verified === true) {
+        this.markEmailVerified(user);
+      }
       await user.save();
     }
 
-    // Generate JWT token
-    const jwtToken = generateToken(user._id.toString());
+    // Start a session for this device
+    const authTokens = await this.sessionService.createSession(user._id.toString(), context);
 
-    // Redirect to frontend with token
+    // Redirect to frontend with tokens
     const redirectUrl = new URL(frontendRedirectUri);
-    redirectUrl.searchParams.set("token", jwtToken);
+    redirectUrl.searchParams.set("token", authTokens.token);
+    redirectUrl.searchParams.set("refreshToken", authTokens.refreshToken);
     redirectUrl.searchParams.set("userId", user._id.toString());
     if (mode === "signup") {
       redirectUrl.searchParams.set("isNewUser", "true");
@@ -470,7 +509,7 @@ export class AuthService {
     return redirectUrl.toString();
   }
 
-  async googleSignin(idToken: string) {
+  async googleSignin(idToken: string, context: SessionContext = {}) {
     if (!idToken) {
       throw new BadRequestException("Google ID token is required");
     }
@@ -492,15 +531,22 @@ export class AuthService {
     if (googleUser.picture && !(user as any).picture) {
       (user as any).picture = googleUser.picture;
     }
+    if (googleUser.email_verified === true) {
+      this.markEmailVerified(user);
+    }
     await user.save();
 
     return {
-      token: generateToken(user._id.toString()),
+      ...(await this.sessionService.createSession(user._id.toString(), context)),
       user: await this.privilegeUser(user),
     };
   }
 
-  async facebookSignup(accessToken: string, userData?: Partial<IUserData>) {
+  async facebookSignup(
+    accessToken: string,
+    userData?: Partial<IUserData>,
+    context: SessionContext = {}
+  ) {
     if (!accessToken) {
       throw new BadRequestException("Facebook access token is required");
     }
@@ -550,6 +596,8 @@ export class AuthService {
       picture: facebookUser.picture,
       oauthProvider: "facebook",
       oauthId: facebookUser.id,
+      // Facebook only shares confirmed addresses
+      emailVerified: !userData?.email || userData.email === facebookUser.email,
       preferences: userData?.preferences || {},
     });
 
@@ -585,7 +633,7 @@ export class AuthService {
     const data = await this.withAdminPrivileges({
       user: user as IUserData,
       plan: initialPlan,
-      token: generateToken(user._id.toString()),
+      ...(await this.sessionService.createSession(user._id.toString(), context)),
     });
 
     return {
@@ -594,7 +642,7 @@ export class AuthService {
     };
   }
 
-  async facebookSignin(accessToken: string) {
+  async facebookSignin(accessToken: string, context: SessionContext = {}) {
     if (!accessToken) {
       throw new BadRequestException("Facebook access token is required");
     }
@@ -616,15 +664,21 @@ export class AuthService {
     if (facebookUser.picture && !(user as any).picture) {
       (user as any).picture = facebookUser.picture;
     }
+    this.markEmailVerified(user);
     await user.save();
 
     return {
-      token: generateToken(user._id.toString()),
+      ...(await this.sessionService.createSession(user._id.toString(), context)),
       user: await this.privilegeUser(user),
     };
   }
 
-  async getUser(userId: string) {
+  /**
+   * Current user and plan. With a session id the response also carries a
+   * fresh access token for that session; new sessions are only started by
+   * signing in.
+   */
+  async getUser(userId: string, sessionId?: string) {
     if (!isMongoObjectIdString(userId)) {
       throw new BadRequestException("Invalid user id");
     }
@@ -637,14 +691,16 @@ export class AuthService {
       this.userModel,
       this.configService
     );
-    const plan = await this.planModel.findOne({ userId: user._id });
+    const plan = await this.planModel.findOne(currentPlanQuery(user._id));
     // Plan may be null for OAuth users who haven't completed onboarding
     return {
       status: "success",
       data: {
         user: privilegedUser,
         plan: plan || null,
-        token: generateToken(userId),
+        token: sessionId
+          ? this.sessionService.signAccessToken(userId, sessionId).token
+          : undefined,
       },
     };
   }
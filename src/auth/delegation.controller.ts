@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "./auth.guard";
+import { DelegationService } from "./delegation.service";
+import { GrantDelegationDto } from "./dto/delegation.dto";
+
+@ApiTags("users")
+@Controller("users/me/delegations")
+@UseGuards(AuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class DelegationController {
+  constructor(private readonly delegationService: DelegationService) {}
+
+  @Get()
+  @ApiOperation({ summary: "People I have given access to my data" })
+  @ApiResponse({ status: 200, description: "Active delegations I granted" })
+  async listGranted(@Request() req: any) {
+    return this.delegationService.listGranted(req.user._id.toString());
+  }
+
+  @Get("received")
+  @ApiOperation({ summary: "Accounts whose data I have been given access to" })
+  @ApiResponse({ status: 200, description: "Active delegations granted to me" })
+  async listReceived(@Request() req: any) {
+    return this.delegationService.listReceived(req.user._id.toString());
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: "Give another user access to parts of my data",
+    description:
+      "Scopes are per area (progress, goals, chat, plan) with read or write access. " +
+      "Granting again to the same user replaces the scopes.",
+  })
+  @ApiBody({ type: GrantDelegationDto })
+  @ApiResponse({ status: 201, description: "Delegation granted" })
+  @ApiResponse({ status: 404, description: "No user with that email" })
+  async grant(@Request() req: any, @Body() body: GrantDelegationDto) {
+    return this.delegationService.grant(req.user._id.toString(), body);
+  }
+
+  @Delete(":delegationId")
+  @ApiOperation({
+    summary: "End a delegation",
+    description: "Owners revoke access they gave; delegates can give up access they received.",
+  })
+  @ApiParam({ name: "delegationId", description: "Delegation ID" })
+  @ApiResponse({ status: 200, description: "Delegation revoked" })
+  @ApiResponse({ status: 404, description: "Delegation not found" })
+  async revoke(@Request() req: any, @Param("delegationId") delegationId: string) {
+    return this.delegationService.revoke(delegationId, req.user._id.toString());
+  }
+}
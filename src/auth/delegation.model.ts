@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Parts of an account that can be shared with another user
+export const DELEGATION_AREAS = ["progress", "goals", "chat", "plan"] as const;
+export type DelegationArea = (typeof DELEGATION_AREAS)[number];
+
+// "write" includes "read"
+export const DELEGATION_ACCESS_LEVELS = ["read", "write"] as const;
+export type DelegationAccess = (typeof DELEGATION_ACCESS_LEVELS)[number];
+
+export interface IDelegationScope {
+  area: DelegationArea;
+  access: DelegationAccess;
+}
+
+/**
+ * Access an account owner has given another user (a coach, a family member)
+ * to their data, per area. Revoking keeps the record for the history.
+ */
+export interface IDelegation extends Document {
+  _id: mongoose.Types.ObjectId;
+  ownerId: mongoose.Types.ObjectId;
+  delegateId: mongoose.Types.ObjectId;
+  scopes: IDelegationScope[];
+  // How the owner knows the delegate, e.g. "Coach Maria"
+  label?: string;
+  status: "active" | "revoked";
+  expiresAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const Delegation = { name: "Delegation" };
+
+const delegationScopeSchema = new Schema<IDelegationScope>(
+  {
+    area: { type: String, enum: DELEGATION_AREAS, required: true },
+    access: { type: String, enum: DELEGATION_ACCESS_LEVELS, required: true },
+  },
+  { _id: false }
+);
+
+const delegationSchema = new Schema<IDelegation>(
+  {
+    ownerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    delegateId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    scopes: { type: [delegationScopeSchema], default: [] },
+    label: { type: String, maxlength: 100 },
+    status: { type: String, enum: ["active", "revoked"], default: "active" },
+    expiresAt: { type: Date },
+    revokedAt: { type: Date },
+    revokedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    lastUsedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "delegations",
+  }
+);
+
+// One active grant per owner and delegate; granting again updates it
+delegationSchema.index(
+  { ownerId: 1, delegateId: 1 },
+  { unique: true, partialFilterExpression: { status: "active" } }
+);
+delegationSchema.index({ delegateId: 1, status: 1 });
+
+export const DelegationSchema = delegationSchema;
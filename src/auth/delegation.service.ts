@@ -0,0 +1,242 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  Delegation,
+  DelegationAccess,
+  DelegationArea,
+  IDelegation,
+  IDelegationScope,
+} from "./delegation.model";
+import { SecurityEventService } from "./security-event.service";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import { GrantDelegationDto } from "./dto/delegation.dto";
+import { EventBus } from "../events/event-bus";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+
+// lastUsedAt is refreshed at most this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000;
+
+export type DelegationDenialReason = "no_delegation" | "expired" | "insufficient_scope";
+
+export interface DelegationCheck {
+  allowed: boolean;
+  delegationId?: string;
+  reason?: DelegationDenialReason;
+}
+
+export interface GrantOptions {
+  label?: string;
+  expiresAt?: Date;
+}
+
+const covers = (scope: IDelegationScope, area: DelegationArea, access: DelegationAccess) =>
+  scope.area === area && (scope.access === "write" || access === "read");
+
+/**
+ * Delegated access: an owner lets another user read or change parts of their
+ * account. OwnershipGuard consults it when a request targets someone else's
+ * data. Either side can end a delegation.
+ */
+@Injectable()
+export class DelegationService {
+  constructor(
+    @InjectModel(Delegation.name) private delegationModel: Model<IDelegation>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private securityEventService: SecurityEventService,
+    private eventBus: EventBus
+  ) {}
+
+  /**
+   * Share with the user registered under `dto.delegateEmail`. Granting again
+   * to the same user replaces the scopes.
+   */
+  async grant(ownerId: string, dto: GrantDelegationDto) {
+    const delegate = await this.userModel
+      .findOne({ email: dto.delegateEmail.trim() })
+      .select("_id")
+      .lean();
+    if (!delegate) {
+      throw new NotFoundException("No user with that email");
+    }
+    return this.grantTo(ownerId, delegate._id.toString(), dto.scopes, {
+      label: dto.label,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+    });
+  }
+
+  async grantTo(
+    ownerId: string,
+    delegateId: string,
+    scopes: IDelegationScope[],
+    options: GrantOptions = {}
+  ) {
+    if (ownerId === delegateId) {
+      throw new BadRequestException("You cannot delegate access to yourself");
+    }
+    if (options.expiresAt && options.expiresAt <= new Date()) {
+      throw new BadRequestException("expiresAt must be in the future");
+    }
+    // One scope per area; the last one given wins
+    const byArea = new Map<DelegationArea, IDelegationScope>();
+    for (const scope of scopes) {
+      byArea.set(scope.area, { area: scope.area, access: scope.access });
+    }
+    if (byArea.size === 0) {
+      throw new BadRequestException("At least one scope is required");
+    }
+
+    const delegation = await this.delegationModel.findOneAndUpdate(
+      { ownerId, delegateId, status: "active" },
+      {
+        $set: {
+          scopes: [...byArea.values()],
+          label: options.label,
+          expiresAt: options.expiresAt ?? null,
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    await this.securityEventService.record({
+      type: "delegation_granted",
+      actorId: ownerId,
+      ownerId,
+      delegationId: delegation._id.toString(),
+      resourceType: "user",
+      resourceId: delegateId,
+      access: delegation.scopes.map((s) => `${s.area}:${s.access}`).join(","),
+    });
+    return this.toView(delegation.toObject());
+  }
+
+  /**
+   * Active delegations the user has granted, with who they went to
+   */
+  async listGranted(ownerId: string) {
+    const delegations = await this.delegationModel
+      .find({ ownerId, status: "active" })
+      .populate("delegateId", "name email")
+      .sort({ createdAt: -1 })
+      .lean();
+    return delegations.map((d) => this.toView(d));
+  }
+
+  /**
+   * Active delegations other users have granted to the user
+   */
+  async listReceived(delegateId: string) {
+    const delegations = await this.delegationModel
+      .find({ delegateId, status: "active" })
+      .populate("ownerId", "name email")
+      .sort({ createdAt: -1 })
+      .lean();
+    return delegations.map((d) => this.toView(d));
+  }
+
+  /**
+   * End a delegation. The owner revokes it; the delegate can give it up.
+   */
+  async revoke(delegationId: string, actorId: string) {
+    if (!isMongoObjectIdString(delegationId)) {
+      throw new NotFoundException("Delegation not found");
+    }
+    const delegation = await this.delegationModel.findOneAndUpdate(
+      {
+        _id: delegationId,
+        status: "active",
+        $or: [{ ownerId: actorId }, { delegateId: actorId }],
+      },
+      { $set: { status: "revoked", revokedAt: new Date(), revokedBy: actorId } },
+      { new: true }
+    );
+    if (!delegation) {
+      throw new NotFoundException("Delegation not found");
+    }
+
+    await this.securityEventService.record({
+      type: "delegation_revoked",
+      actorId,
+      ownerId: delegation.ownerId.toString(),
+      delegationId,
+      resourceType: "user",
+      resourceId: delegation.delegateId.toString(),
+    });
+    await this.eventBus.publish("auth.delegation_revoked", {
+      delegationId,
+      ownerId: delegation.ownerId.toString(),
+      delegateId: delegation.delegateId.toString(),
+      revokedBy: actorId,
+    });
+    return this.toView(delegation.toObject());
+  }
+
+  /**
+   * Whether `delegateId` may access `area` of `ownerId`'s data at `access`
+   */
+  async check(
+    ownerId: string,
+    delegateId: string,
+    area: DelegationArea,
+    access: DelegationAccess
+  ): Promise<DelegationCheck> {
+    const delegation = await this.delegationModel
+      .findOne({ ownerId, delegateId, status: "active" })
+      .lean();
+    if (!delegation) {
+      return { allowed: false, reason: "no_delegation" };
+    }
+
+    const delegationId = delegation._id.toString();
+    const now = new Date();
+    if (delegation.expiresAt && delegation.expiresAt <= now) {
+      return { allowed: false, reason: "expired", delegationId };
+    }
+    if (!delegation.scopes.some((scope) => covers(scope, area, access))) {
+      return { allowed: false, reason: "insufficient_scope", delegationId };
+    }
+
+    if (
+      !delegation.lastUsedAt ||
+      now.getTime() - delegation.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await this.delegationModel.updateOne({ _id: delegation._id }, { $set: { lastUsedAt: now } });
+    }
+    return { allowed: true, delegationId };
+  }
+
+  /**
+   * Delete every delegation from or to a user. Used when the account is purged.
+   */
+  async removeUser(userId: string): Promise<number> {
+    const result = await this.delegationModel.deleteMany({
+      $or: [{ ownerId: userId }, { delegateId: userId }],
+    });
+    return result.deletedCount;
+  }
+
+  private toView(delegation: any) {
+    // Populated users carry a name; plain references are ObjectIds
+    const person = (value: any) =>
+      value instanceof Types.ObjectId
+        ? { id: value.toString() }
+        : { id: value?._id?.toString(), name: value?.name, email: value?.email };
+    return {
+      id: delegation._id.toString(),
+      owner: person(delegation.ownerId),
+      delegate: person(delegation.delegateId),
+      scopes: delegation.scopes,
+      label: delegation.label,
+      expiresAt: delegation.expiresAt ?? undefined,
+      lastUsedAt: delegation.lastUsedAt,
+      status: delegation.status,
+      revokedAt: delegation.revokedAt,
+      createdAt: delegation.createdAt,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import {
+  DELEGATION_ACCESS_LEVELS,
+  DELEGATION_AREAS,
+  DelegationAccess,
+  DelegationArea,
+} from "../delegation.model";
+
+export class DelegationScopeDto {
+  @ApiProperty({ enum: DELEGATION_AREAS, example: "progress" })
+  @IsIn(DELEGATION_AREAS)
+  area: DelegationArea;
+
+  @ApiProperty({
+    enum: DELEGATION_ACCESS_LEVELS,
+    example: "read",
+    description: "write includes read",
+  })
+  @IsIn(DELEGATION_ACCESS_LEVELS)
+  access: DelegationAccess;
+}
+
+export class GrantDelegationDto {
+  @ApiProperty({ example: "coach@example.com", description: "Email of the Habeat user to share with" })
+  @IsEmail()
+  delegateEmail: string;
+
+  @ApiProperty({ type: [DelegationScopeDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(DELEGATION_AREAS.length)
+  @ValidateNested({ each: true })
+  @Type(() => DelegationScopeDto)
+  scopes: DelegationScopeDto[];
+
+  @ApiPropertyOptional({ example: "Coach Maria" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiPropertyOptional({ description: "When the access ends (ISO datetime)" })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString } from "class-validator";
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: "Refresh token from sign-in or the previous refresh",
+    example: "652f1c2e9b1e8a3d4c5b6a79.Jm9vYmFy...",
+  })
+  @IsNotEmpty()
+  @IsString()
+  refreshToken: string;
+}
@@ -0,0 +1,22 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from "@nestjs/common";
+
+/**
+ * Restricts a route to users who verified their email. Use after AuthGuard,
+ * which loads request.user.
+ * Usage: @UseGuards(AuthGuard, EmailVerifiedGuard)
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    if (!request.user?.emailVerified) {
+      throw new ForbiddenException("Please verify your email address first");
+    }
+    return true;
+  }
+}
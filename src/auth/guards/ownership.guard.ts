@@ -0,0 +1,132 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+  SetMetadata,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { DelegationAccess, DelegationArea } from "../delegation.model";
+import { DelegationService } from "../delegation.service";
+import { SecurityEventService } from "../security-event.service";
+import { ResourceOwnerService } from "../resource-owner.service";
+import { isMongoObjectIdString } from "../../utils/mongoObjectId";
+
+export const OWNERSHIP_KEY = "ownership";
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export interface OwnershipOptions {
+  // Area a delegate needs a scope for
+  area: DelegationArea;
+  // Route params holding a user ID ("me" allowed), a plan ID and a goal ID
+  userParam?: string;
+  planParam?: string;
+  goalParam?: string;
+}
+
+type ResourceType = "user" | "plan" | "goal";
+
+/**
+ * Declare whose data a route touches. OwnershipGuard checks every listed
+ * param that is present on the route; routes without any are not checked.
+ * Usage: @UseGuards(AuthGuard, OwnershipGuard)
+ *        @OwnedResource({ area: "plan", userParam: "userId", planParam: "planId" })
+ */
+export const OwnedResource = (options: OwnershipOptions) => SetMetadata(OWNERSHIP_KEY, options);
+
+/**
+ * Lets a request through when the user, plan or goal in its path belongs to
+ * request.user, or when the owner has delegated the route's area to them
+ * (read for GET, write for everything else). Denials are recorded as
+ * security events. Use after AuthGuard, which loads request.user.
+ */
+@Injectable()
+export class OwnershipGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private resourceOwnerService: ResourceOwnerService,
+    private delegationService: DelegationService,
+    private securityEventService: SecurityEventService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<OwnershipOptions>(OWNERSHIP_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const params = request.params || {};
+    const targets: { type: ResourceType; id: string }[] = [];
+    if (options.userParam && params[options.userParam] !== undefined) {
+      targets.push({ type: "user", id: params[options.userParam] });
+    }
+    if (options.planParam && params[options.planParam] !== undefined) {
+      targets.push({ type: "plan", id: params[options.planParam] });
+    }
+    if (options.goalParam && params[options.goalParam] !== undefined) {
+      targets.push({ type: "goal", id: params[options.goalParam] });
+    }
+    if (targets.length === 0) {
+      return true;
+    }
+
+    const actorId = request.user._id.toString();
+    const access: DelegationAccess = READ_METHODS.includes(request.method) ? "read" : "write";
+    const owners: string[] = [];
+    for (const target of targets) {
+      owners.push(await this.resolveOwner(target.type, target.id, actorId));
+    }
+    const ownerId = owners[0];
+    const deny = async (reason: string, delegationId?: string) => {
+      const target = targets[targets.length - 1];
+      await this.securityEventService.record({
+        type: "access_denied",
+        actorId,
+        ownerId,
+        area: options.area,
+        access,
+        reason,
+        resourceType: target.type,
+        resourceId: target.id,
+        delegationId,
+        method: request.method,
+        path: request.originalUrl || request.url,
+        ip: request.ip,
+        userAgent: request.headers?.["user-agent"],
+      });
+      return new ForbiddenException("You do not have access to this resource");
+    };
+
+    // e.g. a plan ID that belongs to someone other than the user in the path
+    if (owners.some((owner) => owner !== ownerId)) {
+      throw await deny("resource_mismatch");
+    }
+    if (ownerId === actorId) {
+      return true;
+    }
+
+    const result = await this.delegationService.check(ownerId, actorId, options.area, access);
+    if (!result.allowed) {
+      throw await deny(result.reason, result.delegationId);
+    }
+    request.delegation = { id: result.delegationId, ownerId, area: options.area, access };
+    return true;
+  }
+
+  private async resolveOwner(type: ResourceType, id: string, actorId: string): Promise<string> {
+    if (type !== "user") {
+      return this.resourceOwnerService.findOwnerId(type, id);
+    }
+    if (id === "me") return actorId;
+    if (!isMongoObjectIdString(id)) {
+      throw new NotFoundException("User not found");
+    }
+    return id;
+  }
+}
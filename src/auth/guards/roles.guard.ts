@@ -0,0 +1,48 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  SetMetadata,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { UserRole } from "../../types/interfaces";
+
+export const ROLES_KEY = "roles";
+
+/**
+ * Restrict a route (or every route of a controller) to users with one of
+ * the given roles. Routes marked this way are written to the admin audit log.
+ * Usage: @UseGuards(AuthGuard, RolesGuard) @Roles("admin")
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Checks request.user.role against @Roles. Use after AuthGuard, which loads
+ * request.user. Read-only impersonation tokens never pass, even when the
+ * impersonated user is privileged.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    if (request.impersonatedBy || !roles.includes(request.user?.role)) {
+      throw new ForbiddenException(
+        roles.length === 1 && roles[0] === "admin"
+          ? "Admin access required"
+          : "Insufficient permissions"
+      );
+    }
+    return true;
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable, UnauthorizedException } from "@nestjs/common";
+import { ForbiddenException, Injectable, UnauthorizedException } from "@nestjs/common";
 import { PassportStrategy } from "@nestjs/passport";
 import { ExtractJwt, Strategy } from "passport-jwt";
 import { InjectModel } from "@nestjs/mongoose";
@@ -7,23 +7,26 @@ import { ConfigService } from "@nestjs/config";
 import { User } from "../user/user.model";
 import { IUserData, JwtPayload } from "../types/interfaces";
 import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { SessionService, isLegacyTokenRevoked } from "./session.service";
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     @InjectModel(User.name) private userModel: Model<IUserData>,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private sessionService: SessionService
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
+      passReqToCallback: true,
       secretOrKey:
         configService.get<string>("JWT_SECRET") ||
         "default-secret-key-change-in-production",
     });
   }
 
-  async validate(payload: JwtPayload) {
+  async validate(request: any, payload: JwtPayload) {
     if (!isMongoObjectIdString(payload.id)) {
       throw new UnauthorizedException("Invalid subject in token");
     }
@@ -34,6 +37,30 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     if (!user) {
       throw new UnauthorizedException("User not found");
     }
+    // Same session checks as AuthGuard
+    if (payload.sid && !(await this.sessionService.isActive(payload.sid, payload.id))) {
+      throw new UnauthorizedException("Session has been revoked");
+    }
+    if (!payload.sid && isLegacyTokenRevoked(user, payload)) {
+      throw new UnauthorizedException("Session has been revoked");
+    }
+    if (payload.imp) {
+      const admin = isMongoObjectIdString(payload.imp)
+        ? await this.userModel.exists({ _id: payload.imp, role: "admin" })
+        : null;
+      if (!admin) {
+        throw new UnauthorizedException("Impersonation is no longer allowed");
+      }
+      if (!["GET", "HEAD", "OPTIONS"].includes(request.method)) {
+        throw new ForbiddenException("Impersonation sessions are read-only");
+      }
+      request.impersonatedBy = payload.imp;
+    }
+    // Routes behind this strategy are not needed to restore an account
+    if (user.deletionScheduledFor) {
+      throw new ForbiddenException("Account is scheduled for deletion");
+    }
+    request.sessionId = payload.sid;
     return user;
   }
 }
@@ -0,0 +1,34 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { Plan } from "../plan/plan.model";
+import { Goal } from "../goals/goal.model";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+
+export type OwnedResourceType = "plan" | "goal";
+
+/**
+ * Looks up who owns a document named in a route. Lives in the global auth
+ * module so OwnershipGuard can be used from any module without it
+ * registering these models.
+ */
+@Injectable()
+export class ResourceOwnerService {
+  constructor(
+    @InjectModel(Plan.name) private planModel: Model<any>,
+    @InjectModel(Goal.name) private goalModel: Model<any>
+  ) {}
+
+  async findOwnerId(type: OwnedResourceType, id: string): Promise<string> {
+    const label = type === "plan" ? "Plan" : "Goal";
+    if (!isMongoObjectIdString(id)) {
+      throw new NotFoundException(`${label} not found`);
+    }
+    const model = type === "plan" ? this.planModel : this.goalModel;
+    const resource = await model.findById(id).select("userId").lean<{ userId?: unknown }>();
+    if (!resource?.userId) {
+      throw new NotFoundException(`${label} not found`);
+    }
+    return String(resource.userId);
+  }
+}
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type SecurityEventType = "access_denied" | "delegation_granted" | "delegation_revoked";
+
+/**
+ * A security-relevant event: a request refused by the ownership guard, or a
+ * change to who can access whose data. Kept for 180 days.
+ */
+export interface ISecurityEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  type: SecurityEventType;
+  actorId: mongoose.Types.ObjectId;
+  // Owner of the data that was accessed or shared
+  ownerId?: mongoose.Types.ObjectId;
+  area?: string;
+  access?: string;
+  // e.g. "not_owner", "insufficient_scope"
+  reason?: string;
+  resourceType?: string;
+  resourceId?: string;
+  delegationId?: mongoose.Types.ObjectId;
+  method?: string;
+  path?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const SecurityEvent = { name: "SecurityEvent" };
+
+const securityEventSchema = new Schema<ISecurityEvent>(
+  {
+    type: {
+      type: String,
+      enum: ["access_denied", "delegation_granted", "delegation_revoked"],
+      required: true,
+    },
+    actorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    ownerId: { type: Schema.Types.ObjectId, ref: "User" },
+    area: { type: String },
+    access: { type: String },
+    reason: { type: String },
+    resourceType: { type: String },
+    resourceId: { type: String },
+    delegationId: { type: Schema.Types.ObjectId },
+    method: { type: String },
+    path: { type: String },
+    ip: { type: String },
+    userAgent: { type: String },
+  },
+  {
+    timestamps: true,
+    collection: "security_events",
+  }
+);
+
+securityEventSchema.index({ type: 1, createdAt: -1 });
+securityEventSchema.index({ actorId: 1, createdAt: -1 });
+securityEventSchema.index({ ownerId: 1, createdAt: -1 });
+securityEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+export const SecurityEventSchema = securityEventSchema;
@@ -0,0 +1,80 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { ISecurityEvent, SecurityEvent, SecurityEventType } from "./security-event.model";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+export interface SecurityEventEntry {
+  type: SecurityEventType;
+  actorId: string;
+  ownerId?: string;
+  area?: string;
+  access?: string;
+  reason?: string;
+  resourceType?: string;
+  resourceId?: string;
+  delegationId?: string;
+  method?: string;
+  path?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SecurityEventFilter {
+  type?: SecurityEventType;
+  actorId?: string;
+  ownerId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+@Injectable()
+export class SecurityEventService {
+  constructor(
+    @InjectModel(SecurityEvent.name) private eventModel: Model<ISecurityEvent>
+  ) {}
+
+  /**
+   * Log and store an event. Never throws: a failed write must not turn a
+   * denied request into a 500.
+   */
+  async record(entry: SecurityEventEntry): Promise<void> {
+    logger.warn(
+      `[Security] ${entry.type}: actor=${entry.actorId} owner=${entry.ownerId ?? "-"}` +
+        (entry.area ? ` area=${entry.area}:${entry.access}` : "") +
+        (entry.reason ? ` reason=${entry.reason}` : "") +
+        (entry.path ? ` ${entry.method} ${entry.path}` : "")
+    );
+    try {
+      await this.eventModel.create({
+        ...entry,
+        ownerId: isMongoObjectIdString(entry.ownerId) ? entry.ownerId : undefined,
+        path: entry.path?.split("?")[0],
+        userAgent: entry.userAgent?.slice(0, 300),
+      });
+    } catch (error) {
+      logger.error(`[Security] Could not store ${entry.type} event: ${getErrorMessage(error)}`);
+    }
+  }
+
+  async list(filter: SecurityEventFilter) {
+    const query: Record<string, unknown> = {};
+    if (filter.type) query.type = filter.type;
+    if (filter.actorId) query.actorId = filter.actorId;
+    if (filter.ownerId) query.ownerId = filter.ownerId;
+    if (filter.from || filter.to) {
+      query.createdAt = {
+        ...(filter.from ? { $gte: new Date(filter.from) } : {}),
+        ...(filter.to ? { $lt: new Date(filter.to) } : {}),
+      };
+    }
+    return this.eventModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(filter.limit ?? 50)
+      .lean();
+  }
+}
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type SessionRevokedReason = "logout" | "revoked" | "revoked_all" | "reuse_detected";
+
+/**
+ * A signed-in device. Each refresh rotates the token; the hashes of earlier
+ * tokens are kept so presenting one again can be detected as reuse.
+ */
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHashes: string[];
+  userAgent?: string;
+  ip?: string;
+  deviceName?: string;
+  // Push tokens registered while signed in on this session
+  deviceTokens: string[];
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const Session = { name: "Session" };
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    refreshTokenHash: { type: String, required: true },
+    previousTokenHashes: { type: [String], default: [] },
+    userAgent: { type: String },
+    ip: { type: String },
+    deviceName: { type: String },
+    deviceTokens: { type: [String], default: [] },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    revokedReason: {
+      type: String,
+      enum: ["logout", "revoked", "revoked_all", "reuse_detected"],
+    },
+  },
+  {
+    timestamps: true,
+    collection: "sessions",
+  }
+);
+
+sessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+// Revoked sessions are kept until they would have expired so reuse is still detected
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SessionSchema = sessionSchema;
@@ -0,0 +1,298 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { Model } from "mongoose";
+import mongoose from "mongoose";
+import { createHash, randomBytes } from "crypto";
+import { Session, ISession, SessionRevokedReason } from "./session.model";
+import { User } from "../user/user.model";
+import { IUserData, JwtPayload } from "../types/interfaces";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import logger from "../utils/logger";
+
+export interface SessionContext {
+  userAgent?: string;
+  ip?: string;
+  deviceName?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_MINUTES = 15;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const REFRESH_SECRET_BYTES = 32;
+// Rotated-out hashes remembered per session for reuse detection
+const MAX_PREVIOUS_HASHES = 20;
+const MAX_CONTEXT_LENGTH = 256;
+
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+/**
+ * Whether an access token may be used as far as sessions go: tokens with a
+ * sid need that session to be active; legacy tokens without one only need to
+ * be issued after the user's last sign-out-everywhere (`tokensValidAfter`).
+ */
+export const isLegacyTokenRevoked = (
+  user: Pick<IUserData, "tokensValidAfter">,
+  payload: Pick<JwtPayload, "iat">
+): boolean =>
+  !!user.tokensValidAfter &&
+  (!payload.iat || payload.iat * 1000 <= new Date(user.tokensValidAfter).getTime());
+
+/**
+ * Server-side sessions behind short-lived access tokens.
+ *
+ * Access tokens carry the session id (`sid`) and are checked against the
+ * session on every request, so revoking a session signs that device out
+ * within one request. Refresh tokens look like `<sessionId>.<secret>`; only
+ * a hash of the secret is stored and every refresh rotates it. Presenting a
+ * rotated-out token means it was copied, so the session is revoked and both
+ * holders have to sign in again.
+ */
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<ISession>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private jwtService: JwtService,
+    private configService: ConfigService
+  ) {}
+
+  async createSession(userId: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const sessionId = new mongoose.Types.ObjectId();
+    const secret = randomBytes(REFRESH_SECRET_BYTES).toString("base64url");
+
+    await this.sessionModel.create({
+      _id: sessionId,
+      userId,
+      refreshTokenHash: hashSecret(secret),
+      ...this.sanitizeContext(context),
+      lastUsedAt: new Date(),
+      expiresAt: this.refreshExpiry(),
+    });
+
+    return {
+      ...this.signAccessToken(userId, sessionId.toString()),
+      refreshToken: `${sessionId}.${secret}`,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const [sessionId, secret] = (refreshToken || "").split(".");
+    if (!isMongoObjectIdString(sessionId) || !secret) {
+      throw new UnauthorizedException("Invalid refresh token");
+    }
+
+    const now = new Date();
+    const presentedHash = hashSecret(secret);
+    const nextSecret = randomBytes(REFRESH_SECRET_BYTES).toString("base64url");
+
+    // Matching on the current hash makes rotation atomic: of two concurrent
+    // refreshes with the same token only one wins, the other looks like reuse
+    const rotated = await this.sessionModel.findOneAndUpdate(
+      {
+        _id: sessionId,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+        expiresAt: { $gt: now },
+      },
+      {
+        $set: {
+          refreshTokenHash: hashSecret(nextSecret),
+          lastUsedAt: now,
+          expiresAt: this.refreshExpiry(now),
+          ...this.sanitizeContext(context),
+        },
+        $push: {
+          previousTokenHashes: { $each: [presentedHash], $slice: -MAX_PREVIOUS_HASHES },
+        },
+      },
+      { new: true }
+    );
+
+    if (rotated) {
+      return {
+        ...this.signAccessToken(rotated.userId.toString(), sessionId),
+        refreshToken: `${sessionId}.${nextSecret}`,
+      };
+    }
+
+    const session = await this.sessionModel.findById(sessionId).lean();
+    if (session?.previousTokenHashes?.includes(presentedHash)) {
+      logger.warn(
+        `[SessionService] Refresh token reuse on session ${sessionId} of user ${session.userId}, revoking it`
+      );
+      await this.revokeWhere({ _id: session._id }, "reuse_detected");
+    }
+    throw new UnauthorizedException("Invalid refresh token");
+  }
+
+  signAccessToken(userId: string, sessionId: string): Omit<AuthTokens, "refreshToken"> {
+    const ttlMinutes =
+      Number(this.configService.get<string>("ACCESS_TOKEN_TTL_MINUTES")) ||
+      DEFAULT_ACCESS_TOKEN_TTL_MINUTES;
+    const payload: JwtPayload = { id: userId, sid: sessionId };
+    return {
+      token: this.jwtService.sign(payload, { expiresIn: ttlMinutes * 60 }),
+      expiresIn: ttlMinutes * 60,
+    };
+  }
+
+  /**
+   * Whether an access token's session may still be used
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    if (!isMongoObjectIdString(sessionId)) return false;
+    const session = await this.sessionModel
+      .findOne({ _id: sessionId, userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select("_id")
+      .lean();
+    return !!session;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionModel
+      .find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select("userAgent ip deviceName lastUsedAt expiresAt createdAt")
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    return sessions.map((session) => ({
+      id: session._id.toString(),
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  async revoke(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokedReason = "revoked"
+  ): Promise<void> {
+    if (!isMongoObjectIdString(sessionId)) {
+      throw new NotFoundException("Session not found");
+    }
+    const revoked = await this.revokeWhere({ _id: sessionId, userId }, reason);
+    if (revoked === 0) {
+      throw new NotFoundException("Session not found");
+    }
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping the caller's
+   */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<{ revoked: number }> {
+    const filter: Record<string, unknown> = { userId };
+    if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+    const revoked = await this.revokeWhere(filter, "revoked_all");
+    await this.revokeLegacyTokens(userId);
+    return { revoked };
+  }
+
+  /**
+   * Legacy access tokens carry no session, so they cannot be ended one by
+   * one; this ends every such token of the user issued until now
+   */
+  async revokeLegacyTokens(userId: string): Promise<void> {
+    await this.userModel.updateOne({ _id: userId }, { $set: { tokensValidAfter: new Date() } });
+  }
+
+  /**
+   * Tie a push token to the session it was registered from, so signing that
+   * session out stops push delivery to the device
+   */
+  async attachDeviceToken(userId: string, sessionId: string, token: string): Promise<void> {
+    // A device token belongs to one device, which is signed in on one session
+    await this.sessionModel.updateMany(
+      { userId, _id: { $ne: sessionId }, deviceTokens: token },
+      { $pull: { deviceTokens: token } }
+    );
+    await this.sessionModel.updateOne(
+      { _id: sessionId, userId },
+      { $addToSet: { deviceTokens: token } }
+    );
+  }
+
+  async detachDeviceToken(userId: string, token: string): Promise<void> {
+    await this.sessionModel.updateMany(
+      { userId, deviceTokens: token },
+      { $pull: { deviceTokens: token } }
+    );
+  }
+
+  private async revokeWhere(
+    filter: Record<string, unknown>,
+    reason: SessionRevokedReason
+  ): Promise<number> {
+    const sessions = await this.sessionModel
+      .find({ ...filter, revokedAt: null })
+      .select("_id userId deviceTokens")
+      .lean();
+    if (sessions.length === 0) return 0;
+
+    await this.sessionModel.updateMany(
+      { _id: { $in: sessions.map((s) => s._id) }, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    // Stop push delivery to the devices that were signed in on these sessions
+    const tokensByUser = new Map<string, string[]>();
+    for (const session of sessions) {
+      if (!session.deviceTokens?.length) continue;
+      const key = session.userId.toString();
+      tokensByUser.set(key, [...(tokensByUser.get(key) || []), ...session.deviceTokens]);
+    }
+    for (const [userId, tokens] of tokensByUser) {
+      await this.userModel.updateOne({ _id: userId }, { $pull: { deviceTokens: { $in: tokens } } });
+    }
+
+    logger.info(`[SessionService] Revoked ${sessions.length} session(s) (${reason})`);
+    return sessions.length;
+  }
+
+  private refreshExpiry(from: Date = new Date()): Date {
+    const ttlDays =
+      Number(this.configService.get<string>("REFRESH_TOKEN_TTL_DAYS")) ||
+      DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+    return new Date(from.getTime() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private sanitizeContext(context: SessionContext): SessionContext {
+    const clean: SessionContext = {};
+    for (const key of ["userAgent", "ip", "deviceName"] as const) {
+      const value = context[key];
+      if (typeof value === "string" && value) clean[key] = value.slice(0, MAX_CONTEXT_LENGTH);
+    }
+    return clean;
+  }
+}
+
+/**
+ * Device details recorded on a session, taken from the sign-in request
+ */
+export const getSessionContext = (request: any): SessionContext => ({
+  userAgent: request?.headers?.["user-agent"],
+  ip: request?.ip,
+  deviceName: request?.headers?.["x-device-name"],
+});
@@ -13,9 +13,7 @@ import {
   MealMoodCorrelationSchema,
 } from "./cbt.model";
 import { User, UserSchema } from "../user/user.model";
-import { ChallengeModule } from "../challenge/challenge.module";
 import { EngagementModule } from "../engagement/engagement.module";
-import { EatingProfileModule } from "../eating-profile/eating-profile.module";
 
 @Module({
   imports: [
@@ -26,9 +24,7 @@ import { EatingProfileModule } from "../eating-profile/eating-profile.module";
       { name: MealMoodCorrelation.name, schema: MealMoodCorrelationSchema },
       { name: User.name, schema: UserSchema },
     ]),
-    forwardRef(() => ChallengeModule),
     forwardRef(() => EngagementModule),
-    forwardRef(() => EatingProfileModule),
   ],
   controllers: [CBTController],
   providers: [CBTService],
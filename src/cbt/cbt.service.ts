@@ -25,9 +25,8 @@ import {
 import { IUserData } from "../types/interfaces";
 import { User } from "../user/user.model";
 import logger from "../utils/logger";
-import { ChallengeService } from "../challenge/challenge.service";
 import { EngagementService } from "../engagement/engagement.service";
-import { EatingProfileService } from "../eating-profile/eating-profile.service";
+import { EventBus } from "../events/event-bus";
 
 // Built-in exercise library
 const EXERCISE_LIBRARY = [
@@ -262,12 +261,9 @@ export class CBTService {
     @InjectModel(MealMoodCorrelation.name)
     private mealMoodModel: Model<IMealMoodCorrelation>,
     @InjectModel(User.name) private userModel: Model<IUserData>,
-    @Inject(forwardRef(() => ChallengeService))
-    private challengeService: ChallengeService,
     @Inject(forwardRef(() => EngagementService))
     private engagementService: EngagementService,
-    @Inject(forwardRef(() => EatingProfileService))
-    private eatingProfileService: EatingProfileService,
+    private eventBus: EventBus,
   ) {}
 
   // ============== MOOD ENDPOINTS ==============
@@ -318,10 +314,12 @@ export class CBTService {
 
     logger.info(`Mood logged for user ${userId}: ${dto.moodCategory}`);
 
-    // Update challenge progress
-    try {
-      await this.challengeService.onMoodLogged(userId);
+    await this.eventBus.publish("cbt.mood_logged", {
+      userId,
+      moodCategory: dto.moodCategory,
+    });
 
+    try {
       // Check for mood tracking milestones and award badges
       const moodCount = await this.moodModel.countDocuments({
         userId: new mongoose.Types.ObjectId(userId),
@@ -343,7 +341,7 @@ export class CBTService {
         await this.engagementService.awardBadge(userId, "mood_master");
       }
     } catch (error) {
-      logger.error(`Failed to update challenge progress for mood: ${error}`);
+      logger.error(`Failed to award mood badges: ${error}`);
     }
 
     return {
@@ -487,10 +485,9 @@ export class CBTService {
 
     logger.info(`Thought entry logged for user ${userId}`);
 
-    // Update challenge progress
-    try {
-      await this.challengeService.onThoughtLogged(userId);
+    await this.eventBus.publish("cbt.thought_logged", { userId });
 
+    try {
       // Check for thought journaling milestones
       const thoughtCount = await this.thoughtModel.countDocuments({
         userId: new mongoose.Types.ObjectId(userId),
@@ -503,7 +500,7 @@ export class CBTService {
         await this.engagementService.awardBadge(userId, "cognitive_warrior");
       }
     } catch (error) {
-      logger.error(`Failed to update challenge progress for thought: ${error}`);
+      logger.error(`Failed to award thought journaling badges: ${error}`);
     }
 
     return {
@@ -660,10 +657,12 @@ export class CBTService {
       `Exercise completed for user ${userId}: ${dto.exerciseType}`
     );
 
-    // Update challenge progress
-    try {
-      await this.challengeService.onCBTExerciseCompleted(userId, dto.exerciseType);
+    await this.eventBus.publish("cbt.exercise_completed", {
+      userId,
+      exerciseType: dto.exerciseType,
+    });
 
+    try {
       // Check for exercise completion milestones
       const exerciseCount = await this.exerciseCompletionModel.countDocuments({
         userId: new mongoose.Types.ObjectId(userId),
@@ -690,7 +689,7 @@ export class CBTService {
         }
       }
     } catch (error) {
-      logger.error(`Failed to update challenge progress for exercise: ${error}`);
+      logger.error(`Failed to award exercise badges: ${error}`);
     }
 
     return {
@@ -735,15 +734,13 @@ export class CBTService {
       `Meal-mood correlation logged for user ${userId}: ${dto.mealName}`
     );
 
-    // Trigger eating profile update (fire-and-forget)
-    this.eatingProfileService.onNewCorrelation(userId).catch((e) =>
-      logger.error(`[CBTService] Eating profile update failed: ${e}`)
-    );
+    // Eating profile and challenges subscribe to this
+    await this.eventBus.publish("cbt.meal_mood_linked", {
+      userId,
+      mealName: dto.mealName,
+    });
 
-    // Update challenge progress
     try {
-      await this.challengeService.onMealMoodLinked(userId);
-
       // Check for emotional awareness milestones
       const correlationCount = await this.mealMoodModel.countDocuments({
         userId: new mongoose.Types.ObjectId(userId),
@@ -753,7 +750,7 @@ export class CBTService {
         await this.engagementService.awardBadge(userId, "emotional_eater_aware");
       }
     } catch (error) {
-      logger.error(`Failed to update challenge progress for meal-mood link: ${error}`);
+      logger.error(`Failed to award meal-mood badges: ${error}`);
     }
 
     return {
@@ -3,12 +3,14 @@ import { MongooseModule } from "@nestjs/mongoose";
 import { ChallengeController } from "./challenge.controller";
 import { ChallengeService } from "./challenge.service";
 import { Challenge, ChallengeSchema } from "./challenge.model";
+import { User, UserSchema } from "../user/user.model";
 import { EngagementModule } from "../engagement/engagement.module";
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Challenge.name, schema: ChallengeSchema },
+      { name: User.name, schema: UserSchema },
     ]),
     forwardRef(() => EngagementModule),
   ],
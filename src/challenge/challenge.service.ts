@@ -1,10 +1,13 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, OnModuleInit } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { Challenge, ChallengeDocument } from "./challenge.model";
+import { User } from "../user/user.model";
 import { EngagementService } from "../engagement/engagement.service";
-import { IChallenge, ChallengeType, ChallengeDifficulty, HabitChallengeType } from "../types/interfaces";
+import { EventBus } from "../events/event-bus";
+import { IChallenge, ChallengeType, ChallengeDifficulty, HabitChallengeType, IUserData } from "../types/interfaces";
 import logger from "../utils/logger";
+import { addDaysToDateKey, findUserTimeZone, getUserDay, getZonedDayEnd } from "../utils/timezone";
 
 // Habit-focused challenge templates
 interface HabitChallengeTemplate {
@@ -350,12 +353,45 @@ const HABIT_CHALLENGE_TEMPLATES: HabitChallengeTemplate[] = [
 ];
 
 @Injectable()
-export class ChallengeService {
+export class ChallengeService implements OnModuleInit {
   constructor(
     @InjectModel(Challenge.name) private challengeModel: Model<ChallengeDocument>,
-    private engagementService: EngagementService
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private engagementService: EngagementService,
+    private eventBus: EventBus
   ) {}
 
+  /**
+   * Challenge progress follows domain events; the services that track meals,
+   * water, workouts and CBT activity don't call in here
+   */
+  onModuleInit() {
+    const name = "ChallengeService";
+    this.eventBus.subscribe("progress.meal_completed", name, async (event) => {
+      await this.onMealCompleted(event.userId, event.mealType, event.isBalanced);
+      if (event.proteinGoalReached) await this.onProteinGoalReached(event.userId);
+    });
+    this.eventBus.subscribe("engagement.streak_updated", name, ({ userId, streak }) =>
+      streak > 0 ? this.onStreakUpdated(userId, streak) : undefined
+    );
+    this.eventBus.subscribe("progress.water_logged", name, ({ userId, glasses, goalReached }) =>
+      this.onWaterIntake(userId, glasses, goalReached)
+    );
+    this.eventBus.subscribe("progress.workout_completed", name, ({ userId }) =>
+      this.onWorkoutCompleted(userId)
+    );
+    this.eventBus.subscribe("cbt.mood_logged", name, ({ userId }) => this.onMoodLogged(userId));
+    this.eventBus.subscribe("cbt.thought_logged", name, ({ userId }) =>
+      this.onThoughtLogged(userId)
+    );
+    this.eventBus.subscribe("cbt.exercise_completed", name, ({ userId, exerciseType }) =>
+      this.onCBTExerciseCompleted(userId, exerciseType)
+    );
+    this.eventBus.subscribe("cbt.meal_mood_linked", name, ({ userId }) =>
+      this.onMealMoodLinked(userId)
+    );
+  }
+
   /**
    * Get all active challenges for a user
    */
@@ -537,17 +573,19 @@ export class ChallengeService {
     template: HabitChallengeTemplate
   ): Promise<IChallenge> {
     const now = new Date();
+    // Challenges end at midnight in the user's timezone
+    const today = getUserDay(await findUserTimeZone(this.userModel, userId), now);
     let endDate: Date;
 
     if (template.period === "daily") {
       // Daily challenges expire at end of today
-      endDate = new Date(now);
-      endDate.setHours(23, 59, 59, 999);
+      endDate = today.end;
     } else {
       // Weekly challenges span multiple days
-      endDate = new Date(now);
-      endDate.setDate(endDate.getDate() + template.daysRequired);
-      endDate.setHours(23, 59, 59, 999);
+      endDate = getZonedDayEnd(
+        addDaysToDateKey(today.dateKey, template.daysRequired),
+        today.timeZone
+      );
     }
 
     const challenge = new this.challengeModel({
@@ -600,6 +638,7 @@ export class ChallengeService {
       }
 
       await challenge.save();
+      if (challenge.status === "completed") await this.publishCompleted(userId, challenge);
       updated.push(challenge.toObject() as IChallenge);
     }
 
@@ -651,6 +690,15 @@ export class ChallengeService {
     };
   }
 
+  private async publishCompleted(userId: string, challenge: ChallengeDocument): Promise<void> {
+    await this.eventBus.publish("challenge.completed", {
+      userId,
+      challengeId: challenge._id.toString(),
+      title: challenge.title,
+      badgeId: challenge.badgeId,
+    });
+  }
+
   /**
    * Expire challenges that are past their end date
    */
@@ -670,9 +718,8 @@ export class ChallengeService {
       }
     );
 
-    // Expire daily challenges that are past end of day
-    const endOfToday = new Date(now);
-    endOfToday.setHours(23, 59, 59, 999);
+    // Expire daily challenges that are past end of the user's day
+    const endOfToday = getUserDay(await findUserTimeZone(this.userModel, userId), now).end;
     
     await this.challengeModel.updateMany(
       {
@@ -819,6 +866,7 @@ export class ChallengeService {
       }
 
       await challenge.save();
+      if (challenge.status === "completed") await this.publishCompleted(userId, challenge);
     }
   }
 
@@ -3,7 +3,7 @@ import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import mongoose from "mongoose";
 import { User } from "../user/user.model";
-import { Plan } from "../plan/plan.model";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
 import { Goal } from "../goals/goal.model";
 import { DailyProgress } from "../progress/progress.model";
 import {
@@ -15,11 +15,11 @@ import {
   IMeal,
 } from "../types/interfaces";
 import logger from "../utils/logger";
-import { getLocalDateKey } from "../utils/helpers";
-import {
-  generateTextWithRateLimit,
-  getErrorMessage,
-} from "../utils/gemini-rate-limiter";
+import { getUserDay } from "../utils/timezone";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import { instanceToPlain } from "class-transformer";
+import { getLlmClient, validateStructuredOutput } from "../llm";
+import { AI_CHAT_ACTION } from "../llm/schemas";
 import { EatingProfileService } from "../eating-profile/eating-profile.service";
 
 interface ChatContext {
@@ -71,7 +71,7 @@ export class ChatAIService {
    */
   async getUserPlan(userId: string): Promise<IPlan | null> {
     return this.planModel
-      .findOne({ userId: new mongoose.Types.ObjectId(userId) })
+      .findOne(currentPlanQuery(new mongoose.Types.ObjectId(userId)))
       .exec();
   }
 
@@ -86,11 +86,12 @@ export class ChatAIService {
     todayMeals: any;
   }> {
     const objectId = new mongoose.Types.ObjectId(userId);
-    const today = getLocalDateKey(new Date());
+    const user = await this.userModel.findById(objectId).lean().exec();
+    // Progress days are keyed in the user's timezone
+    const today = getUserDay(user?.timezone).dateKey;
 
-    const [user, plan, goals, todayProgress] = await Promise.all([
-      this.userModel.findById(objectId).lean().exec(),
-      this.planModel.findOne({ userId: objectId }).lean().exec(),
+    const [plan, goals, todayProgress] = await Promise.all([
+      this.planModel.findOne(currentPlanQuery(objectId)).lean().exec(),
       this.goalModel.find({ userId: objectId, status: "active" }).lean().exec(),
       this.progressModel.findOne({ userId: objectId, dateKey: today }).lean().exec(),
     ]);
@@ -121,7 +122,7 @@ export class ChatAIService {
     todayMeals: any,
     context?: ChatContext
   ): string {
-    const today = getLocalDateKey(new Date());
+    const today = getUserDay(user?.timezone).dateKey;
 
     let prompt = `You are a friendly and knowledgeable nutrition assistant for the Habeat meal planning app.
 
@@ -280,15 +281,6 @@ IMPORTANT:
     userMessage: string,
     context?: ChatContext
   ): Promise<AIResponse> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      logger.error("[ChatAI] GEMINI_API_KEY not configured");
-      return {
-        message:
-          "I apologize, but I'm unable to respond right now. Please try again later.",
-      };
-    }
-
     try {
       // Build context
       const [{ user, plan, goals, todayProgress, todayMeals }, eatingProfile] =
@@ -318,20 +310,15 @@ ${userMessage}
 
 ## Your Response:`;
 
-      logger.info(`[ChatAI] Sending message to Gemini...`);
-
-      // Use rate-limited wrapper with automatic retry
-      // Using gemini-2.5-flash-lite for better free tier rate limits
-      const responseText = await generateTextWithRateLimit(
-        apiKey,
-        "gemini-2.5-flash-lite",
-        fullPrompt,
-        {
-          maxRetries: 3,
-          timeoutMs: 30000,
-          context: "ChatAI",
-        }
-      );
+      const llm = getLlmClient("chat");
+      logger.info(`[ChatAI] Sending message to ${llm.providerName}...`);
+
+      const responseText = await llm.generateText(fullPrompt, {
+        maxRetries: 3,
+        timeoutMs: 30000,
+        context: "ChatAI",
+        userId,
+      });
 
       logger.info(`[ChatAI] Received response: ${responseText.length} chars`);
 
@@ -341,16 +328,22 @@ ${userMessage}
 
       if (actionJSON) {
         try {
-          const parsedAction = JSON.parse(actionJSON);
+          const parsedAction = await validateStructuredOutput(
+            llm,
+            fullPrompt,
+            actionJSON,
+            AI_CHAT_ACTION,
+            { maxRepairs: 1, timeoutMs: 20000, context: "ChatAI", userId }
+          );
           action = {
             type: parsedAction.type,
-            payload: parsedAction,
+            payload: instanceToPlain(parsedAction) as IProposedAction["payload"],
             status: "pending",
           };
           logger.info(`[ChatAI] Extracted action: ${parsedAction.type}`);
         } catch (parseError) {
           logger.warn(
-            `[ChatAI] Failed to parse action JSON: ${getErrorMessage(parseError)}`
+            `[ChatAI] Dropping invalid action: ${getErrorMessage(parseError)}`
           );
         }
       }
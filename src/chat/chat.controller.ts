@@ -22,12 +22,15 @@ import {
 import { ChatService } from "./chat.service";
 import { ChatAIService } from "./chat-ai.service";
 import { AuthGuard } from "../auth/auth.guard";
+import { OwnershipGuard, OwnedResource } from "../auth/guards/ownership.guard";
+import { RequiresQuota } from "../quota/quota.guard";
 import { SendMessageDto } from "./dto/send-message.dto";
 import { ActionDecisionDto } from "./dto/action-decision.dto";
 
 @ApiTags("chat")
 @Controller("chat")
-@UseGuards(AuthGuard)
+@UseGuards(AuthGuard, OwnershipGuard)
+@OwnedResource({ area: "chat", userParam: "userId" })
 @ApiBearerAuth("JWT-auth")
 export class ChatController {
   constructor(
@@ -52,13 +55,15 @@ export class ChatController {
     @Query("limit") limit?: number,
     @Request() req?
   ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
     return this.chatService.getHistory(
-      req.user._id.toString(),
+      resolvedUserId,
       limit ? parseInt(limit.toString()) : 30
     );
   }
 
   @Post(":userId/message")
+  @RequiresQuota("chatMessage")
   @ApiOperation({
     summary: "Send a message to the nutrition chatbot and get a response",
   })
@@ -68,12 +73,13 @@ export class ChatController {
     status: 200,
     description: "Message sent and response received",
   })
+  @ApiResponse({ status: 429, description: "Daily chat message quota used up" })
   async sendMessage(
     @Param("userId") userId: string,
     @Body() body: SendMessageDto,
     @Request() req
   ) {
-    const actualUserId = req.user._id.toString();
+    const actualUserId = userId === "me" ? req.user._id.toString() : userId;
 
     // Add user message to history
     const userMessage = await this.chatService.addMessage(actualUserId, {
@@ -125,7 +131,7 @@ export class ChatController {
     @Body() body: ActionDecisionDto,
     @Request() req
   ) {
-    const actualUserId = req.user._id.toString();
+    const actualUserId = userId === "me" ? req.user._id.toString() : userId;
 
     if (body.decision === "reject") {
       await this.chatService.updateActionStatus(
@@ -143,7 +149,9 @@ export class ChatController {
     }
 
     // Accept and apply the action
-    const plan = req.user.plan || (await this.chatAIService.getUserPlan(actualUserId));
+    // req.user.plan is the caller's; a delegate acts on the owner's plan
+    const ownPlan = actualUserId === req.user._id.toString() ? req.user.plan : undefined;
+    const plan = ownPlan || (await this.chatAIService.getUserPlan(actualUserId));
 
     if (!plan) {
       return {
@@ -181,6 +189,7 @@ export class ChatController {
     description: "Chat history cleared",
   })
   async clearHistory(@Param("userId") userId: string, @Request() req) {
-    return this.chatService.clearHistory(req.user._id.toString());
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.chatService.clearHistory(resolvedUserId);
   }
 }
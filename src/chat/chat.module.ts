@@ -11,6 +11,7 @@ import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
 import { PlanModule } from "../plan/plan.module";
 import { ProgressModule } from "../progress/progress.module";
 import { EatingProfileModule } from "../eating-profile/eating-profile.module";
+import { QuotaModule } from "../quota/quota.module";
 
 @Module({
   imports: [
@@ -24,6 +25,7 @@ import { EatingProfileModule } from "../eating-profile/eating-profile.module";
     forwardRef(() => PlanModule),
     forwardRef(() => ProgressModule),
     forwardRef(() => EatingProfileModule),
+    QuotaModule,
   ],
   controllers: [ChatController],
   providers: [ChatService, ChatAIService],
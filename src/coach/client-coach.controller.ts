@@ -0,0 +1,101 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { CoachService } from "./coach.service";
+import { PlanProposalService } from "./plan-proposal.service";
+import { AcceptCoachInviteDto, CoachNotesQueryDto, PlanProposalQueryDto } from "./dto";
+
+/**
+ * The client's side of the coach portal
+ */
+@ApiTags("users")
+@Controller("users/me")
+@UseGuards(AuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class ClientCoachController {
+  constructor(
+    private readonly coachService: CoachService,
+    private readonly planProposalService: PlanProposalService
+  ) {}
+
+  @Post("coaches")
+  @ApiOperation({
+    summary: "Join a coach's roster with their invite code",
+    description:
+      "Gives the coach read access to my progress, goals and plan. Ending the delegation " +
+      "or leaving the coach removes it.",
+  })
+  @ApiBody({ type: AcceptCoachInviteDto })
+  @ApiResponse({ status: 201, description: "Joined the coach's roster" })
+  @ApiResponse({ status: 404, description: "Invite not found or expired" })
+  @ApiResponse({ status: 409, description: "Already a client of this coach" })
+  async acceptInvite(@Request() req: any, @Body() body: AcceptCoachInviteDto) {
+    return this.coachService.acceptInvite(req.user._id.toString(), body.code);
+  }
+
+  @Get("coaches")
+  @ApiOperation({ summary: "Coaches I am working with" })
+  @ApiResponse({ status: 200, description: "Active coaches" })
+  async listCoaches(@Request() req: any) {
+    return this.coachService.listCoaches(req.user._id.toString());
+  }
+
+  @Delete("coaches/:coachId")
+  @ApiOperation({ summary: "Stop working with a coach and end their access" })
+  @ApiParam({ name: "coachId", description: "Coach's user ID" })
+  @ApiResponse({ status: 200, description: "Left the coach's roster" })
+  @ApiResponse({ status: 404, description: "Coach not found" })
+  async leaveCoach(@Request() req: any, @Param("coachId") coachId: string) {
+    return this.coachService.leaveCoach(req.user._id.toString(), coachId);
+  }
+
+  @Get("coach-notes")
+  @ApiOperation({ summary: "Notes my coaches left on my days" })
+  @ApiResponse({ status: 200, description: "Notes, newest day first" })
+  async listNotes(@Request() req: any, @Query() query: CoachNotesQueryDto) {
+    return this.coachService.listNotesForClient(req.user._id.toString(), query);
+  }
+
+  @Get("plan-proposals")
+  @ApiOperation({ summary: "Plan changes my coaches proposed" })
+  @ApiResponse({ status: 200, description: "Proposals, newest first" })
+  async listProposals(@Request() req: any, @Query() query: PlanProposalQueryDto) {
+    return this.planProposalService.listForClient(req.user._id.toString(), query);
+  }
+
+  @Post("plan-proposals/:proposalId/accept")
+  @ApiOperation({ summary: "Accept a proposed change and apply it to my plan" })
+  @ApiParam({ name: "proposalId", description: "Proposal ID" })
+  @ApiResponse({ status: 201, description: "Proposal accepted and the plan updated" })
+  @ApiResponse({ status: 404, description: "Proposal not found or already answered" })
+  @ApiResponse({ status: 409, description: "The plan has been replaced since" })
+  async acceptProposal(@Request() req: any, @Param("proposalId") proposalId: string) {
+    return this.planProposalService.accept(req.user._id.toString(), proposalId);
+  }
+
+  @Post("plan-proposals/:proposalId/reject")
+  @ApiOperation({ summary: "Decline a proposed change" })
+  @ApiParam({ name: "proposalId", description: "Proposal ID" })
+  @ApiResponse({ status: 201, description: "Proposal rejected" })
+  @ApiResponse({ status: 404, description: "Proposal not found or already answered" })
+  async rejectProposal(@Request() req: any, @Param("proposalId") proposalId: string) {
+    return this.planProposalService.reject(req.user._id.toString(), proposalId);
+  }
+}
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A client on a coach's roster. The coach's read access to the client's data
+ * is the linked delegation; ending either one ends the other.
+ */
+export interface ICoachClient extends Document {
+  _id: mongoose.Types.ObjectId;
+  coachId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  delegationId: mongoose.Types.ObjectId;
+  status: "active" | "ended";
+  endedAt?: Date;
+  endedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const CoachClient = { name: "CoachClient" };
+
+const coachClientSchema = new Schema<ICoachClient>(
+  {
+    coachId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    clientId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    delegationId: { type: Schema.Types.ObjectId, ref: "Delegation", required: true },
+    status: { type: String, enum: ["active", "ended"], default: "active" },
+    endedAt: { type: Date },
+    endedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  {
+    timestamps: true,
+    collection: "coach_clients",
+  }
+);
+
+// A client joins a coach's roster once at a time
+coachClientSchema.index(
+  { coachId: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { status: "active" } }
+);
+coachClientSchema.index({ clientId: 1, status: 1 });
+coachClientSchema.index({ delegationId: 1 });
+
+export const CoachClientSchema = coachClientSchema;
@@ -0,0 +1,106 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { CoachClient, ICoachClient } from "./coach-client.model";
+import { PlanEditProposal, IPlanEditProposal } from "./plan-edit-proposal.model";
+import { DailyProgress } from "../progress/progress.model";
+import { Goal } from "../goals/goal.model";
+import { IDailyProgress, IGoal } from "../types/interfaces";
+import { CBTService } from "../cbt/cbt.service";
+import { addDaysToDateKey, getUserDay } from "../utils/timezone";
+import { getMoodTrend, summarizeAdherence } from "../utils/coachAdherence";
+
+const DEFAULT_DASHBOARD_DAYS = 7;
+const GOAL_STATUSES = ["active", "in_progress", "achieved", "paused"];
+
+/**
+ * One overview of every client on a coach's roster: plan adherence over the
+ * last days, habit score and streak, mood trend, goals and open proposals.
+ * Days are the client's own, in their timezone.
+ */
+@Injectable()
+export class CoachDashboardService {
+  constructor(
+    @InjectModel(CoachClient.name) private coachClientModel: Model<ICoachClient>,
+    @InjectModel(PlanEditProposal.name) private proposalModel: Model<IPlanEditProposal>,
+    @InjectModel(DailyProgress.name) private progressModel: Model<IDailyProgress>,
+    @InjectModel(Goal.name) private goalModel: Model<IGoal>,
+    private cbtService: CBTService
+  ) {}
+
+  async getDashboard(coachId: string, days: number = DEFAULT_DASHBOARD_DAYS) {
+    const entries = await this.coachClientModel
+      .find({ coachId, status: "active" })
+      .populate("clientId", "name email timezone engagement.habitScore engagement.streakDays")
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const clients = await Promise.all(
+      entries
+        // A client whose account was purged mid-request
+        .filter((entry: any) => entry.clientId)
+        .map((entry: any) => this.getClientOverview(coachId, entry.clientId, days))
+    );
+    return { days, generatedAt: new Date(), clients };
+  }
+
+  private async getClientOverview(coachId: string, client: any, days: number) {
+    const clientId = client._id.toString();
+    const today = getUserDay(client.timezone).dateKey;
+    const dateKeys = Array.from({ length: days }, (_, i) => addDaysToDateKey(today, i - days + 1));
+
+    const [progress, goals, weekMood, monthMood, pendingProposals] = await Promise.all([
+      this.progressModel
+        .find({
+          userId: new Types.ObjectId(clientId),
+          dateKey: { $gte: dateKeys[0], $lte: today },
+        })
+        .select("dateKey caloriesConsumed caloriesGoal meals")
+        .lean(),
+      this.goalModel
+        .find({ userId: new Types.ObjectId(clientId) })
+        .select("title status current target unit")
+        .sort({ createdAt: -1 })
+        .lean(),
+      this.cbtService.getMoodSummary(clientId, "week"),
+      this.cbtService.getMoodSummary(clientId, "month"),
+      this.proposalModel.countDocuments({ coachId, clientId, status: "pending" }),
+    ]);
+
+    const week = weekMood.data.summary;
+    const month = monthMood.data.summary;
+    const goalCounts = Object.fromEntries(GOAL_STATUSES.map((status) => [status, 0]));
+    for (const goal of goals) {
+      goalCounts[goal.status] = (goalCounts[goal.status] || 0) + 1;
+    }
+
+    return {
+      client: { id: clientId, name: client.name, email: client.email },
+      adherence: summarizeAdherence(dateKeys, progress),
+      habitScore: client.engagement?.habitScore ?? 0,
+      streakDays: client.engagement?.streakDays ?? 0,
+      // Averages and counts only; mood notes and triggers stay private
+      mood: {
+        weekAverage: week.averageMoodLevel,
+        weekEntries: week.totalMoodEntries,
+        monthAverage: month.averageMoodLevel,
+        monthEntries: month.totalMoodEntries,
+        mostCommonMood: week.mostCommonMood,
+        trend: getMoodTrend(week, month),
+      },
+      goals: {
+        counts: goalCounts,
+        items: goals.map((goal) => ({
+          id: goal._id.toString(),
+          title: goal.title,
+          status: goal.status,
+          current: goal.current,
+          target: goal.target,
+          unit: goal.unit,
+          progressPercent: goal.target ? Math.min(100, Math.round((goal.current / goal.target) * 100)) : 0,
+        })),
+      },
+      pendingProposals,
+    };
+  }
+}
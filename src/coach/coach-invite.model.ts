@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Unused invite codes stop working after this many days
+export const COACH_INVITE_TTL_DAYS = 7;
+
+/**
+ * Single-use code a coach hands to a client, who enters it to join the roster
+ */
+export interface ICoachInvite extends Document {
+  _id: mongoose.Types.ObjectId;
+  coachId: mongoose.Types.ObjectId;
+  code: string;
+  // Who the coach made it for, e.g. "Anna (Tuesday group)"
+  label?: string;
+  expiresAt: Date;
+  acceptedBy?: mongoose.Types.ObjectId;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const CoachInvite = { name: "CoachInvite" };
+
+const coachInviteSchema = new Schema<ICoachInvite>(
+  {
+    coachId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    code: { type: String, required: true },
+    label: { type: String, maxlength: 100 },
+    expiresAt: { type: Date, required: true },
+    acceptedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    acceptedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "coach_invites",
+  }
+);
+
+coachInviteSchema.index({ code: 1 }, { unique: true });
+coachInviteSchema.index({ coachId: 1, createdAt: -1 });
+// Invites are removed once they expire, used or not
+coachInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const CoachInviteSchema = coachInviteSchema;
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A coach's note on one day of a client's log. Clients can read them.
+ */
+export interface ICoachNote extends Document {
+  _id: mongoose.Types.ObjectId;
+  coachId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  dateKey: string; // YYYY-MM-DD in the client's timezone
+  text: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const CoachNote = { name: "CoachNote" };
+
+const coachNoteSchema = new Schema<ICoachNote>(
+  {
+    coachId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    clientId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    dateKey: { type: String, required: true },
+    text: { type: String, required: true, maxlength: 2000 },
+  },
+  {
+    timestamps: true,
+    collection: "coach_notes",
+  }
+);
+
+coachNoteSchema.index({ clientId: 1, dateKey: -1 });
+coachNoteSchema.index({ coachId: 1, clientId: 1, dateKey: -1 });
+
+export const CoachNoteSchema = coachNoteSchema;
@@ -0,0 +1,180 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { CoachService } from "./coach.service";
+import { CoachDashboardService } from "./coach-dashboard.service";
+import { PlanProposalService } from "./plan-proposal.service";
+import {
+  CoachDashboardQueryDto,
+  CoachNotesQueryDto,
+  CreateCoachInviteDto,
+  CreateCoachNoteDto,
+  PlanProposalQueryDto,
+  ProposePlanEditDto,
+} from "./dto";
+
+@ApiTags("coach")
+@Controller("coach")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("coach")
+@ApiBearerAuth("JWT-auth")
+export class CoachController {
+  constructor(
+    private readonly coachService: CoachService,
+    private readonly dashboardService: CoachDashboardService,
+    private readonly planProposalService: PlanProposalService
+  ) {}
+
+  @Post("invites")
+  @ApiOperation({
+    summary: "Create an invite code for a new client",
+    description: "Codes are single use and expire after 7 days.",
+  })
+  @ApiBody({ type: CreateCoachInviteDto })
+  @ApiResponse({ status: 201, description: "Invite with its code" })
+  @ApiResponse({ status: 403, description: "Insufficient permissions" })
+  async createInvite(@Request() req: any, @Body() body: CreateCoachInviteDto) {
+    return this.coachService.createInvite(req.user._id.toString(), body);
+  }
+
+  @Get("invites")
+  @ApiOperation({ summary: "Invite codes that have not been used yet" })
+  @ApiResponse({ status: 200, description: "Open invites, newest first" })
+  async listInvites(@Request() req: any) {
+    return this.coachService.listInvites(req.user._id.toString());
+  }
+
+  @Delete("invites/:inviteId")
+  @ApiOperation({ summary: "Cancel an unused invite code" })
+  @ApiParam({ name: "inviteId", description: "Invite ID" })
+  @ApiResponse({ status: 200, description: "Invite deleted" })
+  @ApiResponse({ status: 404, description: "Invite not found" })
+  async deleteInvite(@Request() req: any, @Param("inviteId") inviteId: string) {
+    return this.coachService.deleteInvite(req.user._id.toString(), inviteId);
+  }
+
+  @Get("clients")
+  @ApiOperation({ summary: "My client roster" })
+  @ApiResponse({ status: 200, description: "Active clients" })
+  async listClients(@Request() req: any) {
+    return this.coachService.listClients(req.user._id.toString());
+  }
+
+  @Delete("clients/:clientId")
+  @ApiOperation({
+    summary: "Remove a client from my roster",
+    description: "Ends my access to their data and withdraws pending plan proposals.",
+  })
+  @ApiParam({ name: "clientId", description: "Client's user ID" })
+  @ApiResponse({ status: 200, description: "Client removed" })
+  @ApiResponse({ status: 404, description: "Client not found" })
+  async removeClient(@Request() req: any, @Param("clientId") clientId: string) {
+    return this.coachService.removeClient(req.user._id.toString(), clientId);
+  }
+
+  @Get("dashboard")
+  @ApiOperation({
+    summary: "Overview of every client",
+    description:
+      "Per client: meal completion and days on calorie target over the last `days` days " +
+      "(in the client's timezone), habit score and streak, mood trend, goal status and " +
+      "pending plan proposals.",
+  })
+  @ApiResponse({ status: 200, description: "Dashboard" })
+  async getDashboard(@Request() req: any, @Query() query: CoachDashboardQueryDto) {
+    return this.dashboardService.getDashboard(req.user._id.toString(), query.days);
+  }
+
+  @Get("clients/:clientId/notes")
+  @ApiOperation({ summary: "My notes on a client's days" })
+  @ApiParam({ name: "clientId", description: "Client's user ID" })
+  @ApiResponse({ status: 200, description: "Notes, newest day first" })
+  @ApiResponse({ status: 404, description: "Client not found" })
+  async listNotes(
+    @Request() req: any,
+    @Param("clientId") clientId: string,
+    @Query() query: CoachNotesQueryDto
+  ) {
+    return this.coachService.listClientNotes(req.user._id.toString(), clientId, query);
+  }
+
+  @Post("clients/:clientId/notes")
+  @ApiOperation({ summary: "Leave a note on a day of a client's log" })
+  @ApiParam({ name: "clientId", description: "Client's user ID" })
+  @ApiBody({ type: CreateCoachNoteDto })
+  @ApiResponse({ status: 201, description: "Note added; the client is notified" })
+  @ApiResponse({ status: 404, description: "Client not found" })
+  async addNote(
+    @Request() req: any,
+    @Param("clientId") clientId: string,
+    @Body() body: CreateCoachNoteDto
+  ) {
+    return this.coachService.addNote(req.user._id.toString(), clientId, body);
+  }
+
+  @Delete("notes/:noteId")
+  @ApiOperation({ summary: "Delete one of my notes" })
+  @ApiParam({ name: "noteId", description: "Note ID" })
+  @ApiResponse({ status: 200, description: "Note deleted" })
+  @ApiResponse({ status: 404, description: "Note not found" })
+  async deleteNote(@Request() req: any, @Param("noteId") noteId: string) {
+    return this.coachService.deleteNote(req.user._id.toString(), noteId);
+  }
+
+  @Post("clients/:clientId/plan-proposals")
+  @ApiOperation({
+    summary: "Propose a meal swap in a client's current plan",
+    description: "The plan only changes once the client accepts.",
+  })
+  @ApiParam({ name: "clientId", description: "Client's user ID" })
+  @ApiBody({ type: ProposePlanEditDto })
+  @ApiResponse({ status: 201, description: "Proposal sent" })
+  @ApiResponse({ status: 404, description: "Client not found or has no plan" })
+  async propose(
+    @Request() req: any,
+    @Param("clientId") clientId: string,
+    @Body() body: ProposePlanEditDto
+  ) {
+    return this.planProposalService.propose(req.user._id.toString(), clientId, body);
+  }
+
+  @Get("clients/:clientId/plan-proposals")
+  @ApiOperation({ summary: "Plan changes I proposed to a client" })
+  @ApiParam({ name: "clientId", description: "Client's user ID" })
+  @ApiResponse({ status: 200, description: "Proposals, newest first" })
+  @ApiResponse({ status: 404, description: "Client not found" })
+  async listProposals(
+    @Request() req: any,
+    @Param("clientId") clientId: string,
+    @Query() query: PlanProposalQueryDto
+  ) {
+    return this.planProposalService.listForCoach(req.user._id.toString(), clientId, query);
+  }
+
+  @Delete("plan-proposals/:proposalId")
+  @ApiOperation({ summary: "Withdraw a proposal the client has not answered" })
+  @ApiParam({ name: "proposalId", description: "Proposal ID" })
+  @ApiResponse({ status: 200, description: "Proposal withdrawn" })
+  @ApiResponse({ status: 404, description: "Proposal not found or already answered" })
+  async withdrawProposal(@Request() req: any, @Param("proposalId") proposalId: string) {
+    return this.planProposalService.withdraw(req.user._id.toString(), proposalId);
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { User, UserSchema } from "../user/user.model";
+import { Plan, PlanSchema } from "../plan/plan.model";
+import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
+import { Goal, GoalSchema } from "../goals/goal.model";
+import { PlanModule } from "../plan/plan.module";
+import { CBTModule } from "../cbt/cbt.module";
+import { CoachClient, CoachClientSchema } from "./coach-client.model";
+import { CoachInvite, CoachInviteSchema } from "./coach-invite.model";
+import { CoachNote, CoachNoteSchema } from "./coach-note.model";
+import { PlanEditProposal, PlanEditProposalSchema } from "./plan-edit-proposal.model";
+import { CoachService } from "./coach.service";
+import { CoachDashboardService } from "./coach-dashboard.service";
+import { PlanProposalService } from "./plan-proposal.service";
+import { CoachController } from "./coach.controller";
+import { ClientCoachController } from "./client-coach.controller";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CoachClient.name, schema: CoachClientSchema },
+      { name: CoachInvite.name, schema: CoachInviteSchema },
+      { name: CoachNote.name, schema: CoachNoteSchema },
+      { name: PlanEditProposal.name, schema: PlanEditProposalSchema },
+      { name: User.name, schema: UserSchema },
+      { name: Plan.name, schema: PlanSchema },
+      { name: DailyProgress.name, schema: DailyProgressSchema },
+      { name: Goal.name, schema: GoalSchema },
+    ]),
+    PlanModule,
+    CBTModule,
+  ],
+  controllers: [CoachController, ClientCoachController],
+  providers: [CoachService, CoachDashboardService, PlanProposalService],
+  exports: [CoachService],
+})
+export class CoachModule {}
@@ -0,0 +1,371 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { CoachClient, ICoachClient } from "./coach-client.model";
+import { CoachInvite, ICoachInvite, COACH_INVITE_TTL_DAYS } from "./coach-invite.model";
+import { CoachNote, ICoachNote } from "./coach-note.model";
+import { PlanEditProposal, IPlanEditProposal } from "./plan-edit-proposal.model";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import { IDelegationScope } from "../auth/delegation.model";
+import { DelegationService } from "../auth/delegation.service";
+import { EventBus } from "../events/event-bus";
+import { CoachNotesQueryDto, CreateCoachInviteDto, CreateCoachNoteDto } from "./dto";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { generateInviteCode, normalizeInviteCode } from "../utils/inviteCode";
+import logger from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INVITE_CODE_ATTEMPTS = 5;
+const MAX_NOTES = 100;
+
+// What a client shares by accepting an invite. Plan changes go through proposals.
+export const COACH_DELEGATION_SCOPES: IDelegationScope[] = [
+  { area: "progress", access: "read" },
+  { area: "goals", access: "read" },
+  { area: "plan", access: "read" },
+];
+
+type RosterEntry = Pick<ICoachClient, "_id" | "coachId" | "clientId" | "delegationId">;
+
+/**
+ * Coach side of the coach portal: invite codes, the client roster and notes
+ * on a client's days. Joining a roster grants the coach read access to the
+ * client's progress, goals and plan through a delegation; revoking that
+ * delegation from either side takes the client off the roster.
+ */
+@Injectable()
+export class CoachService implements OnModuleInit {
+  constructor(
+    @InjectModel(CoachClient.name) private coachClientModel: Model<ICoachClient>,
+    @InjectModel(CoachInvite.name) private inviteModel: Model<ICoachInvite>,
+    @InjectModel(CoachNote.name) private noteModel: Model<ICoachNote>,
+    @InjectModel(PlanEditProposal.name) private proposalModel: Model<IPlanEditProposal>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private delegationService: DelegationService,
+    private eventBus: EventBus
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe("auth.delegation_revoked", "CoachService", ({ delegationId, revokedBy }) =>
+      this.endByDelegation(delegationId, revokedBy)
+    );
+  }
+
+  // ============== INVITES ==============
+
+  async createInvite(coachId: string, dto: CreateCoachInviteDto) {
+    const expiresAt = new Date(Date.now() + COACH_INVITE_TTL_DAYS * DAY_MS);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const invite = await this.inviteModel.create({
+          coachId: new Types.ObjectId(coachId),
+          code: generateInviteCode(),
+          label: dto.label,
+          expiresAt,
+        });
+        return this.toInviteView(invite.toObject());
+      } catch (error: any) {
+        if (error?.code !== 11000 || attempt >= INVITE_CODE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Invites that can still be used
+   */
+  async listInvites(coachId: string) {
+    const invites = await this.inviteModel
+      .find({ coachId, acceptedBy: null, expiresAt: { $gt: new Date() } })
+      .sort({ createdAt: -1 })
+      .lean();
+    return invites.map((invite) => this.toInviteView(invite));
+  }
+
+  async deleteInvite(coachId: string, inviteId: string) {
+    if (!isMongoObjectIdString(inviteId)) {
+      throw new NotFoundException("Invite not found");
+    }
+    const result = await this.inviteModel.deleteOne({ _id: inviteId, coachId, acceptedBy: null });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException("Invite not found");
+    }
+    return { deleted: true };
+  }
+
+  /**
+   * Join the roster of the coach who issued `code` and share progress, goals
+   * and plan with them (read only). An existing delegation to that coach is
+   * replaced with these scopes.
+   */
+  async acceptInvite(clientId: string, code: string) {
+    const normalized = normalizeInviteCode(code);
+    const invite = await this.inviteModel
+      .findOne({ code: normalized, acceptedBy: null, expiresAt: { $gt: new Date() } })
+      .lean();
+    if (!invite) {
+      throw new NotFoundException("Invite not found or expired");
+    }
+    const coachId = invite.coachId.toString();
+    if (coachId === clientId) {
+      throw new BadRequestException("You cannot accept your own invite");
+    }
+    const coach = await this.userModel.findById(coachId).select("name role").lean();
+    if (!coach || coach.role !== "coach") {
+      throw new NotFoundException("Invite not found or expired");
+    }
+    if (await this.coachClientModel.exists({ coachId, clientId, status: "active" })) {
+      throw new ConflictException("You are already a client of this coach");
+    }
+
+    // Claim the code before granting anything so it can only be used once
+    const claimed = await this.inviteModel.findOneAndUpdate(
+      { _id: invite._id, acceptedBy: null },
+      { $set: { acceptedBy: new Types.ObjectId(clientId), acceptedAt: new Date() } }
+    );
+    if (!claimed) {
+      throw new NotFoundException("Invite not found or expired");
+    }
+
+    const delegation = await this.delegationService.grantTo(
+      clientId,
+      coachId,
+      COACH_DELEGATION_SCOPES,
+      { label: `Coach ${coach.name}` }
+    );
+    let entry: ICoachClient;
+    try {
+      entry = await this.coachClientModel.create({
+        coachId: new Types.ObjectId(coachId),
+        clientId: new Types.ObjectId(clientId),
+        delegationId: new Types.ObjectId(delegation.id),
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new ConflictException("You are already a client of this coach");
+      }
+      throw error;
+    }
+
+    logger.info(`[Coach] User ${clientId} joined coach ${coachId}`);
+    await this.eventBus.publish("coach.client_joined", { coachId, clientId });
+    return {
+      id: entry._id.toString(),
+      coach: { id: coachId, name: coach.name },
+      scopes: delegation.scopes,
+      since: entry.createdAt,
+    };
+  }
+
+  // ============== ROSTER ==============
+
+  async listClients(coachId: string) {
+    const entries = await this.coachClientModel
+      .find({ coachId, status: "active" })
+      .populate("clientId", "name email")
+      .sort({ createdAt: -1 })
+      .lean();
+    return entries.map((entry: any) => ({
+      id: entry._id.toString(),
+      client: {
+        id: entry.clientId?._id?.toString(),
+        name: entry.clientId?.name,
+        email: entry.clientId?.email,
+      },
+      delegationId: entry.delegationId.toString(),
+      since: entry.createdAt,
+    }));
+  }
+
+  /**
+   * Coaches the user is currently working with
+   */
+  async listCoaches(clientId: string) {
+    const entries = await this.coachClientModel
+      .find({ clientId, status: "active" })
+      .populate("coachId", "name email")
+      .sort({ createdAt: -1 })
+      .lean();
+    return entries.map((entry: any) => ({
+      id: entry._id.toString(),
+      coach: {
+        id: entry.coachId?._id?.toString(),
+        name: entry.coachId?.name,
+        email: entry.coachId?.email,
+      },
+      since: entry.createdAt,
+    }));
+  }
+
+  /**
+   * The active roster entry for a coach and client, or 404
+   */
+  async getActiveClient(coachId: string, clientId: string) {
+    if (!isMongoObjectIdString(clientId)) {
+      throw new NotFoundException("Client not found");
+    }
+    const entry = await this.coachClientModel
+      .findOne({ coachId, clientId, status: "active" })
+      .lean();
+    if (!entry) {
+      throw new NotFoundException("Client not found");
+    }
+    return entry;
+  }
+
+  async removeClient(coachId: string, clientId: string) {
+    const entry = await this.getActiveClient(coachId, clientId);
+    await this.end(entry, coachId);
+    return { ended: true };
+  }
+
+  async leaveCoach(clientId: string, coachId: string) {
+    if (!isMongoObjectIdString(coachId)) {
+      throw new NotFoundException("Coach not found");
+    }
+    const entry = await this.coachClientModel
+      .findOne({ coachId, clientId, status: "active" })
+      .lean();
+    if (!entry) {
+      throw new NotFoundException("Coach not found");
+    }
+    await this.end(entry, clientId);
+    return { ended: true };
+  }
+
+  // ============== NOTES ==============
+
+  async addNote(coachId: string, clientId: string, dto: CreateCoachNoteDto) {
+    await this.getActiveClient(coachId, clientId);
+    const note = await this.noteModel.create({
+      coachId: new Types.ObjectId(coachId),
+      clientId: new Types.ObjectId(clientId),
+      dateKey: dto.dateKey,
+      text: dto.text.trim(),
+    });
+    await this.eventBus.publish("coach.note_added", {
+      coachId,
+      clientId,
+      noteId: note._id.toString(),
+      dateKey: dto.dateKey,
+    });
+    return this.toNoteView(note.toObject());
+  }
+
+  /**
+   * The coach's own notes on a client, newest day first
+   */
+  async listClientNotes(coachId: string, clientId: string, query: CoachNotesQueryDto) {
+    await this.getActiveClient(coachId, clientId);
+    const notes = await this.noteModel
+      .find({ coachId, clientId, ...this.dateKeyFilter(query) })
+      .sort({ dateKey: -1, createdAt: -1 })
+      .limit(MAX_NOTES)
+      .lean();
+    return notes.map((note) => this.toNoteView(note));
+  }
+
+  async deleteNote(coachId: string, noteId: string) {
+    if (!isMongoObjectIdString(noteId)) {
+      throw new NotFoundException("Note not found");
+    }
+    const result = await this.noteModel.deleteOne({ _id: noteId, coachId });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException("Note not found");
+    }
+    return { deleted: true };
+  }
+
+  /**
+   * Notes coaches have left on the user's days, including from past coaches
+   */
+  async listNotesForClient(clientId: string, query: CoachNotesQueryDto) {
+    const notes = await this.noteModel
+      .find({ clientId, ...this.dateKeyFilter(query) })
+      .populate("coachId", "name")
+      .sort({ dateKey: -1, createdAt: -1 })
+      .limit(MAX_NOTES)
+      .lean();
+    return notes.map((note: any) => ({
+      ...this.toNoteView(note),
+      coach: { id: note.coachId?._id?.toString(), name: note.coachId?.name },
+    }));
+  }
+
+  // ============== ENDING ==============
+
+  /**
+   * Take the client off the roster, revoke the coach's access and withdraw
+   * proposals the client has not answered yet
+   */
+  private async end(entry: RosterEntry, actorId: string) {
+    await this.coachClientModel.updateOne(
+      { _id: entry._id, status: "active" },
+      { $set: { status: "ended", endedAt: new Date(), endedBy: new Types.ObjectId(actorId) } }
+    );
+    try {
+      await this.delegationService.revoke(entry.delegationId.toString(), actorId);
+    } catch (error) {
+      // Already revoked from the delegations screen
+      if (!(error instanceof NotFoundException)) throw error;
+    }
+    await this.withdrawPendingProposals(entry.coachId, entry.clientId);
+    logger.info(`[Coach] Client ${entry.clientId} left coach ${entry.coachId}`);
+  }
+
+  /**
+   * Handler for auth.delegation_revoked; a no-op for delegations that are not
+   * a coach's or whose roster entry has already ended
+   */
+  private async endByDelegation(delegationId: string, revokedBy: string) {
+    const entries = await this.coachClientModel.find({ delegationId, status: "active" }).lean();
+    for (const entry of entries) {
+      await this.coachClientModel.updateOne(
+        { _id: entry._id, status: "active" },
+        { $set: { status: "ended", endedAt: new Date(), endedBy: new Types.ObjectId(revokedBy) } }
+      );
+      await this.withdrawPendingProposals(entry.coachId, entry.clientId);
+    }
+  }
+
+  private async withdrawPendingProposals(coachId: Types.ObjectId, clientId: Types.ObjectId) {
+    await this.proposalModel.updateMany(
+      { coachId, clientId, status: "pending" },
+      { $set: { status: "withdrawn", decidedAt: new Date() } }
+    );
+  }
+
+  private dateKeyFilter(query: CoachNotesQueryDto) {
+    if (!query.from && !query.to) return {};
+    const dateKey: Record<string, string> = {};
+    if (query.from) dateKey.$gte = query.from;
+    if (query.to) dateKey.$lte = query.to;
+    return { dateKey };
+  }
+
+  private toInviteView(invite: any) {
+    return {
+      id: invite._id.toString(),
+      code: invite.code,
+      label: invite.label,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  private toNoteView(note: any) {
+    return {
+      id: note._id.toString(),
+      clientId: note.clientId.toString(),
+      dateKey: note.dateKey,
+      text: note.text,
+      createdAt: note.createdAt,
+    };
+  }
+}
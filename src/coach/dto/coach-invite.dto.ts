@@ -0,0 +1,17 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, Length, MaxLength } from "class-validator";
+
+export class CreateCoachInviteDto {
+  @ApiPropertyOptional({ example: "Anna (Tuesday group)", description: "Who the invite is for" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class AcceptCoachInviteDto {
+  @ApiProperty({ example: "K7QX2MPA", description: "Code the coach shared" })
+  @IsString()
+  @Length(8, 8)
+  code: string;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from "class-validator";
+
+export class CreateCoachNoteDto {
+  @ApiProperty({ example: "2024-01-15", description: "Day of the client's log (YYYY-MM-DD)" })
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  dateKey: string;
+
+  @ApiProperty({ example: "Great protein at lunch. Try adding veg to dinner." })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  text: string;
+}
+
+export class CoachNotesQueryDto {
+  @ApiPropertyOptional({ example: "2024-01-01", description: "First day (YYYY-MM-DD)" })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  from?: string;
+
+  @ApiPropertyOptional({ example: "2024-01-31", description: "Last day (YYYY-MM-DD)" })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  to?: string;
+}
@@ -0,0 +1,4 @@
+export * from "./coach-invite.dto";
+export * from "./coach-note.dto";
+export * from "./coach-dashboard-query.dto";
+export * from "./plan-proposal.dto";
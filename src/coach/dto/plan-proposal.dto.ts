@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsIn, IsOptional, IsString, MaxLength } from "class-validator";
+import { ReplaceMealDto } from "../../plan/dto";
+import {
+  PLAN_EDIT_PROPOSAL_STATUSES,
+  PlanEditProposalStatus,
+} from "../plan-edit-proposal.model";
+
+/**
+ * A meal swap for the client's current plan, addressed like a meal replace
+ */
+export class ProposePlanEditDto extends ReplaceMealDto {
+  @ApiPropertyOptional({ example: "More protein to support your training days" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class PlanProposalQueryDto {
+  @ApiPropertyOptional({ enum: PLAN_EDIT_PROPOSAL_STATUSES })
+  @IsOptional()
+  @IsIn(PLAN_EDIT_PROPOSAL_STATUSES)
+  status?: PlanEditProposalStatus;
+}
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const PLAN_EDIT_PROPOSAL_STATUSES = [
+  "pending",
+  "accepted",
+  "rejected",
+  "withdrawn",
+  "failed",
+] as const;
+export type PlanEditProposalStatus = (typeof PLAN_EDIT_PROPOSAL_STATUSES)[number];
+
+/**
+ * A meal swap a coach suggests for a client's current plan. Nothing changes
+ * until the client accepts it.
+ */
+export interface IPlanEditProposal extends Document {
+  _id: mongoose.Types.ObjectId;
+  coachId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  planId: mongoose.Types.ObjectId;
+  // Same addressing as PUT /plan/:userId/meal-replace/:planId
+  date: string;
+  mealType: "breakfast" | "lunch" | "dinner" | "snack";
+  snackIndex?: number;
+  meal: Record<string, any>;
+  // Why the coach suggests it
+  note?: string;
+  status: PlanEditProposalStatus;
+  decidedAt?: Date;
+  // Set when accepting failed, e.g. the day is no longer in the plan
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const PlanEditProposal = { name: "PlanEditProposal" };
+
+const planEditProposalSchema = new Schema<IPlanEditProposal>(
+  {
+    coachId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    clientId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    planId: { type: Schema.Types.ObjectId, ref: "Plan", required: true },
+    date: { type: String, required: true },
+    mealType: {
+      type: String,
+      enum: ["breakfast", "lunch", "dinner", "snack"],
+      required: true,
+    },
+    snackIndex: { type: Number },
+    meal: { type: Schema.Types.Mixed, required: true },
+    note: { type: String, maxlength: 1000 },
+    status: { type: String, enum: PLAN_EDIT_PROPOSAL_STATUSES, default: "pending" },
+    decidedAt: { type: Date },
+    error: { type: String },
+  },
+  {
+    timestamps: true,
+    collection: "plan_edit_proposals",
+  }
+);
+
+planEditProposalSchema.index({ clientId: 1, status: 1, createdAt: -1 });
+planEditProposalSchema.index({ coachId: 1, clientId: 1, createdAt: -1 });
+
+export const PlanEditProposalSchema = planEditProposalSchema;
@@ -0,0 +1,181 @@
+import { ConflictException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { PlanEditProposal, IPlanEditProposal } from "./plan-edit-proposal.model";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
+import { PlanService } from "../plan/plan.service";
+import { IMeal, IPlan } from "../types/interfaces";
+import { CoachService } from "./coach.service";
+import { EventBus } from "../events/event-bus";
+import { PlanProposalQueryDto, ProposePlanEditDto } from "./dto";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+const MAX_PROPOSALS = 100;
+
+/**
+ * Meal swaps a coach proposes for a client's current plan. The coach only
+ * has read access to the plan; the swap is applied with the client's own
+ * PlanService.replaceMeal once they accept it.
+ */
+@Injectable()
+export class PlanProposalService {
+  constructor(
+    @InjectModel(PlanEditProposal.name) private proposalModel: Model<IPlanEditProposal>,
+    @InjectModel(Plan.name) private planModel: Model<IPlan>,
+    private planService: PlanService,
+    private coachService: CoachService,
+    private eventBus: EventBus
+  ) {}
+
+  async propose(coachId: string, clientId: string, dto: ProposePlanEditDto) {
+    await this.coachService.getActiveClient(coachId, clientId);
+    const plan = await this.planModel.findOne(currentPlanQuery(clientId)).select("_id").lean();
+    if (!plan) {
+      throw new NotFoundException("Client has no meal plan");
+    }
+
+    const proposal = await this.proposalModel.create({
+      coachId: new Types.ObjectId(coachId),
+      clientId: new Types.ObjectId(clientId),
+      planId: plan._id,
+      date: dto.date,
+      mealType: dto.mealType,
+      snackIndex: dto.snackIndex,
+      meal: dto.newMeal,
+      note: dto.note,
+    });
+    await this.eventBus.publish("coach.plan_edit_proposed", {
+      coachId,
+      clientId,
+      proposalId: proposal._id.toString(),
+      date: dto.date,
+      mealType: dto.mealType,
+      mealName: dto.newMeal.name,
+    });
+    return this.toView(proposal.toObject());
+  }
+
+  /**
+   * What the coach has proposed to one client, newest first
+   */
+  async listForCoach(coachId: string, clientId: string, query: PlanProposalQueryDto) {
+    await this.coachService.getActiveClient(coachId, clientId);
+    const proposals = await this.proposalModel
+      .find({ coachId, clientId, ...(query.status && { status: query.status }) })
+      .sort({ createdAt: -1 })
+      .limit(MAX_PROPOSALS)
+      .lean();
+    return proposals.map((proposal) => this.toView(proposal));
+  }
+
+  async withdraw(coachId: string, proposalId: string) {
+    const proposal = await this.decide({ _id: proposalId, coachId }, "withdrawn");
+    return this.toView(proposal);
+  }
+
+  /**
+   * Proposals from the user's coaches, newest first
+   */
+  async listForClient(clientId: string, query: PlanProposalQueryDto) {
+    const proposals = await this.proposalModel
+      .find({ clientId, ...(query.status && { status: query.status }) })
+      .populate("coachId", "name")
+      .sort({ createdAt: -1 })
+      .limit(MAX_PROPOSALS)
+      .lean();
+    return proposals.map((proposal: any) => ({
+      ...this.toView(proposal),
+      coach: { id: proposal.coachId?._id?.toString(), name: proposal.coachId?.name },
+    }));
+  }
+
+  /**
+   * Apply the proposed meal to the plan. Fails with 409 when the plan has
+   * been replaced since the proposal was made.
+   */
+  async accept(clientId: string, proposalId: string) {
+    const proposal = await this.decide({ _id: proposalId, clientId }, "accepted");
+    const planId = proposal.planId.toString();
+    try {
+      const stillCurrent = await this.planModel.exists({ ...currentPlanQuery(clientId), _id: planId });
+      if (!stillCurrent) {
+        throw new ConflictException("The plan has been replaced since this change was proposed");
+      }
+      const plan = await this.planService.replaceMeal(
+        clientId,
+        planId,
+        proposal.date,
+        proposal.mealType,
+        proposal.meal as IMeal,
+        proposal.snackIndex
+      );
+      await this.publishDecision(proposal, "accepted");
+      return { proposal: this.toView(proposal), plan };
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.warn(`[PlanProposal] Could not apply proposal ${proposalId}: ${message}`);
+      await this.proposalModel.updateOne(
+        { _id: proposal._id },
+        { $set: { status: "failed", error: message.slice(0, 500) } }
+      );
+      throw error;
+    }
+  }
+
+  async reject(clientId: string, proposalId: string) {
+    const proposal = await this.decide({ _id: proposalId, clientId }, "rejected");
+    await this.publishDecision(proposal, "rejected");
+    return this.toView(proposal);
+  }
+
+  /**
+   * Move a pending proposal to its final status; only one decision wins
+   */
+  private async decide(
+    filter: { _id: string; coachId?: string; clientId?: string },
+    status: "accepted" | "rejected" | "withdrawn"
+  ) {
+    if (!isMongoObjectIdString(filter._id)) {
+      throw new NotFoundException("Proposal not found");
+    }
+    const proposal = await this.proposalModel
+      .findOneAndUpdate(
+        { ...filter, status: "pending" },
+        { $set: { status, decidedAt: new Date() } },
+        { new: true }
+      )
+      .lean();
+    if (!proposal) {
+      throw new NotFoundException("Proposal not found");
+    }
+    return proposal;
+  }
+
+  private async publishDecision(proposal: any, decision: "accepted" | "rejected") {
+    await this.eventBus.publish("coach.plan_edit_decided", {
+      coachId: proposal.coachId.toString(),
+      clientId: proposal.clientId.toString(),
+      proposalId: proposal._id.toString(),
+      decision,
+      mealName: proposal.meal?.name,
+    });
+  }
+
+  private toView(proposal: any) {
+    return {
+      id: proposal._id.toString(),
+      clientId: proposal.clientId.toString(),
+      planId: proposal.planId.toString(),
+      date: proposal.date,
+      mealType: proposal.mealType,
+      snackIndex: proposal.snackIndex,
+      meal: proposal.meal,
+      note: proposal.note,
+      status: proposal.status,
+      decidedAt: proposal.decidedAt,
+      createdAt: proposal.createdAt,
+    };
+  }
+}
@@ -6,11 +6,12 @@ import { IEatingProfile, EatingProfile } from "./eating-profile.model";
 import { MealMoodCorrelation, IMealMoodCorrelation, MoodEntry, IMoodEntry } from "../cbt/cbt.model";
 import { IUserData } from "../types/interfaces";
 import { User } from "../user/user.model";
-import { callGeminiWithRateLimit } from "../utils/gemini-rate-limiter";
+import { getLlmClient, generateStructured } from "../llm";
+import { AI_EATING_PROFILE, AiEatingProfile } from "../llm/schemas";
 import { loadKnowledge } from "../knowledge/loader";
 import logger from "../utils/logger";
 
-// ─── Gemini system prompt (send once per context cache TTL) ─────────────────
+// ─── System prompt (send once per context cache TTL) ─────────────────
 
 const SYSTEM_PROMPT = `You are an eating behavior analyst. Analyze the user data snapshot and return ONLY valid JSON matching the output schema. Be precise. No explanations outside the JSON.
 
@@ -165,12 +166,6 @@ export class EatingProfileAgent {
   // ── Tier 1 / 2: full AI analysis ─────────────────────────────────────────
 
   async run(userId: string): Promise<void> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      logger.error("[EatingProfileAgent] GEMINI_API_KEY not set");
-      return;
-    }
-
     const [user, correlations, moodLogs, profile] = await Promise.all([
       this.userModel.findById(userId).lean().exec(),
       this.correlationModel
@@ -197,22 +192,13 @@ export class EatingProfileAgent {
       const knowledge = loadKnowledge("eating-profile", { maxTokens: 1400 });
       const fullPrompt = knowledge ? `${knowledge}\n\n---\n\n${prompt}` : prompt;
 
-      const raw = await callGeminiWithRateLimit(
-        apiKey,
-        "gemini-2.0-flash",
-        async (model) => {
-          const result = await model.generateContent([{ text: fullPrompt }]);
-          if (!result?.response) throw new Error("Empty response");
-          return result.response.text();
-        },
-        { context: "EatingProfileAgent", maxRetries: 3 }
+      const output = await generateStructured(
+        getLlmClient("eating-profile"),
+        fullPrompt,
+        AI_EATING_PROFILE,
+        { context: "EatingProfileAgent", maxRetries: 3, userId }
       );
-
-      const parsed = this.parseAgentResponse(raw);
-      if (!parsed) {
-        logger.warn(`[EatingProfileAgent] Failed to parse response for ${userId}`);
-        return;
-      }
+      const parsed = this.toProfileFields(output);
 
       const totalCorrelations = await this.correlationModel.countDocuments({
         userId: new mongoose.Types.ObjectId(userId),
@@ -346,26 +332,19 @@ export class EatingProfileAgent {
     };
   }
 
-  private parseAgentResponse(raw: string): Partial<IEatingProfile> | null {
-    try {
-      const jsonMatch = raw.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) return null;
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        eatingType: parsed.eatingType,
-        emotionalEatingRisk: parsed.emotionalEatingRisk,
-        triggerScores: parsed.triggerScores ?? {},
-        riskWindows: parsed.riskWindows ?? [],
-        bestMeals: parsed.bestMeals ?? [],
-        patternTags: parsed.patternTags ?? [],
-        suggestionTags: parsed.suggestionTags ?? [],
-        nutritionTendency: parsed.nutritionTendency ?? {
-          calorieAccuracy: "on-target",
-          macroWeakness: null,
-        },
-      };
-    } catch {
-      return null;
-    }
+  private toProfileFields(output: AiEatingProfile): Partial<IEatingProfile> {
+    return {
+      eatingType: output.eatingType,
+      emotionalEatingRisk: output.emotionalEatingRisk,
+      triggerScores: output.triggerScores ?? {},
+      riskWindows: output.riskWindows ?? [],
+      bestMeals: output.bestMeals ?? [],
+      patternTags: output.patternTags ?? [],
+      suggestionTags: output.suggestionTags ?? [],
+      nutritionTendency: {
+        calorieAccuracy: output.nutritionTendency?.calorieAccuracy ?? "on-target",
+        macroWeakness: output.nutritionTendency?.macroWeakness ?? null,
+      },
+    };
   }
 }
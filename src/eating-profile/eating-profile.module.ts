@@ -9,9 +9,12 @@ import {
   MealMoodCorrelation, MealMoodCorrelationSchema,
 } from "../cbt/cbt.model";
 import { User, UserSchema } from "../user/user.model";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
 import logger from "../utils/logger";
 
-const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
+const WEEKLY_ANALYSIS_JOB = "eating-profile.weekly-analysis";
+// Mondays 03:00 UTC
+const WEEKLY_ANALYSIS_CRON = "0 3 * * 1";
 
 @Module({
   imports: [
@@ -27,13 +30,25 @@ const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
   exports: [EatingProfileService],
 })
 export class EatingProfileModule implements OnModuleInit {
-  constructor(private readonly service: EatingProfileService) {}
+  constructor(
+    private readonly service: EatingProfileService,
+    private readonly jobScheduler: JobSchedulerService
+  ) {}
 
-  onModuleInit() {
-    // Run weekly deep analysis every 7 days
-    setInterval(async () => {
-      logger.info("[EatingProfileModule] Starting weekly profile analysis");
-      await this.service.runScheduledAnalysis();
-    }, SEVEN_DAYS_MS);
+  async onModuleInit() {
+    // Weekly deep analysis; the scheduler makes sure one instance runs it
+    this.jobScheduler.registerHandler(
+      WEEKLY_ANALYSIS_JOB,
+      async () => {
+        logger.info("[EatingProfileModule] Starting weekly profile analysis");
+        await this.service.runScheduledAnalysis();
+      },
+      { maxAttempts: 2, backoffMs: 30 * 60 * 1000 }
+    );
+    try {
+      await this.jobScheduler.scheduleRecurring(WEEKLY_ANALYSIS_JOB, WEEKLY_ANALYSIS_CRON);
+    } catch (error: any) {
+      logger.error(`[EatingProfileModule] Could not schedule weekly analysis: ${error?.message}`);
+    }
   }
 }
@@ -1,4 +1,4 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, OnModuleInit } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import mongoose from "mongoose";
@@ -6,6 +6,7 @@ import { EatingProfile, IEatingProfile } from "./eating-profile.model";
 import { EatingProfileAgent } from "./eating-profile.agent";
 import { PATTERN_BANK, BankPattern } from "./banks/patterns.bank";
 import { SUGGESTION_BANK, BankSuggestion } from "./banks/suggestions.bank";
+import { EventBus } from "../events/event-bus";
 import logger from "../utils/logger";
 
 function filterBank<T extends { tags: string[]; priority: number }>(
@@ -20,12 +21,19 @@ function filterBank<T extends { tags: string[]; priority: number }>(
 }
 
 @Injectable()
-export class EatingProfileService {
+export class EatingProfileService implements OnModuleInit {
   constructor(
     @InjectModel(EatingProfile.name) private profileModel: Model<IEatingProfile>,
     private agent: EatingProfileAgent,
+    private eventBus: EventBus,
   ) {}
 
+  onModuleInit() {
+    this.eventBus.subscribe("cbt.meal_mood_linked", "EatingProfileService", ({ userId }) =>
+      this.onNewCorrelation(userId)
+    );
+  }
+
   async seed(userId: string): Promise<void> {
     await this.agent.seed(userId);
   }
@@ -0,0 +1,10 @@
+import { Global, Module } from "@nestjs/common";
+import { EmailService } from "./email.service";
+
+// Global so any module can send email
+@Global()
+@Module({
+  providers: [EmailService],
+  exports: [EmailService],
+})
+export class EmailModule {}
@@ -0,0 +1,54 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { EmailMessage, EmailSendResult, getEmailTransport, maskEmail } from "./transports";
+import logger from "../utils/logger";
+
+const DEFAULT_FROM = "Habeat <no-reply@habeat.app>";
+const DEFAULT_LINK_BASE_URL = "http://localhost:3000";
+
+@Injectable()
+export class EmailService {
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Send through the configured transport. Never throws; a missing transport
+   * or provider error comes back as a failed result.
+   */
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const transport = getEmailTransport();
+    if (!transport) {
+      logger.error(
+        `[EmailService] No email transport configured, dropping "${message.subject}" to ${maskEmail(message.to)}`
+      );
+      return { status: "failed", error: "No email transport configured" };
+    }
+
+    const from = this.configService.get<string>("EMAIL_FROM") || DEFAULT_FROM;
+    const result = await transport.send(from, message);
+    if (result.status === "failed") {
+      logger.error(
+        `[EmailService] ${transport.name} failed sending "${message.subject}" to ${maskEmail(message.to)}: ${result.error}`
+      );
+    } else {
+      logger.info(
+        `[EmailService] Sent "${message.subject}" to ${maskEmail(message.to)} via ${transport.name}`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Absolute link into the client app for use in emails
+   */
+  buildAppLink(pathname: string, params: Record<string, string>): string {
+    const base =
+      this.configService.get<string>("EMAIL_LINK_BASE_URL") ||
+      this.configService.get<string>("PROD_CLIENT_SITE") ||
+      DEFAULT_LINK_BASE_URL;
+    const url = new URL(pathname, base);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+}
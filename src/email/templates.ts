@@ -0,0 +1,67 @@
+import { EmailMessage } from "./transports";
+
+type EmailContent = Omit<EmailMessage, "to">;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// Greeting, intro, call-to-action link, closing note
+const actionEmail = (
+  subject: string,
+  greeting: string,
+  intro: string,
+  link: string,
+  action: string,
+  outro: string
+): EmailContent => ({
+  subject,
+  text: `${greeting}\n\n${intro}\n\n${link}\n\n${outro}`,
+  html: [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    `<p><a href="${escapeHtml(link)}">${escapeHtml(action)}</a></p>`,
+    `<p>${escapeHtml(outro)}</p>`,
+  ].join("\n"),
+});
+
+export const passwordResetEmail = (
+  name: string | undefined,
+  link: string,
+  expiresInMinutes: number
+): EmailContent =>
+  actionEmail(
+    "Reset your Habeat password",
+    `Hi ${name || "there"},`,
+    "We received a request to reset your Habeat password.",
+    link,
+    "Reset password",
+    `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`
+  );
+
+export const emailVerificationEmail = (
+  name: string | undefined,
+  link: string,
+  expiresInHours: number
+): EmailContent =>
+  actionEmail(
+    "Verify your email for Habeat",
+    `Hi ${name || "there"},`,
+    "Please confirm this is your email address for Habeat.",
+    link,
+    "Verify email",
+    `The link expires in ${expiresInHours} hours.`
+  );
+
+export const accountDeletionScheduledEmail = (
+  name: string | undefined,
+  link: string,
+  deletesOn: string
+): EmailContent =>
+  actionEmail(
+    "Your Habeat account will be deleted",
+    `Hi ${name || "there"},`,
+    `Your Habeat account is scheduled for deletion on ${deletesOn}. Until then you can sign in and restore it.`,
+    link,
+    "Restore my account",
+    "After that date your data is permanently deleted and can't be recovered. If you didn't ask for this, restore your account and change your password."
+  );
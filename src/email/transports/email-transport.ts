@@ -0,0 +1,28 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailSendResult {
+  status: "sent" | "failed";
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * An email delivery channel. Implementations never throw; failures are
+ * reported in the result so callers decide whether they matter.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(from: string, message: EmailMessage): Promise<EmailSendResult>;
+}
+
+// Keeps addresses out of logs beyond what is needed to tell them apart
+export const maskEmail = (email: string): string => {
+  const [local, domain] = email.split("@");
+  if (!domain) return "***";
+  return `${local.slice(0, 2)}***@${domain}`;
+};
@@ -0,0 +1,52 @@
+import logger from "../../utils/logger";
+import { EmailTransport } from "./email-transport";
+import { ConsoleEmailTransport, FileEmailTransport } from "./local.transport";
+import { SendGridEmailTransport } from "./sendgrid.transport";
+
+export * from "./email-transport";
+export { ConsoleEmailTransport, FileEmailTransport } from "./local.transport";
+export { SendGridEmailTransport } from "./sendgrid.transport";
+
+/**
+ * Email transport selection from EMAIL_TRANSPORT:
+ * - console: log emails
+ * - file: append to EMAIL_FILE_PATH (local outbox for development)
+ * - sendgrid: send with SENDGRID_API_KEY
+ * Unset or unknown means email is not configured.
+ */
+
+let transport: EmailTransport | null | undefined;
+
+const createTransport = (): EmailTransport | null => {
+  const env = process.env;
+  switch (env.EMAIL_TRANSPORT) {
+    case "console":
+      return new ConsoleEmailTransport();
+    case "file":
+      return new FileEmailTransport(env.EMAIL_FILE_PATH || "email-outbox.jsonl");
+    case "sendgrid":
+      return env.SENDGRID_API_KEY ? new SendGridEmailTransport(env.SENDGRID_API_KEY) : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * The configured transport, or null when email is not configured
+ */
+export const getEmailTransport = (): EmailTransport | null => {
+  if (transport === undefined) {
+    try {
+      transport = createTransport();
+    } catch (error: any) {
+      logger.error(`[Email] Could not configure transport: ${error?.message}`);
+      transport = null;
+    }
+  }
+  return transport;
+};
+
+// Tests and config reloads
+export const resetEmailTransport = () => {
+  transport = undefined;
+};
@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+import logger from "../../utils/logger";
+import { EmailMessage, EmailSendResult, EmailTransport, maskEmail } from "./email-transport";
+
+/**
+ * Logs emails instead of sending them (EMAIL_TRANSPORT=console)
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(from: string, message: EmailMessage): Promise<EmailSendResult> {
+    logger.info(
+      `[Email:console] ${from} -> ${maskEmail(message.to)} "${message.subject}"\n${message.text}`
+    );
+    return { status: "sent", messageId: `console-${Date.now()}` };
+  }
+}
+
+/**
+ * Appends emails as JSON lines to a local outbox file (EMAIL_TRANSPORT=file),
+ * so links in them can be opened during development
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  }
+
+  async send(from: string, message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `file-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    try {
+      await fs.promises.appendFile(
+        this.filePath,
+        JSON.stringify({ messageId, from, sentAt: new Date().toISOString(), ...message }) + "\n"
+      );
+    } catch (error: any) {
+      return { status: "failed", error: error?.message };
+    }
+    return { status: "sent", messageId };
+  }
+}
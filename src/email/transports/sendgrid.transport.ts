@@ -0,0 +1,36 @@
+import axios from "axios";
+import { getErrorMessage } from "../../utils/gemini-rate-limiter";
+import { EmailMessage, EmailSendResult, EmailTransport } from "./email-transport";
+
+/**
+ * SendGrid v3 mail send API
+ */
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = "sendgrid";
+
+  constructor(private readonly apiKey: string) {}
+
+  async send(from: string, message: EmailMessage): Promise<EmailSendResult> {
+    const content = [{ type: "text/plain", value: message.text }];
+    if (message.html) content.push({ type: "text/html", value: message.html });
+
+    try {
+      const response = await axios.post(
+        "https://api.sendgrid.com/v3/mail/send",
+        {
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: from },
+          subject: message.subject,
+          content,
+        },
+        {
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+          timeout: 10000,
+        }
+      );
+      return { status: "sent", messageId: response.headers["x-message-id"] };
+    } catch (error) {
+      return { status: "failed", error: getErrorMessage(error) };
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Module, forwardRef } from "@nestjs/common";
+import { Module, OnModuleInit, forwardRef } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { EngagementController } from "./engagement.controller";
 import { EngagementService } from "./engagement.service";
@@ -6,6 +6,11 @@ import { WeeklySummaryService } from "./weekly-summary.service";
 import { User, UserSchema } from "../user/user.model";
 import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
 import { ProgressModule } from "../progress/progress.module";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import logger from "../utils/logger";
+
+const STREAK_FREEZE_RESET_JOB = "engagement.reset-streak-freeze";
+const WEEKLY_SUMMARIES_JOB = "engagement.weekly-summaries";
 
 @Module({
   imports: [
@@ -19,4 +24,28 @@ import { ProgressModule } from "../progress/progress.module";
   providers: [EngagementService, WeeklySummaryService],
   exports: [EngagementService, WeeklySummaryService],
 })
-export class EngagementModule {}
+export class EngagementModule implements OnModuleInit {
+  constructor(
+    private readonly engagementService: EngagementService,
+    private readonly weeklySummaryService: WeeklySummaryService,
+    private readonly jobScheduler: JobSchedulerService
+  ) {}
+
+  async onModuleInit() {
+    this.jobScheduler.registerHandler(STREAK_FREEZE_RESET_JOB, () =>
+      this.engagementService.resetStreakFreezeForAllUsers()
+    );
+    this.jobScheduler.registerHandler(WEEKLY_SUMMARIES_JOB, () =>
+      this.weeklySummaryService.generateWeeklySummariesForAllUsers()
+    );
+
+    try {
+      // 1st of the month, 00:05 UTC
+      await this.jobScheduler.scheduleRecurring(STREAK_FREEZE_RESET_JOB, "5 0 1 * *");
+      // Sundays 18:00 UTC, ready for the start of the week
+      await this.jobScheduler.scheduleRecurring(WEEKLY_SUMMARIES_JOB, "0 18 * * 0");
+    } catch (error: any) {
+      logger.error(`[EngagementModule] Could not schedule jobs: ${error?.message}`);
+    }
+  }
+}
@@ -1,10 +1,12 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, NotFoundException, OnModuleInit } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { User } from "../user/user.model";
 import { DailyProgress } from "../progress/progress.model";
 import { IUserData, IDailyProgress, IBadge } from "../types/interfaces";
+import { EventBus } from "../events/event-bus";
 import logger from "../utils/logger";
+import { addDaysToDateKey, findUserTimeZone, getDateKeyInZone } from "../utils/timezone";
 
 // Habit-focused badge definitions
 export const HABIT_BADGES: Record<string, Omit<IBadge, "earnedAt" | "id">> = {
@@ -180,21 +182,26 @@ export const XP_REWARDS = {
 export const BADGE_DEFINITIONS = HABIT_BADGES;
 
 @Injectable()
-export class EngagementService {
+export class EngagementService implements OnModuleInit {
   constructor(
     @InjectModel(User.name) private userModel: Model<IUserData>,
     @InjectModel(DailyProgress.name)
-    private progressModel: Model<IDailyProgress>
+    private progressModel: Model<IDailyProgress>,
+    private eventBus: EventBus
   ) {}
 
+  onModuleInit() {
+    // Bonus XP once all main meals of the day are done
+    this.eventBus.subscribe("progress.meal_completed", "EngagementService", ({ userId, dateKey }) =>
+      this.checkDayCompletion(userId, dateKey)
+    );
+  }
+
   /**
-   * Get local date key in YYYY-MM-DD format
+   * Today's date key (YYYY-MM-DD) in the user's timezone
    */
-  private getLocalDateKey(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  private async getUserTodayKey(userId: string): Promise<string> {
+    return getDateKeyInZone(new Date(), await findUserTimeZone(this.userModel, userId));
   }
 
   /**
@@ -273,18 +280,14 @@ export class EngagementService {
    * Get number of active days in the last N days
    */
   async getRecentActivityDays(userId: string, days: number): Promise<number> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const startDate = new Date(today);
-    startDate.setDate(startDate.getDate() - days + 1);
+    const todayKey = await this.getUserTodayKey(userId);
 
     const progressRecords = await this.progressModel
       .find({
         userId,
         dateKey: {
-          $gte: this.getLocalDateKey(startDate),
-          $lte: this.getLocalDateKey(today),
+          $gte: addDaysToDateKey(todayKey, -days + 1),
+          $lte: todayKey,
         },
       })
       .select("dateKey meals")
@@ -308,18 +311,14 @@ export class EngagementService {
    * Get goal achievement rate (percentage of days where calorie goal was hit)
    */
   async getGoalAchievementRate(userId: string, days: number): Promise<number> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const startDate = new Date(today);
-    startDate.setDate(startDate.getDate() - days + 1);
+    const todayKey = await this.getUserTodayKey(userId);
 
     const progressRecords = await this.progressModel
       .find({
         userId,
         dateKey: {
-          $gte: this.getLocalDateKey(startDate),
-          $lte: this.getLocalDateKey(today),
+          $gte: addDaysToDateKey(todayKey, -days + 1),
+          $lte: todayKey,
         },
       })
       .select("caloriesConsumed caloriesGoal")
@@ -348,17 +347,14 @@ export class EngagementService {
     const weeklyConsistency = Math.round((recentDays / 7) * 100);
 
     // Count goals hit this week
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const startDate = new Date(today);
-    startDate.setDate(startDate.getDate() - 6); // Last 7 days
+    const todayKey = await this.getUserTodayKey(userId);
 
     const progressRecords = await this.progressModel
       .find({
         userId,
         dateKey: {
-          $gte: this.getLocalDateKey(startDate),
-          $lte: this.getLocalDateKey(today),
+          $gte: addDaysToDateKey(todayKey, -6), // Last 7 days
+          $lte: todayKey,
         },
       })
       .select("caloriesConsumed caloriesGoal water")
@@ -395,9 +391,14 @@ export class EngagementService {
     longestStreak: number;
     lastActiveDate: string | null;
   }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayKey = this.getLocalDateKey(today);
+    // Days roll over at midnight in the user's timezone
+    const todayKey = await this.getUserTodayKey(userId);
+
+    const user = await this.userModel
+      .findById(userId)
+      .select("engagement.streakResetDate")
+      .lean();
+    const streakResetDate = user?.engagement?.streakResetDate;
 
     const progressRecords = await this.progressModel
       .find({ userId })
@@ -409,8 +410,9 @@ export class EngagementService {
       return { currentStreak: 0, longestStreak: 0, lastActiveDate: null };
     }
 
-    // Filter to only days with at least one completed meal
+    // Filter to only days with at least one completed meal, after any reset
     const activeDays = progressRecords.filter((p: any) => {
+      if (streakResetDate && p.dateKey <= streakResetDate) return false;
       const meals = p.meals;
       return (
         meals?.breakfast?.done ||
@@ -429,27 +431,26 @@ export class EngagementService {
 
     // Calculate current streak
     let currentStreak = 0;
-    let checkDate = new Date(today);
+    let checkKey = todayKey;
     let missedDays = 0;
 
     if (!activeDateSet.has(todayKey)) {
-      checkDate.setDate(checkDate.getDate() - 1);
+      checkKey = addDaysToDateKey(checkKey, -1);
     }
 
     while (missedDays < 2) {
-      const checkKey = this.getLocalDateKey(checkDate);
       if (activeDateSet.has(checkKey)) {
         currentStreak++;
         missedDays = 0;
       } else {
         missedDays++;
         if (currentStreak === 0 && missedDays === 1) {
-          checkDate.setDate(checkDate.getDate() - 1);
+          checkKey = addDaysToDateKey(checkKey, -1);
           continue;
         }
       }
-      checkDate.setDate(checkDate.getDate() - 1);
-      if (checkDate < new Date("2020-01-01")) break;
+      checkKey = addDaysToDateKey(checkKey, -1);
+      if (checkKey < "2020-01-01") break;
     }
 
     // Calculate longest streak
@@ -529,7 +530,7 @@ export class EngagementService {
 
     const newBadges: IBadge[] = [];
     let milestoneReached: string | null = null;
-    const todayKey = this.getLocalDateKey(new Date());
+    const todayKey = getDateKeyInZone(new Date(), (user as any).timezone);
 
     // Check if first meal ever
     const isFirstMeal = (user as any).engagement.totalMealsLogged === 0;
@@ -626,6 +627,8 @@ export class EngagementService {
 
     user.markModified("engagement");
     await user.save();
+    await this.publishBadgesEarned(userId, newBadges);
+    await this.eventBus.publish("engagement.streak_updated", { userId, streak });
 
     logger.info(
       `[EngagementService] Meal completed for user ${userId}. Habit Score: ${habitScore}, Streak: ${streak}`
@@ -757,19 +760,20 @@ export class EngagementService {
     (user as any).engagement.badges.push(newBadge);
     user.markModified("engagement");
     await user.save();
+    await this.publishBadgesEarned(userId, [newBadge]);
 
     logger.info(`[Engagement] Badge awarded: ${badgeId} to user ${userId}`);
     return newBadge;
   }
 
   /**
-   * Check day completion
+   * Check day completion (defaults to the user's today)
    */
-  async checkDayCompletion(userId: string): Promise<{
+  async checkDayCompletion(userId: string, dateKey?: string): Promise<{
     completed: boolean;
     xpAwarded: number;
   }> {
-    const todayKey = this.getLocalDateKey(new Date());
+    const todayKey = dateKey || (await this.getUserTodayKey(userId));
 
     const progress = await this.progressModel.findOne({
       userId,
@@ -915,6 +919,38 @@ export class EngagementService {
     return { success: true, message: "Streak freeze activated!" };
   }
 
+  /**
+   * Start the user's streaks over from tomorrow (admin action). Days up to
+   * and including today no longer count, so recalculating keeps them at 0.
+   */
+  async resetStreak(userId: string): Promise<{
+    streakResetDate: string;
+    previousStreak: number;
+    previousLongestStreak: number;
+  }> {
+    const streakResetDate = await this.getUserTodayKey(userId);
+    const user = await this.userModel.findOneAndUpdate(
+      { _id: userId },
+      {
+        $set: {
+          "engagement.streakDays": 0,
+          "engagement.longestStreak": 0,
+          "engagement.streakResetDate": streakResetDate,
+        },
+      }
+    );
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    logger.info(`[EngagementService] Streak reset for user ${userId} as of ${streakResetDate}`);
+    return {
+      streakResetDate,
+      previousStreak: user.engagement?.streakDays || 0,
+      previousLongestStreak: user.engagement?.longestStreak || 0,
+    };
+  }
+
   /**
    * Reset streak freeze availability (monthly)
    */
@@ -931,6 +967,21 @@ export class EngagementService {
   }
 
   // Helper methods
+  private async publishBadgesEarned(userId: string, badges: IBadge[]): Promise<void> {
+    for (const badge of badges) {
+      await this.eventBus.publish("engagement.badge_earned", {
+        userId,
+        badge: {
+          id: badge.id,
+          name: badge.name,
+          description: badge.description,
+          icon: badge.icon,
+          category: badge.category,
+        },
+      });
+    }
+  }
+
   private hasBadge(user: any, badgeId: string): boolean {
     return user.engagement?.badges?.some((b: IBadge) => b.id === badgeId);
   }
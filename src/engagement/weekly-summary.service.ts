@@ -6,6 +6,7 @@ import { DailyProgress } from "../progress/progress.model";
 import { IWeeklySummary, IUserData, IDailyProgress } from "../types/interfaces";
 import { EngagementService } from "./engagement.service";
 import logger from "../utils/logger";
+import { addDaysToDateKey, getUserDay, getZonedDayStart } from "../utils/timezone";
 
 // Motivational messages based on consistency score
 const MOTIVATIONAL_MESSAGES = {
@@ -57,14 +58,10 @@ export class WeeklySummaryService {
       return null;
     }
 
-    // Get date range for the past week
-    const now = new Date();
-    const weekEnd = new Date(now);
-    weekEnd.setHours(23, 59, 59, 999);
-
-    const weekStart = new Date(now);
-    weekStart.setDate(weekStart.getDate() - 6);
-    weekStart.setHours(0, 0, 0, 0);
+    // Get date range for the past week, in the user's timezone
+    const today = getUserDay(user.timezone);
+    const weekEnd = today.end;
+    const weekStart = getZonedDayStart(addDaysToDateKey(today.dateKey, -6), today.timeZone);
 
     // Fetch daily progress for the week
     const progressRecords = await this.progressModel.find({
@@ -196,6 +193,41 @@ export class WeeklySummaryService {
     return summary;
   }
 
+  /**
+   * Generate summaries for users active in the last two weeks who have not had
+   * one in the past 6 days (run by the weekly job; safe to retry)
+   */
+  async generateWeeklySummariesForAllUsers(): Promise<{ generated: number; failed: number }> {
+    const now = Date.now();
+    const activeSince = new Date(now - 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const summarizedBefore = new Date(now - 6 * 24 * 60 * 60 * 1000);
+
+    const users = await this.userModel
+      .find({
+        "engagement.lastActiveDate": { $gte: activeSince },
+        $or: [
+          { "engagement.lastWeeklySummary": null },
+          { "engagement.lastWeeklySummary": { $lt: summarizedBefore } },
+        ],
+      })
+      .select("_id")
+      .lean();
+
+    let generated = 0;
+    let failed = 0;
+    for (const user of users) {
+      try {
+        if (await this.generateWeeklySummary(user._id.toString())) generated++;
+      } catch (error: any) {
+        failed++;
+        logger.error(`[WeeklySummary] Failed for user ${user._id}: ${error?.message}`);
+      }
+    }
+
+    logger.info(`[WeeklySummary] Weekly run: ${generated} generated, ${failed} failed`);
+    return { generated, failed };
+  }
+
   /**
    * Get the latest weekly summary for a user
    */
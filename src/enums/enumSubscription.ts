@@ -91,3 +91,63 @@ export function hasFeatureAccessForUser(
     feature
   );
 }
+
+/**
+ * Metered AI actions. Each has a per-tier limit per period; null = unlimited.
+ * Limits can be overridden with AI_QUOTA_<TIER>_<ACTION>, e.g.
+ * AI_QUOTA_FREE_CHAT_MESSAGE=20 (or "unlimited").
+ */
+export const QUOTA_KEYS = [
+  "weeklyPlanGeneration",
+  "rescueMeal",
+  "chatMessage",
+  "photoRecognition",
+] as const;
+
+export type QuotaKey = (typeof QUOTA_KEYS)[number];
+
+export type QuotaPeriod = "day" | "week" | "month";
+
+export const QUOTA_PERIODS: Record<QuotaKey, QuotaPeriod> = {
+  weeklyPlanGeneration: "week",
+  rescueMeal: "day",
+  chatMessage: "day",
+  photoRecognition: "day",
+};
+
+export const TIER_QUOTAS: Record<SubscriptionTier, Record<QuotaKey, number | null>> = {
+  [SubscriptionTier.FREE]: {
+    weeklyPlanGeneration: 1,
+    rescueMeal: 1,
+    chatMessage: 10,
+    photoRecognition: 0,
+  },
+  [SubscriptionTier.PLUS]: {
+    weeklyPlanGeneration: 5,
+    rescueMeal: 5,
+    chatMessage: 50,
+    photoRecognition: 0,
+  },
+  [SubscriptionTier.PREMIUM]: {
+    weeklyPlanGeneration: 20,
+    rescueMeal: 20,
+    chatMessage: 200,
+    photoRecognition: 30,
+  },
+};
+
+// Cheapest tier whose default limit for a quota is above the given one
+export function getUpgradeTierForQuota(
+  tier: SubscriptionTier,
+  key: QuotaKey
+): SubscriptionTier | null {
+  const current = TIER_QUOTAS[tier][key];
+  if (current === null) return null;
+  const upgrade = (Object.keys(TIER_RANK) as SubscriptionTier[]).find(
+    (candidate) =>
+      TIER_RANK[candidate] > TIER_RANK[tier] &&
+      (TIER_QUOTAS[candidate][key] === null ||
+        (TIER_QUOTAS[candidate][key] as number) > current)
+  );
+  return upgrade ?? null;
+}
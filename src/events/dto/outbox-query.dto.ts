@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, IsIn, IsInt, Min, Max } from "class-validator";
+import { Type } from "class-transformer";
+
+export class OutboxQueryDto {
+  @ApiPropertyOptional({ description: "Event name, e.g. progress.meal_completed" })
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  @ApiPropertyOptional({ enum: ["pending", "processed", "failed"] })
+  @IsOptional()
+  @IsIn(["pending", "processed", "failed"])
+  status?: "pending" | "processed" | "failed";
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,275 @@
+import { Injectable, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import mongoose from "mongoose";
+import { AppEventHandler, AppEventMap, AppEventName } from "./events.types";
+import {
+  OutboxEvent,
+  IOutboxEvent,
+  IOutboxDelivery,
+  OutboxDeliveryStatus,
+} from "./event-outbox.model";
+import { OutboxQueryDto } from "./dto";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+interface Subscription {
+  name: string;
+  handler: AppEventHandler<any>;
+}
+
+const RETRY_JOB = "events.retry-outbox";
+const RETRY_CRON = "* * * * *";
+const MAX_ATTEMPTS = 5; // including the first delivery
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// A delivery still pending after this was never attempted (process stopped mid-request)
+const STALE_PENDING_MS = 5 * 60 * 1000;
+const RETRY_BATCH_SIZE = 100;
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * In-process publish/subscribe for domain events, backed by an outbox.
+ *
+ * Publishers don't know who listens: a module subscribes in onModuleInit and
+ * handlers run after the publishing call returns, so a slow or failing
+ * subscriber never breaks the request that raised the event.
+ *
+ * Each published event is stored in event_outbox with one delivery per
+ * subscriber before any handler runs. Failed deliveries are retried by the
+ * events.retry-outbox job with exponential backoff, and deliveries that were
+ * never attempted because the process stopped are picked up the same way.
+ * After MAX_ATTEMPTS a delivery is marked dead and kept for inspection.
+ * Handlers can therefore run more than once and should tolerate that.
+ */
+@Injectable()
+export class EventBus implements OnModuleInit {
+  private readonly subscriptions = new Map<AppEventName, Subscription[]>();
+
+  constructor(
+    @InjectModel(OutboxEvent.name) private outboxModel: Model<IOutboxEvent>,
+    private jobScheduler: JobSchedulerService
+  ) {}
+
+  async onModuleInit() {
+    this.jobScheduler.registerHandler(
+      RETRY_JOB,
+      () => this.retryPendingDeliveries(),
+      // Each run only retries what is due; a failed run is covered by the next
+      { maxAttempts: 1 }
+    );
+    try {
+      await this.jobScheduler.scheduleRecurring(RETRY_JOB, RETRY_CRON);
+    } catch (error) {
+      logger.error(`[EventBus] Could not schedule outbox retries: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Register a handler; `name` identifies it in logs and in the outbox, so it
+   * must be unique per event and stable across deploys
+   */
+  subscribe<K extends AppEventName>(
+    event: K,
+    name: string,
+    handler: AppEventHandler<K>
+  ): void {
+    const list = this.subscriptions.get(event) || [];
+    if (list.some((s) => s.name === name)) {
+      throw new Error(`"${name}" is already subscribed to ${event}`);
+    }
+    list.push({ name, handler });
+    this.subscriptions.set(event, list);
+  }
+
+  /**
+   * Record the event in the outbox and deliver it to every subscriber
+   * asynchronously. Never throws: if the outbox write fails the event is
+   * still delivered in-process, only without retries.
+   */
+  async publish<K extends AppEventName>(event: K, payload: AppEventMap[K]): Promise<void> {
+    const list = this.subscriptions.get(event);
+    if (!list?.length) return;
+
+    let outboxId: mongoose.Types.ObjectId | null = null;
+    try {
+      const stored = await this.outboxModel.create({
+        event,
+        payload,
+        deliveries: list.map((s) => ({ subscriber: s.name })),
+      });
+      outboxId = stored._id;
+    } catch (error) {
+      logger.error(
+        `[EventBus] Could not store ${event} in the outbox, delivering without retry: ${getErrorMessage(error)}`
+      );
+    }
+
+    setImmediate(() => {
+      for (const subscription of list) {
+        this.deliver(event, payload, subscription, outboxId, 0);
+      }
+    });
+  }
+
+  /**
+   * Retry failed deliveries that are due and deliveries that were never
+   * attempted. Run by the events.retry-outbox job.
+   */
+  async retryPendingDeliveries(now: Date = new Date()): Promise<{ retried: number; succeeded: number }> {
+    const staleBefore = new Date(now.getTime() - STALE_PENDING_MS);
+    const isDue = (d: IOutboxDelivery, createdAt: Date) =>
+      (d.status === "failed" && !!d.nextAttemptAt && d.nextAttemptAt <= now) ||
+      (d.status === "pending" && createdAt < staleBefore);
+
+    const events = await this.outboxModel
+      .find({
+        status: "pending",
+        $or: [
+          { deliveries: { $elemMatch: { status: "failed", nextAttemptAt: { $lte: now } } } },
+          { "deliveries.status": "pending", createdAt: { $lt: staleBefore } },
+        ],
+      })
+      .sort({ createdAt: 1 })
+      .limit(RETRY_BATCH_SIZE)
+      .lean();
+
+    let retried = 0;
+    let succeeded = 0;
+    for (const stored of events) {
+      const event = stored.event as AppEventName;
+      for (const delivery of stored.deliveries) {
+        if (!isDue(delivery, stored.createdAt)) continue;
+        retried++;
+        const subscription = this.subscriptions
+          .get(event)
+          ?.find((s) => s.name === delivery.subscriber);
+        if (!subscription) {
+          // Renamed or removed subscriber; counts as a failed attempt so it ends up dead
+          await this.recordDelivery(
+            stored._id,
+            delivery.subscriber,
+            delivery.attempts + 1,
+            `No subscriber "${delivery.subscriber}" registered for ${event}`
+          );
+          continue;
+        }
+        if (await this.deliver(event, stored.payload, subscription, stored._id, delivery.attempts)) {
+          succeeded++;
+        }
+      }
+    }
+
+    if (retried > 0) {
+      logger.info(`[EventBus] Retried ${retried} delivery(ies), ${succeeded} succeeded`);
+    }
+    return { retried, succeeded };
+  }
+
+  /**
+   * Outbox entries for troubleshooting, newest first
+   */
+  async listOutbox(query: OutboxQueryDto) {
+    const filter: Record<string, unknown> = {};
+    if (query.status) filter.status = query.status;
+    if (query.event) filter.event = query.event;
+    return this.outboxModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(query.limit ?? 50)
+      .lean();
+  }
+
+  /**
+   * Give dead deliveries of an event a fresh set of attempts
+   */
+  async requeue(outboxId: string): Promise<IOutboxEvent> {
+    if (!mongoose.Types.ObjectId.isValid(outboxId)) {
+      throw new NotFoundException("Outbox event not found");
+    }
+    const stored = await this.outboxModel.findById(outboxId);
+    if (!stored) {
+      throw new NotFoundException("Outbox event not found");
+    }
+
+    const now = new Date();
+    for (const delivery of stored.deliveries) {
+      if (delivery.status !== "dead") continue;
+      delivery.status = "failed";
+      delivery.attempts = 0;
+      delivery.nextAttemptAt = now;
+    }
+    if (stored.status === "failed") stored.status = "pending";
+    await stored.save();
+    return stored;
+  }
+
+  private async deliver(
+    event: AppEventName,
+    payload: unknown,
+    subscription: Subscription,
+    outboxId: mongoose.Types.ObjectId | null,
+    previousAttempts: number
+  ): Promise<boolean> {
+    const attempt = previousAttempts + 1;
+    try {
+      await subscription.handler(payload);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(
+        `[EventBus] ${subscription.name} failed handling ${event} (attempt ${attempt}/${MAX_ATTEMPTS}): ${message}`
+      );
+      if (outboxId) await this.recordDelivery(outboxId, subscription.name, attempt, message);
+      return false;
+    }
+    if (outboxId) await this.recordDelivery(outboxId, subscription.name, attempt);
+    return true;
+  }
+
+  private async recordDelivery(
+    outboxId: mongoose.Types.ObjectId,
+    subscriber: string,
+    attempt: number,
+    error?: string
+  ): Promise<void> {
+    const now = new Date();
+    let status: OutboxDeliveryStatus = "succeeded";
+    const fields: Record<string, unknown> = { attempts: attempt };
+    if (error === undefined) {
+      fields.completedAt = now;
+    } else {
+      status = attempt >= MAX_ATTEMPTS ? "dead" : "failed";
+      fields.lastError = error.slice(0, MAX_ERROR_LENGTH);
+      if (status === "failed") {
+        const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+        fields.nextAttemptAt = new Date(now.getTime() + backoff);
+      }
+    }
+
+    const $set: Record<string, unknown> = { "deliveries.$.status": status };
+    for (const [key, value] of Object.entries(fields)) {
+      $set[`deliveries.$.${key}`] = value;
+    }
+
+    try {
+      await this.outboxModel.updateOne({ _id: outboxId, "deliveries.subscriber": subscriber }, { $set });
+
+      // Close the event once no delivery is left to attempt
+      const settled = await this.outboxModel.updateOne(
+        { _id: outboxId, status: "pending", "deliveries.status": { $nin: ["pending", "failed", "dead"] } },
+        { $set: { status: "processed", processedAt: now } }
+      );
+      if (settled.modifiedCount === 0) {
+        await this.outboxModel.updateOne(
+          { _id: outboxId, status: "pending", "deliveries.status": { $nin: ["pending", "failed"] } },
+          { $set: { status: "failed" } }
+        );
+      }
+    } catch (updateError) {
+      logger.error(
+        `[EventBus] Could not record delivery of ${outboxId} to ${subscriber}: ${getErrorMessage(updateError)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type OutboxEventStatus = "pending" | "processed" | "failed";
+export type OutboxDeliveryStatus = "pending" | "succeeded" | "failed" | "dead";
+
+// One entry per subscriber of the event
+export interface IOutboxDelivery {
+  subscriber: string;
+  status: OutboxDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  completedAt?: Date;
+}
+
+export interface IOutboxEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  event: string;
+  payload: Record<string, any>;
+  status: OutboxEventStatus;
+  deliveries: IOutboxDelivery[];
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const OutboxEvent = { name: "OutboxEvent" };
+
+const outboxDeliverySchema = new Schema<IOutboxDelivery>(
+  {
+    subscriber: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed", "dead"],
+      default: "pending",
+    },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date },
+    lastError: { type: String },
+    completedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const outboxEventSchema = new Schema<IOutboxEvent>(
+  {
+    event: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ["pending", "processed", "failed"],
+      default: "pending",
+    },
+    deliveries: { type: [outboxDeliverySchema], default: [] },
+    processedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "event_outbox",
+  }
+);
+
+// Retry sweep: pending events with a delivery due
+outboxEventSchema.index({ status: 1, "deliveries.nextAttemptAt": 1 });
+outboxEventSchema.index({ event: 1, createdAt: -1 });
+// Processed events are only kept for troubleshooting
+outboxEventSchema.index(
+  { processedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+export const OutboxEventSchema = outboxEventSchema;
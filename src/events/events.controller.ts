@@ -0,0 +1,38 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { EventBus } from "./event-bus";
+import { OutboxQueryDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/events")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class EventsController {
+  constructor(private readonly eventBus: EventBus) {}
+
+  @Get("outbox")
+  @ApiOperation({ summary: "List stored domain events with their per-subscriber deliveries" })
+  @ApiResponse({ status: 200, description: "Events, most recent first" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async listOutbox(@Query() query: OutboxQueryDto) {
+    return this.eventBus.listOutbox(query);
+  }
+
+  @Post("outbox/:id/requeue")
+  @ApiOperation({ summary: "Retry the dead deliveries of an event" })
+  @ApiParam({ name: "id", description: "Outbox event ID" })
+  @ApiResponse({ status: 201, description: "Deliveries will be retried by the next sweep" })
+  @ApiResponse({ status: 404, description: "Outbox event not found" })
+  async requeue(@Param("id") id: string) {
+    return this.eventBus.requeue(id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Global, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { User, UserSchema } from "../user/user.model";
+import { EventBus } from "./event-bus";
+import { EventsController } from "./events.controller";
+import { OutboxEvent, OutboxEventSchema } from "./event-outbox.model";
+
+// Global so any module can publish or subscribe without importing the others
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboxEvent.name, schema: OutboxEventSchema },
+      // For AuthGuard on the admin routes
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [EventsController],
+  providers: [EventBus],
+  exports: [EventBus],
+})
+export class EventsModule {}
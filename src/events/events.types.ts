@@ -0,0 +1,115 @@
+import { IBadge } from "../types/interfaces";
+
+/**
+ * Events published on the EventBus, keyed by name, with their payloads.
+ * Payloads carry ids as strings so they stay serializable.
+ */
+export interface AppEventMap {
+  "progress.meal_completed": {
+    userId: string;
+    mealId: string;
+    mealName?: string;
+    mealType: "breakfast" | "lunch" | "dinner" | "snacks";
+    dateKey: string;
+    isBalanced: boolean;
+    proteinGoalReached: boolean;
+  };
+  "progress.water_logged": {
+    userId: string;
+    glasses: number; // total for the day
+    goal: number;
+    goalReached: boolean; // crossed the goal with this update
+  };
+  "progress.workout_completed": {
+    userId: string;
+    workoutName?: string;
+    caloriesBurned: number;
+  };
+  "engagement.streak_updated": {
+    userId: string;
+    streak: number;
+  };
+  "cbt.mood_logged": {
+    userId: string;
+    moodCategory: string;
+  };
+  "cbt.thought_logged": {
+    userId: string;
+  };
+  "cbt.exercise_completed": {
+    userId: string;
+    exerciseType: string;
+  };
+  "cbt.meal_mood_linked": {
+    userId: string;
+    mealName: string;
+  };
+  "engagement.badge_earned": {
+    userId: string;
+    badge: Pick<IBadge, "id" | "name" | "description" | "icon" | "category">;
+  };
+  "challenge.completed": {
+    userId: string;
+    challengeId: string;
+    title: string;
+    badgeId?: string;
+  };
+  "social.followed": {
+    followerId: string;
+    followingId: string;
+  };
+  "social.commented": {
+    postId: string;
+    postOwnerId: string;
+    commenterId: string;
+    commentId: string;
+    text: string;
+  };
+  "user.timezone_changed": {
+    userId: string;
+    timeZone: string;
+    previousTimeZone: string;
+  };
+  "account.export_ready": {
+    userId: string;
+    exportId: string;
+    expiresAt: string;
+  };
+  "auth.delegation_revoked": {
+    delegationId: string;
+    ownerId: string;
+    delegateId: string;
+    revokedBy: string;
+  };
+  "coach.client_joined": {
+    coachId: string;
+    clientId: string;
+  };
+  "coach.note_added": {
+    coachId: string;
+    clientId: string;
+    noteId: string;
+    dateKey: string;
+  };
+  "coach.plan_edit_proposed": {
+    coachId: string;
+    clientId: string;
+    proposalId: string;
+    date: string;
+    mealType: string;
+    mealName: string;
+  };
+  "coach.plan_edit_decided": {
+    coachId: string;
+    clientId: string;
+    proposalId: string;
+    decision: "accepted" | "rejected";
+    mealName: string;
+  };
+}
+
+export type AppEventName = keyof AppEventMap;
+
+export type AppEventHandler<K extends AppEventName> = (
+  payload: AppEventMap[K]
+) => unknown | Promise<unknown>;
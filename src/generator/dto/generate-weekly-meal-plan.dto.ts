@@ -9,8 +9,21 @@ import {
   IsNumber,
   IsArray,
   IsEnum,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayUnique,
 } from "class-validator";
 import { Type } from "class-transformer";
+import {
+  MAX_PREP_RECIPES,
+  PREP_MEAL_TYPES,
+  PrepMealType,
+  WEEKDAYS,
+  Weekday,
+} from "../../utils/mealPrep";
 
 export class UserDataDto {
   @ApiProperty({ example: "John Doe" })
@@ -61,6 +74,35 @@ export class UserDataDto {
   dietaryRestrictions?: string[];
 }
 
+export class MealPrepOptionsDto {
+  @ApiProperty({ example: ["sunday", "wednesday"], enum: WEEKDAYS, isArray: true })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsIn(WEEKDAYS, { each: true })
+  cookDays: Weekday[];
+
+  @ApiProperty({ example: 3, minimum: 1, maximum: MAX_PREP_RECIPES })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PREP_RECIPES)
+  maxRecipes: number;
+
+  @ApiProperty({
+    example: ["lunch", "dinner"],
+    enum: PREP_MEAL_TYPES,
+    isArray: true,
+    required: false,
+    description: "Meals eaten from the batch. Default: lunch and dinner",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(PREP_MEAL_TYPES, { each: true })
+  mealTypes?: PrepMealType[];
+}
+
 export class GenerateWeeklyMealPlanDto {
   @ApiProperty({ example: "2024-01-01", type: String, format: "date" })
   @IsDate()
@@ -92,4 +134,15 @@ export class GenerateWeeklyMealPlanDto {
   @IsOptional()
   @IsString()
   planTemplate?: string;
+
+  @ApiProperty({
+    type: MealPrepOptionsDto,
+    required: false,
+    description:
+      "Meal-prep mode: dishes are batch-cooked on the cook days and eaten as leftovers. planTemplate and useMock are ignored.",
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MealPrepOptionsDto)
+  mealPrep?: MealPrepOptionsDto;
 }
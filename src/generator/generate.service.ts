@@ -1,8 +1,5 @@
-import { GenerativeModel } from "@google/generative-ai";
-import axios from "axios";
 import logger from "../utils/logger";
 import {
-  callGeminiWithRateLimit,
   getErrorMessage as getRateLimitErrorMessage,
   isRateLimitError,
   parseRetryDelay,
@@ -16,7 +13,25 @@ import {
   IGoal,
 } from "../types/interfaces";
 import mongoose from "mongoose";
-import { generateFullWeek } from "../mocks/mockWeeklyPlan";
+import {
+  LlmClient,
+  LlmFeature,
+  getLlmClient,
+  getFallbackLlmClient,
+  generateStructured,
+  AiOutputSpec,
+} from "../llm";
+import {
+  AI_PLAN_DAYS,
+  AI_RECIPE,
+  AI_MEAL,
+  AI_MEAL_SUGGESTIONS,
+  AI_GOAL,
+  AiMeal,
+  AiMealSuggestions,
+  AiRecipe,
+  AiGoal,
+} from "../llm/schemas";
 import {
   calculateBMR,
   calculateTDEE,
@@ -55,233 +70,6 @@ const getLocalDateKey = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
-// Helper function to repair common JSON errors from LLM responses
-const repairJSON = (jsonString: string): string => {
-  let repaired = jsonString;
-  repaired = repaired.replace(/\/\/.*$/gm, "");
-  repaired = repaired.replace(/\/\*[\s\S]*?\*\//g, "");
-  repaired = repaired.replace(/,(\s*[}\]])/g, "$1");
-  repaired = repaired.replace(/,(\s*\n\s*[}\]])/g, "$1");
-  repaired = repaired.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, "");
-
-  const openBraces = (repaired.match(/{/g) || []).length;
-  const closeBraces = (repaired.match(/}/g) || []).length;
-  const openBrackets = (repaired.match(/\[/g) || []).length;
-  const closeBrackets = (repaired.match(/\]/g) || []).length;
-
-  if (openBraces > closeBraces && openBraces - closeBraces <= 2) {
-    repaired += "}".repeat(openBraces - closeBraces);
-  }
-  if (openBrackets > closeBrackets && openBrackets - closeBrackets <= 2) {
-    repaired += "]".repeat(openBrackets - closeBrackets);
-  }
-
-  return repaired.trim();
-};
-
-// Helper function to extract and clean JSON from LLM response
-const extractAndCleanJSON = (text: string): string => {
-  let cleaned = text;
-  const jsonMatch = text.match(/```(?:json)?\n?([\s\S]*?)\n?```/);
-  if (jsonMatch) {
-    cleaned = jsonMatch[1];
-  }
-
-  cleaned = cleaned.replace(/```/g, "").trim();
-  cleaned = cleaned.replace(/^\s*\w+\s*=\s*\{/gm, "{");
-  cleaned = cleaned.replace(/^\s*\w+\s*=\s*\[/gm, "[");
-
-  const lines = cleaned.split("\n");
-  let jsonStartLine = -1;
-  for (let i = 0; i < lines.length; i++) {
-    if (
-      /^\s*\w+\s*=/.test(lines[i]) ||
-      /^\s*#/.test(lines[i]) ||
-      /^\s*\/\//.test(lines[i])
-    ) {
-      continue;
-    }
-    if (lines[i].includes("{") || lines[i].includes("[")) {
-      jsonStartLine = i;
-      break;
-    }
-  }
-
-  if (jsonStartLine >= 0) {
-    cleaned = lines.slice(jsonStartLine).join("\n");
-  }
-
-  let braceCount = 0;
-  let jsonStart = -1;
-  let jsonEnd = -1;
-
-  for (let i = 0; i < cleaned.length; i++) {
-    if (cleaned[i] === "{") {
-      if (braceCount === 0) {
-        jsonStart = i;
-      }
-      braceCount++;
-    } else if (cleaned[i] === "}") {
-      braceCount--;
-      if (braceCount === 0 && jsonStart >= 0) {
-        jsonEnd = i + 1;
-        break;
-      }
-    }
-  }
-
-  if (jsonStart >= 0 && jsonEnd > jsonStart) {
-    cleaned = cleaned.slice(jsonStart, jsonEnd);
-  } else {
-    let bracketCount = 0;
-    let arrayStart = -1;
-    let arrayEnd = -1;
-
-    for (let i = 0; i < cleaned.length; i++) {
-      if (cleaned[i] === "[") {
-        if (bracketCount === 0) {
-          arrayStart = i;
-        }
-        bracketCount++;
-      } else if (cleaned[i] === "]") {
-        bracketCount--;
-        if (bracketCount === 0 && arrayStart >= 0) {
-          arrayEnd = i + 1;
-          break;
-        }
-      }
-    }
-
-    if (arrayStart >= 0 && arrayEnd > arrayStart) {
-      cleaned = cleaned.slice(arrayStart, arrayEnd);
-    }
-  }
-
-  cleaned = repairJSON(cleaned);
-  return cleaned;
-};
-
-// Helper function to call Ollama API
-const callOllama = async (
-  prompt: string,
-  model: string = "phi",
-  isWeeklyPlan: boolean = false,
-): Promise<string> => {
-  const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || "http://localhost:11434";
-
-  try {
-    await axios.get(`${ollamaBaseUrl}/api/tags`, { timeout: 5000 });
-  } catch (error) {
-    throw new Error(
-      `Ollama is not running at ${ollamaBaseUrl}. Start Ollama first with: ollama serve`,
-    );
-  }
-
-  try {
-    const timeout = isWeeklyPlan ? 600000 : 300000;
-
-    const response = await axios.post(
-      `${ollamaBaseUrl}/api/generate`,
-      {
-        model: model,
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          top_k: 40,
-          num_predict: isWeeklyPlan ? 8000 : 4000,
-        },
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        timeout: timeout,
-      },
-    );
-
-    if (response.data && response.data.response) {
-      return response.data.response;
-    }
-    throw new Error("Invalid response from Ollama API");
-  } catch (error: unknown) {
-    const errorMsg = getErrorMessage(error);
-    throw new Error(`Ollama API error: ${errorMsg}`);
-  }
-};
-
-// Check which Gemini models are available
-const getAvailableGeminiModels = async (apiKey: string): Promise<string[]> => {
-  try {
-    const response = await axios.get(
-      `https://generativelanguage.googleapis.com/v1/models?key=${apiKey}`,
-      { timeout: 5000 },
-    );
-
-    const allModels = (response.data.models || [])
-      .filter((model: any) =>
-        model.supportedGenerationMethods?.includes("generateContent"),
-      )
-      .map((model: any) => {
-        // Extract model name from path like "models/gemini-2.5-flash"
-        return model.name.split("/")[1];
-      })
-      .filter((name: string) => name && name.includes("gemini"));
-
-    // Prioritize lite models for better rate limits on free tier
-    const priorityOrder = [
-      "gemini-2.5-flash-lite",
-      "gemini-2.5-flash",
-      "gemini-2.5-pro",
-      "gemini-2.0-flash-lite",
-      "gemini-2.0-flash",
-    ];
-
-    const sortedModels = allModels.sort((a: string, b: string) => {
-      const indexA = priorityOrder.indexOf(a);
-      const indexB = priorityOrder.indexOf(b);
-      if (indexA === -1) return 1;
-      if (indexB === -1) return -1;
-      return indexA - indexB;
-    });
-
-    logger.info(`[Gemini] Available models: ${sortedModels.join(", ")}`);
-    return sortedModels;
-  } catch (error: unknown) {
-    logger.warn(
-      `[Gemini] Could not list available models: ${getErrorMessage(error)}`,
-    );
-    // Return default models as fallback (prioritize lite for rate limits)
-    return [
-      "gemini-2.5-flash-lite",
-      "gemini-2.5-flash",
-      "gemini-2.5-pro",
-    ];
-  }
-};
-
-// Module-level cache for Gemini model list — avoids redundant HTTP calls during parallel day generation
-let _cachedGeminiModels: string[] | null = null;
-let _modelCacheTimestamp = 0;
-const MODEL_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-
-const getAvailableGeminiModelsCached = async (
-  apiKey: string,
-): Promise<string[]> => {
-  if (
-    _cachedGeminiModels &&
-    Date.now() - _modelCacheTimestamp < MODEL_CACHE_TTL_MS
-  ) {
-    logger.info("[Gemini] Using cached model list");
-    return _cachedGeminiModels;
-  }
-  const models = await getAvailableGeminiModels(apiKey);
-  _cachedGeminiModels = models;
-  _modelCacheTimestamp = Date.now();
-  return models;
-};
-
 // Generic retry logic with exponential backoff
 const retryWithBackoffGeneric = async <T>(
   fn: () => Promise<T>,
@@ -329,79 +117,31 @@ const retryWithBackoff = async (
   return retryWithBackoffGeneric(fn, maxRetries, baseDelay, "Gemini");
 };
 
-// Generic AI generation with rate limiting and automatic retry
-const generateWithFallback = async <T>(
+// Generic schema-validated JSON generation through the feature's configured LLM
+const generateWithSchema = async <S extends object, T>(
   prompt: string,
-  parseResponse: (text: string) => T,
+  spec: AiOutputSpec<S>,
+  toResult: (output: S) => T,
   options: {
+    feature: LlmFeature;
     timeoutMs?: number;
     maxRetries?: number;
     context?: string;
-  } = {},
+  },
 ): Promise<T> => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY not configured");
-  }
-
   // Reduced defaults for faster response times
-  const { timeoutMs = 30000, maxRetries = 3, context = "AI" } = options;
-
-  // Use cached model list to avoid redundant API calls
-  const availableModels = await getAvailableGeminiModelsCached(apiKey);
-
-  // Use gemini-2.5-flash-lite for free tier (better rate limits than regular models)
-  const preferredModels = ["gemini-2.5-flash-lite", "gemini-2.5-flash"];
-  const modelsToTry = preferredModels.filter((m) =>
-    availableModels.includes(m),
+  const { feature, timeoutMs = 30000, maxRetries = 3, context = "AI" } = options;
+  const llm = getLlmClient(feature);
+  logger.info(`[${context}] Using ${llm.providerName}${llm.model ? ` (${llm.model})` : ""}`);
+
+  const output = await generateStructured(
+    llm,
+    prompt + "\n\nReturn ONLY JSON. No other text.",
+    spec,
+    { maxRetries, timeoutMs, context },
   );
 
-  // Fallback to first available if preferred not found
-  if (modelsToTry.length === 0 && availableModels.length > 0) {
-    modelsToTry.push(availableModels[0]);
-  }
-
-  if (modelsToTry.length === 0) {
-    modelsToTry.push("gemini-1.5-flash"); // Last resort default
-  }
-
-  const modelName = modelsToTry[0];
-  logger.info(`[${context}] Using model: ${modelName}`);
-
-  // Use the centralized rate limiter with automatic retry
-  return callGeminiWithRateLimit<T>(
-    apiKey,
-    modelName,
-    async (model: GenerativeModel) => {
-      const result = await model.generateContent([
-        { text: prompt + "\n\nReturn ONLY JSON. No other text." },
-      ]);
-
-      if (!result || !result.response) {
-        throw new Error("Empty response from Gemini API");
-      }
-
-      const responseText = result.response.text();
-      if (!responseText || responseText.trim().length === 0) {
-        throw new Error("Gemini returned empty response text");
-      }
-
-      logger.info(
-        `[${context}] Received response: ${responseText.length} characters`,
-      );
-
-      // Clean and parse JSON
-      let cleanedJSON = extractAndCleanJSON(responseText);
-      cleanedJSON = repairJSON(cleanedJSON);
-
-      return parseResponse(cleanedJSON);
-    },
-    {
-      maxRetries,
-      timeoutMs,
-      context,
-    },
-  );
+  return toResult(output);
 };
 
 // Meal style rotation for variety — all simple, everyday home-cooking styles
@@ -438,6 +178,7 @@ const buildDayPrompt = (
   macros: { protein: number; carbs: number; fat: number },
   goalContextStr: string,
   moodContext?: string,
+  pantryContext?: string,
 ): string => {
   const bCal = Math.round(targetCalories * 0.25);
   const lCal = Math.round(targetCalories * 0.35);
@@ -469,6 +210,7 @@ AVOID: ${avoidList}
 PREFER: ${preferList}
 ${goalContextStr ? `STYLE: ${goalContextStr.substring(0, 200)}` : ""}
 ${moodContext ? `MOOD & WELLNESS: ${moodContext}` : ""}
+${pantryContext ? `PANTRY: ${pantryContext}` : ""}
 DAY: ${dateStr} (${dayName}) | Style: ${cuisine} | Primary protein: ${protein}
 ${hasWorkout ? "WORKOUT: Include 1 workout today." : "REST DAY: No workout."}
 CRITICAL: Use SIMPLE, everyday home-cooked meals that normal people make. Examples: scrambled eggs with toast, oatmeal with banana, grilled chicken with rice and vegetables, pasta with tomato sauce, chicken soup, beef stir-fry with rice, tuna sandwich, turkey wrap. NO exotic restaurant dishes.
@@ -501,6 +243,7 @@ const buildMultiDayPrompt = (
   macros: { protein: number; carbs: number; fat: number },
   goalContextStr: string,
   moodContext?: string,
+  pantryContext?: string,
 ): string => {
   const bCal = Math.round(targetCalories * 0.25);
   const lCal = Math.round(targetCalories * 0.35);
@@ -548,6 +291,7 @@ AVOID: ${avoidList}
 PREFER: ${preferList}
 ${goalContextStr ? `STYLE: ${goalContextStr.substring(0, 200)}` : ""}
 ${moodContext ? `MOOD & WELLNESS: ${moodContext}` : ""}
+${pantryContext ? `PANTRY: ${pantryContext}` : ""}
 
 DAYS TO GENERATE (each with DIFFERENT meal style and protein):
 ${daySpecs}
@@ -577,34 +321,16 @@ Each meal object structure:
 };
 
 /**
- * Parse multi-day response from Gemini.
- * Handles both array format and object with weeklyPlan key.
- *
- * NOTE: extractAndCleanJSON only extracts the FIRST complete JSON object, so if
- * Gemini returns `[{day1},{day2},...]` it would discard all days after day1.
- * We try a direct JSON.parse first (works when responseMimeType:"application/json"),
- * and only fall back to extraction for malformed/markdown-wrapped responses.
+ * Keep only the requested days. Replayed fixtures hold a whole week, and a
+ * model occasionally adds days nobody asked for. Falls back to the full
+ * response when no day names match.
  */
-const parseMultiDayResponse = (text: string): any[] => {
-  let parsed: any;
-
-  // 1. Try direct parse first — Gemini JSON-mode returns clean JSON
-  try {
-    parsed = JSON.parse(text.trim());
-  } catch (_) {
-    // 2. Fallback: manual extraction for markdown-wrapped or malformed responses
-    let cleanedJSON = extractAndCleanJSON(text);
-    cleanedJSON = repairJSON(cleanedJSON);
-    parsed = JSON.parse(cleanedJSON);
-  }
-
-  // Handle different response formats
-  if (Array.isArray(parsed)) return parsed;
-  if (parsed.weeklyPlan && Array.isArray(parsed.weeklyPlan)) return parsed.weeklyPlan;
-  if (parsed.days && Array.isArray(parsed.days)) return parsed.days;
-  if (parsed.date && parsed.meals) return [parsed]; // single day
-
-  throw new Error("Unable to parse multi-day response: unexpected format");
+const pickRequestedDays = (days: any[], dayNames: string[]): any[] => {
+  const wanted = new Set(dayNames.map((name) => name.toLowerCase()));
+  const matching = days.filter(
+    (day) => typeof day?.day === "string" && wanted.has(day.day.toLowerCase()),
+  );
+  return matching.length > 0 ? matching : days;
 };
 
 /**
@@ -612,35 +338,20 @@ const parseMultiDayResponse = (text: string): any[] => {
  * Returns array of day objects or empty array on failure.
  */
 const generateMultiDayPlan = async (
-  apiKey: string,
-  modelName: string,
+  llm: LlmClient,
   prompt: string,
   context: string,
   maxRetries: number = 4,
   timeoutMs: number = 60000, // Longer timeout for multi-day requests
 ): Promise<any[]> => {
   try {
-    return await callGeminiWithRateLimit(
-      apiKey,
-      modelName,
-      async (model: GenerativeModel) => {
-        const result = await model.generateContent({
-          contents: [{ role: "user", parts: [{ text: prompt }] }],
-          generationConfig: {
-            responseMimeType: "application/json",
-            temperature: 0.7,
-          },
-        });
-
-        const text = result.response.text();
-        return parseMultiDayResponse(text);
-      },
-      {
-        maxRetries,
-        timeoutMs,
-        context,
-      },
-    );
+    const { days } = await generateStructured(llm, prompt, AI_PLAN_DAYS, {
+      temperature: 0.7,
+      maxRetries,
+      timeoutMs,
+      context,
+    });
+    return days;
   } catch (err) {
     const errorMsg = getErrorMessage(err);
     logger.error(`[${context}] Multi-day generation failed: ${errorMsg}`);
@@ -649,39 +360,24 @@ const generateMultiDayPlan = async (
 };
 
 /**
- * Generate one day's meal plan using Gemini with rate limiting and retry logic.
- * Uses the centralized rate limiter to handle rate limits properly.
+ * Generate one day's meal plan with the configured LLM.
+ * Returns null on failure.
  */
 const generateSingleDayPlan = async (
-  apiKey: string,
-  modelName: string,
+  llm: LlmClient,
   dayPrompt: string,
   context: string,
   maxRetries: number = 3,
   timeoutMs: number = 25000,
 ): Promise<any> => {
   try {
-    return await callGeminiWithRateLimit(
-      apiKey,
-      modelName,
-      async (model: GenerativeModel) => {
-        const result = await model.generateContent({
-          contents: [{ role: "user", parts: [{ text: dayPrompt }] }],
-          generationConfig: {
-            responseMimeType: "application/json",
-            temperature: 0.7,
-          },
-        });
-
-        const text = result.response.text();
-        return JSON.parse(text);
-      },
-      {
-        maxRetries,
-        timeoutMs,
-        context,
-      },
-    );
+    const { days } = await generateStructured(llm, dayPrompt, AI_PLAN_DAYS, {
+      temperature: 0.7,
+      maxRetries,
+      timeoutMs,
+      context,
+    });
+    return pickRequestedDays(days, [context])[0] ?? null;
   } catch (err) {
     const errorMsg = getErrorMessage(err);
     logger.error(`[${context}] Day generation failed: ${errorMsg}`);
@@ -689,26 +385,20 @@ const generateSingleDayPlan = async (
   }
 };
 
-// Gemini generation — batched multi-day calls for free tier efficiency
-const generateMealPlanWithGemini = async (
+// Batched multi-day generation — few large calls for free tier efficiency
+const generateMealPlanBatched = async (
+  llm: LlmClient,
   userData: IUserData,
   weekStartDate: Date,
   planType: "daily" | "weekly",
   language: string,
-  apiKey: string,
   goals: IGoal[] = [],
   planTemplate?: string,
   datesOverride?: Date[], // Optional: generate only these specific dates (two-phase support)
   moodContext?: string,
+  pantryContext?: string,
 ): Promise<MealPlanResponse> => {
-  const models = await getAvailableGeminiModelsCached(apiKey);
-
-  // Use gemini-2.5-flash-lite for better free tier rate limits
-  const modelToUse = models.includes("gemini-2.5-flash-lite")
-    ? "gemini-2.5-flash-lite"
-    : models.includes("gemini-2.5-flash")
-      ? "gemini-2.5-flash"
-      : models[0];
+  const modelLabel = `${llm.providerName}${llm.model ? ` (${llm.model})` : ""}`;
 
   // buildPrompt gives us the full-week context (workout distribution, day names, etc.)
   const { dayToName, nameToDay, dates: fullWeekDates, activeDays, workoutDays } = buildPrompt(
@@ -774,7 +464,7 @@ const generateMealPlanWithGemini = async (
   }
 
   logger.info(
-    `[Gemini] Starting batched generation via ${modelToUse} (${datesToGenerate.length} days in ${batches.length} batches, ~${DAYS_PER_BATCH} days/batch)...`,
+    `[MealPlan] Starting batched generation via ${modelLabel} (${datesToGenerate.length} days in ${batches.length} batches, ~${DAYS_PER_BATCH} days/batch)...`,
   );
 
   const startTime = Date.now();
@@ -791,7 +481,7 @@ const generateMealPlanWithGemini = async (
     }));
 
     logger.info(
-      `[Gemini] Batch ${batchIdx + 1}/${batches.length}: Generating ${batch.length} days (${batch.map((d) => d.dayName).join(", ")})...`,
+      `[MealPlan] Batch ${batchIdx + 1}/${batches.length}: Generating ${batch.length} days (${batch.map((d) => d.dayName).join(", ")})...`,
     );
 
     const multiDayPrompt = buildMultiDayPrompt(
@@ -801,26 +491,29 @@ const generateMealPlanWithGemini = async (
       macros,
       goalContextStr,
       moodContext,
+      pantryContext,
     );
 
-    const batchResults = await generateMultiDayPlan(
-      apiKey,
-      modelToUse,
-      multiDayPrompt,
-      `Batch${batchIdx + 1}`,
-      4, // maxRetries
-      MULTI_DAY_TIMEOUT_MS,
+    const batchResults = pickRequestedDays(
+      await generateMultiDayPlan(
+        llm,
+        multiDayPrompt,
+        `Batch${batchIdx + 1}`,
+        4, // maxRetries
+        MULTI_DAY_TIMEOUT_MS,
+      ),
+      batch.map((d) => d.dayName),
     );
 
     if (batchResults.length > 0) {
       logger.info(
-        `[Gemini] Batch ${batchIdx + 1} success: Got ${batchResults.length} days`,
+        `[MealPlan] Batch ${batchIdx + 1} success: Got ${batchResults.length} days`,
       );
       allDayResults.push(...batchResults);
     } else {
       // Fallback: Try individual day generation for failed batch
       logger.warn(
-        `[Gemini] Batch ${batchIdx + 1} failed. Falling back to individual day generation...`,
+        `[MealPlan] Batch ${batchIdx + 1} failed. Falling back to individual day generation...`,
       );
 
       for (const dayData of batch) {
@@ -834,11 +527,11 @@ const generateMealPlanWithGemini = async (
           macros,
           goalContextStr,
           moodContext,
+          pantryContext,
         );
 
         const result = await generateSingleDayPlan(
-          apiKey,
-          modelToUse,
+          llm,
           singleDayPrompt,
           dayData.dayName,
           3,
@@ -848,7 +541,7 @@ const generateMealPlanWithGemini = async (
         if (result !== null) {
           allDayResults.push(result);
         } else {
-          logger.warn(`[Gemini] Individual fallback for ${dayData.dayName} also failed`);
+          logger.warn(`[MealPlan] Individual fallback for ${dayData.dayName} also failed`);
         }
       }
     }
@@ -858,11 +551,11 @@ const generateMealPlanWithGemini = async (
   const weeklyPlanArray = allDayResults.filter((d) => d !== null);
 
   if (weeklyPlanArray.length === 0) {
-    throw new Error("All day generations failed. Check Gemini API quota/rate limits.");
+    throw new Error(`All day generations failed via ${modelLabel}. Check the provider quota/rate limits.`);
   }
 
   logger.info(
-    `[Gemini] Successfully generated ${weeklyPlanArray.length}/${datesToGenerate.length} days in ${elapsedSec}s`,
+    `[MealPlan] Successfully generated ${weeklyPlanArray.length}/${datesToGenerate.length} days in ${elapsedSec}s`,
   );
 
   const parsedResponse = { weeklyPlan: weeklyPlanArray };
@@ -883,7 +576,8 @@ const generateMealPlanWithGemini = async (
   return await enrichPlanWithFavoriteMeals(transformedPlan, userData);
 };
 
-// MAIN: Try Gemini first, fallback to Llama
+// MAIN: Batched generation with the configured LLM, then the feature's fallback
+// (a local model by default) with a single full-week prompt
 const generateMealPlanWithAI = async (
   userData: IUserData,
   weekStartDate: Date,
@@ -894,65 +588,59 @@ const generateMealPlanWithAI = async (
   planTemplate?: string,
   datesOverride?: Date[], // Optional: generate only these specific dates
   moodContext?: string | null,
+  pantryContext?: string | null,
 ): Promise<MealPlanResponse> => {
   try {
+    // Mock requests replay recorded fixtures for the whole week
+    const llm = getLlmClient("meal-plan", useMock ? "fixture" : undefined);
     if (useMock) {
-      logger.info("Using mock data as requested");
-      const mockPlan = generateFullWeek();
-      return new Promise((resolve) =>
-        setTimeout(() => {
-          resolve({
-            mealPlan: { weeklyPlan: mockPlan },
-            planType,
-            language,
-            generatedAt: new Date().toISOString(),
-            fallbackModel: "mock",
-          });
-        }, 3000),
+      logger.info("Using fixture data as requested");
+    }
+
+    let primaryError: unknown;
+    try {
+      logger.info(`=== ATTEMPTING ${llm.providerName.toUpperCase()} (PRIMARY) ===`);
+      return await generateMealPlanBatched(
+        llm,
+        userData,
+        weekStartDate,
+        planType,
+        language,
+        goals,
+        planTemplate,
+        useMock ? undefined : datesOverride,
+        moodContext ?? undefined,
+        pantryContext ?? undefined,
       );
+    } catch (error: unknown) {
+      primaryError = error;
     }
 
-    // TRY GEMINI FIRST
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (apiKey) {
-      try {
-        logger.info("=== ATTEMPTING GEMINI (PRIMARY) ===");
-        return await generateMealPlanWithGemini(
-          userData,
-          weekStartDate,
-          planType,
-          language,
-          apiKey,
-          goals,
-          planTemplate,
-          datesOverride,
-          moodContext ?? undefined,
-        );
-      } catch (geminiError: unknown) {
-        logger.warn(
-          `Gemini failed: ${getErrorMessage(geminiError)}. Falling back to Llama...`,
-        );
-      }
-    } else {
-      logger.warn("GEMINI_API_KEY not configured, using Llama");
+    const fallback = useMock ? null : getFallbackLlmClient("meal-plan");
+    if (!fallback) {
+      throw primaryError;
     }
 
-    // FALLBACK TO LLAMA
+    logger.warn(
+      `${llm.providerName} failed: ${getErrorMessage(primaryError)}. Falling back to ${fallback.providerName}...`,
+    );
+
     try {
-      logger.info("=== ATTEMPTING LLAMA (FALLBACK) ===");
-      return await generateMealPlanWithLlama2(
+      logger.info(`=== ATTEMPTING ${fallback.providerName.toUpperCase()} (FALLBACK) ===`);
+      return await generateMealPlanSinglePrompt(
+        fallback,
         userData,
         weekStartDate,
         planType,
         language,
-        false,
         goals,
         planTemplate,
         moodContext ?? undefined,
+        pantryContext ?? undefined,
       );
-    } catch (llamaError: unknown) {
+    } catch (fallbackError: unknown) {
       throw new Error(
-        `Both Gemini and Llama failed. Llama: ${getErrorMessage(llamaError)}`,
+        `Both ${llm.providerName} and ${fallback.providerName} failed. ${fallback.providerName}: ${getErrorMessage(fallbackError)}`,
       );
     }
   } catch (error: unknown) {
@@ -1428,28 +1116,20 @@ MEAL FRAMEWORKS (Approximate):
   return { prompt, dayToName, nameToDay, dates, activeDays, workoutDays };
 };
 
-const generateMealPlanWithLlama2 = async (
+// Whole plan in one prompt — suits local models that handle one long request
+// better than many small ones
+const generateMealPlanSinglePrompt = async (
+  llm: LlmClient,
   userData: IUserData,
   weekStartDate: Date,
   planType: "daily" | "weekly" = "daily",
   language: string = "en",
-  useMock: boolean = false,
   goals: IGoal[] = [],
   planTemplate?: string,
   moodContext?: string,
+  pantryContext?: string,
 ): Promise<MealPlanResponse> => {
   try {
-    if (useMock) {
-      const mockPlan = generateFullWeek();
-      return {
-        mealPlan: { weeklyPlan: mockPlan },
-        planType,
-        language,
-        generatedAt: new Date().toISOString(),
-        fallbackModel: "mock",
-      };
-    }
-
     const { prompt, dayToName, nameToDay, dates, activeDays, workoutDays } =
       buildPrompt(
         userData,
@@ -1460,38 +1140,27 @@ const generateMealPlanWithLlama2 = async (
         planTemplate,
       );
 
-    const ollamaModel = process.env.OLLAMA_MODEL || "phi";
-    logger.info(`[Llama] Using model: ${ollamaModel}`);
+    logger.info(
+      `[SinglePrompt] Using ${llm.providerName}${llm.model ? ` (${llm.model})` : ""}`,
+    );
 
     const moodSection = moodContext ? `\n\n====== MOOD & WELLNESS CONTEXT ======\n${moodContext}` : "";
+    const pantrySection = pantryContext ? `\n\n====== PANTRY ======\n${pantryContext}` : "";
     const fullPrompt =
       prompt +
       moodSection +
+      pantrySection +
       "\n\nReturn ONLY valid JSON. No variable assignments, code, or explanations.";
 
     const isWeeklyPlan = planType === "weekly";
-    const generatedText = await callOllama(
-      fullPrompt,
-      ollamaModel,
-      isWeeklyPlan,
-    );
-
-    let cleanedJSON = extractAndCleanJSON(generatedText);
-
-    if (!cleanedJSON || cleanedJSON.trim().length === 0) {
-      throw new Error("Failed to extract JSON from Llama response");
-    }
-
-    let mealPlanData: IParsedWeeklyPlanResponse;
-    try {
-      mealPlanData = JSON.parse(cleanedJSON) as IParsedWeeklyPlanResponse;
-    } catch (parseError: unknown) {
-      throw new Error(
-        `Failed to parse Llama JSON: ${getErrorMessage(parseError)}`,
-      );
-    }
+    const { days } = await generateStructured(llm, fullPrompt, AI_PLAN_DAYS, {
+      timeoutMs: isWeeklyPlan ? 600000 : 300000,
+      maxOutputTokens: isWeeklyPlan ? 8000 : 4000,
+      context: "SinglePrompt",
+    });
+    const mealPlanData = { weeklyPlan: days } as unknown as IParsedWeeklyPlanResponse;
 
-    // Use the same transformation as Gemini to ensure consistent format
+    // Use the same transformation as batched generation to ensure consistent format
     const transformedPlan = await transformWeeklyPlan(
       mealPlanData,
       dayToName,
@@ -1510,12 +1179,12 @@ const generateMealPlanWithLlama2 = async (
       userData,
     );
 
-    logger.info("[Llama] Meal plan generated successfully");
+    logger.info("[SinglePrompt] Meal plan generated successfully");
 
     return enrichedPlan;
   } catch (error: unknown) {
-    logger.error("[Llama] Generation failed:", error);
-    throw new Error(`Llama failed: ${getErrorMessage(error)}`);
+    logger.error("[SinglePrompt] Generation failed:", error);
+    throw new Error(`${llm.providerName} failed: ${getErrorMessage(error)}`);
   }
 };
 
@@ -1616,8 +1285,7 @@ Return ONLY valid JSON matching this EXACT structure:
 16. "usageCount" - always 1 for new recipes
 17. "notes" - additional notes about the recipe (max 500 characters)`;
 
-  const parseResponse = (jsonText: string) => {
-    const recipeData = JSON.parse(jsonText);
+  const toRecipe = (recipeData: AiRecipe): any => {
     return {
       _id: new mongoose.Types.ObjectId(),
       ...recipeData,
@@ -1625,10 +1293,11 @@ Return ONLY valid JSON matching this EXACT structure:
     };
   };
 
-  return generateWithFallback(prompt, parseResponse, {
+  return generateWithSchema(prompt, AI_RECIPE, toRecipe, {
     timeoutMs: 25000, // Reduced for faster UX
     maxRetries: 2,
     context: "RecipeDetails",
+    feature: "recipe",
   });
 };
 
@@ -1672,11 +1341,9 @@ ${aiRules ? `- Additional rules: ${aiRules}` : ""}
   * CORRECT: "garlic" (NOT "minced garlic")
 - Use lowercase with underscores (e.g., "chicken_breast", "olive_oil", "ginger")`;
 
-  const parseResponse = (jsonText: string) => {
-    const mealData = JSON.parse(jsonText);
-
-    // Clean ingredients if they exist
-    if (mealData.ingredients && Array.isArray(mealData.ingredients)) {
+  const toMeal = (mealData: AiMeal) => {
+    // Clean ingredients
+    if (Array.isArray(mealData.ingredients)) {
       mealData.ingredients = mealData.ingredients.map((ing: any) => {
         if (Array.isArray(ing)) {
           const rawName = String(ing[0] || "");
@@ -1701,10 +1368,11 @@ ${aiRules ? `- Additional rules: ${aiRules}` : ""}
     };
   };
 
-  return generateWithFallback(prompt, parseResponse, {
+  return generateWithSchema(prompt, AI_MEAL, toMeal, {
     timeoutMs: 20000, // Reduced for faster UX
     maxRetries: 2,
     context: "GenerateMeal",
+    feature: "meal",
   });
 };
 
@@ -1888,11 +1556,8 @@ Each meal MUST have ALL these fields:
 6. "prepTime" - preparation time in minutes (integer)`;
   }
 
-  const parseResponse = (jsonText: string): IMeal[] => {
-    const parsed = JSON.parse(jsonText);
-    const meals = parsed.meals || parsed;
-
-    return (Array.isArray(meals) ? meals : [meals])
+  const toMeals = ({ meals }: AiMealSuggestions): IMeal[] => {
+    return meals
       .slice(0, numberOfSuggestions)
       .map((meal: any) => ({
         _id: new mongoose.Types.ObjectId().toString(),
@@ -1931,10 +1596,11 @@ Each meal MUST have ALL these fields:
       }));
   };
 
-  const meals = await generateWithFallback<IMeal[]>(prompt, parseResponse, {
+  const meals = await generateWithSchema(prompt, AI_MEAL_SUGGESTIONS, toMeals, {
     timeoutMs: 25000, // Reduced for faster UX
     maxRetries: 2,
     context: "MealSuggestions",
+    feature: "meal-suggestions",
   });
 
   logger.info(
@@ -2024,9 +1690,7 @@ Return ONLY valid JSON:
 2. "prepTime" - MUST be 10 or less (this is critical!)
 3. "ingredients" - use underscores for ingredient names (e.g., "greek_yogurt", "mixed_berries")`;
 
-  const parseResponse = (jsonText: string) => {
-    const mealData = JSON.parse(jsonText);
-
+  const toRescueMeal = (mealData: AiMeal) => {
     // Ensure prepTime is <= 10 minutes (critical for rescue meals)
     const prepTime = Math.min(mealData.prepTime || 10, 10);
 
@@ -2041,7 +1705,7 @@ Return ONLY valid JSON:
       },
       category,
       ingredients: Array.isArray(mealData.ingredients)
-        ? mealData.ingredients.map((ing: any) => {
+        ? mealData.ingredients.map((ing: any): [string, string, string?] => {
             if (Array.isArray(ing)) {
               const rawName = String(ing[0] || "");
               const amount = String(ing[1] || "");
@@ -2065,10 +1729,11 @@ Return ONLY valid JSON:
     `[generateRescueMeal] Generating rescue meal for ${category} (${targetCalories} kcal)`,
   );
 
-  const meal = await generateWithFallback<IMeal>(prompt, parseResponse, {
+  const meal = await generateWithSchema(prompt, AI_MEAL, toRescueMeal, {
     timeoutMs: 30000, // Shorter timeout for faster UX
     maxRetries: 2, // Fewer retries for speed
     context: "RescueMeal",
+    feature: "rescue-meal",
   });
 
   logger.info(
@@ -2115,18 +1780,18 @@ Return ONLY valid JSON matching this EXACT structure:
    - category: optional shopping bag category (e.g., "Proteins", "Grains", "Fruits")
 5. "prepTime" - (integer, should be 0)`;
 
-  const parseResponse = (jsonText: string) => {
-    const snackData = JSON.parse(jsonText);
+  const toSnack = (snackData: AiMeal): any => {
     return {
       _id: new mongoose.Types.ObjectId(),
       ...snackData,
     };
   };
 
-  return generateWithFallback(prompt, parseResponse, {
+  return generateWithSchema(prompt, AI_MEAL, toSnack, {
     timeoutMs: 15000, // Snacks are simple, fast timeout
     maxRetries: 2,
     context: "GenerateSnack",
+    feature: "snack",
   });
 };
 
@@ -2225,8 +1890,7 @@ Return ONLY valid JSON, no additional text.`;
     return start;
   };
 
-  const parseResponse = (jsonText: string) => {
-    const goalData = JSON.parse(jsonText);
+  const toGoal = (goalData: AiGoal) => {
     const actualStartDate = startDate || new Date();
     const targetDate = calculateTargetDate(timeframe, actualStartDate);
 
@@ -2236,7 +1900,7 @@ Return ONLY valid JSON, no additional text.`;
       target: goalData.target,
       unit: goalData.unit,
       icon: goalData.icon || "target",
-      milestones: (goalData.milestones || []).map((m: any, index: number) => ({
+      milestones: goalData.milestones.map((m, index) => ({
         id: m.id || `m${index + 1}`,
         title: m.title,
         targetValue: m.targetValue,
@@ -2247,10 +1911,11 @@ Return ONLY valid JSON, no additional text.`;
     };
   };
 
-  return generateWithFallback(prompt, parseResponse, {
+  return generateWithSchema(prompt, AI_GOAL, toGoal, {
     timeoutMs: 20000, // Reduced for faster UX
     maxRetries: 2,
     context: "GenerateGoal",
+    feature: "goal",
   });
 };
 
@@ -2258,7 +1923,7 @@ const aiService = {
   generateMealPlanWithAI,
   generateRecipeDetails,
   generateMeal,
-  generateMealPlanWithLlama2,
+  generateMealPlanSinglePrompt,
   generateMealSuggestions,
   generateRescueMeal,
   generateSnack,
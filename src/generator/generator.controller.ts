@@ -18,10 +18,12 @@ import {
 import { ConfigService } from "@nestjs/config";
 import { GeneratorService } from "./generator.service";
 import { AuthGuard } from "../auth/auth.guard";
+import { OwnershipGuard, OwnedResource } from "../auth/guards/ownership.guard";
 import {
   SubscriptionGuard,
   RequiresFeature,
 } from "../auth/guards/subscription.guard";
+import { RequiresQuota } from "../quota/quota.guard";
 import {
   GenerateWeeklyMealPlanDto,
   GenerateRecipeDto,
@@ -37,7 +39,8 @@ import {
 
 @ApiTags("generate")
 @Controller("generate")
-@UseGuards(AuthGuard)
+@UseGuards(AuthGuard, OwnershipGuard)
+@OwnedResource({ area: "plan", userParam: "userId", planParam: "planId" })
 @ApiBearerAuth("JWT-auth")
 export class GeneratorController {
   constructor(
@@ -46,6 +49,7 @@ export class GeneratorController {
   ) {}
 
   @Post("weekly-meal-plan/:userId")
+  @RequiresQuota("weeklyPlanGeneration")
   @ApiOperation({
     summary: "Generate a weekly meal plan using AI",
     description: `Generates a personalized weekly meal plan based on user data. 
@@ -65,7 +69,10 @@ The user information is automatically extracted from the JWT token via the AuthG
 - \`dietaryRestrictions\`: Dietary restrictions array
 
 **Query Parameters:**
-Optional parameters that can be passed as query strings or in the request body. Query parameters take precedence.`,
+Optional parameters that can be passed as query strings or in the request body. Query parameters take precedence.
+
+**Meal prep:**
+With \`mealPrep\` in the body seven days from \`startDate\` (today at the earliest) are generated at once: lunches and/or dinners come from at most \`maxRecipes\` dishes cooked on the \`cookDays\` and eaten as leftovers. Those meals carry a \`prep\` marker (cook date, cooked or leftover, fridge or freezer) and the plan's \`mealPrep.sessions\` hold each cook day's shopping list and prep steps.`,
   })
   @ApiQuery({
     name: "language",
@@ -86,7 +93,7 @@ Optional parameters that can be passed as query strings or in the request body.
     name: "useMock",
     required: false,
     type: Boolean,
-    description: "Use mock data instead of AI generation. Default: false",
+    description: "Replay recorded LLM fixtures instead of calling a model. Default: false",
     example: false,
   })
   @ApiResponse({
@@ -100,6 +107,8 @@ Optional parameters that can be passed as query strings or in the request body.
       "Invalid user data or meal plan generation failed. The AI service may have failed to generate a valid meal plan.",
   })
   @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 402, description: "Plan generation not included in the user's tier" })
+  @ApiResponse({ status: 429, description: "Weekly plan generation quota used up" })
   @ApiResponse({
     status: 500,
     description:
@@ -108,15 +117,27 @@ Optional parameters that can be passed as query strings or in the request body.
   async generateWeeklyMealPlan(
     @Param("userId") userId: string,
     @Body() body: GenerateWeeklyMealPlanDto,
+    @Request() req,
     @Query("language") language?: string,
     @Query("title") title?: string,
     @Query("useMock", new ParseBoolPipe({ optional: true })) useMock?: boolean
   ) {
     // User information is automatically extracted from JWT token via AuthGuard
     // req.user contains: _id, email, name, age, gender, height, weight, etc.
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+
+    if (body.mealPrep) {
+      return this.generatorService.generateMealPrepPlan(
+        resolvedUserId,
+        body.mealPrep,
+        language || body.language,
+        title || body.title,
+        body.startDate
+      );
+    }
 
     return this.generatorService.generateWeeklyMealPlan(
-      userId,
+      resolvedUserId,
       body.startDate,
       language || body.language,
       title || body.title,
@@ -181,10 +202,12 @@ Optional parameters that can be passed as query strings or in the request body.
   @ApiResponse({ status: 404, description: "User not found" })
   async changeMeal(
     @Param("userId") userId: string,
-    @Body() body: ChangeMealDto
+    @Body() body: ChangeMealDto,
+    @Request() req
   ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
     return this.generatorService.generateMealSuggestions(
-      userId,
+      resolvedUserId,
       {
         ...body.mealCriteria,
         aiRules: body.aiRules,
@@ -198,6 +221,7 @@ Optional parameters that can be passed as query strings or in the request body.
   }
 
   @Post("rescue-meal/:userId/:planId")
+  @RequiresQuota("rescueMeal")
   @ApiOperation({
     summary: 'Generate and swap a quick rescue meal (I\'m Tired button)',
     description: `Instantly generates a quick "rescue meal" (<=10 min prep time) and swaps it with the current meal.
@@ -237,6 +261,7 @@ This endpoint powers the "I'm Tired / No Time" button feature, providing instant
   })
   @ApiResponse({ status: 400, description: "Invalid meal type (must be breakfast, lunch, or dinner)" })
   @ApiResponse({ status: 404, description: "User, plan, or meal not found" })
+  @ApiResponse({ status: 429, description: "Daily rescue meal quota used up" })
   async generateRescueMeal(
     @Param("userId") userId: string,
     @Param("planId") planId: string,
@@ -247,7 +272,8 @@ This endpoint powers the "I'm Tired / No Time" button feature, providing instant
       targetCalories?: number;
       targetMacros?: { protein: number; carbs: number; fat: number };
       language?: string;
-    }
+    },
+    @Request() req
   ) {
     // Validate mealType is not snack (rescue meals only for main meals)
     if (!["breakfast", "lunch", "dinner"].includes(body.mealType)) {
@@ -256,8 +282,9 @@ This endpoint powers the "I'm Tired / No Time" button feature, providing instant
       );
     }
 
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
     return this.generatorService.generateAndSwapRescueMeal(
-      userId,
+      resolvedUserId,
       planId,
       body.date,
       body.mealType,
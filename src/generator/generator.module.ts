@@ -10,10 +10,13 @@ import { Goal, GoalSchema } from "../goals/goal.model";
 import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
 import { ShoppingList, ShoppingListSchema } from "../shopping/shopping-list.model";
 import { MoodEntry, MoodEntrySchema } from "../cbt/cbt.model";
+import { PantryItem, PantryItemSchema } from "../pantry/pantry-item.model";
+import { Recipe, RecipeSchema } from "../recipe/recipe.model";
 import { UsdaNutritionService } from "../utils/usda-nutrition.service";
 import { StreamingGeneratorService } from "./streaming/streaming.service";
 import { GeneratorGateway } from "./streaming/generator.gateway";
 import { UserModule } from "../user/user.module";
+import { QuotaModule } from "../quota/quota.module";
 
 @Module({
   imports: [
@@ -25,12 +28,15 @@ import { UserModule } from "../user/user.module";
       { name: DailyProgress.name, schema: DailyProgressSchema },
       { name: ShoppingList.name, schema: ShoppingListSchema },
       { name: MoodEntry.name, schema: MoodEntrySchema },
+      { name: PantryItem.name, schema: PantryItemSchema },
+      { name: Recipe.name, schema: RecipeSchema },
     ]),
     JwtModule.register({
       secret: process.env.JWT_SECRET,
       signOptions: { expiresIn: "7d" },
     }),
     forwardRef(() => UserModule),
+    QuotaModule,
   ],
   controllers: [GeneratorController],
   providers: [
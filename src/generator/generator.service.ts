@@ -2,16 +2,22 @@ import {
   Injectable,
   BadRequestException,
   NotFoundException,
+  OnModuleInit,
 } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { Plan } from "../plan/plan.model";
+import { archiveCurrentPlan } from "../plan/plan-history";
 import { User } from "../user/user.model";
 import { Goal } from "../goals/goal.model";
 import { DailyProgress } from "../progress/progress.model";
 import { ShoppingList } from "../shopping/shopping-list.model";
 import { MoodEntry, IMoodEntry } from "../cbt/cbt.model";
+import { PantryItem, IPantryItem } from "../pantry/pantry-item.model";
+import { Recipe } from "../recipe/recipe.model";
 import aiService from "./generate.service";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import { runWithLlmContext } from "../llm";
 import { UsdaNutritionService } from "../utils/usda-nutrition.service";
 import logger from "../utils/logger";
 import {
@@ -24,6 +30,8 @@ import {
   IWorkout,
   IGoal,
   IDailyProgress,
+  IPlanMealPrep,
+  IRecipe,
 } from "../types/interfaces";
 import { IShoppingList } from "../shopping/shopping-list.model";
 import {
@@ -39,14 +47,54 @@ import {
   parseCalories,
   calculateDayWorkoutWater,
   getLocalDateKey,
+  getWeekStartKey,
   validateAndCorrectMealMacros,
 } from "../utils/helpers";
 import mongoose from "mongoose";
 import { Meal } from "../meal/meal.model";
+import { buildPantryPromptContext } from "../utils/pantry";
+import {
+  MealPrepOptions,
+  PREP_MEAL_TYPES,
+  PrepDish,
+  PrepMealType,
+  WEEKDAYS,
+  buildPrepInstructions,
+  buildPrepShoppingList,
+  planPrepSessions,
+  prepPlanDateKeys,
+} from "../utils/mealPrep";
+import { UnitSystem } from "../utils/quantities";
+import { getUserDay, getUserToday } from "../utils/timezone";
 import {} from "./helper"; // helper imports kept for future use
 
+const REMAINING_DAYS_JOB = "generator.remaining-days";
+
+// Share of the daily calories each meal covers
+const MEAL_CALORIE_SHARES = { breakfast: 0.25, lunch: 0.35, dinner: 0.3, snack: 0.1 };
+
+// Meal prep: what batch dishes are asked for, and how many quick meals the
+// other slots rotate through
+const BATCH_COOKING_PREFERENCES = [
+  "suited to batch cooking",
+  "keeps several days in the fridge and reheats well",
+];
+const FRESH_MEAL_ROTATION = 3;
+
+// Serializable arguments of the Phase 2 job
+interface RemainingDaysJobData {
+  userId: string;
+  planId: string;
+  weekStartDate: string;
+  remainingDates: string[];
+  language: string;
+  planTemplate?: string;
+  moodContext?: string | null;
+  pantryContext?: string | null;
+}
+
 @Injectable()
-export class GeneratorService {
+export class GeneratorService implements OnModuleInit {
   constructor(
     @InjectModel(Plan.name) private planModel: Model<IPlan>,
     @InjectModel(User.name) private userModel: Model<IUserData>,
@@ -57,9 +105,21 @@ export class GeneratorService {
     @InjectModel(ShoppingList.name)
     private shoppingListModel: Model<IShoppingList>,
     @InjectModel(MoodEntry.name) private moodModel: Model<IMoodEntry>,
-    private usdaNutritionService: UsdaNutritionService
+    @InjectModel(PantryItem.name)
+    private pantryItemModel: Model<IPantryItem>,
+    @InjectModel(Recipe.name) private recipeModel: Model<IRecipe>,
+    private usdaNutritionService: UsdaNutritionService,
+    private jobScheduler: JobSchedulerService
   ) {}
 
+  onModuleInit() {
+    this.jobScheduler.registerHandler<RemainingDaysJobData>(
+      REMAINING_DAYS_JOB,
+      (data) => this.runRemainingDaysJob(data),
+      { maxAttempts: 3, backoffMs: 2 * 60 * 1000 }
+    );
+  }
+
   /**
    * Find existing meals from database that match criteria
    */
@@ -250,8 +310,8 @@ export class GeneratorService {
       throw new NotFoundException("User not found");
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Plan days follow the user's calendar, like their progress records
+    const today = getUserToday(userData.timezone);
 
     logger.info(
       `[generateWeeklyMealPlan] Generating plan for user ${userId} starting ${getLocalDateKey(today)}`
@@ -259,13 +319,7 @@ export class GeneratorService {
 
     let activeGoals: IGoal[] = [];
     if (!planTemplate) {
-      activeGoals = await this.goalModel
-        .find({
-          userId: new mongoose.Types.ObjectId(userId),
-          status: { $in: ["active", "in_progress"] },
-        })
-        .lean()
-        .exec();
+      activeGoals = await this.findActiveGoals(userId);
       logger.info(
         `[generateWeeklyMealPlan] ${activeGoals.length} active goals found`
       );
@@ -277,6 +331,12 @@ export class GeneratorService {
       logger.info(`[generateWeeklyMealPlan] Mood context: ${moodContext}`);
     }
 
+    // Pantry items that expire soon should be used first
+    const pantryContext = await this.buildPantryContext(userId);
+    if (pantryContext) {
+      logger.info(`[generateWeeklyMealPlan] Pantry context: ${pantryContext}`);
+    }
+
     // Pre-calculate user metrics (shared by both phases)
     const bmr = calculateBMR(userData.weight, userData.height, userData.age, userData.gender);
     const tdee = calculateTDEE(bmr, userData.workoutFrequency);
@@ -309,7 +369,8 @@ export class GeneratorService {
       activeGoals,
       planTemplate,
       [today], // datesOverride: only today
-      moodContext
+      moodContext,
+      pantryContext
     );
 
     if (!mealPlan?.weeklyPlan || Object.keys(mealPlan.weeklyPlan).length === 0) {
@@ -322,11 +383,13 @@ export class GeneratorService {
       mealPlan, userData, targetCalories, macros
     );
 
-    // Delete old plan + shopping list before creating the new one
-    const oldPlan = await this.planModel.findOneAndDelete({ userId: userIdObjectId });
-    if (oldPlan) {
-      await this.shoppingListModel.deleteOne({ userId: userIdObjectId, planId: oldPlan._id });
-    }
+    // Archive the previous week's plan (or replace this week's) before creating the new one
+    const weekStart = getWeekStartKey(today);
+    await archiveCurrentPlan(
+      this.planModel,
+      userIdObjectId,
+      weekStart
+    );
 
     // Delete today's progress (fresh start)
     const todayKey = getLocalDateKey(today);
@@ -338,6 +401,8 @@ export class GeneratorService {
     const plan = await this.planModel.create({
       userId: userIdObjectId,
       title: title || "My Meal Plan",
+      weekStart,
+      isCurrent: true,
       userMetrics: {
         bmr,
         tdee,
@@ -365,25 +430,16 @@ export class GeneratorService {
 
     // ── PHASE 2: Generate the rest of the week (background) ─────────────────
     if (hasRemainingDays) {
-      // Fire-and-forget — do not await, do not block the response
-      setImmediate(() => {
-        this.generateAndAppendRemainingDays(
-          userId,
-          userIdObjectId,
-          userData,
-          today,
-          remainingDates,
-          language,
-          activeGoals,
-          planTemplate,
-          targetCalories,
-          macros,
-          moodContext
-        ).catch((err) =>
-          logger.error(
-            `[Phase2] Background generation failed for user ${userId}: ${err?.message || err}`
-          )
-        );
+      // Queued as a job so it survives restarts and is retried on failure
+      await this.jobScheduler.schedule<RemainingDaysJobData>(REMAINING_DAYS_JOB, {
+        userId,
+        planId: plan._id.toString(),
+        weekStartDate: today.toISOString(),
+        remainingDates: remainingDates.map((d) => d.toISOString()),
+        language,
+        planTemplate,
+        moodContext,
+        pantryContext,
       });
     } else {
       logger.info(`[Phase2] No remaining days to generate (today is Sunday or useMock=true).`);
@@ -404,6 +460,244 @@ export class GeneratorService {
     };
   }
 
+  /**
+   * Meal-prep variant of the weekly plan. Lunches and/or dinners come from a
+   * few dishes batch-cooked on the chosen cook days and eaten as leftovers
+   * until the next one; breakfasts, snacks and any other meal rotate through a
+   * few quick suggestions. Seven days from `startDate` (today at the
+   * earliest) are built at once (no Phase 2), and the plan keeps each cook
+   * session with its shopping list and prep steps.
+   */
+  async generateMealPrepPlan(
+    userId: string,
+    options: MealPrepOptions,
+    language: string = "en",
+    title: string = "My Meal Prep Plan",
+    startDate?: Date
+  ) {
+    if (!userId) {
+      throw new BadRequestException("Please provide user data");
+    }
+
+    const userData = await this.userModel.findById(userId).lean().exec();
+    if (!userData) {
+      throw new NotFoundException("User not found");
+    }
+
+    // startDate arrives as a calendar date ("2026-10-20" parsed at UTC midnight)
+    const startKey =
+      startDate && !isNaN(new Date(startDate).getTime())
+        ? new Date(startDate).toISOString().split("T")[0]
+        : undefined;
+    const dateKeys = prepPlanDateKeys(getUserDay(userData.timezone).dateKey, startKey);
+    const dates = dateKeys.map((dateKey) => new Date(`${dateKey}T00:00:00`));
+    const prepTypes = PREP_MEAL_TYPES.filter(
+      (mealType) => !options.mealTypes?.length || options.mealTypes.includes(mealType)
+    );
+    const freshTypes = (["breakfast", "lunch", "dinner", "snack"] as const).filter(
+      (mealType) => !prepTypes.includes(mealType as PrepMealType)
+    );
+
+    logger.info(
+      `[generateMealPrepPlan] Generating plan for user ${userId} from ${dateKeys[0]}, cooking on ${options.cookDays.join(", ")}`
+    );
+
+    const bmr = calculateBMR(userData.weight, userData.height, userData.age, userData.gender);
+    const tdee = calculateTDEE(bmr, userData.workoutFrequency);
+    const targetCalories = calculateTargetCalories(tdee, userData.path);
+    const macros = calculateMacros(targetCalories, userData.path);
+    const idealWeightData = calculateIdealWeight(userData.height, userData.gender);
+    const mealTarget = (mealType: keyof typeof MEAL_CALORIE_SHARES) =>
+      Math.round(targetCalories * MEAL_CALORIE_SHARES[mealType]);
+
+    const suggest = async (
+      category: "breakfast" | "lunch" | "dinner" | "snack",
+      targetCalories: number,
+      numberOfSuggestions: number,
+      preferences?: string[]
+    ): Promise<IMeal[]> => {
+      const result = await this.generateMealSuggestions(
+        userId,
+        { category, targetCalories, numberOfSuggestions, preferences },
+        language
+      );
+      return (result?.data?.meals || []).map((meal: IMeal) => toPlanMeal(meal, category));
+    };
+
+    // One batch of dishes for every cook session; lunch and dinner share it
+    const plannedDishes = planPrepSessions(dateKeys, options.cookDays, options.maxRecipes, prepTypes)
+      .reduce((count, session) => count + session.dishes.length, 0);
+    const batchMeals = await suggest(
+      prepTypes.includes("dinner") ? "dinner" : "lunch",
+      Math.round(prepTypes.reduce((sum, mealType) => sum + mealTarget(mealType), 0) / prepTypes.length),
+      plannedDishes,
+      [...(userData.foodPreferences || []), ...BATCH_COOKING_PREFERENCES]
+    );
+    if (!batchMeals.length) {
+      throw new BadRequestException(
+        "Failed to generate meal prep dishes. The AI service did not return any meals."
+      );
+    }
+    // Fewer suggestions than asked for: plan with what there is
+    const schedule = planPrepSessions(
+      dateKeys,
+      options.cookDays,
+      Math.min(options.maxRecipes, batchMeals.length),
+      prepTypes
+    );
+    const dishMeals = schedule
+      .flatMap((session) => session.dishes)
+      .map(({ dishIndex }) => batchMeals[dishIndex % batchMeals.length]);
+
+    const fresh: Partial<Record<(typeof freshTypes)[number], IMeal[]>> = {};
+    for (const mealType of freshTypes) {
+      fresh[mealType] = await suggest(mealType, mealTarget(mealType), FRESH_MEAL_ROTATION);
+    }
+    const freshMeal = (mealType: (typeof freshTypes)[number], dayIndex: number): IMeal | null => {
+      const meals = fresh[mealType] || [];
+      return meals.length ? { ...meals[dayIndex % meals.length] } : null;
+    };
+
+    const weeklyPlanObject: IWeeklyPlanObject = {};
+    dates.forEach((date, i) => {
+      const snack = freshMeal("snack", i);
+      weeklyPlanObject[dateKeys[i]] = {
+        day: WEEKDAYS[date.getDay()],
+        date: `${date.toLocaleDateString("en-US", { month: "short" })} ${date.getDate()}`,
+        meals: {
+          breakfast: freshMeal("breakfast", i),
+          lunch: prepTypes.includes("lunch") ? null : freshMeal("lunch", i),
+          dinner: prepTypes.includes("dinner") ? null : freshMeal("dinner", i),
+          snacks: snack ? [snack] : [],
+        },
+        workouts: [],
+        waterIntake: 8,
+      };
+    });
+
+    const stepsByMealId = await this.findRecipeSteps(dishMeals.map((meal) => meal._id), language);
+    const prepDishes: PrepDish[] = dishMeals.map((meal) => ({
+      name: meal.name,
+      ingredients: meal.ingredients,
+      prepTime: meal.prepTime,
+      steps: stepsByMealId.get(meal._id),
+    }));
+    const unitSystem: UnitSystem = userData.unitSystem === "imperial" ? "imperial" : "metric";
+
+    const sessions: IPlanMealPrep["sessions"] = schedule.map((session) => {
+      for (const { dishIndex, slots } of session.dishes) {
+        for (const slot of slots) {
+          weeklyPlanObject[slot.dateKey].meals[slot.mealType] = {
+            ...dishMeals[dishIndex],
+            category: slot.mealType,
+            prep: { cookDate: session.cookDateKey, role: slot.role, storage: slot.storage },
+          };
+        }
+      }
+      const otherMeals = session.dateKeys.flatMap((dateKey) => {
+        const { meals } = weeklyPlanObject[dateKey];
+        return [meals.breakfast, meals.lunch, meals.dinner, ...meals.snacks].filter(
+          (meal) => meal && !meal.prep
+        );
+      });
+      return {
+        cookDate: session.cookDateKey,
+        dates: session.dateKeys,
+        dishes: session.dishes.map(({ dishIndex, slots }) => ({
+          mealId: dishMeals[dishIndex]._id,
+          name: dishMeals[dishIndex].name,
+          portions: slots.length,
+          slots: slots.map(({ dateKey, ...slot }) => ({ date: dateKey, ...slot })),
+        })),
+        shoppingList: buildPrepShoppingList(session, prepDishes, otherMeals, unitSystem),
+        instructions: buildPrepInstructions(session, prepDishes, unitSystem),
+      };
+    });
+
+    const totals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+    for (const { meals } of Object.values(weeklyPlanObject)) {
+      for (const meal of [meals.breakfast, meals.lunch, meals.dinner, ...meals.snacks]) {
+        if (!meal) continue;
+        totals.calories += meal.calories || 0;
+        totals.protein += meal.macros?.protein || 0;
+        totals.carbs += meal.macros?.carbs || 0;
+        totals.fat += meal.macros?.fat || 0;
+      }
+    }
+
+    const userIdObjectId = new mongoose.Types.ObjectId(userId);
+    const weekStart = getWeekStartKey(dates[0]);
+    await archiveCurrentPlan(this.planModel, userIdObjectId, weekStart);
+    await this.progressModel.deleteOne({ userId: userIdObjectId, dateKey: dateKeys[0] });
+
+    const plan = await this.planModel.create({
+      userId: userIdObjectId,
+      title: title || "My Meal Prep Plan",
+      weekStart,
+      isCurrent: true,
+      userMetrics: {
+        bmr,
+        tdee,
+        targetCalories,
+        idealWeight: idealWeightData.ideal,
+        weightRange: `${idealWeightData.min.toFixed(2)} - ${idealWeightData.max.toFixed(2)}`,
+        dailyMacros: macros,
+      },
+      userData,
+      weeklyPlan: weeklyPlanObject,
+      weeklyMacros: {
+        calories: { consumed: 0, total: totals.calories },
+        protein: { consumed: 0, total: totals.protein },
+        carbs: { consumed: 0, total: totals.carbs },
+        fat: { consumed: 0, total: totals.fat },
+      },
+      language,
+      generatedAt: new Date(),
+      generationStatus: "complete",
+      mealPrep: {
+        cookDays: options.cookDays,
+        maxRecipes: options.maxRecipes,
+        mealTypes: prepTypes,
+        sessions,
+      },
+    });
+
+    logger.info(
+      `[generateMealPrepPlan] Plan saved (planId: ${plan._id}) with ${sessions.length} cook sessions and ${dishMeals.length} dishes`
+    );
+
+    const savedPlan = await this.planModel.findById(plan._id).lean().exec();
+
+    return {
+      status: "success",
+      message: "Meal prep plan generated and saved successfully",
+      data: {
+        planId: plan._id.toString(),
+        title: plan.title,
+        plan: savedPlan,
+        language,
+        generatedAt: plan.generatedAt.toISOString(),
+      },
+    };
+  }
+
+  // Steps of stored recipes for the given meals, in order
+  private async findRecipeSteps(mealIds: string[], language: string): Promise<Map<string, string[]>> {
+    const recipes = await this.recipeModel
+      .find({ mealId: { $in: [...new Set(mealIds)] }, language })
+      .select("mealId instructions")
+      .lean()
+      .exec();
+    return new Map(
+      recipes.map((recipe) => [
+        recipe.mealId,
+        [...(recipe.instructions || [])]
+          .sort((a, b) => a.step - b.step)
+          .map((instruction) => instruction.instruction),
+      ])
+    );
+  }
+
   /**
    * Returns the remaining dates of the current Mon–Sun week after today.
    * Today is excluded; if today is Sunday (day 0) the array is empty.
@@ -420,13 +714,64 @@ export class GeneratorService {
     return remaining;
   }
 
+  private findActiveGoals(userId: string): Promise<IGoal[]> {
+    return this.goalModel
+      .find({
+        userId: new mongoose.Types.ObjectId(userId),
+        status: { $in: ["active", "in_progress"] },
+      })
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Phase 2 job handler: reload the user and goals, then fill in the rest of
+   * the week unless the plan was replaced or completed in the meantime.
+   */
+  private async runRemainingDaysJob(data: RemainingDaysJobData): Promise<void> {
+    const plan = await this.planModel.findById(data.planId).select("generationStatus").lean();
+    if (!plan || plan.generationStatus !== "generating") {
+      logger.info(`[Phase2] Plan ${data.planId} no longer needs remaining days; skipping.`);
+      return;
+    }
+
+    const userData = await this.userModel.findById(data.userId).lean().exec();
+    if (!userData) {
+      logger.warn(`[Phase2] User ${data.userId} not found; skipping plan ${data.planId}.`);
+      return;
+    }
+
+    const goals = data.planTemplate ? [] : await this.findActiveGoals(data.userId);
+    const bmr = calculateBMR(userData.weight, userData.height, userData.age, userData.gender);
+    const tdee = calculateTDEE(bmr, userData.workoutFrequency);
+    const targetCalories = calculateTargetCalories(tdee, userData.path);
+    const macros = calculateMacros(targetCalories, userData.path);
+
+    await runWithLlmContext({ userId: data.userId }, () =>
+      this.generateAndAppendRemainingDays(
+        data.userId,
+        new mongoose.Types.ObjectId(data.planId),
+        userData,
+        new Date(data.weekStartDate),
+        data.remainingDates.map((d) => new Date(d)),
+        data.language,
+        goals,
+        data.planTemplate,
+        targetCalories,
+        macros,
+        data.moodContext,
+        data.pantryContext
+      )
+    );
+  }
+
   /**
    * Background Phase 2: generate the remaining days of the week and merge them
    * into the existing plan document without overwriting today.
    */
   private async generateAndAppendRemainingDays(
     userId: string,
-    userIdObjectId: mongoose.Types.ObjectId,
+    planId: mongoose.Types.ObjectId,
     userData: IUserData,
     weekStartDate: Date,
     remainingDates: Date[],
@@ -435,7 +780,8 @@ export class GeneratorService {
     planTemplate: string | undefined,
     targetCalories: number,
     macros: { protein: number; carbs: number; fat: number },
-    moodContext?: string | null
+    moodContext?: string | null,
+    pantryContext?: string | null
   ): Promise<void> {
     logger.info(
       `[Phase2] Generating ${remainingDates.length} remaining days for user ${userId}: ` +
@@ -451,7 +797,8 @@ export class GeneratorService {
       goals,
       planTemplate,
       remainingDates, // datesOverride: only remaining days
-      moodContext
+      moodContext,
+      pantryContext
     );
 
     if (!mealPlan?.weeklyPlan || Object.keys(mealPlan.weeklyPlan).length === 0) {
@@ -474,8 +821,9 @@ export class GeneratorService {
       setPayload[`weeklyPlan.${dateKey}`] = dayPlan;
     }
 
+    // Target the plan by id so a newer plan created meanwhile is not overwritten
     await this.planModel.findOneAndUpdate(
-      { userId: userIdObjectId },
+      { _id: planId },
       { $set: setPayload }
     );
 
@@ -500,10 +848,10 @@ export class GeneratorService {
     totalCarbs: number;
     totalFat: number;
   }> {
-    const breakfastTarget = Math.round(targetCalories * 0.25);
-    const lunchTarget    = Math.round(targetCalories * 0.35);
-    const dinnerTarget   = Math.round(targetCalories * 0.3);
-    const snackTarget    = Math.round(targetCalories * 0.1);
+    const breakfastTarget = Math.round(targetCalories * MEAL_CALORIE_SHARES.breakfast);
+    const lunchTarget    = Math.round(targetCalories * MEAL_CALORIE_SHARES.lunch);
+    const dinnerTarget   = Math.round(targetCalories * MEAL_CALORIE_SHARES.dinner);
+    const snackTarget    = Math.round(targetCalories * MEAL_CALORIE_SHARES.snack);
 
     const breakfastMacros = { protein: Math.round(macros.protein * 0.2), carbs: Math.round(macros.carbs * 0.5), fat: Math.round(macros.fat * 0.3) };
     const lunchMacros    = { protein: Math.round(macros.protein * 0.3), carbs: Math.round(macros.carbs * 0.4), fat: Math.round(macros.fat * 0.3) };
@@ -1563,4 +1911,58 @@ export class GeneratorService {
       return null;
     }
   }
+
+  /**
+   * Build a pantry context string listing items that expire soon, so the
+   * generator can plan meals that use them up.
+   */
+  private async buildPantryContext(userId: string): Promise<string | null> {
+    try {
+      const todayKey = getLocalDateKey(new Date());
+      const items = await this.pantryItemModel
+        .find({
+          userId: new mongoose.Types.ObjectId(userId),
+          expiresAt: { $gte: todayKey },
+        })
+        .select("name quantities expiresAt")
+        .lean()
+        .exec();
+
+      const context = buildPantryPromptContext(
+        items.map((item) => ({
+          id: item._id.toString(),
+          name: item.name,
+          quantities: item.quantities || [],
+          expiresAt: item.expiresAt,
+        })),
+        todayKey
+      );
+      return context || null;
+    } catch (err) {
+      logger.warn(`[buildPantryContext] Failed to fetch pantry items: ${err}`);
+      return null;
+    }
+  }
 }
+
+// A suggested meal as it goes into a plan day: string id, tuple ingredients
+const toPlanMeal = (meal: IMeal, category: IMeal["category"]): IMeal => ({
+  _id: meal._id ? String(meal._id) : new mongoose.Types.ObjectId().toString(),
+  name: meal.name || "Meal",
+  category,
+  calories: Math.round(meal.calories || 0),
+  macros: {
+    protein: meal.macros?.protein || 0,
+    carbs: meal.macros?.carbs || 0,
+    fat: meal.macros?.fat || 0,
+  },
+  ingredients: (meal.ingredients || [])
+    .map((ing: any): [string, string, string?] | null => {
+      if (Array.isArray(ing)) return [ing[0], ing[1] || "", ing[2]];
+      if (typeof ing === "string") return [ing, ""];
+      if (ing && typeof ing === "object" && ing.name) return [ing.name, ing.amount || "", ing.category];
+      return null;
+    })
+    .filter(Boolean),
+  prepTime: parsePrepTime(meal.prepTime),
+});
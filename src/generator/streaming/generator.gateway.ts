@@ -10,9 +10,17 @@ import {
 import { Server, Socket } from "socket.io";
 import { Injectable, UseGuards } from "@nestjs/common";
 import { JwtService } from "@nestjs/jwt";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
 import logger from "../../utils/logger";
 import { StreamingGeneratorService } from "./streaming.service";
+import { runWithLlmContext } from "../../llm";
 import { UserService } from "../../user/user.service";
+import { QuotaService, QuotaConsumption } from "../../quota/quota.service";
+import { SessionService, isLegacyTokenRevoked } from "../../auth/session.service";
+import { User } from "../../user/user.model";
+import { IUserData, JwtPayload } from "../../types/interfaces";
+import { isMongoObjectIdString } from "../../utils/mongoObjectId";
 import {
   SOCKET_EVENTS,
   GeneratePlanRequest,
@@ -52,6 +60,9 @@ export class GeneratorGateway implements OnGatewayConnection, OnGatewayDisconnec
     private readonly streamingService: StreamingGeneratorService,
     private readonly userService: UserService,
     private readonly jwtService: JwtService,
+    private readonly quotaService: QuotaService,
+    private readonly sessionService: SessionService,
+    @InjectModel(User.name) private readonly userModel: Model<IUserData>,
   ) {}
 
   /**
@@ -74,11 +85,11 @@ export class GeneratorGateway implements OnGatewayConnection, OnGatewayDisconnec
       }
 
       // Verify JWT
-      const decoded = this.jwtService.verify(token, {
+      const decoded = this.jwtService.verify<JwtPayload & { purpose?: string }>(token, {
         secret: process.env.JWT_SECRET,
       });
 
-      const userId = decoded.sub || decoded.userId;
+      const userId = await this.authenticate(decoded);
       if (!userId) {
         logger.warn(`[WS] Connection rejected: Invalid token payload`);
         client.emit(SOCKET_EVENTS.AUTH_ERROR, { error: "Invalid token" });
@@ -106,6 +117,32 @@ export class GeneratorGateway implements OnGatewayConnection, OnGatewayDisconnec
     }
   }
 
+  /**
+   * Same checks as AuthGuard: only access tokens of a live session whose
+   * account isn't scheduled for deletion. Link tokens (password reset, data
+   * export) carry a purpose and never open a socket. Neither do impersonation
+   * tokens: they are read-only and every socket event generates a plan.
+   */
+  private async authenticate(payload: JwtPayload & { purpose?: string }): Promise<string | null> {
+    if (payload.purpose || payload.imp || !isMongoObjectIdString(payload.id)) {
+      return null;
+    }
+    const user = await this.userModel
+      .findById(payload.id)
+      .select("_id deletionScheduledFor tokensValidAfter")
+      .lean();
+    if (!user || user.deletionScheduledFor) {
+      return null;
+    }
+    if (payload.sid && !(await this.sessionService.isActive(payload.sid, payload.id))) {
+      return null;
+    }
+    if (!payload.sid && isLegacyTokenRevoked(user, payload)) {
+      return null;
+    }
+    return payload.id;
+  }
+
   /**
    * Handle WebSocket disconnection
    */
@@ -157,10 +194,28 @@ export class GeneratorGateway implements OnGatewayConnection, OnGatewayDisconnec
       return;
     }
 
+    // Streamed plans count against the same quota as POST /generate/weekly-meal-plan
+    let quotaConsumption: QuotaConsumption;
+    try {
+      quotaConsumption = await this.quotaService.consume(userId, "weeklyPlanGeneration");
+    } catch (error) {
+      client.emit(SOCKET_EVENTS.PLAN_ERROR, {
+        status: "error",
+        error: error.message,
+        recoverable: false,
+      } as PlanErrorPayload);
+      return;
+    }
+    const refundQuota = () =>
+      this.quotaService
+        .refund(userId, quotaConsumption)
+        .catch((error) => logger.warn(`[WS] Quota refund failed: ${error.message}`));
+
     try {
       // Get user data
       const user = await this.userService.findById(userId);
       if (!user) {
+        refundQuota();
         client.emit(SOCKET_EVENTS.PLAN_ERROR, {
           status: "error",
           error: "User not found",
@@ -182,6 +237,7 @@ export class GeneratorGateway implements OnGatewayConnection, OnGatewayDisconnec
         dislikes: user.dislikes || [],
         foodPreferences: user.foodPreferences || [],
         favoriteMeals: user.favoriteMeals || [],
+        timezone: user.timezone,
         // Minimal required fields for IUserData (not used in generation)
         email: user.email || "",
         password: "",
@@ -195,43 +251,47 @@ export class GeneratorGateway implements OnGatewayConnection, OnGatewayDisconnec
 
       logger.info(`[WS] Starting generation ${generationId} for user ${userId}`);
 
-      // Start streaming generation
-      await this.streamingService.generateWithStreaming(
-        userData,
-        {
-          onSkeleton: (payload) => {
-            client.emit(SOCKET_EVENTS.PLAN_SKELETON, payload);
-          },
-          onProgress: (payload) => {
-            client.emit(SOCKET_EVENTS.PLAN_PROGRESS, payload);
-          },
-          onComplete: (payload) => {
-            this.activeGenerations.delete(client.id);
-            client.emit(SOCKET_EVENTS.PLAN_COMPLETE, payload);
+      // Start streaming generation; its AI calls are logged against this user
+      await runWithLlmContext({ userId }, () =>
+        this.streamingService.generateWithStreaming(
+          userData,
+          {
+            onSkeleton: (payload) => {
+              client.emit(SOCKET_EVENTS.PLAN_SKELETON, payload);
+            },
+            onProgress: (payload) => {
+              client.emit(SOCKET_EVENTS.PLAN_PROGRESS, payload);
+            },
+            onComplete: (payload) => {
+              this.activeGenerations.delete(client.id);
+              client.emit(SOCKET_EVENTS.PLAN_COMPLETE, payload);
+            },
+            onError: (error, phase, recoverable, partialData) => {
+              this.activeGenerations.delete(client.id);
+              if (!partialData) refundQuota();
+              client.emit(SOCKET_EVENTS.PLAN_ERROR, {
+                status: "error",
+                error,
+                phase,
+                recoverable,
+                partialData,
+              } as PlanErrorPayload);
+            },
           },
-          onError: (error, phase, recoverable, partialData) => {
-            this.activeGenerations.delete(client.id);
-            client.emit(SOCKET_EVENTS.PLAN_ERROR, {
-              status: "error",
-              error,
-              phase,
-              recoverable,
-              partialData,
-            } as PlanErrorPayload);
+          {
+            generationId,
+            weekStartDate: request.weekStartDate ? new Date(request.weekStartDate) : undefined,
+            planType: request.planType,
+            language: request.language,
+            goals: request.goals,
+            planTemplate: request.planTemplate,
           },
-        },
-        {
-          generationId,
-          weekStartDate: request.weekStartDate ? new Date(request.weekStartDate) : undefined,
-          planType: request.planType,
-          language: request.language,
-          goals: request.goals,
-          planTemplate: request.planTemplate,
-        },
+        ),
       );
 
     } catch (error) {
       this.activeGenerations.delete(client.id);
+      refundQuota();
       logger.error(`[WS] Generation error: ${error.message}`);
       client.emit(SOCKET_EVENTS.PLAN_ERROR, {
         status: "error",
@@ -1,7 +1,7 @@
 import { Injectable } from "@nestjs/common";
-import { GenerativeModel } from "@google/generative-ai";
 import logger from "../../utils/logger";
-import { callGeminiWithRateLimit } from "../../utils/gemini-rate-limiter";
+import { getLlmClient, generateStructured } from "../../llm";
+import { AI_PLAN_DAYS, AI_SKELETON_DAYS } from "../../llm/schemas";
 import {
   IUserData,
   IGoal,
@@ -25,6 +25,7 @@ import {
   enrichPlanWithFavoriteMeals,
   MealPlanResponse,
 } from "../../utils/helpers";
+import { getUserToday } from "../../utils/timezone";
 
 // Re-use helpers from generate.service
 const getLocalDateKey = (date: Date): string => {
@@ -104,12 +105,6 @@ export class StreamingGeneratorService {
     const generationState = { cancelled: false };
     this.activeGenerations.set(generationId, generationState);
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      callbacks.onError("GEMINI_API_KEY not configured", "skeleton", false);
-      return;
-    }
-
     try {
       // Calculate targets
       const { dates, dayToName, nameToDay, workoutDays, activeDays } =
@@ -128,7 +123,6 @@ export class StreamingGeneratorService {
       const skeletonStartTime = Date.now();
 
       const skeleton = await this.generateSkeleton(
-        apiKey,
         userData,
         dates,
         dayToName,
@@ -157,7 +151,6 @@ export class StreamingGeneratorService {
       const detailsStartTime = Date.now();
 
       const fullDays = await this.generateDetails(
-        apiKey,
         userData,
         skeleton,
         dates,
@@ -241,8 +234,7 @@ export class StreamingGeneratorService {
    * Calculate dates and workout distribution
    */
   private calculateDates(userData: IUserData, weekStartDate: Date) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = getUserToday(userData.timezone);
     const currentDay = today.getDay();
 
     const daysToGenerate: number[] = [];
@@ -309,7 +301,6 @@ export class StreamingGeneratorService {
    * PHASE 1: Generate skeleton (just meal names) - single fast API call
    */
   private async generateSkeleton(
-    apiKey: string,
     userData: IUserData,
     dates: Date[],
     dayToName: Record<number, string>,
@@ -351,40 +342,32 @@ Return ONLY this JSON structure (no markdown):
   }
 ]`;
 
-    return callGeminiWithRateLimit<SkeletonDay[]>(
-      apiKey,
-      "gemini-2.5-flash-lite",
-      async (model: GenerativeModel) => {
-        const result = await model.generateContent({
-          contents: [{ role: "user", parts: [{ text: prompt }] }],
-          generationConfig: {
-            responseMimeType: "application/json",
-            temperature: 0.7,
-          },
-        });
-
-        const text = result.response.text();
-        const parsed = JSON.parse(text);
-
-        // Normalize to array
-        if (Array.isArray(parsed)) return parsed;
-        if (parsed.weeklyPlan) return parsed.weeklyPlan;
-        if (parsed.days) return parsed.days;
-        return [parsed];
-      },
+    const skeleton = await generateStructured(
+      getLlmClient("meal-plan-skeleton"),
+      prompt,
+      AI_SKELETON_DAYS,
       {
+        temperature: 0.7,
         maxRetries: 3,
         timeoutMs: 30000,
         context: "Skeleton",
       },
     );
+    const days = skeleton.days as SkeletonDay[];
+
+    return this.pickDays(
+      days,
+      dates.map((date) => dayToName[date.getDay()]),
+    ).map((day, idx) => ({
+      ...day,
+      date: day.date || (dates[idx] ? getLocalDateKey(dates[idx]) : day.date),
+    }));
   }
 
   /**
    * PHASE 2: Generate full details for each day (batched for efficiency)
    */
   private async generateDetails(
-    apiKey: string,
     userData: IUserData,
     skeleton: SkeletonDay[],
     dates: Date[],
@@ -417,28 +400,21 @@ Return ONLY this JSON structure (no markdown):
       );
 
       try {
-        const batchResults = await callGeminiWithRateLimit<any[]>(
-          apiKey,
-          "gemini-2.5-flash-lite",
-          async (model: GenerativeModel) => {
-            const result = await model.generateContent({
-              contents: [{ role: "user", parts: [{ text: batchPrompt }] }],
-              generationConfig: {
-                responseMimeType: "application/json",
-                temperature: 0.7,
-              },
-            });
-
-            const text = result.response.text();
-            const parsed = JSON.parse(text);
-            return Array.isArray(parsed) ? parsed : [parsed];
-          },
+        const { days } = await generateStructured(
+          getLlmClient("meal-plan"),
+          batchPrompt,
+          AI_PLAN_DAYS,
           {
+            temperature: 0.7,
             maxRetries: 3,
             timeoutMs: 60000,
             context: `DetailsBatch${Math.floor(i / BATCH_SIZE) + 1}`,
           },
         );
+        const batchResults = this.pickDays(
+          days as unknown as FullDay[],
+          batch.map((d) => d.day),
+        );
 
         fullDays.push(...batchResults);
         onProgress(fullDays.length, batchResults);
@@ -515,6 +491,18 @@ RULES:
 - Macros math: protein*4 + carbs*4 + fat*9 ≈ calories`;
   }
 
+  /**
+   * Keep only the requested days. Replayed fixtures hold a whole week;
+   * falls back to the full response when no day names match.
+   */
+  private pickDays<T extends { day?: string }>(days: T[], dayNames: string[]): T[] {
+    const wanted = new Set(dayNames.map((name) => name?.toLowerCase()));
+    const matching = days.filter(
+      (d) => typeof d?.day === "string" && wanted.has(d.day.toLowerCase()),
+    );
+    return matching.length > 0 ? matching : days;
+  }
+
   /**
    * Convert skeleton day to full day (fallback for failed batches)
    */
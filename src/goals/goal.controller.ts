@@ -19,11 +19,13 @@ import {
 } from "@nestjs/swagger";
 import { GoalService } from "./goal.service";
 import { AuthGuard } from "../auth/auth.guard";
+import { OwnershipGuard, OwnedResource } from "../auth/guards/ownership.guard";
 import { CreateGoalDto, UpdateGoalDto, GenerateGoalDto } from "./dto";
 
 @ApiTags("goals")
 @Controller("goals")
-@UseGuards(AuthGuard)
+@UseGuards(AuthGuard, OwnershipGuard)
+@OwnedResource({ area: "goals", userParam: "userId", goalParam: "id" })
 @ApiBearerAuth("JWT-auth")
 export class GoalController {
   constructor(private goalService: GoalService) {}
@@ -36,7 +38,8 @@ export class GoalController {
     description: "Goals retrieved successfully",
   })
   async getGoals(@Param("userId") userId: string, @Request() req) {
-    return this.goalService.findAll(req.user._id.toString());
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.goalService.findAll(resolvedUserId);
   }
 
   @Get(":userId/goal/:id")
@@ -99,9 +102,11 @@ export class GoalController {
   @ApiResponse({ status: 400, description: "Failed to generate goal" })
   async generateGoal(
     @Param("userId") userId: string,
-    @Body() body: GenerateGoalDto
+    @Body() body: GenerateGoalDto,
+    @Request() req
   ) {
-    return this.goalService.generateGoal(userId, body);
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.goalService.generateGoal(resolvedUserId, body);
   }
 
   @Post(":id/progress")
@@ -0,0 +1,113 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+
+class HouseholdMealMacrosDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  protein?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  carbs?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fat?: number;
+}
+
+/**
+ * One serving of a dinner; portions are worked out per member
+ */
+export class HouseholdMealDto {
+  @ApiProperty({ example: "Chicken Stir Fry" })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: 600, description: "Calories per serving" })
+  @IsNumber()
+  @Min(1)
+  calories: number;
+
+  @ApiPropertyOptional({ example: { protein: 40, carbs: 60, fat: 18 } })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HouseholdMealMacrosDto)
+  macros?: HouseholdMealMacrosDto;
+
+  @ApiProperty({
+    example: [
+      ["chicken breast", "150 g", "Proteins"],
+      ["rice", "80 g", "Grains"],
+    ],
+    description: "[name, amount, category?] for one serving",
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsArray({ each: true })
+  ingredients: [string, string, string?][];
+
+  @ApiPropertyOptional({ example: 25, description: "Minutes" })
+  @IsOptional()
+  @IsNumber()
+  prepTime?: number;
+}
+
+export class SetHouseholdDinnerDto {
+  @ApiProperty({ type: HouseholdMealDto })
+  @ValidateNested()
+  @Type(() => HouseholdMealDto)
+  meal: HouseholdMealDto;
+}
+
+export class GenerateHouseholdDinnerDto {
+  @ApiProperty({ example: "2024-01-15", description: "Day of the dinner (YYYY-MM-DD)" })
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  date: string;
+
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsString()
+  language?: string;
+}
+
+export class HouseholdDateRangeDto {
+  @ApiPropertyOptional({ example: "2024-01-15", description: "First day (YYYY-MM-DD), default today" })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  from?: string;
+
+  @ApiPropertyOptional({ example: "2024-01-21", description: "Last day (YYYY-MM-DD), default a week on" })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  to?: string;
+}
+
+export class UpdateHouseholdShoppingItemDto {
+  @ApiProperty({ example: "chicken_breast", description: "Ingredient key or name" })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  done: boolean;
+}
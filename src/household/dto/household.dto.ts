@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class CreateHouseholdDto {
+  @ApiProperty({ example: "The Millers" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name: string;
+}
+
+export class UpdateHouseholdDto {
+  @ApiPropertyOptional({ example: "The Millers" })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name?: string;
+}
+
+export class JoinHouseholdDto {
+  @ApiProperty({ example: "K7QX2MPA", description: "Code the household owner shared" })
+  @IsString()
+  @Length(8, 8)
+  code: string;
+}
+
+export class UpdateHouseholdMemberDto {
+  @ApiPropertyOptional({ example: "Emma" })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name?: string;
+
+  @ApiPropertyOptional({
+    example: 1600,
+    description: "Daily calories; account members default to their plan's target",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(500)
+  @Max(6000)
+  calorieTarget?: number;
+
+  @ApiPropertyOptional({ example: ["peanut", "dairy"], type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  allergies?: string[];
+
+  @ApiPropertyOptional({ example: ["vegetarian"], type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  dietaryRestrictions?: string[];
+}
+
+/**
+ * Someone without an account, e.g. a child
+ */
+export class AddHouseholdMemberDto extends UpdateHouseholdMemberDto {
+  @ApiProperty({ example: "Emma" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+}
@@ -0,0 +1,2 @@
+export * from "./household.dto";
+export * from "./household-meal.dto";
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A member's share of a household meal, as a multiple of the recipe
+ */
+export interface IHouseholdMealPortion {
+  memberId: mongoose.Types.ObjectId;
+  name: string;
+  factor: number;
+  calories: number;
+  macros: { protein: number; carbs: number; fat: number };
+}
+
+/**
+ * The dinner a household eats together on one day. It is proposed (generated
+ * or picked), then accepted once it clears every member's allergies.
+ */
+export interface IHouseholdMeal extends Document {
+  _id: mongoose.Types.ObjectId;
+  householdId: mongoose.Types.ObjectId;
+  dateKey: string; // YYYY-MM-DD
+  mealType: "dinner";
+  // One serving of the recipe
+  meal: {
+    name: string;
+    calories: number;
+    macros: { protein: number; carbs: number; fat: number };
+    ingredients: [string, string, string?][];
+    prepTime?: number;
+  };
+  portions: IHouseholdMealPortion[];
+  status: "proposed" | "accepted";
+  proposedBy: mongoose.Types.ObjectId;
+  acceptedBy?: mongoose.Types.ObjectId;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const HouseholdMeal = { name: "HouseholdMeal" };
+
+const portionSchema = new Schema<IHouseholdMealPortion>(
+  {
+    memberId: { type: Schema.Types.ObjectId, required: true },
+    name: { type: String, required: true },
+    factor: { type: Number, required: true },
+    calories: { type: Number, required: true },
+    macros: {
+      protein: { type: Number, default: 0 },
+      carbs: { type: Number, default: 0 },
+      fat: { type: Number, default: 0 },
+    },
+  },
+  { _id: false }
+);
+
+const householdMealSchema = new Schema<IHouseholdMeal>(
+  {
+    householdId: { type: Schema.Types.ObjectId, ref: "Household", required: true },
+    dateKey: { type: String, required: true },
+    mealType: { type: String, enum: ["dinner"], default: "dinner" },
+    meal: {
+      name: { type: String, required: true },
+      calories: { type: Number, required: true },
+      macros: {
+        protein: { type: Number, default: 0 },
+        carbs: { type: Number, default: 0 },
+        fat: { type: Number, default: 0 },
+      },
+      ingredients: { type: [Schema.Types.Mixed], default: [] },
+      prepTime: { type: Number },
+    },
+    portions: { type: [portionSchema], default: [] },
+    status: { type: String, enum: ["proposed", "accepted"], default: "proposed" },
+    proposedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    acceptedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    acceptedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "household_meals",
+  }
+);
+
+householdMealSchema.index({ householdId: 1, dateKey: 1, mealType: 1 }, { unique: true });
+
+export const HouseholdMealSchema = householdMealSchema;
@@ -0,0 +1,343 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { HouseholdMeal, IHouseholdMeal } from "./household-meal.model";
+import { HouseholdService, ResolvedHouseholdMember } from "./household.service";
+import { AllergyConflictException } from "./household.exceptions";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
+import { PlanService } from "../plan/plan.service";
+import { GeneratorService } from "../generator/generator.service";
+import { User } from "../user/user.model";
+import { IMeal, IPlan, IUserData } from "../types/interfaces";
+import { HouseholdDateRangeDto, HouseholdMealDto } from "./dto";
+import {
+  DINNER_CALORIE_SHARE,
+  SharedMeal,
+  findAllergyConflicts,
+  portionMeal,
+  scaleIngredients,
+} from "../utils/householdMeals";
+import { addDaysToDateKey, findUserTimeZone, getUserDay } from "../utils/timezone";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 31;
+const DINNER_SUGGESTIONS = 3;
+
+/**
+ * Whether a member's own plan took their portion of an accepted dinner
+ */
+export interface HouseholdPlanUpdate {
+  memberId: string;
+  name: string;
+  applied: boolean;
+  reason?: string;
+}
+
+/**
+ * Shared dinners: one meal per day for the whole household, portioned to each
+ * member's calories. A dinner is proposed first and only accepted once it
+ * clears every member's allergies; accepting it puts each account member's
+ * portion into their own plan.
+ */
+@Injectable()
+export class HouseholdMealService {
+  constructor(
+    @InjectModel(HouseholdMeal.name) private mealModel: Model<IHouseholdMeal>,
+    @InjectModel(Plan.name) private planModel: Model<IPlan>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private householdService: HouseholdService,
+    private planService: PlanService,
+    private generatorService: GeneratorService
+  ) {}
+
+  /**
+   * Dinners in a range of days (default: a week from today), with the
+   * allergy conflicts of those not accepted yet
+   */
+  async list(userId: string, range: HouseholdDateRangeDto) {
+    const household = await this.householdService.findForUser(userId);
+    const { from, to } = await resolveDateRange(this.userModel, userId, range);
+    const [meals, members] = await Promise.all([
+      this.mealModel
+        .find({ householdId: household._id, dateKey: { $gte: from, $lte: to } })
+        .sort({ dateKey: 1 })
+        .lean(),
+      this.householdService.resolveMembers(household),
+    ]);
+    return {
+      from,
+      to,
+      dinners: meals.map((meal) => ({
+        ...this.toView(meal),
+        ...(meal.status === "proposed" && {
+          conflicts: findAllergyConflicts(meal.meal as SharedMeal, members),
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Generate a dinner for everyone: the household's dietary restrictions are
+   * combined and the first suggestion that clears all allergies is proposed
+   */
+  async generate(userId: string, date: string, language: string = "en") {
+    assertDateKey(date);
+    const household = await this.householdService.findForUser(userId);
+    await this.assertNotAccepted(household._id, date);
+    const members = await this.householdService.resolveMembers(household);
+
+    const averageCalories =
+      members.reduce((sum, member) => sum + member.dailyCalories, 0) / members.length;
+    const allergies = [...new Set(members.flatMap((member) => member.allergies))];
+    const result = await this.generatorService.generateMealSuggestions(
+      userId,
+      {
+        category: "dinner",
+        targetCalories: Math.round(averageCalories * DINNER_CALORIE_SHARE),
+        dietaryRestrictions: [...new Set(members.flatMap((member) => member.dietaryRestrictions))],
+        dislikes: allergies,
+        numberOfSuggestions: DINNER_SUGGESTIONS,
+      },
+      language
+    );
+
+    const suggestions: IMeal[] = result?.data?.meals || [];
+    const safe = suggestions.find((meal) => !findAllergyConflicts(meal, members).length);
+    if (!safe) {
+      throw new AllergyConflictException(
+        suggestions.flatMap((meal) => findAllergyConflicts(meal, members)),
+        "None of the generated dinners clears every member's allergies; try again or pick one"
+      );
+    }
+    return this.propose(household._id, date, userId, toSharedMeal(safe), members);
+  }
+
+  /**
+   * Propose a dinner the household picked itself
+   */
+  async set(userId: string, date: string, meal: HouseholdMealDto) {
+    assertDateKey(date);
+    const household = await this.householdService.findForUser(userId);
+    await this.assertNotAccepted(household._id, date);
+    const members = await this.householdService.resolveMembers(household);
+    return this.propose(household._id, date, userId, toSharedMeal(meal), members);
+  }
+
+  /**
+   * Accept the proposed dinner for the household (owner only). Fails with 409
+   * and the conflicts when it contains anything a member is allergic to.
+   * Portions are worked out again for the current members and each account
+   * member's plan gets theirs when it covers the day; a plan that cannot be
+   * updated does not undo the acceptance.
+   */
+  async accept(userId: string, date: string) {
+    assertDateKey(date);
+    const household = await this.householdService.findForUser(userId);
+    if (household.ownerId.toString() !== userId) {
+      throw new ForbiddenException("Only the household owner can accept dinners");
+    }
+    const proposed = await this.mealModel
+      .findOne({ householdId: household._id, dateKey: date, mealType: "dinner", status: "proposed" })
+      .lean();
+    if (!proposed) {
+      throw new NotFoundException("No proposed dinner for this day");
+    }
+
+    const members = await this.householdService.resolveMembers(household);
+    const meal = proposed.meal as SharedMeal;
+    const conflicts = findAllergyConflicts(meal, members);
+    if (conflicts.length) {
+      throw new AllergyConflictException(conflicts);
+    }
+
+    const accepted = await this.mealModel
+      .findOneAndUpdate(
+        { _id: proposed._id, status: "proposed" },
+        {
+          $set: {
+            status: "accepted",
+            portions: this.toPortions(meal, members),
+            acceptedBy: new Types.ObjectId(userId),
+            acceptedAt: new Date(),
+          },
+        },
+        { new: true }
+      )
+      .lean();
+    if (!accepted) {
+      throw new NotFoundException("No proposed dinner for this day");
+    }
+
+    const planUpdates = await this.applyToPlans(accepted, members);
+    return { dinner: this.toView(accepted), planUpdates };
+  }
+
+  /**
+   * Drop a proposed dinner; accepted dinners stay
+   */
+  async remove(userId: string, date: string) {
+    assertDateKey(date);
+    const household = await this.householdService.findForUser(userId);
+    const meal = await this.mealModel
+      .findOne({ householdId: household._id, dateKey: date, mealType: "dinner" })
+      .select("status")
+      .lean();
+    if (!meal) {
+      throw new NotFoundException("No dinner for this day");
+    }
+    if (meal.status === "accepted") {
+      throw new ConflictException("This dinner has already been accepted");
+    }
+    await this.mealModel.deleteOne({ _id: meal._id, status: "proposed" });
+    return { deleted: true };
+  }
+
+  private async propose(
+    householdId: Types.ObjectId,
+    dateKey: string,
+    userId: string,
+    meal: SharedMeal,
+    members: ResolvedHouseholdMember[]
+  ) {
+    try {
+      const saved = await this.mealModel
+        .findOneAndUpdate(
+          { householdId, dateKey, mealType: "dinner", status: "proposed" },
+          {
+            $set: {
+              meal,
+              portions: this.toPortions(meal, members),
+              proposedBy: new Types.ObjectId(userId),
+            },
+          },
+          { new: true, upsert: true, setDefaultsOnInsert: true }
+        )
+        .lean();
+      return {
+        ...this.toView(saved),
+        conflicts: findAllergyConflicts(meal, members),
+      };
+    } catch (error: any) {
+      // Accepted in the meantime: the upsert collides with the accepted dinner
+      if (error?.code === 11000) {
+        throw new ConflictException("This dinner has already been accepted");
+      }
+      throw error;
+    }
+  }
+
+  private async applyToPlans(
+    dinner: IHouseholdMeal,
+    members: ResolvedHouseholdMember[]
+  ): Promise<HouseholdPlanUpdate[]> {
+    const updates: HouseholdPlanUpdate[] = [];
+    for (const member of members.filter((m) => m.userId)) {
+      const portion = dinner.portions.find((p) => p.memberId.toString() === member.memberId);
+      const update = { memberId: member.memberId, name: member.name };
+      const plan = await this.planModel
+        .findOne({
+          ...currentPlanQuery(member.userId),
+          [`weeklyPlan.${dinner.dateKey}`]: { $exists: true },
+        })
+        .select("_id")
+        .lean();
+      if (!portion || !plan) {
+        updates.push({ ...update, applied: false, reason: "No plan for this day" });
+        continue;
+      }
+      try {
+        await this.planService.replaceMeal(member.userId, plan._id.toString(), dinner.dateKey, "dinner", {
+          name: dinner.meal.name,
+          calories: portion.calories,
+          macros: portion.macros,
+          ingredients: scaleIngredients(dinner.meal.ingredients, portion.factor) as IMeal["ingredients"],
+          category: "dinner",
+          prepTime: dinner.meal.prepTime,
+        });
+        updates.push({ ...update, applied: true });
+      } catch (error) {
+        const message = getErrorMessage(error);
+        logger.warn(
+          `[Household] Could not apply dinner ${dinner._id} to the plan of ${member.userId}: ${message}`
+        );
+        updates.push({ ...update, applied: false, reason: message });
+      }
+    }
+    return updates;
+  }
+
+  private toPortions(meal: SharedMeal, members: ResolvedHouseholdMember[]) {
+    return portionMeal(meal, members).map((portion) => ({
+      ...portion,
+      memberId: new Types.ObjectId(portion.memberId),
+    }));
+  }
+
+  private async assertNotAccepted(householdId: Types.ObjectId, dateKey: string) {
+    if (await this.mealModel.exists({ householdId, dateKey, mealType: "dinner", status: "accepted" })) {
+      throw new ConflictException("This dinner has already been accepted");
+    }
+  }
+
+  private toView(meal: any) {
+    return {
+      id: meal._id.toString(),
+      date: meal.dateKey,
+      mealType: meal.mealType,
+      meal: meal.meal,
+      portions: (meal.portions || []).map((portion: any) => ({
+        ...portion,
+        memberId: portion.memberId.toString(),
+      })),
+      status: meal.status,
+      proposedBy: meal.proposedBy?.toString(),
+      acceptedAt: meal.acceptedAt,
+    };
+  }
+}
+
+const assertDateKey = (date: string) => {
+  if (!DATE_KEY_PATTERN.test(date || "")) {
+    throw new BadRequestException("Date must be in YYYY-MM-DD format");
+  }
+};
+
+const toSharedMeal = (meal: Partial<IMeal> | HouseholdMealDto): SharedMeal & IHouseholdMeal["meal"] => ({
+  name: meal.name,
+  calories: Math.round(meal.calories || 0),
+  macros: {
+    protein: meal.macros?.protein || 0,
+    carbs: meal.macros?.carbs || 0,
+    fat: meal.macros?.fat || 0,
+  },
+  ingredients: (meal.ingredients || []) as IMeal["ingredients"],
+  ...(meal.prepTime !== undefined && { prepTime: meal.prepTime }),
+});
+
+/**
+ * `from`/`to` with defaults: today in the user's timezone and a week on
+ */
+export const resolveDateRange = async (
+  userModel: Model<IUserData>,
+  userId: string,
+  range: HouseholdDateRangeDto
+) => {
+  const from = range.from || getUserDay(await findUserTimeZone(userModel, userId)).dateKey;
+  const to = range.to || addDaysToDateKey(from, DEFAULT_RANGE_DAYS - 1);
+  if (to < from) {
+    throw new BadRequestException("`to` must not be before `from`");
+  }
+  if (to > addDaysToDateKey(from, MAX_RANGE_DAYS - 1)) {
+    throw new BadRequestException(`A range can cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to };
+};
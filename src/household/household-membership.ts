@@ -0,0 +1,55 @@
+import { Model, Types } from "mongoose";
+import { IHousehold } from "./household.model";
+import { IHouseholdMeal } from "./household-meal.model";
+import { IHouseholdShoppingList } from "./household-shopping-list.model";
+
+export interface HouseholdModels {
+  household: Model<IHousehold>;
+  meal: Model<IHouseholdMeal>;
+  shoppingList: Model<IHouseholdShoppingList>;
+}
+
+export type HouseholdRemoval = "none" | "left" | "transferred" | "deleted";
+
+/**
+ * Take an account out of its household, used when a member leaves and when
+ * an account is purged. An owner hands the household to the longest-standing
+ * other account member; without one the household, its dinners and its
+ * shopping list are deleted.
+ */
+export const removeAccountFromHousehold = async (
+  models: HouseholdModels,
+  userId: string
+): Promise<HouseholdRemoval> => {
+  const userObjectId = new Types.ObjectId(userId);
+  const household = await models.household.findOne({ memberUserIds: userObjectId }).lean();
+  if (!household) return "none";
+
+  const member = household.members.find((m) => m.userId?.toString() === userId);
+  const isOwner = household.ownerId.toString() === userId;
+  const successor = household.members
+    .filter((m) => m.userId && m.userId.toString() !== userId)
+    .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime())[0];
+
+  if (isOwner && !successor) {
+    await models.meal.deleteMany({ householdId: household._id });
+    await models.shoppingList.deleteMany({ householdId: household._id });
+    await models.household.deleteOne({ _id: household._id });
+    return "deleted";
+  }
+
+  await models.household.updateOne(
+    { _id: household._id },
+    {
+      $pull: { members: { userId: userObjectId }, memberUserIds: userObjectId },
+      ...(isOwner && { $set: { ownerId: successor.userId } }),
+    }
+  );
+  if (member) {
+    await models.meal.updateMany(
+      { householdId: household._id },
+      { $pull: { portions: { memberId: member._id } } }
+    );
+  }
+  return isOwner ? "transferred" : "left";
+};
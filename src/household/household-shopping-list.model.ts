@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  IShoppingListIngredient,
+  ShoppingListIngredientSchema,
+} from "../shopping/shopping-list.model";
+
+/**
+ * One shopping list for the whole household over a range of days: the shared
+ * dinners for everyone plus each account member's other planned meals
+ */
+export interface IHouseholdShoppingList extends Document {
+  householdId: mongoose.Types.ObjectId;
+  from: string; // YYYY-MM-DD
+  to: string;
+  ingredients: IShoppingListIngredient[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const HouseholdShoppingList = { name: "HouseholdShoppingList" };
+
+const householdShoppingListSchema = new Schema<IHouseholdShoppingList>(
+  {
+    householdId: { type: Schema.Types.ObjectId, ref: "Household", required: true },
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+    ingredients: { type: [ShoppingListIngredientSchema], default: [] },
+  },
+  {
+    timestamps: true,
+    collection: "household_shopping_lists",
+  }
+);
+
+householdShoppingListSchema.index({ householdId: 1 }, { unique: true });
+
+export const HouseholdShoppingListSchema = householdShoppingListSchema;
@@ -0,0 +1,153 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  HouseholdShoppingList,
+  IHouseholdShoppingList,
+} from "./household-shopping-list.model";
+import { HouseholdMeal, IHouseholdMeal } from "./household-meal.model";
+import { HouseholdService } from "./household.service";
+import { resolveDateRange } from "./household-meal.service";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
+import { User } from "../user/user.model";
+import { IPlan, IUserData } from "../types/interfaces";
+import { HouseholdDateRangeDto, UpdateHouseholdShoppingItemDto } from "./dto";
+import { aggregateIngredients, getIngredientKey } from "../utils/helpers";
+import { IngredientTuple, scaleIngredients } from "../utils/householdMeals";
+import { UnitSystem } from "../utils/quantities";
+import { addDaysToDateKey } from "../utils/timezone";
+
+const toTuple = (ing: any): IngredientTuple | null => {
+  if (Array.isArray(ing)) return ing as IngredientTuple;
+  if (typeof ing === "string") return [ing, ""];
+  if (ing && typeof ing === "object" && ing.name) return [ing.name, ing.amount || "", ing.category];
+  return null;
+};
+
+/**
+ * One shopping list for the household: the accepted shared dinners for every
+ * member plus each account member's other planned meals. On days with a shared
+ * dinner, members' own dinners are left out so nothing is bought twice.
+ */
+@Injectable()
+export class HouseholdShoppingService {
+  constructor(
+    @InjectModel(HouseholdShoppingList.name)
+    private shoppingListModel: Model<IHouseholdShoppingList>,
+    @InjectModel(HouseholdMeal.name) private mealModel: Model<IHouseholdMeal>,
+    @InjectModel(Plan.name) private planModel: Model<IPlan>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private householdService: HouseholdService
+  ) {}
+
+  /**
+   * Build the list for a range of days (default: a week from today). Items
+   * already ticked off stay ticked off.
+   */
+  async generate(userId: string, range: HouseholdDateRangeDto) {
+    const household = await this.householdService.findForUser(userId);
+    const { from, to } = await resolveDateRange(this.userModel, userId, range);
+    const dateKeys: string[] = [];
+    for (let dateKey = from; dateKey <= to; dateKey = addDaysToDateKey(dateKey, 1)) {
+      dateKeys.push(dateKey);
+    }
+
+    const accountIds = household.members.filter((m) => m.userId).map((m) => m.userId);
+    const [dinners, plans, owner, existing] = await Promise.all([
+      this.mealModel
+        .find({ householdId: household._id, status: "accepted", dateKey: { $gte: from, $lte: to } })
+        .lean(),
+      this.planModel
+        .find(currentPlanQuery({ $in: accountIds }))
+        .select(["userId", ...dateKeys.map((dateKey) => `weeklyPlan.${dateKey}`)].join(" "))
+        .lean(),
+      this.userModel.findById(household.ownerId).select("unitSystem").lean(),
+      this.shoppingListModel.findOne({ householdId: household._id }).select("ingredients").lean(),
+    ]);
+
+    const ingredients: IngredientTuple[] = [];
+    const sharedDinnerDays = new Set(dinners.map((dinner) => dinner.dateKey));
+    for (const dinner of dinners) {
+      const servings = dinner.portions.reduce((sum, portion) => sum + portion.factor, 0);
+      ingredients.push(...scaleIngredients(dinner.meal.ingredients, servings));
+    }
+    for (const plan of plans) {
+      const weeklyPlan = (plan as any).weeklyPlan || {};
+      for (const dateKey of dateKeys) {
+        const meals = weeklyPlan[dateKey]?.meals;
+        if (!meals) continue;
+        const planned = [
+          meals.breakfast,
+          meals.lunch,
+          sharedDinnerDays.has(dateKey) ? null : meals.dinner,
+          ...(meals.snacks || []),
+        ];
+        for (const meal of planned) {
+          for (const ing of meal?.ingredients || []) {
+            const tuple = toTuple(ing);
+            if (tuple) ingredients.push(tuple);
+          }
+        }
+      }
+    }
+
+    const done = new Set(
+      (existing?.ingredients || []).filter((ing) => ing.done).map((ing) => ing.key)
+    );
+    const unitSystem: UnitSystem = owner?.unitSystem === "imperial" ? "imperial" : "metric";
+    const list = await this.shoppingListModel
+      .findOneAndUpdate(
+        { householdId: household._id },
+        {
+          $set: {
+            from,
+            to,
+            ingredients: aggregateIngredients(ingredients, unitSystem).map((ing) => ({
+              name: ing.name,
+              amount: ing.amount,
+              category: ing.category,
+              quantities: ing.quantities,
+              done: done.has(ing.key),
+              key: ing.key,
+            })),
+          },
+        },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+      )
+      .lean();
+    return {
+      success: true,
+      data: { from: list.from, to: list.to, sharedDinners: dinners.length, ingredients: list.ingredients },
+    };
+  }
+
+  async get(userId: string) {
+    const household = await this.householdService.findForUser(userId);
+    const list = await this.shoppingListModel.findOne({ householdId: household._id }).lean();
+    if (!list) {
+      throw new NotFoundException("Household shopping list not found");
+    }
+    return {
+      success: true,
+      data: { from: list.from, to: list.to, ingredients: list.ingredients },
+    };
+  }
+
+  async setItemDone(userId: string, dto: UpdateHouseholdShoppingItemDto) {
+    const household = await this.householdService.findForUser(userId);
+    const list = await this.shoppingListModel
+      .findOneAndUpdate(
+        { householdId: household._id, "ingredients.key": getIngredientKey(dto.name) },
+        { $set: { "ingredients.$.done": dto.done } },
+        { new: true }
+      )
+      .lean();
+    if (!list) {
+      throw new NotFoundException("Item not found in the household shopping list");
+    }
+    return {
+      success: true,
+      data: { from: list.from, to: list.to, ingredients: list.ingredients },
+    };
+  }
+}
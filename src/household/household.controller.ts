@@ -0,0 +1,255 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { SubscriptionGuard, RequiresFeature } from "../auth/guards/subscription.guard";
+import { HouseholdService } from "./household.service";
+import { HouseholdMealService } from "./household-meal.service";
+import { HouseholdShoppingService } from "./household-shopping.service";
+import {
+  AddHouseholdMemberDto,
+  CreateHouseholdDto,
+  GenerateHouseholdDinnerDto,
+  HouseholdDateRangeDto,
+  JoinHouseholdDto,
+  SetHouseholdDinnerDto,
+  UpdateHouseholdDto,
+  UpdateHouseholdMemberDto,
+  UpdateHouseholdShoppingItemDto,
+} from "./dto";
+
+@ApiTags("households")
+@Controller("households")
+@UseGuards(AuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class HouseholdController {
+  constructor(
+    private readonly householdService: HouseholdService,
+    private readonly householdMealService: HouseholdMealService,
+    private readonly householdShoppingService: HouseholdShoppingService
+  ) {}
+
+  // ============== HOUSEHOLD ==============
+
+  @Post()
+  @ApiOperation({ summary: "Create a household; I become its owner" })
+  @ApiBody({ type: CreateHouseholdDto })
+  @ApiResponse({ status: 201, description: "Household with its invite code" })
+  @ApiResponse({ status: 409, description: "Already in a household" })
+  async create(@Request() req: any, @Body() body: CreateHouseholdDto) {
+    return this.householdService.create(req.user._id.toString(), body);
+  }
+
+  @Get("me")
+  @ApiOperation({ summary: "My household and its members" })
+  @ApiResponse({ status: 200, description: "Household" })
+  @ApiResponse({ status: 404, description: "Not in a household" })
+  async getMine(@Request() req: any) {
+    return this.householdService.getMine(req.user._id.toString());
+  }
+
+  @Patch("me")
+  @ApiOperation({ summary: "Rename the household (owner)" })
+  @ApiBody({ type: UpdateHouseholdDto })
+  @ApiResponse({ status: 200, description: "Household updated" })
+  @ApiResponse({ status: 403, description: "Not the owner" })
+  async update(@Request() req: any, @Body() body: UpdateHouseholdDto) {
+    return this.householdService.update(req.user._id.toString(), body);
+  }
+
+  @Delete("me")
+  @ApiOperation({
+    summary: "Delete the household (owner)",
+    description: "Shared dinners and the shopping list go with it; members' own plans stay.",
+  })
+  @ApiResponse({ status: 200, description: "Household deleted" })
+  @ApiResponse({ status: 403, description: "Not the owner" })
+  async remove(@Request() req: any) {
+    return this.householdService.remove(req.user._id.toString());
+  }
+
+  @Post("me/invite-code")
+  @ApiOperation({ summary: "Replace the invite code (owner)" })
+  @ApiResponse({ status: 201, description: "New invite code" })
+  @ApiResponse({ status: 403, description: "Not the owner" })
+  async regenerateInviteCode(@Request() req: any) {
+    return this.householdService.regenerateInviteCode(req.user._id.toString());
+  }
+
+  @Post("join")
+  @ApiOperation({ summary: "Join a household with its invite code" })
+  @ApiBody({ type: JoinHouseholdDto })
+  @ApiResponse({ status: 201, description: "Joined the household" })
+  @ApiResponse({ status: 404, description: "Household not found" })
+  @ApiResponse({ status: 409, description: "Already in a household or the household is full" })
+  async join(@Request() req: any, @Body() body: JoinHouseholdDto) {
+    return this.householdService.join(req.user._id.toString(), body.code);
+  }
+
+  @Post("me/leave")
+  @ApiOperation({
+    summary: "Leave my household",
+    description:
+      "An owner hands the household to the longest-standing other account member; " +
+      "if there is none the household is deleted.",
+  })
+  @ApiResponse({ status: 201, description: "Left the household" })
+  @ApiResponse({ status: 404, description: "Not in a household" })
+  async leave(@Request() req: any) {
+    return this.householdService.leave(req.user._id.toString());
+  }
+
+  @Post("me/members")
+  @ApiOperation({ summary: "Add a member without an account, e.g. a child (owner)" })
+  @ApiBody({ type: AddHouseholdMemberDto })
+  @ApiResponse({ status: 201, description: "Member added" })
+  @ApiResponse({ status: 403, description: "Not the owner" })
+  @ApiResponse({ status: 409, description: "Household is full" })
+  async addMember(@Request() req: any, @Body() body: AddHouseholdMemberDto) {
+    return this.householdService.addMember(req.user._id.toString(), body);
+  }
+
+  @Patch("me/members/:memberId")
+  @ApiOperation({
+    summary: "Update a member's calorie target, allergies or restrictions",
+    description: "The owner can update anyone; other members only themselves.",
+  })
+  @ApiParam({ name: "memberId", description: "Member ID" })
+  @ApiBody({ type: UpdateHouseholdMemberDto })
+  @ApiResponse({ status: 200, description: "Member updated" })
+  @ApiResponse({ status: 403, description: "Not allowed to change this member" })
+  @ApiResponse({ status: 404, description: "Member not found" })
+  async updateMember(
+    @Request() req: any,
+    @Param("memberId") memberId: string,
+    @Body() body: UpdateHouseholdMemberDto
+  ) {
+    return this.householdService.updateMember(req.user._id.toString(), memberId, body);
+  }
+
+  @Delete("me/members/:memberId")
+  @ApiOperation({ summary: "Remove a member (owner)" })
+  @ApiParam({ name: "memberId", description: "Member ID" })
+  @ApiResponse({ status: 200, description: "Member removed" })
+  @ApiResponse({ status: 403, description: "Not the owner" })
+  @ApiResponse({ status: 404, description: "Member not found" })
+  async removeMember(@Request() req: any, @Param("memberId") memberId: string) {
+    return this.householdService.removeMember(req.user._id.toString(), memberId);
+  }
+
+  // ============== SHARED DINNERS ==============
+
+  @Get("me/dinners")
+  @ApiOperation({
+    summary: "Shared dinners for a range of days",
+    description: "Proposed dinners include any conflicts with members' allergies.",
+  })
+  @ApiResponse({ status: 200, description: "Dinners by day" })
+  async listDinners(@Request() req: any, @Query() query: HouseholdDateRangeDto) {
+    return this.householdMealService.list(req.user._id.toString(), query);
+  }
+
+  @Post("me/dinners/generate")
+  @UseGuards(SubscriptionGuard)
+  @RequiresFeature("aiMealSuggestions")
+  @ApiOperation({
+    summary: "Generate a dinner for everyone and propose it",
+    description:
+      "Uses every member's dietary restrictions and proposes the first suggestion that " +
+      "clears all allergies, portioned per member.",
+  })
+  @ApiBody({ type: GenerateHouseholdDinnerDto })
+  @ApiResponse({ status: 201, description: "Proposed dinner with portions" })
+  @ApiResponse({ status: 409, description: "Already accepted, or no suggestion clears every allergy" })
+  async generateDinner(@Request() req: any, @Body() body: GenerateHouseholdDinnerDto) {
+    return this.householdMealService.generate(req.user._id.toString(), body.date, body.language || "en");
+  }
+
+  @Put("me/dinners/:date")
+  @ApiOperation({ summary: "Propose a dinner of our own choosing" })
+  @ApiParam({ name: "date", description: "Day (YYYY-MM-DD)" })
+  @ApiBody({ type: SetHouseholdDinnerDto })
+  @ApiResponse({ status: 200, description: "Proposed dinner with portions and any allergy conflicts" })
+  @ApiResponse({ status: 409, description: "Already accepted" })
+  async setDinner(
+    @Request() req: any,
+    @Param("date") date: string,
+    @Body() body: SetHouseholdDinnerDto
+  ) {
+    return this.householdMealService.set(req.user._id.toString(), date, body.meal);
+  }
+
+  @Post("me/dinners/:date/accept")
+  @ApiOperation({
+    summary: "Accept the proposed dinner (owner)",
+    description:
+      "Checked against every member's allergies first. Each account member's plan gets " +
+      "their portion for that day.",
+  })
+  @ApiParam({ name: "date", description: "Day (YYYY-MM-DD)" })
+  @ApiResponse({ status: 201, description: "Dinner accepted, with the result per member plan" })
+  @ApiResponse({ status: 403, description: "Not the owner" })
+  @ApiResponse({ status: 404, description: "No proposed dinner" })
+  @ApiResponse({ status: 409, description: "Allergy conflicts, listed in `conflicts`" })
+  async acceptDinner(@Request() req: any, @Param("date") date: string) {
+    return this.householdMealService.accept(req.user._id.toString(), date);
+  }
+
+  @Delete("me/dinners/:date")
+  @ApiOperation({ summary: "Drop a proposed dinner" })
+  @ApiParam({ name: "date", description: "Day (YYYY-MM-DD)" })
+  @ApiResponse({ status: 200, description: "Dinner deleted" })
+  @ApiResponse({ status: 409, description: "Already accepted" })
+  async removeDinner(@Request() req: any, @Param("date") date: string) {
+    return this.householdMealService.remove(req.user._id.toString(), date);
+  }
+
+  // ============== SHOPPING LIST ==============
+
+  @Post("me/shopping-list")
+  @ApiOperation({
+    summary: "Build the household shopping list",
+    description:
+      "Accepted shared dinners for everyone plus account members' other planned meals " +
+      "for the range (default: a week from today).",
+  })
+  @ApiResponse({ status: 201, description: "Shopping list" })
+  async generateShoppingList(@Request() req: any, @Query() query: HouseholdDateRangeDto) {
+    return this.householdShoppingService.generate(req.user._id.toString(), query);
+  }
+
+  @Get("me/shopping-list")
+  @ApiOperation({ summary: "The household shopping list" })
+  @ApiResponse({ status: 200, description: "Shopping list" })
+  @ApiResponse({ status: 404, description: "Not built yet" })
+  async getShoppingList(@Request() req: any) {
+    return this.householdShoppingService.get(req.user._id.toString());
+  }
+
+  @Put("me/shopping-list/items")
+  @ApiOperation({ summary: "Tick an item off (or back on)" })
+  @ApiBody({ type: UpdateHouseholdShoppingItemDto })
+  @ApiResponse({ status: 200, description: "Shopping list" })
+  @ApiResponse({ status: 404, description: "Item not found" })
+  async updateShoppingItem(@Request() req: any, @Body() body: UpdateHouseholdShoppingItemDto) {
+    return this.householdShoppingService.setItemDone(req.user._id.toString(), body);
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from "@nestjs/common";
+import { AllergyConflict } from "../utils/householdMeals";
+
+/**
+ * 409 — a dinner contains something a member is allergic to
+ */
+export class AllergyConflictException extends HttpException {
+  constructor(
+    readonly conflicts: AllergyConflict[],
+    message: string = "This dinner conflicts with a member's allergies"
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.CONFLICT,
+        error: "Conflict",
+        message,
+        conflicts,
+      },
+      HttpStatus.CONFLICT
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Someone the household cooks for. Members with an account have a userId;
+ * children and others without one are added by the owner.
+ */
+export interface IHouseholdMember {
+  _id: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  name: string;
+  // Daily calories; account members without one use their plan's target
+  calorieTarget?: number;
+  // Account members' profile allergies and restrictions are checked as well
+  allergies: string[];
+  dietaryRestrictions: string[];
+  joinedAt: Date;
+}
+
+/**
+ * People who share dinners and a shopping list. Each account belongs to at
+ * most one household.
+ */
+export interface IHousehold extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  ownerId: mongoose.Types.ObjectId;
+  // For account holders to join; the owner can replace it
+  inviteCode: string;
+  members: IHouseholdMember[];
+  // Account members, kept in step with members so an account can be in one household only
+  memberUserIds: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const Household = { name: "Household" };
+
+export const MAX_HOUSEHOLD_MEMBERS = 12;
+
+const householdMemberSchema = new Schema<IHouseholdMember>({
+  userId: { type: Schema.Types.ObjectId, ref: "User" },
+  name: { type: String, required: true, maxlength: 60 },
+  calorieTarget: { type: Number, min: 500, max: 6000 },
+  allergies: { type: [String], default: [] },
+  dietaryRestrictions: { type: [String], default: [] },
+  joinedAt: { type: Date, default: Date.now },
+});
+
+const householdSchema = new Schema<IHousehold>(
+  {
+    name: { type: String, required: true, maxlength: 80 },
+    ownerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    inviteCode: { type: String, required: true },
+    members: { type: [householdMemberSchema], default: [] },
+    memberUserIds: { type: [Schema.Types.ObjectId], ref: "User", default: [] },
+  },
+  {
+    timestamps: true,
+    collection: "households",
+  }
+);
+
+householdSchema.index({ inviteCode: 1 }, { unique: true });
+// One household per account (members without an account have no userId, so
+// the unique index is on the separate list of account IDs)
+householdSchema.index({ memberUserIds: 1 }, { unique: true });
+
+export const HouseholdSchema = householdSchema;
@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { User, UserSchema } from "../user/user.model";
+import { Plan, PlanSchema } from "../plan/plan.model";
+import { PlanModule } from "../plan/plan.module";
+import { GeneratorModule } from "../generator/generator.module";
+import { Household, HouseholdSchema } from "./household.model";
+import { HouseholdMeal, HouseholdMealSchema } from "./household-meal.model";
+import {
+  HouseholdShoppingList,
+  HouseholdShoppingListSchema,
+} from "./household-shopping-list.model";
+import { HouseholdService } from "./household.service";
+import { HouseholdMealService } from "./household-meal.service";
+import { HouseholdShoppingService } from "./household-shopping.service";
+import { HouseholdController } from "./household.controller";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Household.name, schema: HouseholdSchema },
+      { name: HouseholdMeal.name, schema: HouseholdMealSchema },
+      { name: HouseholdShoppingList.name, schema: HouseholdShoppingListSchema },
+      { name: User.name, schema: UserSchema },
+      { name: Plan.name, schema: PlanSchema },
+    ]),
+    PlanModule,
+    GeneratorModule,
+  ],
+  controllers: [HouseholdController],
+  providers: [HouseholdService, HouseholdMealService, HouseholdShoppingService],
+  exports: [HouseholdService],
+})
+export class HouseholdModule {}
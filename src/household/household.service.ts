@@ -0,0 +1,377 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { Household, IHousehold, IHouseholdMember, MAX_HOUSEHOLD_MEMBERS } from "./household.model";
+import { HouseholdMeal, IHouseholdMeal } from "./household-meal.model";
+import {
+  HouseholdShoppingList,
+  IHouseholdShoppingList,
+} from "./household-shopping-list.model";
+import { HouseholdModels, removeAccountFromHousehold } from "./household-membership";
+import { User } from "../user/user.model";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
+import { IPlan, IUserData } from "../types/interfaces";
+import {
+  AddHouseholdMemberDto,
+  CreateHouseholdDto,
+  UpdateHouseholdDto,
+  UpdateHouseholdMemberDto,
+} from "./dto";
+import { isMongoObjectIdString } from "../utils/mongoObjectId";
+import { generateInviteCode, normalizeInviteCode } from "../utils/inviteCode";
+import logger from "../utils/logger";
+
+const INVITE_CODE_ATTEMPTS = 5;
+// Daily calories for a member with no target, plan or TDEE
+export const DEFAULT_MEMBER_CALORIES = 2000;
+
+/**
+ * A member as meals are planned for them: their own settings merged with the
+ * profile and current plan of their account
+ */
+export interface ResolvedHouseholdMember {
+  memberId: string;
+  userId?: string;
+  name: string;
+  dailyCalories: number;
+  allergies: string[];
+  dietaryRestrictions: string[];
+}
+
+const isDuplicateKey = (error: any, field: string) =>
+  error?.code === 11000 && Boolean(error.keyPattern?.[field] ?? error.keyValue?.[field]);
+
+const uniqueStrings = (values: string[]) => [
+  ...new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean)),
+];
+
+/**
+ * Households: people who share dinners and a shopping list. The owner manages
+ * the household and its members without an account; account holders join with
+ * the invite code and can only be in one household.
+ */
+@Injectable()
+export class HouseholdService {
+  constructor(
+    @InjectModel(Household.name) private householdModel: Model<IHousehold>,
+    @InjectModel(HouseholdMeal.name) private mealModel: Model<IHouseholdMeal>,
+    @InjectModel(HouseholdShoppingList.name)
+    private shoppingListModel: Model<IHouseholdShoppingList>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    @InjectModel(Plan.name) private planModel: Model<IPlan>
+  ) {}
+
+  async create(userId: string, dto: CreateHouseholdDto) {
+    if (await this.householdModel.exists({ memberUserIds: new Types.ObjectId(userId) })) {
+      throw new ConflictException("You are already in a household");
+    }
+    const user = await this.userModel.findById(userId).select("name").lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const owner = new Types.ObjectId(userId);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const household = await this.householdModel.create({
+          name: dto.name,
+          ownerId: owner,
+          inviteCode: generateInviteCode(),
+          members: [{ userId: owner, name: user.name || "Me" }],
+          memberUserIds: [owner],
+        });
+        logger.info(`[Household] User ${userId} created household ${household._id}`);
+        return this.toView(household.toObject(), userId);
+      } catch (error: any) {
+        if (isDuplicateKey(error, "memberUserIds")) {
+          throw new ConflictException("You are already in a household");
+        }
+        if (!isDuplicateKey(error, "inviteCode") || attempt >= INVITE_CODE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async getMine(userId: string) {
+    return this.toView(await this.findForUser(userId), userId);
+  }
+
+  async update(userId: string, dto: UpdateHouseholdDto) {
+    const household = await this.findOwned(userId);
+    const updated = await this.householdModel
+      .findByIdAndUpdate(household._id, { $set: { ...(dto.name && { name: dto.name }) } }, { new: true })
+      .lean();
+    return this.toView(updated, userId);
+  }
+
+  /**
+   * Delete the household with its dinners and shopping list. Members' own
+   * plans are not touched.
+   */
+  async remove(userId: string) {
+    const household = await this.findOwned(userId);
+    await this.mealModel.deleteMany({ householdId: household._id });
+    await this.shoppingListModel.deleteMany({ householdId: household._id });
+    await this.householdModel.deleteOne({ _id: household._id });
+    logger.info(`[Household] Household ${household._id} deleted by ${userId}`);
+    return { deleted: true };
+  }
+
+  /**
+   * Replace the invite code so the old one can no longer be used
+   */
+  async regenerateInviteCode(userId: string) {
+    const household = await this.findOwned(userId);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const updated = await this.householdModel
+          .findByIdAndUpdate(household._id, { $set: { inviteCode: generateInviteCode() } }, { new: true })
+          .lean();
+        return { inviteCode: updated.inviteCode };
+      } catch (error: any) {
+        if (!isDuplicateKey(error, "inviteCode") || attempt >= INVITE_CODE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async join(userId: string, code: string) {
+    const userObjectId = new Types.ObjectId(userId);
+    if (await this.householdModel.exists({ memberUserIds: userObjectId })) {
+      throw new ConflictException("You are already in a household");
+    }
+    const user = await this.userModel.findById(userId).select("name").lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    let household: IHousehold;
+    try {
+      household = await this.householdModel
+        .findOneAndUpdate(
+          {
+            inviteCode: normalizeInviteCode(code),
+            [`members.${MAX_HOUSEHOLD_MEMBERS - 1}`]: { $exists: false },
+          },
+          {
+            $push: { members: { userId: userObjectId, name: user.name || "Member" } },
+            $addToSet: { memberUserIds: userObjectId },
+          },
+          { new: true }
+        )
+        .lean();
+    } catch (error: any) {
+      if (isDuplicateKey(error, "memberUserIds")) {
+        throw new ConflictException("You are already in a household");
+      }
+      throw error;
+    }
+    if (!household) {
+      if (await this.householdModel.exists({ inviteCode: normalizeInviteCode(code) })) {
+        throw new ConflictException(`A household can have at most ${MAX_HOUSEHOLD_MEMBERS} members`);
+      }
+      throw new NotFoundException("Household not found");
+    }
+    logger.info(`[Household] User ${userId} joined household ${household._id}`);
+    return this.toView(household, userId);
+  }
+
+  /**
+   * Leave the household. An owner hands it to the longest-standing other
+   * account member; the last account member leaving deletes it.
+   */
+  async leave(userId: string) {
+    const result = await removeAccountFromHousehold(this.householdModels(), userId);
+    if (result === "none") {
+      throw new NotFoundException("You are not in a household");
+    }
+    return { left: true, householdDeleted: result === "deleted" };
+  }
+
+  /**
+   * Add someone without an account (a child, a partner who does not use the app)
+   */
+  async addMember(userId: string, dto: AddHouseholdMemberDto) {
+    const household = await this.findOwned(userId);
+    const updated = await this.householdModel
+      .findOneAndUpdate(
+        { _id: household._id, [`members.${MAX_HOUSEHOLD_MEMBERS - 1}`]: { $exists: false } },
+        {
+          $push: {
+            members: {
+              name: dto.name,
+              calorieTarget: dto.calorieTarget,
+              allergies: uniqueStrings(dto.allergies || []),
+              dietaryRestrictions: uniqueStrings(dto.dietaryRestrictions || []),
+            },
+          },
+        },
+        { new: true }
+      )
+      .lean();
+    if (!updated) {
+      throw new ConflictException(`A household can have at most ${MAX_HOUSEHOLD_MEMBERS} members`);
+    }
+    return this.toView(updated, userId);
+  }
+
+  /**
+   * The owner can update anyone; account members can update themselves
+   */
+  async updateMember(userId: string, memberId: string, dto: UpdateHouseholdMemberDto) {
+    const household = await this.findForUser(userId);
+    const member = this.findMember(household, memberId);
+    const isOwner = household.ownerId.toString() === userId;
+    if (!isOwner && member.userId?.toString() !== userId) {
+      throw new ForbiddenException("Only the owner can change other members");
+    }
+
+    const set: Record<string, unknown> = {};
+    if (dto.name !== undefined) set["members.$.name"] = dto.name;
+    if (dto.calorieTarget !== undefined) set["members.$.calorieTarget"] = dto.calorieTarget;
+    if (dto.allergies !== undefined) set["members.$.allergies"] = uniqueStrings(dto.allergies);
+    if (dto.dietaryRestrictions !== undefined) {
+      set["members.$.dietaryRestrictions"] = uniqueStrings(dto.dietaryRestrictions);
+    }
+    const updated = await this.householdModel
+      .findOneAndUpdate({ _id: household._id, "members._id": member._id }, { $set: set }, { new: true })
+      .lean();
+    if (!updated) {
+      throw new NotFoundException("Member not found");
+    }
+    return this.toView(updated, userId);
+  }
+
+  async removeMember(userId: string, memberId: string) {
+    const household = await this.findOwned(userId);
+    const member = this.findMember(household, memberId);
+    if (member.userId?.toString() === userId) {
+      throw new BadRequestException("Leave the household instead of removing yourself");
+    }
+
+    const updated = await this.householdModel
+      .findByIdAndUpdate(
+        household._id,
+        {
+          $pull: {
+            members: { _id: member._id },
+            ...(member.userId && { memberUserIds: member.userId }),
+          },
+        },
+        { new: true }
+      )
+      .lean();
+    await this.mealModel.updateMany(
+      { householdId: household._id },
+      { $pull: { portions: { memberId: member._id } } }
+    );
+    return this.toView(updated, userId);
+  }
+
+  // ============== HELPERS FOR DINNERS AND SHOPPING ==============
+
+  async findForUser(userId: string) {
+    const household = await this.householdModel
+      .findOne({ memberUserIds: new Types.ObjectId(userId) })
+      .lean();
+    if (!household) {
+      throw new NotFoundException("You are not in a household");
+    }
+    return household;
+  }
+
+  /**
+   * Members with everything meals are planned by. Account members add their
+   * profile allergies and restrictions; without their own calorie target they
+   * get their current plan's target, then their TDEE.
+   */
+  async resolveMembers(household: Pick<IHousehold, "members">): Promise<ResolvedHouseholdMember[]> {
+    const userIds = household.members.filter((m) => m.userId).map((m) => m.userId);
+    const [users, plans] = await Promise.all([
+      this.userModel
+        .find({ _id: { $in: userIds } })
+        .select("allergies dietaryRestrictions tdee")
+        .lean(),
+      this.planModel
+        .find({ ...currentPlanQuery({ $in: userIds }) })
+        .select("userId userMetrics.targetCalories")
+        .lean(),
+    ]);
+    const usersById = new Map(users.map((user: any) => [user._id.toString(), user]));
+    const targetsByUser = new Map(
+      plans.map((plan: any) => [plan.userId.toString(), plan.userMetrics?.targetCalories])
+    );
+
+    return household.members.map((member) => {
+      const userId = member.userId?.toString();
+      const user: any = userId ? usersById.get(userId) : undefined;
+      return {
+        memberId: member._id.toString(),
+        ...(userId && { userId }),
+        name: member.name,
+        dailyCalories:
+          member.calorieTarget ||
+          (userId && targetsByUser.get(userId)) ||
+          user?.tdee ||
+          DEFAULT_MEMBER_CALORIES,
+        allergies: uniqueStrings([...(member.allergies || []), ...(user?.allergies || [])]),
+        dietaryRestrictions: uniqueStrings([
+          ...(member.dietaryRestrictions || []),
+          ...(user?.dietaryRestrictions || []),
+        ]),
+      };
+    });
+  }
+
+  private householdModels(): HouseholdModels {
+    return {
+      household: this.householdModel,
+      meal: this.mealModel,
+      shoppingList: this.shoppingListModel,
+    };
+  }
+
+  private async findOwned(userId: string) {
+    const household = await this.findForUser(userId);
+    if (household.ownerId.toString() !== userId) {
+      throw new ForbiddenException("Only the household owner can do this");
+    }
+    return household;
+  }
+
+  private findMember(household: Pick<IHousehold, "members">, memberId: string): IHouseholdMember {
+    const member = isMongoObjectIdString(memberId)
+      ? household.members.find((m) => m._id.toString() === memberId)
+      : undefined;
+    if (!member) {
+      throw new NotFoundException("Member not found");
+    }
+    return member;
+  }
+
+  private toView(household: any, userId: string) {
+    const isOwner = household.ownerId.toString() === userId;
+    return {
+      id: household._id.toString(),
+      name: household.name,
+      ownerId: household.ownerId.toString(),
+      isOwner,
+      // Only the owner hands out the code
+      ...(isOwner && { inviteCode: household.inviteCode }),
+      members: household.members.map((member: IHouseholdMember) => ({
+        id: member._id.toString(),
+        userId: member.userId?.toString(),
+        name: member.name,
+        calorieTarget: member.calorieTarget,
+        allergies: member.allergies,
+        dietaryRestrictions: member.dietaryRestrictions,
+        joinedAt: member.joinedAt,
+      })),
+      createdAt: household.createdAt,
+    };
+  }
+}
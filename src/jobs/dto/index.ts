@@ -0,0 +1 @@
+export * from "./job-query.dto";
@@ -0,0 +1,48 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, IsIn, IsInt, Min, Max } from "class-validator";
+import { Type } from "class-transformer";
+
+export class JobListQueryDto {
+  @ApiPropertyOptional({ description: "Job name, e.g. engagement.weekly-summaries" })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ enum: ["scheduled", "running", "completed", "failed"] })
+  @IsOptional()
+  @IsIn(["scheduled", "running", "completed", "failed"])
+  status?: "scheduled" | "running" | "completed" | "failed";
+
+  @ApiPropertyOptional({ enum: ["recurring", "once"] })
+  @IsOptional()
+  @IsIn(["recurring", "once"])
+  kind?: "recurring" | "once";
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class JobRunsQueryDto {
+  @ApiPropertyOptional({ description: "Job name" })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ enum: ["succeeded", "failed"] })
+  @IsOptional()
+  @IsIn(["succeeded", "failed"])
+  status?: "succeeded" | "failed";
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IJobRun extends Document {
+  jobId: mongoose.Types.ObjectId;
+  name: string;
+  attempt: number;
+  worker: string;
+  status: "succeeded" | "failed";
+  error?: string;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const JobRun = { name: "JobRun" };
+
+// History: one document per job execution attempt
+const jobRunSchema = new Schema<IJobRun>(
+  {
+    jobId: { type: Schema.Types.ObjectId, ref: "Job", required: true },
+    name: { type: String, required: true },
+    attempt: { type: Number, required: true },
+    worker: { type: String, required: true },
+    status: { type: String, enum: ["succeeded", "failed"], required: true },
+    error: { type: String },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, required: true },
+    durationMs: { type: Number, required: true },
+  },
+  {
+    timestamps: true,
+    collection: "job_runs",
+  }
+);
+
+jobRunSchema.index({ name: 1, startedAt: -1 });
+jobRunSchema.index({ jobId: 1, startedAt: -1 });
+// Keep 30 days of run history
+jobRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const JobRunSchema = jobRunSchema;
@@ -0,0 +1,411 @@
+import {
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import os from "os";
+import { randomBytes } from "crypto";
+import { Job, IJob, JobStatus } from "./job.model";
+import { JobRun, IJobRun } from "./job-run.model";
+import { JobListQueryDto, JobRunsQueryDto } from "./dto";
+import { getNextCronRun } from "../utils/cron";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+export type JobHandler<T = any> = (data: T, job: IJob) => Promise<unknown>;
+
+export interface JobHandlerOptions {
+  maxAttempts?: number; // including the first run
+  backoffMs?: number; // delay before the first retry; doubles per attempt
+}
+
+export interface ScheduleJobOptions {
+  runAt?: Date;
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const LOCK_MS = 5 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 15 * 1000;
+const MAX_CONCURRENT_JOBS = 3;
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * Mongo-backed job scheduler.
+ *
+ * Modules register handlers by name (usually in onModuleInit) and schedule
+ * either recurring cron jobs or one-off delayed jobs. Every instance polls the
+ * jobs collection; a job is claimed with an atomic findOneAndUpdate that sets
+ * a lock, so only one instance runs it. The lock is renewed while the handler
+ * runs and a lock left behind by a crashed instance expires and is reclaimed.
+ * Failed runs are retried with exponential backoff and every attempt is
+ * recorded in job_runs.
+ *
+ * Set JOB_WORKER_ENABLED=false to schedule jobs from an instance without
+ * running them there.
+ */
+@Injectable()
+export class JobSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly handlers = new Map<string, RegisteredHandler>();
+  private readonly workerId = `${os.hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+  private readonly pollIntervalMs =
+    Number(process.env.JOB_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollAgain = false;
+  private running = 0;
+  private stopped = true;
+
+  constructor(
+    @InjectModel(Job.name) private jobModel: Model<IJob>,
+    @InjectModel(JobRun.name) private jobRunModel: Model<IJobRun>
+  ) {}
+
+  onApplicationBootstrap() {
+    if (process.env.JOB_WORKER_ENABLED === "false") {
+      logger.info("[JobScheduler] Worker disabled on this instance");
+      return;
+    }
+    this.stopped = false;
+    logger.info(
+      `[JobScheduler] Worker ${this.workerId} polling every ${this.pollIntervalMs}ms for: ${[...this.handlers.keys()].join(", ")}`
+    );
+    this.schedulePoll(0);
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Register the handler that runs jobs with this name
+   */
+  registerHandler<T = any>(
+    name: string,
+    handler: JobHandler<T>,
+    options: JobHandlerOptions = {}
+  ): void {
+    if (this.handlers.has(name)) {
+      throw new Error(`Job handler "${name}" is already registered`);
+    }
+    this.handlers.set(name, {
+      handler,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      backoffMs: options.backoffMs ?? DEFAULT_BACKOFF_MS,
+    });
+  }
+
+  /**
+   * Create or update a recurring job. Safe to call from every instance on
+   * startup; the next run is only recomputed when the cron expression changes.
+   */
+  async scheduleRecurring(name: string, cron: string): Promise<void> {
+    const nextRunAt = getNextCronRun(cron);
+    const maxAttempts = this.handlers.get(name)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    try {
+      const existing = await this.jobModel.findOne({ name, kind: "recurring" });
+      if (!existing) {
+        await this.jobModel.create({
+          name,
+          kind: "recurring",
+          cron,
+          runAt: nextRunAt,
+          maxAttempts,
+        });
+        logger.info(`[JobScheduler] Scheduled ${name} (${cron}), first run ${nextRunAt.toISOString()}`);
+        return;
+      }
+
+      if (existing.cron !== cron || existing.maxAttempts !== maxAttempts) {
+        await this.jobModel.updateOne(
+          { _id: existing._id },
+          {
+            $set: {
+              cron,
+              maxAttempts,
+              ...(existing.cron !== cron && existing.status === "scheduled"
+                ? { runAt: nextRunAt }
+                : {}),
+            },
+          }
+        );
+        logger.info(`[JobScheduler] Updated schedule for ${name} to ${cron}`);
+      }
+    } catch (error: any) {
+      // Another instance created it at the same moment
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  /**
+   * Schedule a one-off job, immediately or after a delay
+   */
+  async schedule<T extends Record<string, any>>(
+    name: string,
+    data: T,
+    options: ScheduleJobOptions = {}
+  ): Promise<IJob> {
+    const runAt =
+      options.runAt ?? new Date(Date.now() + Math.max(options.delayMs ?? 0, 0));
+    const job = await this.jobModel.create({
+      name,
+      kind: "once",
+      data,
+      runAt,
+      maxAttempts:
+        options.maxAttempts ??
+        this.handlers.get(name)?.maxAttempts ??
+        DEFAULT_MAX_ATTEMPTS,
+    });
+
+    // Due now and we can run it: don't wait for the next poll
+    if (runAt.getTime() <= Date.now() && this.handlers.has(name)) {
+      this.schedulePoll(0);
+    }
+    return job;
+  }
+
+  /**
+   * Make a recurring job due now (admin trigger)
+   */
+  async triggerNow(name: string): Promise<IJob> {
+    const job = await this.jobModel.findOneAndUpdate(
+      { name, kind: "recurring", status: "scheduled" },
+      { $set: { runAt: new Date() } },
+      { new: true }
+    );
+    if (!job) {
+      throw new NotFoundException(`No scheduled recurring job named ${name}`);
+    }
+    this.schedulePoll(0);
+    return job;
+  }
+
+  async listJobs(query: JobListQueryDto) {
+    const filter: Record<string, unknown> = {};
+    if (query.name) filter.name = query.name;
+    if (query.status) filter.status = query.status;
+    if (query.kind) filter.kind = query.kind;
+
+    return this.jobModel
+      .find(filter)
+      .select("-data")
+      .sort({ runAt: -1 })
+      .limit(query.limit ?? 50)
+      .lean();
+  }
+
+  async getRunHistory(query: JobRunsQueryDto) {
+    const filter: Record<string, unknown> = {};
+    if (query.name) filter.name = query.name;
+    if (query.status) filter.status = query.status;
+
+    return this.jobRunModel
+      .find(filter)
+      .sort({ startedAt: -1 })
+      .limit(query.limit ?? 50)
+      .lean();
+  }
+
+  /**
+   * Claim and start due jobs until none are left or the concurrency limit is
+   * reached. Returns the number of jobs started.
+   */
+  async runDueJobs(): Promise<number> {
+    let started = 0;
+    while (this.running < MAX_CONCURRENT_JOBS) {
+      const job = await this.claimNextJob();
+      if (!job) break;
+      started++;
+      this.running++;
+      this.execute(job).finally(() => {
+        this.running--;
+        if (!this.stopped) this.schedulePoll(0);
+      });
+    }
+    return started;
+  }
+
+  private schedulePoll(delayMs: number) {
+    if (this.stopped) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), delayMs);
+    this.pollTimer.unref?.();
+  }
+
+  private async poll() {
+    this.pollTimer = null;
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+    this.polling = true;
+    this.pollAgain = false;
+    try {
+      await this.runDueJobs();
+    } catch (error) {
+      logger.error(`[JobScheduler] Poll failed: ${getErrorMessage(error)}`);
+    } finally {
+      this.polling = false;
+      if (!this.pollTimer) {
+        this.schedulePoll(this.pollAgain ? 0 : this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async claimNextJob(): Promise<IJob | null> {
+    if (this.handlers.size === 0) return null;
+    const now = new Date();
+
+    return this.jobModel.findOneAndUpdate(
+      {
+        name: { $in: [...this.handlers.keys()] },
+        $or: [
+          { status: "scheduled", runAt: { $lte: now } },
+          // Lock left behind by an instance that died mid-run
+          { status: "running", lockedUntil: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: "running",
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + LOCK_MS),
+          lastRunAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  private async execute(job: IJob): Promise<void> {
+    const registered = this.handlers.get(job.name);
+    if (!registered) return;
+
+    const startedAt = new Date();
+    const heartbeat = setInterval(() => {
+      this.jobModel
+        .updateOne(
+          { _id: job._id, lockedBy: this.workerId },
+          { $set: { lockedUntil: new Date(Date.now() + LOCK_MS) } }
+        )
+        .catch((error) =>
+          logger.warn(`[JobScheduler] Could not renew lock for ${job.name}: ${getErrorMessage(error)}`)
+        );
+    }, HEARTBEAT_MS);
+    heartbeat.unref?.();
+
+    let error: unknown = null;
+    try {
+      await registered.handler(job.data ?? {}, job);
+    } catch (err) {
+      error = err;
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    const finishedAt = new Date();
+    const message = error ? getErrorMessage(error).slice(0, MAX_ERROR_LENGTH) : undefined;
+
+    try {
+      await this.jobRunModel.create({
+        jobId: job._id,
+        name: job.name,
+        attempt: job.attempts,
+        worker: this.workerId,
+        status: error ? "failed" : "succeeded",
+        error: message,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      });
+      await this.jobModel.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        this.buildCompletionUpdate(job, registered, finishedAt, message)
+      );
+    } catch (err) {
+      logger.error(`[JobScheduler] Could not record run of ${job.name}: ${getErrorMessage(err)}`);
+    }
+
+    if (error) {
+      logger.error(
+        `[JobScheduler] ${job.name} failed (attempt ${job.attempts}/${job.maxAttempts}): ${message}`
+      );
+    } else {
+      logger.info(
+        `[JobScheduler] ${job.name} succeeded in ${finishedAt.getTime() - startedAt.getTime()}ms`
+      );
+    }
+  }
+
+  private buildCompletionUpdate(
+    job: IJob,
+    registered: RegisteredHandler,
+    now: Date,
+    error?: string
+  ) {
+    const unlock = { lockedBy: 1, lockedUntil: 1 };
+
+    if (!error) {
+      return job.kind === "recurring"
+        ? {
+            $set: { status: "scheduled" as JobStatus, runAt: getNextCronRun(job.cron!, now), attempts: 0 },
+            $unset: { ...unlock, lastError: 1 },
+          }
+        : {
+            $set: { status: "completed" as JobStatus, completedAt: now },
+            $unset: unlock,
+          };
+    }
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = Math.min(
+        registered.backoffMs * 2 ** (job.attempts - 1),
+        MAX_BACKOFF_MS
+      );
+      return {
+        $set: {
+          status: "scheduled" as JobStatus,
+          runAt: new Date(now.getTime() + delay),
+          lastError: error,
+        },
+        $unset: unlock,
+      };
+    }
+
+    // Out of attempts: recurring jobs wait for their next slot, one-off jobs fail
+    return job.kind === "recurring"
+      ? {
+          $set: {
+            status: "scheduled" as JobStatus,
+            runAt: getNextCronRun(job.cron!, now),
+            attempts: 0,
+            lastError: error,
+          },
+          $unset: unlock,
+        }
+      : {
+          $set: { status: "failed" as JobStatus, completedAt: now, lastError: error },
+          $unset: unlock,
+        };
+  }
+}
@@ -0,0 +1,66 @@
+import { Schema, Document } from "mongoose";
+
+export type JobKind = "recurring" | "once";
+export type JobStatus = "scheduled" | "running" | "completed" | "failed";
+
+export interface IJob extends Document {
+  name: string; // handler name, e.g. "eating-profile.weekly-analysis"
+  kind: JobKind;
+  cron?: string; // recurring jobs only (UTC)
+  data?: Record<string, any>;
+  status: JobStatus;
+  runAt: Date; // next time the job is due
+  attempts: number; // attempts for the current run, reset after success
+  maxAttempts: number;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastRunAt?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const Job = { name: "Job" };
+
+// Recurring jobs have one document per name; one-off jobs one per scheduled run
+const jobSchema = new Schema<IJob>(
+  {
+    name: { type: String, required: true },
+    kind: { type: String, enum: ["recurring", "once"], required: true },
+    cron: { type: String },
+    data: { type: Schema.Types.Mixed },
+    status: {
+      type: String,
+      enum: ["scheduled", "running", "completed", "failed"],
+      default: "scheduled",
+    },
+    runAt: { type: Date, required: true },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    lockedBy: { type: String },
+    lockedUntil: { type: Date },
+    lastRunAt: { type: Date },
+    lastError: { type: String },
+    completedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "jobs",
+  }
+);
+
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, lockedUntil: 1 });
+jobSchema.index(
+  { name: 1 },
+  { unique: true, partialFilterExpression: { kind: "recurring" } }
+);
+// Finished one-off jobs are kept for 30 days; their runs stay in job_runs
+jobSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
+
+export const JobSchema = jobSchema;
@@ -0,0 +1,46 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { JobSchedulerService } from "./job-scheduler.service";
+import { JobListQueryDto, JobRunsQueryDto } from "./dto";
+
+@ApiTags("admin")
+@Controller("admin/jobs")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class JobsController {
+  constructor(private readonly jobScheduler: JobSchedulerService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List scheduled, running and finished jobs" })
+  @ApiResponse({ status: 200, description: "Jobs, most recent first" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async listJobs(@Query() query: JobListQueryDto) {
+    return this.jobScheduler.listJobs(query);
+  }
+
+  @Get("runs")
+  @ApiOperation({ summary: "Job run history (one entry per attempt)" })
+  @ApiResponse({ status: 200, description: "Runs, most recent first" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async getRuns(@Query() query: JobRunsQueryDto) {
+    return this.jobScheduler.getRunHistory(query);
+  }
+
+  @Post(":name/trigger")
+  @ApiOperation({ summary: "Run a recurring job now instead of at its next slot" })
+  @ApiParam({ name: "name", description: "Recurring job name" })
+  @ApiResponse({ status: 201, description: "Job is due now" })
+  @ApiResponse({ status: 404, description: "No scheduled recurring job with that name" })
+  async trigger(@Param("name") name: string) {
+    return this.jobScheduler.triggerNow(name);
+  }
+}
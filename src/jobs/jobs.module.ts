@@ -0,0 +1,24 @@
+import { Global, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { User, UserSchema } from "../user/user.model";
+import { Job, JobSchema } from "./job.model";
+import { JobRun, JobRunSchema } from "./job-run.model";
+import { JobSchedulerService } from "./job-scheduler.service";
+import { JobsController } from "./jobs.controller";
+
+// Global so any module can register handlers and schedule jobs
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Job.name, schema: JobSchema },
+      { name: JobRun.name, schema: JobRunSchema },
+      // For AuthGuard on the admin routes
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [JobsController],
+  providers: [JobSchedulerService],
+  exports: [JobSchedulerService],
+})
+export class JobsModule {}
@@ -0,0 +1,29 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from "@nestjs/common";
+import { Observable } from "rxjs";
+import { runWithLlmContext } from "./llm-audit";
+
+/**
+ * Attributes AI calls made while handling a request to the authenticated
+ * user, so the call log has a user without threading ids through every
+ * generator function.
+ */
+@Injectable()
+export class AiCallContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== "http") {
+      return next.handle();
+    }
+    const userId = context.switchToHttp().getRequest().user?._id?.toString();
+    if (!userId) {
+      return next.handle();
+    }
+    return new Observable((subscriber) =>
+      runWithLlmContext({ userId }, () => next.handle().subscribe(subscriber))
+    );
+  }
+}
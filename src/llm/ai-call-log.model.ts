@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IAiCallLog extends Document {
+  feature: string;
+  provider: string;
+  modelName?: string;
+  userId?: mongoose.Types.ObjectId;
+  context?: string;
+  promptHash: string; // sha256 prefix; the prompt itself is not stored
+  promptChars: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  attempts: number;
+  retries: number;
+  rateLimitHits: number;
+  outcome: "success" | "error" | "rate_limited" | "timeout";
+  error?: string;
+  costUsd: number;
+  streamed: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const AiCallLog = { name: "AiCallLog" };
+
+// One document per LLM call, for cost and latency reporting
+const aiCallLogSchema = new Schema<IAiCallLog>(
+  {
+    feature: { type: String, required: true },
+    provider: { type: String, required: true },
+    modelName: { type: String },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    context: { type: String },
+    promptHash: { type: String, required: true },
+    promptChars: { type: Number, default: 0 },
+    inputTokens: { type: Number, default: 0 },
+    outputTokens: { type: Number, default: 0 },
+    latencyMs: { type: Number, required: true },
+    attempts: { type: Number, default: 1 },
+    retries: { type: Number, default: 0 },
+    rateLimitHits: { type: Number, default: 0 },
+    outcome: {
+      type: String,
+      enum: ["success", "error", "rate_limited", "timeout"],
+      required: true,
+    },
+    error: { type: String },
+    costUsd: { type: Number, default: 0 },
+    streamed: { type: Boolean, default: false },
+  },
+  {
+    timestamps: true,
+    collection: "ai_call_logs",
+  }
+);
+
+aiCallLogSchema.index({ createdAt: -1, feature: 1 });
+aiCallLogSchema.index({ userId: 1, createdAt: -1 });
+// Keep 90 days of call logs
+aiCallLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const AiCallLogSchema = aiCallLogSchema;
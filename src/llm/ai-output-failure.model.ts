@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IAiOutputFailure extends Document {
+  feature: string;
+  schemaName: string; // AiOutputSpec name, e.g. "plan-days"
+  provider: string;
+  modelName?: string;
+  userId?: mongoose.Types.ObjectId;
+  prompt: string;
+  rawOutput: string;
+  validationErrors: string[];
+  attempt: number; // 0 = first answer, 1+ = repair re-prompts
+  recovered: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const AiOutputFailure = { name: "AiOutputFailure" };
+
+// AI responses that failed schema validation, kept for debugging prompts
+const aiOutputFailureSchema = new Schema<IAiOutputFailure>(
+  {
+    feature: { type: String, required: true },
+    schemaName: { type: String, required: true },
+    provider: { type: String, required: true },
+    modelName: { type: String },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    prompt: { type: String, required: true },
+    rawOutput: { type: String, default: "" },
+    validationErrors: { type: [String], default: [] },
+    attempt: { type: Number, default: 0 },
+    recovered: { type: Boolean, default: false },
+  },
+  {
+    timestamps: true,
+    collection: "ai_output_failures",
+  }
+);
+
+aiOutputFailureSchema.index({ feature: 1, createdAt: -1 });
+// Keep 30 days of failures
+aiOutputFailureSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const AiOutputFailureSchema = aiOutputFailureSchema;
@@ -0,0 +1,48 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import mongoose from "mongoose";
+import { AiOutputFailure, IAiOutputFailure } from "./ai-output-failure.model";
+import {
+  AiOutputFailureReport,
+  setAiOutputFailureSink,
+} from "./structured-output";
+
+// Cap stored text so one runaway response cannot bloat the collection
+const MAX_STORED_CHARS = 50000;
+
+@Injectable()
+export class AiOutputFailureService implements OnModuleInit, OnModuleDestroy {
+  constructor(
+    @InjectModel(AiOutputFailure.name)
+    private failureModel: Model<IAiOutputFailure>
+  ) {}
+
+  onModuleInit() {
+    setAiOutputFailureSink((failures) => this.record(failures));
+  }
+
+  onModuleDestroy() {
+    setAiOutputFailureSink(null);
+  }
+
+  async record(failures: AiOutputFailureReport[]): Promise<void> {
+    await this.failureModel.insertMany(
+      failures.map((failure) => ({
+        feature: failure.feature,
+        schemaName: failure.schema,
+        provider: failure.provider,
+        modelName: failure.model,
+        userId:
+          failure.userId && mongoose.Types.ObjectId.isValid(failure.userId)
+            ? new mongoose.Types.ObjectId(failure.userId)
+            : undefined,
+        prompt: failure.prompt.slice(0, MAX_STORED_CHARS),
+        rawOutput: failure.rawOutput.slice(0, MAX_STORED_CHARS),
+        validationErrors: failure.errors,
+        attempt: failure.attempt,
+        recovered: failure.recovered,
+      }))
+    );
+  }
+}
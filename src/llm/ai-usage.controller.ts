@@ -0,0 +1,53 @@
+import { Controller, Get, HttpCode, HttpStatus, Post, Query, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../auth/auth.guard";
+import { RolesGuard, Roles } from "../auth/guards/roles.guard";
+import { AiUsageService } from "./ai-usage.service";
+import { AiUsageQueryDto } from "./dto";
+import { getRateLimiterStatus, resetRateLimiter } from "../utils/gemini-rate-limiter";
+
+@ApiTags("admin")
+@Controller("admin/ai-usage")
+@UseGuards(AuthGuard, RolesGuard)
+@Roles("admin")
+@ApiBearerAuth("JWT-auth")
+export class AiUsageController {
+  constructor(private readonly aiUsageService: AiUsageService) {}
+
+  @Get()
+  @ApiOperation({
+    summary:
+      "AI call cost, tokens and latency grouped by feature/user/day/model, with rate limiter status",
+  })
+  @ApiResponse({ status: 200, description: "Usage dashboard" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  async getUsage(@Query() query: AiUsageQueryDto) {
+    return this.aiUsageService.getUsageDashboard(query);
+  }
+
+  @Get("rate-limiter")
+  @ApiOperation({ summary: "Current Gemini rate limiter state" })
+  @ApiResponse({ status: 200, description: "Rate limiter status" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  getRateLimiter() {
+    return getRateLimiterStatus();
+  }
+
+  @Post("rate-limiter/reset")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Reset the Gemini rate limiter",
+    description: "Refills the token bucket and clears the 429 backoff, e.g. after a quota increase.",
+  })
+  @ApiResponse({ status: 200, description: "Rate limiter status after the reset" })
+  @ApiResponse({ status: 403, description: "Admin access required" })
+  resetRateLimiter() {
+    resetRateLimiter();
+    return getRateLimiterStatus();
+  }
+}
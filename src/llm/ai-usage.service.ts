@@ -0,0 +1,152 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, PipelineStage } from "mongoose";
+import mongoose from "mongoose";
+import { AiCallLog, IAiCallLog } from "./ai-call-log.model";
+import { LlmCallRecord, setLlmCallSink } from "./llm-audit";
+import { AiUsageDimension, AiUsageQueryDto } from "./dto";
+import { getRateLimiterStatus } from "../utils/gemini-rate-limiter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+const DEFAULT_GROUP_BY: AiUsageDimension[] = ["feature", "user", "day"];
+
+const DIMENSION_FIELDS: Record<AiUsageDimension, unknown> = {
+  feature: "$feature",
+  user: "$userId",
+  model: "$modelName",
+  day: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } },
+};
+
+// Sums shared by the totals and every group
+const USAGE_ACCUMULATORS = {
+  calls: { $sum: 1 },
+  failures: { $sum: { $cond: [{ $eq: ["$outcome", "success"] }, 0, 1] } },
+  inputTokens: { $sum: "$inputTokens" },
+  outputTokens: { $sum: "$outputTokens" },
+  costUsd: { $sum: "$costUsd" },
+  retries: { $sum: "$retries" },
+  rateLimitHits: { $sum: "$rateLimitHits" },
+  avgLatencyMs: { $avg: "$latencyMs" },
+  maxLatencyMs: { $max: "$latencyMs" },
+};
+
+@Injectable()
+export class AiUsageService implements OnModuleInit, OnModuleDestroy {
+  constructor(
+    @InjectModel(AiCallLog.name) private callLogModel: Model<IAiCallLog>
+  ) {}
+
+  onModuleInit() {
+    setLlmCallSink((record) => this.record(record));
+  }
+
+  onModuleDestroy() {
+    setLlmCallSink(null);
+  }
+
+  async record(record: LlmCallRecord): Promise<void> {
+    await this.callLogModel.create({
+      feature: record.feature,
+      provider: record.provider,
+      modelName: record.model,
+      userId:
+        record.userId && mongoose.Types.ObjectId.isValid(record.userId)
+          ? new mongoose.Types.ObjectId(record.userId)
+          : undefined,
+      context: record.context,
+      promptHash: record.promptHash,
+      promptChars: record.promptChars,
+      inputTokens: record.inputTokens ?? 0,
+      outputTokens: record.outputTokens ?? 0,
+      latencyMs: record.latencyMs,
+      attempts: record.attempts,
+      retries: Math.max(record.attempts - 1, 0),
+      rateLimitHits: record.rateLimitHits,
+      outcome: record.outcome,
+      error: record.error,
+      costUsd: record.costUsd,
+      streamed: record.streamed,
+    });
+  }
+
+  /**
+   * Cost, token and latency totals for a date range, grouped by the requested
+   * dimensions, plus the live Gemini rate limiter state
+   */
+  async getUsageDashboard(query: AiUsageQueryDto) {
+    const { from, to } = this.resolveRange(query);
+    const groupBy = query.groupBy?.length ? query.groupBy : DEFAULT_GROUP_BY;
+    const match: PipelineStage.Match = {
+      $match: { createdAt: { $gte: from, $lt: to } },
+    };
+
+    const groupId = Object.fromEntries(
+      groupBy.map((dimension) => [dimension, DIMENSION_FIELDS[dimension]])
+    );
+
+    const [totals, groups] = await Promise.all([
+      this.callLogModel.aggregate([
+        match,
+        { $group: { _id: null, ...USAGE_ACCUMULATORS } },
+        { $project: { _id: 0 } },
+      ]),
+      this.callLogModel.aggregate([
+        match,
+        { $group: { _id: groupId, ...USAGE_ACCUMULATORS } },
+        { $sort: { costUsd: -1, calls: -1 } },
+      ]),
+    ]);
+
+    return {
+      range: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+      },
+      groupBy,
+      totals: this.roundUsage(
+        totals[0] ?? {
+          calls: 0,
+          failures: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          costUsd: 0,
+          retries: 0,
+          rateLimitHits: 0,
+          avgLatencyMs: 0,
+          maxLatencyMs: 0,
+        }
+      ),
+      groups: groups.map(({ _id, ...usage }) => ({
+        ...Object.fromEntries(
+          Object.entries(_id).map(([key, value]) => [
+            key,
+            value instanceof mongoose.Types.ObjectId ? value.toString() : value ?? null,
+          ])
+        ),
+        ...this.roundUsage(usage),
+      })),
+      rateLimiter: getRateLimiterStatus(),
+    };
+  }
+
+  private resolveRange(query: AiUsageQueryDto): { from: Date; to: Date } {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    // "to" is inclusive of the whole day
+    const to = query.to ? new Date(`${query.to.slice(0, 10)}T00:00:00.000Z`) : today;
+    const toExclusive = new Date(to.getTime() + DAY_MS);
+    const from = query.from
+      ? new Date(`${query.from.slice(0, 10)}T00:00:00.000Z`)
+      : new Date(toExclusive.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    return { from, to: toExclusive };
+  }
+
+  private roundUsage<T extends { costUsd: number; avgLatencyMs: number }>(usage: T): T {
+    return {
+      ...usage,
+      costUsd: Math.round(usage.costUsd * 1_000_000) / 1_000_000,
+      avgLatencyMs: Math.round(usage.avgLatencyMs || 0),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsDateString, IsIn, IsArray } from "class-validator";
+import { Transform } from "class-transformer";
+
+export const AI_USAGE_DIMENSIONS = ["feature", "user", "day", "model"] as const;
+export type AiUsageDimension = (typeof AI_USAGE_DIMENSIONS)[number];
+
+export class AiUsageQueryDto {
+  @ApiPropertyOptional({
+    description: "Start date (YYYY-MM-DD, UTC). Default: 7 days ago",
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: "End date inclusive (YYYY-MM-DD, UTC). Default: today",
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: "Comma-separated dimensions to group by",
+    example: "feature,day",
+    default: "feature,user,day",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string" ? value.split(",").map((v) => v.trim()) : value
+  )
+  @IsArray()
+  @IsIn(AI_USAGE_DIMENSIONS, { each: true })
+  groupBy?: AiUsageDimension[];
+}
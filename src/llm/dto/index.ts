@@ -0,0 +1 @@
+export * from "./ai-usage-query.dto";
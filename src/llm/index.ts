@@ -0,0 +1,29 @@
+export * from "./llm.types";
+export {
+  getLlmClient,
+  getFallbackLlmClient,
+  getProvider,
+  registerLlmProvider,
+  resetLlmProviders,
+} from "./llm.registry";
+export { parseJsonText, LlmJsonParseError } from "./llm.utils";
+export {
+  AiOutputSpec,
+  AiOutputFailureReport,
+  AiOutputValidationError,
+  StructuredOutputOptions,
+  generateStructured,
+  validateStructuredOutput,
+  validateAiOutput,
+  setAiOutputFailureSink,
+} from "./structured-output";
+export { GeminiLlmProvider } from "./providers/gemini.provider";
+export { OllamaLlmProvider } from "./providers/ollama.provider";
+export { FixtureLlmProvider } from "./providers/fixture.provider";
+export {
+  LlmCallRecord,
+  LlmCallOutcome,
+  setLlmCallSink,
+  runWithLlmContext,
+} from "./llm-audit";
+export { estimateCostUsd } from "./llm.pricing";
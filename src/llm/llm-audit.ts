@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import logger from "../utils/logger";
+import {
+  getErrorMessage,
+  isRateLimitError,
+} from "../utils/gemini-rate-limiter";
+import { LlmFeature, LlmProviderName, LlmUsage } from "./llm.types";
+import { estimateCostUsd } from "./llm.pricing";
+
+/**
+ * Per-call AI audit records: every LlmClient call is timed and reported to the
+ * call sink (persisted by AiUsageService) with token counts and cost. The
+ * user is taken from the call options, else from the request context set by
+ * AiCallContextInterceptor.
+ */
+
+export type LlmCallOutcome = "success" | "error" | "rate_limited" | "timeout";
+
+export interface LlmCallRecord {
+  feature: LlmFeature;
+  provider: LlmProviderName;
+  model?: string;
+  userId?: string;
+  context?: string;
+  promptHash: string;
+  promptChars: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs: number;
+  attempts: number;
+  rateLimitHits: number;
+  outcome: LlmCallOutcome;
+  error?: string;
+  costUsd: number;
+  streamed: boolean;
+}
+
+export type LlmCallSink = (record: LlmCallRecord) => unknown;
+
+interface LlmCallContext {
+  userId?: string;
+}
+
+const callContext = new AsyncLocalStorage<LlmCallContext>();
+let callSink: LlmCallSink | null = null;
+
+export const setLlmCallSink = (sink: LlmCallSink | null) => {
+  callSink = sink;
+};
+
+// Attribute AI calls made inside fn to a user (requests, background jobs)
+export const runWithLlmContext = <T>(context: LlmCallContext, fn: () => T): T =>
+  callContext.run(context, fn);
+
+export const hashPrompt = (prompt: string): string =>
+  crypto.createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+
+const outcomeOf = (error: unknown): LlmCallOutcome => {
+  const message = getErrorMessage(error);
+  if (isRateLimitError(message)) return "rate_limited";
+  if (/timed out|timeout/i.test(message)) return "timeout";
+  return "error";
+};
+
+interface AuditTarget {
+  feature: LlmFeature;
+  provider: LlmProviderName;
+  model?: string;
+  userId?: string;
+  context?: string;
+}
+
+const report = (
+  target: AuditTarget,
+  prompt: string,
+  usage: LlmUsage,
+  startedAt: number,
+  streamed: boolean,
+  error?: unknown
+) => {
+  if (!callSink) return;
+  const model = usage.model || target.model;
+  const record: LlmCallRecord = {
+    feature: target.feature,
+    provider: target.provider,
+    model,
+    userId: target.userId || callContext.getStore()?.userId,
+    context: target.context,
+    promptHash: hashPrompt(prompt),
+    promptChars: prompt.length,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    latencyMs: Date.now() - startedAt,
+    attempts: usage.attempts ?? 1,
+    rateLimitHits: usage.rateLimitHits ?? 0,
+    outcome: error === undefined ? "success" : outcomeOf(error),
+    error: error === undefined ? undefined : getErrorMessage(error).slice(0, 500),
+    costUsd: estimateCostUsd(
+      target.provider,
+      model,
+      usage.inputTokens,
+      usage.outputTokens
+    ),
+    streamed,
+  };
+
+  Promise.resolve()
+    .then(() => callSink?.(record))
+    .catch((sinkError) =>
+      logger.warn(`[LlmAudit] Could not record AI call: ${getErrorMessage(sinkError)}`)
+    );
+};
+
+export const auditLlmCall = async <T>(
+  target: AuditTarget,
+  prompt: string,
+  run: (usage: LlmUsage) => Promise<T>
+): Promise<T> => {
+  const usage: LlmUsage = {};
+  const startedAt = Date.now();
+  try {
+    const result = await run(usage);
+    report(target, prompt, usage, startedAt, false);
+    return result;
+  } catch (error) {
+    report(target, prompt, usage, startedAt, false, error ?? "Unknown error");
+    throw error;
+  }
+};
+
+// Streams are recorded once fully consumed (or when they fail)
+export async function* auditLlmStream(
+  target: AuditTarget,
+  prompt: string,
+  run: (usage: LlmUsage) => AsyncIterable<string>
+): AsyncIterable<string> {
+  const usage: LlmUsage = {};
+  const startedAt = Date.now();
+  try {
+    yield* run(usage);
+    report(target, prompt, usage, startedAt, true);
+  } catch (error) {
+    report(target, prompt, usage, startedAt, true, error ?? "Unknown error");
+    throw error;
+  }
+}
@@ -0,0 +1,97 @@
+import path from "path";
+import {
+  LlmFeature,
+  LlmProviderName,
+  LLM_PROVIDER_NAMES,
+} from "./llm.types";
+
+/**
+ * Provider selection from environment variables.
+ *
+ *   LLM_PROVIDER=gemini                      default for every feature
+ *   LLM_PROVIDER_CHAT=ollama:llama3          per feature, optionally with a model
+ *   LLM_PROVIDER_EATING_PROFILE=gemini:gemini-2.0-flash
+ *   LLM_FALLBACK_MEAL_PLAN=ollama            tried when the primary fails
+ *   LLM_FIXTURES_DIR=./fixtures/llm          replay directory for "fixture"
+ *   LLM_FIXTURE_RECORD=gemini                record fixture misses with a real provider
+ *
+ * Feature names map to env suffixes by upper-casing and replacing "-" with "_".
+ */
+
+export interface LlmProviderSpec {
+  provider: LlmProviderName;
+  model?: string;
+}
+
+const DEFAULT_PROVIDER: LlmProviderName = "gemini";
+
+// Built-in per-feature defaults, used when the env does not say otherwise
+const FEATURE_DEFAULTS: Partial<Record<LlmFeature, LlmProviderSpec>> = {
+  "eating-profile": { provider: "gemini", model: "gemini-2.0-flash" },
+};
+
+const FEATURE_FALLBACKS: Partial<Record<LlmFeature, LlmProviderSpec>> = {
+  "meal-plan": { provider: "ollama" },
+};
+
+export const featureEnvSuffix = (feature: LlmFeature): string =>
+  feature.toUpperCase().replace(/-/g, "_");
+
+const isProviderName = (value: string): value is LlmProviderName =>
+  (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+
+/**
+ * Parse "provider" or "provider:model". Returns null for empty or unknown
+ * providers so a typo falls back to the default instead of crashing.
+ */
+export const parseProviderSpec = (
+  value: string | undefined
+): LlmProviderSpec | null => {
+  if (!value || !value.trim()) return null;
+  const [rawProvider, ...modelParts] = value.trim().split(":");
+  const provider = rawProvider.trim().toLowerCase();
+  if (!isProviderName(provider)) return null;
+  const model = modelParts.join(":").trim();
+  return model ? { provider, model } : { provider };
+};
+
+export const getProviderSpec = (
+  feature: LlmFeature,
+  env: NodeJS.ProcessEnv = process.env
+): LlmProviderSpec => {
+  const featureSpec = parseProviderSpec(
+    env[`LLM_PROVIDER_${featureEnvSuffix(feature)}`]
+  );
+  if (featureSpec) return featureSpec;
+
+  const globalSpec = parseProviderSpec(env.LLM_PROVIDER);
+  const featureDefault = FEATURE_DEFAULTS[feature];
+  if (globalSpec) {
+    // Keep the feature's default model when the global setting names the same provider
+    return !globalSpec.model && featureDefault?.provider === globalSpec.provider
+      ? featureDefault
+      : globalSpec;
+  }
+
+  return featureDefault || { provider: DEFAULT_PROVIDER };
+};
+
+// "none" disables the built-in fallback
+export const getFallbackSpec = (
+  feature: LlmFeature,
+  env: NodeJS.ProcessEnv = process.env
+): LlmProviderSpec | null => {
+  const raw = env[`LLM_FALLBACK_${featureEnvSuffix(feature)}`];
+  if (raw !== undefined) return parseProviderSpec(raw);
+  return FEATURE_FALLBACKS[feature] || null;
+};
+
+export const getFixturesDir = (env: NodeJS.ProcessEnv = process.env): string =>
+  path.resolve(process.cwd(), env.LLM_FIXTURES_DIR || "fixtures/llm");
+
+export const getFixtureRecordProvider = (
+  env: NodeJS.ProcessEnv = process.env
+): LlmProviderName | null => {
+  const spec = parseProviderSpec(env.LLM_FIXTURE_RECORD);
+  return spec && spec.provider !== "fixture" ? spec.provider : null;
+};
@@ -0,0 +1,34 @@
+import { Global, Module } from "@nestjs/common";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { MongooseModule } from "@nestjs/mongoose";
+import { User, UserSchema } from "../user/user.model";
+import {
+  AiOutputFailure,
+  AiOutputFailureSchema,
+} from "./ai-output-failure.model";
+import { AiCallLog, AiCallLogSchema } from "./ai-call-log.model";
+import { AiOutputFailureService } from "./ai-output-failure.service";
+import { AiUsageService } from "./ai-usage.service";
+import { AiUsageController } from "./ai-usage.controller";
+import { AiCallContextInterceptor } from "./ai-call-context.interceptor";
+
+// The LLM clients are module-level; this module wires their persistence and reporting
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AiOutputFailure.name, schema: AiOutputFailureSchema },
+      { name: AiCallLog.name, schema: AiCallLogSchema },
+      // For AuthGuard on the admin routes
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [AiUsageController],
+  providers: [
+    AiOutputFailureService,
+    AiUsageService,
+    { provide: APP_INTERCEPTOR, useClass: AiCallContextInterceptor },
+  ],
+  exports: [AiOutputFailureService, AiUsageService],
+})
+export class LlmModule {}
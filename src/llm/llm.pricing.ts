@@ -0,0 +1,25 @@
+import { LlmProviderName } from "./llm.types";
+
+// USD per 1M tokens (paid tier list prices). Local and fixture calls are free.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+// Unlisted Gemini models are priced like flash rather than as free
+const DEFAULT_GEMINI_PRICING = MODEL_PRICING["gemini-2.5-flash"];
+
+export const estimateCostUsd = (
+  provider: LlmProviderName,
+  model: string | undefined,
+  inputTokens: number = 0,
+  outputTokens: number = 0
+): number => {
+  if (provider !== "gemini") return 0;
+  const pricing = (model && MODEL_PRICING[model]) || DEFAULT_GEMINI_PRICING;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
@@ -0,0 +1,133 @@
+import {
+  LlmClient,
+  LlmFeature,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequestOptions,
+  LlmImage,
+  LlmUsage,
+} from "./llm.types";
+import { auditLlmCall, auditLlmStream } from "./llm-audit";
+import {
+  LlmProviderSpec,
+  getProviderSpec,
+  getFallbackSpec,
+  getFixturesDir,
+  getFixtureRecordProvider,
+} from "./llm.config";
+import { GeminiLlmProvider } from "./providers/gemini.provider";
+import { OllamaLlmProvider } from "./providers/ollama.provider";
+import { FixtureLlmProvider } from "./providers/fixture.provider";
+
+// Provider instances are shared so per-provider state (model cache) is kept
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+const createProvider = (name: LlmProviderName): LlmProvider => {
+  switch (name) {
+    case "gemini":
+      return new GeminiLlmProvider();
+    case "ollama":
+      return new OllamaLlmProvider();
+    case "fixture": {
+      const recordWith = getFixtureRecordProvider();
+      return new FixtureLlmProvider(
+        getFixturesDir(),
+        recordWith ? getProvider(recordWith) : undefined
+      );
+    }
+  }
+};
+
+export const getProvider = (name: LlmProviderName): LlmProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+/**
+ * Replace a provider implementation (tests, custom backends). Pass null to
+ * go back to the built-in one.
+ */
+export const registerLlmProvider = (
+  name: LlmProviderName,
+  provider: LlmProvider | null
+): void => {
+  if (provider) {
+    providers.set(name, provider);
+  } else {
+    providers.delete(name);
+  }
+};
+
+export const resetLlmProviders = (): void => {
+  providers.clear();
+};
+
+const bindClient = (feature: LlmFeature, spec: LlmProviderSpec): LlmClient => {
+  const provider = getProvider(spec.provider);
+  const withDefaults = (options: LlmRequestOptions = {}, usage: LlmUsage) => ({
+    ...options,
+    feature,
+    model: spec.model,
+    usage,
+  });
+  const auditTarget = (options: LlmRequestOptions = {}) => ({
+    feature,
+    provider: provider.name,
+    model: spec.model,
+    userId: options.userId,
+    context: options.context,
+  });
+
+  return {
+    feature,
+    providerName: provider.name,
+    model: spec.model,
+    generateText: (prompt: string, options?: LlmRequestOptions) =>
+      auditLlmCall(auditTarget(options), prompt, (usage) =>
+        provider.generateText(prompt, withDefaults(options, usage))
+      ),
+    generateJson: <T = unknown>(prompt: string, options?: LlmRequestOptions) =>
+      auditLlmCall(auditTarget(options), prompt, (usage) =>
+        provider.generateJson<T>(prompt, withDefaults(options, usage))
+      ),
+    generateVision: (
+      prompt: string,
+      image: LlmImage,
+      options?: LlmRequestOptions
+    ) =>
+      auditLlmCall(auditTarget(options), prompt, (usage) =>
+        provider.generateVision(prompt, image, withDefaults(options, usage))
+      ),
+    streamText: (prompt: string, options?: LlmRequestOptions) =>
+      auditLlmStream(auditTarget(options), prompt, (usage) =>
+        provider.streamText(prompt, withDefaults(options, usage))
+      ),
+  };
+};
+
+/**
+ * The LLM configured for a feature. Passing a provider name overrides the
+ * config (e.g. "fixture" for mock generation requests).
+ */
+export const getLlmClient = (
+  feature: LlmFeature,
+  providerOverride?: LlmProviderName
+): LlmClient =>
+  bindClient(
+    feature,
+    providerOverride ? { provider: providerOverride } : getProviderSpec(feature)
+  );
+
+// The configured fallback for a feature, or null when it has none
+export const getFallbackLlmClient = (feature: LlmFeature): LlmClient | null => {
+  const spec = getFallbackSpec(feature);
+  const primary = getProviderSpec(feature);
+  if (!spec || (spec.provider === primary.provider && spec.model === primary.model)) {
+    return null;
+  }
+  return bindClient(feature, spec);
+};
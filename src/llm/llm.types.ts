@@ -0,0 +1,92 @@
+/**
+ * LLM provider abstraction
+ *
+ * Every AI call in the app goes through an LlmProvider chosen per feature
+ * (see llm.config.ts), so a feature can be moved to another model or backend
+ * without touching the code that builds its prompt.
+ */
+
+// Features that call an LLM. Each one can be routed to its own provider/model.
+export const LLM_FEATURES = [
+  "meal-plan",
+  "meal-plan-skeleton",
+  "recipe",
+  "meal",
+  "meal-suggestions",
+  "rescue-meal",
+  "snack",
+  "goal",
+  "chat",
+  "photo-recognition",
+  "nutrition-estimate",
+  "eating-profile",
+] as const;
+
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+export const LLM_PROVIDER_NAMES = ["gemini", "ollama", "fixture"] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+// Options a call site may set; everything is optional
+export interface LlmRequestOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  maxRetries?: number;
+  context?: string; // log prefix
+  userId?: string; // attributed in the AI call log; defaults to the request's user
+}
+
+// What a provider reports back about one call, for the AI call log
+export interface LlmUsage {
+  model?: string; // the model actually used
+  inputTokens?: number;
+  outputTokens?: number;
+  attempts?: number;
+  rateLimitHits?: number; // 429 responses along the way
+}
+
+// Options as seen by a provider: the feature is always known, the model is
+// filled in from config when the feature has one
+export interface LlmCallOptions extends LlmRequestOptions {
+  feature: LlmFeature;
+  model?: string;
+  usage?: LlmUsage; // filled in by the provider when set
+}
+
+export interface LlmImage {
+  data: string; // base64 without data URI prefix
+  mimeType: string;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  generateText(prompt: string, options: LlmCallOptions): Promise<string>;
+  // Asks the model for JSON output and returns it parsed
+  generateJson<T = unknown>(prompt: string, options: LlmCallOptions): Promise<T>;
+  generateVision(
+    prompt: string,
+    image: LlmImage,
+    options: LlmCallOptions
+  ): Promise<string>;
+  streamText(prompt: string, options: LlmCallOptions): AsyncIterable<string>;
+}
+
+// A provider bound to one feature and its configured model
+export interface LlmClient {
+  readonly feature: LlmFeature;
+  readonly providerName: LlmProviderName;
+  readonly model?: string;
+  generateText(prompt: string, options?: LlmRequestOptions): Promise<string>;
+  generateJson<T = unknown>(
+    prompt: string,
+    options?: LlmRequestOptions
+  ): Promise<T>;
+  generateVision(
+    prompt: string,
+    image: LlmImage,
+    options?: LlmRequestOptions
+  ): Promise<string>;
+  streamText(prompt: string, options?: LlmRequestOptions): AsyncIterable<string>;
+}
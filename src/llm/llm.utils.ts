@@ -0,0 +1,58 @@
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+
+// Output that is not JSON at all; keeps the raw text for re-prompting and debugging
+export class LlmJsonParseError extends Error {
+  constructor(
+    message: string,
+    readonly raw: string
+  ) {
+    super(message);
+    this.name = "LlmJsonParseError";
+  }
+}
+
+/**
+ * Parse a model's JSON output. JSON-mode responses parse directly; otherwise
+ * markdown fences and any prose around the outermost object/array are dropped.
+ */
+export const parseJsonText = <T = unknown>(text: string): T => {
+  const trimmed = (text || "").trim();
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch (_) {
+    // fall through to extraction
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const body = fenced ? fenced[1] : trimmed;
+
+  const objectStart = body.indexOf("{");
+  const arrayStart = body.indexOf("[");
+  const useArray =
+    arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = useArray ? arrayStart : objectStart;
+  const end = body.lastIndexOf(useArray ? "]" : "}");
+
+  if (start === -1 || end <= start) {
+    throw new LlmJsonParseError("Model response did not contain JSON", text);
+  }
+
+  try {
+    return JSON.parse(body.slice(start, end + 1)) as T;
+  } catch (error) {
+    throw new LlmJsonParseError(
+      `Model returned invalid JSON: ${getErrorMessage(error)}`,
+      text
+    );
+  }
+};
+
+// Split text into small chunks, used where a backend has no native streaming
+export async function* chunkText(
+  text: string,
+  chunkSize: number = 64
+): AsyncIterable<string> {
+  for (let i = 0; i < text.length; i += chunkSize) {
+    yield text.slice(i, i + chunkSize);
+  }
+}
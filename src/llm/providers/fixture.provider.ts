@@ -0,0 +1,124 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import logger from "../../utils/logger";
+import { chunkText, parseJsonText } from "../llm.utils";
+import {
+  LlmProvider,
+  LlmCallOptions,
+  LlmImage,
+  LlmProviderName,
+} from "../llm.types";
+
+type FixtureKind = "text" | "json";
+
+/**
+ * Deterministic replay of recorded responses, for offline development and tests.
+ *
+ * A response is looked up in <dir>/<feature>/<key>.{json,txt}, where key is a
+ * hash of the prompt (and image), then in <dir>/<feature>/default.{json,txt}.
+ * Prompts that embed today's date only ever hit the default. With a recorder
+ * configured, misses are answered by the real provider and saved under their
+ * key instead of falling back to the default.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = "fixture";
+
+  constructor(
+    private readonly fixturesDir: string,
+    private readonly recorder?: LlmProvider
+  ) {}
+
+  static fixtureKey(prompt: string, image?: LlmImage): string {
+    const hash = crypto.createHash("sha256").update(prompt);
+    if (image) hash.update(image.data);
+    return hash.digest("hex").slice(0, 16);
+  }
+
+  async generateText(prompt: string, options: LlmCallOptions): Promise<string> {
+    return this.replay(prompt, options, "text", () =>
+      this.recorder.generateText(prompt, options)
+    );
+  }
+
+  async generateJson<T = unknown>(
+    prompt: string,
+    options: LlmCallOptions
+  ): Promise<T> {
+    const text = await this.replay(prompt, options, "json", async () =>
+      JSON.stringify(await this.recorder.generateJson(prompt, options), null, 2)
+    );
+    return parseJsonText<T>(text);
+  }
+
+  async generateVision(
+    prompt: string,
+    image: LlmImage,
+    options: LlmCallOptions
+  ): Promise<string> {
+    return this.replay(
+      prompt,
+      options,
+      "text",
+      () => this.recorder.generateVision(prompt, image, options),
+      image
+    );
+  }
+
+  async *streamText(
+    prompt: string,
+    options: LlmCallOptions
+  ): AsyncIterable<string> {
+    yield* chunkText(await this.generateText(prompt, options));
+  }
+
+  private async replay(
+    prompt: string,
+    options: LlmCallOptions,
+    kind: FixtureKind,
+    record: () => Promise<string>,
+    image?: LlmImage
+  ): Promise<string> {
+    const featureDir = path.join(this.fixturesDir, options.feature);
+    const key = FixtureLlmProvider.fixtureKey(prompt, image);
+
+    const recorded = await this.findFixture(featureDir, key);
+    if (recorded !== null) return recorded;
+
+    if (this.recorder) {
+      const content = await record();
+      const file = path.join(featureDir, `${key}.${kind === "json" ? "json" : "txt"}`);
+      await fs.mkdir(featureDir, { recursive: true });
+      await fs.writeFile(file, content, "utf8");
+      logger.info(`[LlmFixture] ${options.feature}: recorded ${path.basename(file)}`);
+      return content;
+    }
+
+    const fallback = await this.findFixture(featureDir, "default");
+    if (fallback !== null) return fallback;
+
+    throw new Error(
+      `No LLM fixture for ${options.feature} (key ${key}) in ${featureDir}`
+    );
+  }
+
+  private async findFixture(featureDir: string, name: string): Promise<string | null> {
+    for (const ext of ["json", "txt"]) {
+      const content = await this.readFixture(path.join(featureDir, `${name}.${ext}`));
+      if (content !== null) {
+        logger.info(`[LlmFixture] Replaying ${path.basename(featureDir)}/${name}.${ext}`);
+        return content;
+      }
+    }
+    return null;
+  }
+
+  private async readFixture(file: string): Promise<string | null> {
+    try {
+      return await fs.readFile(file, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
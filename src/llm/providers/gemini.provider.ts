@@ -0,0 +1,213 @@
+import axios from "axios";
+import { GenerativeModel, UsageMetadata } from "@google/generative-ai";
+import logger from "../../utils/logger";
+import {
+  callGeminiWithRateLimit,
+  getErrorMessage,
+} from "../../utils/gemini-rate-limiter";
+import { parseJsonText } from "../llm.utils";
+import {
+  LlmProvider,
+  LlmCallOptions,
+  LlmImage,
+  LlmProviderName,
+} from "../llm.types";
+
+// Prioritize lite models for better rate limits on free tier
+const MODEL_PRIORITY = [
+  "gemini-2.5-flash-lite",
+  "gemini-2.5-flash",
+  "gemini-2.5-pro",
+  "gemini-2.0-flash-lite",
+  "gemini-2.0-flash",
+];
+const PREFERRED_MODELS = ["gemini-2.5-flash-lite", "gemini-2.5-flash"];
+const MODEL_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Gemini through the shared token-bucket rate limiter. When a feature has no
+ * model configured, the best available model is picked from the API's list.
+ */
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = "gemini";
+
+  // Cached model list — avoids redundant HTTP calls during parallel generation
+  private cachedModels: string[] | null = null;
+  private modelCacheTimestamp = 0;
+
+  async generateText(prompt: string, options: LlmCallOptions): Promise<string> {
+    return this.call(options, async (model) => {
+      const result = await model.generateContent({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: this.generationConfig(options),
+      });
+      return this.responseText(result, options);
+    });
+  }
+
+  async generateJson<T = unknown>(
+    prompt: string,
+    options: LlmCallOptions
+  ): Promise<T> {
+    return this.call(options, async (model) => {
+      const result = await model.generateContent({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          ...this.generationConfig(options),
+          responseMimeType: "application/json",
+        },
+      });
+      return parseJsonText<T>(this.responseText(result, options));
+    });
+  }
+
+  async generateVision(
+    prompt: string,
+    image: LlmImage,
+    options: LlmCallOptions
+  ): Promise<string> {
+    return this.call(options, async (model) => {
+      const result = await model.generateContent({
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: prompt },
+              { inlineData: { data: image.data, mimeType: image.mimeType } },
+            ],
+          },
+        ],
+        generationConfig: this.generationConfig(options),
+      });
+      return this.responseText(result, options);
+    });
+  }
+
+  async *streamText(
+    prompt: string,
+    options: LlmCallOptions
+  ): AsyncIterable<string> {
+    // Only opening the stream goes through the rate limiter and retries
+    const result = await this.call(options, (model) =>
+      model.generateContentStream({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: this.generationConfig(options),
+      })
+    );
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+    this.recordUsage((await result.response).usageMetadata, options);
+  }
+
+  private async call<T>(
+    options: LlmCallOptions,
+    generateFn: (model: GenerativeModel) => Promise<T>
+  ): Promise<T> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY not configured");
+    }
+
+    const modelName = options.model || (await this.pickModel(apiKey));
+    const stats = { attempts: 0, rateLimitHits: 0 };
+    try {
+      return await callGeminiWithRateLimit<T>(apiKey, modelName, generateFn, {
+        maxRetries: options.maxRetries,
+        timeoutMs: options.timeoutMs,
+        context: options.context || options.feature,
+        stats,
+      });
+    } finally {
+      if (options.usage) {
+        Object.assign(options.usage, { model: modelName, ...stats });
+      }
+    }
+  }
+
+  private generationConfig(options: LlmCallOptions) {
+    return {
+      ...(options.temperature !== undefined && {
+        temperature: options.temperature,
+      }),
+      ...(options.maxOutputTokens !== undefined && {
+        maxOutputTokens: options.maxOutputTokens,
+      }),
+    };
+  }
+
+  private responseText(
+    result: { response?: { text: () => string; usageMetadata?: UsageMetadata } },
+    options: LlmCallOptions
+  ): string {
+    if (!result?.response) {
+      throw new Error("Empty response from Gemini API");
+    }
+    this.recordUsage(result.response.usageMetadata, options);
+    const text = result.response.text();
+    if (!text || text.trim().length === 0) {
+      throw new Error("Gemini returned empty response text");
+    }
+    logger.info(
+      `[${options.context || options.feature}] Received response: ${text.length} characters`
+    );
+    return text;
+  }
+
+  private recordUsage(
+    metadata: UsageMetadata | undefined,
+    options: LlmCallOptions
+  ): void {
+    if (!metadata || !options.usage) return;
+    options.usage.inputTokens = metadata.promptTokenCount;
+    options.usage.outputTokens = metadata.candidatesTokenCount;
+  }
+
+  private async pickModel(apiKey: string): Promise<string> {
+    const available = await this.getAvailableModels(apiKey);
+    const preferred = PREFERRED_MODELS.find((m) => available.includes(m));
+    return preferred || available[0] || "gemini-1.5-flash";
+  }
+
+  private async getAvailableModels(apiKey: string): Promise<string[]> {
+    if (
+      this.cachedModels &&
+      Date.now() - this.modelCacheTimestamp < MODEL_CACHE_TTL_MS
+    ) {
+      return this.cachedModels;
+    }
+
+    try {
+      const response = await axios.get(
+        `https://generativelanguage.googleapis.com/v1/models?key=${apiKey}`,
+        { timeout: 5000 }
+      );
+
+      const models = (response.data.models || [])
+        .filter((model: any) =>
+          model.supportedGenerationMethods?.includes("generateContent")
+        )
+        // Extract model name from path like "models/gemini-2.5-flash"
+        .map((model: any) => model.name.split("/")[1])
+        .filter((name: string) => name && name.includes("gemini"))
+        .sort((a: string, b: string) => {
+          const indexA = MODEL_PRIORITY.indexOf(a);
+          const indexB = MODEL_PRIORITY.indexOf(b);
+          if (indexA === -1) return 1;
+          if (indexB === -1) return -1;
+          return indexA - indexB;
+        });
+
+      logger.info(`[Gemini] Available models: ${models.join(", ")}`);
+      this.cachedModels = models;
+      this.modelCacheTimestamp = Date.now();
+      return models;
+    } catch (error: unknown) {
+      logger.warn(
+        `[Gemini] Could not list available models: ${getErrorMessage(error)}`
+      );
+      return MODEL_PRIORITY.slice(0, 3);
+    }
+  }
+}
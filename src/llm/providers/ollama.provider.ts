@@ -0,0 +1,151 @@
+import axios from "axios";
+import { Readable } from "stream";
+import logger from "../../utils/logger";
+import { getErrorMessage } from "../../utils/gemini-rate-limiter";
+import { parseJsonText } from "../llm.utils";
+import {
+  LlmProvider,
+  LlmCallOptions,
+  LlmImage,
+  LlmProviderName,
+} from "../llm.types";
+
+const DEFAULT_TIMEOUT_MS = 300000; // local models are slow on CPU
+const DEFAULT_MAX_OUTPUT_TOKENS = 4000;
+
+/**
+ * Local models served by Ollama (OLLAMA_BASE_URL, model from OLLAMA_MODEL
+ * unless the feature config names one).
+ */
+export class OllamaLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = "ollama";
+
+  async generateText(prompt: string, options: LlmCallOptions): Promise<string> {
+    return this.generate(prompt, options);
+  }
+
+  async generateJson<T = unknown>(
+    prompt: string,
+    options: LlmCallOptions
+  ): Promise<T> {
+    const text = await this.generate(prompt, options, { format: "json" });
+    return parseJsonText<T>(text);
+  }
+
+  async generateVision(
+    prompt: string,
+    image: LlmImage,
+    options: LlmCallOptions
+  ): Promise<string> {
+    // Needs a multimodal model such as llava
+    return this.generate(prompt, options, { images: [image.data] });
+  }
+
+  async *streamText(
+    prompt: string,
+    options: LlmCallOptions
+  ): AsyncIterable<string> {
+    const baseUrl = await this.ensureRunning();
+    const response = await axios.post<Readable>(
+      `${baseUrl}/api/generate`,
+      this.requestBody(prompt, options, { stream: true }),
+      {
+        headers: { "Content-Type": "application/json" },
+        timeout: options.timeoutMs || DEFAULT_TIMEOUT_MS,
+        responseType: "stream",
+      }
+    );
+
+    // Ollama streams newline-delimited JSON objects
+    let buffered = "";
+    for await (const chunk of response.data) {
+      buffered += chunk.toString();
+      const lines = buffered.split("\n");
+      buffered = lines.pop() || "";
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+        if (event.response) yield event.response;
+        if (event.done) {
+          this.recordUsage(event, options);
+          return;
+        }
+      }
+    }
+  }
+
+  private async generate(
+    prompt: string,
+    options: LlmCallOptions,
+    extra: Record<string, unknown> = {}
+  ): Promise<string> {
+    const baseUrl = await this.ensureRunning();
+    const context = options.context || options.feature;
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/api/generate`,
+        this.requestBody(prompt, options, { stream: false, ...extra }),
+        {
+          headers: { "Content-Type": "application/json" },
+          timeout: options.timeoutMs || DEFAULT_TIMEOUT_MS,
+        }
+      );
+
+      if (response.data && response.data.response) {
+        this.recordUsage(response.data, options);
+        logger.info(
+          `[${context}] Received Ollama response: ${response.data.response.length} characters`
+        );
+        return response.data.response;
+      }
+      throw new Error("Invalid response from Ollama API");
+    } catch (error: unknown) {
+      throw new Error(`Ollama API error: ${getErrorMessage(error)}`);
+    }
+  }
+
+  // Ollama reports token counts on the final (or only) response object
+  private recordUsage(
+    data: { model?: string; prompt_eval_count?: number; eval_count?: number },
+    options: LlmCallOptions
+  ): void {
+    if (!options.usage) return;
+    Object.assign(options.usage, {
+      model: data.model,
+      inputTokens: data.prompt_eval_count,
+      outputTokens: data.eval_count,
+      attempts: 1,
+    });
+  }
+
+  private requestBody(
+    prompt: string,
+    options: LlmCallOptions,
+    extra: Record<string, unknown>
+  ) {
+    return {
+      model: options.model || process.env.OLLAMA_MODEL || "phi",
+      prompt,
+      options: {
+        temperature: options.temperature ?? 0.7,
+        top_p: 0.9,
+        top_k: 40,
+        num_predict: options.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+      ...extra,
+    };
+  }
+
+  private async ensureRunning(): Promise<string> {
+    const baseUrl = process.env.OLLAMA_BASE_URL || "http://localhost:11434";
+    try {
+      await axios.get(`${baseUrl}/api/tags`, { timeout: 5000 });
+    } catch (error) {
+      throw new Error(
+        `Ollama is not running at ${baseUrl}. Start Ollama first with: ollama serve`
+      );
+    }
+    return baseUrl;
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsIn,
+  Matches,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+import { AiMeal, MEAL_CATEGORIES } from "./meal.schema";
+import { AiWorkout } from "./plan.schema";
+
+export class AiCurrentMeal {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsNumber()
+  calories?: number;
+}
+
+/**
+ * The ```action block the chat assistant may append to a reply. Required
+ * fields depend on the action type.
+ */
+export class AiChatAction {
+  @IsIn(["meal_swap", "workout_change", "add_snack"])
+  type: "meal_swap" | "workout_change" | "add_snack";
+
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "dateKey must be YYYY-MM-DD" })
+  dateKey: string;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  // meal_swap
+  @ValidateIf((action) => action.type === "meal_swap")
+  @IsIn(MEAL_CATEGORIES)
+  mealType?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  snackIndex?: number;
+
+  @ValidateIf((action) => action.type === "meal_swap")
+  @ValidateNested()
+  @Type(() => AiCurrentMeal)
+  currentMeal?: AiCurrentMeal;
+
+  @ValidateIf((action) => action.type === "meal_swap")
+  @ValidateNested()
+  @Type(() => AiMeal)
+  proposedMeal?: AiMeal;
+
+  // workout_change
+  @ValidateIf((action) => action.type === "workout_change")
+  @IsIn(["add", "update", "remove"])
+  action?: "add" | "update" | "remove";
+
+  @ValidateIf(
+    (action) => action.type === "workout_change" && action.action === "update"
+  )
+  @IsInt()
+  @Min(0)
+  workoutIndex?: number;
+
+  @ValidateIf(
+    (action) => action.type === "workout_change" && action.action === "remove"
+  )
+  @ValidateNested()
+  @Type(() => AiWorkout)
+  currentWorkout?: AiWorkout;
+
+  @ValidateIf(
+    (action) => action.type === "workout_change" && action.action !== "remove"
+  )
+  @ValidateNested()
+  @Type(() => AiWorkout)
+  proposedWorkout?: AiWorkout;
+
+  // add_snack
+  @ValidateIf((action) => action.type === "add_snack")
+  @ValidateNested()
+  @Type(() => AiMeal)
+  proposedSnack?: AiMeal;
+}
+
+export const AI_CHAT_ACTION: AiOutputSpec<AiChatAction> = {
+  name: "chat-action",
+  schema: AiChatAction,
+  check: (action) =>
+    action.type === "meal_swap" &&
+    action.proposedMeal?.category &&
+    action.proposedMeal.category !== action.mealType
+      ? [`proposedMeal.category must match mealType "${action.mealType}"`]
+      : [],
+};
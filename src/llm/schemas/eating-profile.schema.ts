@@ -0,0 +1,101 @@
+import {
+  IsString,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsObject,
+  Min,
+  Max,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+
+export class AiRiskWindow {
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  hourStart: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  hourEnd: number;
+
+  @IsIn(["medium", "high"])
+  risk: "medium" | "high";
+}
+
+export class AiBestMeal {
+  @IsString()
+  mealName: string;
+
+  @IsNumber()
+  avgMoodLift: number;
+}
+
+export class AiNutritionTendency {
+  @IsIn(["under", "on-target", "over"])
+  calorieAccuracy: "under" | "on-target" | "over";
+
+  @IsOptional()
+  @IsIn(["protein", "fiber", "healthy-fats"])
+  macroWeakness?: "protein" | "fiber" | "healthy-fats" | null;
+}
+
+export class AiEatingProfile {
+  @IsIn(["mindful", "emotional", "habitual", "social", "mixed"])
+  eatingType: "mindful" | "emotional" | "habitual" | "social" | "mixed";
+
+  @IsIn(["low", "medium", "high"])
+  emotionalEatingRisk: "low" | "medium" | "high";
+
+  @IsOptional()
+  @IsObject()
+  triggerScores?: Record<string, number>;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AiRiskWindow)
+  riskWindows?: AiRiskWindow[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AiBestMeal)
+  bestMeals?: AiBestMeal[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  patternTags?: string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  suggestionTags?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AiNutritionTendency)
+  nutritionTendency?: AiNutritionTendency;
+
+  @IsOptional()
+  @IsString()
+  reasoning?: string;
+}
+
+export const AI_EATING_PROFILE: AiOutputSpec<AiEatingProfile> = {
+  name: "eating-profile",
+  schema: AiEatingProfile,
+  check: (profile) =>
+    Object.entries(profile.triggerScores || {})
+      .filter(([, score]) => typeof score !== "number" || score < 0 || score > 1)
+      .map(([trigger]) => `triggerScores.${trigger} must be a number between 0 and 1`),
+};
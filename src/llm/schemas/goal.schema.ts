@@ -0,0 +1,56 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+
+export class AiGoalMilestone {
+  @IsOptional()
+  @IsString()
+  id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @IsNumber()
+  targetValue: number;
+}
+
+export class AiGoal {
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsNumber()
+  target: number;
+
+  @IsString()
+  @IsNotEmpty()
+  unit: string;
+
+  @IsOptional()
+  @IsString()
+  icon?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AiGoalMilestone)
+  milestones: AiGoalMilestone[];
+}
+
+export const AI_GOAL: AiOutputSpec<AiGoal> = {
+  name: "goal",
+  schema: AiGoal,
+};
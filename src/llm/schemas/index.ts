@@ -0,0 +1,7 @@
+export * from "./meal.schema";
+export * from "./plan.schema";
+export * from "./recipe.schema";
+export * from "./goal.schema";
+export * from "./chat-action.schema";
+export * from "./photo-recognition.schema";
+export * from "./eating-profile.schema";
@@ -0,0 +1,102 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsIn,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+import { IsIngredientEntry, ToLowerCase } from "./validators";
+
+export const MEAL_CATEGORIES = ["breakfast", "lunch", "dinner", "snack"] as const;
+
+export class AiMacros {
+  @IsNumber()
+  @Min(0)
+  protein: number;
+
+  @IsNumber()
+  @Min(0)
+  carbs: number;
+
+  @IsNumber()
+  @Min(0)
+  fat: number;
+}
+
+// A single meal as generated for plans, swaps, suggestions and snacks
+export class AiMeal {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsNumber()
+  @Min(0)
+  calories: number;
+
+  @ValidateNested()
+  @Type(() => AiMacros)
+  macros: AiMacros;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIngredientEntry({ each: true })
+  ingredients: Array<string | string[]>;
+
+  @IsOptional()
+  @ToLowerCase()
+  @IsIn(MEAL_CATEGORIES)
+  category?: (typeof MEAL_CATEGORIES)[number];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  prepTime?: number;
+}
+
+export class AiMealSuggestions {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AiMeal)
+  meals: AiMeal[];
+}
+
+export class AiNutritionEstimate {
+  @IsNumber()
+  @Min(0)
+  calories: number;
+
+  @ValidateNested()
+  @Type(() => AiMacros)
+  macros: AiMacros;
+
+  @IsOptional()
+  @IsString()
+  servingSize?: string;
+}
+
+export const AI_MEAL: AiOutputSpec<AiMeal> = {
+  name: "meal",
+  schema: AiMeal,
+};
+
+export const AI_MEAL_SUGGESTIONS: AiOutputSpec<AiMealSuggestions> = {
+  name: "meal-suggestions",
+  schema: AiMealSuggestions,
+  // Accept a bare array or a single meal as well as { meals: [...] }
+  normalize: (parsed: any) => {
+    const meals = parsed?.meals ?? parsed;
+    return { meals: Array.isArray(meals) ? meals : [meals] };
+  },
+};
+
+export const AI_NUTRITION_ESTIMATE: AiOutputSpec<AiNutritionEstimate> = {
+  name: "nutrition-estimate",
+  schema: AiNutritionEstimate,
+};
@@ -0,0 +1,45 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsIn,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+import { AiMacros } from "./meal.schema";
+import { ToLowerCase } from "./validators";
+
+export class AiPhotoRecognition {
+  // Empty when no food was recognized
+  @IsString()
+  mealName: string;
+
+  @ToLowerCase()
+  @IsIn(["high", "medium", "low", "none"])
+  confidence: "high" | "medium" | "low" | "none";
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  estimatedCalories?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AiMacros)
+  estimatedMacros?: AiMacros;
+}
+
+export const AI_PHOTO_RECOGNITION: AiOutputSpec<AiPhotoRecognition> = {
+  name: "photo-recognition",
+  schema: AiPhotoRecognition,
+  check: (result) =>
+    result.confidence !== "none" && !result.mealName.trim()
+      ? ['mealName must be set unless confidence is "none"']
+      : [],
+};
@@ -0,0 +1,174 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsBoolean,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+import { AiMeal } from "./meal.schema";
+import { ToLowerCase } from "./validators";
+
+export const DAY_NAMES = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+] as const;
+
+export class AiWorkout {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsNumber()
+  @Min(0)
+  duration: number;
+
+  @IsNumber()
+  @Min(0)
+  caloriesBurned: number;
+
+  @IsOptional()
+  @IsString()
+  time?: string;
+}
+
+export class AiDayMeals {
+  @ValidateNested()
+  @Type(() => AiMeal)
+  breakfast: AiMeal;
+
+  @ValidateNested()
+  @Type(() => AiMeal)
+  lunch: AiMeal;
+
+  @ValidateNested()
+  @Type(() => AiMeal)
+  dinner: AiMeal;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AiMeal)
+  snacks?: AiMeal[];
+}
+
+export class AiPlanDay {
+  @ToLowerCase()
+  @IsIn(DAY_NAMES)
+  day: string;
+
+  @IsOptional()
+  @IsString()
+  date?: string;
+
+  @ValidateNested()
+  @Type(() => AiDayMeals)
+  meals: AiDayMeals;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AiWorkout)
+  workouts?: AiWorkout[];
+}
+
+export class AiPlanDays {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AiPlanDay)
+  days: AiPlanDay[];
+}
+
+// Meal names only — the fast first pass of streamed generation
+export class AiSkeletonMeal {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  calories?: number;
+}
+
+export class AiSkeletonDayMeals {
+  @ValidateNested()
+  @Type(() => AiSkeletonMeal)
+  breakfast: AiSkeletonMeal;
+
+  @ValidateNested()
+  @Type(() => AiSkeletonMeal)
+  lunch: AiSkeletonMeal;
+
+  @ValidateNested()
+  @Type(() => AiSkeletonMeal)
+  dinner: AiSkeletonMeal;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AiSkeletonMeal)
+  snacks: AiSkeletonMeal[];
+}
+
+export class AiSkeletonDay {
+  @ToLowerCase()
+  @IsIn(DAY_NAMES)
+  day: string;
+
+  @IsOptional()
+  @IsString()
+  date?: string;
+
+  @ValidateNested()
+  @Type(() => AiSkeletonDayMeals)
+  meals: AiSkeletonDayMeals;
+
+  @IsOptional()
+  @IsBoolean()
+  hasWorkout?: boolean;
+}
+
+export class AiSkeletonDays {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AiSkeletonDay)
+  days: AiSkeletonDay[];
+}
+
+// Days arrive as a bare array, { weeklyPlan: [...] }, { days: [...] } or a single day
+const toDays = (parsed: any) => {
+  if (Array.isArray(parsed)) return { days: parsed };
+  if (Array.isArray(parsed?.weeklyPlan)) return { days: parsed.weeklyPlan };
+  if (Array.isArray(parsed?.days)) return { days: parsed.days };
+  if (parsed?.meals) return { days: [parsed] };
+  return parsed;
+};
+
+export const AI_PLAN_DAYS: AiOutputSpec<AiPlanDays> = {
+  name: "plan-days",
+  schema: AiPlanDays,
+  normalize: toDays,
+};
+
+export const AI_SKELETON_DAYS: AiOutputSpec<AiSkeletonDays> = {
+  name: "skeleton-days",
+  schema: AiSkeletonDays,
+  normalize: toDays,
+};
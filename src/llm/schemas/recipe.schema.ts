@@ -0,0 +1,176 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsBoolean,
+  Min,
+  Max,
+  MaxLength,
+  ValidateNested,
+  ArrayMinSize,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AiOutputSpec } from "../structured-output";
+import { MEAL_CATEGORIES } from "./meal.schema";
+import { ToLowerCase, ToStringValue } from "./validators";
+
+export class AiRecipeMacros {
+  @IsNumber()
+  @Min(0)
+  calories: number;
+
+  @IsNumber()
+  @Min(0)
+  protein: number;
+
+  @IsNumber()
+  @Min(0)
+  carbs: number;
+
+  @IsNumber()
+  @Min(0)
+  fat: number;
+}
+
+export class AiRecipeIngredient {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ToStringValue()
+  @IsString()
+  amount: string;
+
+  @IsString()
+  unit: string;
+}
+
+export class AiRecipeInstruction {
+  @IsInt()
+  @Min(1)
+  step: number;
+
+  @IsString()
+  @IsNotEmpty()
+  instruction: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  time?: number;
+
+  @IsOptional()
+  @IsNumber()
+  temperature?: number | null;
+}
+
+export class AiDietaryInfo {
+  @IsOptional()
+  @IsBoolean()
+  isVegetarian?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isVegan?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isGlutenFree?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isDairyFree?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isKeto?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isLowCarb?: boolean;
+}
+
+// Mirrors the Recipe model's required fields
+export class AiRecipe {
+  @IsString()
+  @IsNotEmpty()
+  mealName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  mealId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ToLowerCase()
+  @IsIn(MEAL_CATEGORIES)
+  category: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  servings: number;
+
+  @IsNumber()
+  @Min(0)
+  prepTime: number;
+
+  @IsNumber()
+  @Min(0)
+  cookTime: number;
+
+  @IsOptional()
+  @ToLowerCase()
+  @IsIn(["easy", "medium", "hard"])
+  difficulty?: string;
+
+  @ValidateNested()
+  @Type(() => AiRecipeMacros)
+  macros: AiRecipeMacros;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AiRecipeIngredient)
+  ingredients: AiRecipeIngredient[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => AiRecipeInstruction)
+  instructions: AiRecipeInstruction[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  equipment?: string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AiDietaryInfo)
+  dietaryInfo?: AiDietaryInfo;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export const AI_RECIPE: AiOutputSpec<AiRecipe> = {
+  name: "recipe",
+  schema: AiRecipe,
+};
@@ -0,0 +1,37 @@
+import { ValidateBy, ValidationOptions, buildMessage } from "class-validator";
+import { Transform } from "class-transformer";
+
+/**
+ * An ingredient as models write it: "name|amount|unit|category" or
+ * "chicken_breast" strings, or [name, amount, category?] tuples.
+ */
+export const IsIngredientEntry = (validationOptions?: ValidationOptions) =>
+  ValidateBy(
+    {
+      name: "isIngredientEntry",
+      validator: {
+        validate: (value: unknown) =>
+          (typeof value === "string" && value.trim().length > 0) ||
+          (Array.isArray(value) &&
+            value.length >= 1 &&
+            value.length <= 3 &&
+            typeof value[0] === "string" &&
+            value[0].trim().length > 0 &&
+            value.every((part) => typeof part === "string")),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            `${eachPrefix}$property must be a non-empty string or a [name, amount, category?] tuple`,
+          validationOptions
+        ),
+      },
+    },
+    validationOptions
+  );
+
+// Models often answer "Monday" where the app uses "monday"
+export const ToLowerCase = () =>
+  Transform(({ value }) => (typeof value === "string" ? value.trim().toLowerCase() : value));
+
+// Numbers where the app stores strings (e.g. recipe amounts)
+export const ToStringValue = () =>
+  Transform(({ value }) => (typeof value === "number" ? String(value) : value));
@@ -0,0 +1,223 @@
+import { plainToInstance, ClassConstructor } from "class-transformer";
+import { validate, ValidationError } from "class-validator";
+import logger from "../utils/logger";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import { LlmClient, LlmFeature, LlmRequestOptions } from "./llm.types";
+import { LlmJsonParseError, parseJsonText } from "./llm.utils";
+
+/**
+ * Schema-validated AI output.
+ *
+ * Every structured response is checked against a class-validator schema
+ * (src/llm/schemas). When it does not conform, the model is asked again with
+ * the validation errors and its previous output, up to maxRepairs times.
+ * Each non-conforming attempt is reported to the failure sink (persisted by
+ * AiOutputFailureService) with the prompt and raw output.
+ */
+
+export interface AiOutputSpec<T extends object> {
+  name: string;
+  schema: ClassConstructor<T>;
+  // Reshape the parsed JSON before validation (e.g. wrap a bare array)
+  normalize?: (parsed: any) => unknown;
+  // Cross-field rules that decorators cannot express; returns error messages
+  check?: (value: T) => string[];
+}
+
+export interface StructuredOutputOptions extends LlmRequestOptions {
+  maxRepairs?: number;
+}
+
+export interface AiOutputFailureReport {
+  feature: LlmFeature;
+  schema: string;
+  provider: string;
+  model?: string;
+  userId?: string;
+  prompt: string;
+  rawOutput: string;
+  errors: string[];
+  attempt: number;
+  recovered: boolean; // a later attempt produced valid output
+}
+
+export type AiOutputFailureSink = (failures: AiOutputFailureReport[]) => unknown;
+
+export class AiOutputValidationError extends Error {
+  constructor(
+    readonly schema: string,
+    readonly errors: string[],
+    readonly rawOutput: string
+  ) {
+    super(
+      `AI output did not match ${schema} schema: ${errors.slice(0, 5).join("; ")}`
+    );
+    this.name = "AiOutputValidationError";
+  }
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_ERRORS_IN_PROMPT = 20;
+const MAX_RAW_IN_PROMPT = 6000;
+
+let failureSink: AiOutputFailureSink | null = null;
+
+export const setAiOutputFailureSink = (sink: AiOutputFailureSink | null) => {
+  failureSink = sink;
+};
+
+/**
+ * Flatten nested class-validator errors to "path.to.field: message" strings
+ */
+export const formatValidationErrors = (
+  errors: ValidationError[],
+  parentPath: string = ""
+): string[] =>
+  errors.flatMap((error) => {
+    const path = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = Object.values(error.constraints || {}).map(
+      (message) => `${path}: ${message}`
+    );
+    return [...own, ...formatValidationErrors(error.children || [], path)];
+  });
+
+/**
+ * Validate parsed JSON against a spec. Returns the typed value or the errors.
+ */
+export const validateAiOutput = async <T extends object>(
+  parsed: unknown,
+  spec: AiOutputSpec<T>
+): Promise<{ value?: T; errors: string[] }> => {
+  const candidate = spec.normalize ? spec.normalize(parsed) : parsed;
+  if (!candidate || typeof candidate !== "object" || Array.isArray(candidate)) {
+    return { errors: [`expected a JSON object for ${spec.name}`] };
+  }
+
+  const value = plainToInstance(spec.schema, candidate);
+  const errors = formatValidationErrors(await validate(value));
+  if (errors.length === 0 && spec.check) {
+    errors.push(...spec.check(value));
+  }
+  return errors.length > 0 ? { errors } : { value, errors };
+};
+
+const buildRepairPrompt = (
+  prompt: string,
+  rawOutput: string,
+  errors: string[]
+): string => `${prompt}
+
+----
+Your previous response did not match the required JSON format:
+${errors
+  .slice(0, MAX_ERRORS_IN_PROMPT)
+  .map((error) => `- ${error}`)
+  .join("\n")}
+
+Previous response:
+${rawOutput.slice(0, MAX_RAW_IN_PROMPT)}
+
+Fix only what the errors point out and return the complete corrected JSON. No other text.`;
+
+const reportFailures = (failures: AiOutputFailureReport[]) => {
+  if (failures.length === 0 || !failureSink) return;
+  Promise.resolve()
+    .then(() => failureSink?.(failures))
+    .catch((error) =>
+      logger.warn(
+        `[StructuredOutput] Could not record validation failures: ${getErrorMessage(error)}`
+      )
+    );
+};
+
+const runStructured = async <T extends object>(
+  llm: LlmClient,
+  prompt: string,
+  spec: AiOutputSpec<T>,
+  options: StructuredOutputOptions,
+  firstOutput?: string
+): Promise<T> => {
+  const { maxRepairs = DEFAULT_MAX_REPAIRS, ...requestOptions } = options;
+  const { userId } = requestOptions;
+  const context = requestOptions.context || spec.name;
+  const failures: AiOutputFailureReport[] = [];
+  let currentPrompt = prompt;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    let rawOutput: string;
+    let errors: string[];
+
+    try {
+      const parsed =
+        attempt === 0 && firstOutput !== undefined
+          ? parseJsonText(firstOutput)
+          : await llm.generateJson(currentPrompt, requestOptions);
+      rawOutput =
+        attempt === 0 && firstOutput !== undefined
+          ? firstOutput
+          : JSON.stringify(parsed, null, 2);
+
+      const result = await validateAiOutput(parsed, spec);
+      if (result.value) {
+        if (attempt > 0) {
+          logger.info(`[${context}] Output valid after ${attempt} repair attempt(s)`);
+        }
+        reportFailures(failures.map((f) => ({ ...f, recovered: true })));
+        return result.value;
+      }
+      errors = result.errors;
+    } catch (error) {
+      // Transport/provider errors are not a format problem; let the caller handle them
+      if (!(error instanceof LlmJsonParseError)) {
+        reportFailures(failures);
+        throw error;
+      }
+      rawOutput = error.raw;
+      errors = [error.message];
+    }
+
+    logger.warn(
+      `[${context}] Output failed ${spec.name} validation (attempt ${attempt + 1}/${maxRepairs + 1}): ${errors.slice(0, 3).join("; ")}`
+    );
+    failures.push({
+      feature: llm.feature,
+      schema: spec.name,
+      provider: llm.providerName,
+      model: llm.model,
+      userId,
+      prompt: currentPrompt,
+      rawOutput,
+      errors,
+      attempt,
+      recovered: false,
+    });
+    currentPrompt = buildRepairPrompt(prompt, rawOutput, errors);
+  }
+
+  reportFailures(failures);
+  const last = failures[failures.length - 1];
+  throw new AiOutputValidationError(spec.name, last.errors, last.rawOutput);
+};
+
+/**
+ * Ask the feature's LLM for JSON matching the spec, re-prompting with the
+ * validation errors until it conforms or the repair budget is spent.
+ */
+export const generateStructured = <T extends object>(
+  llm: LlmClient,
+  prompt: string,
+  spec: AiOutputSpec<T>,
+  options: StructuredOutputOptions = {}
+): Promise<T> => runStructured(llm, prompt, spec, options);
+
+/**
+ * Validate JSON the model already produced as part of a larger reply (e.g. a
+ * chat action block), re-prompting for just the JSON when it does not conform.
+ */
+export const validateStructuredOutput = <T extends object>(
+  llm: LlmClient,
+  prompt: string,
+  rawOutput: string,
+  spec: AiOutputSpec<T>,
+  options: StructuredOutputOptions = {}
+): Promise<T> => runStructured(llm, prompt, spec, options, rawOutput);
@@ -0,0 +1,53 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsOptional,
+  IsArray,
+  IsMongoId,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
+  IsDateString,
+  ArrayMaxSize,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+
+export class InboxQueryDto {
+  @ApiPropertyOptional({ description: "Only unread items", default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === "true")
+  @IsBoolean()
+  unreadOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Cursor: return items created before this time (nextCursor of the previous page)",
+  })
+  @IsOptional()
+  @IsDateString()
+  before?: string;
+
+  @ApiPropertyOptional({ default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class MarkInboxReadDto {
+  @ApiPropertyOptional({
+    description: "Item ids to mark read. Omit (with all=true) to mark everything read.",
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsMongoId({ each: true })
+  ids?: string[];
+
+  @ApiPropertyOptional({ description: "Mark every unread item read", default: false })
+  @IsOptional()
+  @IsBoolean()
+  all?: boolean;
+}
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { NotificationType } from "../types/interfaces";
+
+export interface IInboxItem extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  body: string;
+  deepLink?: string; // client route, e.g. "/social/posts/<id>"
+  data?: Record<string, any>;
+  actorId?: mongoose.Types.ObjectId; // user who triggered it (follower, commenter)
+  readAt?: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const InboxItem = { name: "InboxItem" };
+
+// Retention: unread items for 90 days, read items for 30 days after reading
+export const INBOX_UNREAD_RETENTION_DAYS = 90;
+export const INBOX_READ_RETENTION_DAYS = 30;
+
+const inboxItemSchema = new Schema<IInboxItem>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: { type: String, required: true },
+    title: { type: String, required: true },
+    body: { type: String, required: true },
+    deepLink: { type: String },
+    data: { type: Schema.Types.Mixed },
+    actorId: { type: Schema.Types.ObjectId, ref: "User" },
+    readAt: { type: Date, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+    collection: "notification_inbox",
+  }
+);
+
+inboxItemSchema.index({ userId: 1, createdAt: -1 });
+inboxItemSchema.index({ userId: 1, readAt: 1 });
+inboxItemSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const InboxItemSchema = inboxItemSchema;
@@ -0,0 +1,230 @@
+import { BadRequestException, Injectable, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import mongoose from "mongoose";
+import {
+  InboxItem,
+  IInboxItem,
+  INBOX_READ_RETENTION_DAYS,
+  INBOX_UNREAD_RETENTION_DAYS,
+} from "./inbox-item.model";
+import { InboxQueryDto, MarkInboxReadDto } from "./dto";
+import { User } from "../user/user.model";
+import { IUserData, NotificationType } from "../types/interfaces";
+import { EventBus } from "../events/event-bus";
+import logger from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface InboxEntry {
+  type: NotificationType;
+  title: string;
+  body: string;
+  deepLink?: string;
+  data?: Record<string, any>;
+  actorId?: string;
+}
+
+/**
+ * Per-user notification inbox. Entries are created from domain events
+ * (badges, completed challenges, followers, comments, coaching) so the
+ * services that raise them don't depend on notifications.
+ */
+@Injectable()
+export class InboxService implements OnModuleInit {
+  constructor(
+    @InjectModel(InboxItem.name) private inboxModel: Model<IInboxItem>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private eventBus: EventBus
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe("engagement.badge_earned", "InboxService", ({ userId, badge }) =>
+      this.add(userId, {
+        type: "badge_earned",
+        title: "New Badge Earned!",
+        body: `You earned "${badge.name}" - ${badge.description}`,
+        deepLink: "/achievements",
+        data: { badgeId: badge.id, icon: badge.icon },
+      })
+    );
+
+    this.eventBus.subscribe("challenge.completed", "InboxService", ({ userId, challengeId, title, badgeId }) =>
+      this.add(userId, {
+        type: "challenge_complete",
+        title: "Challenge Complete!",
+        body: `You completed "${title}". Claim your reward!`,
+        deepLink: `/challenges/${challengeId}`,
+        data: { challengeId, badgeId },
+      })
+    );
+
+    this.eventBus.subscribe("social.followed", "InboxService", async ({ followerId, followingId }) => {
+      const name = await this.getUserName(followerId);
+      return this.add(followingId, {
+        type: "new_follower",
+        title: "New follower",
+        body: `${name} started following you`,
+        deepLink: `/social/users/${followerId}`,
+        actorId: followerId,
+      });
+    });
+
+    this.eventBus.subscribe("account.export_ready", "InboxService", ({ userId, exportId, expiresAt }) =>
+      this.add(userId, {
+        type: "data_export_ready",
+        title: "Your data export is ready",
+        body: `Download it before ${expiresAt.slice(0, 10)}.`,
+        deepLink: "/settings/data-export",
+        data: { exportId },
+      })
+    );
+
+    this.eventBus.subscribe("social.commented", "InboxService", async (event) => {
+      const name = await this.getUserName(event.commenterId);
+      const preview = event.text.length > 80 ? `${event.text.slice(0, 77)}...` : event.text;
+      return this.add(event.postOwnerId, {
+        type: "new_comment",
+        title: "New comment",
+        body: `${name} commented: "${preview}"`,
+        deepLink: `/social/posts/${event.postId}`,
+        data: { postId: event.postId, commentId: event.commentId },
+        actorId: event.commenterId,
+      });
+    });
+
+    this.eventBus.subscribe("coach.client_joined", "InboxService", async ({ coachId, clientId }) => {
+      const name = await this.getUserName(clientId);
+      return this.add(coachId, {
+        type: "coach_client_joined",
+        title: "New client",
+        body: `${name} joined your client roster`,
+        deepLink: `/coach/clients/${clientId}`,
+        actorId: clientId,
+      });
+    });
+
+    this.eventBus.subscribe("coach.note_added", "InboxService", async (event) => {
+      const name = await this.getUserName(event.coachId);
+      return this.add(event.clientId, {
+        type: "coach_note",
+        title: "New note from your coach",
+        body: `${name} left a note on ${event.dateKey}`,
+        deepLink: `/coach-notes?date=${event.dateKey}`,
+        data: { noteId: event.noteId, dateKey: event.dateKey },
+        actorId: event.coachId,
+      });
+    });
+
+    this.eventBus.subscribe("coach.plan_edit_proposed", "InboxService", async (event) => {
+      const name = await this.getUserName(event.coachId);
+      return this.add(event.clientId, {
+        type: "plan_edit_proposed",
+        title: "Suggested plan change",
+        body: `${name} suggests ${event.mealName} for ${event.mealType} on ${event.date}`,
+        deepLink: `/plan-proposals/${event.proposalId}`,
+        data: { proposalId: event.proposalId },
+        actorId: event.coachId,
+      });
+    });
+
+    this.eventBus.subscribe("coach.plan_edit_decided", "InboxService", async (event) => {
+      const name = await this.getUserName(event.clientId);
+      return this.add(event.coachId, {
+        type: "plan_edit_decided",
+        title: event.decision === "accepted" ? "Plan change accepted" : "Plan change declined",
+        body: `${name} ${event.decision} your suggestion of ${event.mealName}`,
+        deepLink: `/coach/clients/${event.clientId}`,
+        data: { proposalId: event.proposalId, decision: event.decision },
+        actorId: event.clientId,
+      });
+    });
+  }
+
+  async add(userId: string, entry: InboxEntry): Promise<IInboxItem> {
+    const item = await this.inboxModel.create({
+      ...entry,
+      userId: new mongoose.Types.ObjectId(userId),
+      actorId: entry.actorId ? new mongoose.Types.ObjectId(entry.actorId) : undefined,
+      expiresAt: new Date(Date.now() + INBOX_UNREAD_RETENTION_DAYS * DAY_MS),
+    });
+    logger.info(`[InboxService] ${entry.type} added for user ${userId}`);
+    return item;
+  }
+
+  /**
+   * Newest first, paged by createdAt cursor
+   */
+  async list(userId: string, query: InboxQueryDto) {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const filter: Record<string, unknown> = { userId: new mongoose.Types.ObjectId(userId) };
+    if (query.unreadOnly) filter.readAt = null;
+    if (query.before) filter.createdAt = { $lt: new Date(query.before) };
+
+    const [items, unreadCount] = await Promise.all([
+      this.inboxModel.find(filter).sort({ createdAt: -1 }).limit(limit + 1).lean(),
+      this.getUnreadCount(userId),
+    ]);
+
+    const hasMore = items.length > limit;
+    const page = hasMore ? items.slice(0, limit) : items;
+    return {
+      items: page,
+      unreadCount,
+      nextCursor: hasMore ? page[page.length - 1].createdAt.toISOString() : null,
+    };
+  }
+
+  getUnreadCount(userId: string): Promise<number> {
+    return this.inboxModel.countDocuments({
+      userId: new mongoose.Types.ObjectId(userId),
+      readAt: null,
+    });
+  }
+
+  /**
+   * Mark the given items (or all unread items) read. Read items are kept for
+   * a shorter period than unread ones.
+   */
+  async markRead(userId: string, dto: MarkInboxReadDto): Promise<{ updated: number; unreadCount: number }> {
+    if (!dto.all && !dto.ids?.length) {
+      throw new BadRequestException("Provide ids or set all to true");
+    }
+
+    const now = new Date();
+    const filter: Record<string, unknown> = {
+      userId: new mongoose.Types.ObjectId(userId),
+      readAt: null,
+    };
+    if (!dto.all) {
+      filter._id = { $in: dto.ids!.map((id) => new mongoose.Types.ObjectId(id)) };
+    }
+
+    const result = await this.inboxModel.updateMany(filter, {
+      $set: {
+        readAt: now,
+        expiresAt: new Date(now.getTime() + INBOX_READ_RETENTION_DAYS * DAY_MS),
+      },
+    });
+    return { updated: result.modifiedCount, unreadCount: await this.getUnreadCount(userId) };
+  }
+
+  async remove(userId: string, itemId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(itemId)) {
+      throw new NotFoundException("Notification not found");
+    }
+    const result = await this.inboxModel.deleteOne({
+      _id: new mongoose.Types.ObjectId(itemId),
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException("Notification not found");
+    }
+  }
+
+  private async getUserName(userId: string): Promise<string> {
+    const user = await this.userModel.findById(userId).select("name").lean();
+    return user?.name || "Someone";
+  }
+}
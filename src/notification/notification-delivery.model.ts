@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { NotificationType } from "../types/interfaces";
+import { PushPlatform, PushSendStatus } from "./transports";
+
+export type NotificationDeliveryStatus = "sending" | "sent" | "partial" | "failed";
+
+export interface INotificationReceipt {
+  platform: PushPlatform;
+  transport?: string;
+  token: string; // masked
+  status: PushSendStatus;
+  messageId?: string;
+  error?: string;
+}
+
+export interface INotificationDelivery extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  dedupKey: string; // "<userId>:<slot key>"; unique so a slot is sent at most once
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  status: NotificationDeliveryStatus;
+  receipts: INotificationReceipt[];
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const NotificationDelivery = { name: "NotificationDelivery" };
+
+const receiptSchema = new Schema<INotificationReceipt>(
+  {
+    platform: { type: String, enum: ["fcm", "apns", "webpush"], required: true },
+    transport: { type: String },
+    token: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["delivered", "invalid_token", "failed"],
+      required: true,
+    },
+    messageId: { type: String },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+const notificationDeliverySchema = new Schema<INotificationDelivery>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: { type: String, required: true },
+    dedupKey: { type: String, required: true },
+    title: { type: String, required: true },
+    body: { type: String, required: true },
+    data: { type: Schema.Types.Mixed },
+    status: {
+      type: String,
+      enum: ["sending", "sent", "partial", "failed"],
+      default: "sending",
+    },
+    receipts: { type: [receiptSchema], default: [] },
+    sentAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "notification_deliveries",
+  }
+);
+
+notificationDeliverySchema.index({ dedupKey: 1 }, { unique: true });
+notificationDeliverySchema.index({ userId: 1, createdAt: -1 });
+// Keep 90 days of receipts (the dedup window only needs a few days)
+notificationDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+export const NotificationDeliverySchema = notificationDeliverySchema;
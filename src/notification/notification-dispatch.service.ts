@@ -0,0 +1,235 @@
+import { Injectable, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import mongoose from "mongoose";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import {
+  NotificationDelivery,
+  INotificationDelivery,
+  INotificationReceipt,
+  NotificationDeliveryStatus,
+} from "./notification-delivery.model";
+import { NotificationPayload, NotificationService } from "./notification.service";
+import { WeeklySummaryService } from "../engagement/weekly-summary.service";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import { detectPushPlatform, getPushTransport, maskToken } from "./transports";
+import { DueNotificationSlot, getDueNotificationSlots } from "../utils/notificationSchedule";
+import { getZonedTime } from "../utils/timezone";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+import logger from "../utils/logger";
+
+const DISPATCH_JOB = "notifications.dispatch";
+const DISPATCH_CRON = "*/5 * * * *";
+// Wider than the cron interval so a delayed run still sends the slot
+const DISPATCH_WINDOW_MINUTES = 30;
+
+/**
+ * Sends server-side push notifications.
+ *
+ * Every 5 minutes the dispatch job walks users with device tokens, works out
+ * which reminders are due in each user's timezone (skipping quiet hours) and
+ * sends them through the platform's transport. Each send is claimed by
+ * inserting a delivery with a unique dedup key first, so a slot is delivered
+ * at most once even if runs overlap. Per-token receipts are stored on the
+ * delivery and tokens the provider rejects are removed from the user.
+ */
+@Injectable()
+export class NotificationDispatchService implements OnModuleInit {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    @InjectModel(NotificationDelivery.name)
+    private deliveryModel: Model<INotificationDelivery>,
+    private notificationService: NotificationService,
+    private weeklySummaryService: WeeklySummaryService,
+    private jobScheduler: JobSchedulerService
+  ) {}
+
+  async onModuleInit() {
+    this.jobScheduler.registerHandler(
+      DISPATCH_JOB,
+      () => this.dispatchDueNotifications(),
+      // A missed run is covered by the next one
+      { maxAttempts: 1 }
+    );
+    try {
+      await this.jobScheduler.scheduleRecurring(DISPATCH_JOB, DISPATCH_CRON);
+    } catch (error) {
+      logger.error(`[NotificationDispatch] Could not schedule dispatch: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Send every notification that is due now, for all users with devices
+   */
+  async dispatchDueNotifications(now: Date = new Date()): Promise<{ users: number; sent: number }> {
+    const cursor = this.userModel
+      .find({
+        "deviceTokens.0": { $exists: true },
+        "notificationPreferences.enabled": { $ne: false },
+      })
+      .select("_id notificationPreferences deviceTokens timezone")
+      .lean()
+      .cursor();
+
+    let users = 0;
+    let sent = 0;
+    for await (const user of cursor) {
+      users++;
+      try {
+        sent += await this.dispatchForUser(user as IUserData, now);
+      } catch (error) {
+        logger.error(
+          `[NotificationDispatch] Failed for user ${user._id}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+
+    if (sent > 0) {
+      logger.info(`[NotificationDispatch] Sent ${sent} notification(s) to ${users} user(s) checked`);
+    }
+    return { users, sent };
+  }
+
+  private async dispatchForUser(user: IUserData, now: Date): Promise<number> {
+    const preferences =
+      user.notificationPreferences || this.notificationService.getDefaultPreferences();
+    const zoned = getZonedTime(now, user.timezone);
+    const slots = getDueNotificationSlots(preferences, zoned, DISPATCH_WINDOW_MINUTES);
+    if (slots.length === 0) return 0;
+
+    // Not recorded, so the slot is picked up if quiet hours end within the window
+    if (this.notificationService.isQuietHours(preferences, user.timezone, now)) return 0;
+
+    const userId = user._id.toString();
+    let sent = 0;
+    for (const slot of slots) {
+      const payload = await this.buildPayload(userId, slot);
+      if (!payload) continue;
+      const delivery = await this.deliver(userId, user.deviceTokens || [], payload, slot.slotKey);
+      if (delivery) sent++;
+    }
+    return sent;
+  }
+
+  private async buildPayload(
+    userId: string,
+    slot: DueNotificationSlot
+  ): Promise<NotificationPayload | null> {
+    switch (slot.type) {
+      case "meal_reminder":
+        return this.notificationService.getMealReminderPayload(slot.mealType!);
+      case "streak_warning":
+        // Only when there is a streak and nothing was logged today
+        return this.notificationService.checkStreakWarning(userId);
+      case "weekly_summary":
+        return this.notificationService.getWeeklySummaryPayload(
+          await this.weeklySummaryService.getLatestSummary(userId)
+        );
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Send a payload to all of a user's devices, at most once per dedup key.
+   * Returns the delivery, or null when this key was already sent.
+   */
+  async deliver(
+    userId: string,
+    tokens: string[],
+    payload: NotificationPayload,
+    slotKey: string
+  ): Promise<INotificationDelivery | null> {
+    let delivery: INotificationDelivery;
+    try {
+      delivery = await this.deliveryModel.create({
+        userId: new mongoose.Types.ObjectId(userId),
+        type: payload.type,
+        dedupKey: `${userId}:${slotKey}`,
+        title: payload.title,
+        body: payload.body,
+        data: payload.data,
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+
+    const receipts: INotificationReceipt[] = [];
+    const invalidTokens: string[] = [];
+    for (const token of tokens) {
+      const platform = detectPushPlatform(token);
+      const transport = getPushTransport(platform);
+      const result = transport
+        ? await transport.send(token, payload)
+        : { status: "failed" as const, error: `No ${platform} transport configured` };
+
+      receipts.push({
+        platform,
+        transport: transport?.name,
+        token: maskToken(token),
+        ...result,
+      });
+      if (result.status === "invalid_token") invalidTokens.push(token);
+    }
+
+    const delivered = receipts.filter((r) => r.status === "delivered").length;
+    const status: NotificationDeliveryStatus =
+      delivered === 0 ? "failed" : delivered === receipts.length ? "sent" : "partial";
+
+    await this.deliveryModel.updateOne(
+      { _id: delivery._id },
+      { $set: { status, receipts, ...(delivered > 0 ? { sentAt: new Date() } : {}) } }
+    );
+    if (invalidTokens.length > 0) {
+      await this.pruneTokens(userId, invalidTokens);
+    }
+
+    delivery.status = status;
+    delivery.receipts = receipts;
+    return delivery;
+  }
+
+  /**
+   * Send a one-off test push to the user's devices
+   */
+  async sendTestNotification(userId: string): Promise<INotificationDelivery> {
+    const user = await this.userModel.findById(userId).select("deviceTokens").lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+    if (!user.deviceTokens?.length) {
+      throw new NotFoundException("No registered devices");
+    }
+
+    const delivery = await this.deliver(
+      userId,
+      user.deviceTokens,
+      this.notificationService.getMotivationalPayload("encouragement"),
+      `test:${Date.now()}`
+    );
+    return delivery!;
+  }
+
+  /**
+   * Recent deliveries with their per-device receipts
+   */
+  async getDeliveries(userId: string, limit: number = 50) {
+    return this.deliveryModel
+      .find({ userId: new mongoose.Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), 200))
+      .lean();
+  }
+
+  private async pruneTokens(userId: string, tokens: string[]): Promise<void> {
+    await this.userModel.updateOne(
+      { _id: userId },
+      { $pull: { deviceTokens: { $in: tokens } } }
+    );
+    logger.info(
+      `[NotificationDispatch] Removed ${tokens.length} invalid device token(s) for user ${userId}`
+    );
+  }
+}
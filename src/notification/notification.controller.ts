@@ -3,21 +3,36 @@ import {
   Get,
   Put,
   Post,
+  Patch,
   Delete,
   Body,
+  Param,
+  Query,
   UseGuards,
   Request,
   HttpException,
   HttpStatus,
+  BadRequestException,
 } from "@nestjs/common";
 import { AuthGuard } from "@nestjs/passport";
 import { NotificationService } from "./notification.service";
+import { NotificationDispatchService } from "./notification-dispatch.service";
+import { InboxService } from "./inbox.service";
+import { SessionService } from "../auth/session.service";
+import { InboxQueryDto, MarkInboxReadDto } from "./dto";
+import { detectPushPlatform, parseWebPushSubscription } from "./transports";
 import { INotificationPreferences } from "../types/interfaces";
 import logger from "../utils/logger";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
 
 @Controller("notifications")
 export class NotificationController {
-  constructor(private readonly notificationService: NotificationService) {}
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly dispatchService: NotificationDispatchService,
+    private readonly inboxService: InboxService,
+    private readonly sessionService: SessionService
+  ) {}
 
   /**
    * Get user's notification preferences
@@ -84,9 +99,25 @@ export class NotificationController {
     @Request() req: any,
     @Body() body: { token: string }
   ) {
+    if (typeof body?.token !== "string" || !body.token.trim()) {
+      throw new BadRequestException("Device token is required");
+    }
+    // Web push tokens carry the URL we will post to; only known push services
+    if (detectPushPlatform(body.token) === "webpush") {
+      try {
+        parseWebPushSubscription(body.token);
+      } catch (error) {
+        throw new BadRequestException(`Invalid push subscription: ${getErrorMessage(error)}`);
+      }
+    }
+
     try {
       const userId = req.user._id.toString();
       await this.notificationService.registerDeviceToken(userId, body.token);
+      // Signing this session out removes the token again
+      if (req.sessionId) {
+        await this.sessionService.attachDeviceToken(userId, req.sessionId, body.token);
+      }
 
       return {
         success: true,
@@ -112,6 +143,7 @@ export class NotificationController {
     try {
       const userId = req.user._id.toString();
       await this.notificationService.removeDeviceToken(userId, body.token);
+      await this.sessionService.detachDeviceToken(userId, body.token);
 
       return {
         success: true,
@@ -181,6 +213,154 @@ export class NotificationController {
     }
   }
 
+  /**
+   * Recent push deliveries with per-device receipts
+   */
+  @Get("deliveries")
+  @UseGuards(AuthGuard("jwt"))
+  async getDeliveries(@Request() req: any, @Query("limit") limit?: string) {
+    try {
+      const userId = req.user._id.toString();
+      const deliveries = await this.dispatchService.getDeliveries(
+        userId,
+        limit ? parseInt(limit, 10) || 50 : 50
+      );
+
+      return {
+        success: true,
+        data: deliveries,
+      };
+    } catch (error: any) {
+      logger.error(
+        `[NotificationController] Error getting deliveries: ${error.message}`
+      );
+      throw new HttpException(
+        error.message || "Failed to get deliveries",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Send a test push to all of the user's registered devices
+   */
+  @Post("test")
+  @UseGuards(AuthGuard("jwt"))
+  async sendTestNotification(@Request() req: any) {
+    try {
+      const userId = req.user._id.toString();
+      const delivery = await this.dispatchService.sendTestNotification(userId);
+
+      return {
+        success: true,
+        data: delivery,
+      };
+    } catch (error: any) {
+      logger.error(
+        `[NotificationController] Error sending test notification: ${error.message}`
+      );
+      if (error instanceof HttpException) throw error;
+      throw new HttpException(
+        error.message || "Failed to send test notification",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * In-app inbox, newest first (cursor-paged by createdAt)
+   */
+  @Get("inbox")
+  @UseGuards(AuthGuard("jwt"))
+  async getInbox(@Request() req: any, @Query() query: InboxQueryDto) {
+    try {
+      const userId = req.user._id.toString();
+      const inbox = await this.inboxService.list(userId, query);
+
+      return {
+        success: true,
+        data: inbox,
+      };
+    } catch (error: any) {
+      logger.error(`[NotificationController] Error getting inbox: ${error.message}`);
+      throw new HttpException(
+        error.message || "Failed to get inbox",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Number of unread inbox items (for the badge on the bell icon)
+   */
+  @Get("inbox/unread-count")
+  @UseGuards(AuthGuard("jwt"))
+  async getUnreadCount(@Request() req: any) {
+    try {
+      const userId = req.user._id.toString();
+      const unreadCount = await this.inboxService.getUnreadCount(userId);
+
+      return {
+        success: true,
+        data: { unreadCount },
+      };
+    } catch (error: any) {
+      logger.error(`[NotificationController] Error getting unread count: ${error.message}`);
+      throw new HttpException(
+        error.message || "Failed to get unread count",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Mark inbox items read: { ids: [...] } or { all: true }
+   */
+  @Patch("inbox/read")
+  @UseGuards(AuthGuard("jwt"))
+  async markInboxRead(@Request() req: any, @Body() body: MarkInboxReadDto) {
+    try {
+      const userId = req.user._id.toString();
+      const result = await this.inboxService.markRead(userId, body);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error: any) {
+      logger.error(`[NotificationController] Error marking inbox read: ${error.message}`);
+      if (error instanceof HttpException) throw error;
+      throw new HttpException(
+        error.message || "Failed to mark notifications read",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Delete an inbox item
+   */
+  @Delete("inbox/:id")
+  @UseGuards(AuthGuard("jwt"))
+  async deleteInboxItem(@Request() req: any, @Param("id") id: string) {
+    try {
+      const userId = req.user._id.toString();
+      await this.inboxService.remove(userId, id);
+
+      return {
+        success: true,
+        message: "Notification deleted",
+      };
+    } catch (error: any) {
+      logger.error(`[NotificationController] Error deleting inbox item: ${error.message}`);
+      if (error instanceof HttpException) throw error;
+      throw new HttpException(
+        error.message || "Failed to delete notification",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   /**
    * Get default notification preferences
    */
@@ -4,16 +4,27 @@ import { NotificationController } from "./notification.controller";
 import { NotificationService } from "./notification.service";
 import { User, UserSchema } from "../user/user.model";
 import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
+import {
+  NotificationDelivery,
+  NotificationDeliverySchema,
+} from "./notification-delivery.model";
+import { NotificationDispatchService } from "./notification-dispatch.service";
+import { InboxItem, InboxItemSchema } from "./inbox-item.model";
+import { InboxService } from "./inbox.service";
+import { EngagementModule } from "../engagement/engagement.module";
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: DailyProgress.name, schema: DailyProgressSchema },
+      { name: NotificationDelivery.name, schema: NotificationDeliverySchema },
+      { name: InboxItem.name, schema: InboxItemSchema },
     ]),
+    EngagementModule,
   ],
   controllers: [NotificationController],
-  providers: [NotificationService],
-  exports: [NotificationService],
+  providers: [NotificationService, NotificationDispatchService, InboxService],
+  exports: [NotificationService, NotificationDispatchService, InboxService],
 })
 export class NotificationModule {}
@@ -6,8 +6,11 @@ import { DailyProgress } from "../progress/progress.model";
 import {
   IUserData,
   INotificationPreferences,
+  IWeeklySummary,
   NotificationType,
 } from "../types/interfaces";
+import { getDateKeyInZone, getZonedTime } from "../utils/timezone";
+import { isInQuietHours } from "../utils/notificationSchedule";
 import logger from "../utils/logger";
 
 // Motivational messages by category
@@ -174,27 +177,15 @@ export class NotificationService {
   }
 
   /**
-   * Check if current time is within quiet hours
+   * Check if current time is within quiet hours, in the user's timezone
+   * (server default zone when none is set)
    */
-  isQuietHours(preferences: INotificationPreferences): boolean {
-    if (!preferences.quietHours?.enabled) return false;
-
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentTime = currentHour * 60 + currentMinute;
-
-    const [startHour, startMinute] = preferences.quietHours.start.split(":").map(Number);
-    const [endHour, endMinute] = preferences.quietHours.end.split(":").map(Number);
-    const startTime = startHour * 60 + startMinute;
-    const endTime = endHour * 60 + endMinute;
-
-    // Handle overnight quiet hours (e.g., 22:00 to 08:00)
-    if (startTime > endTime) {
-      return currentTime >= startTime || currentTime <= endTime;
-    }
-
-    return currentTime >= startTime && currentTime <= endTime;
+  isQuietHours(
+    preferences: INotificationPreferences,
+    timeZone?: string | null,
+    now: Date = new Date()
+  ): boolean {
+    return isInQuietHours(preferences.quietHours, getZonedTime(now, timeZone).minutesOfDay);
   }
 
   /**
@@ -280,6 +271,25 @@ export class NotificationService {
     };
   }
 
+  /**
+   * Get weekly summary notification payload
+   */
+  getWeeklySummaryPayload(summary: IWeeklySummary | null): NotificationPayload {
+    if (!summary) {
+      return {
+        type: "weekly_summary",
+        title: "Your week in review",
+        body: "Check in on how your week went and plan the next one",
+      };
+    }
+    return {
+      type: "weekly_summary",
+      title: "Your week in review",
+      body: `You tracked ${summary.daysTracked}/7 days (${summary.consistencyScore}% consistency). ${summary.motivationalMessage}`,
+      data: { consistencyScore: summary.consistencyScore },
+    };
+  }
+
   /**
    * Get motivational notification payload
    */
@@ -341,10 +351,8 @@ export class NotificationService {
     const streak = user.engagement.streakDays;
     if (streak <= 0) return null;
 
-    // Check if user has logged anything today
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayKey = today.toISOString().split("T")[0];
+    // Check if user has logged anything today (their local day)
+    const todayKey = getDateKeyInZone(new Date(), user.timezone);
 
     const todayProgress = await this.progressModel.findOne({
       userId,
@@ -0,0 +1,111 @@
+import http2 from "http2";
+import crypto from "crypto";
+import { getErrorMessage } from "../../utils/gemini-rate-limiter";
+import { PushMessage, PushSendResult, PushTransport, toStringData } from "./push-transport";
+
+const PRODUCTION_HOST = "https://api.push.apple.com";
+const SANDBOX_HOST = "https://api.sandbox.push.apple.com";
+// Apple accepts provider tokens for up to an hour; refresh well before that
+const PROVIDER_TOKEN_TTL_MS = 40 * 60 * 1000;
+const INVALID_TOKEN_REASONS = ["BadDeviceToken", "Unregistered", "DeviceTokenNotForTopic"];
+
+export interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  privateKey: string; // .p8 contents
+  bundleId: string;
+  production: boolean;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString("base64url");
+
+/**
+ * Apple Push Notification service over HTTP/2 with token (.p8) authentication
+ */
+export class ApnsTransport implements PushTransport {
+  readonly name = "apns";
+  private providerToken: { value: string; issuedAt: number } | null = null;
+
+  constructor(private readonly config: ApnsConfig) {}
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    const payload = JSON.stringify({
+      aps: {
+        alert: { title: message.title, body: message.body },
+        sound: "default",
+      },
+      ...toStringData(message),
+    });
+
+    try {
+      const { status, body, apnsId } = await this.request(token, payload);
+      if (status === 200) {
+        return { status: "delivered", messageId: apnsId };
+      }
+      const reason: string = body ? JSON.parse(body).reason : `HTTP ${status}`;
+      return {
+        status: status === 410 || INVALID_TOKEN_REASONS.includes(reason) ? "invalid_token" : "failed",
+        error: reason,
+      };
+    } catch (error) {
+      return { status: "failed", error: getErrorMessage(error) };
+    }
+  }
+
+  private request(
+    token: string,
+    payload: string
+  ): Promise<{ status: number; body: string; apnsId?: string }> {
+    return new Promise((resolve, reject) => {
+      const session = http2.connect(this.config.production ? PRODUCTION_HOST : SANDBOX_HOST);
+      session.on("error", reject);
+
+      const request = session.request({
+        ":method": "POST",
+        ":path": `/3/device/${token}`,
+        authorization: `bearer ${this.getProviderToken()}`,
+        "apns-topic": this.config.bundleId,
+        "apns-push-type": "alert",
+        "content-type": "application/json",
+      });
+      request.setTimeout(10000, () => request.close(http2.constants.NGHTTP2_CANCEL));
+
+      let status = 0;
+      let apnsId: string | undefined;
+      let body = "";
+      request.on("response", (headers) => {
+        status = Number(headers[":status"]);
+        apnsId = headers["apns-id"] as string | undefined;
+      });
+      request.setEncoding("utf8");
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        session.close();
+        resolve({ status, body, apnsId });
+      });
+      request.on("error", (error) => {
+        session.close();
+        reject(error);
+      });
+      request.end(payload);
+    });
+  }
+
+  private getProviderToken(): string {
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS) {
+      return this.providerToken.value;
+    }
+    const issuedAt = Date.now();
+    const header = base64url(JSON.stringify({ alg: "ES256", kid: this.config.keyId }));
+    const claims = base64url(
+      JSON.stringify({ iss: this.config.teamId, iat: Math.floor(issuedAt / 1000) })
+    );
+    const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), {
+      key: this.config.privateKey,
+      dsaEncoding: "ieee-p1363",
+    });
+    const value = `${header}.${claims}.${base64url(signature)}`;
+    this.providerToken = { value, issuedAt };
+    return value;
+  }
+}
@@ -0,0 +1,56 @@
+import axios from "axios";
+import { GoogleAuth } from "google-auth-library";
+import { getErrorMessage } from "../../utils/gemini-rate-limiter";
+import { PushMessage, PushSendResult, PushTransport, toStringData } from "./push-transport";
+
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+// INVALID_ARGUMENT is left out: it is also returned for malformed messages
+const INVALID_TOKEN_ERRORS = ["UNREGISTERED", "SENDER_ID_MISMATCH"];
+
+/**
+ * Firebase Cloud Messaging HTTP v1.
+ * Credentials come from FCM_SERVICE_ACCOUNT_JSON or GOOGLE_APPLICATION_CREDENTIALS.
+ */
+export class FcmTransport implements PushTransport {
+  readonly name = "fcm";
+  private readonly auth: GoogleAuth;
+
+  constructor(
+    private readonly projectId: string,
+    serviceAccountJson?: string
+  ) {
+    this.auth = new GoogleAuth({
+      scopes: [FCM_SCOPE],
+      ...(serviceAccountJson ? { credentials: JSON.parse(serviceAccountJson) } : {}),
+    });
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    try {
+      const accessToken = await this.auth.getAccessToken();
+      const response = await axios.post(
+        `https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`,
+        {
+          message: {
+            token,
+            notification: { title: message.title, body: message.body },
+            data: toStringData(message),
+          },
+        },
+        {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          timeout: 10000,
+        }
+      );
+      return { status: "delivered", messageId: response.data?.name };
+    } catch (error: any) {
+      const details = error?.response?.data?.error;
+      const code: string | undefined =
+        details?.details?.find((d: any) => d.errorCode)?.errorCode || details?.status;
+      return {
+        status: code && INVALID_TOKEN_ERRORS.includes(code) ? "invalid_token" : "failed",
+        error: code ? `${code}: ${details?.message || ""}`.trim() : getErrorMessage(error),
+      };
+    }
+  }
+}
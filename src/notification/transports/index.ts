@@ -0,0 +1,87 @@
+import logger from "../../utils/logger";
+import { PushPlatform, PushTransport } from "./push-transport";
+import { FcmTransport } from "./fcm.transport";
+import { ApnsTransport } from "./apns.transport";
+import { WebPushTransport } from "./web-push.transport";
+import { ConsolePushTransport, FilePushTransport } from "./local.transport";
+
+export * from "./push-transport";
+export { FcmTransport } from "./fcm.transport";
+export { ApnsTransport } from "./apns.transport";
+export { WebPushTransport, parseWebPushSubscription } from "./web-push.transport";
+export { ConsolePushTransport, FilePushTransport } from "./local.transport";
+
+/**
+ * Push transport selection.
+ *
+ * PUSH_TRANSPORT=console|file routes every platform to a local transport
+ * (file path from PUSH_FILE_PATH). Otherwise each platform uses its live
+ * adapter when configured:
+ * - fcm: FCM_PROJECT_ID (+ FCM_SERVICE_ACCOUNT_JSON or GOOGLE_APPLICATION_CREDENTIALS)
+ * - apns: APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID, APNS_PRODUCTION
+ * - webpush: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT
+ */
+
+const transports = new Map<PushPlatform, PushTransport | null>();
+let localTransport: PushTransport | null = null;
+
+const createLiveTransport = (platform: PushPlatform): PushTransport | null => {
+  const env = process.env;
+  switch (platform) {
+    case "fcm":
+      return env.FCM_PROJECT_ID
+        ? new FcmTransport(env.FCM_PROJECT_ID, env.FCM_SERVICE_ACCOUNT_JSON)
+        : null;
+    case "apns":
+      return env.APNS_KEY_ID && env.APNS_TEAM_ID && env.APNS_PRIVATE_KEY && env.APNS_BUNDLE_ID
+        ? new ApnsTransport({
+            keyId: env.APNS_KEY_ID,
+            teamId: env.APNS_TEAM_ID,
+            // Allow the key to be stored on one line with literal \n
+            privateKey: env.APNS_PRIVATE_KEY.replace(/\\n/g, "\n"),
+            bundleId: env.APNS_BUNDLE_ID,
+            production: env.APNS_PRODUCTION === "true",
+          })
+        : null;
+    case "webpush":
+      return env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY && env.VAPID_SUBJECT
+        ? new WebPushTransport({
+            publicKey: env.VAPID_PUBLIC_KEY,
+            privateKey: env.VAPID_PRIVATE_KEY,
+            subject: env.VAPID_SUBJECT,
+          })
+        : null;
+  }
+};
+
+/**
+ * Transport for a platform, or null when it is not configured
+ */
+export const getPushTransport = (platform: PushPlatform): PushTransport | null => {
+  const mode = process.env.PUSH_TRANSPORT;
+  if (mode === "console" || mode === "file") {
+    if (!localTransport) {
+      localTransport =
+        mode === "file"
+          ? new FilePushTransport(process.env.PUSH_FILE_PATH || "push-outbox.jsonl")
+          : new ConsolePushTransport();
+    }
+    return localTransport;
+  }
+
+  if (!transports.has(platform)) {
+    try {
+      transports.set(platform, createLiveTransport(platform));
+    } catch (error: any) {
+      logger.error(`[Push] Could not configure ${platform} transport: ${error?.message}`);
+      transports.set(platform, null);
+    }
+  }
+  return transports.get(platform) ?? null;
+};
+
+// Tests and config reloads
+export const resetPushTransports = () => {
+  transports.clear();
+  localTransport = null;
+};
@@ -0,0 +1,39 @@
+import fs from "fs";
+import path from "path";
+import logger from "../../utils/logger";
+import { PushMessage, PushSendResult, PushTransport, maskToken } from "./push-transport";
+
+/**
+ * Logs pushes instead of sending them (PUSH_TRANSPORT=console)
+ */
+export class ConsolePushTransport implements PushTransport {
+  readonly name = "console";
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    logger.info(
+      `[Push:console] ${maskToken(token)} <- [${message.type}] ${message.title}: ${message.body}`
+    );
+    return { status: "delivered", messageId: `console-${Date.now()}` };
+  }
+}
+
+/**
+ * Appends pushes as JSON lines to a file (PUSH_TRANSPORT=file), for
+ * inspecting exactly what would have been sent
+ */
+export class FilePushTransport implements PushTransport {
+  readonly name = "file";
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    const messageId = `file-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ messageId, token, sentAt: new Date().toISOString(), ...message }) + "\n"
+    );
+    return { status: "delivered", messageId };
+  }
+}
@@ -0,0 +1,54 @@
+import { NotificationType } from "../../types/interfaces";
+
+export type PushPlatform = "fcm" | "apns" | "webpush";
+
+export interface PushMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+export type PushSendStatus = "delivered" | "invalid_token" | "failed";
+
+export interface PushSendResult {
+  status: PushSendStatus;
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * A push delivery channel. Implementations never throw for per-token
+ * problems; they report them in the result so the dispatcher can record a
+ * receipt and prune tokens the provider rejected as invalid.
+ */
+export interface PushTransport {
+  readonly name: string;
+  send(token: string, message: PushMessage): Promise<PushSendResult>;
+}
+
+const APNS_TOKEN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Device tokens are stored as plain strings. Web push subscriptions are the
+ * JSON-serialized PushSubscription, APNs tokens are 64 hex characters and
+ * everything else is an FCM registration token.
+ */
+export const detectPushPlatform = (token: string): PushPlatform => {
+  if (token.trim().startsWith("{")) return "webpush";
+  if (APNS_TOKEN.test(token)) return "apns";
+  return "fcm";
+};
+
+// FCM/APNs data payloads only carry string values
+export const toStringData = (message: PushMessage): Record<string, string> => {
+  const data: Record<string, string> = { type: message.type };
+  for (const [key, value] of Object.entries(message.data || {})) {
+    data[key] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return data;
+};
+
+// Short, non-reversible token label for logs and receipts
+export const maskToken = (token: string): string =>
+  token.length <= 12 ? token : `${token.slice(0, 6)}…${token.slice(-4)}`;
@@ -0,0 +1,174 @@
+import axios from "axios";
+import crypto from "crypto";
+import { getErrorMessage } from "../../utils/gemini-rate-limiter";
+import { PushMessage, PushSendResult, PushTransport } from "./push-transport";
+
+export interface VapidConfig {
+  publicKey: string; // base64url, uncompressed P-256 point
+  privateKey: string; // base64url, 32-byte scalar
+  subject: string; // mailto: or https: contact
+}
+
+interface PushSubscriptionJson {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+const RECORD_SIZE = 4096;
+const TTL_SECONDS = 4 * 60 * 60;
+
+// Push services browsers issue subscriptions for. The endpoint comes from the
+// client, so nothing outside these hosts (and their subdomains) is ever posted to.
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com", // Chrome, Edge, Opera
+  "android.googleapis.com",
+  "push.services.mozilla.com", // Firefox (autopush)
+  "push.apple.com", // Safari
+  "notify.windows.com", // WNS
+];
+
+const isPushServiceHost = (host: string) =>
+  PUSH_SERVICE_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+
+/**
+ * Parse a serialized PushSubscription. Throws when it is malformed or its
+ * endpoint is not an https URL of a known push service.
+ */
+export const parseWebPushSubscription = (token: string): PushSubscriptionJson => {
+  const subscription = JSON.parse(token);
+  if (
+    typeof subscription?.endpoint !== "string" ||
+    typeof subscription.keys?.p256dh !== "string" ||
+    typeof subscription.keys?.auth !== "string"
+  ) {
+    throw new Error("missing endpoint or keys");
+  }
+  const url = new URL(subscription.endpoint);
+  if (url.protocol !== "https:" || url.port || url.username || url.password) {
+    throw new Error("endpoint must be a plain https URL");
+  }
+  if (!isPushServiceHost(url.hostname.toLowerCase())) {
+    throw new Error(`unknown push service ${url.hostname}`);
+  }
+  return subscription;
+};
+
+const hmac = (key: Buffer, data: Buffer) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+/**
+ * Web Push (RFC 8030) with VAPID authentication (RFC 8292) and aes128gcm
+ * payload encryption (RFC 8291). The device token is the JSON-serialized
+ * PushSubscription from the browser.
+ */
+export class WebPushTransport implements PushTransport {
+  readonly name = "webpush";
+  private readonly signingKey: crypto.KeyObject;
+
+  constructor(private readonly vapid: VapidConfig) {
+    const publicKey = Buffer.from(vapid.publicKey, "base64url");
+    this.signingKey = crypto.createPrivateKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        d: vapid.privateKey,
+        x: publicKey.subarray(1, 33).toString("base64url"),
+        y: publicKey.subarray(33, 65).toString("base64url"),
+      },
+      format: "jwk",
+    });
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    let subscription: PushSubscriptionJson;
+    try {
+      subscription = parseWebPushSubscription(token);
+    } catch (error) {
+      return { status: "invalid_token", error: `Bad subscription: ${getErrorMessage(error)}` };
+    }
+
+    try {
+      const body = this.encrypt(
+        Buffer.from(JSON.stringify(message)),
+        Buffer.from(subscription.keys.p256dh, "base64url"),
+        Buffer.from(subscription.keys.auth, "base64url")
+      );
+      const response = await axios.post(subscription.endpoint, body, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Encoding": "aes128gcm",
+          TTL: String(TTL_SECONDS),
+          Urgency: "normal",
+          Authorization: this.vapidHeader(subscription.endpoint),
+        },
+        timeout: 10000,
+        validateStatus: () => true,
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        return { status: "delivered", messageId: response.headers?.location };
+      }
+      return {
+        status: response.status === 404 || response.status === 410 ? "invalid_token" : "failed",
+        error: `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return { status: "failed", error: getErrorMessage(error) };
+    }
+  }
+
+  private vapidHeader(endpoint: string): string {
+    const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })).toString("base64url");
+    const claims = Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: this.vapid.subject,
+      })
+    ).toString("base64url");
+    const signature = crypto
+      .sign("sha256", Buffer.from(`${header}.${claims}`), {
+        key: this.signingKey,
+        dsaEncoding: "ieee-p1363",
+      })
+      .toString("base64url");
+    return `vapid t=${header}.${claims}.${signature}, k=${this.vapid.publicKey}`;
+  }
+
+  // Single-record aes128gcm content encoding, RFC 8291 section 3.4
+  private encrypt(plaintext: Buffer, userPublicKey: Buffer, authSecret: Buffer): Buffer {
+    const ecdh = crypto.createECDH("prime256v1");
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userPublicKey);
+    const salt = crypto.randomBytes(16);
+
+    const keyInfo = Buffer.concat([
+      Buffer.from("WebPush: info\0"),
+      userPublicKey,
+      serverPublicKey,
+    ]);
+    const ikm = hmac(
+      hmac(authSecret, sharedSecret),
+      Buffer.concat([keyInfo, Buffer.from([1])])
+    );
+    const prk = hmac(salt, ikm);
+    const contentKey = hmac(
+      prk,
+      Buffer.from("Content-Encoding: aes128gcm\0\x01")
+    ).subarray(0, 16);
+    const nonce = hmac(prk, Buffer.from("Content-Encoding: nonce\0\x01")).subarray(0, 12);
+
+    const cipher = crypto.createCipheriv("aes-128-gcm", contentKey, nonce);
+    const ciphertext = Buffer.concat([
+      cipher.update(Buffer.concat([plaintext, Buffer.from([2])])),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+}
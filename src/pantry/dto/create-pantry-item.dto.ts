@@ -0,0 +1,41 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from "class-validator";
+
+export class CreatePantryItemDto {
+  @ApiProperty({ example: "Chicken breast", description: "Ingredient name" })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: "500 g",
+    required: false,
+    description: "Amount in stock. Leave empty to track presence only.",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  amount?: string;
+
+  @ApiProperty({ example: "Proteins", required: false })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiProperty({
+    example: "2024-01-20",
+    required: false,
+    description: "Expiry date (YYYY-MM-DD)",
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  expiresAt?: string;
+}
@@ -0,0 +1,2 @@
+export { CreatePantryItemDto } from "./create-pantry-item.dto";
+export { UpdatePantryItemDto } from "./update-pantry-item.dto";
@@ -0,0 +1,33 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsOptional, IsString, Matches, MaxLength, ValidateIf } from "class-validator";
+
+export class UpdatePantryItemDto {
+  @ApiProperty({ example: "Chicken breast", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ example: "250 g", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  amount?: string;
+
+  @ApiProperty({ example: "Proteins", required: false })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiProperty({
+    example: "2024-01-22",
+    required: false,
+    nullable: true,
+    description: "Expiry date (YYYY-MM-DD), or null to clear it",
+  })
+  @IsOptional()
+  @ValidateIf((o) => o.expiresAt !== null)
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  expiresAt?: string | null;
+}
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { Quantity } from "../utils/quantities";
+import { QuantitySchema } from "../shopping/shopping-list.model";
+
+// Model name constant for NestJS
+export const PantryItem = { name: "PantryItem" };
+
+export type PantryItemSource = "manual" | "shopping";
+
+export interface IPantryItem extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  key: string; // ingredient key shared with shopping list items
+  amount: string; // display string in the user's unit system
+  quantities: Quantity[]; // normalized stock (g / ml / count unit); empty = not tracked
+  category?: string;
+  expiresAt?: string; // YYYY-MM-DD
+  source: PantryItemSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One document per lot: the same ingredient bought on different days (or with
+// different expiry dates) is stored separately and used up oldest-expiry first
+const pantryItemSchema = new Schema<IPantryItem>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: { type: String, required: true, maxlength: 100 },
+    key: { type: String, required: true },
+    amount: { type: String, default: "" },
+    quantities: { type: [QuantitySchema], default: [] },
+    category: { type: String },
+    expiresAt: { type: String },
+    source: {
+      type: String,
+      enum: ["manual", "shopping"],
+      default: "manual",
+    },
+  },
+  {
+    timestamps: true,
+    collection: "pantry_items",
+  }
+);
+
+pantryItemSchema.index({ userId: 1, key: 1 });
+pantryItemSchema.index({ userId: 1, expiresAt: 1 });
+
+export const PantryItemSchema = pantryItemSchema;
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from "@nestjs/swagger";
+import { PantryService } from "./pantry.service";
+import { AuthGuard } from "../auth/auth.guard";
+import { CreatePantryItemDto, UpdatePantryItemDto } from "./dto";
+
+@ApiTags("pantry")
+@Controller("pantry")
+@UseGuards(AuthGuard)
+@ApiBearerAuth("JWT-auth")
+export class PantryController {
+  constructor(private readonly pantryService: PantryService) {}
+
+  @Get(":userId")
+  @ApiOperation({ summary: "Get pantry items, soonest expiry first" })
+  @ApiParam({ name: "userId", description: "User ID or 'me'" })
+  @ApiResponse({ status: 200, description: "Pantry retrieved successfully" })
+  async getPantry(@Param("userId") userId: string, @Request() req) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.pantryService.getPantry(resolvedUserId);
+  }
+
+  @Post(":userId")
+  @ApiOperation({
+    summary:
+      "Add an item to the pantry. Merges with an existing item with the same expiry date.",
+  })
+  @ApiParam({ name: "userId", description: "User ID or 'me'" })
+  @ApiBody({ type: CreatePantryItemDto })
+  @ApiResponse({ status: 201, description: "Pantry item added" })
+  async addItem(
+    @Param("userId") userId: string,
+    @Body() body: CreatePantryItemDto,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.pantryService.addItem(resolvedUserId, body);
+  }
+
+  @Put(":userId/:itemId")
+  @ApiOperation({ summary: "Update a pantry item" })
+  @ApiParam({ name: "userId", description: "User ID or 'me'" })
+  @ApiParam({ name: "itemId", description: "Pantry item ID" })
+  @ApiBody({ type: UpdatePantryItemDto })
+  @ApiResponse({ status: 200, description: "Pantry item updated" })
+  @ApiResponse({ status: 404, description: "Pantry item not found" })
+  async updateItem(
+    @Param("userId") userId: string,
+    @Param("itemId") itemId: string,
+    @Body() body: UpdatePantryItemDto,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.pantryService.updateItem(resolvedUserId, itemId, body);
+  }
+
+  @Delete(":userId/:itemId")
+  @ApiOperation({ summary: "Remove an item from the pantry" })
+  @ApiParam({ name: "userId", description: "User ID or 'me'" })
+  @ApiParam({ name: "itemId", description: "Pantry item ID" })
+  @ApiResponse({ status: 200, description: "Pantry item deleted" })
+  @ApiResponse({ status: 404, description: "Pantry item not found" })
+  async deleteItem(
+    @Param("userId") userId: string,
+    @Param("itemId") itemId: string,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.pantryService.deleteItem(resolvedUserId, itemId);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { PantryController } from "./pantry.controller";
+import { PantryService } from "./pantry.service";
+import { PantryItem, PantryItemSchema } from "./pantry-item.model";
+import { User, UserSchema } from "../user/user.model";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PantryItem.name, schema: PantryItemSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [PantryController],
+  providers: [PantryService],
+  exports: [PantryService],
+})
+export class PantryModule {}
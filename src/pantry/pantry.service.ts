@@ -0,0 +1,350 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { PantryItem, IPantryItem, PantryItemSource } from "./pantry-item.model";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import logger from "../utils/logger";
+import {
+  AggregatedIngredient,
+  assignIngredientCategory,
+  getIngredientKey,
+  getLocalDateKey,
+  getValidObjectId,
+} from "../utils/helpers";
+import {
+  Quantity,
+  UnitSystem,
+  parseQuantity,
+  mergeQuantities,
+  formatQuantities,
+} from "../utils/quantities";
+import {
+  PantryLot,
+  EXPIRING_SOON_DAYS,
+  daysUntilExpiry,
+  deductFromLots,
+  remainingAfterPantry,
+  sortLotsByExpiry,
+} from "../utils/pantry";
+import { CreatePantryItemDto, UpdatePantryItemDto } from "./dto";
+
+@Injectable()
+export class PantryService {
+  constructor(
+    @InjectModel(PantryItem.name)
+    private pantryItemModel: Model<IPantryItem>,
+    @InjectModel(User.name) private userModel: Model<IUserData>
+  ) {}
+
+  async getPantry(userId: string) {
+    const items = await this.pantryItemModel
+      .find({ userId: getValidObjectId(userId) })
+      .lean();
+    const todayKey = getLocalDateKey(new Date());
+
+    const data = sortLotsByExpiry(items).map((item) => {
+      const daysLeft = item.expiresAt
+        ? daysUntilExpiry(item.expiresAt, todayKey)
+        : null;
+      return {
+        ...item,
+        daysUntilExpiry: daysLeft,
+        expired: daysLeft !== null && daysLeft < 0,
+        expiringSoon:
+          daysLeft !== null && daysLeft >= 0 && daysLeft <= EXPIRING_SOON_DAYS,
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        items: data,
+        expiringSoon: data.filter((item) => item.expiringSoon),
+      },
+    };
+  }
+
+  async addItem(
+    userId: string,
+    item: CreatePantryItemDto,
+    source: PantryItemSource = "manual"
+  ) {
+    const quantity = parseQuantity(item.amount || "");
+    const created = await this.addStock(
+      userId,
+      item,
+      quantity ? [quantity] : [],
+      source
+    );
+    return { success: true, data: created };
+  }
+
+  async updateItem(userId: string, itemId: string, update: UpdatePantryItemDto) {
+    const item = await this.pantryItemModel.findOne({
+      _id: getValidObjectId(itemId),
+      userId: getValidObjectId(userId),
+    });
+    if (!item) {
+      throw new NotFoundException("Pantry item not found");
+    }
+
+    if (update.name !== undefined) {
+      item.name = update.name;
+      item.key = getIngredientKey(update.name);
+    }
+    if (update.amount !== undefined) {
+      const quantity = parseQuantity(update.amount);
+      item.quantities = quantity ? [quantity] : [];
+      item.amount = quantity
+        ? formatQuantities([quantity], await this.getUnitSystem(userId))
+        : update.amount;
+    }
+    if (update.category !== undefined) {
+      item.category = update.category;
+    }
+    if (update.expiresAt !== undefined) {
+      item.expiresAt = update.expiresAt || undefined;
+    }
+
+    await item.save();
+    return { success: true, data: item };
+  }
+
+  async deleteItem(userId: string, itemId: string) {
+    const result = await this.pantryItemModel.deleteOne({
+      _id: getValidObjectId(itemId),
+      userId: getValidObjectId(userId),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException("Pantry item not found");
+    }
+    return { success: true, message: "Pantry item deleted" };
+  }
+
+  /**
+   * Move a checked-off shopping list item into the pantry
+   */
+  async restockFromShopping(
+    userId: string,
+    ingredient: { name: string; amount?: string; category?: string; quantities?: Quantity[] }
+  ): Promise<void> {
+    await this.addStock(
+      userId,
+      { name: ingredient.name, amount: ingredient.amount, category: ingredient.category },
+      this.ingredientQuantities(ingredient),
+      "shopping"
+    );
+  }
+
+  /**
+   * Take back stock added by a shopping item that was unchecked again
+   */
+  async undoRestockFromShopping(
+    userId: string,
+    ingredient: { name: string; amount?: string; quantities?: Quantity[] }
+  ): Promise<void> {
+    const key = getIngredientKey(ingredient.name);
+    const quantities = this.ingredientQuantities(ingredient);
+    if (quantities.length === 0) {
+      // Presence-only lot created by the check-off
+      await this.pantryItemModel.deleteOne({
+        userId: getValidObjectId(userId),
+        key,
+        source: "shopping",
+        quantities: { $size: 0 },
+      });
+      return;
+    }
+    await this.deductIngredient(userId, key, quantities);
+  }
+
+  /**
+   * Deduct a completed meal's ingredients from the pantry. Ingredients that are
+   * not in the pantry (or only partly) are ignored.
+   */
+  async consumeIngredients(
+    userId: string,
+    ingredients: Array<[string, string] | [string, string, string?]>
+  ): Promise<void> {
+    for (const [name, amount] of ingredients) {
+      if (!name) continue;
+      const quantity = parseQuantity(amount || "");
+      if (!quantity) continue;
+      await this.deductIngredient(userId, getIngredientKey(name), [quantity]);
+    }
+  }
+
+  /**
+   * Reduce aggregated shopping list ingredients by what is already in the
+   * pantry. Fully covered ingredients are dropped from the list.
+   */
+  async subtractPantryStock(
+    userId: any,
+    ingredients: AggregatedIngredient[],
+    unitSystem: UnitSystem
+  ): Promise<AggregatedIngredient[]> {
+    const items = await this.pantryItemModel
+      .find({ userId: getValidObjectId(userId) })
+      .lean();
+    if (items.length === 0) return ingredients;
+
+    const todayKey = getLocalDateKey(new Date());
+    const lotsByKey = new Map<string, PantryLot[]>();
+    for (const item of items) {
+      // Expired stock should not keep an item off the shopping list
+      if (item.expiresAt && daysUntilExpiry(item.expiresAt, todayKey) < 0) {
+        continue;
+      }
+      const lots = lotsByKey.get(item.key) || [];
+      lots.push(this.toLot(item));
+      lotsByKey.set(item.key, lots);
+    }
+
+    const result: AggregatedIngredient[] = [];
+    for (const ingredient of ingredients) {
+      const lots = lotsByKey.get(ingredient.key) || [];
+      if (lots.length === 0) {
+        result.push(ingredient);
+        continue;
+      }
+      const remaining = remainingAfterPantry(
+        lots,
+        ingredient.quantities,
+        ingredient.key
+      );
+      if (remaining.length === 0) continue;
+      result.push({
+        ...ingredient,
+        quantities: remaining,
+        amount: formatQuantities(remaining, unitSystem),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Add stock. Merges into an existing lot of the same ingredient with the same
+   * expiry date, otherwise starts a new lot.
+   */
+  private async addStock(
+    userId: string,
+    item: CreatePantryItemDto,
+    quantities: Quantity[],
+    source: PantryItemSource
+  ) {
+    const key = getIngredientKey(item.name);
+    const unitSystem = await this.getUnitSystem(userId);
+
+    const existing = await this.pantryItemModel.findOne({
+      userId: getValidObjectId(userId),
+      key,
+      expiresAt: item.expiresAt || { $exists: false },
+    });
+
+    if (existing) {
+      const current = this.toQuantities(existing.quantities);
+      // A lot tracked by presence only ("some") stays untracked
+      if (quantities.length > 0 && (current.length > 0 || !existing.amount)) {
+        const merged = mergeQuantities([...current, ...quantities], key);
+        existing.quantities = merged;
+        existing.amount = formatQuantities(merged, unitSystem);
+      }
+      if (item.category && !existing.category) {
+        existing.category = item.category;
+      }
+      await existing.save();
+      return existing;
+    }
+
+    return this.pantryItemModel.create({
+      userId: getValidObjectId(userId),
+      name: item.name,
+      key,
+      amount:
+        quantities.length > 0
+          ? formatQuantities(quantities, unitSystem)
+          : item.amount || "",
+      quantities,
+      category: item.category || assignIngredientCategory(item.name),
+      expiresAt: item.expiresAt,
+      source,
+    });
+  }
+
+  private async deductIngredient(
+    userId: string,
+    key: string,
+    needed: Quantity[]
+  ): Promise<void> {
+    const items = await this.pantryItemModel
+      .find({ userId: getValidObjectId(userId), key })
+      .lean();
+    if (items.length === 0) return;
+
+    const { updates } = deductFromLots(
+      items.map((item) => this.toLot(item)),
+      needed,
+      key
+    );
+    if (updates.length === 0) return;
+
+    const unitSystem = await this.getUnitSystem(userId);
+    for (const update of updates) {
+      if (update.depleted) {
+        await this.pantryItemModel.deleteOne({ _id: update.id });
+      } else {
+        await this.pantryItemModel.updateOne(
+          { _id: update.id },
+          {
+            $set: {
+              quantities: update.quantities,
+              amount: formatQuantities(update.quantities, unitSystem),
+            },
+          }
+        );
+      }
+    }
+
+    logger.info(
+      `[PantryService] Deducted ${key} for user ${userId} (${updates.length} lot(s) updated)`
+    );
+  }
+
+  private ingredientQuantities(ingredient: {
+    amount?: string;
+    quantities?: Quantity[];
+  }): Quantity[] {
+    if (ingredient.quantities && ingredient.quantities.length > 0) {
+      return this.toQuantities(ingredient.quantities);
+    }
+    const parsed = parseQuantity(ingredient.amount || "");
+    return parsed ? [parsed] : [];
+  }
+
+  // Plain copies (mongoose subdocuments carry extra state)
+  private toQuantities(quantities: Quantity[] | undefined): Quantity[] {
+    return (quantities || []).map((q) => ({
+      value: q.value,
+      unit: q.unit,
+      dimension: q.dimension,
+    }));
+  }
+
+  private toLot(item: any): PantryLot {
+    return {
+      id: item._id.toString(),
+      name: item.name,
+      quantities: this.toQuantities(item.quantities),
+      expiresAt: item.expiresAt || null,
+    };
+  }
+
+  private async getUnitSystem(userId: string): Promise<UnitSystem> {
+    const user = await this.userModel
+      .findById(getValidObjectId(userId))
+      .select("unitSystem")
+      .lean();
+    return user?.unitSystem || "metric";
+  }
+}
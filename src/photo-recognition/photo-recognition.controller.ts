@@ -2,6 +2,7 @@ import { Controller, Post, Body, UseGuards } from "@nestjs/common";
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from "@nestjs/swagger";
 import { AuthGuard } from "../auth/auth.guard";
 import { SubscriptionGuard, RequiresFeature } from "../auth/guards/subscription.guard";
+import { RequiresQuota } from "../quota/quota.guard";
 import { PhotoRecognitionService } from "./photo-recognition.service";
 import {
   RecognizeMealDto,
@@ -20,6 +21,7 @@ export class PhotoRecognitionController {
 
   @Post("recognize")
   @RequiresFeature("photoRecognition")
+  @RequiresQuota("photoRecognition")
   @ApiOperation({
     summary: "Recognize meal from photo",
     description: "Uses AI vision to identify a meal from a base64 encoded photo",
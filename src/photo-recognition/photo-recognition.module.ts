@@ -3,12 +3,14 @@ import { MongooseModule } from "@nestjs/mongoose";
 import { PhotoRecognitionController } from "./photo-recognition.controller";
 import { PhotoRecognitionService } from "./photo-recognition.service";
 import { User, UserSchema } from "../user/user.model";
+import { QuotaModule } from "../quota/quota.module";
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
     ]),
+    QuotaModule,
   ],
   controllers: [PhotoRecognitionController],
   providers: [PhotoRecognitionService],
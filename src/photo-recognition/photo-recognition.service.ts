@@ -6,67 +6,24 @@ import {
   RecognizedMealResponse,
   NutritionResponse,
 } from "./dto/recognize-meal.dto";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
 import {
-  generateVisionWithRateLimit,
-  generateTextWithRateLimit,
-  getErrorMessage,
-} from "../utils/gemini-rate-limiter";
-
-// Helper to extract and clean JSON from LLM response
-const extractAndCleanJSON = (text: string): string => {
-  let cleaned = text;
-
-  // Try to extract JSON from code blocks
-  const jsonMatch = text.match(/```(?:json)?\n?([\s\S]*?)\n?```/);
-  if (jsonMatch) {
-    cleaned = jsonMatch[1];
-  }
-
-  // Remove any remaining code block markers
-  cleaned = cleaned.replace(/```/g, "").trim();
-
-  // Find the JSON object
-  const startBrace = cleaned.indexOf("{");
-  const endBrace = cleaned.lastIndexOf("}");
-
-  if (startBrace !== -1 && endBrace !== -1 && endBrace > startBrace) {
-    cleaned = cleaned.slice(startBrace, endBrace + 1);
-  }
-
-  return cleaned.trim();
-};
+  getLlmClient,
+  generateStructured,
+  validateStructuredOutput,
+} from "../llm";
+import { AI_PHOTO_RECOGNITION, AI_NUTRITION_ESTIMATE } from "../llm/schemas";
 
 @Injectable()
 export class PhotoRecognitionService {
   private readonly USDA_API_BASE = "https://api.nal.usda.gov/fdc/v1";
-  private readonly apiKey: string | undefined;
-
-  constructor() {
-    this.apiKey = process.env.GEMINI_API_KEY;
-    if (this.apiKey) {
-      logger.info("[PhotoRecognition] Gemini AI initialized");
-    } else {
-      logger.warn(
-        "[PhotoRecognition] GEMINI_API_KEY not set - photo recognition will not work"
-      );
-    }
-  }
 
   /**
-   * Recognize a meal from a photo using Gemini Vision API
+   * Recognize a meal from a photo with the configured vision model
    */
   async recognizeMealFromPhoto(
     imageBase64: string
   ): Promise<RecognizedMealResponse> {
-    if (!this.apiKey) {
-      logger.error("[PhotoRecognition] Gemini AI not initialized");
-      return {
-        mealName: "",
-        confidence: "none",
-        description: "AI service not available. Please enter the meal name manually.",
-      };
-    }
-
     try {
       // Compress image before sending to API (max 800x800, 200KB for better recognition)
       const compressedImage = await compressImage(imageBase64, 800, 800, 85, 200);
@@ -99,14 +56,10 @@ Rules:
 5. Provide reasonable calorie and macro estimates based on a typical serving size
 6. ONLY output the JSON, nothing else`;
 
-      // Use rate-limited wrapper with retry logic
-      // Using gemini-2.5-flash-lite for better free tier rate limits
-      const text = await generateVisionWithRateLimit(
-        this.apiKey,
-        "gemini-2.5-flash-lite",
+      const llm = getLlmClient("photo-recognition");
+      const text = await llm.generateVision(
         prompt,
-        base64Data,
-        "image/jpeg",
+        { data: base64Data, mimeType: "image/jpeg" },
         {
           maxRetries: 3,
           timeoutMs: 30000,
@@ -114,11 +67,16 @@ Rules:
         }
       );
 
-      logger.info(`[PhotoRecognition] Raw Gemini response: ${text.substring(0, 500)}`);
+      logger.info(`[PhotoRecognition] Raw model response: ${text.substring(0, 500)}`);
 
-      // Parse the response
-      const cleanedJSON = extractAndCleanJSON(text);
-      const parsed = JSON.parse(cleanedJSON);
+      // Validate the response; repairs re-prompt with the previous output, not the image
+      const parsed = await validateStructuredOutput(
+        llm,
+        prompt,
+        text,
+        AI_PHOTO_RECOGNITION,
+        { maxRepairs: 1, timeoutMs: 15000, context: "PhotoRecognition" }
+      );
 
       return {
         mealName: parsed.mealName || "",
@@ -135,7 +93,7 @@ Rules:
       };
     } catch (error) {
       const errorMsg = getErrorMessage(error);
-      logger.error(`[PhotoRecognition] Gemini Vision error: ${errorMsg}`);
+      logger.error(`[PhotoRecognition] Vision model error: ${errorMsg}`);
 
       return {
         mealName: "",
@@ -242,14 +200,9 @@ Rules:
   }
 
   /**
-   * Estimate nutrition using AI (Gemini) when USDA has no match
+   * Estimate nutrition using AI when USDA has no match
    */
   async getNutritionFromAI(mealName: string): Promise<NutritionResponse | null> {
-    if (!this.apiKey) {
-      logger.warn("[PhotoRecognition] Gemini API key not set, cannot estimate nutrition");
-      return null;
-    }
-
     const prompt = `You are a professional nutritionist. Estimate the nutrition for a typical home serving of "${mealName}".
 
 Respond ONLY with valid JSON in this exact format (no markdown, no extra text):
@@ -266,21 +219,23 @@ Respond ONLY with valid JSON in this exact format (no markdown, no extra text):
 Base your estimate on a realistic home-cooked serving size. Be accurate — this is for health tracking.`;
 
     try {
-      const text = await generateTextWithRateLimit(
-        this.apiKey,
-        "gemini-2.5-flash-lite",
+      const parsed = await generateStructured(
+        getLlmClient("nutrition-estimate"),
         prompt,
-        { maxRetries: 2, timeoutMs: 10000, context: "NutritionEstimate" }
+        AI_NUTRITION_ESTIMATE,
+        {
+          maxRetries: 2,
+          timeoutMs: 10000,
+          context: "NutritionEstimate",
+        }
       );
-      const cleaned = extractAndCleanJSON(text);
-      const parsed = JSON.parse(cleaned);
       logger.info(`[PhotoRecognition] AI nutrition estimate for "${mealName}": ${parsed.calories} cal`);
       return {
-        calories: Math.round(parsed.calories || 0),
+        calories: Math.round(parsed.calories),
         macros: {
-          protein: Math.round(parsed.macros?.protein || 0),
-          carbs: Math.round(parsed.macros?.carbs || 0),
-          fat: Math.round(parsed.macros?.fat || 0),
+          protein: Math.round(parsed.macros.protein),
+          carbs: Math.round(parsed.macros.carbs),
+          fat: Math.round(parsed.macros.fat),
         },
         servingSize: parsed.servingSize || "1 serving",
         source: "AI Estimate",
@@ -0,0 +1,113 @@
+import mongoose, { Model } from "mongoose";
+import logger from "../utils/logger";
+import { getWeekStartKey } from "../utils/helpers";
+import { IPlan } from "../types/interfaces";
+
+/**
+ * Resolve the week a plan covers. Plans saved before history was added have
+ * no weekStart, so fall back to the earliest date in weeklyPlan, then to
+ * generatedAt / createdAt.
+ */
+export function resolvePlanWeekStart(plan: any): string {
+  if (plan?.weekStart) return plan.weekStart;
+  const dates = Object.keys(plan?.weeklyPlan || {}).sort();
+  if (dates.length > 0) {
+    return getWeekStartKey(new Date(`${dates[0]}T00:00:00`));
+  }
+  return getWeekStartKey(
+    new Date(plan?.generatedAt || plan?.createdAt || Date.now())
+  );
+}
+
+/**
+ * Retire the user's current plan before a new one becomes current. Nothing is
+ * deleted, so daily progress and shopping lists keep pointing at a real plan.
+ *
+ * - Current plan for a different week → archived
+ * - Current plan for the same week → archived and marked superseded, so
+ *   history still shows one plan per week
+ */
+export async function archiveCurrentPlan(
+  planModel: Model<IPlan>,
+  userId: mongoose.Types.ObjectId,
+  newWeekStart: string
+): Promise<void> {
+  const currentPlans = await planModel.find({
+    userId,
+    isCurrent: { $ne: false },
+  });
+
+  for (const plan of currentPlans) {
+    const weekStart = resolvePlanWeekStart(plan);
+    const now = new Date();
+    const superseded = weekStart === newWeekStart;
+
+    await planModel.updateOne(
+      { _id: plan._id },
+      {
+        $set: {
+          isCurrent: false,
+          archivedAt: now,
+          weekStart,
+          ...(superseded && { supersededAt: now }),
+        },
+      }
+    );
+    logger.info(
+      `[archiveCurrentPlan] ${superseded ? "Superseded" : "Archived"} plan ${plan._id} for week ${weekStart}`
+    );
+  }
+}
+
+/**
+ * Plans used to be unique per user. Drop that index so archived weeks can be
+ * stored alongside the current plan.
+ */
+export async function dropLegacyPlanUserIndex(
+  planModel: Model<IPlan>
+): Promise<void> {
+  try {
+    const indexes = await planModel.collection.indexes();
+    const legacy = indexes.find(
+      (index) => index.name === "userId_1" && index.unique
+    );
+    if (legacy) {
+      await planModel.collection.dropIndex("userId_1");
+      logger.info("[dropLegacyPlanUserIndex] Dropped unique userId index on plans");
+    }
+  } catch (error) {
+    logger.warn(
+      `[dropLegacyPlanUserIndex] Could not inspect plan indexes: ${error?.message || error}`
+    );
+  }
+}
+
+/**
+ * Store weekStart on plans saved before history was added, so history can be
+ * sorted and limited in the database without dropping them.
+ */
+export async function backfillPlanWeekStart(
+  planModel: Model<IPlan>
+): Promise<void> {
+  try {
+    const legacy = await planModel
+      .find({ weekStart: { $exists: false } })
+      .select("weeklyPlan generatedAt createdAt")
+      .lean();
+    if (!legacy.length) return;
+
+    await planModel.bulkWrite(
+      legacy.map((plan) => ({
+        updateOne: {
+          filter: { _id: plan._id },
+          update: { $set: { weekStart: resolvePlanWeekStart(plan) } },
+        },
+      }))
+    );
+    logger.info(`[backfillPlanWeekStart] Stored weekStart on ${legacy.length} plans`);
+  } catch (error) {
+    logger.warn(
+      `[backfillPlanWeekStart] Could not backfill plan weeks: ${error?.message || error}`
+    );
+  }
+}
@@ -8,15 +8,18 @@ import {
   UseGuards,
   Request,
   Param,
+  Query,
 } from "@nestjs/common";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiQuery,
 } from "@nestjs/swagger";
 import { PlanService } from "./plan.service";
 import { AuthGuard } from "../auth/auth.guard";
+import { OwnershipGuard, OwnedResource } from "../auth/guards/ownership.guard";
 import {
   UpdateMealDto,
   ReplaceMealDto,
@@ -41,7 +44,8 @@ import { IMeal } from "src/types/interfaces";
 
 @ApiTags("plan")
 @Controller("plan")
-@UseGuards(AuthGuard)
+@UseGuards(AuthGuard, OwnershipGuard)
+@OwnedResource({ area: "plan", userParam: "userId", planParam: "planId" })
 @ApiBearerAuth("JWT-auth")
 export class PlanController {
   constructor(private planService: PlanService) {}
@@ -61,6 +65,44 @@ export class PlanController {
     return this.planService.getCurrentWeeklyPlan(req.user._id.toString());
   }
 
+  @Get("history")
+  @ApiOperation({
+    summary: "List past and current weekly plans (newest week first)",
+  })
+  @ApiQuery({ name: "limit", required: false, type: Number })
+  @ApiResponse({ status: 200, description: "Plan history retrieved successfully" })
+  async getPlanHistory(@Request() req, @Query("limit") limit?: string) {
+    return this.planService.getPlanHistory(
+      req.user._id.toString(),
+      limit ? parseInt(limit, 10) || 12 : 12
+    );
+  }
+
+  @Get("history/:weekStart")
+  @ApiOperation({
+    summary: "Get the plan for a specific week (weekStart as YYYY-MM-DD)",
+  })
+  @ApiResponse({ status: 200, description: "Plan retrieved successfully" })
+  @ApiResponse({ status: 400, description: "Invalid week format" })
+  @ApiResponse({ status: 404, description: "No plan for that week" })
+  async getPlanForWeek(
+    @Request() req,
+    @Param("weekStart") weekStart: string
+  ) {
+    return this.planService.getPlanForWeek(req.user._id.toString(), weekStart);
+  }
+
+  @Post("history/:planId/rerun")
+  @ApiOperation({
+    summary: "Re-run a past week's plan as the new current plan",
+  })
+  @ApiResponse({ status: 201, description: "Plan re-run successfully" })
+  @ApiResponse({ status: 400, description: "Plan is already current or has no remaining days" })
+  @ApiResponse({ status: 404, description: "Plan not found" })
+  async rerunPlan(@Request() req, @Param("planId") planId: string) {
+    return this.planService.rerunPlan(req.user._id.toString(), planId);
+  }
+
   @Put("meal")
   @ApiOperation({ summary: "Update a meal in the plan" })
   @ApiResponse({
@@ -94,10 +136,12 @@ export class PlanController {
   async replaceMeal(
     @Param("userId") userId: string,
     @Param("planId") planId: string,
-    @Body() body: ReplaceMealDto
+    @Body() body: ReplaceMealDto,
+    @Request() req
   ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
     return this.planService.replaceMeal(
-      userId,
+      resolvedUserId,
       planId,
       body.date,
       body.mealType,
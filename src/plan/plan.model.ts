@@ -62,7 +62,26 @@ const planSchema = new Schema<IPlan>(
       type: Schema.Types.ObjectId,
       ref: "User",
       required: false,
-      unique: true, // Each user can have only ONE plan (creates unique index)
+    },
+    // Monday (YYYY-MM-DD) of the week this plan covers
+    weekStart: {
+      type: String,
+      required: false,
+    },
+    // Only one plan per user is current; older weeks are kept as history
+    isCurrent: {
+      type: Boolean,
+      default: true,
+    },
+    archivedAt: {
+      type: Date,
+      required: false,
+    },
+    // Set when the plan was regenerated within its own week; kept so progress
+    // and shopping lists that point at it still resolve, but left out of history
+    supersededAt: {
+      type: Date,
+      required: false,
     },
     title: {
       type: String,
@@ -81,6 +100,15 @@ const planSchema = new Schema<IPlan>(
         carbs: { type: Number, required: false },
         fat: { type: Number, required: false },
       },
+      // Last adaptive recalibration applied to this plan (see AdaptiveCaloriesService)
+      adaptiveAdjustment: {
+        appliedAt: { type: Date, required: false },
+        estimatedTdee: { type: Number, required: false },
+        previousTargetCalories: { type: Number, required: false },
+        confidence: { type: Number, required: false },
+        limitedBy: { type: String, required: false },
+        explanation: { type: [String], required: false, default: undefined },
+      },
     },
     userData: {
       age: { type: Number, required: false },
@@ -128,6 +156,11 @@ const planSchema = new Schema<IPlan>(
       enum: ["generating", "complete"],
       default: "generating",
     },
+    // Cook sessions of a meal-prep plan (see generateMealPrepPlan)
+    mealPrep: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -135,10 +168,23 @@ const planSchema = new Schema<IPlan>(
   }
 );
 
-// Note: userId already has a unique index from unique: true above
-// No need for additional index
+// One current plan per user (legacy docs without isCurrent predate history)
+planSchema.index(
+  { userId: 1, isCurrent: 1 },
+  { unique: true, partialFilterExpression: { isCurrent: true } }
+);
+
+// Index for listing a user's plan history by week
+planSchema.index({ userId: 1, weekStart: -1 });
 
 // Index for timestamp-based queries
 planSchema.index({ createdAt: -1 });
 
 export const PlanSchema = planSchema;
+
+// Query for the user's current plan. Plans saved before history was added have
+// no isCurrent field, so match anything that is not explicitly archived.
+export const currentPlanQuery = (userId: any) => ({
+  userId,
+  isCurrent: { $ne: false },
+});
@@ -12,6 +12,7 @@ import { Meal, MealSchema } from "../meal/meal.model";
 import { DailyProgress, DailyProgressSchema } from "../progress/progress.model";
 import { ProgressModule } from "../progress/progress.module";
 import { GeneratorModule } from "../generator/generator.module";
+import { PantryModule } from "../pantry/pantry.module";
 import { UsdaNutritionService } from "../utils/usda-nutrition.service";
 
 @Module({
@@ -25,6 +26,7 @@ import { UsdaNutritionService } from "../utils/usda-nutrition.service";
     ]),
     forwardRef(() => ProgressModule),
     forwardRef(() => GeneratorModule),
+    PantryModule,
   ],
   controllers: [PlanController],
   providers: [PlanService, UsdaNutritionService],
@@ -2,14 +2,22 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  OnModuleInit,
 } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
-import { Plan } from "./plan.model";
+import { Plan, currentPlanQuery } from "./plan.model";
+import {
+  archiveCurrentPlan,
+  dropLegacyPlanUserIndex,
+  backfillPlanWeekStart,
+  resolvePlanWeekStart,
+} from "./plan-history";
 import { ShoppingList, IShoppingList } from "../shopping/shopping-list.model";
 import { User } from "../user/user.model";
 import { Meal } from "../meal/meal.model";
 import { DailyProgress } from "../progress/progress.model";
+import { PantryService } from "../pantry/pantry.service";
 import aiService from "../generator/generate.service";
 import logger from "../utils/logger";
 import {
@@ -24,7 +32,9 @@ import {
   convertAIIngredientsToMealFormat,
   MealIngredient,
   getLocalDateKey,
+  getWeekStartKey,
   escapeRegex,
+  aggregateIngredients,
 } from "../utils/helpers";
 import {
   IDayPlan,
@@ -52,9 +62,10 @@ import {
 import { PATH_WATER_INTAKE, PATH_WORKOUTS_GOAL } from "../enums/enumPaths";
 import { UsdaNutritionService } from "../utils/usda-nutrition.service";
 import { updateMealLearningProfile } from "../utils/meal-learning";
+import { findUserTimeZone, getUserDay, getUserToday } from "../utils/timezone";
 
 @Injectable()
-export class PlanService {
+export class PlanService implements OnModuleInit {
   constructor(
     @InjectModel(Plan.name) private planModel: Model<IPlan>,
     @InjectModel(ShoppingList.name)
@@ -64,9 +75,15 @@ export class PlanService {
     @InjectModel(DailyProgress.name)
     private progressModel: Model<IDailyProgress>,
     private generatorService: GeneratorService,
-    private usdaNutritionService: UsdaNutritionService
+    private usdaNutritionService: UsdaNutritionService,
+    private pantryService: PantryService
   ) {}
 
+  async onModuleInit() {
+    await dropLegacyPlanUserIndex(this.planModel);
+    await backfillPlanWeekStart(this.planModel);
+  }
+
   // ============================================================================
   // REUSABLE MEAL LOOKUP AND GENERATION FUNCTIONS
   // ============================================================================
@@ -633,14 +650,6 @@ export class PlanService {
     return allIngredients;
   }
 
-  // Helper to normalize ingredient name for key generation
-  private normalizeIngredientKey(ingredientName: string): string {
-    return ingredientName
-      .toLowerCase()
-      .replace(/\s+/g, "_")
-      .replace(/[^a-z0-9_]/g, "");
-  }
-
   // Helper to sync shopping list with plan ingredients
   private async syncShoppingListWithPlan(
     userId: string,
@@ -648,90 +657,15 @@ export class PlanService {
     weeklyPlan: { [date: string]: IDayPlan }
   ): Promise<void> {
     try {
-      // Collect all ingredients from the plan
+      // Collect all ingredients from the plan and aggregate them per ingredient
+      // across units, formatted in the user's preferred unit system
       const allIngredients = this.collectIngredientsFromPlan(weeklyPlan);
-
-      // Parse amount string like "200 g" into { value: 200, unit: "g" }
-      const parseAmount = (
-        amountStr: string
-      ): { value: number; unit: string } | null => {
-        if (!amountStr) return null;
-        const match = amountStr.trim().match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
-        if (match) {
-          return {
-            value: parseFloat(match[1]),
-            unit: match[2].trim().toLowerCase(),
-          };
-        }
-        return null;
-      };
-
-      // Aggregate ingredients by name (sum amounts for same ingredient)
-      const ingredientMap = new Map<
-        string,
-        {
-          name: string;
-          amounts: Map<string, number>;
-          category?: string;
-        }
-      >();
-
-      allIngredients.forEach((ing) => {
-        // Ensure ingredientName is always a string
-        let ingredientName: string;
-        if (Array.isArray(ing)) {
-          ingredientName = typeof ing[0] === 'string' ? ing[0] : String(ing[0] || '');
-        } else {
-          ingredientName = String(ing || '');
-        }
-        
-        // Skip if ingredientName is empty or invalid
-        if (!ingredientName || typeof ingredientName !== 'string') {
-          logger.warn(
-            `[syncShoppingListWithPlan] Invalid ingredient name: ${JSON.stringify(ing)}, skipping`
-          );
-          return;
-        }
-        
-        const ingredientAmount = Array.isArray(ing) ? (ing[1] || '') : "";
-        const ingredientCategory =
-          Array.isArray(ing) && ing.length > 2 ? ing[2] : undefined;
-        const key = this.normalizeIngredientKey(ingredientName);
-
-        const parsed = parseAmount(ingredientAmount);
-
-        if (ingredientMap.has(key)) {
-          const existing = ingredientMap.get(key)!;
-          if (parsed) {
-            const currentAmount = existing.amounts.get(parsed.unit) || 0;
-            existing.amounts.set(parsed.unit, currentAmount + parsed.value);
-          }
-          if (!existing.category && ingredientCategory) {
-            existing.category = ingredientCategory;
-          }
-        } else {
-          const amounts = new Map<string, number>();
-          if (parsed) {
-            amounts.set(parsed.unit, parsed.value);
-          }
-          ingredientMap.set(key, {
-            name: ingredientName,
-            amounts,
-            category: ingredientCategory,
-          });
-        }
-      });
-
-      // Helper to format amounts map back to string
-      const formatAmounts = (amounts: Map<string, number>): string => {
-        const parts: string[] = [];
-        amounts.forEach((value, unit) => {
-          const formattedValue =
-            value % 1 === 0 ? value.toString() : value.toFixed(1);
-          parts.push(unit ? `${formattedValue} ${unit}` : formattedValue);
-        });
-        return parts.join(" + ") || "";
-      };
+      const user = await this.userModel
+        .findById(userId)
+        .select("unitSystem")
+        .lean();
+      const unitSystem = user?.unitSystem || "metric";
+      const aggregated = aggregateIngredients(allIngredients, unitSystem);
 
       // Get existing shopping list to preserve done status
       const existingShoppingList = await this.shoppingListModel.findOne({
@@ -747,16 +681,29 @@ export class PlanService {
         });
       }
 
+      // Leave out pantry stock, except for items already checked off (those
+      // were moved into the pantry when they were bought)
+      const toBuy = await this.pantryService.subtractPantryStock(
+        userId,
+        aggregated.filter((ing) => !existingDoneStatus.get(ing.key)),
+        unitSystem
+      );
+      const toBuyByKey = new Map(toBuy.map((ing) => [ing.key, ing]));
+
       // Create new ingredients list preserving done status
-      const newIngredients = Array.from(ingredientMap.entries()).map(
-        ([key, ing]) => ({
+      const newIngredients = aggregated
+        .map((ing) =>
+          existingDoneStatus.get(ing.key) ? ing : toBuyByKey.get(ing.key)
+        )
+        .filter(Boolean)
+        .map((ing) => ({
           name: ing.name,
-          amount: formatAmounts(ing.amounts),
+          amount: ing.amount,
           category: ing.category,
-          done: existingDoneStatus.get(key) || false,
-          key: key,
-        })
-      );
+          quantities: ing.quantities,
+          done: existingDoneStatus.get(ing.key) || false,
+          key: ing.key,
+        }));
 
       // Update or create shopping list
       if (existingShoppingList) {
@@ -775,6 +722,11 @@ export class PlanService {
     }
   }
 
+  // Today's key in the user's timezone, which progress days are keyed in
+  private async getUserTodayKey(userId: string | mongoose.Types.ObjectId): Promise<string> {
+    return getUserDay(await findUserTimeZone(this.userModel, userId.toString())).dateKey;
+  }
+
   // Helper to convert day name or date string to date key (YYYY-MM-DD)
   private getDateKey(dayOrDate: string, plan?: any): string {
     // If it's already a date string (YYYY-MM-DD), return it
@@ -898,13 +850,19 @@ export class PlanService {
       );
     }
 
-    // Delete existing plan if it exists (since userId is unique)
-    // This prevents duplicate key errors
-    await this.planModel.findOneAndDelete({ userId: userIdObjectId });
+    // Archive the existing current plan (only one plan per user is current)
+    const weekStart = getWeekStartKey(new Date());
+    await archiveCurrentPlan(
+      this.planModel,
+      userIdObjectId,
+      weekStart
+    );
 
     const plan = await this.planModel.create({
       userId: userIdObjectId,
       title,
+      weekStart,
+      isCurrent: true,
       userData: planUserData,
       language,
       userMetrics,
@@ -920,16 +878,16 @@ export class PlanService {
       throw new NotFoundException("User not found");
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayKey = getLocalDateKey(today); // Use local date, not UTC
+    // The user's day, so it matches the progress records
+    const today = getUserToday(user.timezone);
+    const todayKey = getLocalDateKey(today);
     const currentDay = today.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
 
     logger.info(
       `[getCurrentWeeklyPlan] Today is: ${todayKey} (day: ${currentDay}, ${["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][currentDay]})`
     );
 
-    let plan = await this.planModel.findOne({ userId });
+    let plan = await this.planModel.findOne(currentPlanQuery(userId));
 
     // Check if plan exists and has data for TODAY
     if (plan) {
@@ -985,7 +943,7 @@ export class PlanService {
     );
 
     // Fetch the newly created plan
-    plan = await this.planModel.findOne({ userId });
+    plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Failed to generate plan");
     }
@@ -1002,7 +960,7 @@ export class PlanService {
   }
 
   async getPlanByUserId(userId: string) {
-    const plan = await this.planModel.findOne({ userId }).lean();
+    const plan = await this.planModel.findOne(currentPlanQuery(userId)).lean();
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1012,6 +970,184 @@ export class PlanService {
     };
   }
 
+  // ============================================================================
+  // PLAN HISTORY
+  // ============================================================================
+
+  /**
+   * List the user's plans (current and archived), newest week first.
+   * Day-by-day content is omitted; fetch a single week for that.
+   */
+  async getPlanHistory(userId: string, limit: number = 12) {
+    const plans = await this.planModel
+      .find({ userId: getValidObjectId(userId), supersededAt: { $exists: false } })
+      .select("title weekStart isCurrent archivedAt weeklyMacros userMetrics language createdAt weeklyPlan")
+      .sort({ weekStart: -1, createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), 52))
+      .lean();
+
+    const history = plans.map((plan: any) => ({
+      _id: plan._id,
+      title: plan.title,
+      weekStart: resolvePlanWeekStart(plan),
+      isCurrent: plan.isCurrent !== false,
+      archivedAt: plan.archivedAt,
+      dates: Object.keys(plan.weeklyPlan || {}).sort(),
+      weeklyMacros: plan.weeklyMacros,
+      targetCalories: plan.userMetrics?.targetCalories,
+      language: plan.language,
+      createdAt: plan.createdAt,
+    }));
+    // weekStart is backfilled on startup; plans still without one go by their resolved week
+    history.sort((a, b) => b.weekStart.localeCompare(a.weekStart));
+
+    return {
+      success: true,
+      data: history,
+    };
+  }
+
+  /**
+   * Get the user's plan for the week starting on weekStart (a Monday, YYYY-MM-DD).
+   * Any date within the week is accepted and normalized to its Monday.
+   */
+  async getPlanForWeek(userId: string, weekStart: string) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(weekStart)) {
+      throw new BadRequestException("weekStart must be in YYYY-MM-DD format");
+    }
+    const weekStartKey = getWeekStartKey(new Date(`${weekStart}T00:00:00`));
+
+    let plan = await this.planModel
+      .findOne({ userId: getValidObjectId(userId), weekStart: weekStartKey })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    // Legacy plans have no weekStart - fall back to the current plan's dates
+    if (!plan) {
+      const current = await this.planModel
+        .findOne(currentPlanQuery(getValidObjectId(userId)))
+        .lean();
+      if (current && resolvePlanWeekStart(current) === weekStartKey) {
+        plan = current;
+      }
+    }
+
+    if (!plan) {
+      throw new NotFoundException(`No plan found for week ${weekStartKey}`);
+    }
+    return {
+      success: true,
+      data: plan,
+    };
+  }
+
+  /**
+   * Re-run an archived week as the new current plan. Days are mapped onto the
+   * current week by weekday; days already in the past are skipped.
+   */
+  async rerunPlan(userId: string, planId: string) {
+    const userIdObjectId = getValidObjectId(userId);
+    const sourcePlan: any = await this.planModel
+      .findOne({ _id: getValidObjectId(planId), userId: userIdObjectId })
+      .lean();
+    if (!sourcePlan) {
+      throw new NotFoundException("Plan not found");
+    }
+
+    const today = getUserToday(await findUserTimeZone(this.userModel, userId));
+    const todayKey = getLocalDateKey(today);
+    const weekStart = getWeekStartKey(today);
+    const sourceWeekStart = resolvePlanWeekStart(sourcePlan);
+
+    if (sourcePlan.isCurrent !== false && sourceWeekStart === weekStart) {
+      throw new BadRequestException("This plan is already the current week");
+    }
+
+    const sourceMonday = new Date(`${sourceWeekStart}T00:00:00`);
+    const currentMonday = new Date(`${weekStart}T00:00:00`);
+    const weeklyPlan: Record<string, any> = {};
+    let totalCalories = 0,
+      totalProtein = 0,
+      totalCarbs = 0,
+      totalFat = 0;
+
+    for (const [dateKey, dayPlan] of Object.entries<any>(
+      sourcePlan.weeklyPlan || {}
+    )) {
+      const offset = Math.round(
+        (new Date(`${dateKey}T00:00:00`).getTime() - sourceMonday.getTime()) /
+          (24 * 60 * 60 * 1000)
+      );
+      const targetDate = new Date(currentMonday);
+      targetDate.setDate(currentMonday.getDate() + offset);
+      const targetKey = getLocalDateKey(targetDate);
+      if (targetKey < todayKey) continue;
+
+      const copy = JSON.parse(JSON.stringify(dayPlan));
+      if (copy.date) copy.date = targetKey;
+      weeklyPlan[targetKey] = copy;
+
+      const meals = [
+        copy.meals?.breakfast,
+        copy.meals?.lunch,
+        copy.meals?.dinner,
+        ...(copy.meals?.snacks || []),
+      ];
+      for (const meal of meals) {
+        if (!meal) continue;
+        totalCalories += meal.calories || 0;
+        totalProtein += meal.macros?.protein || 0;
+        totalCarbs += meal.macros?.carbs || 0;
+        totalFat += meal.macros?.fat || 0;
+      }
+    }
+
+    if (Object.keys(weeklyPlan).length === 0) {
+      throw new BadRequestException(
+        "None of this plan's days fall on the rest of the current week"
+      );
+    }
+
+    await archiveCurrentPlan(
+      this.planModel,
+      userIdObjectId,
+      weekStart
+    );
+
+    const plan = await this.planModel.create({
+      userId: userIdObjectId,
+      title: sourcePlan.title,
+      weekStart,
+      isCurrent: true,
+      userMetrics: sourcePlan.userMetrics,
+      userData: sourcePlan.userData,
+      weeklyPlan,
+      weeklyMacros: {
+        calories: { consumed: 0, total: totalCalories },
+        protein: { consumed: 0, total: totalProtein },
+        carbs: { consumed: 0, total: totalCarbs },
+        fat: { consumed: 0, total: totalFat },
+      },
+      language: sourcePlan.language,
+      generationStatus: "complete",
+    });
+
+    await this.syncShoppingListWithPlan(
+      userId,
+      plan._id as mongoose.Types.ObjectId,
+      weeklyPlan
+    );
+
+    logger.info(
+      `[rerunPlan] Re-ran plan ${planId} (week ${sourceWeekStart}) as ${plan._id} for week ${weekStart}`
+    );
+
+    return {
+      success: true,
+      data: plan,
+    };
+  }
+
   async updatePlan(planId: string, updateData: any) {
     const plan = await this.planModel
       .findByIdAndUpdate(planId, updateData, { new: true })
@@ -1338,7 +1474,7 @@ export class PlanService {
   }
 
   async updateWaterIntake(userId: string, day: string, glasses: number) {
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1369,7 +1505,7 @@ export class PlanService {
     workoutIndex: number,
     workoutData: Partial<IWorkout>
   ) {
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1422,7 +1558,7 @@ export class PlanService {
     await plan.save();
 
     // If the workout is for today, also update progress
-    const todayKey = getLocalDateKey(new Date());
+    const todayKey = await this.getUserTodayKey(userId);
     if (dateKey === todayKey) {
       const progress = await this.progressModel.findOne({
         userId,
@@ -1496,7 +1632,7 @@ export class PlanService {
     caloriesBurned: number,
     time?: string
   ) {
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1545,7 +1681,7 @@ export class PlanService {
     await plan.save();
 
     // If the workout is for today, also add to progress
-    const todayKey = getLocalDateKey(new Date());
+    const todayKey = await this.getUserTodayKey(userId);
     if (dateKey === todayKey) {
       const progress = await this.progressModel.findOne({
         userId,
@@ -1689,7 +1825,7 @@ export class PlanService {
 
     dayPlan.meals.snacks.push(snack);
 
-    const todayKey = getLocalDateKey(new Date());
+    const todayKey = await this.getUserTodayKey(plan.userId);
     if (dateKey === todayKey) {
       const progress = await this.progressModel.findOne({
         userId: plan.userId,
@@ -1761,7 +1897,7 @@ export class PlanService {
     );
 
     // If the snack is for today, also remove from progress
-    const todayKey = getLocalDateKey(new Date());
+    const todayKey = await this.getUserTodayKey(plan.userId);
     if (dateKey === todayKey) {
       const progress = await this.progressModel.findOne({
         userId: plan.userId.toString(),
@@ -1793,7 +1929,7 @@ export class PlanService {
   }
 
   async deleteWorkout(userId: string, day: string, workoutName: string) {
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1837,7 +1973,7 @@ export class PlanService {
     await plan.save();
 
     // If the workout is for today, also remove from progress
-    const todayKey = getLocalDateKey(new Date());
+    const todayKey = await this.getUserTodayKey(userId);
     if (dateKey === todayKey) {
       const progress = await this.progressModel.findOne({
         userId,
@@ -1889,7 +2025,7 @@ export class PlanService {
   }
 
   async getDayPlan(userId: string, day: string) {
-    const plan = await this.planModel.findOne({ userId }).lean();
+    const plan = await this.planModel.findOne(currentPlanQuery(userId)).lean();
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1917,7 +2053,7 @@ export class PlanService {
   ) {
     // This method should not modify the plan - tracking is done in progress
     // But keeping for backward compatibility, it will just return the plan
-    const plan = await this.planModel.findOne({ userId }).lean();
+    const plan = await this.planModel.findOne(currentPlanQuery(userId)).lean();
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -1947,7 +2083,7 @@ export class PlanService {
     mealData: Partial<IMeal>,
     snackIndex?: number
   ) {
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -2021,7 +2157,7 @@ export class PlanService {
       fat?: number;
     }
   ) {
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (!plan) {
       throw new NotFoundException("Plan not found");
     }
@@ -0,0 +1,213 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { DailyProgress } from "./progress.model";
+import { WeightEntry, IWeightEntry } from "./weight-entry.model";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
+import { User } from "../user/user.model";
+import logger from "../utils/logger";
+import { getValidObjectId } from "../utils/helpers";
+import { addDaysToDateKey, getUserDay } from "../utils/timezone";
+import { calculateBMR, calculateTDEE } from "../utils/healthCalculations";
+import { calculateWeightTrend } from "../utils/weightTrend";
+import {
+  calculateAdaptiveTarget,
+  AdaptiveCaloriesResult,
+  FULL_CONFIDENCE_DAYS,
+} from "../utils/adaptiveCalories";
+import { IDailyProgress, IPlan, IUserData } from "../types/interfaces";
+
+export type AdaptiveCaloriesMode = "off" | "suggest" | "auto";
+
+// Auto mode recalibrates at most once per this many days
+const AUTO_APPLY_INTERVAL_DAYS = 7;
+// Extra weigh-in history so the trend is settled at the start of the window
+const TREND_WARMUP_DAYS = 14;
+
+@Injectable()
+export class AdaptiveCaloriesService {
+  constructor(
+    @InjectModel(DailyProgress.name)
+    private progressModel: Model<IDailyProgress>,
+    @InjectModel(WeightEntry.name)
+    private weightEntryModel: Model<IWeightEntry>,
+    @InjectModel(Plan.name) private planModel: Model<IPlan>,
+    @InjectModel(User.name) private userModel: Model<IUserData>
+  ) {}
+
+  /**
+   * Evaluate intake and weight data and return the proposed adjustment without applying it
+   */
+  async getProposal(userId: string) {
+    const { user, result } = await this.evaluate(userId);
+    return {
+      success: true,
+      data: {
+        mode: this.getMode(user),
+        lastAppliedAt: user.adaptiveCalories?.lastAppliedAt || null,
+        ...result,
+      },
+    };
+  }
+
+  /**
+   * Apply the proposed target to the current plan
+   */
+  async applyAdjustment(userId: string) {
+    const { user, plan, result } = await this.evaluate(userId);
+    if (!plan) {
+      throw new NotFoundException("Plan not found");
+    }
+
+    if (result.status !== "adjusted") {
+      return {
+        success: true,
+        applied: false,
+        data: result,
+      };
+    }
+
+    await this.planModel.updateOne(
+      { _id: plan._id },
+      {
+        $set: {
+          "userMetrics.tdee": result.estimatedTdee,
+          "userMetrics.targetCalories": result.targetCalories,
+          "userMetrics.dailyMacros": result.dailyMacros,
+          "userMetrics.adaptiveAdjustment": {
+            appliedAt: new Date(),
+            estimatedTdee: result.estimatedTdee,
+            previousTargetCalories: result.previousTargetCalories,
+            confidence: result.confidence,
+            limitedBy: result.limitedBy,
+            explanation: result.explanation,
+          },
+        },
+      }
+    );
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          tdee: result.estimatedTdee,
+          "adaptiveCalories.lastAppliedAt": new Date(),
+          "adaptiveCalories.lastEstimatedTdee": result.estimatedTdee,
+        },
+      }
+    );
+
+    logger.info(
+      `[AdaptiveCalories] User ${userId} target ${result.previousTargetCalories} → ${result.targetCalories} kcal (TDEE ${result.estimatedTdee})`
+    );
+
+    return {
+      success: true,
+      applied: true,
+      data: result,
+    };
+  }
+
+  async updateMode(userId: string, mode: AdaptiveCaloriesMode) {
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        userId,
+        { $set: { "adaptiveCalories.mode": mode } },
+        { new: true }
+      )
+      .select("adaptiveCalories")
+      .lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+    return {
+      success: true,
+      data: user.adaptiveCalories,
+    };
+  }
+
+  /**
+   * Called after new data arrives. In auto mode, applies the adjustment if the
+   * last one is older than the auto-apply interval.
+   */
+  async maybeAutoApply(userId: string): Promise<void> {
+    const user = await this.userModel
+      .findById(userId)
+      .select("adaptiveCalories")
+      .lean();
+    if (!user || this.getMode(user) !== "auto") return;
+
+    const lastAppliedAt = user.adaptiveCalories?.lastAppliedAt;
+    if (
+      lastAppliedAt &&
+      Date.now() - new Date(lastAppliedAt).getTime() <
+        AUTO_APPLY_INTERVAL_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      return;
+    }
+
+    await this.applyAdjustment(userId);
+  }
+
+  private getMode(user: IUserData): AdaptiveCaloriesMode {
+    return user.adaptiveCalories?.mode || "suggest";
+  }
+
+  private async evaluate(userId: string): Promise<{
+    user: IUserData;
+    plan: IPlan | null;
+    result: AdaptiveCaloriesResult;
+  }> {
+    const user = await this.userModel.findById(userId).lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    // Progress days are keyed in the user's timezone
+    const todayKey = getUserDay(user.timezone).dateKey;
+    const windowStart = addDaysToDateKey(todayKey, -FULL_CONFIDENCE_DAYS);
+    const userObjectId = getValidObjectId(userId);
+
+    const [plan, progressDays, weighIns] = await Promise.all([
+      this.planModel.findOne(currentPlanQuery(userObjectId)).lean(),
+      // Today is still in progress, so only completed days count as intake
+      this.progressModel
+        .find({ userId, dateKey: { $gte: windowStart, $lt: todayKey } })
+        .select("dateKey caloriesConsumed")
+        .lean(),
+      this.weightEntryModel
+        .find({
+          userId: userObjectId,
+          dateKey: { $gte: addDaysToDateKey(todayKey, -(FULL_CONFIDENCE_DAYS + TREND_WARMUP_DAYS)) },
+        })
+        .select("dateKey weight")
+        .lean(),
+    ]);
+
+    const trend = calculateWeightTrend(weighIns).filter(
+      (p) => p.dateKey >= windowStart
+    );
+
+    const formulaTdee =
+      user.weight && user.height && user.age
+        ? calculateTDEE(
+            calculateBMR(user.weight, user.height, user.age, user.gender),
+            user.workoutFrequency
+          )
+        : plan?.userMetrics?.tdee || 2000;
+
+    const result = calculateAdaptiveTarget({
+      intake: progressDays.map((p: any) => ({
+        dateKey: p.dateKey,
+        calories: p.caloriesConsumed || 0,
+      })),
+      trend,
+      formulaTdee,
+      currentTargetCalories: plan?.userMetrics?.targetCalories,
+      path: user.path || (plan as any)?.userData?.path || "healthy",
+      gender: user.gender,
+    });
+
+    return { user: user as IUserData, plan: plan as IPlan | null, result };
+  }
+}
@@ -0,0 +1,2 @@
+export { LogWeightDto } from "./log-weight.dto";
+export { UpdateAdaptiveCaloriesDto } from "./update-adaptive-calories.dto";
@@ -0,0 +1,34 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class LogWeightDto {
+  @ApiProperty({ example: 72.4, description: "Body weight in kg", minimum: 20, maximum: 400 })
+  @IsNumber()
+  @Min(20)
+  @Max(400)
+  weight: number;
+
+  @ApiProperty({
+    example: "2024-01-15",
+    required: false,
+    description: "Date of the weigh-in (YYYY-MM-DD). Defaults to today.",
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  date?: string;
+
+  @ApiProperty({ example: "Morning, after coffee", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+}
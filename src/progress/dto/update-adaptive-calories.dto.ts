@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsIn } from "class-validator";
+
+export class UpdateAdaptiveCaloriesDto {
+  @ApiProperty({
+    example: "suggest",
+    enum: ["off", "suggest", "auto"],
+    description:
+      "off = never recalibrate, suggest = propose only, auto = apply weekly",
+  })
+  @IsIn(["off", "suggest", "auto"])
+  mode: "off" | "suggest" | "auto";
+}
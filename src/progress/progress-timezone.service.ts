@@ -0,0 +1,86 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { DailyProgress } from "./progress.model";
+import { User } from "../user/user.model";
+import { IDailyProgress, IUserData } from "../types/interfaces";
+import { EventBus } from "../events/event-bus";
+import { JobSchedulerService } from "../jobs/job-scheduler.service";
+import { findUserTimeZone, getZonedDayStart } from "../utils/timezone";
+import logger from "../utils/logger";
+
+const REALIGN_JOB = "progress.realign-dates";
+const BATCH_SIZE = 500;
+
+interface RealignJobData {
+  userId: string;
+}
+
+/**
+ * Keeps stored progress days consistent with the user's timezone.
+ *
+ * A progress day is identified by its dateKey, which is the calendar day the
+ * user saw when it was recorded, so keys are never rewritten. The `date`
+ * field is the instant that day started and is used for range queries
+ * (analytics, weekly summaries); when the timezone changes it is moved to
+ * local midnight of the same dateKey in the new zone.
+ */
+@Injectable()
+export class ProgressTimezoneService implements OnModuleInit {
+  constructor(
+    @InjectModel(DailyProgress.name)
+    private progressModel: Model<IDailyProgress>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private eventBus: EventBus,
+    private jobScheduler: JobSchedulerService
+  ) {}
+
+  onModuleInit() {
+    this.jobScheduler.registerHandler<RealignJobData>(REALIGN_JOB, ({ userId }) =>
+      this.realignProgressDates(userId)
+    );
+
+    this.eventBus.subscribe("user.timezone_changed", "ProgressTimezoneService", ({ userId }) =>
+      this.jobScheduler.schedule<RealignJobData>(REALIGN_JOB, { userId })
+    );
+  }
+
+  /**
+   * Move each day's `date` to local midnight of its dateKey in the user's
+   * current timezone. Idempotent, so reruns and overlapping changes are safe.
+   */
+  async realignProgressDates(userId: string): Promise<{ updated: number }> {
+    // Read at run time so the latest change wins when several are queued
+    const timeZone = await findUserTimeZone(this.userModel, userId);
+
+    const cursor = this.progressModel
+      .find({ userId, dateKey: { $exists: true } })
+      .select("_id dateKey date")
+      .lean()
+      .cursor();
+
+    let updated = 0;
+    let batch: any[] = [];
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await this.progressModel.bulkWrite(batch, { ordered: false });
+      updated += result.modifiedCount;
+      batch = [];
+    };
+
+    for await (const progress of cursor) {
+      const dayStart = getZonedDayStart(progress.dateKey, timeZone);
+      if (new Date(progress.date).getTime() === dayStart.getTime()) continue;
+      batch.push({
+        updateOne: { filter: { _id: progress._id }, update: { $set: { date: dayStart } } },
+      });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    logger.info(
+      `[ProgressTimezone] Realigned ${updated} progress day(s) for user ${userId} to ${timeZone}`
+    );
+    return { updated };
+  }
+}
@@ -12,14 +12,23 @@ import {
 } from "@nestjs/common";
 import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
 import { ProgressService } from "./progress.service";
+import { WeightService } from "./weight.service";
+import { AdaptiveCaloriesService } from "./adaptive-calories.service";
 import { AuthGuard } from "../auth/auth.guard";
+import { OwnershipGuard, OwnedResource } from "../auth/guards/ownership.guard";
+import { LogWeightDto, UpdateAdaptiveCaloriesDto } from "./dto";
 
 @ApiTags("progress")
 @Controller("progress")
-@UseGuards(AuthGuard)
+@UseGuards(AuthGuard, OwnershipGuard)
+@OwnedResource({ area: "progress", userParam: "userId" })
 @ApiBearerAuth("JWT-auth")
 export class ProgressController {
-  constructor(private progressService: ProgressService) {}
+  constructor(
+    private progressService: ProgressService,
+    private weightService: WeightService,
+    private adaptiveCaloriesService: AdaptiveCaloriesService
+  ) {}
 
   @Get("today/:userId")
   async getTodayProgress(@Param("userId") userId: string, @Request() req) {
@@ -144,4 +153,67 @@ export class ProgressController {
     const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
     return this.progressService.getAnalytics(resolvedUserId, period);
   }
+
+  @Post("weight/:userId")
+  async logWeight(
+    @Param("userId") userId: string,
+    @Body() body: LogWeightDto,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.weightService.logWeight(
+      resolvedUserId,
+      body.weight,
+      body.date,
+      body.note
+    );
+  }
+
+  @Get("weight/:userId")
+  async getWeightHistory(
+    @Param("userId") userId: string,
+    @Query("days") days: string,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.weightService.getWeightHistory(
+      resolvedUserId,
+      days ? parseInt(days, 10) || 90 : 90
+    );
+  }
+
+  @Delete("weight/:userId/:entryId")
+  async deleteWeightEntry(
+    @Param("userId") userId: string,
+    @Param("entryId") entryId: string,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.weightService.deleteWeightEntry(resolvedUserId, entryId);
+  }
+
+  @Get("adaptive-calories/:userId")
+  async getAdaptiveCalories(@Param("userId") userId: string, @Request() req) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.adaptiveCaloriesService.getProposal(resolvedUserId);
+  }
+
+  @Post("adaptive-calories/:userId/apply")
+  async applyAdaptiveCalories(
+    @Param("userId") userId: string,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.adaptiveCaloriesService.applyAdjustment(resolvedUserId);
+  }
+
+  @Put("adaptive-calories/:userId/settings")
+  async updateAdaptiveCaloriesSettings(
+    @Param("userId") userId: string,
+    @Body() body: UpdateAdaptiveCaloriesDto,
+    @Request() req
+  ) {
+    const resolvedUserId = userId === "me" ? req.user._id.toString() : userId;
+    return this.adaptiveCaloriesService.updateMode(resolvedUserId, body.mode);
+  }
 }
@@ -2,26 +2,36 @@ import { Module, forwardRef } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { ProgressController } from "./progress.controller";
 import { ProgressService } from "./progress.service";
+import { WeightService } from "./weight.service";
+import { AdaptiveCaloriesService } from "./adaptive-calories.service";
+import { ProgressTimezoneService } from "./progress-timezone.service";
 import { DailyProgress, DailyProgressSchema } from "./progress.model";
+import { WeightEntry, WeightEntrySchema } from "./weight-entry.model";
 import { Plan, PlanSchema } from "../plan/plan.model";
 import { User, UserSchema } from "../user/user.model";
 import { Meal, MealSchema } from "../meal/meal.model";
 import { EngagementModule } from "../engagement/engagement.module";
-import { ChallengeModule } from "../challenge/challenge.module";
+import { PantryModule } from "../pantry/pantry.module";
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: DailyProgress.name, schema: DailyProgressSchema },
+      { name: WeightEntry.name, schema: WeightEntrySchema },
       { name: Plan.name, schema: PlanSchema },
       { name: User.name, schema: UserSchema },
       { name: Meal.name, schema: MealSchema },
     ]),
     forwardRef(() => EngagementModule),
-    forwardRef(() => ChallengeModule),
+    PantryModule,
   ],
   controllers: [ProgressController],
-  providers: [ProgressService],
-  exports: [ProgressService],
+  providers: [
+    ProgressService,
+    WeightService,
+    AdaptiveCaloriesService,
+    ProgressTimezoneService,
+  ],
+  exports: [ProgressService, WeightService, AdaptiveCaloriesService],
 })
 export class ProgressModule {}
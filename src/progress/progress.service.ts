@@ -8,13 +8,23 @@ import {
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { DailyProgress } from "./progress.model";
-import { Plan } from "../plan/plan.model";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
 import { Meal } from "../meal/meal.model";
 import { User } from "../user/user.model";
 import { EngagementService } from "../engagement/engagement.service";
-import { ChallengeService } from "../challenge/challenge.service";
-import { updateMealLearningProfile } from "../utils/meal-learning";
+import { WeightService } from "./weight.service";
+import { PantryService } from "../pantry/pantry.service";
+import { EventBus } from "../events/event-bus";
 import logger from "../utils/logger";
+import {
+  UserDay,
+  addDaysToDateKey,
+  findUserTimeZone,
+  getUserDay,
+  getZonedDayEnd,
+  getZonedDayStart,
+  getZonedTime,
+} from "../utils/timezone";
 import {
   formatProgressStats,
   parsePrepTime,
@@ -48,8 +58,9 @@ export class ProgressService {
     @InjectModel(User.name) private userModel: Model<IUserData>,
     @Inject(forwardRef(() => EngagementService))
     private engagementService: EngagementService,
-    @Inject(forwardRef(() => ChallengeService))
-    private challengeService: ChallengeService
+    private weightService: WeightService,
+    private pantryService: PantryService,
+    private eventBus: EventBus
   ) {}
 
   /**
@@ -170,6 +181,11 @@ export class ProgressService {
     return `${year}-${month}-${day}`;
   }
 
+  // The user's current calendar day, in their own timezone
+  private async getUserToday(userId: string): Promise<UserDay> {
+    return getUserDay(await findUserTimeZone(this.userModel, userId));
+  }
+
   // Helper to create or find a meal in the database (prevents duplicates)
   private async ensureMealInDB(mealData: any): Promise<any> {
     if (!mealData || !mealData.name) return null;
@@ -290,11 +306,8 @@ export class ProgressService {
   }
 
   async getTodayProgress(userId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Use dateKey (YYYY-MM-DD) for timezone-safe querying
-    const todayDateKey = this.getLocalDateKey(today);
+    // Use dateKey (YYYY-MM-DD) of the user's local day for timezone-safe querying
+    const { dateKey: todayDateKey, start: today } = await this.getUserToday(userId);
 
     // Fetch progress and plan in parallel. Do not populate meals: snapshot subdocs already
     // include name/calories/macros/etc.; populate() was N+1 queries to Meal on every poll.
@@ -304,7 +317,7 @@ export class ProgressService {
         dateKey: todayDateKey,
       }),
       this.planModel
-        .findOne({ userId })
+        .findOne(currentPlanQuery(userId))
         .select("weeklyPlan userMetrics _id")
         .lean(),
     ]);
@@ -438,7 +451,7 @@ export class ProgressService {
     }
 
     // Sync water goal from plan
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     const progressDoc = progress as any;
     await this.syncWaterGoalFromPlan(progressDoc, plan, dateKey);
 
@@ -490,14 +503,27 @@ export class ProgressService {
     };
   }
 
+  private async deductMealFromPantry(userId: string, mealId: any) {
+    const mealDoc = await this.mealModel
+      .findById(mealId)
+      .select("ingredients")
+      .lean();
+    const ingredients = (mealDoc as any)?.ingredients;
+    if (!Array.isArray(ingredients) || ingredients.length === 0) return;
+    await this.pantryService.consumeIngredients(
+      userId,
+      ingredients.filter((ing: any): ing is [string, string] =>
+        Array.isArray(ing)
+      )
+    );
+  }
+
   async markMealCompleted(
     userId: string,
     mealId: string,
     mealType: "breakfast" | "lunch" | "dinner" | "snacks"
   ) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayDateKey = this.getLocalDateKey(today);
+    const { dateKey: todayDateKey } = await this.getUserToday(userId);
 
     let progress = await this.progressModel.findOne({
       userId,
@@ -558,13 +584,17 @@ export class ProgressService {
 
     await progress.save();
 
-    // Fire-and-forget: update meal learning profile
-    if (meal.done && meal.name) {
-      updateMealLearningProfile(this.userModel, userId, meal.name, "complete").catch(() => {});
+    // Fire-and-forget: use up the meal's ingredients from the pantry
+    if (meal.done) {
+      this.deductMealFromPantry(userId, meal._id).catch((error) =>
+        logger.warn(
+          `[ProgressService] Pantry deduction failed for meal ${mealId}: ${error?.message || error}`
+        )
+      );
     }
 
     // Update plan's weekly macros
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (plan && (plan as any).weeklyMacros) {
       if (meal.done) {
         (plan as any).weeklyMacros.calories.consumed += calories;
@@ -593,39 +623,21 @@ export class ProgressService {
     }
 
     // Always sync water goal from plan before returning
-    const planForSync = await this.planModel.findOne({ userId });
+    const planForSync = await this.planModel.findOne(currentPlanQuery(userId));
     await this.syncWaterGoalFromPlan(progress, planForSync, todayDateKey);
 
     // Award XP for meal completion (only when marking as done, not when unmarking)
     let engagementResult = null;
     if (meal.done) {
+      // Check if meal is balanced (has good macro ratios)
+      const isBalanced = this.isMealBalanced(meal);
       try {
-        // Check if meal is balanced (has good macro ratios)
-        const isBalanced = this.isMealBalanced(meal);
+        // XP, streak and badges are part of the response, so this stays a direct call
         engagementResult = await this.engagementService.onMealCompleted(
           userId,
           mealType,
           isBalanced
         );
-
-        // Check if day is complete for bonus XP
-        await this.engagementService.checkDayCompletion(userId);
-
-        // Update challenge progress for meal completion
-        await this.challengeService.onMealCompleted(userId, mealType, isBalanced);
-
-        // Update streak challenges with current streak
-        if (engagementResult.streak > 0) {
-          await this.challengeService.onStreakUpdated(userId, engagementResult.streak);
-        }
-
-        // Check if protein goal is reached and update challenges
-        const proteinConsumed = (progress as any).protein?.consumed || 0;
-        const proteinGoal = (progress as any).protein?.goal || 0;
-        if (proteinGoal > 0 && proteinConsumed >= proteinGoal) {
-          await this.challengeService.onProteinGoalReached(userId);
-        }
-
         logger.info(
           `[ProgressService] Engagement updated for user ${userId}: +${engagementResult.xpAwarded} XP, Level: ${engagementResult.level}, Streak: ${engagementResult.streak}`
         );
@@ -635,6 +647,19 @@ export class ProgressService {
           `[ProgressService] Failed to update engagement: ${error.message}`
         );
       }
+
+      // Day completion, challenges and meal learning subscribe to this
+      const proteinConsumed = (progress as any).protein?.consumed || 0;
+      const proteinGoal = (progress as any).protein?.goal || 0;
+      await this.eventBus.publish("progress.meal_completed", {
+        userId,
+        mealId: String(meal._id),
+        mealName: meal.name,
+        mealType,
+        dateKey: todayDateKey,
+        isBalanced,
+        proteinGoalReached: proteinGoal > 0 && proteinConsumed >= proteinGoal,
+      });
     }
 
     return {
@@ -685,9 +710,7 @@ export class ProgressService {
   }
 
   async addWaterGlass(userId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayDateKey = this.getLocalDateKey(today);
+    const { dateKey: todayDateKey, start: today } = await this.getUserToday(userId);
 
     let progress = await this.progressModel.findOne({
       userId,
@@ -695,7 +718,7 @@ export class ProgressService {
     });
 
     // Get plan for syncing water goal
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
 
     if (!progress) {
       const weeklyPlan = (plan as any)?.weeklyPlan || {};
@@ -748,23 +771,16 @@ export class ProgressService {
     const waterGoal = (progress as any).water.goal || 8;
     const waterConsumed = (progress as any).water.consumed;
     const goalReached = waterConsumed >= waterGoal && previousConsumed < waterGoal;
-    
-    try {
-      await this.challengeService.onWaterIntake(userId, waterConsumed, goalReached);
-      if (goalReached) {
-        logger.info(
-          `[ProgressService] Water goal reached for user ${userId}, challenge updated`
-        );
-      } else {
-        logger.info(
-          `[ProgressService] Water intake updated for user ${userId}: ${waterConsumed}/${waterGoal} glasses`
-        );
-      }
-    } catch (error: any) {
-      logger.error(
-        `[ProgressService] Failed to update water challenge: ${error.message}`
-      );
-    }
+
+    await this.eventBus.publish("progress.water_logged", {
+      userId,
+      glasses: waterConsumed,
+      goal: waterGoal,
+      goalReached,
+    });
+    logger.info(
+      `[ProgressService] Water intake updated for user ${userId}: ${waterConsumed}/${waterGoal} glasses`
+    );
 
     return {
       success: true,
@@ -782,9 +798,7 @@ export class ProgressService {
     caloriesBurned: number,
     category: string
   ) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayDateKey = this.getLocalDateKey(today);
+    const { dateKey: todayDateKey } = await this.getUserToday(userId);
 
     let progress = await this.progressModel.findOne({
       userId,
@@ -820,7 +834,7 @@ export class ProgressService {
     await progress.save();
 
     // Update plan's weekly macros (workouts affect calories consumed)
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
     if (plan && (plan as any).weeklyMacros) {
       if (workout.done) {
         // Workout completed - subtract burned calories from consumed (net effect)
@@ -837,16 +851,11 @@ export class ProgressService {
 
     // Update challenge progress for workout completion (only when marking as done)
     if (workout.done) {
-      try {
-        await this.challengeService.onWorkoutCompleted(userId);
-        logger.info(
-          `[ProgressService] Workout challenge updated for user ${userId}`
-        );
-      } catch (error: any) {
-        logger.error(
-          `[ProgressService] Failed to update workout challenge: ${error.message}`
-        );
-      }
+      await this.eventBus.publish("progress.workout_completed", {
+        userId,
+        workoutName: workout.name,
+        caloriesBurned: caloriesBurnedValue,
+      });
     }
 
     return {
@@ -866,9 +875,7 @@ export class ProgressService {
     mealName: string,
     macros?: { protein?: number; carbs?: number; fat?: number }
   ) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayDateKey = this.getLocalDateKey(today);
+    const { dateKey: todayDateKey, start: today } = await this.getUserToday(userId);
 
     let progress = await this.progressModel.findOne({
       userId,
@@ -876,7 +883,7 @@ export class ProgressService {
     });
 
     // Get plan for syncing water goal and updating weekly macros
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
 
     if (!progress) {
       const weeklyPlan = (plan as any)?.weeklyPlan || {};
@@ -951,9 +958,7 @@ export class ProgressService {
   }
 
   async updateWaterIntake(userId: string, glasses: number) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayDateKey = this.getLocalDateKey(today);
+    const { dateKey: todayDateKey, start: today } = await this.getUserToday(userId);
 
     let progress = await this.progressModel.findOne({
       userId,
@@ -961,7 +966,7 @@ export class ProgressService {
     });
 
     // Get plan for syncing water goal
-    const plan = await this.planModel.findOne({ userId });
+    const plan = await this.planModel.findOne(currentPlanQuery(userId));
 
     if (!progress) {
       const weeklyPlan = (plan as any)?.weeklyPlan || {};
@@ -1011,23 +1016,16 @@ export class ProgressService {
     await progress.save();
 
     // Update challenges for water intake
+    // If glasses increased and reached goal, mark as goal reached
     const waterGoal = (progress as any).water.goal || 8;
     const goalReached = glasses >= waterGoal && previousConsumed < waterGoal;
-    
-    try {
-      // For updateWaterIntake, we need to calculate if goal was reached
-      // If glasses increased and reached goal, mark as goal reached
-      await this.challengeService.onWaterIntake(userId, glasses, goalReached);
-      if (goalReached) {
-        logger.info(
-          `[ProgressService] Water goal reached for user ${userId}, challenge updated`
-        );
-      }
-    } catch (error: any) {
-      logger.error(
-        `[ProgressService] Failed to update water challenge: ${error.message}`
-      );
-    }
+
+    await this.eventBus.publish("progress.water_logged", {
+      userId,
+      glasses,
+      goal: waterGoal,
+      goalReached,
+    });
 
     return {
       success: true,
@@ -1039,14 +1037,12 @@ export class ProgressService {
   }
 
   async getWeeklySummary(userId: string) {
-    const today = new Date();
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - today.getDay());
-    startOfWeek.setHours(0, 0, 0, 0);
-
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(startOfWeek.getDate() + 6);
-    endOfWeek.setHours(23, 59, 59, 999);
+    // Sunday-to-Saturday week in the user's timezone
+    const timeZone = await findUserTimeZone(this.userModel, userId);
+    const { dateKey: todayKey, dayOfWeek } = getZonedTime(new Date(), timeZone);
+    const weekStartKey = addDaysToDateKey(todayKey, -dayOfWeek);
+    const startOfWeek = getZonedDayStart(weekStartKey, timeZone);
+    const endOfWeek = getZonedDayEnd(addDaysToDateKey(weekStartKey, 6), timeZone);
 
     const progressList = await this.progressModel
       .find({
@@ -1090,9 +1086,7 @@ export class ProgressService {
   }
 
   async resetTodayProgress(userId: string) {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayDateKey = this.getLocalDateKey(today);
+    const { dateKey: todayDateKey } = await this.getUserToday(userId);
 
     const progress = await this.progressModel.findOne({
       userId,
@@ -1128,24 +1122,17 @@ export class ProgressService {
   }
 
   async getAnalytics(userId: string, period: "week" | "month" = "week") {
-    const today = new Date();
-    today.setHours(23, 59, 59, 999);
-
-    let startDate: Date;
-    if (period === "week") {
-      // Last 7 days
-      startDate = new Date(today);
-      startDate.setDate(today.getDate() - 6);
-      startDate.setHours(0, 0, 0, 0);
-    } else {
-      // Last 30 days
-      startDate = new Date(today);
-      startDate.setDate(today.getDate() - 29);
-      startDate.setHours(0, 0, 0, 0);
-    }
+    const userDay = await this.getUserToday(userId);
+    const today = userDay.end;
+
+    // Last 7 or 30 days, ending with the user's local today
+    const startDate = getZonedDayStart(
+      addDaysToDateKey(userDay.dateKey, period === "week" ? -6 : -29),
+      userDay.timeZone
+    );
 
     // Get user's plan for target values
-    const plan = await this.planModel.findOne({ userId }).lean();
+    const plan = await this.planModel.findOne(currentPlanQuery(userId)).lean();
     const targetCalories = Math.round(plan?.userMetrics?.tdee || 2000);
     const targetProtein = Math.round(
       plan?.userMetrics?.dailyMacros?.protein || 150
@@ -1225,6 +1212,16 @@ export class ProgressService {
     const waterGoalPercentage =
       targetWater > 0 ? Math.round((avgWater / targetWater) * 100) : 0;
 
+    // Weight trend (independent of the period - the trend needs more history)
+    const user = await this.userModel
+      .findById(userId)
+      .select("targetWeight")
+      .lean();
+    const weight = await this.weightService.getWeightSummary(
+      userId,
+      (user as any)?.targetWeight
+    );
+
     // Daily breakdown for charts
     const dailyData = progressList.map((p: any) => ({
       date: p.date,
@@ -1237,6 +1234,7 @@ export class ProgressService {
       water: p.water?.consumed || 0,
       workoutsCompleted: p.workouts?.filter((w: any) => w.done)?.length || 0,
       workoutsTotal: p.workouts?.length || 0,
+      weight: p.weight ?? null,
     }));
 
     return {
@@ -1278,6 +1276,7 @@ export class ProgressService {
           fat: fatGoalPercentage,
           water: waterGoalPercentage,
         },
+        weight,
         dailyData,
       },
     };
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Model name constant for NestJS
+export const WeightEntry = { name: "WeightEntry" };
+
+export interface IWeightEntry extends Document {
+  userId: mongoose.Types.ObjectId;
+  weight: number; // kg
+  dateKey: string; // YYYY-MM-DD (local date of the weigh-in)
+  measuredAt: Date;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One document per weigh-in; several per day are allowed and averaged for the trend
+const weightEntrySchema = new Schema<IWeightEntry>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    weight: {
+      type: Number,
+      required: true,
+      min: 20,
+      max: 400,
+    },
+    dateKey: {
+      type: String,
+      required: true,
+    },
+    measuredAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    note: {
+      type: String,
+      maxlength: 200,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "weight_entries",
+  }
+);
+
+weightEntrySchema.index({ userId: 1, dateKey: 1 });
+weightEntrySchema.index({ userId: 1, measuredAt: -1 });
+
+export const WeightEntrySchema = weightEntrySchema;
@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { WeightEntry, IWeightEntry } from "./weight-entry.model";
+import { AdaptiveCaloriesService } from "./adaptive-calories.service";
+import { DailyProgress } from "./progress.model";
+import { User } from "../user/user.model";
+import logger from "../utils/logger";
+import { getLocalDateKey, getValidObjectId } from "../utils/helpers";
+import { calculateBMR, calculateTDEE } from "../utils/healthCalculations";
+import { findUserTimeZone, getDateKeyInZone } from "../utils/timezone";
+import {
+  calculateWeightTrend,
+  calculateWeeklyRate,
+  projectGoalDate,
+  WeightTrendPoint,
+} from "../utils/weightTrend";
+import { IDailyProgress, IUserData } from "../types/interfaces";
+
+// Trend needs some history before the first weigh-in of the requested range
+const TREND_WARMUP_DAYS = 30;
+
+@Injectable()
+export class WeightService {
+  constructor(
+    @InjectModel(WeightEntry.name)
+    private weightEntryModel: Model<IWeightEntry>,
+    @InjectModel(DailyProgress.name)
+    private progressModel: Model<IDailyProgress>,
+    @InjectModel(User.name) private userModel: Model<IUserData>,
+    private adaptiveCaloriesService: AdaptiveCaloriesService
+  ) {}
+
+  /**
+   * Record a weigh-in. Several per day are allowed; the day's average feeds the trend.
+   */
+  async logWeight(
+    userId: string,
+    weight: number,
+    date?: string,
+    note?: string
+  ) {
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new BadRequestException("date must be in YYYY-MM-DD format");
+    }
+
+    const now = new Date();
+    const todayKey = getDateKeyInZone(now, await findUserTimeZone(this.userModel, userId));
+    const dateKey = date || todayKey;
+    if (dateKey > todayKey) {
+      throw new BadRequestException("Cannot log weight for a future date");
+    }
+
+    const entry = await this.weightEntryModel.create({
+      userId: getValidObjectId(userId),
+      weight,
+      dateKey,
+      measuredAt: date ? new Date(`${dateKey}T12:00:00`) : now,
+      note,
+    });
+
+    await this.syncDailyProgressWeight(userId, dateKey);
+    const summary = await this.syncUserWeight(userId);
+
+    // Recalibrate the calorie target for users in auto mode (non-blocking)
+    this.adaptiveCaloriesService
+      .maybeAutoApply(userId)
+      .catch((err) =>
+        logger.error(
+          `[WeightService] Adaptive calorie update failed for ${userId}: ${err?.message || err}`
+        )
+      );
+
+    return {
+      success: true,
+      data: {
+        entry,
+        summary,
+      },
+    };
+  }
+
+  /**
+   * Weigh-ins and trend for the last `days` days, plus rate and goal projection.
+   */
+  async getWeightHistory(userId: string, days: number = 90) {
+    const rangeDays = Math.min(Math.max(days, 7), 730);
+    const startKey = this.daysAgoKey(rangeDays - 1);
+
+    const [entries, points, user] = await Promise.all([
+      this.weightEntryModel
+        .find({ userId: getValidObjectId(userId), dateKey: { $gte: startKey } })
+        .sort({ measuredAt: -1 })
+        .lean(),
+      this.getTrendPoints(userId, rangeDays + TREND_WARMUP_DAYS),
+      this.userModel.findById(userId).select("targetWeight").lean(),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        entries,
+        trend: points.filter((p) => p.dateKey >= startKey),
+        summary: this.buildSummary(points, (user as any)?.targetWeight),
+      },
+    };
+  }
+
+  async deleteWeightEntry(userId: string, entryId: string) {
+    const entry = await this.weightEntryModel.findOneAndDelete({
+      _id: getValidObjectId(entryId),
+      userId: getValidObjectId(userId),
+    });
+    if (!entry) {
+      throw new NotFoundException("Weight entry not found");
+    }
+
+    await this.syncDailyProgressWeight(userId, entry.dateKey);
+    const summary = await this.syncUserWeight(userId);
+
+    return {
+      success: true,
+      message: "Weight entry deleted successfully",
+      data: { summary },
+    };
+  }
+
+  /**
+   * Compact trend summary for analytics. Null when the user has no weigh-ins.
+   */
+  async getWeightSummary(userId: string, targetWeight?: number) {
+    const points = await this.getTrendPoints(
+      userId,
+      TREND_WARMUP_DAYS * 3
+    );
+    return this.buildSummary(points, targetWeight);
+  }
+
+  private buildSummary(points: WeightTrendPoint[], targetWeight?: number) {
+    if (points.length === 0) {
+      return null;
+    }
+
+    const latest = points[points.length - 1];
+    const weeklyRate = calculateWeeklyRate(points);
+
+    return {
+      latestWeight: latest.weight,
+      latestDate: latest.dateKey,
+      trendWeight: latest.trend,
+      weeklyRate,
+      daysLogged: points.length,
+      projection: targetWeight
+        ? projectGoalDate(
+            latest.trend,
+            weeklyRate,
+            targetWeight,
+            getLocalDateKey(new Date())
+          )
+        : null,
+    };
+  }
+
+  private async getTrendPoints(
+    userId: string,
+    days: number
+  ): Promise<WeightTrendPoint[]> {
+    const entries = await this.weightEntryModel
+      .find({
+        userId: getValidObjectId(userId),
+        dateKey: { $gte: this.daysAgoKey(days - 1) },
+      })
+      .select("dateKey weight")
+      .lean();
+    return calculateWeightTrend(entries);
+  }
+
+  /**
+   * Keep DailyProgress.weight as the day's average weigh-in
+   */
+  private async syncDailyProgressWeight(userId: string, dateKey: string) {
+    const dayEntries = await this.weightEntryModel
+      .find({ userId: getValidObjectId(userId), dateKey })
+      .select("weight")
+      .lean();
+
+    const average =
+      dayEntries.length > 0
+        ? Math.round(
+            (dayEntries.reduce((sum, e) => sum + e.weight, 0) /
+              dayEntries.length) *
+              10
+          ) / 10
+        : undefined;
+
+    await this.progressModel.updateOne(
+      { userId, dateKey },
+      average !== undefined
+        ? { $set: { weight: average } }
+        : { $unset: { weight: "" } }
+    );
+  }
+
+  /**
+   * Feed the trend weight back into the user profile so BMR/TDEE stay current
+   */
+  private async syncUserWeight(userId: string) {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const points = await this.getTrendPoints(userId, TREND_WARMUP_DAYS * 3);
+    const summary = this.buildSummary(points, user.targetWeight);
+    if (!summary) {
+      return null;
+    }
+
+    user.weight = summary.trendWeight;
+    if (user.height && user.age && user.gender) {
+      const bmr = calculateBMR(user.weight, user.height, user.age, user.gender);
+      user.bmr = Math.round(bmr);
+      user.tdee = Math.round(calculateTDEE(bmr, user.workoutFrequency));
+    }
+    await user.save();
+
+    logger.info(
+      `[WeightService] User ${userId} trend weight ${summary.trendWeight}kg (rate ${summary.weeklyRate ?? "n/a"} kg/week)`
+    );
+
+    return summary;
+  }
+
+  private daysAgoKey(days: number): string {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return getLocalDateKey(date);
+  }
+}
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { QuotaKey, QUOTA_KEYS } from "../enums/enumSubscription";
+
+// Model name constant for NestJS
+export const QuotaUsage = { name: "QuotaUsage" };
+
+export interface IQuotaUsage extends Document {
+  userId: mongoose.Types.ObjectId;
+  key: QuotaKey;
+  periodStart: Date; // start of the day/week/month window (UTC)
+  count: number;
+  expiresAt: Date; // window end plus a grace period, for cleanup
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One counter per user, quota and period window
+const quotaUsageSchema = new Schema<IQuotaUsage>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    key: { type: String, enum: QUOTA_KEYS, required: true },
+    periodStart: { type: Date, required: true },
+    count: { type: Number, default: 0, min: 0 },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+    collection: "quota_usage",
+  }
+);
+
+quotaUsageSchema.index({ userId: 1, key: 1, periodStart: 1 }, { unique: true });
+quotaUsageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const QuotaUsageSchema = quotaUsageSchema;
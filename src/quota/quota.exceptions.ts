@@ -0,0 +1,44 @@
+import { HttpException, HttpStatus } from "@nestjs/common";
+import { QuotaKey, QuotaPeriod, SubscriptionTier } from "../enums/enumSubscription";
+
+interface QuotaErrorDetails {
+  quota: QuotaKey;
+  tier: SubscriptionTier;
+  limit: number;
+  period: QuotaPeriod;
+  upgradeTier: SubscriptionTier | null;
+}
+
+/**
+ * 402 — the user's tier does not include this action at all
+ */
+export class QuotaNotIncludedException extends HttpException {
+  constructor(readonly details: QuotaErrorDetails) {
+    super(
+      {
+        statusCode: HttpStatus.PAYMENT_REQUIRED,
+        error: "Payment Required",
+        message: `Your ${details.tier} plan does not include ${details.quota}. Upgrade${details.upgradeTier ? ` to ${details.upgradeTier}` : ""} to use it.`,
+        ...details,
+      },
+      HttpStatus.PAYMENT_REQUIRED
+    );
+  }
+}
+
+/**
+ * 429 — the allowance for the current period is used up
+ */
+export class QuotaExceededException extends HttpException {
+  constructor(readonly details: QuotaErrorDetails & { used: number; resetsAt: Date }) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: "Too Many Requests",
+        message: `You have used all ${details.limit} ${details.quota} allowed per ${details.period} on your ${details.tier} plan. It resets at ${details.resetsAt.toISOString()}.`,
+        ...details,
+      },
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+}
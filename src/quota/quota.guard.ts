@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  NestInterceptor,
+  CallHandler,
+  SetMetadata,
+  UseGuards,
+  UseInterceptors,
+  applyDecorators,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Observable, catchError, throwError } from "rxjs";
+import { QuotaKey } from "../enums/enumSubscription";
+import { QuotaService } from "./quota.service";
+import logger from "../utils/logger";
+import { getErrorMessage } from "../utils/gemini-rate-limiter";
+
+export const REQUIRED_QUOTA_KEY = "requiredQuota";
+
+@Injectable()
+export class QuotaGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private quotaService: QuotaService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const quotaKey = this.reflector.getAllAndOverride<QuotaKey>(
+      REQUIRED_QUOTA_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+
+    if (!quotaKey) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?._id?.toString();
+    if (!userId) {
+      throw new ForbiddenException("User not found");
+    }
+
+    request.quotaConsumption = await this.quotaService.consume(userId, quotaKey);
+    return true;
+  }
+}
+
+// Gives the use back when the metered handler fails
+@Injectable()
+export class QuotaRefundInterceptor implements NestInterceptor {
+  constructor(private quotaService: QuotaService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest();
+    return next.handle().pipe(
+      catchError((error) => {
+        const consumption = request.quotaConsumption;
+        const userId = request.user?._id?.toString();
+        if (consumption && userId) {
+          this.quotaService
+            .refund(userId, consumption)
+            .catch((refundError) =>
+              logger.warn(`[Quota] Refund failed: ${getErrorMessage(refundError)}`)
+            );
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+}
+
+/**
+ * Meter a route against the user's tier quota (402 when not included, 429
+ * when used up for the period). Runs after the controller's own guards.
+ * Usage: @RequiresQuota('chatMessage')
+ */
+export const RequiresQuota = (quota: QuotaKey) =>
+  applyDecorators(
+    SetMetadata(REQUIRED_QUOTA_KEY, quota),
+    UseGuards(QuotaGuard),
+    UseInterceptors(QuotaRefundInterceptor)
+  );
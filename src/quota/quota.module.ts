@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { QuotaUsage, QuotaUsageSchema } from "./quota-usage.model";
+import { QuotaService } from "./quota.service";
+import { QuotaGuard, QuotaRefundInterceptor } from "./quota.guard";
+import { User, UserSchema } from "../user/user.model";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: QuotaUsage.name, schema: QuotaUsageSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  providers: [QuotaService, QuotaGuard, QuotaRefundInterceptor],
+  exports: [QuotaService, QuotaGuard, QuotaRefundInterceptor],
+})
+export class QuotaModule {}
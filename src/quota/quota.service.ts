@@ -0,0 +1,181 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import mongoose from "mongoose";
+import { QuotaUsage, IQuotaUsage } from "./quota-usage.model";
+import { User } from "../user/user.model";
+import { IUserData } from "../types/interfaces";
+import {
+  QuotaKey,
+  QuotaPeriod,
+  QUOTA_KEYS,
+  QUOTA_PERIODS,
+  TIER_QUOTAS,
+  SubscriptionTier,
+  getEffectiveSubscriptionTier,
+  getUpgradeTierForQuota,
+} from "../enums/enumSubscription";
+import { getQuotaWindow } from "../utils/quotaPeriods";
+import {
+  QuotaExceededException,
+  QuotaNotIncludedException,
+} from "./quota.exceptions";
+import logger from "../utils/logger";
+
+// Counters outlive their window by a week so recent history can be inspected
+const COUNTER_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface QuotaStatus {
+  limit: number | null; // null = unlimited
+  used: number;
+  remaining: number | null;
+  period: QuotaPeriod;
+  resetsAt: Date;
+}
+
+// What a successful consume() took, so it can be given back if the action fails
+export interface QuotaConsumption {
+  key: QuotaKey;
+  periodStart: Date;
+}
+
+const toEnvSuffix = (key: QuotaKey): string =>
+  key.replace(/([A-Z])/g, "_$1").toUpperCase();
+
+@Injectable()
+export class QuotaService {
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(QuotaUsage.name) private quotaModel: Model<IQuotaUsage>,
+    @InjectModel(User.name) private userModel: Model<IUserData>
+  ) {}
+
+  /**
+   * Limit for a tier, from AI_QUOTA_<TIER>_<ACTION> or the TIER_QUOTAS default
+   */
+  getLimit(tier: SubscriptionTier, key: QuotaKey): number | null {
+    const override = this.configService.get<string>(
+      `AI_QUOTA_${tier.toUpperCase()}_${toEnvSuffix(key)}`
+    );
+    if (override !== undefined && override.trim() !== "") {
+      const value = override.trim().toLowerCase();
+      if (value === "unlimited" || value === "-1") return null;
+      const parsed = parseInt(value, 10);
+      if (!isNaN(parsed) && parsed >= 0) return parsed;
+      logger.warn(`[Quota] Ignoring invalid override for ${tier}/${key}: ${override}`);
+    }
+    return TIER_QUOTAS[tier][key];
+  }
+
+  /**
+   * Count one use of a metered action, or throw 402/429 when the user's tier
+   * does not include it or the current period's allowance is used up
+   */
+  async consume(userId: string, key: QuotaKey): Promise<QuotaConsumption> {
+    const tier = await this.getUserTier(userId);
+    const limit = this.getLimit(tier, key);
+    const period = QUOTA_PERIODS[key];
+    const upgradeTier = getUpgradeTierForQuota(tier, key);
+
+    if (limit === 0) {
+      throw new QuotaNotIncludedException({ quota: key, tier, limit, period, upgradeTier });
+    }
+
+    const { start, end } = getQuotaWindow(period);
+    const filter = {
+      userId: new mongoose.Types.ObjectId(userId),
+      key,
+      periodStart: start,
+    };
+    const update = {
+      $inc: { count: 1 },
+      $setOnInsert: { expiresAt: new Date(end.getTime() + COUNTER_GRACE_MS) },
+    };
+
+    try {
+      // With a limit, a full counter doesn't match the filter and the upsert
+      // collides with it on the unique index
+      await this.quotaModel.updateOne(
+        limit === null ? filter : { ...filter, count: { $lt: limit } },
+        update,
+        { upsert: true }
+      );
+    } catch (error: any) {
+      if (error?.code !== 11000 || limit === null) throw error;
+      const usage = await this.quotaModel.findOne(filter).lean();
+      throw new QuotaExceededException({
+        quota: key,
+        tier,
+        limit,
+        period,
+        upgradeTier,
+        used: usage?.count ?? limit,
+        resetsAt: end,
+      });
+    }
+
+    return { key, periodStart: start };
+  }
+
+  /**
+   * Give back a use whose action failed
+   */
+  async refund(userId: string, consumption: QuotaConsumption): Promise<void> {
+    await this.quotaModel.updateOne(
+      {
+        userId: new mongoose.Types.ObjectId(userId),
+        key: consumption.key,
+        periodStart: consumption.periodStart,
+        count: { $gt: 0 },
+      },
+      { $inc: { count: -1 } }
+    );
+  }
+
+  /**
+   * Limit, usage and reset time for every metered action
+   */
+  async getQuotaStatus(userId: string): Promise<Record<QuotaKey, QuotaStatus>> {
+    const tier = await this.getUserTier(userId);
+    const windows = QUOTA_KEYS.map((key) => ({
+      key,
+      ...getQuotaWindow(QUOTA_PERIODS[key]),
+    }));
+
+    const usage = await this.quotaModel
+      .find({
+        userId: new mongoose.Types.ObjectId(userId),
+        $or: windows.map(({ key, start }) => ({ key, periodStart: start })),
+      })
+      .lean();
+
+    return Object.fromEntries(
+      windows.map(({ key, end }) => {
+        const limit = this.getLimit(tier, key);
+        const used = usage.find((u) => u.key === key)?.count ?? 0;
+        return [
+          key,
+          {
+            limit,
+            used,
+            remaining: limit === null ? null : Math.max(limit - used, 0),
+            period: QUOTA_PERIODS[key],
+            resetsAt: end,
+          },
+        ];
+      })
+    ) as Record<QuotaKey, QuotaStatus>;
+  }
+
+  private async getUserTier(userId: string): Promise<SubscriptionTier> {
+    const user = await this.userModel
+      .findById(userId)
+      .select("subscriptionTier role")
+      .lean();
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+    return getEffectiveSubscriptionTier(user.subscriptionTier, user.role);
+  }
+}
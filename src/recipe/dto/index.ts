@@ -0,0 +1 @@
+export * from "./scale-recipe-query.dto";
@@ -0,0 +1,29 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+import { Type } from "class-transformer";
+import { MAX_RECIPE_SERVINGS } from "../../utils/recipeScaling";
+
+export class ScaleRecipeQueryDto {
+  @ApiPropertyOptional({
+    example: 4,
+    maximum: MAX_RECIPE_SERVINGS,
+    description: "Servings to cook; ingredient amounts and total macros are scaled to match",
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECIPE_SERVINGS)
+  servings?: number;
+
+  @ApiPropertyOptional({
+    example: 600,
+    description: "Calories per serving; the portion is resized to match",
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(50)
+  @Max(5000)
+  targetCalories?: number;
+}
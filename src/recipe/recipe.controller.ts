@@ -20,6 +20,7 @@ import {
 } from "@nestjs/swagger";
 import { RecipeService } from "./recipe.service";
 import { AuthGuard } from "../auth/auth.guard";
+import { ScaleRecipeQueryDto } from "./dto";
 
 @ApiTags("recipes")
 @Controller("recipes")
@@ -83,25 +84,34 @@ export class RecipeController {
   }
 
   @Get(":userId/meal/:mealId")
-  @ApiOperation({ summary: "Get recipe by meal name" })
+  @ApiOperation({
+    summary: "Get recipe by meal name",
+    description:
+      "Pass `servings` and/or `targetCalories` to scale ingredient amounts (rounded per " +
+      "unit) and macros; `macros` stay per serving and `totalMacros` cover all servings.",
+  })
   @ApiParam({ name: "mealId", description: "ID of the meal" })
   @ApiQuery({ name: "language", required: false, example: "en" })
   @ApiResponse({ status: 200, description: "Recipe retrieved successfully" })
   findByMealId(
     @Param("userId") userId: string,
     @Param("mealId") mealId: string,
+    @Query() scale: ScaleRecipeQueryDto,
     @Query("language") language?: string
   ) {
-    return this.recipeService.findByMealId(mealId, userId, language);
+    return this.recipeService.findByMealId(mealId, userId, language, scale);
   }
 
   @Get(":id")
-  @ApiOperation({ summary: "Get recipe by ID" })
+  @ApiOperation({
+    summary: "Get recipe by ID",
+    description: "Scales like the meal recipe when `servings` or `targetCalories` is given.",
+  })
   @ApiParam({ name: "id", description: "Recipe ID" })
   @ApiResponse({ status: 200, description: "Recipe retrieved successfully" })
   @ApiResponse({ status: 404, description: "Recipe not found" })
-  findById(@Param("id") id: string) {
-    return this.recipeService.findById(id);
+  findById(@Param("id") id: string, @Query() scale: ScaleRecipeQueryDto) {
+    return this.recipeService.findById(id, scale);
   }
 
   @Post()
@@ -4,6 +4,7 @@ import { Model } from "mongoose";
 import { Recipe } from "./recipe.model";
 import { IMeal, IRecipe, IUserData } from "../types/interfaces";
 import logger from "../utils/logger";
+import { RecipeScaleOptions, hasRecipeScaling, scaleRecipe } from "../utils/recipeScaling";
 import aiService from "src/generator/generate.service";
 import { Meal } from "src/meal/meal.model";
 import { User } from "src/user/user.model";
@@ -37,7 +38,7 @@ export class RecipeService {
     };
   }
 
-  async findById(id: string) {
+  async findById(id: string, scale?: RecipeScaleOptions) {
     const recipe = await this.recipeModel.findById(id).lean().exec();
     if (!recipe) {
       throw new NotFoundException("Recipe not found");
@@ -51,11 +52,16 @@ export class RecipeService {
 
     return {
       success: true,
-      data: recipe,
+      data: hasRecipeScaling(scale) ? scaleRecipe(recipe, scale) : recipe,
     };
   }
 
-  async findByMealId(mealId: string, userId: string, language: string = "en") {
+  async findByMealId(
+    mealId: string,
+    userId: string,
+    language: string = "en",
+    scale?: RecipeScaleOptions
+  ) {
     let recipe = await this.recipeModel
       .findOne({
         mealId: mealId,
@@ -88,7 +94,7 @@ export class RecipeService {
         1,
         language
       );
-      recipe = await this.recipeModel.create({
+      const created = await this.recipeModel.create({
         mealId: mealId,
         mealName: meal.name,
         category: meal.category,
@@ -106,11 +112,13 @@ export class RecipeService {
         usageCount: 1,
         lastUsed: new Date(),
       });
+      recipe = created.toObject();
     }
 
     return {
       success: true,
-      data: recipe,
+      // Stored as generated (one serving); scaled per request
+      data: hasRecipeScaling(scale) ? scaleRecipe(recipe, scale) : recipe,
     };
   }
 
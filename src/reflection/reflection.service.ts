@@ -2,7 +2,7 @@ import { Injectable } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { DailyProgress } from "../progress/progress.model";
-import { Plan } from "../plan/plan.model";
+import { Plan, currentPlanQuery } from "../plan/plan.model";
 import { User } from "../user/user.model";
 import { XP_REWARDS } from "../engagement/engagement.service";
 import logger from "../utils/logger";
@@ -421,7 +421,7 @@ export class ReflectionService {
       .lean()) as any;
 
     // Get user's targets
-    const plan = (await this.planModel.findOne({ userId }).lean()) as any;
+    const plan = (await this.planModel.findOne(currentPlanQuery(userId)).lean()) as any;
     const targets = {
       calories: Math.round(plan?.userMetrics?.tdee || 2000),
       protein: Math.round(plan?.userMetrics?.dailyMacros?.protein || 150),
@@ -501,7 +501,7 @@ export class ReflectionService {
     lastWeekEnd.setHours(23, 59, 59, 999);
 
     // Get user's targets
-    const plan = (await this.planModel.findOne({ userId }).lean()) as any;
+    const plan = (await this.planModel.findOne(currentPlanQuery(userId)).lean()) as any;
     const targets = {
       calories: Math.round(plan?.userMetrics?.tdee || 2000),
       protein: Math.round(plan?.userMetrics?.dailyMacros?.protein || 150),
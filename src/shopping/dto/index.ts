@@ -1,2 +1,2 @@
 export * from "./update-shopping-items.dto";
-
+export * from "./share-shopping-list.dto";
@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+
+// DTO for creating a read-only share link for a shopping list
+export class CreateShoppingListShareDto {
+  @ApiProperty({
+    example: 7,
+    description: "Days until the link expires (1-30, default 7)",
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  expiresInDays?: number;
+}
@@ -2,13 +2,17 @@ import { ApiProperty } from "@nestjs/swagger";
 import {
   IsArray,
   IsBoolean,
+  IsInt,
   IsNotEmpty,
   IsObject,
   IsOptional,
   IsString,
+  Max,
+  Min,
   ValidateNested,
 } from "class-validator";
 import { Type } from "class-transformer";
+import { MAX_RECIPE_SERVINGS } from "../../utils/recipeScaling";
 
 // Reusable product DTO for shopping list operations
 export class ProductDto {
@@ -76,6 +80,19 @@ export class AddMealToShoppingListDto {
   @IsNotEmpty()
   @IsString()
   mealId: string;
+
+  @ApiProperty({
+    example: 4,
+    description: "Servings to cook; ingredient amounts are scaled from one serving",
+    required: false,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RECIPE_SERVINGS)
+  servings?: number;
 }
 
 // DTO for updating shopping item status
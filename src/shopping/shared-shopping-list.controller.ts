@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Res,
+} from "@nestjs/common";
+import { Response } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+} from "@nestjs/swagger";
+import { ShoppingShareService } from "./shopping-share.service";
+import { UpdateShoppingItemDto } from "./dto";
+
+// Public endpoints behind a share token (no login required)
+@ApiTags("shopping")
+@Controller("shopping/shared")
+export class SharedShoppingListController {
+  constructor(private readonly shoppingShareService: ShoppingShareService) {}
+
+  @Get(":token")
+  @ApiOperation({ summary: "Get a shared shopping list grouped by category" })
+  @ApiParam({ name: "token", description: "Share token" })
+  @ApiResponse({ status: 200, description: "Shared shopping list" })
+  @ApiResponse({ status: 404, description: "Link not found or expired" })
+  async getSharedList(@Param("token") token: string) {
+    return this.shoppingShareService.getSharedList(token);
+  }
+
+  @Get(":token/view")
+  @ApiOperation({ summary: "Shared shopping list as a web page" })
+  @ApiParam({ name: "token", description: "Share token" })
+  @ApiResponse({ status: 200, description: "HTML page" })
+  @ApiResponse({ status: 404, description: "Link not found or expired" })
+  async viewSharedList(@Param("token") token: string, @Res() res: Response) {
+    const { html, nonce } = await this.shoppingShareService.renderSharedList(
+      token,
+      `/api/shopping/shared/${encodeURIComponent(token)}`
+    );
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader(
+      "Content-Security-Policy",
+      `default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline'; connect-src 'self'`
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.send(html);
+  }
+
+  @Put(":token/items")
+  @ApiOperation({ summary: "Tick an item on a shared shopping list" })
+  @ApiParam({ name: "token", description: "Share token" })
+  @ApiBody({ type: UpdateShoppingItemDto })
+  @ApiResponse({ status: 200, description: "Item updated" })
+  @ApiResponse({ status: 404, description: "Link or item not found" })
+  async updateSharedItem(
+    @Param("token") token: string,
+    @Body() body: UpdateShoppingItemDto
+  ) {
+    return this.shoppingShareService.updateSharedItem(
+      token,
+      body.item.name,
+      body.item.done
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IShoppingListShare extends Document {
+  token: string;
+  userId: mongoose.Types.ObjectId; // owner of the shopping list
+  planId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  revokedAt?: Date;
+  lastAccessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model name constant for NestJS
+export const ShoppingListShare = { name: "ShoppingListShare" };
+
+// Read-only share link for a shopping list. Anyone with the token can view the
+// list and tick items off until the link expires or the owner revokes it.
+const shoppingListShareSchema = new Schema<IShoppingListShare>(
+  {
+    token: { type: String, required: true, unique: true },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    planId: {
+      type: Schema.Types.ObjectId,
+      ref: "Plan",
+      required: true,
+    },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    lastAccessedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    collection: "shoppinglist_shares",
+  }
+);
+
+shoppingListShareSchema.index({ userId: 1, planId: 1 });
+// Expired links are removed by MongoDB shortly after they expire
+shoppingListShareSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ShoppingListShareSchema = shoppingListShareSchema;
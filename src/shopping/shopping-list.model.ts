@@ -1,9 +1,11 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { Quantity } from "../utils/quantities";
 
 export interface IShoppingListIngredient {
   name: string;
-  amount: string;
+  amount: string; // display string in the user's unit system
   category?: string;
+  quantities?: Quantity[]; // normalized totals (g / ml / count unit)
   done: boolean;
   key: string;
 }
@@ -19,11 +21,27 @@ export interface IShoppingList extends Document {
 // Model name constant for NestJS
 export const ShoppingList = { name: "ShoppingList" };
 
-const shoppingListIngredientSchema = new Schema(
+// Shared with the pantry, which stores stock in the same normalized units
+export const QuantitySchema = new Schema(
+  {
+    value: { type: Number, required: true },
+    unit: { type: String, required: true },
+    dimension: {
+      type: String,
+      enum: ["mass", "volume", "count"],
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+// Also used by the household shopping list
+export const ShoppingListIngredientSchema = new Schema(
   {
     name: { type: String, required: true },
     amount: { type: String, default: "" },
     category: { type: String },
+    quantities: { type: [QuantitySchema], default: undefined },
     done: { type: Boolean, default: false },
     key: { type: String, required: true },
   },
@@ -45,7 +63,7 @@ const shoppingListSchema = new Schema<IShoppingList>(
       index: true, // Keep index for queries that filter by planId alone
     },
     ingredients: {
-      type: [shoppingListIngredientSchema],
+      type: [ShoppingListIngredientSchema],
       default: [],
     },
   },
@@ -0,0 +1,168 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import crypto from "crypto";
+import { ShoppingList, IShoppingList } from "./shopping-list.model";
+import {
+  ShoppingListShare,
+  IShoppingListShare,
+} from "./shopping-list-share.model";
+import { ShoppingService } from "./shopping.service";
+import logger from "../utils/logger";
+import { getValidObjectId } from "../utils/helpers";
+import {
+  groupShoppingItems,
+  renderShoppingListHtml,
+} from "../utils/shoppingExport";
+
+const DEFAULT_SHARE_DAYS = 7;
+const SHARED_LIST_TITLE = "Shopping list";
+
+@Injectable()
+export class ShoppingShareService {
+  constructor(
+    @InjectModel(ShoppingList.name)
+    private shoppingListModel: Model<IShoppingList>,
+    @InjectModel(ShoppingListShare.name)
+    private shareModel: Model<IShoppingListShare>,
+    private shoppingService: ShoppingService
+  ) {}
+
+  /**
+   * Create a read-only share link for the user's shopping list
+   */
+  async createShare(
+    userId: string,
+    planId: string,
+    expiresInDays: number = DEFAULT_SHARE_DAYS
+  ) {
+    await this.getOwnedShoppingList(userId, planId);
+
+    const share = await this.shareModel.create({
+      token: crypto.randomBytes(24).toString("base64url"),
+      userId: getValidObjectId(userId),
+      planId: getValidObjectId(planId),
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    });
+
+    logger.info(
+      `[ShoppingShare] User ${userId} shared shopping list for plan ${planId} until ${share.expiresAt.toISOString()}`
+    );
+
+    return share;
+  }
+
+  // Active (not revoked, not expired) share links for a shopping list
+  async listShares(userId: string, planId: string) {
+    await this.getOwnedShoppingList(userId, planId);
+    return this.shareModel
+      .find({
+        userId: getValidObjectId(userId),
+        planId: getValidObjectId(planId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  async revokeShare(userId: string, planId: string, token: string) {
+    const share = await this.shareModel.findOneAndUpdate(
+      {
+        token,
+        userId: getValidObjectId(userId),
+        planId: getValidObjectId(planId),
+        revokedAt: { $exists: false },
+      },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (!share) {
+      throw new NotFoundException("Share link not found");
+    }
+    return { success: true, message: "Share link revoked" };
+  }
+
+  /**
+   * Shopping list behind a share token, grouped by category
+   */
+  async getSharedList(token: string) {
+    const share = await this.resolveShare(token);
+    const shoppingList = await this.shoppingListModel
+      .findOne({ userId: share.userId, planId: share.planId })
+      .lean();
+    if (!shoppingList) {
+      throw new NotFoundException("Shopping list not found");
+    }
+
+    await this.shareModel.updateOne(
+      { _id: share._id },
+      { $set: { lastAccessedAt: new Date() } }
+    );
+
+    return {
+      success: true,
+      data: {
+        title: SHARED_LIST_TITLE,
+        groups: groupShoppingItems(shoppingList.ingredients || []),
+        expiresAt: share.expiresAt,
+        updatedAt: shoppingList.updatedAt,
+      },
+    };
+  }
+
+  // The page's inline script is allowed through the CSP by a per-response nonce
+  async renderSharedList(token: string, apiPath: string) {
+    const { data } = await this.getSharedList(token);
+    const nonce = crypto.randomBytes(16).toString("base64");
+    return {
+      nonce,
+      html: renderShoppingListHtml(data.groups, {
+        title: data.title,
+        apiPath,
+        expiresAt: new Date(data.expiresAt),
+        nonce,
+      }),
+    };
+  }
+
+  /**
+   * Tick an item off (or back on) through a share link. Same effect as the
+   * owner doing it, including moving bought items into the owner's pantry.
+   */
+  async updateSharedItem(token: string, name: string, done: boolean) {
+    const share = await this.resolveShare(token);
+    await this.shoppingService.updateShoppingItems(
+      share.planId.toString(),
+      name,
+      done
+    );
+    return this.getSharedList(token);
+  }
+
+  private async resolveShare(token: string): Promise<IShoppingListShare> {
+    const share = await this.shareModel.findOne({ token });
+    if (!share || share.revokedAt || share.expiresAt.getTime() <= Date.now()) {
+      throw new NotFoundException("Share link not found or expired");
+    }
+    return share;
+  }
+
+  private async getOwnedShoppingList(userId: string, planId: string) {
+    const shoppingList = await this.shoppingListModel
+      .findOne({ planId: getValidObjectId(planId) })
+      .select("userId")
+      .lean();
+    if (!shoppingList) {
+      throw new NotFoundException("Shopping list not found");
+    }
+    if (shoppingList.userId.toString() !== userId) {
+      throw new ForbiddenException("You can only share your own shopping list");
+    }
+    return shoppingList;
+  }
+}
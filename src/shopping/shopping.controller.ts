@@ -8,8 +8,11 @@ import {
   Body,
   Param,
   Request,
+  Res,
   UseGuards,
+  BadRequestException,
 } from "@nestjs/common";
+import { Response } from "express";
 import {
   ApiTags,
   ApiOperation,
@@ -20,11 +23,13 @@ import {
   ApiParam,
 } from "@nestjs/swagger";
 import { ShoppingService } from "./shopping.service";
+import { ShoppingShareService } from "./shopping-share.service";
 import { AuthGuard } from "../auth/auth.guard";
 import {
   UpdateShoppingItemDto,
   AddProductsDto,
   AddMealToShoppingListDto,
+  CreateShoppingListShareDto,
 } from "./dto";
 
 @ApiTags("shopping")
@@ -32,7 +37,10 @@ import {
 @UseGuards(AuthGuard)
 @ApiBearerAuth("JWT-auth")
 export class ShoppingController {
-  constructor(private readonly shoppingService: ShoppingService) {}
+  constructor(
+    private readonly shoppingService: ShoppingService,
+    private readonly shoppingShareService: ShoppingShareService
+  ) {}
 
   @Get("list")
   @ApiOperation({
@@ -82,6 +90,7 @@ export class ShoppingController {
   @Post("list/add-meal")
   @ApiOperation({
     summary: "Add all ingredients from a meal to shopping list",
+    description: "Amounts are scaled to `servings` (default 1).",
   })
   @ApiBody({ type: AddMealToShoppingListDto })
   @ApiResponse({
@@ -93,7 +102,11 @@ export class ShoppingController {
     @Body() body: AddMealToShoppingListDto,
     @Request() req
   ) {
-    return this.shoppingService.addMealToShoppingList(body.planId, body.mealId);
+    return this.shoppingService.addMealToShoppingList(
+      body.planId,
+      body.mealId,
+      body.servings
+    );
   }
 
   @Delete(":planId/items/:productName")
@@ -135,4 +148,114 @@ export class ShoppingController {
       body.item.done
     );
   }
+
+  @Get(":planId/export")
+  @ApiOperation({
+    summary: "Export the shopping list as grouped plain text or CSV",
+  })
+  @ApiParam({ name: "planId", description: "Plan ID" })
+  @ApiQuery({ name: "format", required: false, enum: ["text", "csv"] })
+  @ApiQuery({
+    name: "includeDone",
+    required: false,
+    description: "Include items already checked off (default false)",
+  })
+  @ApiResponse({ status: 200, description: "Shopping list file" })
+  @ApiResponse({ status: 404, description: "Plan not found" })
+  async exportShoppingList(
+    @Param("planId") planId: string,
+    @Query("format") format: string = "text",
+    @Query("includeDone") includeDone: string,
+    @Res() res: Response
+  ) {
+    if (format !== "text" && format !== "csv") {
+      throw new BadRequestException('format must be "text" or "csv"');
+    }
+    const file = await this.shoppingService.exportShoppingList(
+      planId,
+      format,
+      includeDone === "true"
+    );
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.filename}"`
+    );
+    res.send(file.body);
+  }
+
+  @Post(":planId/share")
+  @ApiOperation({
+    summary:
+      "Create a read-only share link for the shopping list. Recipients can tick items off.",
+  })
+  @ApiParam({ name: "planId", description: "Plan ID" })
+  @ApiBody({ type: CreateShoppingListShareDto })
+  @ApiResponse({ status: 201, description: "Share link created" })
+  @ApiResponse({ status: 403, description: "Not the owner of the list" })
+  @ApiResponse({ status: 404, description: "Shopping list not found" })
+  async createShare(
+    @Param("planId") planId: string,
+    @Body() body: CreateShoppingListShareDto,
+    @Request() req
+  ) {
+    const share = await this.shoppingShareService.createShare(
+      req.user._id.toString(),
+      planId,
+      body.expiresInDays
+    );
+    return {
+      success: true,
+      data: {
+        token: share.token,
+        url: this.getShareUrl(req, share.token),
+        expiresAt: share.expiresAt,
+      },
+    };
+  }
+
+  @Get(":planId/share")
+  @ApiOperation({ summary: "List active share links for the shopping list" })
+  @ApiParam({ name: "planId", description: "Plan ID" })
+  @ApiResponse({ status: 200, description: "Active share links" })
+  async listShares(@Param("planId") planId: string, @Request() req) {
+    const shares = await this.shoppingShareService.listShares(
+      req.user._id.toString(),
+      planId
+    );
+    return {
+      success: true,
+      data: shares.map((share) => ({
+        token: share.token,
+        url: this.getShareUrl(req, share.token),
+        expiresAt: share.expiresAt,
+        lastAccessedAt: share.lastAccessedAt || null,
+        createdAt: share.createdAt,
+      })),
+    };
+  }
+
+  @Delete(":planId/share/:token")
+  @ApiOperation({ summary: "Revoke a shopping list share link" })
+  @ApiParam({ name: "planId", description: "Plan ID" })
+  @ApiParam({ name: "token", description: "Share token" })
+  @ApiResponse({ status: 200, description: "Share link revoked" })
+  @ApiResponse({ status: 404, description: "Share link not found" })
+  async revokeShare(
+    @Param("planId") planId: string,
+    @Param("token") token: string,
+    @Request() req
+  ) {
+    return this.shoppingShareService.revokeShare(
+      req.user._id.toString(),
+      planId,
+      token
+    );
+  }
+
+  private getShareUrl(req: any, token: string): string {
+    const protocol = req.protocol || "https";
+    const host = req.get("host") || "localhost:5080";
+    return `${protocol}://${host}/api/shopping/shared/${token}/view`;
+  }
 }
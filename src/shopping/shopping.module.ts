@@ -1,23 +1,32 @@
 import { Module, forwardRef } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { ShoppingController } from "./shopping.controller";
+import { SharedShoppingListController } from "./shared-shopping-list.controller";
 import { ShoppingService } from "./shopping.service";
+import { ShoppingShareService } from "./shopping-share.service";
 import { ShoppingList, ShoppingListSchema } from "./shopping-list.model";
+import {
+  ShoppingListShare,
+  ShoppingListShareSchema,
+} from "./shopping-list-share.model";
 import { Plan, PlanSchema } from "../plan/plan.model";
 import { Meal, MealSchema } from "../meal/meal.model";
 import { User, UserSchema } from "src/user/user.model";
+import { PantryModule } from "../pantry/pantry.module";
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: ShoppingList.name, schema: ShoppingListSchema },
+      { name: ShoppingListShare.name, schema: ShoppingListShareSchema },
       { name: Plan.name, schema: PlanSchema },
       { name: Meal.name, schema: MealSchema },
       { name: User.name, schema: UserSchema },
     ]),
+    PantryModule,
   ],
-  controllers: [ShoppingController],
-  providers: [ShoppingService],
+  controllers: [ShoppingController, SharedShoppingListController],
+  providers: [ShoppingService, ShoppingShareService],
   exports: [ShoppingService],
 })
 export class ShoppingModule {}
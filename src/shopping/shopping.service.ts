@@ -8,7 +8,27 @@ import {
   IShoppingListIngredient,
 } from "./shopping-list.model";
 import { Plan, PlanSchema } from "../plan/plan.model";
-import { IPlan } from "../types/interfaces";
+import { User } from "../user/user.model";
+import { PantryService } from "../pantry/pantry.service";
+import {
+  formatShoppingListCsv,
+  formatShoppingListText,
+} from "../utils/shoppingExport";
+import logger from "../utils/logger";
+import { IPlan, IUserData } from "../types/interfaces";
+import {
+  aggregateIngredients,
+  assignIngredientCategory,
+  getIngredientKey,
+} from "../utils/helpers";
+import {
+  Quantity,
+  UnitSystem,
+  parseQuantity,
+  mergeQuantities,
+  formatQuantities,
+  scaleAmountText,
+} from "../utils/quantities";
 
 @Injectable()
 export class ShoppingService {
@@ -16,48 +36,50 @@ export class ShoppingService {
     @InjectModel(ShoppingList.name)
     private shoppingListModel: Model<IShoppingList>,
     @InjectModel(Plan.name)
-    private planModel: Model<IPlan>
+    private planModel: Model<IPlan>,
+    @InjectModel(User.name)
+    private userModel: Model<IUserData>,
+    private pantryService: PantryService
   ) {}
 
-  // Helper to normalize ingredient keys
+  // Helper to normalize ingredient keys (groups "tomatoes" with "chopped tomato")
   private normalizeIngredientKey(ingredientName: string): string {
-    return ingredientName
+    return getIngredientKey(ingredientName);
+  }
+
+  // Keys to match an item by name, including the pre-normalization key format
+  // used by lists generated before unit-aware aggregation
+  private candidateKeys(ingredientName: string): string[] {
+    const legacyKey = ingredientName
       .toLowerCase()
       .replace(/\s+/g, "_")
       .replace(/[^a-z0-9_]/g, "");
+    return Array.from(
+      new Set([this.normalizeIngredientKey(ingredientName), legacyKey])
+    );
   }
 
-  // Parse amount string like "200 g" into { value: 200, unit: "g" }
-  private parseAmount(
-    amountStr: string
-  ): { value: number; unit: string } | null {
-    if (!amountStr) return null;
-    const match = amountStr.trim().match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
-    if (match) {
-      return {
-        value: parseFloat(match[1]),
-        unit: match[2].trim().toLowerCase(),
-      };
-    }
-    return null;
-  }
-
-  // Format amount back to string
-  private formatAmount(value: number, unit: string): string {
-    const formattedValue =
-      value % 1 === 0 ? value.toString() : value.toFixed(1);
-    return unit ? `${formattedValue} ${unit}` : formattedValue;
+  private async getUnitSystem(userId: any): Promise<UnitSystem> {
+    const user = await this.userModel
+      .findById(userId)
+      .select("unitSystem")
+      .lean();
+    return user?.unitSystem || "metric";
   }
 
-  // Helper to format amounts map back to string
-  private formatAmounts(amounts: Map<string, number>): string {
-    const parts: string[] = [];
-    amounts.forEach((value, unit) => {
-      const formattedValue =
-        value % 1 === 0 ? value.toString() : value.toFixed(1);
-      parts.push(unit ? `${formattedValue} ${unit}` : formattedValue);
-    });
-    return parts.join(" + ") || "";
+  // Normalized quantities of an existing item (parsed from its amount for older lists)
+  private getItemQuantities(item: IShoppingListIngredient): Quantity[] {
+    if (item.quantities && item.quantities.length > 0) {
+      return item.quantities.map((q) => ({
+        value: q.value,
+        unit: q.unit,
+        dimension: q.dimension,
+      }));
+    }
+    return (item.amount || "")
+      .split("+")
+      .map((part) => parseQuantity(part.trim()))
+      .filter(Boolean);
   }
 
   async generateShoppingList(planId: string) {
@@ -121,78 +143,22 @@ export class ShoppingService {
       }
     }
 
-    // Aggregate ingredients by name (sum amounts for same ingredient)
-    const ingredientMap = new Map<
-      string,
-      {
-        name: string;
-        amounts: Map<string, number>;
-        category?: string;
-      }
-    >();
-
-    allIngredients.forEach((ing) => {
-      // Handle different ingredient formats
-      let ingredientName: string;
-      let ingredientAmount: string;
-      let ingredientCategory: string | undefined;
-
-      if (Array.isArray(ing)) {
-        // Tuple format: [name, amount] or [name, amount, category]
-        ingredientName = ing[0] || "";
-        ingredientAmount = ing[1] || "";
-        ingredientCategory = ing.length > 2 ? ing[2] : undefined;
-      } else if (typeof ing === "string") {
-        // String format: just the name
-        ingredientName = ing;
-        ingredientAmount = "";
-        ingredientCategory = undefined;
-      } else {
-        // Invalid format - skip
-        return;
-      }
-
-      // Skip if name is empty
-      if (!ingredientName || ingredientName.trim() === "") {
-        return;
-      }
-
-      const key = this.normalizeIngredientKey(ingredientName);
-
-      const parsed = this.parseAmount(ingredientAmount);
-
-      if (ingredientMap.has(key)) {
-        const existing = ingredientMap.get(key)!;
-        if (parsed) {
-          const currentAmount = existing.amounts.get(parsed.unit) || 0;
-          existing.amounts.set(parsed.unit, currentAmount + parsed.value);
-        }
-        if (!existing.category && ingredientCategory) {
-          existing.category = ingredientCategory;
-        }
-      } else {
-        const amounts = new Map<string, number>();
-        if (parsed) {
-          amounts.set(parsed.unit, parsed.value);
-        }
-        ingredientMap.set(key, {
-          name: ingredientName,
-          amounts,
-          category: ingredientCategory,
-        });
-      }
-    });
-
-    // Create ingredients with done status
-    const ingredientsWithStatus = Array.from(ingredientMap.entries()).map(
-      ([key, ing]) => ({
-        name: ing.name,
-        amount: this.formatAmounts(ing.amounts),
-        category: ing.category,
-        done: false,
-        key: key,
-      })
+    // Aggregate ingredients per ingredient across units (200 g + 1 lb → 654 g),
+    // then leave out what is already in the pantry
+    const unitSystem = await this.getUnitSystem(plan.userId);
+    const toBuy = await this.pantryService.subtractPantryStock(
+      plan.userId,
+      aggregateIngredients(allIngredients, unitSystem),
+      unitSystem
     );
+    const ingredientsWithStatus = toBuy.map((ing) => ({
+      name: ing.name,
+      amount: ing.amount,
+      category: ing.category,
+      quantities: ing.quantities,
+      done: false,
+      key: ing.key,
+    }));
 
     // Save or update shopping list in DB
     if (existingShoppingList) {
@@ -241,6 +207,7 @@ export class ShoppingService {
       throw new NotFoundException("Shopping list not found");
     }
 
+    const unitSystem = await this.getUnitSystem(shoppingList.userId);
     const addedProducts: Array<{
       name: string;
       amount: string;
@@ -249,45 +216,34 @@ export class ShoppingService {
 
     for (const product of products) {
       const key = this.normalizeIngredientKey(product.name);
-      const newParsed = this.parseAmount(product.amount || "");
+      const newParsed = parseQuantity(product.amount || "");
 
       // Find existing ingredient with same key that is NOT done
+      const keys = this.candidateKeys(product.name);
       const existingNotDone = shoppingList.ingredients.find(
-        (ing) => ing.key === key && !ing.done
+        (ing) => keys.includes(ing.key) && !ing.done
       );
 
       if (existingNotDone) {
-        // Product exists and is not done → add to amount
+        // Product exists and is not done → add to amount, converting units where possible
         if (newParsed) {
-          const existingParsed = this.parseAmount(existingNotDone.amount);
-          if (existingParsed && existingParsed.unit === newParsed.unit) {
-            // Same unit, add amounts
-            existingNotDone.amount = this.formatAmount(
-              existingParsed.value + newParsed.value,
-              newParsed.unit
-            );
-            addedProducts.push({
-              name: product.name,
-              amount: existingNotDone.amount,
-              action: "amount_added",
-            });
-          } else if (existingParsed) {
-            // Different units, concatenate
-            existingNotDone.amount = `${existingNotDone.amount} + ${product.amount}`;
-            addedProducts.push({
-              name: product.name,
-              amount: existingNotDone.amount,
-              action: "amount_concatenated",
-            });
-          } else {
-            // No existing amount, set new amount
-            existingNotDone.amount = product.amount || "";
-            addedProducts.push({
-              name: product.name,
-              amount: existingNotDone.amount,
-              action: "amount_set",
-            });
-          }
+          const existingQuantities = this.getItemQuantities(existingNotDone);
+          const merged = mergeQuantities(
+            [...existingQuantities, newParsed],
+            key
+          );
+          existingNotDone.quantities = merged;
+          existingNotDone.amount = formatQuantities(merged, unitSystem);
+          addedProducts.push({
+            name: product.name,
+            amount: existingNotDone.amount,
+            action:
+              existingQuantities.length === 0
+                ? "amount_set"
+                : merged.length === 1
+                  ? "amount_added"
+                  : "amount_concatenated",
+          });
         }
         // Update category if provided and not set
         if (product.category && !existingNotDone.category) {
@@ -297,8 +253,11 @@ export class ShoppingService {
         // Product doesn't exist OR exists but is done → add new product
         const newIngredient = {
           name: product.name,
-          amount: product.amount || "",
-          category: product.category,
+          amount: newParsed
+            ? formatQuantities([newParsed], unitSystem)
+            : product.amount || "",
+          category: product.category || assignIngredientCategory(product.name),
+          quantities: newParsed ? [newParsed] : undefined,
           done: false,
           key: key,
         };
@@ -323,7 +282,8 @@ export class ShoppingService {
   }
 
   // Add a meal's ingredients to shopping list
-  async addMealToShoppingList(planId: string, mealId: string) {
+  // Meal ingredients are for one serving; `servings` scales them to what is cooked
+  async addMealToShoppingList(planId: string, mealId: string, servings: number = 1) {
     // Find the meal in database
     const MealModel = mongoose.model("Meal");
     const meal = await MealModel.findById(mealId);
@@ -347,7 +307,7 @@ export class ShoppingService {
         if (Array.isArray(ing)) {
           return {
             name: ing[0],
-            amount: ing[1] || "",
+            amount: scaleAmountText(ing[1] || "", servings),
             category: ing[2],
           };
         }
@@ -364,9 +324,9 @@ export class ShoppingService {
       throw new NotFoundException("Shopping list not found");
     }
 
-    const normalizedKey = this.normalizeIngredientKey(productName);
+    const keys = this.candidateKeys(productName);
     const ingredientIndex = shoppingList.ingredients.findIndex(
-      (ing) => ing.key === normalizedKey || ing.name === productName
+      (ing) => keys.includes(ing.key) || ing.name === productName
     );
 
     if (ingredientIndex === -1) {
@@ -389,17 +349,46 @@ export class ShoppingService {
     ingredientName: string,
     done: boolean
   ) {
-    const normalizedKey = this.normalizeIngredientKey(ingredientName);
+    return this.setItemDone(planId, ingredientName, done);
+  }
 
-    const shoppingList = await this.shoppingListModel.findOneAndUpdate(
-      { planId, "ingredients.key": normalizedKey },
-      { $set: { "ingredients.$.done": done } },
-      { new: true }
-    );
+  // Update a shopping item
+  async updateShoppingItems(planId: string, name: string, done: boolean) {
+    return this.setItemDone(planId, name, done);
+  }
+
+  // Check an item off (moves it into the pantry) or uncheck it (takes it back out)
+  private async setItemDone(planId: string, name: string, done: boolean) {
+    const keys = this.candidateKeys(name);
+    const shoppingList = await this.shoppingListModel.findOne({
+      planId,
+      "ingredients.key": { $in: keys },
+    });
 
     if (!shoppingList) {
       throw new NotFoundException(
-        `Shopping list or ingredient "${ingredientName}" not found`
+        `Shopping list not found or product "${name}" not in list`
+      );
+    }
+
+    // Prefer the entry whose state actually changes (an ingredient can be listed twice)
+    const item =
+      shoppingList.ingredients.find(
+        (ing) => keys.includes(ing.key) && ing.done !== done
+      ) || shoppingList.ingredients.find((ing) => keys.includes(ing.key));
+
+    if (item.done !== done) {
+      item.done = done;
+      await shoppingList.save();
+
+      const userId = shoppingList.userId.toString();
+      const pantryUpdate = done
+        ? this.pantryService.restockFromShopping(userId, item)
+        : this.pantryService.undoRestockFromShopping(userId, item);
+      await pantryUpdate.catch((error) =>
+        logger.warn(
+          `[ShoppingService] Pantry update failed for "${item.name}": ${error?.message || error}`
+        )
       );
     }
 
@@ -409,28 +398,28 @@ export class ShoppingService {
     };
   }
 
-  // Update a shopping item
-  async updateShoppingItems(planId: string, name: string, done: boolean) {
-    const normalizedKey = this.normalizeIngredientKey(name);
-
-    const shoppingList = await this.shoppingListModel.findOneAndUpdate(
-      {
-        planId,
-        "ingredients.key": normalizedKey,
-      },
-      { $set: { "ingredients.$.done": done } },
-      { new: true }
-    );
+  // Export the shopping list as grouped plain text or CSV
+  async exportShoppingList(
+    planId: string,
+    format: "text" | "csv",
+    includeDone: boolean = false
+  ) {
+    const { data } = await this.generateShoppingList(planId);
+    const items = data.ingredients as IShoppingListIngredient[];
 
-    if (!shoppingList) {
-      throw new NotFoundException(
-        `Shopping list not found or product "${name}" not in list`
-      );
+    if (format === "csv") {
+      return {
+        contentType: "text/csv; charset=utf-8",
+        filename: "shopping-list.csv",
+        body: formatShoppingListCsv(
+          includeDone ? items : items.filter((item) => !item.done)
+        ),
+      };
     }
-
     return {
-      success: true,
-      data: shoppingList,
+      contentType: "text/plain; charset=utf-8",
+      filename: "shopping-list.txt",
+      body: formatShoppingListText(items, "Shopping list", includeDone),
     };
   }
 
@@ -22,7 +22,15 @@ export enum PostVisibility {
 
 const commentSchema = new Schema(
   {
-    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    // Cleared when the author's account is deleted; the text stays on the post
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: function (this: { authorDeleted?: boolean }) {
+        return !this.authorDeleted;
+      },
+    },
+    authorDeleted: { type: Boolean },
     text: { type: String, required: true, maxlength: 500 },
     createdAt: { type: Date, default: Date.now },
   },
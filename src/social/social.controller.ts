@@ -11,6 +11,7 @@ import {
 } from "@nestjs/common";
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from "@nestjs/swagger";
 import { AuthGuard } from "../auth/auth.guard";
+import { EmailVerifiedGuard } from "../auth/guards/email-verified.guard";
 import { SocialService } from "./social.service";
 import { CreatePostDto, AddCommentDto } from "./dto";
 
@@ -24,6 +25,7 @@ export class SocialController {
   // ========== POSTS ==========
 
   @Post("posts")
+  @UseGuards(EmailVerifiedGuard)
   @ApiOperation({ summary: "Create a new shareable post" })
   async createPost(@Req() req: any, @Body() createPostDto: CreatePostDto) {
     return this.socialService.createPost(req.user._id.toString(), createPostDto);
@@ -86,6 +88,7 @@ export class SocialController {
   // ========== COMMENTS ==========
 
   @Post("posts/:id/comment")
+  @UseGuards(EmailVerifiedGuard)
   @ApiOperation({ summary: "Add a comment to a post" })
   async addComment(
     @Req() req: any,
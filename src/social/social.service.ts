@@ -5,6 +5,7 @@ import { SocialPost, PostVisibility } from "./schemas/social-post.schema";
 import { Follow } from "./schemas/follow.schema";
 import { User } from "../user/user.model";
 import { CreatePostDto, AddCommentDto } from "./dto";
+import { EventBus } from "../events/event-bus";
 
 /** Populated lean doc; Model<any> makes .lean() infer doc | doc[] without this. */
 type LeanPopulatedSocialPost = {
@@ -19,7 +20,8 @@ export class SocialService {
   constructor(
     @InjectModel(SocialPost.name) private socialPostModel: Model<any>,
     @InjectModel(Follow.name) private followModel: Model<any>,
-    @InjectModel(User.name) private userModel: Model<any>
+    @InjectModel(User.name) private userModel: Model<any>,
+    private eventBus: EventBus
   ) {}
 
   // ========== POSTS ==========
@@ -219,6 +221,17 @@ export class SocialService {
     post.comments.push(comment);
     await post.save();
 
+    if (post.userId.toString() !== userId) {
+      const saved = post.comments[post.comments.length - 1];
+      await this.eventBus.publish("social.commented", {
+        postId,
+        postOwnerId: post.userId.toString(),
+        commenterId: userId,
+        commentId: saved._id.toString(),
+        text: addCommentDto.text,
+      });
+    }
+
     // Return populated comment
     const updatedPost = await this.socialPostModel
       .findById(postId)
@@ -250,7 +263,7 @@ export class SocialService {
     }
 
     const comment = post.comments[commentIndex];
-    const isCommentOwner = comment.userId.toString() === userId;
+    const isCommentOwner = comment.userId?.toString() === userId;
     const isPostOwner = post.userId.toString() === userId;
 
     if (!isCommentOwner && !isPostOwner) {
@@ -285,6 +298,7 @@ export class SocialService {
     });
 
     await follow.save();
+    await this.eventBus.publish("social.followed", { followerId, followingId });
     return { success: true };
   }
 
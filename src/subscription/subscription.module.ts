@@ -4,11 +4,13 @@ import { ConfigModule } from '@nestjs/config';
 import { SubscriptionService } from './subscription.service';
 import { SubscriptionController } from './subscription.controller';
 import { UserSchema } from '../user/user.model';
+import { QuotaModule } from '../quota/quota.module';
 
 @Module({
   imports: [
     ConfigModule,
     MongooseModule.forFeature([{ name: 'User', schema: UserSchema }]),
+    QuotaModule,
   ],
   controllers: [SubscriptionController],
   providers: [SubscriptionService],
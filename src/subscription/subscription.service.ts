@@ -5,6 +5,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { IUserData } from '../types/interfaces';
 import { SubscriptionTier, SUBSCRIPTION_PRICES } from '../enums/enumSubscription';
+import { QuotaService } from '../quota/quota.service';
 
 @Injectable()
 export class SubscriptionService {
@@ -13,6 +14,7 @@ export class SubscriptionService {
   constructor(
     private configService: ConfigService,
     @InjectModel('User') private userModel: Model<IUserData>,
+    private quotaService: QuotaService,
   ) {
     const stripeSecretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
     if (!stripeSecretKey) {
@@ -238,14 +240,52 @@ export class SubscriptionService {
   }
 
   /**
-   * Get subscription details
+   * Stop or resume renewal of every live subscription of a Stripe customer.
+   * Used while an account waits out its deletion grace period.
+   */
+  async setCancelAtPeriodEnd(customerId: string, cancelAtPeriodEnd: boolean): Promise<string[]> {
+    const subscriptions = await this.listLiveSubscriptions(customerId);
+    for (const subscription of subscriptions) {
+      await this.stripe.subscriptions.update(subscription.id, {
+        cancel_at_period_end: cancelAtPeriodEnd,
+      });
+    }
+    return subscriptions.map((subscription) => subscription.id);
+  }
+
+  /**
+   * Cancel every live subscription of a Stripe customer immediately
+   */
+  async cancelCustomerSubscriptions(customerId: string): Promise<string[]> {
+    const subscriptions = await this.listLiveSubscriptions(customerId);
+    for (const subscription of subscriptions) {
+      await this.stripe.subscriptions.cancel(subscription.id);
+    }
+    return subscriptions.map((subscription) => subscription.id);
+  }
+
+  private async listLiveSubscriptions(customerId: string): Promise<Stripe.Subscription[]> {
+    const subscriptions = await this.stripe.subscriptions.list({
+      customer: customerId,
+      status: 'all',
+      limit: 100,
+    });
+    return subscriptions.data.filter(
+      (subscription) => !['canceled', 'incomplete_expired'].includes(subscription.status),
+    );
+  }
+
+  /**
+   * Get subscription details, with remaining AI quota per metered action
    */
   async getSubscriptionDetails(userId: string): Promise<any> {
     const user = await this.userModel.findById(userId);
+    const quotas = user ? await this.quotaService.getQuotaStatus(userId) : null;
     if (!user || !user.stripeSubscriptionId) {
       return {
         tier: user?.subscriptionTier || SubscriptionTier.FREE,
         status: 'none',
+        quotas,
       };
     }
 
@@ -261,6 +301,7 @@ export class SubscriptionService {
         ? new Date(subscriptionAny.current_period_end * 1000) 
         : null,
       cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      quotas,
     };
   }
 
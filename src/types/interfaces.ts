@@ -49,6 +49,7 @@ export interface IUserEngagement {
   badges: IBadge[];
   streakFreezeAvailable: boolean;
   streakFreezeUsedAt?: Date;
+  streakResetDate?: string; // YYYY-MM-DD; days up to this one no longer count towards streaks
   // Weekly summaries
   lastWeeklySummary?: Date;
   weeklySummaries: IWeeklySummary[];
@@ -110,9 +111,17 @@ export interface IChallenge {
   updatedAt?: Date;
 }
 
+// Coaches follow clients who accepted their invite; moderators can moderate
+// social content; admins can do everything
+export type UserRole = "user" | "coach" | "moderator" | "admin";
+
 export interface IUserData {
   _id?: mongoose.Types.ObjectId | string;
   email: string;
+  emailVerified?: boolean; // set by following a verification or reset link, or by OAuth sign-in
+  emailVerifiedAt?: Date;
+  deletionRequestedAt?: Date; // set while the account is scheduled for deletion
+  deletionScheduledFor?: Date; // end of the grace period; the account can be restored until then
   password: string;
   name: string;
   phone?: string;
@@ -129,6 +138,7 @@ export interface IUserData {
     | "lose-weight"
     | "fasting";
   targetWeight?: number; // optional target weight
+  unitSystem?: "metric" | "imperial"; // preferred units for shopping lists
   allergies?: string[]; // food allergies
   dietaryRestrictions?: string[]; // dietary restrictions
   foodPreferences?: string[]; // food preferences from KYC (e.g., "Italian", "Seafood", "Spicy")
@@ -142,7 +152,7 @@ export interface IUserData {
   bmr?: number; // Basal Metabolic Rate
   tdee?: number; // Total Daily Energy Expenditure
   idealWeight?: number;
-  role?: "user" | "admin";
+  role?: UserRole;
   subscriptionTier?: SubscriptionTier;
   // Stripe fields
   stripeCustomerId?: string;
@@ -159,15 +169,25 @@ export interface IUserData {
   // Notification preferences
   notificationPreferences?: INotificationPreferences;
   deviceTokens?: string[]; // FCM/APNs tokens for push notifications
+  tokensValidAfter?: Date; // legacy (session-less) tokens issued before this are revoked
+  timezone?: string; // IANA zone, e.g. "Europe/Berlin"
   // Behavioural meal learning
   mealLearningProfile?: IMealLearningProfile;
   // Sensory & Routine Profile
   sensoryProfile?: ISensoryProfile | null;
+  // Adaptive calorie target settings
+  adaptiveCalories?: IAdaptiveCaloriesSettings;
   createdAt?: Date;
   updatedAt?: Date;
   comparePassword?: (candidatePassword: string) => Promise<boolean>;
 }
 
+export interface IAdaptiveCaloriesSettings {
+  mode: "off" | "suggest" | "auto"; // suggest = propose only, auto = apply weekly
+  lastAppliedAt?: Date | null;
+  lastEstimatedTdee?: number | null;
+}
+
 export interface IMealLearningProfile {
   completedMeals: Array<{ name: string; count: number; lastEaten: Date }>;
   swappedMeals: Array<{ name: string; count: number }>;
@@ -203,6 +223,33 @@ export interface IMeal {
   category: "breakfast" | "lunch" | "dinner" | "snack";
   prepTime: number;
   usageCount?: number;
+  prep?: IMealPrepSlot; // set on batch-cooked meals of a meal-prep plan
+}
+
+// Which cook session a batch-cooked meal comes from
+export interface IMealPrepSlot {
+  cookDate: string; // YYYY-MM-DD
+  role: "cook" | "leftover";
+  storage: "fresh" | "fridge" | "freezer";
+}
+
+// Meal-prep mode of a plan: cook days and what to buy and do on each
+export interface IPlanMealPrep {
+  cookDays: string[];
+  maxRecipes: number;
+  mealTypes: ("lunch" | "dinner")[];
+  sessions: {
+    cookDate: string; // YYYY-MM-DD
+    dates: string[]; // days eaten from this session
+    dishes: {
+      mealId: string;
+      name: string;
+      portions: number;
+      slots: { date: string; mealType: "lunch" | "dinner"; role: "cook" | "leftover"; storage: "fresh" | "fridge" | "freezer" }[];
+    }[];
+    shoppingList: { key: string; name: string; amount: string; category?: string }[];
+    instructions: string[];
+  }[];
 }
 
 // Meal with done status (used in day plans)
@@ -338,6 +385,10 @@ export interface IWorkout {
 export interface IPlan extends Document {
   userId: mongoose.Types.ObjectId;
   title: string;
+  weekStart?: string; // Monday of the plan's week (YYYY-MM-DD)
+  isCurrent: boolean;
+  archivedAt?: Date;
+  supersededAt?: Date; // replaced by a newer plan for the same week
   userMetrics: {
     bmr: number;
     tdee: number;
@@ -349,6 +400,14 @@ export interface IPlan extends Document {
       carbs: number;
       fat: number;
     };
+    adaptiveAdjustment?: {
+      appliedAt: Date;
+      estimatedTdee: number;
+      previousTargetCalories: number | null;
+      confidence: number;
+      limitedBy: string | null;
+      explanation: string[];
+    };
   };
   userData: {
     age: number;
@@ -371,6 +430,7 @@ export interface IPlan extends Document {
   language: string;
   generatedAt: Date;
   generationStatus: "generating" | "complete";
+  mealPrep?: IPlanMealPrep;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -494,6 +554,12 @@ export interface IDailyProgress extends Document {
 
 export interface JwtPayload {
   id: string;
+  // Session the access token was issued for; absent on legacy tokens
+  sid?: string;
+  // Admin viewing the app as this user; such tokens are read-only
+  imp?: string;
+  // Issued at (seconds), set by the JWT library
+  iat?: number;
 }
 
 // Chat interfaces
@@ -556,7 +622,14 @@ export type NotificationType =
   | "badge_earned"
   | "weekly_summary"
   | "daily_summary"
-  | "motivational";
+  | "motivational"
+  | "new_follower"
+  | "new_comment"
+  | "data_export_ready"
+  | "coach_client_joined"
+  | "coach_note"
+  | "plan_edit_proposed"
+  | "plan_edit_decided";
 
 export interface INotificationPreferences {
   enabled: boolean;
@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString, IsTimeZone } from "class-validator";
+
+export class UpdateTimezoneDto {
+  @ApiProperty({ description: "IANA timezone", example: "Europe/Berlin" })
+  @IsString()
+  @IsTimeZone()
+  timezone: string;
+}
@@ -18,15 +18,21 @@ import {
   ApiBody,
 } from "@nestjs/swagger";
 import { UserService } from "./user.service";
-import { AuthGuard } from "../auth/auth.guard";
+import { UpdateTimezoneDto } from "./dto";
+import { AuthGuard, AllowPendingDeletion } from "../auth/auth.guard";
+import { AccountDeletionService } from "../account/account-deletion.service";
 
 @ApiTags("users")
 @Controller("users")
 export class UserController {
-  constructor(private userService: UserService) {}
+  constructor(
+    private userService: UserService,
+    private accountDeletionService: AccountDeletionService
+  ) {}
 
   @Get("me")
   @UseGuards(AuthGuard)
+  @AllowPendingDeletion()
   @ApiBearerAuth("JWT-auth")
   @ApiOperation({ summary: "Get current user information" })
   @ApiResponse({
@@ -65,15 +71,45 @@ export class UserController {
     return this.userService.update(id, updateData);
   }
 
+  @Put(":userId/timezone")
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Set the user's timezone (day boundaries and reminders follow it)",
+  })
+  @ApiParam({ name: "userId", description: "User ID or 'me' for current user" })
+  @ApiBody({ type: UpdateTimezoneDto })
+  @ApiResponse({ status: 200, description: "Timezone updated" })
+  @ApiResponse({ status: 400, description: "Invalid IANA timezone" })
+  updateTimezone(
+    @Param("userId") userId: string,
+    @Body() body: UpdateTimezoneDto,
+    @Request() req
+  ) {
+    const requesterId = req.user._id.toString();
+    const resolvedUserId = userId === "me" ? requesterId : userId;
+    if (requesterId !== resolvedUserId) {
+      throw new ForbiddenException("Access denied");
+    }
+    return this.userService.updateTimezone(resolvedUserId, body.timezone);
+  }
+
   @Delete(":id")
   @UseGuards(AuthGuard)
   @ApiBearerAuth("JWT-auth")
+  @ApiOperation({
+    summary: "Delete my account",
+    description:
+      "Schedules the account for deletion and signs out every device. It can be restored with POST /users/me/deletion/restore until the grace period ends; then all data is permanently deleted.",
+  })
+  @ApiParam({ name: "id", description: "User ID (must be the current user)" })
+  @ApiResponse({ status: 200, description: "Deletion scheduled" })
   delete(@Param("id") id: string, @Request() req) {
     const requesterId = req.user._id.toString();
     if (requesterId !== id) {
       throw new ForbiddenException("Access denied");
     }
-    return this.userService.delete(id);
+    return this.accountDeletionService.requestDeletion(id, requesterId);
   }
 
   @Get(":userId/favorite-meals")
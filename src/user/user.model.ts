@@ -1,6 +1,7 @@
 import { IUserData } from "../types/interfaces";
 import bcrypt from "bcrypt";
 import mongoose, { CallbackError, Schema } from "mongoose";
+import { isValidTimeZone } from "../utils/timezone";
 
 // Model name constant
 export const User = { name: "User" };
@@ -73,6 +74,8 @@ const engagementSchema = new Schema(
     // Streak freeze
     streakFreezeAvailable: { type: Boolean, default: true },
     streakFreezeUsedAt: { type: Date, default: null },
+    // Set when an admin resets the streak; earlier days no longer count
+    streakResetDate: { type: String, default: null },
 
     // NEW: Weekly summaries
     lastWeeklySummary: { type: Date, default: null },
@@ -179,10 +182,25 @@ const sensoryProfileSchema = new Schema(
   { _id: false }
 );
 
+// Adaptive calorie target settings
+const adaptiveCaloriesSchema = new Schema(
+  {
+    mode: { type: String, enum: ["off", "suggest", "auto"], default: "suggest" },
+    lastAppliedAt: { type: Date, default: null },
+    lastEstimatedTdee: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
 // project schema - All fields are optional for debugging
 const userSchemaDefinition = {
   name: { type: String, required: false },
   email: { type: String, required: false },
+  emailVerified: { type: Boolean, default: false },
+  emailVerifiedAt: { type: Date, required: false },
+  // Set while the account waits out its deletion grace period
+  deletionRequestedAt: { type: Date, required: false },
+  deletionScheduledFor: { type: Date, required: false },
   password: { type: String, required: false }, // Add password field for OAuth users
   phone: { type: String, required: false },
   profilePicture: { type: String, required: false },
@@ -192,6 +210,7 @@ const userSchemaDefinition = {
   weight: { type: Number, required: false },
   path: { type: String, required: false },
   targetWeight: { type: Number, required: false },
+  unitSystem: { type: String, enum: ["metric", "imperial"], default: "metric" }, // preferred units for shopping lists
   allergies: { type: [String], required: false, default: [] },
   dietaryRestrictions: { type: [String], required: false, default: [] },
   foodPreferences: { type: [String], required: false, default: [] }, // food preferences from KYC (e.g., "Italian", "Seafood")
@@ -214,7 +233,7 @@ const userSchemaDefinition = {
   idealWeight: { type: Number, required: false },
   role: {
     type: String,
-    enum: ["user", "admin"],
+    enum: ["user", "coach", "moderator", "admin"],
     default: "user",
     required: false,
   },
@@ -289,6 +308,17 @@ const userSchemaDefinition = {
   },
   // Device tokens for push notifications
   deviceTokens: { type: [String], default: [] },
+  // Access tokens without a session (sid) issued before this are rejected
+  tokensValidAfter: { type: Date, required: false },
+  // IANA timezone (e.g. "Europe/Berlin"); reminders are sent in local time
+  timezone: {
+    type: String,
+    required: false,
+    validate: {
+      validator: (value: string | null) => value == null || isValidTimeZone(value),
+      message: "Invalid IANA timezone",
+    },
+  },
   // Onboarding
   kycCompleted: { type: Boolean, required: false, default: false },
   // Behavioural meal learning
@@ -303,6 +333,12 @@ const userSchemaDefinition = {
     required: false,
     default: null,
   },
+  // Adaptive calorie target
+  adaptiveCalories: {
+    type: adaptiveCaloriesSchema,
+    required: false,
+    default: () => ({ mode: "suggest", lastAppliedAt: null, lastEstimatedTdee: null }),
+  },
 };
 
 // Export schema for NestJS
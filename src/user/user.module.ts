@@ -5,6 +5,7 @@ import { UserService } from "./user.service";
 import { User, UserSchema } from "./user.model";
 import { Meal, MealSchema } from "../meal/meal.model";
 import { EatingProfileModule } from "../eating-profile/eating-profile.module";
+import { AccountModule } from "../account/account.module";
 
 @Module({
   imports: [
@@ -13,6 +14,7 @@ import { EatingProfileModule } from "../eating-profile/eating-profile.module";
       { name: Meal.name, schema: MealSchema },
     ]),
     forwardRef(() => EatingProfileModule),
+    AccountModule,
   ],
   controllers: [UserController],
   providers: [UserService],
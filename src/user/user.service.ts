@@ -1,4 +1,11 @@
-import { Injectable, NotFoundException, Inject, forwardRef } from "@nestjs/common";
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+} from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { User } from "./user.model";
@@ -9,16 +16,40 @@ import { IUserData, IMeal } from "../types/interfaces";
 import { compressImage, isBase64Image } from "../utils/imageCompression";
 import { updateMealLearningProfile } from "../utils/meal-learning";
 import { EatingProfileService } from "../eating-profile/eating-profile.service";
+import { EventBus } from "../events/event-bus";
+import { isValidTimeZone, resolveTimeZone } from "../utils/timezone";
+
+// Set by billing, admin tools and the auth routes, never by the user
+const PROTECTED_USER_FIELDS = [
+  "role",
+  "subscriptionTier",
+  "subscriptionStatus",
+  "subscriptionEndDate",
+  "stripeCustomerId",
+  "stripeSubscriptionId",
+  "password",
+  "oauthProvider",
+  "oauthId",
+  "tokensValidAfter",
+];
 
 @Injectable()
-export class UserService {
+export class UserService implements OnModuleInit {
   constructor(
     @InjectModel(User.name) private userModel: Model<IUserData>,
     @InjectModel(Meal.name) private mealModel: Model<IMeal>,
     @Inject(forwardRef(() => EatingProfileService))
     private eatingProfileService: EatingProfileService,
+    private eventBus: EventBus,
   ) {}
 
+  onModuleInit() {
+    // Completed meals feed the learning profile used when generating plans
+    this.eventBus.subscribe("progress.meal_completed", "UserService", ({ userId, mealName }) =>
+      mealName ? this.updateMealLearningProfile(userId, mealName, "complete") : undefined
+    );
+  }
+
   async findAll() {
     return this.userModel.find().lean().exec();
   }
@@ -40,6 +71,33 @@ export class UserService {
   }
 
   async update(id: string, updateData: any) {
+    for (const field of Object.keys(updateData)) {
+      // Update operators ($set, $unset, ...) would get around the field checks below
+      if (field.startsWith("$") || PROTECTED_USER_FIELDS.includes(field.split(".")[0])) {
+        delete updateData[field];
+      }
+    }
+
+    // Timezone changes go through updateTimezone so stored days are realigned
+    if (updateData.timezone !== undefined) {
+      await this.updateTimezone(id, updateData.timezone);
+      delete updateData.timezone;
+    }
+
+    // Verification is only granted by following an emailed link
+    delete updateData.emailVerified;
+    delete updateData.emailVerifiedAt;
+    // Deletion is scheduled and cancelled through AccountDeletionService
+    delete updateData.deletionRequestedAt;
+    delete updateData.deletionScheduledFor;
+    if (updateData.email !== undefined) {
+      const current = await this.userModel.findById(id).select("email").lean();
+      if (current && current.email !== updateData.email) {
+        updateData.emailVerified = false;
+        updateData.emailVerifiedAt = null;
+      }
+    }
+
     // Compress profile picture if provided
     if (updateData.profilePicture && isBase64Image(updateData.profilePicture)) {
       try {
@@ -80,12 +138,36 @@ export class UserService {
     return user;
   }
 
-  async delete(id: string) {
-    const user = await this.userModel.findByIdAndDelete(id).lean().exec();
-    if (!user) {
+  /**
+   * Set the user's IANA timezone. Day boundaries (progress, streaks,
+   * challenges, reminders) follow it from now on; already stored days keep
+   * their date keys and are realigned in the background.
+   */
+  async updateTimezone(id: string, timeZone: string) {
+    if (!isValidTimeZone(timeZone)) {
+      throw new BadRequestException(`Invalid IANA timezone: ${timeZone}`);
+    }
+
+    const previous = await this.userModel
+      .findByIdAndUpdate(id, { $set: { timezone: timeZone } })
+      .select("timezone")
+      .lean()
+      .exec();
+    if (!previous) {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
-    return { id };
+
+    const previousTimeZone = resolveTimeZone(previous.timezone);
+    if (previousTimeZone !== timeZone) {
+      logger.info(`[UserService] Timezone for ${id} changed: ${previousTimeZone} -> ${timeZone}`);
+      await this.eventBus.publish("user.timezone_changed", {
+        userId: id,
+        timeZone,
+        previousTimeZone,
+      });
+    }
+
+    return { timezone: timeZone, previousTimezone: previousTimeZone };
   }
 
   async getUserFavoriteMeals(userId: string) {
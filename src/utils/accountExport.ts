@@ -0,0 +1,88 @@
+import { toCsv } from "./csv";
+
+// Account data export: redaction and the CSV views of progress and moods
+// that are bundled next to the full JSON archive.
+
+/**
+ * Copy of a document without the given top-level fields
+ */
+export const omitFields = <T extends Record<string, any>>(doc: T, fields: string[]): T => {
+  const copy: Record<string, any> = { ...doc };
+  for (const field of fields) delete copy[field];
+  return copy as T;
+};
+
+const mealsDone = (meals: any): number => {
+  if (!meals) return 0;
+  const main = [meals.breakfast, meals.lunch, meals.dinner].filter((m) => m?.done).length;
+  return main + (meals.snacks || []).filter((m: any) => m?.done).length;
+};
+
+/**
+ * One row per day, oldest first
+ */
+export const formatProgressCsv = (progress: any[]): string => {
+  const rows: (string | number | undefined)[][] = [
+    [
+      "Date",
+      "Calories",
+      "Calorie goal",
+      "Protein (g)",
+      "Carbs (g)",
+      "Fat (g)",
+      "Water (glasses)",
+      "Water goal",
+      "Meals done",
+      "Workouts done",
+      "Calories burned",
+      "Weight (kg)",
+    ],
+  ];
+  const sorted = [...progress].sort((a, b) => String(a.dateKey).localeCompare(String(b.dateKey)));
+  for (const day of sorted) {
+    const workouts = (day.workouts || []).filter((w: any) => w.done);
+    rows.push([
+      day.dateKey,
+      day.caloriesConsumed,
+      day.caloriesGoal,
+      day.protein?.consumed,
+      day.carbs?.consumed,
+      day.fat?.consumed,
+      day.water?.consumed,
+      day.water?.goal,
+      mealsDone(day.meals),
+      workouts.length,
+      workouts.reduce((sum: number, w: any) => sum + (w.caloriesBurned || 0), 0),
+      day.weight,
+    ]);
+  }
+  return toCsv(rows);
+};
+
+/**
+ * One row per mood log, oldest first. Notes and triggers are only included
+ * for the owner's own export.
+ */
+export const formatMoodCsv = (moods: any[], includeSensitive: boolean): string => {
+  const header = ["Date", "Time", "Mood level", "Mood", "Energy level", "Stress level", "Linked meal"];
+  if (includeSensitive) header.push("Triggers", "Notes");
+  const rows: (string | number | undefined)[][] = [header];
+
+  const sorted = [...moods].sort((a, b) =>
+    `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)
+  );
+  for (const mood of sorted) {
+    const row = [
+      mood.date,
+      mood.time,
+      mood.moodLevel,
+      mood.moodCategory,
+      mood.energyLevel,
+      mood.stressLevel,
+      mood.linkedMealType,
+    ];
+    if (includeSensitive) row.push((mood.triggers || []).join("; "), mood.notes);
+    rows.push(row);
+  }
+  return toCsv(rows);
+};
@@ -0,0 +1,213 @@
+import { PATH_ADJUSTMENTS } from "../enums/enumPaths";
+import { calculateMacros } from "./healthCalculations";
+import { WeightTrendPoint } from "./weightTrend";
+
+// Adaptive TDEE: estimate real maintenance calories from logged intake and the
+// weight trend (energy balance), then derive a new calorie target and macros.
+
+export interface IntakeDay {
+  dateKey: string; // YYYY-MM-DD
+  calories: number;
+}
+
+export interface AdaptiveCaloriesInput {
+  intake: IntakeDay[];
+  trend: WeightTrendPoint[];
+  formulaTdee: number; // static estimate from calculateTDEE
+  currentTargetCalories?: number;
+  path: string;
+  gender?: string;
+}
+
+export interface AdaptiveCaloriesResult {
+  status: "adjusted" | "unchanged" | "insufficient_data";
+  estimatedTdee: number | null;
+  formulaTdee: number;
+  observedTdee: number | null;
+  confidence: number; // 0..1, weight given to observed data
+  averageIntake: number | null;
+  weightChange: number | null; // kg over the window (trend)
+  windowDays: number;
+  loggedDays: number;
+  previousTargetCalories: number | null;
+  targetCalories: number;
+  dailyMacros: { protein: number; carbs: number; fat: number };
+  limitedBy: "safe_minimum" | "max_deficit" | "max_step" | null;
+  explanation: string[];
+}
+
+// Energy stored per kg of body-weight change
+export const KCAL_PER_KG = 7700;
+// Observation window: at least 2 weeks, full confidence at 4
+export const MIN_WINDOW_DAYS = 14;
+export const FULL_CONFIDENCE_DAYS = 28;
+// A day counts as logged when intake is at least this (partial logs skew the estimate)
+export const MIN_LOGGED_CALORIES = 800;
+// Never target below these, regardless of path or estimate
+export const SAFE_MINIMUM_CALORIES: Record<string, number> = {
+  male: 1500,
+  female: 1200,
+};
+// Never target a deficit larger than this fraction of maintenance
+export const MAX_DEFICIT_FRACTION = 0.25;
+// Limit how far one recalibration can move the target
+export const MAX_TARGET_STEP = 300;
+// Changes smaller than this are not worth proposing
+const MIN_MEANINGFUL_CHANGE = 50;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round(
+    (new Date(`${toKey}T00:00:00Z`).getTime() -
+      new Date(`${fromKey}T00:00:00Z`).getTime()) /
+      MS_PER_DAY
+  );
+
+/**
+ * Estimate maintenance calories and propose a new calorie target.
+ * Observed TDEE = average intake - (trend weight change * 7700 / days),
+ * blended with the formula estimate by how much data is available.
+ */
+export const calculateAdaptiveTarget = (
+  input: AdaptiveCaloriesInput
+): AdaptiveCaloriesResult => {
+  const formulaTdee = Math.round(input.formulaTdee);
+  const previousTargetCalories = input.currentTargetCalories
+    ? Math.round(input.currentTargetCalories)
+    : null;
+  const adjustment = PATH_ADJUSTMENTS[input.path] ?? 0;
+  const safeMinimum =
+    SAFE_MINIMUM_CALORIES[input.gender || ""] ?? SAFE_MINIMUM_CALORIES.female;
+  const explanation: string[] = [];
+
+  const loggedIntake = input.intake.filter(
+    (d) => d.calories >= MIN_LOGGED_CALORIES
+  );
+  const trend = [...input.trend].sort((a, b) =>
+    a.dateKey.localeCompare(b.dateKey)
+  );
+  const windowDays =
+    trend.length >= 2
+      ? daysBetween(trend[0].dateKey, trend[trend.length - 1].dateKey)
+      : 0;
+
+  const base = {
+    formulaTdee,
+    previousTargetCalories,
+    loggedDays: loggedIntake.length,
+    windowDays,
+  };
+
+  if (windowDays < MIN_WINDOW_DAYS || loggedIntake.length < MIN_WINDOW_DAYS / 2) {
+    const fallbackTarget =
+      previousTargetCalories ?? Math.max(safeMinimum, formulaTdee + adjustment);
+    explanation.push(
+      `Need at least ${MIN_WINDOW_DAYS} days of weigh-ins and ${MIN_WINDOW_DAYS / 2} fully logged days ` +
+        `(have ${windowDays} days of weigh-ins, ${loggedIntake.length} logged days). Keeping the current target.`
+    );
+    return {
+      ...base,
+      status: "insufficient_data",
+      estimatedTdee: null,
+      observedTdee: null,
+      confidence: 0,
+      averageIntake: null,
+      weightChange: null,
+      targetCalories: fallbackTarget,
+      dailyMacros: calculateMacros(fallbackTarget, input.path),
+      limitedBy: null,
+      explanation,
+    };
+  }
+
+  const averageIntake = Math.round(
+    loggedIntake.reduce((sum, d) => sum + d.calories, 0) / loggedIntake.length
+  );
+  const weightChange =
+    Math.round((trend[trend.length - 1].trend - trend[0].trend) * 100) / 100;
+  const observedTdee = Math.round(
+    averageIntake - (weightChange * KCAL_PER_KG) / windowDays
+  );
+
+  // Confidence grows with window length and with how many days were logged
+  const confidence =
+    Math.round(
+      Math.min(1, windowDays / FULL_CONFIDENCE_DAYS) *
+        Math.min(1, loggedIntake.length / windowDays) *
+        100
+    ) / 100;
+  const estimatedTdee = Math.round(
+    formulaTdee * (1 - confidence) + observedTdee * confidence
+  );
+
+  explanation.push(
+    `Over the last ${windowDays} days you averaged ${averageIntake} kcal on ${loggedIntake.length} logged days ` +
+      `and your trend weight changed by ${weightChange > 0 ? "+" : ""}${weightChange} kg.`
+  );
+  explanation.push(
+    `That points to maintenance of about ${observedTdee} kcal/day; the formula estimate is ${formulaTdee} kcal/day. ` +
+      `Using ${Math.round(confidence * 100)}% of the observed value gives ${estimatedTdee} kcal/day.`
+  );
+
+  let targetCalories = estimatedTdee + adjustment;
+  let limitedBy: AdaptiveCaloriesResult["limitedBy"] = null;
+
+  if (previousTargetCalories !== null) {
+    const step = targetCalories - previousTargetCalories;
+    if (Math.abs(step) > MAX_TARGET_STEP) {
+      targetCalories = previousTargetCalories + Math.sign(step) * MAX_TARGET_STEP;
+      limitedBy = "max_step";
+      explanation.push(
+        `The change is limited to ${MAX_TARGET_STEP} kcal per recalibration.`
+      );
+    }
+  }
+
+  const maxDeficitFloor = Math.round(estimatedTdee * (1 - MAX_DEFICIT_FRACTION));
+  if (targetCalories < maxDeficitFloor) {
+    targetCalories = maxDeficitFloor;
+    limitedBy = "max_deficit";
+    explanation.push(
+      `The deficit is capped at ${Math.round(MAX_DEFICIT_FRACTION * 100)}% below maintenance.`
+    );
+  }
+
+  if (targetCalories < safeMinimum) {
+    targetCalories = safeMinimum;
+    limitedBy = "safe_minimum";
+    explanation.push(
+      `The target will not go below the safe minimum of ${safeMinimum} kcal/day.`
+    );
+  }
+
+  targetCalories = Math.round(targetCalories);
+  const unchanged =
+    previousTargetCalories !== null &&
+    Math.abs(targetCalories - previousTargetCalories) < MIN_MEANINGFUL_CHANGE;
+
+  explanation.push(
+    unchanged
+      ? `Your current target of ${previousTargetCalories} kcal/day is still right.`
+      : `New target: ${targetCalories} kcal/day` +
+          (previousTargetCalories !== null
+            ? ` (was ${previousTargetCalories}).`
+            : ".")
+  );
+
+  const finalTarget = unchanged ? previousTargetCalories : targetCalories;
+
+  return {
+    ...base,
+    status: unchanged ? "unchanged" : "adjusted",
+    estimatedTdee,
+    observedTdee,
+    confidence,
+    averageIntake,
+    weightChange,
+    targetCalories: finalTarget,
+    dailyMacros: calculateMacros(finalTarget, input.path),
+    limitedBy,
+    explanation,
+  };
+};
@@ -0,0 +1,127 @@
+// Adherence math for the coach dashboard: how much of the plan a client
+// actually followed over a run of days, and which way their mood is heading.
+
+export interface ProgressDaySnapshot {
+  dateKey: string; // YYYY-MM-DD
+  caloriesConsumed?: number;
+  caloriesGoal?: number;
+  meals?: {
+    breakfast?: { done?: boolean } | null;
+    lunch?: { done?: boolean } | null;
+    dinner?: { done?: boolean } | null;
+    snacks?: ({ done?: boolean } | null)[];
+  };
+}
+
+export interface AdherenceDay {
+  dateKey: string;
+  logged: boolean;
+  mealsPlanned: number;
+  mealsCompleted: number;
+  calories: number;
+  calorieGoal: number;
+  onCalorieTarget: boolean;
+}
+
+export interface AdherenceSummary {
+  days: number;
+  daysLogged: number;
+  mealsPlanned: number;
+  mealsCompleted: number;
+  // Share of planned meals marked done, 0-100
+  completionRate: number;
+  daysOnCalorieTarget: number;
+  // Over logged days only
+  averageCalories: number;
+  averageCalorieGoal: number;
+  daily: AdherenceDay[];
+}
+
+export type MoodTrend = "improving" | "declining" | "steady" | "insufficient_data";
+
+// A day is on target when calories land within this share of the goal
+export const CALORIE_TARGET_TOLERANCE = 0.1;
+// Difference in average mood level (1-10) between the week and the month that counts as a trend
+export const MOOD_TREND_THRESHOLD = 0.5;
+
+const countMeals = (meals: ProgressDaySnapshot["meals"]) => {
+  const slots = [meals?.breakfast, meals?.lunch, meals?.dinner, ...(meals?.snacks || [])].filter(
+    Boolean
+  );
+  return {
+    planned: slots.length,
+    completed: slots.filter((meal) => meal.done).length,
+  };
+};
+
+/**
+ * Summarize progress over `dateKeys`. Days without a progress record count as
+ * not logged; they add no planned meals, so they don't lower the completion rate.
+ */
+export const summarizeAdherence = (
+  dateKeys: string[],
+  progress: ProgressDaySnapshot[]
+): AdherenceSummary => {
+  const byDay = new Map(progress.map((day) => [day.dateKey, day]));
+  const daily: AdherenceDay[] = dateKeys.map((dateKey) => {
+    const day = byDay.get(dateKey);
+    if (!day) {
+      return {
+        dateKey,
+        logged: false,
+        mealsPlanned: 0,
+        mealsCompleted: 0,
+        calories: 0,
+        calorieGoal: 0,
+        onCalorieTarget: false,
+      };
+    }
+    const meals = countMeals(day.meals);
+    const calories = Math.round(day.caloriesConsumed || 0);
+    const calorieGoal = Math.round(day.caloriesGoal || 0);
+    return {
+      dateKey,
+      logged: true,
+      mealsPlanned: meals.planned,
+      mealsCompleted: meals.completed,
+      calories,
+      calorieGoal,
+      onCalorieTarget:
+        calorieGoal > 0 && Math.abs(calories - calorieGoal) <= calorieGoal * CALORIE_TARGET_TOLERANCE,
+    };
+  });
+
+  const logged = daily.filter((day) => day.logged);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const mealsPlanned = sum(daily.map((day) => day.mealsPlanned));
+  const mealsCompleted = sum(daily.map((day) => day.mealsCompleted));
+  return {
+    days: dateKeys.length,
+    daysLogged: logged.length,
+    mealsPlanned,
+    mealsCompleted,
+    completionRate: mealsPlanned > 0 ? Math.round((mealsCompleted / mealsPlanned) * 100) : 0,
+    daysOnCalorieTarget: daily.filter((day) => day.onCalorieTarget).length,
+    averageCalories: logged.length ? Math.round(sum(logged.map((day) => day.calories)) / logged.length) : 0,
+    averageCalorieGoal: logged.length
+      ? Math.round(sum(logged.map((day) => day.calorieGoal)) / logged.length)
+      : 0,
+    daily,
+  };
+};
+
+/**
+ * Compare the last week's average mood with the last month's
+ */
+export const getMoodTrend = (
+  week: { totalMoodEntries: number; averageMoodLevel: number },
+  month: { totalMoodEntries: number; averageMoodLevel: number }
+): MoodTrend => {
+  if (!week.totalMoodEntries || !month.totalMoodEntries) {
+    return "insufficient_data";
+  }
+  const difference = week.averageMoodLevel - month.averageMoodLevel;
+  if (difference >= MOOD_TREND_THRESHOLD) return "improving";
+  if (difference <= -MOOD_TREND_THRESHOLD) return "declining";
+  return "steady";
+};
@@ -0,0 +1,20 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+export const escapeCsv = (value: string): string => {
+  // Guard against formula injection when the file is opened in a spreadsheet
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const formatCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return escapeCsv(value);
+};
+
+/**
+ * CRLF-separated CSV; the first row is the header
+ */
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map((row) => row.map(formatCsvValue).join(",")).join("\r\n") + "\r\n";
@@ -205,11 +205,17 @@ const queueRequest = async <T>(fn: () => Promise<T>): Promise<T> => {
   }
 };
 
+export interface GeminiCallStats {
+  attempts: number;
+  rateLimitHits: number;
+}
+
 export interface GeminiCallOptions {
   maxRetries?: number;
   baseDelayMs?: number;
   timeoutMs?: number;
   context?: string;
+  stats?: GeminiCallStats; // updated as attempts are made
 }
 
 /**
@@ -226,12 +232,14 @@ export const callGeminiWithRateLimit = async <T>(
     baseDelayMs = 2000,
     timeoutMs = 45000, // Increased timeout for larger batch requests
     context = "Gemini",
+    stats,
   } = options;
 
   const genAI = new GoogleGenerativeAI(apiKey);
   const model = genAI.getGenerativeModel({ model: modelName });
 
   const executeWithRetry = async (attempt: number): Promise<T> => {
+    if (stats) stats.attempts = attempt + 1;
     try {
       logger.info(`[${context}] Attempt ${attempt + 1}/${maxRetries} using ${modelName}...`);
 
@@ -259,6 +267,7 @@ export const callGeminiWithRateLimit = async <T>(
 
       // Check if it's a rate limit error
       if (isRateLimitError(errorMsg)) {
+        if (stats) stats.rateLimitHits++;
         if (attempt < maxRetries - 1) {
           await handle429Error(errorMsg);
           return executeWithRetry(attempt + 1);
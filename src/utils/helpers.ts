@@ -11,6 +11,13 @@ import {
   IUserData,
 } from "../types/interfaces";
 import { ingredientCategories } from "./ingredientCategories";
+import {
+  Quantity,
+  UnitSystem,
+  parseQuantity,
+  mergeQuantities,
+  formatQuantities,
+} from "./quantities";
 import mongoose from "mongoose";
 import logger from "./logger";
 
@@ -142,6 +149,78 @@ export const assignIngredientCategory = (ingredientName: string): string | undef
   return undefined;
 };
 
+/**
+ * Stable key for grouping the same ingredient across meals.
+ * Examples: "Chopped Tomatoes" -> "tomato", "chicken breast" -> "chicken_breast"
+ */
+export const getIngredientKey = (name: string): string => {
+  const words = cleanIngredientName(String(name || "").replace(/_/g, " "))
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) return "";
+
+  // Singularize the head noun so "tomatoes" and "tomato" group together
+  const last = words[words.length - 1];
+  if (last.length > 4 && last.endsWith("oes")) {
+    words[words.length - 1] = last.slice(0, -2);
+  } else if (last.length > 4 && last.endsWith("ies")) {
+    words[words.length - 1] = last.slice(0, -3) + "y";
+  } else if (last.length > 3 && last.endsWith("s") && !/(ss|us|is)$/.test(last)) {
+    words[words.length - 1] = last.slice(0, -1);
+  }
+  return words.join("_");
+};
+
+export interface AggregatedIngredient {
+  key: string;
+  name: string;
+  amount: string; // formatted in the requested unit system
+  category?: string;
+  quantities: Quantity[]; // normalized (g / ml / count unit)
+}
+
+/**
+ * Aggregate ingredient tuples from many meals into one entry per ingredient,
+ * summing amounts across units (200 g + 1 lb -> 654 g) and formatting the total
+ * in the user's unit system. Amounts that cannot be parsed ("to taste") are dropped
+ * from the total but the ingredient is still listed.
+ */
+export const aggregateIngredients = (
+  ingredients: ([string, string] | [string, string, string?])[],
+  unitSystem: UnitSystem = "metric"
+): AggregatedIngredient[] => {
+  const grouped = new Map<
+    string,
+    { name: string; quantities: Quantity[]; category?: string }
+  >();
+
+  for (const ing of ingredients) {
+    if (!Array.isArray(ing)) continue;
+    const name = typeof ing[0] === "string" ? ing[0] : String(ing[0] || "");
+    const key = getIngredientKey(name);
+    if (!key) continue;
+
+    const entry = grouped.get(key) || { name, quantities: [] as Quantity[] };
+    const quantity = parseQuantity(ing[1] || "");
+    if (quantity) entry.quantities.push(quantity);
+    if (!entry.category && ing[2]) entry.category = ing[2];
+    grouped.set(key, entry);
+  }
+
+  return Array.from(grouped.entries()).map(([key, entry]) => {
+    const quantities = mergeQuantities(entry.quantities, key);
+    return {
+      key,
+      name: entry.name,
+      amount: formatQuantities(quantities, unitSystem),
+      category: entry.category || assignIngredientCategory(entry.name),
+      quantities,
+    };
+  });
+};
+
 /**
  * Meal ingredient format: [name, amountWithUnit] or [name, amountWithUnit, shoppingCategory]
  * - name: ingredient name (e.g., "chicken_breast")
@@ -440,6 +519,15 @@ export const getLocalDateKey = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
+// Helper to get the Monday (YYYY-MM-DD) of the Mon–Sun week containing the date
+export const getWeekStartKey = (date: Date): string => {
+  const monday = new Date(date);
+  monday.setHours(0, 0, 0, 0);
+  const day = monday.getDay(); // 0 = Sunday
+  monday.setDate(monday.getDate() - (day === 0 ? 6 : day - 1));
+  return getLocalDateKey(monday);
+};
+
 // Helper to parse numeric values from various formats (e.g., "10 minutes", "10 mins", "10", 10) to a number
 // Works for prepTime, duration, caloriesBurned, etc.
 export const parseNumericValue = (
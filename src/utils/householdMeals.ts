@@ -0,0 +1,137 @@
+// Household dinner math: one shared dinner portioned to each member's calorie
+// target, and checks of its ingredients against every member's allergies.
+
+import { getIngredientKey } from "./helpers";
+import { scaleAmountText } from "./quantities";
+
+export type IngredientTuple = [string, string] | [string, string, string?];
+
+export interface SharedMeal {
+  name: string;
+  calories: number;
+  macros?: { protein?: number; carbs?: number; fat?: number };
+  ingredients?: IngredientTuple[];
+}
+
+export interface PortionMember {
+  memberId: string;
+  name: string;
+  dailyCalories: number;
+}
+
+export interface MealPortion {
+  memberId: string;
+  name: string;
+  // Multiple of the recipe as stored (1 = one serving)
+  factor: number;
+  calories: number;
+  macros: { protein: number; carbs: number; fat: number };
+}
+
+export interface AllergyMember {
+  memberId: string;
+  name: string;
+  allergies: string[];
+}
+
+export interface AllergyConflict {
+  memberId: string;
+  name: string;
+  allergen: string;
+  // Meal name or ingredients that matched
+  matches: string[];
+}
+
+// Share of the day's calories a dinner is meant to cover
+export const DINNER_CALORIE_SHARE = 0.35;
+// Portions are rounded to this step and kept within these bounds
+const PORTION_STEP = 0.05;
+const MIN_PORTION = 0.25;
+const MAX_PORTION = 3;
+
+// Allergies people write as a group, matched through the foods in it
+const ALLERGEN_GROUPS: Record<string, string[]> = {
+  dairy: ["milk", "cheese", "butter", "cream", "yogurt", "yoghurt", "whey", "casein", "ghee"],
+  lactose: ["milk", "cheese", "butter", "cream", "yogurt", "yoghurt", "whey"],
+  gluten: ["wheat", "barley", "rye", "flour", "bread", "pasta", "couscous", "bulgur", "seitan", "spelt"],
+  nut: ["almond", "walnut", "cashew", "pecan", "hazelnut", "pistachio", "macadamia", "brazil_nut"],
+  tree_nut: ["almond", "walnut", "cashew", "pecan", "hazelnut", "pistachio", "macadamia", "brazil_nut"],
+  peanut: ["peanut"],
+  egg: ["egg", "mayonnaise", "meringue"],
+  shellfish: ["shrimp", "prawn", "crab", "lobster", "crayfish", "scallop", "mussel", "clam", "oyster"],
+  fish: ["salmon", "tuna", "cod", "haddock", "trout", "sardine", "anchovy", "mackerel", "tilapia", "fish"],
+  soy: ["soy", "tofu", "edamame", "tempeh", "miso"],
+  sesame: ["sesame", "tahini"],
+};
+
+// "Coconut milk", "peanut butter": dairy words that are not dairy
+const PLANT_QUALIFIERS = ["almond", "cashew", "cocoa", "coconut", "oat", "peanut", "rice", "soy"];
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Split one dinner between members: each gets the multiple of the recipe that
+ * covers DINNER_CALORIE_SHARE of their daily calories
+ */
+export const portionMeal = (meal: SharedMeal, members: PortionMember[]): MealPortion[] => {
+  const baseCalories = meal.calories > 0 ? meal.calories : 0;
+  return members.map((member) => {
+    const target = member.dailyCalories * DINNER_CALORIE_SHARE;
+    const factor = baseCalories
+      ? Math.min(MAX_PORTION, Math.max(MIN_PORTION, round2(roundTo(target / baseCalories, PORTION_STEP))))
+      : 1;
+    return {
+      memberId: member.memberId,
+      name: member.name,
+      factor,
+      calories: Math.round(baseCalories * factor),
+      macros: {
+        protein: Math.round((meal.macros?.protein || 0) * factor),
+        carbs: Math.round((meal.macros?.carbs || 0) * factor),
+        fat: Math.round((meal.macros?.fat || 0) * factor),
+      },
+    };
+  });
+};
+
+/**
+ * Multiply ingredient amounts, rounded the way recipes are scaled. Amounts
+ * without a number ("to taste") are kept as they are.
+ */
+export const scaleIngredients = (ingredients: IngredientTuple[], factor: number): IngredientTuple[] =>
+  (ingredients || []).map((ingredient) => {
+    const [name, amount, category] = ingredient;
+    const scaled = scaleAmountText(amount || "", factor);
+    return category ? [name, scaled, category] : [name, scaled];
+  });
+
+const allergenTerms = (allergen: string): string[] => {
+  const key = getIngredientKey(allergen);
+  if (!key) return [];
+  return [key, ...(ALLERGEN_GROUPS[key] || [])];
+};
+
+const containsTerm = (text: string, term: string) =>
+  new RegExp(`(^|_)(?<!(${PLANT_QUALIFIERS.join("|")})_)${term}(e?s)?(_|$)`).test(
+    getIngredientKey(text)
+  );
+
+/**
+ * Every member allergy that the meal's name or ingredients match
+ */
+export const findAllergyConflicts = (meal: SharedMeal, members: AllergyMember[]): AllergyConflict[] => {
+  const texts = [meal.name, ...(meal.ingredients || []).map((ingredient) => ingredient[0])].filter(Boolean);
+  const conflicts: AllergyConflict[] = [];
+  for (const member of members) {
+    for (const allergen of new Set(member.allergies.map((a) => a.trim()).filter(Boolean))) {
+      const terms = allergenTerms(allergen);
+      const matches = texts.filter((text) => terms.some((term) => containsTerm(text, term)));
+      if (matches.length) {
+        conflicts.push({ memberId: member.memberId, name: member.name, allergen, matches });
+      }
+    }
+  }
+  return conflicts;
+};
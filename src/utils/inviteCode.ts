@@ -0,0 +1,17 @@
+import { randomInt } from "crypto";
+
+// No 0/O, 1/I/L so codes survive being read out or typed from paper
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Random short code for joining something (a coach's roster, a household)
+ */
+export const generateInviteCode = (length: number = INVITE_CODE_LENGTH): string =>
+  Array.from(
+    { length },
+    () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]
+  ).join("");
+
+// Codes are shown upper case but accepted however they were typed
+export const normalizeInviteCode = (code: string): string => code.trim().toUpperCase();
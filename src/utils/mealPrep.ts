@@ -0,0 +1,231 @@
+// Meal prep (batch cooking): on each cook day a few dishes are cooked in bulk
+// and eaten as leftovers at lunch and/or dinner until the next cook day. These
+// helpers work out which dish covers which slot, what to buy for each cook day
+// and what to do in the kitchen.
+
+import { aggregateIngredients, getIngredientKey } from "./helpers";
+import { IngredientTuple, scaleIngredients } from "./householdMeals";
+import { UnitSystem } from "./quantities";
+import { addDaysToDateKey } from "./timezone";
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type PrepMealType = "lunch" | "dinner";
+export const PREP_MEAL_TYPES: PrepMealType[] = ["lunch", "dinner"];
+
+export const MAX_PREP_RECIPES = 7;
+// A meal-prep plan always covers a full week from its first cook session
+export const PREP_PLAN_DAYS = 7;
+// Cooked food keeps this many days in the fridge; later portions are frozen
+export const FRIDGE_DAYS = 3;
+
+// Too common to be worth a shared prep step
+const PANTRY_STAPLES = new Set(["salt", "pepper", "black_pepper", "oil", "olive_oil", "water"]);
+
+export interface MealPrepOptions {
+  cookDays: Weekday[];
+  // Distinct batch-cooked dishes across the whole plan
+  maxRecipes: number;
+  // Slots filled from the batch (default: lunch and dinner)
+  mealTypes?: PrepMealType[];
+}
+
+export interface PrepSlot {
+  dateKey: string;
+  mealType: PrepMealType;
+  // "cook": eaten fresh on the cook day; "leftover": a stored portion
+  role: "cook" | "leftover";
+  storage: "fresh" | "fridge" | "freezer";
+}
+
+export interface PrepSessionSchedule {
+  cookDateKey: string;
+  // Days the session's dishes are eaten on, starting with the cook day
+  dateKeys: string[];
+  dishes: { dishIndex: number; slots: PrepSlot[] }[];
+}
+
+export interface PrepDish {
+  name: string;
+  ingredients: IngredientTuple[];
+  prepTime?: number;
+  // Recipe steps, when a recipe for the dish exists
+  steps?: string[];
+}
+
+export interface PrepShoppingItem {
+  key: string;
+  name: string;
+  amount: string;
+  category?: string;
+}
+
+const weekdayOf = (dateKey: string): Weekday =>
+  WEEKDAYS[new Date(`${dateKey}T00:00:00Z`).getUTCDay()];
+
+/**
+ * Days of a meal-prep plan: a week from the requested start day, or from today
+ * when none is given or it has already passed
+ */
+export const prepPlanDateKeys = (todayKey: string, startKey?: string): string[] => {
+  const first = startKey && startKey > todayKey ? startKey : todayKey;
+  return Array.from({ length: PREP_PLAN_DAYS }, (_, i) => addDaysToDateKey(first, i));
+};
+
+/**
+ * Split `maxRecipes` dishes over sessions with `slotCounts` slots each: every
+ * session gets one, the rest go to whichever session would otherwise repeat a
+ * dish most often. A session never gets more dishes than slots.
+ */
+const allocateDishes = (slotCounts: number[], maxRecipes: number): number[] => {
+  const counts = slotCounts.map(() => 1);
+  for (let extra = maxRecipes - counts.length; extra > 0; extra--) {
+    let best = -1;
+    slotCounts.forEach((slots, i) => {
+      if (counts[i] >= slots) return;
+      if (best < 0 || slots / counts[i] > slotCounts[best] / counts[best]) best = i;
+    });
+    if (best < 0) break;
+    counts[best]++;
+  }
+  return counts;
+};
+
+/**
+ * Cook sessions for a run of consecutive days. A session starts on every day
+ * that falls on one of `cookDays` and on the first day (there is nothing in
+ * the fridge yet), and covers the days up to the next session. Each session
+ * gets its share of `maxRecipes` dishes (at least one), handed out over the
+ * lunch/dinner slots in turn so every dish is eaten before one repeats.
+ */
+export const planPrepSessions = (
+  dateKeys: string[],
+  cookDays: Weekday[],
+  maxRecipes: number,
+  mealTypes: PrepMealType[] = PREP_MEAL_TYPES
+): PrepSessionSchedule[] => {
+  if (!dateKeys.length || !mealTypes.length) return [];
+  const cookDaySet = new Set(cookDays);
+  const starts = dateKeys
+    .map((_, i) => i)
+    .filter((i) => i === 0 || cookDaySet.has(weekdayOf(dateKeys[i])));
+  const sessions = starts.map((start, s) => ({
+    cookDateKey: dateKeys[start],
+    dateKeys: dateKeys.slice(start, starts[s + 1] ?? dateKeys.length),
+  }));
+  const dishCounts = allocateDishes(
+    sessions.map((session) => session.dateKeys.length * mealTypes.length),
+    maxRecipes
+  );
+
+  let dishIndex = 0;
+  return sessions.map((session, s) => {
+    const dishes = Array.from({ length: dishCounts[s] }, () => ({
+      dishIndex: dishIndex++,
+      slots: [] as PrepSlot[],
+    }));
+    session.dateKeys.forEach((dateKey, day) => {
+      mealTypes.forEach((mealType, m) => {
+        const dish = dishes[(day * mealTypes.length + m) % dishes.length];
+        dish.slots.push({
+          dateKey,
+          mealType,
+          role: day === 0 ? "cook" : "leftover",
+          storage: day === 0 ? "fresh" : day <= FRIDGE_DAYS ? "fridge" : "freezer",
+        });
+      });
+    });
+    return { ...session, dishes };
+  });
+};
+
+/**
+ * Everything to buy for a cook day: each dish times its portions plus the
+ * other meals (breakfasts, snacks) of the days the session covers. The lists
+ * of all sessions add up to the plan's own shopping list, which is built from
+ * the same meals (less the pantry) and stays the one list items are ticked on.
+ */
+export const buildPrepShoppingList = (
+  session: PrepSessionSchedule,
+  dishes: PrepDish[],
+  otherMeals: { ingredients?: IngredientTuple[] }[],
+  unitSystem: UnitSystem = "metric"
+): PrepShoppingItem[] =>
+  aggregateIngredients(
+    [
+      ...session.dishes.flatMap(({ dishIndex, slots }) =>
+        scaleIngredients(dishes[dishIndex]?.ingredients || [], slots.length)
+      ),
+      ...otherMeals.flatMap((meal) => meal.ingredients || []),
+    ],
+    unitSystem
+  ).map(({ key, name, amount, category }) => ({ key, name, amount, category }));
+
+/**
+ * One list of steps for a cook day: prep ingredients the dishes share in one
+ * go, cook the slowest dish first, then portion everything into containers
+ * for the fridge and the freezer.
+ */
+export const buildPrepInstructions = (
+  session: PrepSessionSchedule,
+  dishes: PrepDish[],
+  unitSystem: UnitSystem = "metric"
+): string[] => {
+  const cooked = session.dishes
+    .map(({ dishIndex, slots }) => ({ dish: dishes[dishIndex], slots }))
+    .filter(({ dish }) => dish);
+  const steps: string[] = [];
+
+  const shared = new Map<string, { names: Set<string>; ingredients: IngredientTuple[] }>();
+  for (const { dish, slots } of cooked) {
+    for (const ingredient of scaleIngredients(dish.ingredients || [], slots.length)) {
+      const key = getIngredientKey(ingredient[0]);
+      if (!key || PANTRY_STAPLES.has(key)) continue;
+      const entry = shared.get(key) || { names: new Set<string>(), ingredients: [] };
+      entry.names.add(dish.name);
+      entry.ingredients.push(ingredient);
+      shared.set(key, entry);
+    }
+  }
+  for (const { names, ingredients } of shared.values()) {
+    if (names.size < 2) continue;
+    const [{ name, amount }] = aggregateIngredients(ingredients, unitSystem);
+    const label = `${name.replace(/_/g, " ")}${amount ? ` (${amount})` : ""}`;
+    steps.push(`Prep ${label} in one go for ${[...names].join(" and ")}`);
+  }
+
+  const byPrepTime = [...cooked].sort((a, b) => (b.dish.prepTime || 0) - (a.dish.prepTime || 0));
+  byPrepTime.forEach(({ dish, slots }, i) => {
+    const time = dish.prepTime ? ` (about ${dish.prepTime} min)` : "";
+    const first = i === 0 && cooked.length > 1 && dish.prepTime ? ", start it first" : "";
+    steps.push(`Cook ${dish.name}: ${slots.length} portion${slots.length === 1 ? "" : "s"}${time}${first}`);
+    for (const step of dish.steps || []) {
+      steps.push(`${dish.name}: ${step}`);
+    }
+  });
+
+  const eatBy = addDaysToDateKey(session.cookDateKey, FRIDGE_DAYS);
+  for (const { dish, slots } of cooked) {
+    const count = (storage: PrepSlot["storage"]) => slots.filter((slot) => slot.storage === storage).length;
+    const fresh = count("fresh");
+    const fridge = count("fridge");
+    const freezer = count("freezer");
+    if (!fridge && !freezer) continue;
+    const parts = [
+      fresh && `${fresh} to eat today`,
+      fridge && `${fridge} for the fridge (eat by ${eatBy})`,
+      freezer && `${freezer} for the freezer (thaw in the fridge the night before)`,
+    ].filter(Boolean);
+    steps.push(`Let ${dish.name} cool, then portion it: ${parts.join(", ")}`);
+  }
+  return steps;
+};
@@ -0,0 +1,80 @@
+import { INotificationPreferences, NotificationType } from "../types/interfaces";
+import { ZonedTime, parseTimeOfDay } from "./timezone";
+
+export type MealReminderType = "breakfast" | "lunch" | "dinner" | "snacks";
+
+export interface DueNotificationSlot {
+  type: NotificationType;
+  // Unique per user and occurrence, e.g. "meal_reminder:breakfast:2026-10-18"
+  slotKey: string;
+  mealType?: MealReminderType;
+}
+
+const MEAL_TYPES: MealReminderType[] = ["breakfast", "lunch", "dinner", "snacks"];
+
+// The slot time has passed today but by less than the window
+const isWithinWindow = (time: string, now: ZonedTime, windowMinutes: number): boolean => {
+  const elapsed = now.minutesOfDay - parseTimeOfDay(time);
+  return elapsed >= 0 && elapsed < windowMinutes;
+};
+
+/**
+ * Server-pushed notifications whose local time falls in the dispatch window.
+ * The window is wider than the dispatch interval so a late run still catches
+ * them; the slot key keeps a slot from being sent twice.
+ */
+export const getDueNotificationSlots = (
+  preferences: INotificationPreferences,
+  now: ZonedTime,
+  windowMinutes: number
+): DueNotificationSlot[] => {
+  if (!preferences?.enabled) return [];
+  const slots: DueNotificationSlot[] = [];
+
+  if (preferences.mealReminders?.enabled) {
+    for (const mealType of MEAL_TYPES) {
+      const meal = preferences.mealReminders[mealType];
+      if (meal?.enabled && meal.time && isWithinWindow(meal.time, now, windowMinutes)) {
+        slots.push({
+          type: "meal_reminder",
+          slotKey: `meal_reminder:${mealType}:${now.dateKey}`,
+          mealType,
+        });
+      }
+    }
+  }
+
+  const streak = preferences.streakAlerts;
+  if (streak?.enabled && streak.warningTime && isWithinWindow(streak.warningTime, now, windowMinutes)) {
+    slots.push({ type: "streak_warning", slotKey: `streak_warning:${now.dateKey}` });
+  }
+
+  const weekly = preferences.weeklySummary;
+  if (
+    weekly?.enabled &&
+    weekly.time &&
+    weekly.dayOfWeek === now.dayOfWeek &&
+    isWithinWindow(weekly.time, now, windowMinutes)
+  ) {
+    slots.push({ type: "weekly_summary", slotKey: `weekly_summary:${now.dateKey}` });
+  }
+
+  return slots;
+};
+
+/**
+ * Whether a local time of day falls in the quiet hours (overnight ranges such
+ * as 22:00-08:00 wrap past midnight; the end minute is no longer quiet)
+ */
+export const isInQuietHours = (
+  quietHours: INotificationPreferences["quietHours"] | undefined,
+  minutesOfDay: number
+): boolean => {
+  if (!quietHours?.enabled) return false;
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start > end) {
+    return minutesOfDay >= start || minutesOfDay < end;
+  }
+  return minutesOfDay >= start && minutesOfDay < end;
+};
@@ -0,0 +1,114 @@
+import { Quantity, subtractQuantities } from "./quantities";
+
+// Pantry stock is kept as lots (one per purchase / expiry date). Consuming
+// stock takes from the lot that expires first.
+
+export interface PantryLot {
+  id: string;
+  name: string;
+  quantities: Quantity[]; // empty when the user did not track an amount
+  expiresAt?: string | null; // YYYY-MM-DD
+}
+
+export interface PantryLotUpdate {
+  id: string;
+  quantities: Quantity[];
+  depleted: boolean;
+}
+
+// Items expiring within this many days are "soon to expire"
+export const EXPIRING_SOON_DAYS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const daysUntilExpiry = (expiresAt: string, todayKey: string): number =>
+  Math.round(
+    (new Date(`${expiresAt}T00:00:00Z`).getTime() -
+      new Date(`${todayKey}T00:00:00Z`).getTime()) /
+      MS_PER_DAY
+  );
+
+/**
+ * Order lots so the one expiring first is used first; lots without an expiry go last
+ */
+export const sortLotsByExpiry = <T extends { expiresAt?: string | null }>(
+  lots: T[]
+): T[] =>
+  [...lots].sort((a, b) => {
+    if (!a.expiresAt && !b.expiresAt) return 0;
+    if (!a.expiresAt) return 1;
+    if (!b.expiresAt) return -1;
+    return a.expiresAt.localeCompare(b.expiresAt);
+  });
+
+/**
+ * Deduct the needed quantities of one ingredient from its pantry lots.
+ * Lots without a tracked amount are never deducted. Returns the lot updates
+ * and whatever could not be covered by stock.
+ */
+export const deductFromLots = (
+  lots: PantryLot[],
+  needed: Quantity[],
+  ingredientKey: string
+): { updates: PantryLotUpdate[]; remaining: Quantity[] } => {
+  let remaining = needed;
+  const updates: PantryLotUpdate[] = [];
+
+  for (const lot of sortLotsByExpiry(lots)) {
+    if (remaining.length === 0) break;
+    if (!lot.quantities || lot.quantities.length === 0) continue;
+
+    const result = subtractQuantities(remaining, lot.quantities, ingredientKey);
+    const changed =
+      result.leftover.length !== lot.quantities.length ||
+      result.leftover.some((q, i) => q.value !== lot.quantities[i].value);
+    if (changed) {
+      updates.push({
+        id: lot.id,
+        quantities: result.leftover,
+        depleted: result.leftover.length === 0,
+      });
+    }
+    remaining = result.remaining;
+  }
+
+  return { updates, remaining };
+};
+
+/**
+ * What is still to buy for one shopping list ingredient given the pantry lots.
+ * A lot without a tracked amount counts as "have enough", as does any stock for
+ * an ingredient whose amount could not be parsed ("to taste").
+ */
+export const remainingAfterPantry = (
+  lots: PantryLot[],
+  needed: Quantity[],
+  ingredientKey: string
+): Quantity[] => {
+  if (lots.length === 0) return needed;
+  if (needed.length === 0) return [];
+  if (lots.some((lot) => !lot.quantities || lot.quantities.length === 0)) {
+    return [];
+  }
+  return deductFromLots(lots, needed, ingredientKey).remaining;
+};
+
+/**
+ * Short prompt line listing pantry items that should be used up soon
+ */
+export const buildPantryPromptContext = (
+  lots: PantryLot[],
+  todayKey: string,
+  withinDays: number = EXPIRING_SOON_DAYS
+): string => {
+  const expiring = sortLotsByExpiry(lots).filter(
+    (lot) =>
+      lot.expiresAt &&
+      daysUntilExpiry(lot.expiresAt, todayKey) >= 0 &&
+      daysUntilExpiry(lot.expiresAt, todayKey) <= withinDays
+  );
+  if (expiring.length === 0) return "";
+
+  const names = Array.from(new Set(expiring.map((lot) => lot.name))).slice(0, 10);
+  return `The user has these pantry items that expire within ${withinDays} days: ${names.join(", ")}. Prefer using them in the first days of the plan to avoid waste.`;
+};
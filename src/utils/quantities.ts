@@ -0,0 +1,524 @@
+// ============================================================================
+// QUANTITY PARSING AND UNIT CONVERSION
+// ============================================================================
+//
+// Ingredient amounts arrive as free strings ("200g", "1 lb", "1 1/2 cups",
+// "2 cloves"). These helpers parse them into base units (g, ml, or a count
+// unit), merge quantities of the same ingredient and format the result in the
+// user's preferred unit system.
+
+export type UnitSystem = "metric" | "imperial";
+export type QuantityDimension = "mass" | "volume" | "count";
+
+// Normalized quantity: mass in g, volume in ml, count in its own unit ("piece", "clove", ...)
+export interface Quantity {
+  value: number;
+  unit: string;
+  dimension: QuantityDimension;
+}
+
+const MASS_UNITS: Record<string, number> = {
+  mg: 0.001,
+  milligram: 0.001,
+  g: 1,
+  gr: 1,
+  gram: 1,
+  kg: 1000,
+  kilo: 1000,
+  kilogram: 1000,
+  oz: 28.3495,
+  ounce: 28.3495,
+  lb: 453.592,
+  lbs: 453.592,
+  pound: 453.592,
+};
+
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  milliliter: 1,
+  millilitre: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  liter: 1000,
+  litre: 1000,
+  tsp: 4.92892,
+  teaspoon: 4.92892,
+  tbsp: 14.7868,
+  tablespoon: 14.7868,
+  "fl oz": 29.5735,
+  floz: 29.5735,
+  "fluid ounce": 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  pt: 473.176,
+  quart: 946.353,
+  qt: 946.353,
+  gallon: 3785.41,
+  gal: 3785.41,
+};
+
+// Count-like units kept as-is (singular form)
+const COUNT_UNITS = [
+  "piece",
+  "pc",
+  "clove",
+  "slice",
+  "can",
+  "tin",
+  "jar",
+  "bottle",
+  "pack",
+  "package",
+  "bunch",
+  "head",
+  "stalk",
+  "sprig",
+  "leaf",
+  "fillet",
+  "breast",
+  "egg",
+  "handful",
+  "pinch",
+  "dash",
+  "scoop",
+  "serving",
+];
+
+// Approximate densities (g per ml) for converting volume to mass
+const FOOD_DENSITIES: Record<string, number> = {
+  water: 1,
+  milk: 1.03,
+  yogurt: 1.03,
+  yoghurt: 1.03,
+  cream: 1.0,
+  broth: 1,
+  stock: 1,
+  juice: 1.04,
+  oil: 0.92,
+  butter: 0.96,
+  honey: 1.42,
+  syrup: 1.33,
+  sugar: 0.85,
+  flour: 0.53,
+  oats: 0.41,
+  oat: 0.41,
+  rice: 0.85,
+  quinoa: 0.77,
+  lentil: 0.82,
+  bean: 0.75,
+  chickpea: 0.72,
+  salt: 1.2,
+  cocoa: 0.42,
+  nut: 0.6,
+  almond: 0.6,
+  peanut_butter: 1.09,
+  cheese: 0.45,
+  spinach: 0.13,
+  berries: 0.6,
+  blueberr: 0.6,
+  strawberr: 0.6,
+};
+
+// Approximate weight (g) of one piece, for converting counts to mass
+const PIECE_WEIGHTS: Record<string, number> = {
+  egg: 50,
+  banana: 120,
+  apple: 180,
+  orange: 150,
+  lemon: 100,
+  lime: 65,
+  onion: 150,
+  garlic: 5,
+  tomato: 120,
+  potato: 170,
+  sweet_potato: 130,
+  carrot: 60,
+  cucumber: 300,
+  avocado: 170,
+  bell_pepper: 150,
+  pepper: 150,
+  zucchini: 200,
+  chicken_breast: 170,
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": " 1/2",
+  "⅓": " 1/3",
+  "⅔": " 2/3",
+  "¼": " 1/4",
+  "¾": " 3/4",
+  "⅛": " 1/8",
+};
+
+const singularizeUnit = (unit: string): string => {
+  if (MASS_UNITS[unit] || VOLUME_UNITS[unit]) return unit;
+  if (COUNT_UNITS.includes(unit.slice(0, -1))) return unit.slice(0, -1);
+  if (unit.endsWith("es") && COUNT_UNITS.includes(unit.slice(0, -2)))
+    return unit.slice(0, -2);
+  if (unit.endsWith("ves")) return unit.slice(0, -3) + "f";
+  if (unit.endsWith("s")) return unit.slice(0, -1);
+  return unit;
+};
+
+// Parse "1", "1.5", "1/2", "1 1/2", "2-3" into a number (ranges use the upper bound)
+const parseNumber = (text: string): number | null => {
+  const range = text.match(/^(\d+(?:[.,]\d+)?)\s*(?:-|–|to)\s*(\d+(?:[.,]\d+)?)$/);
+  if (range) return parseFloat(range[2].replace(",", "."));
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+
+  const decimal = text.match(/^\d+(?:[.,]\d+)?$/);
+  if (decimal) return parseFloat(text.replace(",", "."));
+
+  return null;
+};
+
+// Split "1 1/2 cups chopped" into its number and the text after it
+const splitAmount = (amount: string): { value: number; rest: string } | null => {
+  if (!amount || typeof amount !== "string") return null;
+
+  let text = amount.toLowerCase().trim();
+  for (const [symbol, replacement] of Object.entries(UNICODE_FRACTIONS)) {
+    text = text.split(symbol).join(replacement);
+  }
+  text = text.replace(/\([^)]*\)/g, "").replace(/\s+/g, " ").trim();
+  if (/^(a|an)\s/.test(text)) text = text.replace(/^(a|an)\s/, "1 ");
+
+  const match = text.match(
+    /^(\d+(?:[.,]\d+)?(?:\s*(?:-|–|to)\s*\d+(?:[.,]\d+)?)?(?:\s+\d+\/\d+|\/\d+)?)\s*(.*)$/
+  );
+  if (!match) return null;
+
+  const value = parseNumber(match[1].trim());
+  if (value === null || !isFinite(value) || value <= 0) return null;
+  return { value, rest: match[2] };
+};
+
+/**
+ * Parse an amount string into a normalized quantity.
+ * Returns null for amounts without a usable number ("to taste", "some").
+ */
+export const parseQuantity = (amount: string): Quantity | null => {
+  const split = splitAmount(amount);
+  if (!split) return null;
+  const { value } = split;
+
+  let unit = split.rest.replace(/\.$/, "").trim();
+  // Keep only the unit word ("cups chopped" → "cups"), except for "fl oz"
+  if (!unit.startsWith("fl oz") && !unit.startsWith("fluid ounce")) {
+    unit = unit.split(/[\s,]/)[0] || "";
+  } else {
+    unit = unit.startsWith("fl oz") ? "fl oz" : "fluid ounce";
+  }
+  unit = singularizeUnit(unit);
+
+  if (MASS_UNITS[unit]) {
+    return { value: value * MASS_UNITS[unit], unit: "g", dimension: "mass" };
+  }
+  if (VOLUME_UNITS[unit]) {
+    return { value: value * VOLUME_UNITS[unit], unit: "ml", dimension: "volume" };
+  }
+  if (!unit || unit === "x" || unit === "pc" || unit === "unit") {
+    return { value, unit: "piece", dimension: "count" };
+  }
+  return { value, unit, dimension: "count" };
+};
+
+const lookupByIngredient = (
+  table: Record<string, number>,
+  ingredientKey: string
+): number | undefined => {
+  if (table[ingredientKey] !== undefined) return table[ingredientKey];
+  const match = Object.keys(table)
+    .sort((a, b) => b.length - a.length)
+    .find((key) => ingredientKey.includes(key));
+  return match ? table[match] : undefined;
+};
+
+export const getFoodDensity = (ingredientKey: string): number | undefined =>
+  lookupByIngredient(FOOD_DENSITIES, ingredientKey);
+
+export const getPieceWeight = (ingredientKey: string): number | undefined =>
+  lookupByIngredient(PIECE_WEIGHTS, ingredientKey);
+
+/**
+ * Merge quantities of one ingredient into as few entries as possible.
+ * Volume and piece counts are converted to mass when the ingredient has a known
+ * density / piece weight and mass is already present; otherwise each dimension
+ * (and each count unit) is summed separately.
+ */
+export const mergeQuantities = (
+  quantities: Quantity[],
+  ingredientKey: string
+): Quantity[] => {
+  const valid = quantities.filter((q) => q && q.value > 0);
+  if (valid.length === 0) return [];
+
+  const hasMass = valid.some((q) => q.dimension === "mass");
+  const density = getFoodDensity(ingredientKey);
+  const pieceWeight = getPieceWeight(ingredientKey);
+
+  const totals = new Map<string, Quantity>();
+  const add = (q: Quantity) => {
+    const existing = totals.get(q.unit);
+    if (existing) {
+      existing.value += q.value;
+    } else {
+      totals.set(q.unit, { ...q });
+    }
+  };
+
+  for (const q of valid) {
+    if (hasMass && q.dimension === "volume" && density) {
+      add({ value: q.value * density, unit: "g", dimension: "mass" });
+    } else if (
+      hasMass &&
+      q.dimension === "count" &&
+      pieceWeight &&
+      (q.unit === "piece" || ingredientKey.includes(q.unit))
+    ) {
+      add({ value: q.value * pieceWeight, unit: "g", dimension: "mass" });
+    } else {
+      add(q);
+    }
+  }
+
+  return Array.from(totals.values());
+};
+
+/**
+ * Express a quantity in the unit of another one of the same ingredient, or null
+ * when they cannot be compared (e.g. "2 cans" vs "400 g" without a known weight).
+ */
+export const convertQuantity = (
+  quantity: Quantity,
+  targetUnit: string,
+  ingredientKey: string
+): number | null => {
+  if (quantity.unit === targetUnit) return quantity.value;
+
+  const density = getFoodDensity(ingredientKey);
+  const pieceWeight = getPieceWeight(ingredientKey);
+
+  if (targetUnit === "g") {
+    if (quantity.dimension === "volume" && density) return quantity.value * density;
+    if (quantity.dimension === "count" && pieceWeight) return quantity.value * pieceWeight;
+  }
+  if (targetUnit === "ml" && quantity.dimension === "mass" && density) {
+    return quantity.value / density;
+  }
+  if (quantity.dimension === "mass" && pieceWeight && !["g", "ml"].includes(targetUnit)) {
+    return quantity.value / pieceWeight;
+  }
+  return null;
+};
+
+const roundTo = (value: number, step: number): number =>
+  Math.round(value / step) * step;
+
+const formatNumber = (value: number): string =>
+  String(value >= 100 ? Math.round(value) : Math.round(value * 100) / 100);
+
+const pluralize = (unit: string, value: number): string => {
+  if (value <= 1 || unit.length <= 2) return unit;
+  if (unit.endsWith("f")) return unit.slice(0, -1) + "ves";
+  if (/(ch|sh|s|x)$/.test(unit)) return `${unit}es`;
+  return `${unit}s`;
+};
+
+/**
+ * Format one normalized quantity for display in the given unit system
+ */
+export const formatQuantity = (
+  quantity: Quantity,
+  unitSystem: UnitSystem = "metric"
+): string => {
+  const { value, unit, dimension } = quantity;
+
+  if (dimension === "mass") {
+    if (unitSystem === "imperial") {
+      const oz = value / MASS_UNITS.oz;
+      return oz >= 16
+        ? `${formatNumber(roundTo(oz / 16, 0.05))} lb`
+        : `${formatNumber(roundTo(oz, 0.25))} oz`;
+    }
+    return value >= 1000
+      ? `${formatNumber(value / 1000)} kg`
+      : `${formatNumber(roundTo(value, value >= 100 ? 5 : 1))} g`;
+  }
+
+  if (dimension === "volume") {
+    if (unitSystem === "imperial") {
+      if (value < VOLUME_UNITS.tbsp) return `${formatNumber(roundTo(value / VOLUME_UNITS.tsp, 0.25))} tsp`;
+      if (value < VOLUME_UNITS.cup / 4) return `${formatNumber(roundTo(value / VOLUME_UNITS.tbsp, 0.5))} tbsp`;
+      const cups = value / VOLUME_UNITS.cup;
+      return `${formatNumber(roundTo(cups, 0.25))} ${cups > 1 ? "cups" : "cup"}`;
+    }
+    return value >= 1000
+      ? `${formatNumber(value / 1000)} l`
+      : `${formatNumber(roundTo(value, value >= 100 ? 5 : 1))} ml`;
+  }
+
+  const rounded = Math.ceil(value * 4) / 4;
+  return unit === "piece"
+    ? formatNumber(rounded)
+    : `${formatNumber(rounded)} ${pluralize(unit, rounded)}`;
+};
+
+export const formatQuantities = (
+  quantities: Quantity[],
+  unitSystem: UnitSystem = "metric"
+): string => quantities.map((q) => formatQuantity(q, unitSystem)).join(" + ");
+
+// Leftovers below this are rounding noise and treated as used up
+const QUANTITY_EPSILON = 0.01;
+
+/**
+ * Subtract available stock from the needed quantities of one ingredient.
+ * Returns what is still needed and what is left of the stock; quantities that
+ * cannot be converted into each other are left untouched.
+ */
+export const subtractQuantities = (
+  needed: Quantity[],
+  available: Quantity[],
+  ingredientKey: string
+): { remaining: Quantity[]; leftover: Quantity[] } => {
+  const remaining = needed.map((q) => ({ ...q }));
+  const leftover = available.map((q) => ({ ...q }));
+
+  for (const need of remaining) {
+    for (const stock of leftover) {
+      if (need.value <= QUANTITY_EPSILON) break;
+      if (stock.value <= QUANTITY_EPSILON) continue;
+
+      const stockInNeedUnit = convertQuantity(stock, need.unit, ingredientKey);
+      if (!stockInNeedUnit) continue;
+
+      const taken = Math.min(need.value, stockInNeedUnit);
+      need.value -= taken;
+      stock.value -= stock.value * (taken / stockInNeedUnit);
+    }
+  }
+
+  const keep = (q: Quantity) => q.value > QUANTITY_EPSILON;
+  return { remaining: remaining.filter(keep), leftover: leftover.filter(keep) };
+};
+
+// ============================================================================
+// SCALING
+// ============================================================================
+//
+// Recipes are scaled in the units they are written in, rounded to what can be
+// measured in a kitchen: 5 g steps rather than 112.5 g, quarter teaspoons,
+// whole eggs.
+
+// Count units that only come whole
+const WHOLE_COUNT_UNITS = [
+  "egg",
+  "can",
+  "tin",
+  "jar",
+  "bottle",
+  "pack",
+  "package",
+  "clove",
+  "fillet",
+  "breast",
+  "head",
+  "bunch",
+];
+const METRIC_MASS_UNITS = ["g", "gr", "gram", "kg", "kilo", "kilogram"];
+const METRIC_VOLUME_UNITS = ["ml", "milliliter", "millilitre", "cl", "dl", "l", "liter", "litre"];
+const SPOON_CUP_UNITS = ["tsp", "teaspoon", "tbsp", "tablespoon", "cup"];
+
+const metricStep = (value: number): number =>
+  value < 1 ? 0.1 : value < 20 ? 1 : value < 250 ? 5 : 10;
+
+// Round to a step without rounding anything down to nothing
+const roundUpFrom = (value: number, step: number): number =>
+  Math.max(step, roundTo(value, step));
+
+const scaleMetric = (base: number, small: string, large: string) =>
+  base >= 1000
+    ? { amount: formatNumber(roundUpFrom(base / 1000, 0.05)), unit: large }
+    : { amount: formatNumber(roundUpFrom(base, metricStep(base))), unit: small };
+
+const scaleSpoonsAndCups = (ml: number) => {
+  if (ml < VOLUME_UNITS.tbsp) {
+    return { amount: formatNumber(roundUpFrom(ml / VOLUME_UNITS.tsp, 0.25)), unit: "tsp" };
+  }
+  if (ml < VOLUME_UNITS.cup / 4) {
+    return { amount: formatNumber(roundUpFrom(ml / VOLUME_UNITS.tbsp, 0.5)), unit: "tbsp" };
+  }
+  const cups = roundUpFrom(ml / VOLUME_UNITS.cup, 0.25);
+  return { amount: formatNumber(cups), unit: cups > 1 ? "cups" : "cup" };
+};
+
+/**
+ * Multiply an amount written as number + unit ("200" "g", "1 1/2" "cups").
+ * Metric amounts move between g/kg and ml/l, spoons and cups between tsp, tbsp
+ * and cup; other units are kept. Plain counts ("2" eggs, "1" onion) stay whole.
+ * Amounts without a number are returned as they are.
+ */
+export const scaleAmount = (
+  amount: string,
+  unit: string,
+  factor: number
+): { amount: string; unit: string } => {
+  const split = splitAmount(String(amount ?? ""));
+  if (!split || factor === 1 || !(factor > 0)) return { amount, unit };
+
+  const unitText = (unit || split.rest || "").trim();
+  const key = singularizeUnit(unitText.toLowerCase().replace(/\.$/, ""));
+  const value = split.value * factor;
+
+  if (METRIC_MASS_UNITS.includes(key)) return scaleMetric(value * MASS_UNITS[key], "g", "kg");
+  if (METRIC_VOLUME_UNITS.includes(key)) return scaleMetric(value * VOLUME_UNITS[key], "ml", "l");
+  if (SPOON_CUP_UNITS.includes(key)) return scaleSpoonsAndCups(value * VOLUME_UNITS[key]);
+  if (key === "oz" || key === "ounce" || key === "lb" || key === "lbs" || key === "pound") {
+    const oz = (value * MASS_UNITS[key]) / MASS_UNITS.oz;
+    return oz >= 16
+      ? { amount: formatNumber(roundUpFrom(oz / 16, 0.25)), unit: "lb" }
+      : { amount: formatNumber(roundUpFrom(oz, 0.25)), unit: "oz" };
+  }
+  if (MASS_UNITS[key] || VOLUME_UNITS[key]) {
+    return { amount: formatNumber(roundUpFrom(value, 0.25)), unit: unitText };
+  }
+  if (WHOLE_COUNT_UNITS.includes(key)) {
+    const count = Math.max(1, Math.round(value));
+    return { amount: formatNumber(count), unit: pluralize(key, count) };
+  }
+  if (!key) {
+    return { amount: formatNumber(Math.max(1, Math.round(value))), unit: unitText };
+  }
+  return { amount: formatNumber(roundUpFrom(value, 0.5)), unit: unitText };
+};
+
+/**
+ * Multiply a free-text amount ("200g", "2 cups chopped", "3 large"). Words after
+ * the unit are kept; amounts without a number are returned as they are.
+ */
+export const scaleAmountText = (amount: string, factor: number): string => {
+  const split = splitAmount(amount);
+  if (!split || factor === 1 || !(factor > 0)) return amount;
+
+  const rest = split.rest.trim();
+  const unitWord = rest.startsWith("fl oz") ? "fl oz" : rest.split(/[\s,]/)[0] || "";
+  const key = singularizeUnit(unitWord.replace(/\.$/, ""));
+  const isUnit =
+    Boolean(MASS_UNITS[key] || VOLUME_UNITS[key]) ||
+    COUNT_UNITS.includes(key) ||
+    key === "x";
+  const scaled = isUnit
+    ? scaleAmount(String(split.value), key === "x" ? "" : unitWord, factor)
+    : scaleAmount(String(split.value), "", factor);
+  const trailing = (isUnit ? rest.slice(unitWord.length) : ` ${rest}`).trim();
+  return [scaled.amount, scaled.unit, trailing].filter(Boolean).join(" ");
+};
@@ -0,0 +1,33 @@
+import { QuotaPeriod } from "../enums/enumSubscription";
+
+/**
+ * Start and end (exclusive) of the quota window containing `now`, in UTC.
+ * Weeks start on Monday, matching meal plan weeks.
+ */
+export const getQuotaWindow = (
+  period: QuotaPeriod,
+  now: Date = new Date()
+): { start: Date; end: Date } => {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+
+  if (period === "day") {
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + 1);
+    return { start, end };
+  }
+
+  if (period === "week") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + 7);
+    return { start, end };
+  }
+
+  start.setUTCDate(1);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return { start, end };
+};
@@ -0,0 +1,77 @@
+// Scaling a recipe to the servings someone cooks or the calories one serving
+// should have. Recipe macros are per serving.
+
+import { IRecipe } from "../types/interfaces";
+import { scaleAmount } from "./quantities";
+
+export const MAX_RECIPE_SERVINGS = 20;
+
+export interface RecipeScaleOptions {
+  // How many servings to cook
+  servings?: number;
+  // Calories one serving should have; the portion grows or shrinks to match
+  targetCalories?: number;
+}
+
+export interface RecipeScaling {
+  baseServings: number;
+  servings: number;
+  // Size of one serving relative to the recipe's own
+  portionFactor: number;
+  // What every ingredient amount is multiplied by
+  factor: number;
+}
+
+type RecipeMacros = IRecipe["macros"];
+type ScalableRecipe = Pick<IRecipe, "servings" | "macros" | "ingredients">;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const hasRecipeScaling = (options?: RecipeScaleOptions): boolean =>
+  Boolean(options?.servings || options?.targetCalories);
+
+export const getRecipeScaling = (
+  recipe: Pick<IRecipe, "servings" | "macros">,
+  options: RecipeScaleOptions = {}
+): RecipeScaling => {
+  const baseServings = recipe.servings > 0 ? recipe.servings : 1;
+  const servings = options.servings || baseServings;
+  const calories = recipe.macros?.calories || 0;
+  const portionFactor =
+    options.targetCalories && calories > 0
+      ? Math.round((options.targetCalories / calories) * 100) / 100
+      : 1;
+  return {
+    baseServings,
+    servings,
+    portionFactor,
+    factor: Math.round((servings / baseServings) * portionFactor * 1000) / 1000,
+  };
+};
+
+const multiplyMacros = (macros: RecipeMacros, factor: number): RecipeMacros => ({
+  calories: Math.round((macros?.calories || 0) * factor),
+  protein: round1((macros?.protein || 0) * factor),
+  carbs: round1((macros?.carbs || 0) * factor),
+  fat: round1((macros?.fat || 0) * factor),
+});
+
+/**
+ * The recipe for `servings` servings of `targetCalories` each (either can be
+ * left out). `macros` stay per serving; `totalMacros` cover everything cooked.
+ */
+export const scaleRecipe = <T extends ScalableRecipe>(recipe: T, options: RecipeScaleOptions = {}) => {
+  const scaling = getRecipeScaling(recipe, options);
+  const macros = multiplyMacros(recipe.macros, scaling.portionFactor);
+  return {
+    ...recipe,
+    servings: scaling.servings,
+    macros,
+    totalMacros: multiplyMacros(macros, scaling.servings),
+    ingredients: (recipe.ingredients || []).map((ingredient) => ({
+      ...ingredient,
+      ...scaleAmount(ingredient.amount, ingredient.unit, scaling.factor),
+    })),
+    scaling,
+  };
+};
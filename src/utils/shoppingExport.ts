@@ -0,0 +1,183 @@
+import { ingredientCategories } from "./ingredientCategories";
+import { assignIngredientCategory } from "./helpers";
+import { toCsv } from "./csv";
+
+// Shopping list exports: grouped plain text (for messaging / printing), CSV and
+// the grouped structure rendered by the shared read-only view.
+
+export interface ExportableShoppingItem {
+  key?: string;
+  name: string;
+  amount?: string;
+  category?: string;
+  done?: boolean;
+}
+
+export interface ShoppingListGroup {
+  category: string;
+  items: Array<{ key: string; name: string; amount: string; done: boolean }>;
+}
+
+const OTHER_CATEGORY = "Other";
+const CATEGORY_ORDER = [...Object.keys(ingredientCategories), OTHER_CATEGORY];
+
+// "chicken_breast" → "Chicken breast"
+export const formatItemName = (name: string): string => {
+  const spaced = (name || "").replace(/_/g, " ").replace(/\s+/g, " ").trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+};
+
+/**
+ * Group items by shopping category (stored category, else keyword match),
+ * in store-aisle order with unknown categories last
+ */
+export const groupShoppingItems = (
+  items: ExportableShoppingItem[]
+): ShoppingListGroup[] => {
+  const groups = new Map<string, ShoppingListGroup>();
+
+  for (const item of items) {
+    const category =
+      item.category && CATEGORY_ORDER.includes(item.category)
+        ? item.category
+        : assignIngredientCategory(item.name) || OTHER_CATEGORY;
+    const group = groups.get(category) || { category, items: [] };
+    group.items.push({
+      key: item.key || item.name,
+      name: formatItemName(item.name),
+      amount: item.amount || "",
+      done: !!item.done,
+    });
+    groups.set(category, group);
+  }
+
+  return Array.from(groups.values())
+    .sort(
+      (a, b) =>
+        CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category)
+    )
+    .map((group) => ({
+      ...group,
+      items: group.items.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+};
+
+/**
+ * Plain text list grouped by category. Checked-off items are omitted unless
+ * includeDone is set, in which case they are marked.
+ */
+export const formatShoppingListText = (
+  items: ExportableShoppingItem[],
+  title: string = "Shopping list",
+  includeDone: boolean = false
+): string => {
+  const groups = groupShoppingItems(
+    includeDone ? items : items.filter((item) => !item.done)
+  );
+  const lines = [title, ""];
+
+  for (const group of groups) {
+    lines.push(`${group.category.toUpperCase()}`);
+    for (const item of group.items) {
+      const box = item.done ? "[x]" : "[ ]";
+      lines.push(`${box} ${item.name}${item.amount ? ` - ${item.amount}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  if (groups.length === 0) {
+    lines.push("Nothing left to buy.");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+};
+
+/**
+ * CSV with one row per item: Category, Item, Amount, Done
+ */
+export const formatShoppingListCsv = (items: ExportableShoppingItem[]): string => {
+  const rows = [["Category", "Item", "Amount", "Done"]];
+  for (const group of groupShoppingItems(items)) {
+    for (const item of group.items) {
+      rows.push([group.category, item.name, item.amount, item.done ? "yes" : "no"]);
+    }
+  }
+  return toCsv(rows);
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Standalone page for a shared shopping list. Ticking an item calls the shared
+ * items endpoint; the page refreshes periodically so several people shopping
+ * together see each other's changes.
+ */
+export const renderShoppingListHtml = (
+  groups: ShoppingListGroup[],
+  options: { title: string; apiPath: string; expiresAt: Date; nonce: string }
+): string => {
+  const sections = groups
+    .map(
+      (group) => `<section><h2>${escapeHtml(group.category)}</h2><ul>${group.items
+        .map(
+          (item) =>
+            `<li><label><input type="checkbox" data-key="${escapeHtml(item.key)}"${item.done ? " checked" : ""}> <span>${escapeHtml(item.name)}</span>${item.amount ? ` <small>${escapeHtml(item.amount)}</small>` : ""}</label></li>`
+        )
+        .join("")}</ul></section>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(options.title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;max-width:560px;margin:0 auto;padding:16px;color:#222}
+h1{font-size:1.4em}h2{font-size:1em;text-transform:uppercase;color:#666;margin-top:24px}
+ul{list-style:none;padding:0}li{padding:8px 0;border-bottom:1px solid #eee}
+input:checked+span{text-decoration:line-through;color:#999}small{color:#888}
+footer{margin-top:24px;font-size:.8em;color:#888}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(options.title)}</h1>
+<div id="list">${sections || "<p>Nothing left to buy.</p>"}</div>
+<footer>Shared shopping list · link expires ${escapeHtml(options.expiresAt.toISOString().slice(0, 10))}</footer>
+<script nonce="${escapeHtml(options.nonce)}">
+(function () {
+  var api = ${JSON.stringify(options.apiPath)};
+  document.getElementById("list").addEventListener("change", function (e) {
+    var box = e.target;
+    if (!box.dataset || !box.dataset.key) return;
+    fetch(api + "/items", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ item: { name: box.dataset.key, done: box.checked } })
+    }).then(function (res) { if (!res.ok) box.checked = !box.checked; });
+  });
+  setInterval(function () {
+    fetch(api).then(function (res) { return res.ok ? res.json() : null; }).then(function (body) {
+      if (!body || !body.data) return;
+      body.data.groups.forEach(function (group) {
+        group.items.forEach(function (item) {
+          var box = document.querySelector('input[data-key="' + CSS.escape(item.key) + '"]');
+          if (box && box !== document.activeElement) box.checked = item.done;
+        });
+      });
+    });
+  }, 15000);
+})();
+</script>
+</body>
+</html>
+`;
+};
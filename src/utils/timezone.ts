@@ -0,0 +1,159 @@
+// IANA timezone helpers (Intl-based, no external tz database)
+
+// Users without a stored zone keep the server clock their data was keyed on
+// before per-user zones existed
+export const DEFAULT_TIMEZONE =
+  process.env.DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export interface ZonedTime {
+  dateKey: string; // YYYY-MM-DD in the zone
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0 = Sunday
+  minutesOfDay: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Falls back to DEFAULT_TIMEZONE for missing or unknown zones
+export const resolveTimeZone = (timeZone?: string | null): string =>
+  isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+
+/**
+ * Wall-clock date and time of an instant in the given zone
+ */
+export const getZonedTime = (date: Date, timeZone?: string | null): ZonedTime => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(resolveTimeZone(timeZone)).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    hour,
+    minute,
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    minutesOfDay: hour * 60 + minute,
+  };
+};
+
+// "HH:MM" -> minutes since midnight
+export const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// YYYY-MM-DD of an instant in the given zone
+export const getDateKeyInZone = (date: Date, timeZone?: string | null): string =>
+  getZonedTime(date, timeZone).dateKey;
+
+// Calendar arithmetic on a YYYY-MM-DD key (no zone involved)
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0];
+};
+
+// Difference between wall-clock time in the zone and UTC at an instant
+const getZoneOffsetMs = (instant: number, timeZone: string): number => {
+  const zoned = getZonedTime(new Date(instant), timeZone);
+  const [year, month, day] = zoned.dateKey.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, zoned.hour, zoned.minute);
+  return wallClock - Math.floor(instant / 60000) * 60000;
+};
+
+/**
+ * Instant at which the given calendar day starts in the zone. Re-checks the
+ * offset once so days that begin next to a DST change resolve correctly.
+ */
+export const getZonedDayStart = (dateKey: string, timeZone?: string | null): Date => {
+  const zone = resolveTimeZone(timeZone);
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  let start = midnightUtc - getZoneOffsetMs(midnightUtc, zone);
+  const corrected = midnightUtc - getZoneOffsetMs(start, zone);
+  if (corrected !== start && getDateKeyInZone(new Date(corrected), zone) === dateKey) {
+    start = corrected;
+  }
+  return new Date(start);
+};
+
+// Last millisecond of the given calendar day in the zone
+export const getZonedDayEnd = (dateKey: string, timeZone?: string | null): Date =>
+  new Date(getZonedDayStart(addDaysToDateKey(dateKey, 1), timeZone).getTime() - 1);
+
+export interface UserDay {
+  timeZone: string;
+  dateKey: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * The calendar day a user is in at the given instant, with its boundaries
+ */
+export const getUserDay = (timeZone?: string | null, now: Date = new Date()): UserDay => {
+  const zone = resolveTimeZone(timeZone);
+  const dateKey = getDateKeyInZone(now, zone);
+  return {
+    timeZone: zone,
+    dateKey,
+    start: getZonedDayStart(dateKey, zone),
+    end: getZonedDayEnd(dateKey, zone),
+  };
+};
+
+/**
+ * The user's current calendar day as midnight on the server clock, for plan
+ * code that builds days with Date arithmetic and getLocalDateKey
+ */
+export const getUserToday = (timeZone?: string | null, now: Date = new Date()): Date => {
+  const [year, month, day] = getDateKeyInZone(now, timeZone).split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Minimal shape so any model with a timezone field can be used
+interface TimeZoneLookup {
+  findById(id: any): { select(fields: string): { lean(): PromiseLike<any> } };
+}
+
+/**
+ * Load a user's timezone, falling back to DEFAULT_TIMEZONE
+ */
+export const findUserTimeZone = async (
+  userModel: TimeZoneLookup,
+  userId: string
+): Promise<string> => {
+  const user = await userModel.findById(userId).select("timezone").lean();
+  return resolveTimeZone(user?.timezone);
+};
@@ -0,0 +1,154 @@
+// Weight trend math: smooths noisy daily weigh-ins into a trend line,
+// then derives the weekly rate of change and a projected goal date.
+
+export interface WeighIn {
+  dateKey: string; // YYYY-MM-DD
+  weight: number; // kg
+}
+
+export interface WeightTrendPoint {
+  dateKey: string;
+  weight: number; // average of that day's weigh-ins
+  trend: number; // exponentially smoothed weight
+}
+
+export interface WeightProjection {
+  targetWeight: number;
+  remaining: number; // kg still to go (negative = lose)
+  projectedDate: string | null;
+  daysToGoal: number | null;
+  reason?: "reached" | "no_trend" | "wrong_direction" | "too_far";
+}
+
+// Smoothing factor per day (10% of each new day's deviation moves the trend)
+export const WEIGHT_TREND_ALPHA = 0.1;
+// Weekly rate is a regression over the last N days of trend values
+export const WEIGHT_RATE_WINDOW_DAYS = 28;
+// Below this weekly change the trend is considered flat (kg/week)
+const FLAT_RATE_THRESHOLD = 0.05;
+// Projections further out than this are not meaningful
+const MAX_PROJECTION_DAYS = 730;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const dateKeyToTime = (dateKey: string): number =>
+  new Date(`${dateKey}T00:00:00Z`).getTime();
+
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round((dateKeyToTime(toKey) - dateKeyToTime(fromKey)) / MS_PER_DAY);
+
+const addDays = (dateKey: string, days: number): string =>
+  new Date(dateKeyToTime(dateKey) + days * MS_PER_DAY)
+    .toISOString()
+    .split("T")[0];
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Average weigh-ins per day, then apply an exponential moving average.
+ * Gaps between weigh-ins are handled by compounding alpha over the gap,
+ * so a week without data moves the trend further than a single day.
+ */
+export const calculateWeightTrend = (
+  weighIns: WeighIn[],
+  alpha: number = WEIGHT_TREND_ALPHA
+): WeightTrendPoint[] => {
+  const byDay = new Map<string, { sum: number; count: number }>();
+  for (const entry of weighIns) {
+    if (!entry?.dateKey || !(entry.weight > 0)) continue;
+    const day = byDay.get(entry.dateKey) || { sum: 0, count: 0 };
+    day.sum += entry.weight;
+    day.count += 1;
+    byDay.set(entry.dateKey, day);
+  }
+
+  const days = Array.from(byDay.keys()).sort();
+  const points: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+  let previousKey: string | null = null;
+
+  for (const dateKey of days) {
+    const { sum, count } = byDay.get(dateKey)!;
+    const weight = sum / count;
+
+    if (trend === null) {
+      trend = weight;
+    } else {
+      const gap = Math.max(1, daysBetween(previousKey!, dateKey));
+      const effectiveAlpha = 1 - Math.pow(1 - alpha, gap);
+      trend = trend + effectiveAlpha * (weight - trend);
+    }
+
+    points.push({ dateKey, weight: round1(weight), trend: round1(trend) });
+    previousKey = dateKey;
+  }
+
+  return points;
+};
+
+/**
+ * Weekly rate of change (kg/week) from a least-squares fit of the trend over
+ * the last `windowDays` days. Returns null with fewer than two data points.
+ */
+export const calculateWeeklyRate = (
+  points: WeightTrendPoint[],
+  windowDays: number = WEIGHT_RATE_WINDOW_DAYS
+): number | null => {
+  if (points.length < 2) return null;
+
+  const lastKey = points[points.length - 1].dateKey;
+  const windowed = points.filter(
+    (p) => daysBetween(p.dateKey, lastKey) <= windowDays
+  );
+  if (windowed.length < 2) return null;
+
+  const xs = windowed.map((p) => daysBetween(windowed[0].dateKey, p.dateKey));
+  const ys = windowed.map((p) => p.trend);
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < n; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY);
+    denominator += (xs[i] - meanX) * (xs[i] - meanX);
+  }
+  if (denominator === 0) return null;
+
+  return Math.round((numerator / denominator) * 7 * 100) / 100;
+};
+
+/**
+ * Project when the trend will reach targetWeight at the current weekly rate.
+ */
+export const projectGoalDate = (
+  currentTrend: number,
+  weeklyRate: number | null,
+  targetWeight: number,
+  fromDateKey: string
+): WeightProjection => {
+  const remaining = round1(targetWeight - currentTrend);
+  const base = { targetWeight, remaining, projectedDate: null, daysToGoal: null };
+
+  if (Math.abs(remaining) < 0.1) {
+    return { ...base, projectedDate: fromDateKey, daysToGoal: 0, reason: "reached" };
+  }
+  if (weeklyRate === null || Math.abs(weeklyRate) < FLAT_RATE_THRESHOLD) {
+    return { ...base, reason: "no_trend" };
+  }
+  if (Math.sign(weeklyRate) !== Math.sign(remaining)) {
+    return { ...base, reason: "wrong_direction" };
+  }
+
+  const daysToGoal = Math.ceil((remaining / weeklyRate) * 7);
+  if (daysToGoal > MAX_PROJECTION_DAYS) {
+    return { ...base, reason: "too_far" };
+  }
+
+  return {
+    ...base,
+    projectedDate: addDays(fromDateKey, daysToGoal),
+    daysToGoal,
+  };
+};
@@ -0,0 +1,267 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken, getModelToken } from "@nestjs/mongoose";
+import { ConfigService } from "@nestjs/config";
+import { ForbiddenException } from "@nestjs/common";
+import { Types } from "mongoose";
+import { AccountDeletionService } from "../../../src/account/account-deletion.service";
+import { AccountDeletion } from "../../../src/account/account-deletion.model";
+import { AccountExportService } from "../../../src/account/account-export.service";
+import { User } from "../../../src/user/user.model";
+import { SocialPost } from "../../../src/social/schemas/social-post.schema";
+import { Follow } from "../../../src/social/schemas/follow.schema";
+import { SessionService } from "../../../src/auth/session.service";
+import { DelegationService } from "../../../src/auth/delegation.service";
+import { SubscriptionService } from "../../../src/subscription/subscription.service";
+import { EmailService } from "../../../src/email/email.service";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const ADMIN_ID = "507f1f77bcf86cd799439099";
+const DELETION_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+describe("AccountDeletionService", () => {
+  let service: AccountDeletionService;
+  let mockDeletionModel: any;
+  let mockUserModel: any;
+  let mockSocialPostModel: any;
+  let mockFollowModel: any;
+  let mockConnection: any;
+  let collectionModels: Record<string, any>;
+  let mockSessionService: any;
+  let mockSubscriptionService: any;
+  let mockExportService: any;
+  let mockEmailService: any;
+
+  const leanQuery = (value: any) => ({
+    select: () => ({ lean: jest.fn().mockResolvedValue(value) }),
+    sort: () => ({ lean: jest.fn().mockResolvedValue(value) }),
+    lean: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    mockDeletionModel = {
+      create: jest.fn(async (doc: any) => ({
+        toObject: () => ({ _id: DELETION_ID, status: "scheduled", attempts: 0, ...doc }),
+      })),
+      findOne: jest.fn().mockReturnValue(leanQuery(null)),
+      find: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockUserModel = {
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    mockSocialPostModel = {
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+    };
+    mockFollowModel = { deleteMany: jest.fn().mockResolvedValue({ deletedCount: 3 }) };
+    collectionModels = {};
+    mockConnection = {
+      model: jest.fn((name: string) => {
+        collectionModels[name] = collectionModels[name] || {
+          deleteMany: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+          updateMany: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+          findOne: jest.fn(() => leanQuery(null)),
+        };
+        return collectionModels[name];
+      }),
+    };
+    mockSessionService = { revokeAll: jest.fn().mockResolvedValue({ revoked: 2 }) };
+    mockSubscriptionService = {
+      setCancelAtPeriodEnd: jest.fn().mockResolvedValue(["sub_1"]),
+      cancelCustomerSubscriptions: jest.fn().mockResolvedValue(["sub_1"]),
+    };
+    mockExportService = { removeUserExports: jest.fn().mockResolvedValue(1) };
+    mockEmailService = {
+      send: jest.fn().mockResolvedValue({ status: "sent" }),
+      buildAppLink: jest.fn().mockReturnValue("http://localhost:3000/login?restore=1"),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: getModelToken(AccountDeletion.name), useValue: mockDeletionModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getModelToken(SocialPost.name), useValue: mockSocialPostModel },
+        { provide: getModelToken(Follow.name), useValue: mockFollowModel },
+        { provide: getConnectionToken(), useValue: mockConnection },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SessionService, useValue: mockSessionService },
+        {
+          provide: DelegationService,
+          useValue: { removeUser: jest.fn().mockResolvedValue(1) },
+        },
+        { provide: SubscriptionService, useValue: mockSubscriptionService },
+        { provide: AccountExportService, useValue: mockExportService },
+        { provide: EmailService, useValue: mockEmailService },
+        {
+          provide: JobSchedulerService,
+          useValue: { registerHandler: jest.fn(), scheduleRecurring: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AccountDeletionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("requestDeletion", () => {
+    it("should soft-delete the account, sign it out and stop renewal", async () => {
+      mockUserModel.findOneAndUpdate.mockReturnValue(
+        leanQuery({ _id: USER_ID, email: "Ada@Example.com", name: "Ada", stripeCustomerId: "cus_1" })
+      );
+
+      const before = Date.now();
+      const view = await service.requestDeletion(USER_ID, USER_ID);
+
+      const [filter, update] = mockUserModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: USER_ID, deletionScheduledFor: null });
+      expect(update.$set.deviceTokens).toEqual([]);
+      const graceMs = view.scheduledFor.getTime() - before;
+      expect(Math.round(graceMs / (24 * 60 * 60 * 1000))).toBe(30);
+
+      const record = mockDeletionModel.create.mock.calls[0][0];
+      expect(record.emailHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(JSON.stringify(record)).not.toContain("Ada@Example.com");
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith(USER_ID);
+      expect(mockSubscriptionService.setCancelAtPeriodEnd).toHaveBeenCalledWith("cus_1", true);
+      expect(mockEmailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: "Ada@Example.com" })
+      );
+    });
+
+    it("should return the existing schedule when asked again", async () => {
+      mockUserModel.findOneAndUpdate.mockReturnValue(leanQuery(null));
+      mockDeletionModel.findOne.mockReturnValue(
+        leanQuery({ _id: DELETION_ID, status: "scheduled", scheduledFor: new Date() })
+      );
+
+      const view = await service.requestDeletion(USER_ID, USER_ID);
+
+      expect(view.id).toBe(DELETION_ID);
+      expect(mockDeletionModel.create).not.toHaveBeenCalled();
+      expect(mockSessionService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("restore", () => {
+    it("should cancel the deletion and resume renewal", async () => {
+      mockDeletionModel.findOne.mockReturnValue(
+        leanQuery({ _id: DELETION_ID, status: "scheduled", stripeCustomerId: "cus_1" })
+      );
+      mockDeletionModel.findOneAndUpdate.mockResolvedValue({
+        toObject: () => ({ _id: DELETION_ID, status: "cancelled" }),
+      });
+
+      const view = await service.restore(USER_ID, USER_ID);
+
+      expect(view.status).toBe("cancelled");
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: USER_ID },
+        { $unset: { deletionRequestedAt: "", deletionScheduledFor: "" } }
+      );
+      expect(mockSubscriptionService.setCancelAtPeriodEnd).toHaveBeenCalledWith("cus_1", false);
+    });
+
+    it("should leave deletions scheduled by an admin to admins", async () => {
+      mockDeletionModel.findOne.mockReturnValue(
+        leanQuery({ _id: DELETION_ID, status: "scheduled", requestedByAdmin: true })
+      );
+
+      await expect(service.restore(USER_ID, USER_ID)).rejects.toThrow(ForbiddenException);
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("purge", () => {
+    const givenClaimedDeletion = (extra: any = {}) => {
+      mockDeletionModel.findOneAndUpdate.mockResolvedValue({
+        _id: DELETION_ID,
+        userId: new Types.ObjectId(USER_ID),
+        stripeCustomerId: "cus_1",
+        ...extra,
+      });
+    };
+
+    it("should cancel billing, delete the user's data everywhere and anonymize comments", async () => {
+      givenClaimedDeletion();
+
+      await expect(service.purge(DELETION_ID)).resolves.toBe(true);
+
+      expect(mockSubscriptionService.cancelCustomerSubscriptions).toHaveBeenCalledWith("cus_1");
+      for (const model of ["Plan", "DailyProgress", "MoodEntry", "Chat", "ShoppingList", "Session"]) {
+        expect(collectionModels[model].deleteMany).toHaveBeenCalledWith({ userId: USER_ID });
+      }
+      expect(collectionModels.AiCallLog.updateMany).toHaveBeenCalledWith(
+        { userId: USER_ID },
+        { $unset: { userId: "" } }
+      );
+      const [commentFilter, commentUpdate, commentOptions] =
+        mockSocialPostModel.updateMany.mock.calls[0];
+      expect(commentFilter["comments.userId"].toString()).toBe(USER_ID);
+      expect(commentUpdate).toEqual({
+        $unset: { "comments.$[own].userId": "" },
+        $set: { "comments.$[own].authorDeleted": true },
+      });
+      expect(commentOptions.arrayFilters[0]["own.userId"].toString()).toBe(USER_ID);
+      expect(mockFollowModel.deleteMany).toHaveBeenCalled();
+      const [coachFilter] = collectionModels.CoachClient.deleteMany.mock.calls[0];
+      expect(coachFilter.$or.map((c: any) => Object.keys(c)[0])).toEqual(["coachId", "clientId"]);
+      expect(coachFilter.$or[1].clientId.toString()).toBe(USER_ID);
+      const [householdFilter] = collectionModels.Household.findOne.mock.calls[0];
+      expect(householdFilter.memberUserIds.toString()).toBe(USER_ID);
+      expect(mockExportService.removeUserExports).toHaveBeenCalledWith(USER_ID);
+      expect(mockUserModel.deleteOne).toHaveBeenCalledWith({ _id: USER_ID });
+
+      const [, completion] = mockDeletionModel.updateOne.mock.calls[0];
+      expect(completion.$set).toMatchObject({
+        status: "completed",
+        cancelledSubscriptionIds: ["sub_1"],
+      });
+      expect(completion.$set.purgedCounts).toMatchObject({
+        Follow: 3,
+        Delegation: 1,
+        "SocialPost.commentsAnonymized": 2,
+        User: 1,
+      });
+    });
+
+    it("should delete nothing and record the failure when Stripe cancellation fails", async () => {
+      givenClaimedDeletion();
+      mockSubscriptionService.cancelCustomerSubscriptions.mockRejectedValue(
+        new Error("Stripe unavailable")
+      );
+
+      await expect(service.purge(DELETION_ID)).resolves.toBe(false);
+
+      expect(mockConnection.model).not.toHaveBeenCalled();
+      expect(mockUserModel.deleteOne).not.toHaveBeenCalled();
+      expect(mockDeletionModel.updateOne).toHaveBeenCalledWith(
+        { _id: DELETION_ID },
+        { $set: expect.objectContaining({ status: "failed", lastError: "Stripe unavailable" }) }
+      );
+    });
+
+    it("should only claim deletions that are due or need a retry", async () => {
+      mockDeletionModel.findOneAndUpdate.mockResolvedValue(null);
+      const now = new Date("2026-10-18T12:00:00Z");
+
+      await expect(service.purge(DELETION_ID, now)).resolves.toBe(false);
+
+      const [filter, update] = mockDeletionModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.$or).toEqual(
+        expect.arrayContaining([
+          { status: "scheduled", scheduledFor: { $lte: now } },
+          { status: "failed", attempts: { $lt: 5 } },
+        ])
+      );
+      expect(update.$inc).toEqual({ attempts: 1 });
+      expect(mockUserModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+});
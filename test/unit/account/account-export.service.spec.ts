@@ -0,0 +1,287 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken, getModelToken } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { NotFoundException } from "@nestjs/common";
+import { inflateRawSync } from "zlib";
+import { AccountExportService, DOWNLOAD_AUDIENCE } from "../../../src/account/account-export.service";
+import { DataExport } from "../../../src/account/data-export.model";
+import { User } from "../../../src/user/user.model";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+import { EventBus } from "../../../src/events/event-bus";
+import { formatMoodCsv, formatProgressCsv } from "../../../src/utils/accountExport";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const ADMIN_ID = "507f1f77bcf86cd799439099";
+const EXPORT_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+// Read the entries of a ZIP written by createZip (deflate, no data descriptors)
+const readZip = (zip: Buffer): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    entries[name] = inflateRawSync(zip.subarray(start, start + compressedSize)).toString("utf8");
+    offset = start + compressedSize;
+  }
+  return entries;
+};
+
+describe("AccountExportService", () => {
+  let service: AccountExportService;
+  let jwtService: JwtService;
+  let mockExportModel: any;
+  let mockUserModel: any;
+  let mockConnection: any;
+  let mockJobScheduler: any;
+  let mockEventBus: any;
+  let collections: Record<string, any[]>;
+
+  const leanQuery = (value: any) => ({
+    select: () => ({ lean: jest.fn().mockResolvedValue(value) }),
+    lean: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    collections = {};
+    mockExportModel = {
+      findOne: jest.fn().mockReturnValue(leanQuery(null)),
+      find: jest.fn(),
+      create: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    mockUserModel = { findById: jest.fn() };
+    mockConnection = {
+      model: jest.fn((name: string) => ({
+        find: () => ({
+          sort: () => ({ lean: jest.fn().mockResolvedValue(collections[name] || []) }),
+        }),
+      })),
+    };
+    mockJobScheduler = {
+      registerHandler: jest.fn(),
+      scheduleRecurring: jest.fn(),
+      schedule: jest.fn().mockResolvedValue({}),
+    };
+    mockEventBus = { publish: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountExportService,
+        { provide: getModelToken(DataExport.name), useValue: mockExportModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getConnectionToken(), useValue: mockConnection },
+        { provide: JwtService, useValue: new JwtService({ secret: "test-secret" }) },
+        { provide: JobSchedulerService, useValue: mockJobScheduler },
+        { provide: EventBus, useValue: mockEventBus },
+      ],
+    }).compile();
+
+    service = module.get(AccountExportService);
+    jwtService = module.get(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("requestExport", () => {
+    beforeEach(() => {
+      mockUserModel.findById.mockReturnValue(leanQuery({ _id: USER_ID }));
+      mockExportModel.create.mockImplementation(async (doc: any) => ({
+        _id: EXPORT_ID,
+        toObject: () => ({ _id: EXPORT_ID, status: "queued", ...doc }),
+      }));
+    });
+
+    it("should include sensitive content only for the owner's own request", async () => {
+      const own = await service.requestExport(USER_ID, USER_ID);
+      const byAdmin = await service.requestExport(USER_ID, ADMIN_ID);
+
+      expect(own.includeSensitive).toBe(true);
+      expect(byAdmin.includeSensitive).toBe(false);
+      expect(mockJobScheduler.schedule).toHaveBeenCalledWith("account.export", {
+        exportId: EXPORT_ID,
+      });
+    });
+
+    it("should return the export already in progress instead of queuing another", async () => {
+      mockExportModel.findOne.mockReturnValue(
+        leanQuery({ _id: EXPORT_ID, status: "processing", includeSensitive: true })
+      );
+
+      const result = await service.requestExport(USER_ID, USER_ID);
+
+      expect(result).toMatchObject({ id: EXPORT_ID, status: "processing" });
+      expect(mockExportModel.create).not.toHaveBeenCalled();
+      expect(mockJobScheduler.schedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildExport", () => {
+    let stored: Buffer | undefined;
+
+    const givenClaimedExport = (requestedBy: string, includeSensitive: boolean) => {
+      mockExportModel.findOneAndUpdate.mockResolvedValue({
+        _id: EXPORT_ID,
+        userId: USER_ID,
+        requestedBy,
+        includeSensitive,
+      });
+    };
+
+    beforeEach(() => {
+      stored = undefined;
+      jest.spyOn(service as any, "storeFile").mockImplementation(async (...args: any[]) => {
+        stored = args[1];
+        return "file-id";
+      });
+      mockUserModel.findById.mockReturnValue(
+        leanQuery({
+          _id: USER_ID,
+          name: "Ada",
+          password: "hashed",
+          deviceTokens: ["fcm-token"],
+          emotionalTriggers: ["stress"],
+        })
+      );
+      collections = {
+        MoodEntry: [
+          { date: "2026-10-01", time: "08:00", moodLevel: 4, notes: "Slept badly", triggers: ["work"] },
+        ],
+        ThoughtEntry: [{ situation: "Skipped lunch", automaticThought: "I failed", mood: "sad" }],
+        DailyProgress: [{ dateKey: "2026-10-01", caloriesConsumed: 1800 }],
+      };
+    });
+
+    it("should archive all the user's data and announce it", async () => {
+      givenClaimedExport(USER_ID, true);
+
+      await service.buildExport(EXPORT_ID);
+
+      const files = readZip(stored!);
+      expect(Object.keys(files)).toEqual(["export.json", "progress.csv", "moods.csv"]);
+      const archive = JSON.parse(files["export.json"]);
+      expect(archive.profile.name).toBe("Ada");
+      expect(archive.profile.password).toBeUndefined();
+      expect(archive.profile.deviceTokens).toBeUndefined();
+      expect(archive.profile.emotionalTriggers).toEqual(["stress"]);
+      expect(archive.thoughtEntries[0].automaticThought).toBe("I failed");
+      expect(archive.recordCounts).toMatchObject({ moodEntries: 1, progress: 1, goals: 0 });
+      expect(files["moods.csv"]).toContain("Slept badly");
+
+      expect(mockExportModel.updateOne).toHaveBeenCalledWith(
+        { _id: EXPORT_ID },
+        { $set: expect.objectContaining({ status: "ready", fileId: "file-id" }) }
+      );
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        "account.export_ready",
+        expect.objectContaining({ userId: USER_ID, exportId: EXPORT_ID })
+      );
+    });
+
+    it("should leave out free-text CBT content from an admin export", async () => {
+      givenClaimedExport(ADMIN_ID, false);
+
+      await service.buildExport(EXPORT_ID);
+
+      const files = readZip(stored!);
+      const archive = JSON.parse(files["export.json"]);
+      expect(archive.profile.emotionalTriggers).toBeUndefined();
+      expect(archive.thoughtEntries[0]).toEqual({ mood: "sad" });
+      expect(archive.moodEntries[0].notes).toBeUndefined();
+      expect(files["moods.csv"]).not.toContain("Slept badly");
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it("should mark the export failed when the archive cannot be stored", async () => {
+      givenClaimedExport(USER_ID, true);
+      jest.spyOn(service as any, "storeFile").mockRejectedValue(new Error("disk full"));
+
+      await service.buildExport(EXPORT_ID);
+
+      expect(mockExportModel.updateOne).toHaveBeenCalledWith(
+        { _id: EXPORT_ID },
+        { $set: expect.objectContaining({ status: "failed", error: "disk full" }) }
+      );
+    });
+  });
+
+  describe("openDownload", () => {
+    it("should only accept a download token for the same export", async () => {
+      const otherExport = jwtService.sign(
+        { sub: USER_ID, purpose: "data_export" },
+        { jwtid: "652f1c2e9b1e8a3d4c5b6a00", expiresIn: 3600, audience: DOWNLOAD_AUDIENCE }
+      );
+      const withoutAudience = jwtService.sign(
+        { sub: USER_ID, purpose: "data_export" },
+        { jwtid: EXPORT_ID, expiresIn: 3600 }
+      );
+      const accessToken = jwtService.sign({ id: USER_ID });
+
+      await expect(service.openDownload(EXPORT_ID, otherExport)).rejects.toThrow(NotFoundException);
+      await expect(service.openDownload(EXPORT_ID, withoutAudience)).rejects.toThrow(NotFoundException);
+      await expect(service.openDownload(EXPORT_ID, accessToken)).rejects.toThrow(NotFoundException);
+      await expect(service.openDownload(EXPORT_ID, "garbage")).rejects.toThrow(NotFoundException);
+      expect(mockExportModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it("should sign a link for ready exports that opens the archive", async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      mockExportModel.find.mockReturnValue({
+        sort: () => ({
+          limit: () => ({
+            lean: jest.fn().mockResolvedValue([
+              { _id: EXPORT_ID, userId: USER_ID, status: "ready", expiresAt },
+            ]),
+          }),
+        }),
+      });
+      mockExportModel.findOne.mockReturnValue(
+        leanQuery({ _id: EXPORT_ID, status: "ready", fileId: "file-id", fileName: "export.zip" })
+      );
+      const stream = {};
+      jest
+        .spyOn(service as any, "bucket")
+        .mockReturnValue({ openDownloadStream: jest.fn().mockReturnValue(stream) });
+
+      const [view] = await service.listExports(USER_ID);
+      const token = new URL(view.downloadUrl!, "http://localhost").searchParams.get("token")!;
+
+      await expect(service.openDownload(EXPORT_ID, token)).resolves.toMatchObject({
+        fileName: "export.zip",
+        stream,
+      });
+    });
+  });
+
+  describe("CSV views", () => {
+    it("should write one progress row per day, oldest first", () => {
+      const csv = formatProgressCsv([
+        { dateKey: "2026-10-02", caloriesConsumed: 2000, meals: { breakfast: { done: true } } },
+        { dateKey: "2026-10-01", caloriesConsumed: 1500, workouts: [{ done: true, caloriesBurned: 300 }] },
+      ]);
+
+      const lines = csv.trim().split("\r\n");
+      expect(lines).toHaveLength(3);
+      expect(lines[1].startsWith("2026-10-01,1500,")).toBe(true);
+      expect(lines[1]).toContain(",1,300,");
+      expect(lines[2].startsWith("2026-10-02,2000,")).toBe(true);
+    });
+
+    it("should guard mood notes against spreadsheet formulas", () => {
+      const csv = formatMoodCsv(
+        [{ date: "2026-10-01", time: "08:00", moodLevel: 3, notes: "=HYPERLINK(\"x\")" }],
+        true
+      );
+
+      expect(csv).not.toMatch(/,=HYPERLINK/);
+      expect(csv).toContain("'=HYPERLINK");
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { ExecutionContext, ForbiddenException, NotFoundException } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { lastValueFrom, of, throwError } from "rxjs";
+import { RolesGuard, Roles } from "../../../src/auth/guards/roles.guard";
+import {
+  AdminAuditInterceptor,
+  AuditAction,
+  addAuditDetails,
+} from "../../../src/admin/admin-audit.interceptor";
+
+const ADMIN_ID = "507f1f77bcf86cd799439099";
+const USER_ID = "507f1f77bcf86cd799439011";
+
+class ModerationController {
+  @Roles("admin", "moderator")
+  @AuditAction("social.post_removed")
+  removePost() {}
+
+  @Roles("admin")
+  grantTier() {}
+
+  listFeed() {}
+}
+
+const contextFor = (handler: keyof ModerationController, request: any): ExecutionContext =>
+  ({
+    getType: () => "http",
+    getHandler: () => ModerationController.prototype[handler],
+    getClass: () => ModerationController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  }) as unknown as ExecutionContext;
+
+describe("Admin roles and audit log", () => {
+  const reflector = new Reflector();
+
+  describe("RolesGuard", () => {
+    const guard = new RolesGuard(reflector);
+
+    it("should let listed roles through and reject the rest", () => {
+      const moderator = { user: { role: "moderator" } };
+
+      expect(guard.canActivate(contextFor("removePost", moderator))).toBe(true);
+      expect(() => guard.canActivate(contextFor("grantTier", moderator))).toThrow(
+        ForbiddenException
+      );
+      expect(() =>
+        guard.canActivate(contextFor("removePost", { user: { role: "user" } }))
+      ).toThrow(ForbiddenException);
+      expect(guard.canActivate(contextFor("listFeed", { user: { role: "user" } }))).toBe(true);
+    });
+
+    it("should reject impersonation tokens even for privileged users", () => {
+      const request = { user: { role: "admin" }, impersonatedBy: ADMIN_ID };
+
+      expect(() => guard.canActivate(contextFor("grantTier", request))).toThrow(
+        ForbiddenException
+      );
+    });
+  });
+
+  describe("AdminAuditInterceptor", () => {
+    let auditService: { record: jest.Mock };
+    let interceptor: AdminAuditInterceptor;
+
+    const adminRequest = (extra: any = {}) => ({
+      method: "DELETE",
+      originalUrl: "/api/admin/social/posts/p1?x=1",
+      params: { postId: "p1" },
+      query: {},
+      body: { reason: "Spam", password: "hunter2" },
+      headers: { "user-agent": "jest" },
+      user: { _id: ADMIN_ID, role: "admin" },
+      ...extra,
+    });
+
+    beforeEach(() => {
+      auditService = { record: jest.fn().mockResolvedValue(undefined) };
+      interceptor = new AdminAuditInterceptor(reflector, auditService as any);
+    });
+
+    it("should record a successful privileged action with what it changed", async () => {
+      const request = adminRequest();
+      const handle = () => {
+        addAuditDetails(request, { targetUserId: USER_ID, removed: { caption: "Buy now" } });
+        return of({ ok: true });
+      };
+
+      const result = await lastValueFrom(
+        interceptor.intercept(contextFor("removePost", request), { handle })
+      );
+
+      expect(result).toEqual({ ok: true });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: ADMIN_ID,
+          actorRole: "admin",
+          action: "social.post_removed",
+          method: "DELETE",
+          path: "/api/admin/social/posts/p1",
+          targetUserId: USER_ID,
+          outcome: "success",
+          details: { targetUserId: USER_ID, removed: { caption: "Buy now" } },
+        })
+      );
+    });
+
+    it("should record failures and still surface the error", async () => {
+      const error = new NotFoundException("Post not found");
+
+      await expect(
+        lastValueFrom(
+          interceptor.intercept(contextFor("grantTier", adminRequest({ params: { userId: USER_ID } })), {
+            handle: () => throwError(() => error),
+          })
+        )
+      ).rejects.toBe(error);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "ModerationController.grantTier",
+          targetUserId: USER_ID,
+          outcome: "error",
+          statusCode: 404,
+          error: "Post not found",
+        })
+      );
+    });
+
+    it("should record impersonated requests against the admin", async () => {
+      const request = {
+        method: "GET",
+        originalUrl: "/api/progress/today",
+        user: { _id: USER_ID, role: "user" },
+        impersonatedBy: ADMIN_ID,
+        headers: {},
+      };
+
+      await lastValueFrom(
+        interceptor.intercept(contextFor("listFeed", request), { handle: () => of([]) })
+      );
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: ADMIN_ID,
+          action: "impersonation.request",
+          targetUserId: USER_ID,
+          impersonation: true,
+        })
+      );
+    });
+
+    it("should not record ordinary requests", async () => {
+      await lastValueFrom(
+        interceptor.intercept(contextFor("listFeed", { user: { _id: USER_ID, role: "admin" } }), {
+          handle: () => of([]),
+        })
+      );
+
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { AdminUsersService } from "../../../src/admin/admin-users.service";
+import { User } from "../../../src/user/user.model";
+import { QuotaService } from "../../../src/quota/quota.service";
+import { EngagementService } from "../../../src/engagement/engagement.service";
+import { SessionService } from "../../../src/auth/session.service";
+import { SubscriptionTier } from "../../../src/enums/enumSubscription";
+
+const ADMIN_ID = "507f1f77bcf86cd799439099";
+const USER_ID = "507f1f77bcf86cd799439011";
+
+describe("AdminUsersService", () => {
+  let service: AdminUsersService;
+  let jwtService: JwtService;
+  let mockUserModel: any;
+  let mockEngagementService: any;
+
+  const givenUser = (user: any) => {
+    mockUserModel.findById.mockReturnValue({
+      select: () => ({ lean: jest.fn().mockResolvedValue(user) }),
+    });
+  };
+
+  beforeEach(async () => {
+    mockUserModel = {
+      findById: jest.fn(),
+      find: jest.fn(),
+      countDocuments: jest.fn().mockResolvedValue(0),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockEngagementService = {
+      resetStreak: jest.fn().mockResolvedValue({
+        streakResetDate: "2026-10-18",
+        previousStreak: 12,
+        previousLongestStreak: 30,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminUsersService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: JwtService, useValue: new JwtService({ secret: "test-secret" }) },
+        { provide: QuotaService, useValue: { getQuotaStatus: jest.fn().mockResolvedValue({}) } },
+        { provide: EngagementService, useValue: mockEngagementService },
+        { provide: SessionService, useValue: { listSessions: jest.fn().mockResolvedValue([]) } },
+      ],
+    }).compile();
+
+    service = module.get(AdminUsersService);
+    jwtService = module.get(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should search names and emails literally", async () => {
+    mockUserModel.find.mockReturnValue({
+      select: () => ({
+        sort: () => ({
+          skip: () => ({ limit: () => ({ lean: jest.fn().mockResolvedValue([]) }) }),
+        }),
+      }),
+    });
+
+    await service.listUsers({ search: "ada+test@", tier: SubscriptionTier.PREMIUM });
+
+    const filter = mockUserModel.find.mock.calls[0][0];
+    expect(filter.$or[0].name.source).toBe("ada\\+test@");
+    expect(filter.subscriptionTier).toBe(SubscriptionTier.PREMIUM);
+  });
+
+  it("should grant a tier and report the previous one", async () => {
+    givenUser({ _id: USER_ID, subscriptionTier: SubscriptionTier.FREE });
+
+    const result = await service.setTier(USER_ID, SubscriptionTier.PLUS);
+
+    expect(result).toEqual({ userId: USER_ID, previousTier: "free", tier: "plus" });
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $set: { subscriptionTier: SubscriptionTier.PLUS } }
+    );
+  });
+
+  it("should not let admins change their own role", async () => {
+    await expect(service.setRole(ADMIN_ID, ADMIN_ID, "user")).rejects.toThrow(BadRequestException);
+    expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should reset streaks through the engagement service", async () => {
+    givenUser({ _id: USER_ID });
+
+    const result = await service.resetStreak(USER_ID);
+
+    expect(mockEngagementService.resetStreak).toHaveBeenCalledWith(USER_ID);
+    expect(result).toMatchObject({ userId: USER_ID, previousStreak: 12 });
+  });
+
+  it("should issue a short-lived impersonation token naming the admin", async () => {
+    givenUser({ _id: USER_ID, name: "Ada", email: "ada@example.com" });
+
+    const result = await service.impersonate(ADMIN_ID, USER_ID);
+
+    const payload = jwtService.verify(result.token);
+    expect(payload).toMatchObject({ id: USER_ID, imp: ADMIN_ID });
+    expect(payload.sid).toBeUndefined();
+    expect(payload.exp - payload.iat).toBe(15 * 60);
+    expect(result.readOnly).toBe(true);
+  });
+
+  it("should 404 for unknown users", async () => {
+    givenUser(null);
+
+    await expect(service.impersonate(ADMIN_ID, USER_ID)).rejects.toThrow(NotFoundException);
+    await expect(service.setTier("not-an-id", SubscriptionTier.PLUS)).rejects.toThrow(
+      NotFoundException
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { BadRequestException, HttpException } from "@nestjs/common";
+import { AccountTokenService, ACCOUNT_TOKEN_AUDIENCE } from "../../../src/auth/account-token.service";
+import { AccountToken } from "../../../src/auth/account-token.model";
+import { SessionService } from "../../../src/auth/session.service";
+import { EmailService } from "../../../src/email/email.service";
+import { User } from "../../../src/user/user.model";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const RECORD_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+describe("AccountTokenService", () => {
+  let service: AccountTokenService;
+  let jwtService: JwtService;
+  let mockTokenModel: any;
+  let mockUserModel: any;
+  let mockEmailService: any;
+  let mockSessionService: any;
+
+  const leanQuery = (value: any) => ({
+    select: () => ({ lean: jest.fn().mockResolvedValue(value) }),
+  });
+
+  // Token from the link in the last email sent
+  const sentToken = () => {
+    const [, params] = mockEmailService.buildAppLink.mock.calls.at(-1);
+    return params.token as string;
+  };
+
+  beforeEach(async () => {
+    mockTokenModel = {
+      create: jest.fn().mockResolvedValue({ _id: RECORD_ID }),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+      countDocuments: jest.fn().mockResolvedValue(0),
+      findOneAndUpdate: jest.fn(),
+    };
+    mockUserModel = {
+      findOne: jest.fn(),
+      findById: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockEmailService = {
+      send: jest.fn().mockResolvedValue({ status: "sent" }),
+      buildAppLink: jest.fn().mockReturnValue("http://localhost:3000/link"),
+    };
+    mockSessionService = { revokeAll: jest.fn().mockResolvedValue({ revoked: 2 }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountTokenService,
+        { provide: getModelToken(AccountToken.name), useValue: mockTokenModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: JwtService, useValue: new JwtService({ secret: "test-secret" }) },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: SessionService, useValue: mockSessionService },
+      ],
+    }).compile();
+
+    service = module.get(AccountTokenService);
+    jwtService = module.get(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("password reset", () => {
+    beforeEach(() => {
+      mockUserModel.findOne.mockReturnValue(
+        leanQuery({ _id: USER_ID, email: "Ada@Example.com", name: "Ada" })
+      );
+    });
+
+    it("should email a signed link and retire older ones", async () => {
+      await service.requestPasswordReset("Ada@Example.com");
+
+      expect(mockTokenModel.updateMany).toHaveBeenCalledWith(
+        { userId: USER_ID, purpose: "password_reset", usedAt: null },
+        { $set: { usedAt: expect.any(Date) } }
+      );
+      expect(mockTokenModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ purpose: "password_reset", email: "ada@example.com" })
+      );
+      expect(jwtService.verify(sentToken())).toMatchObject({
+        sub: USER_ID,
+        purpose: "password_reset",
+        jti: RECORD_ID,
+        aud: ACCOUNT_TOKEN_AUDIENCE,
+      });
+      expect(mockEmailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: "Ada@Example.com", subject: "Reset your Habeat password" })
+      );
+    });
+
+    it("should answer the same way for unknown and rate-limited emails without sending", async () => {
+      mockUserModel.findOne.mockReturnValueOnce(leanQuery(null));
+      await expect(service.requestPasswordReset("nobody@example.com")).resolves.toBeUndefined();
+
+      mockTokenModel.countDocuments.mockResolvedValueOnce(3);
+      await expect(service.requestPasswordReset("Ada@Example.com")).resolves.toBeUndefined();
+
+      expect(mockEmailService.send).not.toHaveBeenCalled();
+    });
+
+    it("should set the password once and sign out every session", async () => {
+      await service.requestPasswordReset("Ada@Example.com");
+      const token = sentToken();
+      const user: any = { _id: USER_ID, email: "Ada@Example.com", save: jest.fn() };
+      mockUserModel.findById.mockResolvedValue(user);
+      mockTokenModel.findOneAndUpdate.mockResolvedValueOnce({
+        userId: USER_ID,
+        email: "ada@example.com",
+      });
+
+      await service.resetPassword(token, "new-password-123");
+
+      expect(mockTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: RECORD_ID, purpose: "password_reset", usedAt: null }),
+        { $set: { usedAt: expect.any(Date) } },
+        { new: true }
+      );
+      expect(user.password).toBe("new-password-123");
+      expect(user.emailVerified).toBe(true);
+      expect(user.save).toHaveBeenCalled();
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith(USER_ID);
+
+      // Already redeemed
+      mockTokenModel.findOneAndUpdate.mockResolvedValueOnce(null);
+      await expect(service.resetPassword(token, "another-password")).rejects.toThrow(
+        BadRequestException
+      );
+    });
+
+    it("should only accept tokens issued for account links", async () => {
+      const token = jwtService.sign(
+        { sub: USER_ID, purpose: "password_reset" },
+        { jwtid: RECORD_ID, expiresIn: 3600 }
+      );
+
+      await expect(service.resetPassword(token, "new-password-123")).rejects.toThrow(
+        BadRequestException
+      );
+      expect(mockTokenModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("email verification", () => {
+    beforeEach(() => {
+      mockUserModel.findById.mockReturnValue(
+        leanQuery({ _id: USER_ID, email: "ada@example.com", name: "Ada", emailVerified: false })
+      );
+    });
+
+    it("should not accept a verification link as a reset link", async () => {
+      await service.sendVerificationEmail(USER_ID);
+
+      await expect(service.resetPassword(sentToken(), "new-password-123")).rejects.toThrow(
+        BadRequestException
+      );
+      expect(mockTokenModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should mark the email verified when it still matches the link", async () => {
+      await service.sendVerificationEmail(USER_ID);
+      mockTokenModel.findOneAndUpdate.mockResolvedValue({
+        userId: USER_ID,
+        email: "ada@example.com",
+      });
+
+      await expect(service.verifyEmail(sentToken())).resolves.toEqual({ email: "ada@example.com" });
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: USER_ID },
+        { $set: { emailVerified: true, emailVerifiedAt: expect.any(Date) } }
+      );
+    });
+
+    it("should reject a link sent to a previous address", async () => {
+      mockTokenModel.findOneAndUpdate.mockResolvedValue({
+        userId: USER_ID,
+        email: "old@example.com",
+      });
+      const token = jwtService.sign(
+        { sub: USER_ID, purpose: "email_verification" },
+        { jwtid: RECORD_ID, expiresIn: 3600, audience: ACCOUNT_TOKEN_AUDIENCE }
+      );
+
+      await expect(service.verifyEmail(token)).rejects.toThrow(BadRequestException);
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("should rate limit verification emails per address", async () => {
+      mockTokenModel.countDocuments.mockResolvedValue(3);
+
+      await expect(service.sendVerificationEmail(USER_ID)).rejects.toThrow(HttpException);
+      expect(mockEmailService.send).not.toHaveBeenCalled();
+    });
+  });
+});
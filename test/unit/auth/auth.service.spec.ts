@@ -5,6 +5,8 @@ import { AuthService } from "../../../src/auth/auth.service";
 import { User } from "../../../src/user/user.model";
 import { Plan } from "../../../src/plan/plan.model";
 import { PlanService } from "../../../src/plan/plan.service";
+import { SessionService } from "../../../src/auth/session.service";
+import { AccountTokenService } from "../../../src/auth/account-token.service";
 import { UnauthorizedException, ConflictException } from "@nestjs/common";
 
 // Mock the oauth utilities
@@ -28,6 +30,7 @@ describe("AuthService", () => {
   let mockPlanModel: any;
   let mockJwtService: any;
   let mockPlanService: any;
+  let mockSessionService: any;
 
   const mockUser = {
     _id: "507f1f77bcf86cd799439011",
@@ -70,6 +73,11 @@ describe("AuthService", () => {
       createInitialPlanFunction: jest.fn().mockResolvedValue(mockPlan),
     };
 
+    mockSessionService = {
+      revoke: jest.fn().mockResolvedValue(undefined),
+      revokeLegacyTokens: jest.fn().mockResolvedValue(undefined),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -89,6 +97,14 @@ describe("AuthService", () => {
           provide: PlanService,
           useValue: mockPlanService,
         },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
+        {
+          provide: AccountTokenService,
+          useValue: {},
+        },
       ],
     }).compile();
 
@@ -201,12 +217,25 @@ describe("AuthService", () => {
   });
 
   describe("logout", () => {
-    it("should return success message", async () => {
-      const result = await service.logout();
+    it("should end the token's session", async () => {
+      const result = await service.logout(mockUser._id, "session123");
 
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(
+        mockUser._id,
+        "session123",
+        "logout",
+      );
       expect(result.status).toBe("success");
       expect(result.message).toBe("Logged out successfully");
     });
+
+    it("should end legacy tokens when the token has no session", async () => {
+      const result = await service.logout(mockUser._id);
+
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+      expect(mockSessionService.revokeLegacyTokens).toHaveBeenCalledWith(mockUser._id);
+      expect(result.status).toBe("success");
+    });
   });
 
   describe("getUser", () => {
@@ -0,0 +1,199 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { Types } from "mongoose";
+import { DelegationService } from "../../../src/auth/delegation.service";
+import { Delegation } from "../../../src/auth/delegation.model";
+import { SecurityEventService } from "../../../src/auth/security-event.service";
+import { User } from "../../../src/user/user.model";
+import { EventBus } from "../../../src/events/event-bus";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const COACH_ID = "507f1f77bcf86cd799439022";
+const DELEGATION_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+describe("DelegationService", () => {
+  let service: DelegationService;
+  let mockDelegationModel: any;
+  let mockUserModel: any;
+  let mockSecurityEventService: any;
+  let mockEventBus: any;
+
+  const delegationDoc = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(DELEGATION_ID),
+    ownerId: new Types.ObjectId(OWNER_ID),
+    delegateId: new Types.ObjectId(COACH_ID),
+    scopes: [
+      { area: "progress", access: "read" },
+      { area: "plan", access: "write" },
+    ],
+    status: "active",
+    lastUsedAt: new Date(),
+    ...overrides,
+  });
+
+  const givenDelegation = (delegation: any) => {
+    mockDelegationModel.findOne.mockReturnValue({
+      lean: jest.fn().mockResolvedValue(delegation),
+    });
+  };
+
+  beforeEach(async () => {
+    mockDelegationModel = {
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockUserModel = { findOne: jest.fn() };
+    mockSecurityEventService = { record: jest.fn().mockResolvedValue(undefined) };
+    mockEventBus = { publish: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DelegationService,
+        { provide: getModelToken(Delegation.name), useValue: mockDelegationModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: SecurityEventService, useValue: mockSecurityEventService },
+        { provide: EventBus, useValue: mockEventBus },
+      ],
+    }).compile();
+
+    service = module.get(DelegationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("grant", () => {
+    it("should upsert one scope per area for the user with that email", async () => {
+      mockUserModel.findOne.mockReturnValue({
+        select: () => ({ lean: jest.fn().mockResolvedValue({ _id: COACH_ID }) }),
+      });
+      const saved = delegationDoc();
+      mockDelegationModel.findOneAndUpdate.mockResolvedValue({ ...saved, toObject: () => saved });
+
+      const result = await service.grant(OWNER_ID, {
+        delegateEmail: "coach@example.com",
+        scopes: [
+          { area: "plan", access: "read" },
+          { area: "progress", access: "read" },
+          { area: "plan", access: "write" },
+        ],
+      });
+
+      const [filter, update, options] = mockDelegationModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ ownerId: OWNER_ID, delegateId: COACH_ID, status: "active" });
+      expect(update.$set.scopes).toEqual([
+        { area: "plan", access: "write" },
+        { area: "progress", access: "read" },
+      ]);
+      expect(options).toMatchObject({ upsert: true });
+      expect(result.delegate).toEqual({ id: COACH_ID });
+      expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "delegation_granted", actorId: OWNER_ID })
+      );
+    });
+
+    it("should reject unknown emails and delegating to yourself", async () => {
+      mockUserModel.findOne.mockReturnValue({
+        select: () => ({ lean: jest.fn().mockResolvedValue(null) }),
+      });
+      await expect(
+        service.grant(OWNER_ID, {
+          delegateEmail: "nobody@example.com",
+          scopes: [{ area: "plan", access: "read" }],
+        })
+      ).rejects.toThrow(NotFoundException);
+
+      await expect(
+        service.grantTo(OWNER_ID, OWNER_ID, [{ area: "plan", access: "read" }])
+      ).rejects.toThrow(BadRequestException);
+      expect(mockDelegationModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("check", () => {
+    it("should treat write as including read, per area", async () => {
+      givenDelegation(delegationDoc());
+
+      await expect(service.check(OWNER_ID, COACH_ID, "plan", "read")).resolves.toEqual({
+        allowed: true,
+        delegationId: DELEGATION_ID,
+      });
+      await expect(service.check(OWNER_ID, COACH_ID, "progress", "write")).resolves.toMatchObject({
+        allowed: false,
+        reason: "insufficient_scope",
+      });
+      await expect(service.check(OWNER_ID, COACH_ID, "chat", "read")).resolves.toMatchObject({
+        allowed: false,
+        reason: "insufficient_scope",
+      });
+    });
+
+    it("should refuse expired and missing delegations", async () => {
+      givenDelegation(delegationDoc({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(service.check(OWNER_ID, COACH_ID, "plan", "read")).resolves.toMatchObject({
+        allowed: false,
+        reason: "expired",
+      });
+
+      givenDelegation(null);
+      await expect(service.check(OWNER_ID, COACH_ID, "plan", "read")).resolves.toEqual({
+        allowed: false,
+        reason: "no_delegation",
+      });
+    });
+
+    it("should only refresh lastUsedAt once it is stale", async () => {
+      givenDelegation(delegationDoc());
+      await service.check(OWNER_ID, COACH_ID, "plan", "read");
+      expect(mockDelegationModel.updateOne).not.toHaveBeenCalled();
+
+      givenDelegation(delegationDoc({ lastUsedAt: new Date(Date.now() - 2 * 60 * 60 * 1000) }));
+      await service.check(OWNER_ID, COACH_ID, "plan", "read");
+      expect(mockDelegationModel.updateOne).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("revoke", () => {
+    it("should let either side end the delegation and record it", async () => {
+      const revoked = delegationDoc({ status: "revoked", revokedAt: new Date() });
+      mockDelegationModel.findOneAndUpdate.mockResolvedValue({
+        ...revoked,
+        toObject: () => revoked,
+      });
+
+      const result = await service.revoke(DELEGATION_ID, COACH_ID);
+
+      expect(mockDelegationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: DELEGATION_ID,
+          status: "active",
+          $or: [{ ownerId: COACH_ID }, { delegateId: COACH_ID }],
+        },
+        expect.objectContaining({ $set: expect.objectContaining({ status: "revoked" }) }),
+        { new: true }
+      );
+      expect(result.status).toBe("revoked");
+      expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "delegation_revoked", actorId: COACH_ID, ownerId: OWNER_ID })
+      );
+      expect(mockEventBus.publish).toHaveBeenCalledWith("auth.delegation_revoked", {
+        delegationId: DELEGATION_ID,
+        ownerId: OWNER_ID,
+        delegateId: COACH_ID,
+        revokedBy: COACH_ID,
+      });
+    });
+
+    it("should 404 for delegations the user is not part of", async () => {
+      mockDelegationModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(service.revoke(DELEGATION_ID, "507f1f77bcf86cd799439033")).rejects.toThrow(
+        NotFoundException
+      );
+      expect(mockSecurityEventService.record).not.toHaveBeenCalled();
+    });
+  });
+});
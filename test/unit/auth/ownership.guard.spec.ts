@@ -0,0 +1,111 @@
+import { ExecutionContext, ForbiddenException, NotFoundException } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { OwnershipGuard, OwnedResource } from "../../../src/auth/guards/ownership.guard";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const COACH_ID = "507f1f77bcf86cd799439022";
+const PLAN_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+@OwnedResource({ area: "plan", userParam: "userId", planParam: "planId" })
+class PlanRoutes {
+  handle() {}
+}
+
+describe("OwnershipGuard", () => {
+  let guard: OwnershipGuard;
+  let mockResourceOwnerService: any;
+  let mockDelegationService: any;
+  let mockSecurityEventService: any;
+
+  const contextFor = (request: any): ExecutionContext =>
+    ({
+      getHandler: () => PlanRoutes.prototype.handle,
+      getClass: () => PlanRoutes,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const request = (actorId: string, method: string, params: Record<string, string>) => ({
+    user: { _id: actorId },
+    method,
+    params,
+    originalUrl: "/api/plan/x",
+    headers: {},
+  });
+
+  beforeEach(() => {
+    mockResourceOwnerService = { findOwnerId: jest.fn().mockResolvedValue(OWNER_ID) };
+    mockDelegationService = {
+      check: jest.fn().mockResolvedValue({ allowed: false, reason: "no_delegation" }),
+    };
+    mockSecurityEventService = { record: jest.fn().mockResolvedValue(undefined) };
+    guard = new OwnershipGuard(
+      new Reflector(),
+      mockResourceOwnerService,
+      mockDelegationService,
+      mockSecurityEventService
+    );
+  });
+
+  it("should let owners through without looking for a delegation", async () => {
+    await expect(
+      guard.canActivate(contextFor(request(OWNER_ID, "PUT", { userId: "me", planId: PLAN_ID })))
+    ).resolves.toBe(true);
+
+    expect(mockResourceOwnerService.findOwnerId).toHaveBeenCalledWith("plan", PLAN_ID);
+    expect(mockDelegationService.check).not.toHaveBeenCalled();
+  });
+
+  it("should refuse another user's data and record a security event", async () => {
+    await expect(
+      guard.canActivate(contextFor(request(COACH_ID, "GET", { userId: OWNER_ID })))
+    ).rejects.toThrow(ForbiddenException);
+
+    expect(mockDelegationService.check).toHaveBeenCalledWith(OWNER_ID, COACH_ID, "plan", "read");
+    expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "access_denied",
+        actorId: COACH_ID,
+        ownerId: OWNER_ID,
+        area: "plan",
+        access: "read",
+        reason: "no_delegation",
+        resourceType: "user",
+        method: "GET",
+      })
+    );
+  });
+
+  it("should honor delegations at the access level of the method", async () => {
+    mockDelegationService.check.mockResolvedValue({ allowed: true, delegationId: "d1" });
+    const req: any = request(COACH_ID, "POST", { userId: OWNER_ID, planId: PLAN_ID });
+
+    await expect(guard.canActivate(contextFor(req))).resolves.toBe(true);
+
+    expect(mockDelegationService.check).toHaveBeenCalledWith(OWNER_ID, COACH_ID, "plan", "write");
+    expect(req.delegation).toEqual({ id: "d1", ownerId: OWNER_ID, area: "plan", access: "write" });
+    expect(mockSecurityEventService.record).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a plan that belongs to someone else than the user in the path", async () => {
+    mockResourceOwnerService.findOwnerId.mockResolvedValue(COACH_ID);
+
+    await expect(
+      guard.canActivate(contextFor(request(OWNER_ID, "PUT", { userId: "me", planId: PLAN_ID })))
+    ).rejects.toThrow(ForbiddenException);
+
+    expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "resource_mismatch", resourceType: "plan" })
+    );
+  });
+
+  it("should 404 on malformed user IDs and skip routes without owned params", async () => {
+    await expect(
+      guard.canActivate(contextFor(request(OWNER_ID, "GET", { userId: "not-an-id" })))
+    ).rejects.toThrow(NotFoundException);
+
+    await expect(
+      guard.canActivate(contextFor(request(OWNER_ID, "GET", { weekStart: "2026-10-12" })))
+    ).resolves.toBe(true);
+    expect(mockSecurityEventService.record).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { ConfigService } from "@nestjs/config";
+import { UnauthorizedException } from "@nestjs/common";
+import { createHash } from "crypto";
+import { SessionService, isLegacyTokenRevoked } from "../../../src/auth/session.service";
+import { Session } from "../../../src/auth/session.model";
+import { User } from "../../../src/user/user.model";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const SESSION_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+describe("SessionService", () => {
+  let service: SessionService;
+  let jwtService: JwtService;
+  let mockSessionModel: any;
+  let mockUserModel: any;
+
+  const givenStoredSession = (session: any) => {
+    mockSessionModel.findById.mockReturnValue({ lean: jest.fn().mockResolvedValue(session) });
+  };
+
+  const givenActiveSessions = (sessions: any[]) => {
+    mockSessionModel.find.mockReturnValue({
+      select: () => ({ lean: jest.fn().mockResolvedValue(sessions) }),
+    });
+  };
+
+  beforeEach(async () => {
+    mockSessionModel = {
+      create: jest.fn().mockResolvedValue({}),
+      findOneAndUpdate: jest.fn(),
+      findById: jest.fn(),
+      find: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockUserModel = {
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getModelToken(Session.name), useValue: mockSessionModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: JwtService, useValue: new JwtService({ secret: "test-secret" }) },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(SessionService);
+    jwtService = module.get(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should store only a hash of the refresh token and put the session in the access token", async () => {
+    const tokens = await service.createSession(USER_ID, { userAgent: "Habeat/2.1 iOS" });
+
+    const [sessionId, secret] = tokens.refreshToken.split(".");
+    const stored = mockSessionModel.create.mock.calls[0][0];
+    expect(stored._id.toString()).toBe(sessionId);
+    expect(stored.refreshTokenHash).toBe(sha256(secret));
+    expect(JSON.stringify(stored)).not.toContain(secret);
+    expect(stored.userAgent).toBe("Habeat/2.1 iOS");
+
+    const payload = jwtService.verify(tokens.token);
+    expect(payload).toMatchObject({ id: USER_ID, sid: sessionId });
+    expect(payload.exp - payload.iat).toBe(15 * 60);
+    expect(tokens.expiresIn).toBe(15 * 60);
+  });
+
+  it("should rotate the refresh token on refresh", async () => {
+    mockSessionModel.findOneAndUpdate.mockResolvedValue({ _id: SESSION_ID, userId: USER_ID });
+
+    const tokens = await service.refresh(`${SESSION_ID}.old-secret`);
+
+    const [filter, update] = mockSessionModel.findOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({ _id: SESSION_ID, refreshTokenHash: sha256("old-secret"), revokedAt: null });
+    expect(update.$push.previousTokenHashes.$each).toEqual([sha256("old-secret")]);
+
+    const [sessionId, nextSecret] = tokens.refreshToken.split(".");
+    expect(sessionId).toBe(SESSION_ID);
+    expect(nextSecret).not.toBe("old-secret");
+    expect(update.$set.refreshTokenHash).toBe(sha256(nextSecret));
+    expect(jwtService.verify(tokens.token).sid).toBe(SESSION_ID);
+  });
+
+  it("should revoke the session and its push tokens when an old refresh token is reused", async () => {
+    mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+    givenStoredSession({
+      _id: SESSION_ID,
+      userId: USER_ID,
+      previousTokenHashes: [sha256("stolen-secret")],
+    });
+    givenActiveSessions([{ _id: SESSION_ID, userId: USER_ID, deviceTokens: ["fcm-token-1"] }]);
+
+    await expect(service.refresh(`${SESSION_ID}.stolen-secret`)).rejects.toThrow(UnauthorizedException);
+
+    expect(mockSessionModel.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: [SESSION_ID] }, revokedAt: null },
+      { $set: { revokedAt: expect.any(Date), revokedReason: "reuse_detected" } }
+    );
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $pull: { deviceTokens: { $in: ["fcm-token-1"] } } }
+    );
+  });
+
+  it("should reject an unknown refresh token without revoking anything", async () => {
+    mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+    givenStoredSession({ _id: SESSION_ID, userId: USER_ID, previousTokenHashes: [] });
+
+    await expect(service.refresh(`${SESSION_ID}.guess`)).rejects.toThrow(UnauthorizedException);
+    await expect(service.refresh("not-a-token")).rejects.toThrow(UnauthorizedException);
+    expect(mockSessionModel.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should keep the current session when revoking all others", async () => {
+    givenActiveSessions([{ _id: "other-session", userId: USER_ID, deviceTokens: [] }]);
+
+    const result = await service.revokeAll(USER_ID, SESSION_ID);
+
+    expect(result).toEqual({ revoked: 1 });
+    expect(mockSessionModel.find).toHaveBeenCalledWith({
+      userId: USER_ID,
+      _id: { $ne: SESSION_ID },
+      revokedAt: null,
+    });
+    // No device tokens to pull; only legacy tokens are ended on the user
+    expect(mockUserModel.updateOne).toHaveBeenCalledTimes(1);
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $set: { tokensValidAfter: expect.any(Date) } }
+    );
+  });
+
+  it("should reject legacy tokens issued before the last sign-out everywhere", () => {
+    const revokedAt = new Date("2026-10-18T12:00:00Z");
+    const iat = (date: string) => Math.floor(new Date(date).getTime() / 1000);
+
+    expect(isLegacyTokenRevoked({}, { iat: iat("2026-10-01T00:00:00Z") })).toBe(false);
+    expect(
+      isLegacyTokenRevoked({ tokensValidAfter: revokedAt }, { iat: iat("2026-10-01T00:00:00Z") })
+    ).toBe(true);
+    expect(
+      isLegacyTokenRevoked({ tokensValidAfter: revokedAt }, { iat: iat("2026-10-18T12:00:05Z") })
+    ).toBe(false);
+    expect(isLegacyTokenRevoked({ tokensValidAfter: revokedAt }, {})).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for coach dashboard adherence math
+ * Tests:
+ * - Meal completion and calorie target days over a date range
+ * - Days without progress
+ * - Mood trend from week and month averages
+ */
+import { getMoodTrend, summarizeAdherence } from "../../../src/utils/coachAdherence";
+
+const meal = (done: boolean) => ({ done });
+
+describe("Coach Adherence", () => {
+  describe("summarizeAdherence", () => {
+    it("should count planned and completed meals including snacks", () => {
+      const summary = summarizeAdherence(
+        ["2025-01-01", "2025-01-02"],
+        [
+          {
+            dateKey: "2025-01-01",
+            caloriesConsumed: 1950,
+            caloriesGoal: 2000,
+            meals: {
+              breakfast: meal(true),
+              lunch: meal(true),
+              dinner: meal(false),
+              snacks: [meal(true)],
+            },
+          },
+          {
+            dateKey: "2025-01-02",
+            caloriesConsumed: 1500,
+            caloriesGoal: 2000,
+            meals: { breakfast: meal(true), lunch: meal(false), dinner: meal(false), snacks: [] },
+          },
+        ]
+      );
+
+      expect(summary).toMatchObject({
+        days: 2,
+        daysLogged: 2,
+        mealsPlanned: 7,
+        mealsCompleted: 4,
+        completionRate: 57,
+        daysOnCalorieTarget: 1,
+        averageCalories: 1725,
+        averageCalorieGoal: 2000,
+      });
+      expect(summary.daily.map((day) => day.onCalorieTarget)).toEqual([true, false]);
+    });
+
+    it("should list days without progress as not logged and leave them out of averages", () => {
+      const summary = summarizeAdherence(
+        ["2025-01-01", "2025-01-02", "2025-01-03"],
+        [
+          {
+            dateKey: "2025-01-02",
+            caloriesConsumed: 2100,
+            caloriesGoal: 2000,
+            meals: { breakfast: meal(true), lunch: null, dinner: meal(true) },
+          },
+        ]
+      );
+
+      expect(summary.daily.map((day) => day.logged)).toEqual([false, true, false]);
+      expect(summary).toMatchObject({
+        days: 3,
+        daysLogged: 1,
+        mealsPlanned: 2,
+        completionRate: 100,
+        daysOnCalorieTarget: 1,
+        averageCalories: 2100,
+      });
+    });
+
+    it("should report zeros when nothing was logged", () => {
+      const summary = summarizeAdherence(["2025-01-01"], []);
+      expect(summary).toMatchObject({ daysLogged: 0, completionRate: 0, averageCalories: 0 });
+    });
+
+    it("should never count a day without a calorie goal as on target", () => {
+      const summary = summarizeAdherence(
+        ["2025-01-01"],
+        [{ dateKey: "2025-01-01", caloriesConsumed: 0, caloriesGoal: 0 }]
+      );
+      expect(summary.daysOnCalorieTarget).toBe(0);
+    });
+  });
+
+  describe("getMoodTrend", () => {
+    it("should compare the week's average with the month's", () => {
+      const month = { totalMoodEntries: 20, averageMoodLevel: 6 };
+      expect(getMoodTrend({ totalMoodEntries: 5, averageMoodLevel: 6.5 }, month)).toBe("improving");
+      expect(getMoodTrend({ totalMoodEntries: 5, averageMoodLevel: 5.4 }, month)).toBe("declining");
+      expect(getMoodTrend({ totalMoodEntries: 5, averageMoodLevel: 6.3 }, month)).toBe("steady");
+    });
+
+    it("should need entries in both periods", () => {
+      expect(
+        getMoodTrend(
+          { totalMoodEntries: 0, averageMoodLevel: 0 },
+          { totalMoodEntries: 3, averageMoodLevel: 7 }
+        )
+      ).toBe("insufficient_data");
+    });
+  });
+});
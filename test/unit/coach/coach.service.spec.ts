@@ -0,0 +1,196 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { Types } from "mongoose";
+import { CoachService, COACH_DELEGATION_SCOPES } from "../../../src/coach/coach.service";
+import { CoachClient } from "../../../src/coach/coach-client.model";
+import { CoachInvite } from "../../../src/coach/coach-invite.model";
+import { CoachNote } from "../../../src/coach/coach-note.model";
+import { PlanEditProposal } from "../../../src/coach/plan-edit-proposal.model";
+import { User } from "../../../src/user/user.model";
+import { DelegationService } from "../../../src/auth/delegation.service";
+import { EventBus } from "../../../src/events/event-bus";
+
+const COACH_ID = "507f1f77bcf86cd799439022";
+const CLIENT_ID = "507f1f77bcf86cd799439011";
+const INVITE_ID = "652f1c2e9b1e8a3d4c5b6a70";
+const DELEGATION_ID = "652f1c2e9b1e8a3d4c5b6a79";
+const ENTRY_ID = "652f1c2e9b1e8a3d4c5b6a7a";
+
+describe("CoachService", () => {
+  let service: CoachService;
+  let mockCoachClientModel: any;
+  let mockInviteModel: any;
+  let mockNoteModel: any;
+  let mockProposalModel: any;
+  let mockUserModel: any;
+  let mockDelegationService: any;
+  let mockEventBus: any;
+
+  const lean = (value: any) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+  const inviteDoc = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(INVITE_ID),
+    coachId: new Types.ObjectId(COACH_ID),
+    code: "K7QX2MPA",
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  });
+
+  const rosterEntry = () => ({
+    _id: new Types.ObjectId(ENTRY_ID),
+    coachId: new Types.ObjectId(COACH_ID),
+    clientId: new Types.ObjectId(CLIENT_ID),
+    delegationId: new Types.ObjectId(DELEGATION_ID),
+    status: "active",
+  });
+
+  const givenCoach = (coach: any) => {
+    mockUserModel.findById.mockReturnValue({ select: () => lean(coach) });
+  };
+
+  beforeEach(async () => {
+    mockCoachClientModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async (doc: any) => ({ _id: new Types.ObjectId(ENTRY_ID), createdAt: new Date(), ...doc })),
+      findOne: jest.fn(),
+      find: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockInviteModel = {
+      findOne: jest.fn().mockReturnValue(lean(inviteDoc())),
+      findOneAndUpdate: jest.fn().mockResolvedValue(inviteDoc()),
+    };
+    mockNoteModel = {};
+    mockProposalModel = { updateMany: jest.fn().mockResolvedValue({ modifiedCount: 1 }) };
+    mockUserModel = { findById: jest.fn() };
+    mockDelegationService = {
+      grantTo: jest.fn().mockResolvedValue({ id: DELEGATION_ID, scopes: COACH_DELEGATION_SCOPES }),
+      revoke: jest.fn().mockResolvedValue({ id: DELEGATION_ID }),
+    };
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CoachService,
+        { provide: getModelToken(CoachClient.name), useValue: mockCoachClientModel },
+        { provide: getModelToken(CoachInvite.name), useValue: mockInviteModel },
+        { provide: getModelToken(CoachNote.name), useValue: mockNoteModel },
+        { provide: getModelToken(PlanEditProposal.name), useValue: mockProposalModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: DelegationService, useValue: mockDelegationService },
+        { provide: EventBus, useValue: mockEventBus },
+      ],
+    }).compile();
+
+    service = module.get(CoachService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("acceptInvite", () => {
+    it("should claim the code, grant the coach read access and add the client to the roster", async () => {
+      givenCoach({ _id: COACH_ID, name: "Maria", role: "coach" });
+
+      const result = await service.acceptInvite(CLIENT_ID, " k7qx2mpa ");
+
+      expect(mockInviteModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "K7QX2MPA", acceptedBy: null })
+      );
+      expect(mockInviteModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(INVITE_ID), acceptedBy: null },
+        expect.anything()
+      );
+      expect(mockDelegationService.grantTo).toHaveBeenCalledWith(
+        CLIENT_ID,
+        COACH_ID,
+        COACH_DELEGATION_SCOPES,
+        { label: "Coach Maria" }
+      );
+      expect(COACH_DELEGATION_SCOPES.every((scope) => scope.access === "read")).toBe(true);
+      expect(mockCoachClientModel.create.mock.calls[0][0].delegationId.toString()).toBe(DELEGATION_ID);
+      expect(mockEventBus.publish).toHaveBeenCalledWith("coach.client_joined", {
+        coachId: COACH_ID,
+        clientId: CLIENT_ID,
+      });
+      expect(result.coach).toEqual({ id: COACH_ID, name: "Maria" });
+    });
+
+    it("should not let coaches accept their own invite", async () => {
+      await expect(service.acceptInvite(COACH_ID, "K7QX2MPA")).rejects.toThrow(BadRequestException);
+      expect(mockDelegationService.grantTo).not.toHaveBeenCalled();
+    });
+
+    it("should refuse invites from users who are no longer coaches", async () => {
+      givenCoach({ _id: COACH_ID, name: "Maria", role: "user" });
+
+      await expect(service.acceptInvite(CLIENT_ID, "K7QX2MPA")).rejects.toThrow(NotFoundException);
+      expect(mockInviteModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should grant nothing when another request claimed the code first", async () => {
+      givenCoach({ _id: COACH_ID, name: "Maria", role: "coach" });
+      mockInviteModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(service.acceptInvite(CLIENT_ID, "K7QX2MPA")).rejects.toThrow(NotFoundException);
+      expect(mockDelegationService.grantTo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removeClient", () => {
+    it("should end the roster entry, revoke access and withdraw pending proposals", async () => {
+      mockCoachClientModel.findOne.mockReturnValue(lean(rosterEntry()));
+
+      await expect(service.removeClient(COACH_ID, CLIENT_ID)).resolves.toEqual({ ended: true });
+
+      expect(mockCoachClientModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(ENTRY_ID), status: "active" },
+        { $set: expect.objectContaining({ status: "ended" }) }
+      );
+      expect(mockDelegationService.revoke).toHaveBeenCalledWith(DELEGATION_ID, COACH_ID);
+      expect(mockProposalModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "pending" }),
+        { $set: expect.objectContaining({ status: "withdrawn" }) }
+      );
+    });
+
+    it("should still end the entry when the delegation was already revoked", async () => {
+      mockCoachClientModel.findOne.mockReturnValue(lean(rosterEntry()));
+      mockDelegationService.revoke.mockRejectedValue(new NotFoundException("Delegation not found"));
+
+      await expect(service.removeClient(COACH_ID, CLIENT_ID)).resolves.toEqual({ ended: true });
+      expect(mockProposalModel.updateMany).toHaveBeenCalled();
+    });
+
+    it("should 404 for users who are not on the roster", async () => {
+      mockCoachClientModel.findOne.mockReturnValue(lean(null));
+
+      await expect(service.removeClient(COACH_ID, CLIENT_ID)).rejects.toThrow(NotFoundException);
+      expect(mockDelegationService.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("on auth.delegation_revoked", () => {
+    it("should take the client off the roster when the owner revokes the coach's access", async () => {
+      service.onModuleInit();
+      const [event, , handler] = mockEventBus.subscribe.mock.calls[0];
+      expect(event).toBe("auth.delegation_revoked");
+      mockCoachClientModel.find.mockReturnValue(lean([rosterEntry()]));
+
+      await handler({ delegationId: DELEGATION_ID, ownerId: CLIENT_ID, delegateId: COACH_ID, revokedBy: CLIENT_ID });
+
+      expect(mockCoachClientModel.find).toHaveBeenCalledWith({ delegationId: DELEGATION_ID, status: "active" });
+      expect(mockCoachClientModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(ENTRY_ID), status: "active" },
+        { $set: expect.objectContaining({ status: "ended" }) }
+      );
+      expect(mockProposalModel.updateMany).toHaveBeenCalled();
+      expect(mockDelegationService.revoke).not.toHaveBeenCalled();
+    });
+  });
+});
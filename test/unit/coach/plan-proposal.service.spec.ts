@@ -0,0 +1,143 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { ConflictException, NotFoundException } from "@nestjs/common";
+import { Types } from "mongoose";
+import { PlanProposalService } from "../../../src/coach/plan-proposal.service";
+import { PlanEditProposal } from "../../../src/coach/plan-edit-proposal.model";
+import { Plan } from "../../../src/plan/plan.model";
+import { PlanService } from "../../../src/plan/plan.service";
+import { CoachService } from "../../../src/coach/coach.service";
+import { EventBus } from "../../../src/events/event-bus";
+
+const COACH_ID = "507f1f77bcf86cd799439022";
+const CLIENT_ID = "507f1f77bcf86cd799439011";
+const PLAN_ID = "652f1c2e9b1e8a3d4c5b6a71";
+const PROPOSAL_ID = "652f1c2e9b1e8a3d4c5b6a72";
+
+describe("PlanProposalService", () => {
+  let service: PlanProposalService;
+  let mockProposalModel: any;
+  let mockPlanModel: any;
+  let mockPlanService: any;
+  let mockCoachService: any;
+  let mockEventBus: any;
+
+  const meal = { name: "Lentil Salad", calories: 520 };
+  const proposalDoc = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(PROPOSAL_ID),
+    coachId: new Types.ObjectId(COACH_ID),
+    clientId: new Types.ObjectId(CLIENT_ID),
+    planId: new Types.ObjectId(PLAN_ID),
+    date: "2025-01-15",
+    mealType: "lunch",
+    meal,
+    status: "pending",
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockProposalModel = {
+      create: jest.fn(async (doc: any) => {
+        const saved = { _id: new Types.ObjectId(PROPOSAL_ID), status: "pending", ...doc };
+        return { ...saved, toObject: () => saved };
+      }),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    mockPlanModel = {
+      findOne: jest.fn().mockReturnValue({
+        select: () => ({ lean: jest.fn().mockResolvedValue({ _id: new Types.ObjectId(PLAN_ID) }) }),
+      }),
+      exists: jest.fn().mockResolvedValue({ _id: PLAN_ID }),
+    };
+    mockPlanService = { replaceMeal: jest.fn().mockResolvedValue({ _id: PLAN_ID }) };
+    mockCoachService = { getActiveClient: jest.fn().mockResolvedValue({}) };
+    mockEventBus = { publish: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlanProposalService,
+        { provide: getModelToken(PlanEditProposal.name), useValue: mockProposalModel },
+        { provide: getModelToken(Plan.name), useValue: mockPlanModel },
+        { provide: PlanService, useValue: mockPlanService },
+        { provide: CoachService, useValue: mockCoachService },
+        { provide: EventBus, useValue: mockEventBus },
+      ],
+    }).compile();
+
+    service = module.get(PlanProposalService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const givenDecided = (proposal: any) => {
+    mockProposalModel.findOneAndUpdate.mockReturnValue({
+      lean: jest.fn().mockResolvedValue(proposal),
+    });
+  };
+
+  it("should store a proposal for the client's current plan without changing it", async () => {
+    const result = await service.propose(COACH_ID, CLIENT_ID, {
+      date: "2025-01-15",
+      mealType: "lunch",
+      newMeal: meal,
+      note: "More fibre",
+    });
+
+    expect(mockCoachService.getActiveClient).toHaveBeenCalledWith(COACH_ID, CLIENT_ID);
+    expect(result).toMatchObject({ planId: PLAN_ID, status: "pending", note: "More fibre" });
+    expect(mockPlanService.replaceMeal).not.toHaveBeenCalled();
+    expect(mockEventBus.publish).toHaveBeenCalledWith(
+      "coach.plan_edit_proposed",
+      expect.objectContaining({ clientId: CLIENT_ID, mealName: "Lentil Salad" })
+    );
+  });
+
+  it("should apply an accepted proposal to the client's plan", async () => {
+    givenDecided(proposalDoc({ status: "accepted" }));
+
+    const result = await service.accept(CLIENT_ID, PROPOSAL_ID);
+
+    expect(mockProposalModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: PROPOSAL_ID, clientId: CLIENT_ID, status: "pending" },
+      { $set: expect.objectContaining({ status: "accepted" }) },
+      { new: true }
+    );
+    expect(mockPlanService.replaceMeal).toHaveBeenCalledWith(
+      CLIENT_ID,
+      PLAN_ID,
+      "2025-01-15",
+      "lunch",
+      meal,
+      undefined
+    );
+    expect(result.proposal.status).toBe("accepted");
+    expect(mockEventBus.publish).toHaveBeenCalledWith(
+      "coach.plan_edit_decided",
+      expect.objectContaining({ decision: "accepted", coachId: COACH_ID })
+    );
+  });
+
+  it("should mark the proposal failed when the plan has been replaced", async () => {
+    givenDecided(proposalDoc({ status: "accepted" }));
+    mockPlanModel.exists.mockResolvedValue(null);
+
+    await expect(service.accept(CLIENT_ID, PROPOSAL_ID)).rejects.toThrow(ConflictException);
+
+    expect(mockPlanService.replaceMeal).not.toHaveBeenCalled();
+    expect(mockProposalModel.updateOne).toHaveBeenCalledWith(
+      { _id: new Types.ObjectId(PROPOSAL_ID) },
+      { $set: expect.objectContaining({ status: "failed" }) }
+    );
+    expect(mockEventBus.publish).not.toHaveBeenCalled();
+  });
+
+  it("should 404 for proposals that were already answered", async () => {
+    givenDecided(null);
+
+    await expect(service.reject(CLIENT_ID, PROPOSAL_ID)).rejects.toThrow(NotFoundException);
+    expect(mockEventBus.publish).not.toHaveBeenCalled();
+  });
+});
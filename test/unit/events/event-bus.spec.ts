@@ -0,0 +1,191 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { EventBus } from "../../../src/events/event-bus";
+import { OutboxEvent } from "../../../src/events/event-outbox.model";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const OUTBOX_ID = "607f1f77bcf86cd799439099";
+
+// Let the bus run its subscribers (they start on setImmediate)
+const flushEvents = () => new Promise((resolve) => setImmediate(() => setImmediate(resolve)));
+
+const mealCompleted = {
+  userId: USER_ID,
+  mealId: "meal-1",
+  mealName: "Oatmeal",
+  mealType: "breakfast" as const,
+  dateKey: "2026-10-18",
+  isBalanced: true,
+  proteinGoalReached: false,
+};
+
+describe("EventBus", () => {
+  let eventBus: EventBus;
+  let mockOutboxModel: any;
+
+  // The $set applied to a subscriber's delivery
+  const deliveryUpdate = (subscriber: string) =>
+    mockOutboxModel.updateOne.mock.calls.find(
+      ([filter]: any[]) => filter["deliveries.subscriber"] === subscriber
+    )?.[1].$set;
+
+  beforeEach(async () => {
+    mockOutboxModel = {
+      create: jest.fn().mockResolvedValue({ _id: OUTBOX_ID }),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      find: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventBus,
+        { provide: getModelToken(OutboxEvent.name), useValue: mockOutboxModel },
+        {
+          provide: JobSchedulerService,
+          useValue: { registerHandler: jest.fn(), scheduleRecurring: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    eventBus = module.get(EventBus);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should store the event with one delivery per subscriber before handling it", async () => {
+    const challenges = jest.fn();
+    eventBus.subscribe("progress.meal_completed", "ChallengeService", challenges);
+    eventBus.subscribe("progress.meal_completed", "UserService", jest.fn());
+
+    await eventBus.publish("progress.meal_completed", mealCompleted);
+
+    expect(mockOutboxModel.create).toHaveBeenCalledWith({
+      event: "progress.meal_completed",
+      payload: mealCompleted,
+      deliveries: [{ subscriber: "ChallengeService" }, { subscriber: "UserService" }],
+    });
+    // Handlers run after the publishing request continues
+    expect(challenges).not.toHaveBeenCalled();
+
+    await flushEvents();
+    expect(challenges).toHaveBeenCalledWith(mealCompleted);
+    expect(deliveryUpdate("ChallengeService")).toMatchObject({
+      "deliveries.$.status": "succeeded",
+      "deliveries.$.attempts": 1,
+    });
+  });
+
+  it("should isolate a failing subscriber and schedule its retry", async () => {
+    const healthy = jest.fn();
+    eventBus.subscribe("progress.water_logged", "ChallengeService", () => {
+      throw new Error("db down");
+    });
+    eventBus.subscribe("progress.water_logged", "Other", healthy);
+
+    const before = Date.now();
+    await eventBus.publish("progress.water_logged", {
+      userId: USER_ID,
+      glasses: 8,
+      goal: 8,
+      goalReached: true,
+    });
+    await flushEvents();
+
+    expect(healthy).toHaveBeenCalled();
+    const failed = deliveryUpdate("ChallengeService");
+    expect(failed["deliveries.$.status"]).toBe("failed");
+    expect(failed["deliveries.$.lastError"]).toBe("db down");
+    expect(failed["deliveries.$.nextAttemptAt"].getTime() - before).toBeGreaterThanOrEqual(30000);
+  });
+
+  it("should still deliver in-process when the outbox is unavailable", async () => {
+    const handler = jest.fn();
+    eventBus.subscribe("cbt.thought_logged", "ChallengeService", handler);
+    mockOutboxModel.create.mockRejectedValueOnce(new Error("not primary"));
+
+    await expect(eventBus.publish("cbt.thought_logged", { userId: USER_ID })).resolves.toBeUndefined();
+    await flushEvents();
+
+    expect(handler).toHaveBeenCalled();
+    expect(mockOutboxModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should reject two subscribers with the same name for one event", () => {
+    eventBus.subscribe("cbt.mood_logged", "ChallengeService", jest.fn());
+    expect(() => eventBus.subscribe("cbt.mood_logged", "ChallengeService", jest.fn())).toThrow(
+      /already subscribed/
+    );
+  });
+
+  describe("retryPendingDeliveries", () => {
+    const now = new Date("2026-10-18T12:00:00Z");
+
+    const givenOutbox = (deliveries: any[], createdAt = new Date("2026-10-18T11:58:00Z")) => {
+      mockOutboxModel.find.mockReturnValue({
+        sort: () => ({
+          limit: () => ({
+            lean: () =>
+              Promise.resolve([
+                {
+                  _id: OUTBOX_ID,
+                  event: "progress.meal_completed",
+                  payload: mealCompleted,
+                  createdAt,
+                  deliveries,
+                },
+              ]),
+          }),
+        }),
+      });
+    };
+
+    it("should retry only the deliveries that are due", async () => {
+      const challenges = jest.fn();
+      const users = jest.fn();
+      eventBus.subscribe("progress.meal_completed", "ChallengeService", challenges);
+      eventBus.subscribe("progress.meal_completed", "UserService", users);
+      givenOutbox([
+        { subscriber: "ChallengeService", status: "failed", attempts: 2, nextAttemptAt: new Date("2026-10-18T11:59:00Z") },
+        { subscriber: "UserService", status: "failed", attempts: 1, nextAttemptAt: new Date("2026-10-18T12:05:00Z") },
+      ]);
+
+      const result = await eventBus.retryPendingDeliveries(now);
+
+      expect(result).toEqual({ retried: 1, succeeded: 1 });
+      expect(challenges).toHaveBeenCalledWith(mealCompleted);
+      expect(users).not.toHaveBeenCalled();
+      expect(deliveryUpdate("ChallengeService")["deliveries.$.attempts"]).toBe(3);
+    });
+
+    it("should pick up deliveries that were never attempted", async () => {
+      const challenges = jest.fn();
+      eventBus.subscribe("progress.meal_completed", "ChallengeService", challenges);
+      givenOutbox(
+        [{ subscriber: "ChallengeService", status: "pending", attempts: 0 }],
+        new Date("2026-10-18T11:50:00Z")
+      );
+
+      await eventBus.retryPendingDeliveries(now);
+      expect(challenges).toHaveBeenCalled();
+    });
+
+    it("should mark a delivery dead after the last attempt", async () => {
+      eventBus.subscribe("progress.meal_completed", "ChallengeService", () => {
+        throw new Error("still failing");
+      });
+      givenOutbox([
+        { subscriber: "ChallengeService", status: "failed", attempts: 4, nextAttemptAt: new Date("2026-10-18T11:59:00Z") },
+      ]);
+
+      const result = await eventBus.retryPendingDeliveries(now);
+
+      expect(result).toEqual({ retried: 1, succeeded: 0 });
+      const update = deliveryUpdate("ChallengeService");
+      expect(update["deliveries.$.status"]).toBe("dead");
+      expect(update["deliveries.$.nextAttemptAt"]).toBeUndefined();
+    });
+  });
+});
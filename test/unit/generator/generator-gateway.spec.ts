@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the streaming generator socket handshake
+ * Tests:
+ * - Access tokens of a live session connect
+ * - Link tokens, impersonation tokens, revoked sessions and accounts pending
+ *   deletion are turned away
+ */
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { JwtService } from "@nestjs/jwt";
+import { GeneratorGateway } from "../../../src/generator/streaming/generator.gateway";
+import { StreamingGeneratorService } from "../../../src/generator/streaming/streaming.service";
+import { UserService } from "../../../src/user/user.service";
+import { QuotaService } from "../../../src/quota/quota.service";
+import { SessionService } from "../../../src/auth/session.service";
+import { User } from "../../../src/user/user.model";
+import { SOCKET_EVENTS } from "../../../src/generator/streaming/streaming.types";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const SESSION_ID = "652f1c2e9b1e8a3d4c5b6a79";
+
+describe("GeneratorGateway", () => {
+  let gateway: GeneratorGateway;
+  let jwtService: JwtService;
+  let mockUserModel: any;
+  let mockSessionService: any;
+
+  const givenUser = (user: any) => {
+    mockUserModel.findById.mockReturnValue({
+      select: () => ({ lean: jest.fn().mockResolvedValue(user) }),
+    });
+  };
+
+  const connect = async (payload: object) => {
+    const client: any = {
+      id: "socket-1",
+      handshake: { auth: { token: jwtService.sign(payload) }, headers: {}, query: {} },
+      emit: jest.fn(),
+      join: jest.fn(),
+      disconnect: jest.fn(),
+    };
+    await gateway.handleConnection(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = "test-secret";
+    mockUserModel = { findById: jest.fn() };
+    mockSessionService = { isActive: jest.fn().mockResolvedValue(true) };
+    givenUser({ _id: USER_ID });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GeneratorGateway,
+        { provide: StreamingGeneratorService, useValue: {} },
+        { provide: UserService, useValue: {} },
+        { provide: QuotaService, useValue: {} },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: JwtService, useValue: new JwtService({ secret: "test-secret" }) },
+      ],
+    }).compile();
+
+    gateway = module.get(GeneratorGateway);
+    jwtService = module.get(JwtService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should connect an access token of an active session", async () => {
+    const client = await connect({ id: USER_ID, sid: SESSION_ID });
+
+    expect(mockSessionService.isActive).toHaveBeenCalledWith(SESSION_ID, USER_ID);
+    expect(client.join).toHaveBeenCalledWith(`user:${USER_ID}`);
+    expect(client.emit).toHaveBeenCalledWith(SOCKET_EVENTS.AUTHENTICATED, {
+      userId: USER_ID,
+      socketId: "socket-1",
+    });
+  });
+
+  it("should reject password reset and export link tokens", async () => {
+    for (const purpose of ["password_reset", "data_export"]) {
+      const client = await connect({ sub: USER_ID, id: USER_ID, purpose });
+
+      expect(client.emit).toHaveBeenCalledWith(SOCKET_EVENTS.AUTH_ERROR, { error: "Invalid token" });
+      expect(client.disconnect).toHaveBeenCalled();
+    }
+    expect(mockUserModel.findById).not.toHaveBeenCalled();
+  });
+
+  it("should reject admin impersonation tokens", async () => {
+    const client = await connect({ id: USER_ID, sid: SESSION_ID, imp: "652f1c2e9b1e8a3d4c5b6a99" });
+
+    expect(client.emit).toHaveBeenCalledWith(SOCKET_EVENTS.AUTH_ERROR, { error: "Invalid token" });
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it("should reject a revoked session", async () => {
+    mockSessionService.isActive.mockResolvedValue(false);
+
+    const client = await connect({ id: USER_ID, sid: SESSION_ID });
+
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it("should reject a legacy token issued before signing out", async () => {
+    givenUser({ _id: USER_ID, tokensValidAfter: new Date(Date.now() + 60_000) });
+
+    const client = await connect({ id: USER_ID });
+
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it("should reject an account scheduled for deletion", async () => {
+    givenUser({ _id: USER_ID, deletionScheduledFor: new Date() });
+
+    const client = await connect({ id: USER_ID, sid: SESSION_ID });
+
+    expect(client.join).not.toHaveBeenCalled();
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { ForbiddenException } from "@nestjs/common";
+import { Types } from "mongoose";
+import { HouseholdMealService } from "../../../src/household/household-meal.service";
+import { HouseholdMeal } from "../../../src/household/household-meal.model";
+import { HouseholdService } from "../../../src/household/household.service";
+import { AllergyConflictException } from "../../../src/household/household.exceptions";
+import { Plan } from "../../../src/plan/plan.model";
+import { PlanService } from "../../../src/plan/plan.service";
+import { GeneratorService } from "../../../src/generator/generator.service";
+import { User } from "../../../src/user/user.model";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const PARTNER_ID = "507f1f77bcf86cd799439022";
+const OWNER_MEMBER_ID = "652f1c2e9b1e8a3d4c5b6a01";
+const PARTNER_MEMBER_ID = "652f1c2e9b1e8a3d4c5b6a02";
+const CHILD_MEMBER_ID = "652f1c2e9b1e8a3d4c5b6a03";
+const HOUSEHOLD_ID = "652f1c2e9b1e8a3d4c5b6a71";
+const PLAN_ID = "652f1c2e9b1e8a3d4c5b6a72";
+const MEAL_ID = "652f1c2e9b1e8a3d4c5b6a73";
+const DATE = "2025-01-15";
+
+describe("HouseholdMealService", () => {
+  let service: HouseholdMealService;
+  let mockMealModel: any;
+  let mockPlanModel: any;
+  let mockHouseholdService: any;
+  let mockPlanService: any;
+  let mockGeneratorService: any;
+
+  const household = {
+    _id: new Types.ObjectId(HOUSEHOLD_ID),
+    ownerId: new Types.ObjectId(OWNER_ID),
+    members: [],
+  };
+  const members = [
+    { memberId: OWNER_MEMBER_ID, userId: OWNER_ID, name: "Alex", dailyCalories: 2400, allergies: [], dietaryRestrictions: [] },
+    { memberId: PARTNER_MEMBER_ID, userId: PARTNER_ID, name: "Sam", dailyCalories: 1800, allergies: [], dietaryRestrictions: ["vegetarian"] },
+    { memberId: CHILD_MEMBER_ID, name: "Emma", dailyCalories: 1200, allergies: ["peanut"], dietaryRestrictions: [] },
+  ];
+  const stirFry = {
+    name: "Tofu Stir Fry",
+    calories: 600,
+    macros: { protein: 30, carbs: 70, fat: 20 },
+    ingredients: [
+      ["tofu", "150 g"],
+      ["rice", "80 g"],
+    ],
+  };
+  const satay = {
+    ...stirFry,
+    name: "Tofu Satay",
+    ingredients: [...stirFry.ingredients, ["peanut butter", "30 g"]],
+  };
+  const dinnerDoc = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(MEAL_ID),
+    householdId: household._id,
+    dateKey: DATE,
+    mealType: "dinner",
+    meal: stirFry,
+    portions: [],
+    status: "proposed",
+    proposedBy: new Types.ObjectId(OWNER_ID),
+    ...overrides,
+  });
+  const lean = (value: any) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+  beforeEach(async () => {
+    mockMealModel = {
+      findOne: jest.fn().mockReturnValue(lean(dinnerDoc())),
+      findOneAndUpdate: jest.fn((filter: any, update: any) =>
+        lean(dinnerDoc({ ...update.$set }))
+      ),
+      exists: jest.fn().mockResolvedValue(null),
+    };
+    mockPlanModel = {
+      findOne: jest.fn().mockReturnValue({
+        select: () => lean({ _id: new Types.ObjectId(PLAN_ID) }),
+      }),
+    };
+    mockHouseholdService = {
+      findForUser: jest.fn().mockResolvedValue(household),
+      resolveMembers: jest.fn().mockResolvedValue(members),
+    };
+    mockPlanService = { replaceMeal: jest.fn().mockResolvedValue({ _id: PLAN_ID }) };
+    mockGeneratorService = {
+      generateMealSuggestions: jest.fn().mockResolvedValue({
+        success: true,
+        data: { meals: [satay, stirFry] },
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HouseholdMealService,
+        { provide: getModelToken(HouseholdMeal.name), useValue: mockMealModel },
+        { provide: getModelToken(Plan.name), useValue: mockPlanModel },
+        { provide: getModelToken(User.name), useValue: {} },
+        { provide: HouseholdService, useValue: mockHouseholdService },
+        { provide: PlanService, useValue: mockPlanService },
+        { provide: GeneratorService, useValue: mockGeneratorService },
+      ],
+    }).compile();
+
+    service = module.get(HouseholdMealService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("generate", () => {
+    it("should ask for a dinner everyone can eat and propose the first safe one", async () => {
+      const result = await service.generate(PARTNER_ID, DATE);
+
+      const [userId, criteria] = mockGeneratorService.generateMealSuggestions.mock.calls[0];
+      expect(userId).toBe(PARTNER_ID);
+      expect(criteria).toMatchObject({
+        category: "dinner",
+        targetCalories: 630,
+        dietaryRestrictions: ["vegetarian"],
+        dislikes: ["peanut"],
+      });
+      expect(result.meal.name).toBe("Tofu Stir Fry");
+      expect(result.portions.map((p: any) => p.memberId)).toEqual([
+        OWNER_MEMBER_ID,
+        PARTNER_MEMBER_ID,
+        CHILD_MEMBER_ID,
+      ]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("should fail with the conflicts when no suggestion is safe", async () => {
+      mockGeneratorService.generateMealSuggestions.mockResolvedValue({
+        success: true,
+        data: { meals: [satay] },
+      });
+
+      await expect(service.generate(OWNER_ID, DATE)).rejects.toThrow(AllergyConflictException);
+      expect(mockMealModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("accept", () => {
+    it("should refuse a dinner that conflicts with a member's allergies", async () => {
+      mockMealModel.findOne.mockReturnValue(lean(dinnerDoc({ meal: satay })));
+
+      const error = await service.accept(OWNER_ID, DATE).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AllergyConflictException);
+      expect(error.getResponse()).toMatchObject({
+        statusCode: 409,
+        conflicts: [
+          {
+            memberId: CHILD_MEMBER_ID,
+            name: "Emma",
+            allergen: "peanut",
+            matches: ["peanut butter"],
+          },
+        ],
+      });
+      expect(mockMealModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(mockPlanService.replaceMeal).not.toHaveBeenCalled();
+    });
+
+    it("should put each account member's portion into their plan", async () => {
+      const result = await service.accept(OWNER_ID, DATE);
+
+      expect(result.dinner.status).toBe("accepted");
+      expect(mockPlanService.replaceMeal).toHaveBeenCalledTimes(2);
+      const [userId, planId, date, mealType, meal] = mockPlanService.replaceMeal.mock.calls[0];
+      expect([userId, planId, date, mealType]).toEqual([OWNER_ID, PLAN_ID, DATE, "dinner"]);
+      expect(meal).toMatchObject({
+        name: "Tofu Stir Fry",
+        calories: 840,
+        macros: { protein: 42, carbs: 98, fat: 28 },
+        ingredients: [
+          ["tofu", "210 g"],
+          ["rice", "110 g"],
+        ],
+      });
+      expect(result.planUpdates).toEqual([
+        { memberId: OWNER_MEMBER_ID, name: "Alex", applied: true },
+        { memberId: PARTNER_MEMBER_ID, name: "Sam", applied: true },
+      ]);
+    });
+
+    it("should accept even when a member's plan cannot be updated", async () => {
+      mockPlanModel.findOne
+        .mockReturnValueOnce({ select: () => lean({ _id: new Types.ObjectId(PLAN_ID) }) })
+        .mockReturnValueOnce({ select: () => lean(null) });
+
+      const result = await service.accept(OWNER_ID, DATE);
+
+      expect(result.dinner.status).toBe("accepted");
+      expect(result.planUpdates[1]).toEqual({
+        memberId: PARTNER_MEMBER_ID,
+        name: "Sam",
+        applied: false,
+        reason: "No plan for this day",
+      });
+    });
+
+    it("should only let the owner accept", async () => {
+      await expect(service.accept(PARTNER_ID, DATE)).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for household dinner math
+ * Tests:
+ * - Portioning one dinner to each member's calories
+ * - Scaling ingredient amounts
+ * - Allergy conflicts, including allergen groups and lookalike names
+ */
+import {
+  findAllergyConflicts,
+  portionMeal,
+  scaleIngredients,
+} from "../../../src/utils/householdMeals";
+
+describe("Household Meals", () => {
+  describe("portionMeal", () => {
+    const meal = { name: "Chicken Stir Fry", calories: 600, macros: { protein: 40, carbs: 60, fat: 20 } };
+
+    it("should scale calories and macros to each member's share of the day", () => {
+      const [adult, child] = portionMeal(meal, [
+        { memberId: "a", name: "Alex", dailyCalories: 2500 },
+        { memberId: "b", name: "Emma", dailyCalories: 1200 },
+      ]);
+
+      expect(adult).toEqual({
+        memberId: "a",
+        name: "Alex",
+        factor: 1.45,
+        calories: 870,
+        macros: { protein: 58, carbs: 87, fat: 29 },
+      });
+      expect(child.factor).toBe(0.7);
+      expect(child.calories).toBe(420);
+    });
+
+    it("should keep portions within bounds", () => {
+      const [small, large] = portionMeal({ ...meal, calories: 100 }, [
+        { memberId: "a", name: "A", dailyCalories: 50 },
+        { memberId: "b", name: "B", dailyCalories: 5000 },
+      ]);
+
+      expect(small.factor).toBe(0.25);
+      expect(large.factor).toBe(3);
+    });
+
+    it("should give everyone one serving when the meal has no calories", () => {
+      const [portion] = portionMeal({ name: "Salad", calories: 0 }, [
+        { memberId: "a", name: "A", dailyCalories: 2000 },
+      ]);
+
+      expect(portion.factor).toBe(1);
+      expect(portion.calories).toBe(0);
+    });
+  });
+
+  describe("scaleIngredients", () => {
+    it("should multiply amounts and keep categories", () => {
+      expect(scaleIngredients([["rice", "80 g", "Grains"], ["milk", "200 ml"]], 1.5)).toEqual([
+        ["rice", "120 g", "Grains"],
+        ["milk", "300 ml"],
+      ]);
+    });
+
+    it("should keep amounts without a number as they are", () => {
+      expect(scaleIngredients([["salt", "to taste"]], 2)).toEqual([["salt", "to taste"]]);
+    });
+  });
+
+  describe("findAllergyConflicts", () => {
+    const meal = {
+      name: "Shrimp Pad Thai",
+      calories: 650,
+      ingredients: [
+        ["rice noodles", "100 g"],
+        ["shrimp", "150 g"],
+        ["peanuts", "20 g"],
+        ["butter", "10 g"],
+      ] as [string, string][],
+    };
+
+    it("should match allergies against the meal name and ingredients", () => {
+      const conflicts = findAllergyConflicts(meal, [
+        { memberId: "a", name: "Alex", allergies: ["Peanut", "shellfish"] },
+        { memberId: "b", name: "Emma", allergies: [] },
+      ]);
+
+      expect(conflicts).toEqual([
+        { memberId: "a", name: "Alex", allergen: "Peanut", matches: ["peanuts"] },
+        { memberId: "a", name: "Alex", allergen: "shellfish", matches: ["Shrimp Pad Thai", "shrimp"] },
+      ]);
+    });
+
+    it("should match allergen groups through the foods in them", () => {
+      const conflicts = findAllergyConflicts(meal, [
+        { memberId: "a", name: "Alex", allergies: ["dairy"] },
+      ]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].matches).toEqual(["butter"]);
+    });
+
+    it("should not match words that only contain the allergen", () => {
+      const conflicts = findAllergyConflicts(
+        {
+          name: "Eggplant Curry",
+          calories: 500,
+          ingredients: [
+            ["eggplant", "300 g"],
+            ["coconut milk", "200 ml"],
+          ],
+        },
+        [{ memberId: "a", name: "Alex", allergies: ["egg", "nuts", "dairy"] }]
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+  });
+});
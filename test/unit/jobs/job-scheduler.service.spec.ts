@@ -0,0 +1,195 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+import { Job } from "../../../src/jobs/job.model";
+import { JobRun } from "../../../src/jobs/job-run.model";
+import { getNextCronRun, parseCron } from "../../../src/utils/cron";
+
+describe("cron", () => {
+  it("should find the next weekly slot in UTC", () => {
+    // Wednesday 2026-10-14 10:00 UTC -> Monday 2026-10-19 03:00 UTC
+    const next = getNextCronRun("0 3 * * 1", new Date("2026-10-14T10:00:00Z"));
+    expect(next.toISOString()).toBe("2026-10-19T03:00:00.000Z");
+  });
+
+  it("should be strictly after the given time", () => {
+    const next = getNextCronRun("*/15 * * * *", new Date("2026-10-14T10:15:00Z"));
+    expect(next.toISOString()).toBe("2026-10-14T10:30:00.000Z");
+  });
+
+  it("should roll over months and treat day-of-week 7 as Sunday", () => {
+    expect(
+      getNextCronRun("5 0 1 * *", new Date("2026-12-15T00:00:00Z")).toISOString()
+    ).toBe("2027-01-01T00:05:00.000Z");
+    expect(parseCron("0 0 * * 7").daysOfWeek.has(0)).toBe(true);
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // 13th of the month OR any Friday; 2026-10-16 is a Friday
+    const next = getNextCronRun("0 0 13 * 5", new Date("2026-10-14T00:00:00Z"));
+    expect(next.toISOString()).toBe("2026-10-16T00:00:00.000Z");
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCron("0 3 * *")).toThrow(/5 fields/);
+    expect(() => parseCron("61 * * * *")).toThrow(/Invalid cron value/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/Invalid cron step/);
+  });
+});
+
+describe("JobSchedulerService", () => {
+  let service: JobSchedulerService;
+  let mockJobModel: any;
+  let mockJobRunModel: any;
+
+  const claimed = (overrides: Record<string, any> = {}) => ({
+    _id: "job-1",
+    name: "test.job",
+    kind: "once",
+    data: { value: 42 },
+    attempts: 1,
+    maxAttempts: 3,
+    ...overrides,
+  });
+
+  // Let execute() finish after runDueJobs() started it
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    mockJobModel = {
+      findOne: jest.fn(),
+      create: jest.fn().mockImplementation(async (doc) => doc),
+      updateOne: jest.fn().mockResolvedValue({ acknowledged: true }),
+      findOneAndUpdate: jest.fn().mockResolvedValue(null),
+    };
+    mockJobRunModel = { create: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobSchedulerService,
+        { provide: getModelToken(Job.name), useValue: mockJobModel },
+        { provide: getModelToken(JobRun.name), useValue: mockJobRunModel },
+      ],
+    }).compile();
+
+    service = module.get<JobSchedulerService>(JobSchedulerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should only claim jobs with a registered handler, including expired locks", async () => {
+    service.registerHandler("test.job", jest.fn());
+
+    await service.runDueJobs();
+
+    const [filter, update] = mockJobModel.findOneAndUpdate.mock.calls[0];
+    expect(filter.name).toEqual({ $in: ["test.job"] });
+    expect(filter.$or).toEqual([
+      { status: "scheduled", runAt: { $lte: expect.any(Date) } },
+      { status: "running", lockedUntil: { $lt: expect.any(Date) } },
+    ]);
+    expect(update.$set.status).toBe("running");
+    expect(update.$inc).toEqual({ attempts: 1 });
+  });
+
+  it("should run the handler, record the run and complete a one-off job", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.registerHandler("test.job", handler);
+    mockJobModel.findOneAndUpdate.mockResolvedValueOnce(claimed());
+
+    expect(await service.runDueJobs()).toBe(1);
+    await flush();
+
+    expect(handler).toHaveBeenCalledWith({ value: 42 }, expect.anything());
+    expect(mockJobRunModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "test.job", attempt: 1, status: "succeeded" })
+    );
+    const [filter, update] = mockJobModel.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: "job-1", lockedBy: expect.any(String) });
+    expect(update.$set.status).toBe("completed");
+  });
+
+  it("should retry a failed job with exponential backoff", async () => {
+    service.registerHandler("test.job", jest.fn().mockRejectedValue(new Error("boom")), {
+      backoffMs: 1000,
+    });
+    mockJobModel.findOneAndUpdate.mockResolvedValueOnce(claimed({ attempts: 2 }));
+
+    const before = Date.now();
+    await service.runDueJobs();
+    await flush();
+
+    expect(mockJobRunModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "failed", error: "boom" })
+    );
+    const update = mockJobModel.updateOne.mock.calls[0][1];
+    expect(update.$set.status).toBe("scheduled");
+    expect(update.$set.lastError).toBe("boom");
+    // second attempt failed -> 1000 * 2^1
+    expect(update.$set.runAt.getTime() - before).toBeGreaterThanOrEqual(2000);
+    expect(update.$set.runAt.getTime() - before).toBeLessThan(3000);
+  });
+
+  it("should mark a one-off job failed once out of attempts", async () => {
+    service.registerHandler("test.job", jest.fn().mockRejectedValue(new Error("boom")));
+    mockJobModel.findOneAndUpdate.mockResolvedValueOnce(claimed({ attempts: 3 }));
+
+    await service.runDueJobs();
+    await flush();
+
+    expect(mockJobModel.updateOne.mock.calls[0][1].$set.status).toBe("failed");
+  });
+
+  it("should move a recurring job to its next cron slot after running", async () => {
+    service.registerHandler("test.job", jest.fn().mockResolvedValue(undefined));
+    mockJobModel.findOneAndUpdate.mockResolvedValueOnce(
+      claimed({ kind: "recurring", cron: "0 3 * * 1", attempts: 1 })
+    );
+
+    await service.runDueJobs();
+    await flush();
+
+    const update = mockJobModel.updateOne.mock.calls[0][1];
+    expect(update.$set).toMatchObject({ status: "scheduled", attempts: 0 });
+    expect(update.$set.runAt.getUTCDay()).toBe(1);
+    expect(update.$set.runAt.getUTCHours()).toBe(3);
+  });
+
+  it("should create a recurring job once and only reschedule when the cron changes", async () => {
+    mockJobModel.findOne.mockResolvedValueOnce(null);
+    await service.scheduleRecurring("test.job", "0 3 * * 1");
+    expect(mockJobModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "test.job", kind: "recurring", cron: "0 3 * * 1" })
+    );
+
+    mockJobModel.findOne.mockResolvedValueOnce({
+      _id: "job-1",
+      cron: "0 3 * * 1",
+      maxAttempts: 3,
+      status: "scheduled",
+    });
+    await service.scheduleRecurring("test.job", "0 3 * * 1");
+    expect(mockJobModel.updateOne).not.toHaveBeenCalled();
+
+    mockJobModel.findOne.mockResolvedValueOnce({
+      _id: "job-1",
+      cron: "0 3 * * 1",
+      maxAttempts: 3,
+      status: "scheduled",
+    });
+    await service.scheduleRecurring("test.job", "0 4 * * 1");
+    expect(mockJobModel.updateOne.mock.calls[0][1].$set).toMatchObject({
+      cron: "0 4 * * 1",
+      runAt: expect.any(Date),
+    });
+  });
+
+  it("should ignore a concurrent insert of the same recurring job", async () => {
+    mockJobModel.findOne.mockResolvedValueOnce(null);
+    mockJobModel.create.mockRejectedValueOnce(Object.assign(new Error("dup"), { code: 11000 }));
+
+    await expect(service.scheduleRecurring("test.job", "0 3 * * 1")).resolves.toBeUndefined();
+  });
+});
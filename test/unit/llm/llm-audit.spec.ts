@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the AI call log
+ * Tests:
+ * - Every client call is reported with tokens, attempts and cost
+ * - User attribution from call options and the request context
+ * - Failure outcomes (rate limits, timeouts)
+ * - Cost estimates per provider/model
+ */
+import {
+  LlmCallRecord,
+  LlmCallOptions,
+  LlmProvider,
+  estimateCostUsd,
+  getLlmClient,
+  registerLlmProvider,
+  resetLlmProviders,
+  runWithLlmContext,
+  setLlmCallSink,
+} from "../../../src/llm";
+
+const flushSink = () => new Promise((resolve) => setImmediate(resolve));
+
+// Stands in for Gemini and reports usage the way the real provider does
+const fakeGemini = (behaviour: (options: LlmCallOptions) => string): LlmProvider => ({
+  name: "gemini",
+  generateText: async (_prompt, options) => {
+    Object.assign(options.usage!, {
+      model: "gemini-2.5-flash-lite",
+      inputTokens: 1000,
+      outputTokens: 500,
+      attempts: 2,
+      rateLimitHits: 1,
+    });
+    return behaviour(options);
+  },
+  generateJson: async <T>() => ({}) as T,
+  generateVision: async () => "",
+  streamText: async function* () {
+    yield "chunk";
+  },
+});
+
+describe("AI call log", () => {
+  const records: LlmCallRecord[] = [];
+
+  beforeEach(() => {
+    records.length = 0;
+    setLlmCallSink((record) => records.push(record));
+  });
+
+  afterEach(() => {
+    setLlmCallSink(null);
+    resetLlmProviders();
+  });
+
+  it("should report a successful call with usage and cost", async () => {
+    registerLlmProvider("gemini", fakeGemini(() => "hello"));
+
+    await getLlmClient("chat", "gemini").generateText("Say hi", {
+      context: "ChatAI",
+      userId: "user-1",
+    });
+    await flushSink();
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      feature: "chat",
+      provider: "gemini",
+      model: "gemini-2.5-flash-lite",
+      userId: "user-1",
+      context: "ChatAI",
+      promptChars: 6,
+      inputTokens: 1000,
+      outputTokens: 500,
+      attempts: 2,
+      rateLimitHits: 1,
+      outcome: "success",
+      streamed: false,
+    });
+    expect(records[0].promptHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(records[0].costUsd).toBeCloseTo(0.0003, 10);
+  });
+
+  it("should attribute calls to the user in the request context", async () => {
+    registerLlmProvider("gemini", fakeGemini(() => "hello"));
+
+    await runWithLlmContext({ userId: "user-2" }, () =>
+      getLlmClient("goal", "gemini").generateText("Make a goal")
+    );
+    await flushSink();
+
+    expect(records[0].userId).toBe("user-2");
+  });
+
+  it("should record failures with their outcome and rethrow", async () => {
+    registerLlmProvider(
+      "gemini",
+      fakeGemini(() => {
+        throw new Error("[Chat] Rate limit exceeded after 2 attempts: 429");
+      })
+    );
+
+    await expect(
+      getLlmClient("chat", "gemini").generateText("Say hi")
+    ).rejects.toThrow("Rate limit");
+    await flushSink();
+
+    expect(records[0].outcome).toBe("rate_limited");
+    expect(records[0].error).toContain("429");
+  });
+
+  it("should record streams once consumed", async () => {
+    registerLlmProvider("gemini", fakeGemini(() => ""));
+
+    const chunks: string[] = [];
+    for await (const chunk of getLlmClient("chat", "gemini").streamText("Say hi")) {
+      chunks.push(chunk);
+    }
+    await flushSink();
+
+    expect(chunks).toEqual(["chunk"]);
+    expect(records[0]).toMatchObject({ streamed: true, outcome: "success" });
+  });
+});
+
+describe("estimateCostUsd", () => {
+  it("should price Gemini models per million tokens", () => {
+    expect(estimateCostUsd("gemini", "gemini-2.5-pro", 1_000_000, 1_000_000)).toBe(11.25);
+  });
+
+  it("should treat local and fixture providers as free", () => {
+    expect(estimateCostUsd("ollama", "llama3", 1_000_000, 1_000_000)).toBe(0);
+    expect(estimateCostUsd("fixture", undefined, 10, 10)).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the LLM provider layer
+ * Tests:
+ * - Per-feature provider selection from env
+ * - Fixture replay by prompt key with a per-feature default
+ * - Recording fixture misses through another provider
+ * - JSON extraction from model output
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  getProviderSpec,
+  getFallbackSpec,
+  parseProviderSpec,
+} from "../../../src/llm/llm.config";
+import {
+  FixtureLlmProvider,
+  LlmProvider,
+  parseJsonText,
+} from "../../../src/llm";
+
+describe("LLM provider config", () => {
+  it("should parse provider specs with an optional model", () => {
+    expect(parseProviderSpec("ollama:llama3:8b")).toEqual({
+      provider: "ollama",
+      model: "llama3:8b",
+    });
+    expect(parseProviderSpec("Gemini")).toEqual({ provider: "gemini" });
+    expect(parseProviderSpec("openai")).toBeNull();
+    expect(parseProviderSpec("")).toBeNull();
+  });
+
+  it("should prefer the feature setting over the global one", () => {
+    const env = { LLM_PROVIDER: "fixture", LLM_PROVIDER_CHAT: "ollama:llama3" };
+    expect(getProviderSpec("chat", env)).toEqual({
+      provider: "ollama",
+      model: "llama3",
+    });
+    expect(getProviderSpec("recipe", env)).toEqual({ provider: "fixture" });
+  });
+
+  it("should keep a feature's default model when the provider matches", () => {
+    expect(getProviderSpec("eating-profile", {})).toEqual({
+      provider: "gemini",
+      model: "gemini-2.0-flash",
+    });
+    expect(getProviderSpec("eating-profile", { LLM_PROVIDER: "gemini" })).toEqual({
+      provider: "gemini",
+      model: "gemini-2.0-flash",
+    });
+    expect(getProviderSpec("eating-profile", { LLM_PROVIDER: "ollama" })).toEqual({
+      provider: "ollama",
+    });
+  });
+
+  it("should fall back to ollama for meal plans unless disabled", () => {
+    expect(getFallbackSpec("meal-plan", {})).toEqual({ provider: "ollama" });
+    expect(getFallbackSpec("meal-plan", { LLM_FALLBACK_MEAL_PLAN: "none" })).toBeNull();
+    expect(getFallbackSpec("chat", {})).toBeNull();
+  });
+});
+
+describe("FixtureLlmProvider", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+    fs.mkdirSync(path.join(dir, "chat"));
+    fs.writeFileSync(path.join(dir, "chat", "default.txt"), "default reply");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should replay the fixture recorded for the exact prompt", async () => {
+    const key = FixtureLlmProvider.fixtureKey("hello");
+    fs.writeFileSync(path.join(dir, "chat", `${key}.txt`), "recorded reply");
+    const provider = new FixtureLlmProvider(dir);
+
+    await expect(provider.generateText("hello", { feature: "chat" })).resolves.toBe(
+      "recorded reply"
+    );
+    await expect(provider.generateText("other", { feature: "chat" })).resolves.toBe(
+      "default reply"
+    );
+  });
+
+  it("should fail clearly when a feature has no fixtures", async () => {
+    const provider = new FixtureLlmProvider(dir);
+    await expect(provider.generateJson("x", { feature: "goal" })).rejects.toThrow(
+      /No LLM fixture for goal/
+    );
+  });
+
+  it("should record misses through the recorder", async () => {
+    const recorder = {
+      name: "gemini",
+      generateJson: jest.fn().mockResolvedValue({ title: "Run 5 km" }),
+    } as unknown as LlmProvider;
+    const provider = new FixtureLlmProvider(dir, recorder);
+
+    await expect(provider.generateJson("goal prompt", { feature: "goal" })).resolves.toEqual({
+      title: "Run 5 km",
+    });
+    const file = path.join(dir, "goal", `${FixtureLlmProvider.fixtureKey("goal prompt")}.json`);
+    expect(JSON.parse(fs.readFileSync(file, "utf8"))).toEqual({ title: "Run 5 km" });
+
+    // Second call is replayed from disk
+    await provider.generateJson("goal prompt", { feature: "goal" });
+    expect(recorder.generateJson).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stream replayed text in chunks", async () => {
+    const provider = new FixtureLlmProvider(dir);
+    let text = "";
+    for await (const chunk of provider.streamText("anything", { feature: "chat" })) {
+      text += chunk;
+    }
+    expect(text).toBe("default reply");
+  });
+});
+
+describe("parseJsonText", () => {
+  it("should parse JSON wrapped in markdown and prose", () => {
+    expect(parseJsonText('Here you go:\n```json\n[{"a":1}]\n```')).toEqual([{ a: 1 }]);
+    expect(parseJsonText('Sure! {"a": {"b": 2}} Enjoy.')).toEqual({ a: { b: 2 } });
+  });
+
+  it("should throw when there is no JSON", () => {
+    expect(() => parseJsonText("no json here")).toThrow(/did not contain JSON/);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for schema-validated AI output
+ * Tests:
+ * - Validation errors are reported with field paths
+ * - Re-prompting with the errors until the output conforms
+ * - Failures are sent to the sink with prompt and raw output
+ * - Recorded fixtures conform to their schemas
+ */
+import "reflect-metadata";
+import fs from "fs";
+import path from "path";
+import {
+  AiOutputFailureReport,
+  AiOutputSpec,
+  AiOutputValidationError,
+  LlmClient,
+  generateStructured,
+  setAiOutputFailureSink,
+  validateAiOutput,
+  validateStructuredOutput,
+} from "../../../src/llm";
+import {
+  AI_CHAT_ACTION,
+  AI_EATING_PROFILE,
+  AI_GOAL,
+  AI_MEAL,
+  AI_MEAL_SUGGESTIONS,
+  AI_NUTRITION_ESTIMATE,
+  AI_PHOTO_RECOGNITION,
+  AI_PLAN_DAYS,
+  AI_RECIPE,
+  AI_SKELETON_DAYS,
+} from "../../../src/llm/schemas";
+
+const validMeal = {
+  name: "Oatmeal",
+  calories: 350,
+  macros: { protein: 12, carbs: 55, fat: 8 },
+  ingredients: [["oats", "80 g"], "milk|200|ml|Dairy"],
+  prepTime: 10,
+};
+
+// Answers generateJson calls from a queue and keeps the prompts it saw
+const scriptedClient = (responses: unknown[]) => {
+  const prompts: string[] = [];
+  const client = {
+    feature: "meal",
+    providerName: "fixture",
+    generateJson: async (prompt: string) => {
+      prompts.push(prompt);
+      const next = responses.shift();
+      if (next instanceof Error) throw next;
+      return next;
+    },
+  } as unknown as LlmClient;
+  return { client, prompts };
+};
+
+const flushSink = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("validateAiOutput", () => {
+  it("should accept a conforming meal and normalize its category", async () => {
+    const { value, errors } = await validateAiOutput(
+      { ...validMeal, category: "Breakfast" },
+      AI_MEAL
+    );
+    expect(errors).toEqual([]);
+    expect(value?.category).toBe("breakfast");
+  });
+
+  it("should report nested field paths", async () => {
+    const { value, errors } = await validateAiOutput(
+      { ...validMeal, macros: { protein: "lots", carbs: 10, fat: 2 } },
+      AI_MEAL
+    );
+    expect(value).toBeUndefined();
+    expect(errors.some((e) => e.startsWith("macros.protein:"))).toBe(true);
+  });
+
+  it("should wrap bare day arrays and reject unknown day names", async () => {
+    const day = {
+      day: "Monday",
+      meals: { breakfast: validMeal, lunch: validMeal, dinner: validMeal },
+    };
+    const ok = await validateAiOutput([day], AI_PLAN_DAYS);
+    expect(ok.value?.days[0].day).toBe("monday");
+
+    const bad = await validateAiOutput([{ ...day, day: "someday" }], AI_PLAN_DAYS);
+    expect(bad.errors[0]).toMatch(/^days\.0\.day:/);
+  });
+
+  it("should apply cross-field checks", async () => {
+    const { errors } = await validateAiOutput(
+      {
+        type: "meal_swap",
+        dateKey: "2026-10-18",
+        reason: "More protein",
+        mealType: "lunch",
+        currentMeal: { name: "Salad", calories: 300 },
+        proposedMeal: { ...validMeal, category: "dinner" },
+      },
+      AI_CHAT_ACTION
+    );
+    expect(errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe("generateStructured", () => {
+  const reports: AiOutputFailureReport[] = [];
+
+  beforeEach(() => {
+    reports.length = 0;
+    setAiOutputFailureSink((failures) => reports.push(...failures));
+  });
+
+  afterAll(() => setAiOutputFailureSink(null));
+
+  it("should re-prompt with the validation errors and return the repaired output", async () => {
+    const { client, prompts } = scriptedClient([
+      { ...validMeal, calories: "many" },
+      validMeal,
+    ]);
+
+    const meal = await generateStructured(client, "Make a meal", AI_MEAL);
+    await flushSink();
+
+    expect(meal.name).toBe("Oatmeal");
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain("Make a meal");
+    expect(prompts[1]).toContain("calories:");
+    expect(prompts[1]).toContain('"many"');
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      feature: "meal",
+      schema: "meal",
+      prompt: "Make a meal",
+      attempt: 0,
+      recovered: true,
+    });
+  });
+
+  it("should give up after maxRepairs and record every attempt", async () => {
+    const { client, prompts } = scriptedClient([{}, {}]);
+
+    await expect(
+      generateStructured(client, "Make a meal", AI_MEAL, { maxRepairs: 1 })
+    ).rejects.toBeInstanceOf(AiOutputValidationError);
+    await flushSink();
+
+    expect(prompts).toHaveLength(2);
+    expect(reports.map((r) => r.attempt)).toEqual([0, 1]);
+    expect(reports.every((r) => !r.recovered)).toBe(true);
+  });
+
+  it("should not re-prompt on provider errors", async () => {
+    const { client, prompts } = scriptedClient([new Error("503 overloaded")]);
+
+    await expect(
+      generateStructured(client, "Make a meal", AI_MEAL)
+    ).rejects.toThrow("503 overloaded");
+    expect(prompts).toHaveLength(1);
+  });
+
+  it("should repair unparseable output the model already returned", async () => {
+    const { client, prompts } = scriptedClient([validMeal]);
+
+    const meal = await validateStructuredOutput(
+      client,
+      "Suggest a swap",
+      '{"name": "Oatmeal",',
+      AI_MEAL
+    );
+    await flushSink();
+
+    expect(meal.name).toBe("Oatmeal");
+    expect(prompts[0]).toContain('{"name": "Oatmeal",');
+    expect(reports[0].rawOutput).toBe('{"name": "Oatmeal",');
+  });
+});
+
+describe("LLM fixtures", () => {
+  const fixturesDir = path.resolve(__dirname, "../../../fixtures/llm");
+  const specs: Record<string, AiOutputSpec<any>> = {
+    "meal-plan": AI_PLAN_DAYS,
+    "meal-plan-skeleton": AI_SKELETON_DAYS,
+    recipe: AI_RECIPE,
+    meal: AI_MEAL,
+    "rescue-meal": AI_MEAL,
+    snack: AI_MEAL,
+    "meal-suggestions": AI_MEAL_SUGGESTIONS,
+    goal: AI_GOAL,
+    "photo-recognition": AI_PHOTO_RECOGNITION,
+    "nutrition-estimate": AI_NUTRITION_ESTIMATE,
+    "eating-profile": AI_EATING_PROFILE,
+  };
+
+  it.each(Object.keys(specs))("%s default fixture should match its schema", async (feature) => {
+    const raw = fs.readFileSync(path.join(fixturesDir, feature, "default.json"), "utf8");
+    const { errors } = await validateAiOutput(JSON.parse(raw), specs[feature]);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { InboxService } from "../../../src/notification/inbox.service";
+import { InboxItem } from "../../../src/notification/inbox-item.model";
+import { User } from "../../../src/user/user.model";
+import { EventBus } from "../../../src/events/event-bus";
+import { OutboxEvent } from "../../../src/events/event-outbox.model";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const OTHER_ID = "507f1f77bcf86cd799439022";
+
+// Let the bus run its subscribers (they start on setImmediate)
+const flushEvents = () => new Promise((resolve) => setImmediate(() => setImmediate(resolve)));
+
+describe("InboxService", () => {
+  let service: InboxService;
+  let eventBus: EventBus;
+  let mockInboxModel: any;
+  let mockUserModel: any;
+
+  beforeEach(async () => {
+    mockInboxModel = {
+      create: jest.fn().mockImplementation(async (doc) => doc),
+      find: jest.fn(),
+      countDocuments: jest.fn().mockResolvedValue(3),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    mockUserModel = {
+      findById: jest.fn().mockReturnValue({
+        select: () => ({ lean: jest.fn().mockResolvedValue({ name: "Dana" }) }),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InboxService,
+        EventBus,
+        { provide: getModelToken(InboxItem.name), useValue: mockInboxModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: getModelToken(OutboxEvent.name),
+          useValue: {
+            create: jest.fn().mockResolvedValue({ _id: "event-1" }),
+            updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+          },
+        },
+        { provide: JobSchedulerService, useValue: { registerHandler: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(InboxService);
+    eventBus = module.get(EventBus);
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("event subscriptions", () => {
+    it("should add an inbox item when a badge is earned", async () => {
+      await eventBus.publish("engagement.badge_earned", {
+        userId: USER_ID,
+        badge: {
+          id: "first_week",
+          name: "First Week",
+          description: "Tracked 7 days consistently",
+          icon: "calendar-check",
+          category: "consistency",
+        },
+      });
+      await flushEvents();
+
+      const item = mockInboxModel.create.mock.calls[0][0];
+      expect(item.type).toBe("badge_earned");
+      expect(item.userId.toString()).toBe(USER_ID);
+      expect(item.data).toEqual({ badgeId: "first_week", icon: "calendar-check" });
+      expect(item.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it("should notify the followed user with the follower's name", async () => {
+      await eventBus.publish("social.followed", { followerId: OTHER_ID, followingId: USER_ID });
+      await flushEvents();
+
+      const item = mockInboxModel.create.mock.calls[0][0];
+      expect(item.userId.toString()).toBe(USER_ID);
+      expect(item.actorId.toString()).toBe(OTHER_ID);
+      expect(item.body).toBe("Dana started following you");
+      expect(item.deepLink).toBe(`/social/users/${OTHER_ID}`);
+    });
+
+    it("should link a comment to its post", async () => {
+      await eventBus.publish("social.commented", {
+        postId: "post-1",
+        postOwnerId: USER_ID,
+        commenterId: OTHER_ID,
+        commentId: "comment-1",
+        text: "Nice!",
+      });
+      await flushEvents();
+
+      expect(mockInboxModel.create.mock.calls[0][0]).toMatchObject({
+        type: "new_comment",
+        deepLink: "/social/posts/post-1",
+        data: { postId: "post-1", commentId: "comment-1" },
+      });
+    });
+  });
+
+  describe("list", () => {
+    const givenItems = (count: number) => {
+      const items = Array.from({ length: count }, (_, i) => ({
+        _id: `item-${i}`,
+        createdAt: new Date(Date.UTC(2026, 9, 18, 12, 0, 0) - i * 60000),
+      }));
+      mockInboxModel.find.mockReturnValue({
+        sort: () => ({ limit: (n: number) => ({ lean: () => Promise.resolve(items.slice(0, n)) }) }),
+      });
+    };
+
+    it("should return a cursor when there are more items", async () => {
+      givenItems(3);
+      const result = await service.list(USER_ID, { limit: 2 });
+
+      expect(result.items).toHaveLength(2);
+      expect(result.unreadCount).toBe(3);
+      expect(result.nextCursor).toBe(result.items[1].createdAt.toISOString());
+    });
+
+    it("should filter unread items and page by cursor", async () => {
+      givenItems(1);
+      const result = await service.list(USER_ID, {
+        unreadOnly: true,
+        before: "2026-10-18T12:00:00.000Z",
+      });
+
+      const filter = mockInboxModel.find.mock.calls[0][0];
+      expect(filter.readAt).toBeNull();
+      expect(filter.createdAt).toEqual({ $lt: new Date("2026-10-18T12:00:00.000Z") });
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe("markRead", () => {
+    it("should mark the given items read and shorten their retention", async () => {
+      const result = await service.markRead(USER_ID, { ids: [OTHER_ID] });
+
+      const [filter, update] = mockInboxModel.updateMany.mock.calls[0];
+      expect(filter._id.$in.map(String)).toEqual([OTHER_ID]);
+      expect(filter.readAt).toBeNull();
+      expect(update.$set.readAt).toBeInstanceOf(Date);
+      expect(update.$set.expiresAt.getTime() - update.$set.readAt.getTime()).toBe(
+        30 * 24 * 60 * 60 * 1000
+      );
+      expect(result).toEqual({ updated: 2, unreadCount: 3 });
+    });
+
+    it("should mark everything read with all=true", async () => {
+      await service.markRead(USER_ID, { all: true });
+      expect(mockInboxModel.updateMany.mock.calls[0][0]._id).toBeUndefined();
+    });
+
+    it("should require ids or all", async () => {
+      await expect(service.markRead(USER_ID, {})).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe("remove", () => {
+    it("should only delete the user's own item", async () => {
+      mockInboxModel.deleteOne.mockResolvedValueOnce({ deletedCount: 0 });
+      await expect(service.remove(USER_ID, OTHER_ID)).rejects.toThrow(NotFoundException);
+      await expect(service.remove(USER_ID, "not-an-id")).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import crypto from "crypto";
+import axios from "axios";
+import { NotificationDispatchService } from "../../../src/notification/notification-dispatch.service";
+import { NotificationService } from "../../../src/notification/notification.service";
+import { NotificationDelivery } from "../../../src/notification/notification-delivery.model";
+import { WeeklySummaryService } from "../../../src/engagement/weekly-summary.service";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+import { User } from "../../../src/user/user.model";
+import { DailyProgress } from "../../../src/progress/progress.model";
+import {
+  WebPushTransport,
+  detectPushPlatform,
+  parseWebPushSubscription,
+  resetPushTransports,
+} from "../../../src/notification/transports";
+import {
+  getDueNotificationSlots,
+  isInQuietHours,
+} from "../../../src/utils/notificationSchedule";
+import { getZonedTime } from "../../../src/utils/timezone";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const APNS_TOKEN = "a".repeat(64);
+const FCM_TOKEN = "fcm-token-1234567890";
+
+describe("notification scheduling", () => {
+  const preferences = new NotificationService(null as any, null as any).getDefaultPreferences();
+
+  it("should compute wall-clock time in the user's timezone", () => {
+    const zoned = getZonedTime(new Date("2026-10-18T06:05:00Z"), "Europe/Berlin");
+    expect(zoned).toMatchObject({ dateKey: "2026-10-18", hour: 8, minute: 5, dayOfWeek: 0 });
+    // Unknown zones fall back to the default (UTC)
+    expect(getZonedTime(new Date("2026-10-18T06:05:00Z"), "Mars/Olympus").hour).toBe(6);
+  });
+
+  it("should return slots whose local time is inside the window", () => {
+    // Sunday 09:10 local: breakfast (08:00) is too old, weekly summary (Sun 09:00) is due
+    const zoned = getZonedTime(new Date("2026-10-18T07:10:00Z"), "Europe/Berlin");
+    const slots = getDueNotificationSlots(preferences, zoned, 30);
+    expect(slots.map((s) => s.slotKey)).toEqual(["weekly_summary:2026-10-18"]);
+
+    const breakfast = getDueNotificationSlots(
+      preferences,
+      getZonedTime(new Date("2026-10-18T06:20:00Z"), "Europe/Berlin"),
+      30
+    );
+    expect(breakfast).toEqual([
+      { type: "meal_reminder", slotKey: "meal_reminder:breakfast:2026-10-18", mealType: "breakfast" },
+    ]);
+  });
+
+  it("should return nothing when notifications are disabled", () => {
+    const zoned = getZonedTime(new Date("2026-10-18T06:20:00Z"), "Europe/Berlin");
+    expect(getDueNotificationSlots({ ...preferences, enabled: false }, zoned, 30)).toEqual([]);
+  });
+
+  it("should treat overnight quiet hours as wrapping midnight", () => {
+    const quiet = { enabled: true, start: "22:00", end: "08:00" };
+    expect(isInQuietHours(quiet, 23 * 60)).toBe(true);
+    expect(isInQuietHours(quiet, 7 * 60 + 59)).toBe(true);
+    expect(isInQuietHours(quiet, 8 * 60)).toBe(false);
+    expect(isInQuietHours({ ...quiet, enabled: false }, 23 * 60)).toBe(false);
+  });
+
+  it("should detect the platform from the token format", () => {
+    expect(detectPushPlatform(APNS_TOKEN)).toBe("apns");
+    expect(detectPushPlatform('{"endpoint":"https://push.example"}')).toBe("webpush");
+    expect(detectPushPlatform(FCM_TOKEN)).toBe("fcm");
+  });
+});
+
+describe("NotificationDispatchService.deliver", () => {
+  let service: NotificationDispatchService;
+  let mockDeliveryModel: any;
+  let mockUserModel: any;
+  const payload = { type: "meal_reminder" as const, title: "Lunch", body: "Time to eat" };
+
+  beforeEach(async () => {
+    process.env.PUSH_TRANSPORT = "console";
+    resetPushTransports();
+    mockDeliveryModel = {
+      create: jest.fn().mockImplementation(async (doc) => ({ _id: "delivery-1", ...doc })),
+      updateOne: jest.fn().mockResolvedValue({ acknowledged: true }),
+    };
+    mockUserModel = { updateOne: jest.fn().mockResolvedValue({ acknowledged: true }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatchService,
+        NotificationService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getModelToken(DailyProgress.name), useValue: {} },
+        { provide: getModelToken(NotificationDelivery.name), useValue: mockDeliveryModel },
+        { provide: WeeklySummaryService, useValue: { getLatestSummary: jest.fn() } },
+        { provide: JobSchedulerService, useValue: { registerHandler: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(NotificationDispatchService);
+  });
+
+  afterEach(() => {
+    delete process.env.PUSH_TRANSPORT;
+    resetPushTransports();
+    jest.restoreAllMocks();
+  });
+
+  it("should send to every device and store masked receipts", async () => {
+    const delivery = await service.deliver(USER_ID, [FCM_TOKEN, APNS_TOKEN], payload, "slot-1");
+
+    expect(mockDeliveryModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ dedupKey: `${USER_ID}:slot-1`, type: "meal_reminder" })
+    );
+    expect(delivery?.status).toBe("sent");
+    expect(delivery?.receipts.map((r) => r.platform)).toEqual(["fcm", "apns"]);
+    expect(delivery?.receipts[0].token).not.toBe(FCM_TOKEN);
+  });
+
+  it("should not send a slot twice", async () => {
+    mockDeliveryModel.create.mockRejectedValueOnce(
+      Object.assign(new Error("duplicate key"), { code: 11000 })
+    );
+
+    expect(await service.deliver(USER_ID, [FCM_TOKEN], payload, "slot-1")).toBeNull();
+    expect(mockDeliveryModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should prune tokens the provider rejects", async () => {
+    const badSubscription = '{"endpoint": "https://push.example/1"}';
+
+    // Live web push transport, which rejects a subscription without keys
+    delete process.env.PUSH_TRANSPORT;
+    resetPushTransports();
+    const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const pub = publicKey.export({ format: "jwk" });
+    process.env.VAPID_PUBLIC_KEY = Buffer.concat([
+      Buffer.from([4]),
+      Buffer.from(pub.x!, "base64url"),
+      Buffer.from(pub.y!, "base64url"),
+    ]).toString("base64url");
+    process.env.VAPID_PRIVATE_KEY = privateKey.export({ format: "jwk" }).d!;
+    process.env.VAPID_SUBJECT = "mailto:test@example.com";
+
+    const pruned = await service.deliver(USER_ID, [badSubscription], payload, "slot-2");
+
+    expect(pruned?.status).toBe("failed");
+    expect(pruned?.receipts[0].status).toBe("invalid_token");
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $pull: { deviceTokens: { $in: [badSubscription] } } }
+    );
+
+    delete process.env.VAPID_PUBLIC_KEY;
+    delete process.env.VAPID_PRIVATE_KEY;
+    delete process.env.VAPID_SUBJECT;
+  });
+});
+
+describe("WebPushTransport", () => {
+  const keys = { p256dh: "p256dh", auth: "auth" };
+  const subscriptionFor = (endpoint: string) => JSON.stringify({ endpoint, keys });
+
+  it("should accept subscriptions from known push services", () => {
+    for (const endpoint of [
+      "https://fcm.googleapis.com/fcm/send/abc",
+      "https://updates.push.services.mozilla.com/wpush/v2/abc",
+      "https://web.push.apple.com/abc",
+      "https://db5p.notify.windows.com/w/?token=abc",
+    ]) {
+      expect(parseWebPushSubscription(subscriptionFor(endpoint)).endpoint).toBe(endpoint);
+    }
+  });
+
+  it("should reject endpoints that are not https push services", () => {
+    for (const endpoint of [
+      "http://fcm.googleapis.com/fcm/send/abc",
+      "https://169.254.169.254/latest/meta-data",
+      "https://localhost:8080/admin",
+      "https://fcm.googleapis.com.evil.example/abc",
+      "https://fcm.googleapis.com:8443/abc",
+    ]) {
+      expect(() => parseWebPushSubscription(subscriptionFor(endpoint))).toThrow();
+    }
+  });
+
+  it("should not post to an endpoint outside the allowlist", async () => {
+    const transport = new WebPushTransport({
+      publicKey: crypto.createECDH("prime256v1").generateKeys().toString("base64url"),
+      privateKey: crypto.randomBytes(32).toString("base64url"),
+      subject: "mailto:test@example.com",
+    });
+    const post = jest.spyOn(axios, "post");
+
+    const result = await transport.send(subscriptionFor("https://10.0.0.1/internal"), {
+      type: "meal_reminder",
+      title: "Dinner",
+      body: "Time to eat",
+    });
+
+    expect(result.status).toBe("invalid_token");
+    expect(post).not.toHaveBeenCalled();
+    post.mockRestore();
+  });
+
+  it("should encrypt a payload the browser can decrypt (RFC 8291)", async () => {
+    const vapidKeys = crypto.createECDH("prime256v1");
+    vapidKeys.generateKeys();
+    const transport = new WebPushTransport({
+      publicKey: vapidKeys.getPublicKey().toString("base64url"),
+      privateKey: vapidKeys.getPrivateKey().toString("base64url"),
+      subject: "mailto:test@example.com",
+    });
+
+    // Browser side of the subscription
+    const browser = crypto.createECDH("prime256v1");
+    const browserPublic = browser.generateKeys();
+    const authSecret = crypto.randomBytes(16);
+    const subscription = JSON.stringify({
+      endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+      keys: {
+        p256dh: browserPublic.toString("base64url"),
+        auth: authSecret.toString("base64url"),
+      },
+    });
+
+    const post = jest
+      .spyOn(axios, "post")
+      .mockResolvedValue({ status: 201, headers: { location: "msg-1" } });
+
+    const result = await transport.send(subscription, {
+      type: "meal_reminder",
+      title: "Dinner",
+      body: "Time to eat",
+    });
+    expect(result).toEqual({ status: "delivered", messageId: "msg-1" });
+
+    const [url, body, config] = post.mock.calls[0] as [string, Buffer, any];
+    expect(url).toBe("https://fcm.googleapis.com/fcm/send/abc");
+    expect(config.headers.Authorization).toMatch(/^vapid t=.+, k=/);
+
+    // Decrypt as the user agent would
+    const salt = body.subarray(0, 16);
+    const keyIdLength = body.readUInt8(20);
+    const serverPublic = body.subarray(21, 21 + keyIdLength);
+    const ciphertext = body.subarray(21 + keyIdLength);
+    const hmac = (key: Buffer, data: Buffer) =>
+      crypto.createHmac("sha256", key).update(data).digest();
+    const shared = browser.computeSecret(serverPublic);
+    const ikm = hmac(
+      hmac(authSecret, shared),
+      Buffer.concat([Buffer.from("WebPush: info\0"), browserPublic, serverPublic, Buffer.from([1])])
+    );
+    const prk = hmac(salt, ikm);
+    const key = hmac(prk, Buffer.from("Content-Encoding: aes128gcm\0\x01")).subarray(0, 16);
+    const nonce = hmac(prk, Buffer.from("Content-Encoding: nonce\0\x01")).subarray(0, 12);
+    const decipher = crypto.createDecipheriv("aes-128-gcm", key, nonce);
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+    const plain = Buffer.concat([
+      decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+      decipher.final(),
+    ]);
+
+    expect(plain[plain.length - 1]).toBe(2);
+    expect(JSON.parse(plain.subarray(0, -1).toString())).toMatchObject({ title: "Dinner" });
+    post.mockRestore();
+  });
+});
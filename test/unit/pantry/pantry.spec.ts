@@ -0,0 +1,127 @@
+/**
+ * Unit tests for pantry stock logic
+ * Tests:
+ * - Subtracting stock across units
+ * - Deducting from the lot that expires first
+ * - Shopping list subtraction
+ * - Prompt context for soon-to-expire items
+ */
+import {
+  parseQuantity,
+  subtractQuantities,
+} from "../../../src/utils/quantities";
+import {
+  PantryLot,
+  deductFromLots,
+  remainingAfterPantry,
+  buildPantryPromptContext,
+} from "../../../src/utils/pantry";
+
+const q = (amount: string) => parseQuantity(amount)!;
+
+describe("Pantry", () => {
+  describe("subtractQuantities", () => {
+    it("should subtract stock in a different unit", () => {
+      const { remaining, leftover } = subtractQuantities(
+        [q("1 lb")],
+        [q("200 g")],
+        "chicken_breast"
+      );
+      expect(Math.round(remaining[0].value)).toBe(254);
+      expect(leftover).toHaveLength(0);
+    });
+
+    it("should keep leftover stock when the need is covered", () => {
+      const { remaining, leftover } = subtractQuantities(
+        [q("300 ml")],
+        [q("1 l")],
+        "milk"
+      );
+      expect(remaining).toHaveLength(0);
+      expect(Math.round(leftover[0].value)).toBe(700);
+    });
+
+    it("should not subtract incompatible units", () => {
+      const { remaining, leftover } = subtractQuantities(
+        [q("2 cans")],
+        [q("400 g")],
+        "chickpea"
+      );
+      expect(remaining[0].value).toBe(2);
+      expect(leftover[0].value).toBe(400);
+    });
+  });
+
+  describe("deductFromLots", () => {
+    const lots: PantryLot[] = [
+      { id: "late", name: "Rice", quantities: [q("500 g")], expiresAt: "2025-06-01" },
+      { id: "none", name: "Rice", quantities: [q("1 kg")] },
+      { id: "early", name: "Rice", quantities: [q("150 g")], expiresAt: "2025-03-01" },
+    ];
+
+    it("should use the lot expiring first", () => {
+      const { updates, remaining } = deductFromLots(lots, [q("100 g")], "rice");
+      expect(remaining).toHaveLength(0);
+      expect(updates).toHaveLength(1);
+      expect(updates[0].id).toBe("early");
+      expect(Math.round(updates[0].quantities[0].value)).toBe(50);
+    });
+
+    it("should spill over into the next lot and mark depleted lots", () => {
+      const { updates } = deductFromLots(lots, [q("300 g")], "rice");
+      expect(updates.map((u) => u.id)).toEqual(["early", "late"]);
+      expect(updates[0].depleted).toBe(true);
+      expect(Math.round(updates[1].quantities[0].value)).toBe(350);
+    });
+
+    it("should skip lots without a tracked amount", () => {
+      const { updates, remaining } = deductFromLots(
+        [{ id: "salt", name: "Salt", quantities: [] }],
+        [q("1 tsp")],
+        "salt"
+      );
+      expect(updates).toHaveLength(0);
+      expect(remaining).toHaveLength(1);
+    });
+  });
+
+  describe("remainingAfterPantry", () => {
+    it("should reduce the amount to buy by the stock", () => {
+      const remaining = remainingAfterPantry(
+        [{ id: "a", name: "Oats", quantities: [q("200 g")] }],
+        [q("500 g")],
+        "oat"
+      );
+      expect(Math.round(remaining[0].value)).toBe(300);
+    });
+
+    it("should treat presence-only stock as enough", () => {
+      const remaining = remainingAfterPantry(
+        [{ id: "a", name: "Olive oil", quantities: [] }],
+        [q("2 tbsp")],
+        "olive_oil"
+      );
+      expect(remaining).toHaveLength(0);
+    });
+  });
+
+  describe("buildPantryPromptContext", () => {
+    it("should list only items expiring soon", () => {
+      const context = buildPantryPromptContext(
+        [
+          { id: "1", name: "Spinach", quantities: [], expiresAt: "2025-03-02" },
+          { id: "2", name: "Yogurt", quantities: [], expiresAt: "2025-03-20" },
+          { id: "3", name: "Milk", quantities: [], expiresAt: "2025-02-27" },
+        ],
+        "2025-03-01"
+      );
+      expect(context).toContain("Spinach");
+      expect(context).not.toContain("Yogurt");
+      expect(context).not.toContain("Milk");
+    });
+
+    it("should return an empty string when nothing expires soon", () => {
+      expect(buildPantryPromptContext([], "2025-03-01")).toBe("");
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for meal-prep scheduling
+ * Tests:
+ * - Cook sessions from cook days, with the first day always cooked
+ * - Splitting the dishes over sessions and slots
+ * - Fridge and freezer storage of leftovers
+ * - A week of days from the requested start
+ * - Shopping list and prep steps per cook day
+ */
+import {
+  buildPrepInstructions,
+  buildPrepShoppingList,
+  planPrepSessions,
+  prepPlanDateKeys,
+  PrepDish,
+} from "../../../src/utils/mealPrep";
+import { aggregateIngredients } from "../../../src/utils/helpers";
+import { IngredientTuple } from "../../../src/utils/householdMeals";
+
+// Monday 2026-10-19 to Sunday 2026-10-25
+const WEEK = ["2026-10-19", "2026-10-20", "2026-10-21", "2026-10-22", "2026-10-23", "2026-10-24", "2026-10-25"];
+
+describe("Meal Prep", () => {
+  describe("prepPlanDateKeys", () => {
+    it("should cover seven days from the requested start", () => {
+      expect(prepPlanDateKeys("2026-10-18", "2026-10-19")).toEqual(WEEK);
+      // Starting mid-week still gives a full week, not just the days to Sunday
+      expect(prepPlanDateKeys("2026-10-18", "2026-10-22")).toEqual([
+        "2026-10-22",
+        "2026-10-23",
+        "2026-10-24",
+        "2026-10-25",
+        "2026-10-26",
+        "2026-10-27",
+        "2026-10-28",
+      ]);
+    });
+
+    it("should start today when no start is given or it has passed", () => {
+      expect(prepPlanDateKeys("2026-10-19")).toEqual(WEEK);
+      expect(prepPlanDateKeys("2026-10-19", "2026-10-12")).toEqual(WEEK);
+    });
+  });
+
+  describe("planPrepSessions", () => {
+    it("should start a session on each cook day and on the first day", () => {
+      const sessions = planPrepSessions(WEEK, ["sunday", "wednesday"], 4);
+
+      expect(sessions.map((s) => [s.cookDateKey, s.dateKeys])).toEqual([
+        ["2026-10-19", ["2026-10-19", "2026-10-20"]],
+        ["2026-10-21", ["2026-10-21", "2026-10-22", "2026-10-23", "2026-10-24"]],
+        ["2026-10-25", ["2026-10-25"]],
+      ]);
+      // The extra dish goes to the longest session
+      expect(sessions.map((s) => s.dishes.map((d) => d.dishIndex))).toEqual([[0], [1, 2], [3]]);
+    });
+
+    it("should hand the dishes out over the slots in turn and mark leftovers", () => {
+      const [, wednesday] = planPrepSessions(WEEK, ["wednesday"], 3);
+      const [first, second] = wednesday.dishes;
+
+      expect(first.slots.map((s) => `${s.dateKey} ${s.mealType}`)).toEqual([
+        "2026-10-21 lunch",
+        "2026-10-22 lunch",
+        "2026-10-23 lunch",
+        "2026-10-24 lunch",
+        "2026-10-25 lunch",
+      ]);
+      expect(second.slots[0]).toEqual({
+        dateKey: "2026-10-21",
+        mealType: "dinner",
+        role: "cook",
+        storage: "fresh",
+      });
+      expect(second.slots[1]).toEqual({
+        dateKey: "2026-10-22",
+        mealType: "dinner",
+        role: "leftover",
+        storage: "fridge",
+      });
+    });
+
+    it("should freeze portions eaten more than three days after cooking", () => {
+      const [session] = planPrepSessions(WEEK, ["monday"], 2, ["lunch"]);
+      const [a, b] = session.dishes;
+
+      expect(a.slots.map((s) => s.dateKey)).toEqual(["2026-10-19", "2026-10-21", "2026-10-23", "2026-10-25"]);
+      expect(a.slots.map((s) => s.storage)).toEqual(["fresh", "fridge", "freezer", "freezer"]);
+      expect(b.slots.map((s) => s.storage)).toEqual(["fridge", "fridge", "freezer"]);
+    });
+
+    it("should give a session no more dishes than it has slots", () => {
+      const sessions = planPrepSessions(["2026-10-25"], ["sunday"], 5);
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].dishes).toHaveLength(2);
+    });
+
+    it("should give every session a dish even with fewer recipes than sessions", () => {
+      const sessions = planPrepSessions(WEEK, ["wednesday", "friday"], 1);
+
+      expect(sessions.map((s) => s.dishes.length)).toEqual([1, 1, 1]);
+    });
+  });
+
+  describe("buildPrepShoppingList", () => {
+    it("should buy each dish for all its portions plus the other meals", () => {
+      const [session] = planPrepSessions(WEEK.slice(0, 2), ["monday"], 1);
+      const dishes: PrepDish[] = [{ name: "Chili", ingredients: [["ground_beef", "150 g", "meat"]] }];
+
+      const list = buildPrepShoppingList(session, dishes, [
+        { ingredients: [["oats", "50 g"]] },
+        { ingredients: [["oats", "50 g"]] },
+      ]);
+
+      expect(list.find((item) => item.name === "ground_beef")?.amount).toBe("600 g");
+      expect(list.find((item) => item.name === "oats")?.amount).toBe("100 g");
+    });
+
+    it("should add up over the sessions to the list of the whole plan", () => {
+      const sessions = planPrepSessions(WEEK, ["thursday"], 2);
+      const dishes: PrepDish[] = [
+        { name: "Chili", ingredients: [["ground_beef", "150 g", "meat"]] },
+        { name: "Curry", ingredients: [["chickpeas", "100 g"], ["rice", "75 g"]] },
+      ];
+      const breakfast = { ingredients: [["oats", "50 g"]] as IngredientTuple[] };
+
+      const perSession = sessions.flatMap((session) =>
+        buildPrepShoppingList(
+          session,
+          dishes,
+          session.dateKeys.map(() => breakfast)
+        ).map((item): IngredientTuple => [item.name, item.amount])
+      );
+      // What the plan's shopping list aggregates: every meal of every day
+      const wholePlan = [
+        ...sessions.flatMap((session) =>
+          session.dishes.flatMap(({ dishIndex, slots }) => slots.map(() => dishes[dishIndex].ingredients))
+        ),
+        ...WEEK.map(() => breakfast.ingredients),
+      ].flat();
+
+      const amounts = (items: IngredientTuple[]) =>
+        Object.fromEntries(aggregateIngredients(items).map((item) => [item.name, item.amount]));
+      expect(amounts(perSession)).toEqual(amounts(wholePlan));
+    });
+  });
+
+  describe("buildPrepInstructions", () => {
+    const dishes: PrepDish[] = [
+      { name: "Chili", ingredients: [["onion", "1"], ["salt", "1 tsp"]], prepTime: 20 },
+      { name: "Curry", ingredients: [["onion", "1"], ["salt", "1 tsp"]], prepTime: 45, steps: ["Simmer the sauce"] },
+    ];
+
+    it("should prep shared ingredients together and start the slowest dish", () => {
+      const [session] = planPrepSessions(WEEK.slice(0, 2), ["monday"], 2);
+
+      const steps = buildPrepInstructions(session, dishes);
+
+      expect(steps[0]).toBe("Prep onion (4) in one go for Chili and Curry");
+      expect(steps.some((step) => /salt/.test(step))).toBe(false);
+      expect(steps[1]).toBe("Cook Curry: 2 portions (about 45 min), start it first");
+      expect(steps[2]).toBe("Curry: Simmer the sauce");
+      expect(steps[3]).toBe("Cook Chili: 2 portions (about 20 min)");
+      expect(steps).toContain("Let Chili cool, then portion it: 1 to eat today, 1 for the fridge (eat by 2026-10-22)");
+    });
+
+    it("should say which portions go in the freezer", () => {
+      const [session] = planPrepSessions(WEEK, ["monday"], 1, ["dinner"]);
+
+      const steps = buildPrepInstructions(session, dishes.slice(0, 1));
+
+      expect(steps).toEqual([
+        "Cook Chili: 7 portions (about 20 min)",
+        "Let Chili cool, then portion it: 1 to eat today, 3 for the fridge (eat by 2026-10-22), " +
+          "3 for the freezer (thaw in the fridge the night before)",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for plan history week resolution
+ * Tests:
+ * - Any date maps to the Monday of its Mon–Sun week
+ * - Legacy plans without weekStart resolve from their dates
+ * - Retiring the current plan archives it instead of deleting it
+ * - Legacy plans get their weekStart stored
+ */
+import mongoose from "mongoose";
+import { getWeekStartKey } from "../../../src/utils/helpers";
+import {
+  archiveCurrentPlan,
+  backfillPlanWeekStart,
+  resolvePlanWeekStart,
+} from "../../../src/plan/plan-history";
+
+describe("Plan History", () => {
+  describe("getWeekStartKey", () => {
+    it("should return the same day for a Monday", () => {
+      // Monday, December 15, 2025
+      expect(getWeekStartKey(new Date(2025, 11, 15))).toBe("2025-12-15");
+    });
+
+    it("should return the previous Monday for a mid-week date", () => {
+      // Wednesday, December 17, 2025
+      expect(getWeekStartKey(new Date(2025, 11, 17))).toBe("2025-12-15");
+    });
+
+    it("should treat Sunday as the last day of the week", () => {
+      // Sunday, December 21, 2025
+      expect(getWeekStartKey(new Date(2025, 11, 21))).toBe("2025-12-15");
+    });
+
+    it("should cross month boundaries", () => {
+      // Thursday, January 1, 2026
+      expect(getWeekStartKey(new Date(2026, 0, 1))).toBe("2025-12-29");
+    });
+  });
+
+  describe("resolvePlanWeekStart", () => {
+    it("should prefer the stored weekStart", () => {
+      expect(
+        resolvePlanWeekStart({
+          weekStart: "2025-12-08",
+          weeklyPlan: { "2025-12-17": {} },
+        })
+      ).toBe("2025-12-08");
+    });
+
+    it("should use the earliest plan date for legacy plans", () => {
+      expect(
+        resolvePlanWeekStart({
+          weeklyPlan: { "2025-12-21": {}, "2025-12-18": {} },
+        })
+      ).toBe("2025-12-15");
+    });
+
+    it("should fall back to createdAt when the plan has no days", () => {
+      expect(
+        resolvePlanWeekStart({
+          weeklyPlan: {},
+          createdAt: new Date(2025, 11, 20, 9, 30),
+        })
+      ).toBe("2025-12-15");
+    });
+  });
+
+  describe("archiveCurrentPlan", () => {
+    const userId = new mongoose.Types.ObjectId();
+    let planModel: any;
+
+    beforeEach(() => {
+      planModel = {
+        find: jest.fn(),
+        updateOne: jest.fn().mockResolvedValue({}),
+        deleteOne: jest.fn(),
+      };
+    });
+
+    it("should archive a plan from an earlier week", async () => {
+      planModel.find.mockResolvedValue([{ _id: "old", weekStart: "2025-12-08" }]);
+
+      await archiveCurrentPlan(planModel, userId, "2025-12-15");
+
+      const [filter, update] = planModel.updateOne.mock.calls[0];
+      expect(filter).toEqual({ _id: "old" });
+      expect(update.$set).toMatchObject({ isCurrent: false, weekStart: "2025-12-08" });
+      expect(update.$set.supersededAt).toBeUndefined();
+    });
+
+    it("should keep a plan replaced within its own week, marked superseded", async () => {
+      planModel.find.mockResolvedValue([{ _id: "same", weekStart: "2025-12-15" }]);
+
+      await archiveCurrentPlan(planModel, userId, "2025-12-15");
+
+      expect(planModel.deleteOne).not.toHaveBeenCalled();
+      const [, update] = planModel.updateOne.mock.calls[0];
+      expect(update.$set).toMatchObject({ isCurrent: false, weekStart: "2025-12-15" });
+      expect(update.$set.supersededAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("backfillPlanWeekStart", () => {
+    it("should store the resolved week on plans without one", async () => {
+      const planModel: any = {
+        find: jest.fn().mockReturnValue({
+          select: () => ({
+            lean: jest.fn().mockResolvedValue([
+              { _id: "legacy", weeklyPlan: { "2025-12-17": {}, "2025-12-18": {} } },
+            ]),
+          }),
+        }),
+        bulkWrite: jest.fn().mockResolvedValue({}),
+      };
+
+      await backfillPlanWeekStart(planModel);
+
+      expect(planModel.find).toHaveBeenCalledWith({ weekStart: { $exists: false } });
+      expect(planModel.bulkWrite).toHaveBeenCalledWith([
+        { updateOne: { filter: { _id: "legacy" }, update: { $set: { weekStart: "2025-12-15" } } } },
+      ]);
+    });
+  });
+});
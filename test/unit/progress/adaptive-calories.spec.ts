@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the adaptive calorie target
+ * Tests:
+ * - Insufficient data keeps the current target
+ * - Maintenance estimate from intake and weight trend
+ * - Safety limits (safe minimum, max step)
+ */
+import { calculateAdaptiveTarget } from "../../../src/utils/adaptiveCalories";
+import { WeightTrendPoint } from "../../../src/utils/weightTrend";
+
+const dateKey = (day: number) =>
+  `2025-03-${String(day).padStart(2, "0")}`;
+
+const buildIntake = (days: number, calories: number) =>
+  Array.from({ length: days }, (_, i) => ({ dateKey: dateKey(i + 1), calories }));
+
+const buildTrend = (days: number, start: number, dailyChange: number) =>
+  Array.from(
+    { length: days },
+    (_, i): WeightTrendPoint => ({
+      dateKey: dateKey(i + 1),
+      weight: start + i * dailyChange,
+      trend: start + i * dailyChange,
+    })
+  );
+
+describe("Adaptive Calories", () => {
+  it("should keep the current target with less than two weeks of data", () => {
+    const result = calculateAdaptiveTarget({
+      intake: buildIntake(7, 2000),
+      trend: buildTrend(7, 80, 0),
+      formulaTdee: 2400,
+      currentTargetCalories: 1900,
+      path: "lose",
+      gender: "male",
+    });
+    expect(result.status).toBe("insufficient_data");
+    expect(result.targetCalories).toBe(1900);
+  });
+
+  it("should estimate maintenance equal to intake when weight is stable", () => {
+    const result = calculateAdaptiveTarget({
+      intake: buildIntake(29, 2200),
+      trend: buildTrend(29, 80, 0),
+      formulaTdee: 2200,
+      currentTargetCalories: 2200,
+      path: "healthy",
+      gender: "male",
+    });
+    expect(result.observedTdee).toBe(2200);
+    expect(result.status).toBe("unchanged");
+  });
+
+  it("should raise the estimate when losing weight faster than expected", () => {
+    // 0.1 kg/day loss at 2000 kcal → ~2770 kcal maintenance
+    const result = calculateAdaptiveTarget({
+      intake: buildIntake(29, 2000),
+      trend: buildTrend(29, 85, -0.1),
+      formulaTdee: 2300,
+      currentTargetCalories: 1800,
+      path: "lose",
+      gender: "male",
+    });
+    expect(result.observedTdee).toBeGreaterThan(2700);
+    expect(result.status).toBe("adjusted");
+    expect(result.targetCalories).toBe(2100);
+    expect(result.limitedBy).toBe("max_step");
+  });
+
+  it("should never go below the safe minimum", () => {
+    const result = calculateAdaptiveTarget({
+      intake: buildIntake(29, 1300),
+      trend: buildTrend(29, 60, 0.01),
+      formulaTdee: 1500,
+      currentTargetCalories: 1250,
+      path: "lose",
+      gender: "female",
+    });
+    expect(result.targetCalories).toBeGreaterThanOrEqual(1200);
+    expect(result.explanation.length).toBeGreaterThan(0);
+  });
+
+  it("should ignore partially logged days", () => {
+    const intake = buildIntake(29, 2200).map((d, i) =>
+      i % 2 === 0 ? d : { ...d, calories: 300 }
+    );
+    const result = calculateAdaptiveTarget({
+      intake,
+      trend: buildTrend(29, 80, 0),
+      formulaTdee: 2200,
+      path: "healthy",
+      gender: "male",
+    });
+    expect(result.averageIntake).toBe(2200);
+    expect(result.loggedDays).toBe(15);
+  });
+});
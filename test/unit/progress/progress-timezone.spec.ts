@@ -0,0 +1,158 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { ProgressTimezoneService } from "../../../src/progress/progress-timezone.service";
+import { DailyProgress } from "../../../src/progress/progress.model";
+import { User } from "../../../src/user/user.model";
+import { EventBus } from "../../../src/events/event-bus";
+import { OutboxEvent } from "../../../src/events/event-outbox.model";
+import { JobSchedulerService } from "../../../src/jobs/job-scheduler.service";
+import {
+  addDaysToDateKey,
+  getUserDay,
+  getUserToday,
+  getZonedDayEnd,
+  getZonedDayStart,
+} from "../../../src/utils/timezone";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+
+// Let the bus run its subscribers (they start on setImmediate)
+const flushEvents = () => new Promise((resolve) => setImmediate(() => setImmediate(resolve)));
+
+describe("zoned day boundaries", () => {
+  it("should put the user in their local calendar day", () => {
+    // 23:30 UTC on the 18th is already the 19th in Berlin, still the 18th in New York
+    const now = new Date("2026-10-18T23:30:00Z");
+    expect(getUserDay("Europe/Berlin", now)).toMatchObject({
+      dateKey: "2026-10-19",
+      start: new Date("2026-10-18T22:00:00Z"),
+    });
+    expect(getUserDay("America/New_York", now)).toMatchObject({
+      dateKey: "2026-10-18",
+      start: new Date("2026-10-18T04:00:00Z"),
+      end: new Date("2026-10-19T03:59:59.999Z"),
+    });
+  });
+
+  it("should handle days next to a DST change", () => {
+    // Europe switches to winter time on 2026-10-25, so that day is 25 hours long
+    const start = getZonedDayStart("2026-10-25", "Europe/Berlin");
+    const end = getZonedDayEnd("2026-10-25", "Europe/Berlin");
+    expect(start.toISOString()).toBe("2026-10-24T22:00:00.000Z");
+    expect(end.getTime() - start.getTime() + 1).toBe(25 * 60 * 60 * 1000);
+    expect(getZonedDayStart("2026-03-08", "America/New_York").toISOString()).toBe(
+      "2026-03-08T05:00:00.000Z"
+    );
+  });
+
+  it("should give the user's day as a server-clock date for plan days", () => {
+    const now = new Date("2026-10-18T23:30:00Z");
+    const today = getUserToday("Europe/Berlin", now);
+    expect([today.getFullYear(), today.getMonth() + 1, today.getDate(), today.getHours()]).toEqual([
+      2026, 10, 19, 0,
+    ]);
+    expect(getUserToday("America/New_York", now).getDate()).toBe(18);
+  });
+
+  it("should do calendar arithmetic on date keys", () => {
+    expect(addDaysToDateKey("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDaysToDateKey("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
+
+describe("ProgressTimezoneService", () => {
+  let service: ProgressTimezoneService;
+  let eventBus: EventBus;
+  let mockProgressModel: any;
+  let mockJobScheduler: any;
+
+  const givenProgress = (docs: any[]) => {
+    mockProgressModel.find.mockReturnValue({
+      select: () => ({
+        lean: () => ({
+          cursor: () =>
+            (async function* () {
+              yield* docs;
+            })(),
+        }),
+      }),
+    });
+  };
+
+  beforeEach(async () => {
+    mockProgressModel = {
+      find: jest.fn(),
+      bulkWrite: jest.fn().mockImplementation(async (ops) => ({ modifiedCount: ops.length })),
+    };
+    mockJobScheduler = {
+      registerHandler: jest.fn(),
+      schedule: jest.fn().mockResolvedValue({}),
+    };
+    const mockUserModel = {
+      findById: jest.fn().mockReturnValue({
+        select: () => ({ lean: jest.fn().mockResolvedValue({ timezone: "Asia/Tokyo" }) }),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProgressTimezoneService,
+        EventBus,
+        { provide: getModelToken(DailyProgress.name), useValue: mockProgressModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: JobSchedulerService, useValue: mockJobScheduler },
+        {
+          provide: getModelToken(OutboxEvent.name),
+          useValue: {
+            create: jest.fn().mockResolvedValue({ _id: "event-1" }),
+            updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ProgressTimezoneService);
+    eventBus = module.get(EventBus);
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should move each day to local midnight of its dateKey and keep the key", async () => {
+    givenProgress([
+      { _id: "p1", dateKey: "2026-10-17", date: new Date("2026-10-17T00:00:00Z") },
+      // Already aligned to Tokyo midnight
+      { _id: "p2", dateKey: "2026-10-18", date: new Date("2026-10-17T15:00:00Z") },
+    ]);
+
+    const result = await service.realignProgressDates(USER_ID);
+
+    expect(result).toEqual({ updated: 1 });
+    expect(mockProgressModel.bulkWrite).toHaveBeenCalledWith(
+      [
+        {
+          updateOne: {
+            filter: { _id: "p1" },
+            update: { $set: { date: new Date("2026-10-16T15:00:00Z") } },
+          },
+        },
+      ],
+      { ordered: false }
+    );
+  });
+
+  it("should queue a realignment when the user's timezone changes", async () => {
+    await eventBus.publish("user.timezone_changed", {
+      userId: USER_ID,
+      timeZone: "Asia/Tokyo",
+      previousTimeZone: "UTC",
+    });
+    await flushEvents();
+
+    expect(mockJobScheduler.schedule).toHaveBeenCalledWith("progress.realign-dates", {
+      userId: USER_ID,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for weight trend calculations
+ * Tests:
+ * - Daily averaging and exponential smoothing
+ * - Weekly rate of change
+ * - Goal date projection
+ */
+import {
+  calculateWeightTrend,
+  calculateWeeklyRate,
+  projectGoalDate,
+} from "../../../src/utils/weightTrend";
+
+describe("Weight Trend", () => {
+  describe("calculateWeightTrend", () => {
+    it("should average multiple weigh-ins on the same day", () => {
+      const points = calculateWeightTrend([
+        { dateKey: "2025-01-01", weight: 80 },
+        { dateKey: "2025-01-01", weight: 81 },
+      ]);
+      expect(points).toHaveLength(1);
+      expect(points[0].weight).toBe(80.5);
+      expect(points[0].trend).toBe(80.5);
+    });
+
+    it("should smooth a single outlier day", () => {
+      const points = calculateWeightTrend([
+        { dateKey: "2025-01-01", weight: 80 },
+        { dateKey: "2025-01-02", weight: 83 },
+      ]);
+      expect(points[1].weight).toBe(83);
+      expect(points[1].trend).toBe(80.3);
+    });
+
+    it("should move the trend further across a gap", () => {
+      const nextDay = calculateWeightTrend([
+        { dateKey: "2025-01-01", weight: 80 },
+        { dateKey: "2025-01-02", weight: 78 },
+      ]);
+      const nextWeek = calculateWeightTrend([
+        { dateKey: "2025-01-01", weight: 80 },
+        { dateKey: "2025-01-08", weight: 78 },
+      ]);
+      expect(nextWeek[1].trend).toBeLessThan(nextDay[1].trend);
+    });
+
+    it("should sort entries by date and ignore invalid weights", () => {
+      const points = calculateWeightTrend([
+        { dateKey: "2025-01-03", weight: 79 },
+        { dateKey: "2025-01-01", weight: 80 },
+        { dateKey: "2025-01-02", weight: 0 },
+      ]);
+      expect(points.map((p) => p.dateKey)).toEqual([
+        "2025-01-01",
+        "2025-01-03",
+      ]);
+    });
+  });
+
+  describe("calculateWeeklyRate", () => {
+    it("should return null with fewer than two days", () => {
+      const points = calculateWeightTrend([{ dateKey: "2025-01-01", weight: 80 }]);
+      expect(calculateWeeklyRate(points)).toBeNull();
+    });
+
+    it("should report a negative rate for steady loss", () => {
+      const weighIns = Array.from({ length: 21 }, (_, i) => ({
+        dateKey: `2025-01-${String(i + 1).padStart(2, "0")}`,
+        weight: 90 - i * 0.1,
+      }));
+      const rate = calculateWeeklyRate(calculateWeightTrend(weighIns));
+      expect(rate).toBeLessThan(0);
+    });
+  });
+
+  describe("projectGoalDate", () => {
+    it("should project a date when moving toward the target", () => {
+      const projection = projectGoalDate(80, -0.5, 78, "2025-01-01");
+      expect(projection.daysToGoal).toBe(28);
+      expect(projection.projectedDate).toBe("2025-01-29");
+    });
+
+    it("should not project when moving away from the target", () => {
+      const projection = projectGoalDate(80, 0.5, 78, "2025-01-01");
+      expect(projection.projectedDate).toBeNull();
+      expect(projection.reason).toBe("wrong_direction");
+    });
+
+    it("should not project when the trend is flat", () => {
+      const projection = projectGoalDate(80, 0, 78, "2025-01-01");
+      expect(projection.reason).toBe("no_trend");
+    });
+
+    it("should report the goal as reached", () => {
+      const projection = projectGoalDate(78.05, -0.5, 78, "2025-01-01");
+      expect(projection.reason).toBe("reached");
+      expect(projection.daysToGoal).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { ConfigService } from "@nestjs/config";
+import { HttpStatus } from "@nestjs/common";
+import { QuotaService } from "../../../src/quota/quota.service";
+import { QuotaUsage } from "../../../src/quota/quota-usage.model";
+import { User } from "../../../src/user/user.model";
+import {
+  QuotaExceededException,
+  QuotaNotIncludedException,
+} from "../../../src/quota/quota.exceptions";
+import {
+  SubscriptionTier,
+  getUpgradeTierForQuota,
+} from "../../../src/enums/enumSubscription";
+import { getQuotaWindow } from "../../../src/utils/quotaPeriods";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+
+describe("QuotaService", () => {
+  let service: QuotaService;
+  let mockQuotaModel: any;
+  let mockUserModel: any;
+  let env: Record<string, string>;
+
+  const givenUser = (user: { subscriptionTier?: string; role?: string } | null) =>
+    mockUserModel.findById.mockReturnValue({
+      select: () => ({ lean: jest.fn().mockResolvedValue(user) }),
+    });
+
+  beforeEach(async () => {
+    env = {};
+    mockQuotaModel = {
+      updateOne: jest.fn().mockResolvedValue({ acknowledged: true }),
+      findOne: jest.fn(),
+      find: jest.fn(),
+    };
+    mockUserModel = { findById: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuotaService,
+        { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+        { provide: getModelToken(QuotaUsage.name), useValue: mockQuotaModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+      ],
+    }).compile();
+
+    service = module.get<QuotaService>(QuotaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("getLimit", () => {
+    it("should use the tier defaults", () => {
+      expect(service.getLimit(SubscriptionTier.FREE, "chatMessage")).toBe(10);
+      expect(service.getLimit(SubscriptionTier.PREMIUM, "photoRecognition")).toBe(30);
+    });
+
+    it("should apply env overrides", () => {
+      env.AI_QUOTA_FREE_CHAT_MESSAGE = "25";
+      env.AI_QUOTA_PREMIUM_WEEKLY_PLAN_GENERATION = "unlimited";
+      expect(service.getLimit(SubscriptionTier.FREE, "chatMessage")).toBe(25);
+      expect(
+        service.getLimit(SubscriptionTier.PREMIUM, "weeklyPlanGeneration")
+      ).toBeNull();
+    });
+  });
+
+  describe("consume", () => {
+    it("should count a use only while under the limit", async () => {
+      givenUser({ subscriptionTier: "free" });
+
+      const consumption = await service.consume(USER_ID, "chatMessage");
+
+      const [filter, update, options] = mockQuotaModel.updateOne.mock.calls[0];
+      expect(filter.count).toEqual({ $lt: 10 });
+      expect(filter.periodStart).toEqual(getQuotaWindow("day").start);
+      expect(update.$inc).toEqual({ count: 1 });
+      expect(options).toEqual({ upsert: true });
+      expect(consumption.key).toBe("chatMessage");
+    });
+
+    it("should throw 429 when the period allowance is used up", async () => {
+      givenUser({ subscriptionTier: "free" });
+      mockQuotaModel.updateOne.mockRejectedValue({ code: 11000 });
+      mockQuotaModel.findOne.mockReturnValue({
+        lean: jest.fn().mockResolvedValue({ count: 10 }),
+      });
+
+      const error = await service.consume(USER_ID, "chatMessage").catch((e) => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededException);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.getResponse()).toMatchObject({
+        quota: "chatMessage",
+        limit: 10,
+        used: 10,
+        upgradeTier: SubscriptionTier.PLUS,
+      });
+    });
+
+    it("should throw 402 when the tier does not include the action", async () => {
+      givenUser({ subscriptionTier: "plus" });
+
+      const error = await service.consume(USER_ID, "photoRecognition").catch((e) => e);
+
+      expect(error).toBeInstanceOf(QuotaNotIncludedException);
+      expect(error.getStatus()).toBe(HttpStatus.PAYMENT_REQUIRED);
+      expect(mockQuotaModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("should give admins premium limits", async () => {
+      givenUser({ subscriptionTier: "free", role: "admin" });
+
+      await service.consume(USER_ID, "photoRecognition");
+
+      expect(mockQuotaModel.updateOne.mock.calls[0][0].count).toEqual({ $lt: 30 });
+    });
+  });
+
+  describe("getQuotaStatus", () => {
+    it("should report remaining uses per action", async () => {
+      givenUser({ subscriptionTier: "plus" });
+      mockQuotaModel.find.mockReturnValue({
+        lean: jest.fn().mockResolvedValue([{ key: "chatMessage", count: 12 }]),
+      });
+
+      const status = await service.getQuotaStatus(USER_ID);
+
+      expect(status.chatMessage).toMatchObject({ limit: 50, used: 12, remaining: 38, period: "day" });
+      expect(status.weeklyPlanGeneration).toMatchObject({ limit: 5, used: 0, remaining: 5 });
+      expect(status.weeklyPlanGeneration.resetsAt).toEqual(getQuotaWindow("week").end);
+    });
+  });
+});
+
+describe("Quota helpers", () => {
+  it("should start weeks on Monday (UTC)", () => {
+    const { start, end } = getQuotaWindow("week", new Date("2026-10-18T15:00:00Z")); // Sunday
+    expect(start.toISOString()).toBe("2026-10-12T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-10-19T00:00:00.000Z");
+  });
+
+  it("should suggest the cheapest tier with a higher limit", () => {
+    expect(getUpgradeTierForQuota(SubscriptionTier.FREE, "photoRecognition")).toBe(
+      SubscriptionTier.PREMIUM
+    );
+    expect(getUpgradeTierForQuota(SubscriptionTier.PREMIUM, "chatMessage")).toBeNull();
+  });
+});
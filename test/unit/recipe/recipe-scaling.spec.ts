@@ -0,0 +1,63 @@
+/**
+ * Unit tests for recipe scaling
+ * Tests:
+ * - Scaling to a number of servings
+ * - Resizing the portion to a calorie target
+ * - Per-serving and total macros
+ */
+import { getRecipeScaling, scaleRecipe } from "../../../src/utils/recipeScaling";
+
+describe("Recipe Scaling", () => {
+  const recipe = {
+    servings: 2,
+    macros: { calories: 500, protein: 30, carbs: 55, fat: 15 },
+    ingredients: [
+      { name: "chicken breast", amount: "300", unit: "g" },
+      { name: "olive oil", amount: "1", unit: "tbsp" },
+      { name: "eggs", amount: "2", unit: "" },
+      { name: "salt", amount: "to taste", unit: "" },
+    ],
+  };
+
+  it("should scale ingredients to the servings cooked and keep per-serving macros", () => {
+    const scaled = scaleRecipe(recipe, { servings: 5 });
+
+    expect(scaled.scaling).toEqual({ baseServings: 2, servings: 5, portionFactor: 1, factor: 2.5 });
+    expect(scaled.servings).toBe(5);
+    expect(scaled.macros).toEqual(recipe.macros);
+    expect(scaled.totalMacros).toEqual({ calories: 2500, protein: 150, carbs: 275, fat: 75 });
+    expect(scaled.ingredients).toEqual([
+      { name: "chicken breast", amount: "750", unit: "g" },
+      { name: "olive oil", amount: "2.5", unit: "tbsp" },
+      { name: "eggs", amount: "5", unit: "" },
+      { name: "salt", amount: "to taste", unit: "" },
+    ]);
+  });
+
+  it("should resize the portion to a calorie target", () => {
+    const scaled = scaleRecipe(recipe, { targetCalories: 400 });
+
+    expect(scaled.scaling.portionFactor).toBe(0.8);
+    expect(scaled.servings).toBe(2);
+    expect(scaled.macros).toEqual({ calories: 400, protein: 24, carbs: 44, fat: 12 });
+    expect(scaled.ingredients[0]).toEqual({ name: "chicken breast", amount: "240", unit: "g" });
+  });
+
+  it("should combine servings and a calorie target", () => {
+    expect(getRecipeScaling(recipe, { servings: 4, targetCalories: 750 })).toEqual({
+      baseServings: 2,
+      servings: 4,
+      portionFactor: 1.5,
+      factor: 3,
+    });
+  });
+
+  it("should ignore a calorie target when the recipe has no calories", () => {
+    const scaling = getRecipeScaling({ servings: 1, macros: { calories: 0, protein: 0, carbs: 0, fat: 0 } }, {
+      targetCalories: 600,
+    });
+
+    expect(scaling.portionFactor).toBe(1);
+    expect(scaling.factor).toBe(1);
+  });
+});
@@ -148,11 +148,23 @@ describe("RecipeController", () => {
       const expectedResult = { success: true, data: mockRecipe };
       mockRecipeService.findById.mockResolvedValue(expectedResult);
 
-      const result = await controller.findById("507f1f77bcf86cd799439011");
+      const result = await controller.findById("507f1f77bcf86cd799439011", {});
 
       expect(result).toEqual(expectedResult);
       expect(mockRecipeService.findById).toHaveBeenCalledWith(
-        "507f1f77bcf86cd799439011"
+        "507f1f77bcf86cd799439011",
+        {}
+      );
+    });
+
+    it("should pass the scaling options on", async () => {
+      mockRecipeService.findById.mockResolvedValue({ success: true, data: mockRecipe });
+
+      await controller.findById("507f1f77bcf86cd799439011", { servings: 4 });
+
+      expect(mockRecipeService.findById).toHaveBeenCalledWith(
+        "507f1f77bcf86cd799439011",
+        { servings: 4 }
       );
     });
   });
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for unit-aware shopping list aggregation
+ * Tests:
+ * - Parsing free-text amounts into normalized quantities
+ * - Merging mass, volume and count quantities
+ * - Formatting in metric and imperial units
+ * - Aggregating a week's ingredients per ingredient
+ * - Scaling amounts with kitchen-friendly rounding
+ */
+import {
+  parseQuantity,
+  mergeQuantities,
+  formatQuantity,
+  scaleAmount,
+  scaleAmountText,
+} from "../../../src/utils/quantities";
+import {
+  aggregateIngredients,
+  getIngredientKey,
+} from "../../../src/utils/helpers";
+
+describe("Shopping Quantities", () => {
+  describe("parseQuantity", () => {
+    it("should parse metric mass with and without a space", () => {
+      expect(parseQuantity("200g")).toEqual({ value: 200, unit: "g", dimension: "mass" });
+      expect(parseQuantity("1.5 kg")).toEqual({ value: 1500, unit: "g", dimension: "mass" });
+    });
+
+    it("should convert imperial mass to grams", () => {
+      expect(parseQuantity("1 lb")!.value).toBeCloseTo(453.6, 1);
+    });
+
+    it("should parse fractions and mixed numbers", () => {
+      expect(parseQuantity("1/2 cup")!.value).toBeCloseTo(118.3, 1);
+      expect(parseQuantity("1 1/2 cups")!.value).toBeCloseTo(354.9, 1);
+      expect(parseQuantity("½ tsp")!.value).toBeCloseTo(2.46, 2);
+    });
+
+    it("should keep count units in singular form", () => {
+      expect(parseQuantity("2 cloves")).toEqual({ value: 2, unit: "clove", dimension: "count" });
+      expect(parseQuantity("3")).toEqual({ value: 3, unit: "piece", dimension: "count" });
+    });
+
+    it("should return null for amounts without a number", () => {
+      expect(parseQuantity("to taste")).toBeNull();
+      expect(parseQuantity("")).toBeNull();
+    });
+  });
+
+  describe("mergeQuantities", () => {
+    it("should sum metric and imperial mass into grams", () => {
+      const merged = mergeQuantities(
+        [parseQuantity("200 g")!, parseQuantity("1 lb")!],
+        "chicken_breast"
+      );
+      expect(merged).toHaveLength(1);
+      expect(Math.round(merged[0].value)).toBe(654);
+    });
+
+    it("should convert volume to mass using food density", () => {
+      const merged = mergeQuantities(
+        [parseQuantity("100 g")!, parseQuantity("1 cup")!],
+        "rice"
+      );
+      expect(merged).toHaveLength(1);
+      expect(merged[0].unit).toBe("g");
+    });
+
+    it("should keep incompatible quantities separate", () => {
+      const merged = mergeQuantities(
+        [parseQuantity("200 g")!, parseQuantity("2 cans")!],
+        "chickpea"
+      );
+      expect(merged).toHaveLength(2);
+    });
+  });
+
+  describe("formatQuantity", () => {
+    it("should format large metric quantities in kg", () => {
+      expect(formatQuantity({ value: 1250, unit: "g", dimension: "mass" })).toBe("1.25 kg");
+    });
+
+    it("should format mass in imperial units", () => {
+      expect(formatQuantity({ value: 454, unit: "g", dimension: "mass" }, "imperial")).toBe("1 lb");
+      expect(formatQuantity({ value: 113, unit: "g", dimension: "mass" }, "imperial")).toBe("4 oz");
+    });
+
+    it("should pluralize count units", () => {
+      expect(formatQuantity({ value: 3, unit: "clove", dimension: "count" })).toBe("3 cloves");
+    });
+  });
+
+  describe("aggregateIngredients", () => {
+    it("should group the same ingredient across spellings", () => {
+      expect(getIngredientKey("Chopped Tomatoes")).toBe(getIngredientKey("tomato"));
+      expect(getIngredientKey("chicken_breast")).toBe("chicken_breast");
+    });
+
+    it("should aggregate a week's ingredients into one entry each", () => {
+      const result = aggregateIngredients([
+        ["chicken_breast", "200g", "Proteins"],
+        ["chicken breast", "1 lb"],
+        ["garlic", "2 cloves"],
+        ["garlic", "1 clove"],
+        ["salt", "to taste"],
+      ]);
+      const chicken = result.find((i) => i.key === "chicken_breast");
+      const garlic = result.find((i) => i.key === "garlic");
+      expect(result).toHaveLength(3);
+      expect(chicken!.amount).toBe("655 g");
+      expect(chicken!.category).toBe("Proteins");
+      expect(garlic!.amount).toBe("3 cloves");
+    });
+  });
+
+  describe("scaleAmount", () => {
+    it("should round metric amounts to measurable steps", () => {
+      expect(scaleAmount("80", "g", 1.4)).toEqual({ amount: "110", unit: "g" });
+      expect(scaleAmount("700", "g", 2)).toEqual({ amount: "1.4", unit: "kg" });
+      expect(scaleAmount("500", "ml", 3)).toEqual({ amount: "1.5", unit: "l" });
+    });
+
+    it("should move between teaspoons, tablespoons and cups", () => {
+      expect(scaleAmount("1/2", "tsp", 0.5)).toEqual({ amount: "0.25", unit: "tsp" });
+      expect(scaleAmount("2", "tbsp", 2)).toEqual({ amount: "0.25", unit: "cup" });
+      expect(scaleAmount("1 1/2", "cups", 2)).toEqual({ amount: "3", unit: "cups" });
+    });
+
+    it("should keep eggs and cans whole", () => {
+      expect(scaleAmount("2", "eggs", 1.5)).toEqual({ amount: "3", unit: "eggs" });
+      expect(scaleAmount("1", "egg", 0.3)).toEqual({ amount: "1", unit: "egg" });
+      expect(scaleAmount("1", "can", 2)).toEqual({ amount: "2", unit: "cans" });
+    });
+
+    it("should keep counts without a unit whole", () => {
+      expect(scaleAmount("1", "", 1.5)).toEqual({ amount: "2", unit: "" });
+      expect(scaleAmount("3", "", 0.5)).toEqual({ amount: "2", unit: "" });
+      expect(scaleAmount("1", "", 0.25)).toEqual({ amount: "1", unit: "" });
+      expect(scaleAmount("1", "large", 1.5)).toEqual({ amount: "1.5", unit: "large" });
+    });
+
+    it("should switch ounces to pounds", () => {
+      expect(scaleAmount("8", "oz", 3)).toEqual({ amount: "1.5", unit: "lb" });
+    });
+
+    it("should leave amounts without a number alone", () => {
+      expect(scaleAmount("to taste", "", 2)).toEqual({ amount: "to taste", unit: "" });
+    });
+  });
+
+  describe("scaleAmountText", () => {
+    it("should scale free-text amounts and keep the words after the unit", () => {
+      expect(scaleAmountText("200g", 2)).toBe("400 g");
+      expect(scaleAmountText("2 cups chopped", 2)).toBe("4 cups chopped");
+      expect(scaleAmountText("3 large", 2)).toBe("6 large");
+      expect(scaleAmountText("to taste", 2)).toBe("to taste");
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for shopping list export
+ * Tests:
+ * - Grouping by category in aisle order
+ * - Plain text and CSV output
+ * - HTML escaping in the shared view
+ */
+import {
+  groupShoppingItems,
+  formatShoppingListText,
+  formatShoppingListCsv,
+  renderShoppingListHtml,
+} from "../../../src/utils/shoppingExport";
+
+const items = [
+  { key: "rice", name: "rice", amount: "500 g", category: "Grains", done: false },
+  { key: "chicken_breast", name: "chicken_breast", amount: "650 g", done: false },
+  { key: "banana", name: "banana", amount: "6", category: "Fruits", done: true },
+  { key: "mystery_sauce", name: "mystery sauce", amount: "", done: false },
+];
+
+describe("Shopping List Export", () => {
+  it("should group items by category with unknown items last", () => {
+    const groups = groupShoppingItems(items);
+    expect(groups.map((g) => g.category)).toEqual([
+      "Proteins",
+      "Fruits",
+      "Grains",
+      "Other",
+    ]);
+    expect(groups[0].items[0]).toEqual({
+      key: "chicken_breast",
+      name: "Chicken breast",
+      amount: "650 g",
+      done: false,
+    });
+  });
+
+  it("should format plain text without checked-off items by default", () => {
+    const text = formatShoppingListText(items);
+    expect(text).toContain("PROTEINS\n[ ] Chicken breast - 650 g");
+    expect(text).toContain("[ ] Mystery sauce\n");
+    expect(text).not.toContain("Banana");
+  });
+
+  it("should mark checked-off items when included", () => {
+    const text = formatShoppingListText(items, "Shopping list", true);
+    expect(text).toContain("[x] Banana - 6");
+  });
+
+  it("should produce CSV with a header and escaped values", () => {
+    const csv = formatShoppingListCsv([
+      { name: 'tomatoes, "cherry"', amount: "250 g", category: "Vegetables" },
+      { name: "=cmd", amount: "1" },
+    ]);
+    const rows = csv.trim().split("\r\n");
+    expect(rows[0]).toBe("Category,Item,Amount,Done");
+    expect(rows[1]).toBe('Vegetables,"Tomatoes, ""cherry""",250 g,no');
+    expect(rows[2]).toContain("'=cmd");
+  });
+
+  it("should escape item names in the shared page", () => {
+    const html = renderShoppingListHtml(
+      groupShoppingItems([{ name: "<script>alert(1)</script>", amount: "1" }]),
+      {
+        title: "Shopping list",
+        apiPath: "/api/shopping/shared/abc",
+        expiresAt: new Date("2025-03-08T00:00:00Z"),
+        nonce: "n0nce",
+      }
+    );
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).toContain('<script nonce="n0nce">');
+  });
+});
@@ -4,6 +4,8 @@ import { UserService } from "../../../src/user/user.service";
 import { User } from "../../../src/user/user.model";
 import { Meal } from "../../../src/meal/meal.model";
 import { NotFoundException } from "@nestjs/common";
+import { EatingProfileService } from "../../../src/eating-profile/eating-profile.service";
+import { EventBus } from "../../../src/events/event-bus";
 
 describe("UserService", () => {
   let service: UserService;
@@ -38,7 +40,6 @@ describe("UserService", () => {
       find: jest.fn(),
       findById: jest.fn(),
       findByIdAndUpdate: jest.fn(),
-      findByIdAndDelete: jest.fn(),
       create: jest.fn(),
     };
 
@@ -58,6 +59,8 @@ describe("UserService", () => {
           provide: getModelToken(Meal.name),
           useValue: mockMealModel,
         },
+        { provide: EatingProfileService, useValue: { seed: jest.fn().mockResolvedValue(undefined) } },
+        { provide: EventBus, useValue: { subscribe: jest.fn() } },
       ],
     }).compile();
 
@@ -149,42 +152,41 @@ describe("UserService", () => {
       expect(result.name).toBe("Updated Name");
     });
 
-    it("should throw NotFoundException if user not found", async () => {
+    it("should not let a user change their role or subscription", async () => {
       mockUserModel.findByIdAndUpdate.mockReturnValue({
-        lean: jest.fn().mockReturnValue({
-          exec: jest.fn().mockResolvedValue(null),
-        }),
-      });
-
-      await expect(
-        service.update("nonexistent", { name: "Test" })
-      ).rejects.toThrow(NotFoundException);
-    });
-  });
-
-  describe("delete", () => {
-    it("should delete a user", async () => {
-      mockUserModel.findByIdAndDelete.mockReturnValue({
         lean: jest.fn().mockReturnValue({
           exec: jest.fn().mockResolvedValue(mockUser),
         }),
       });
 
-      const result = await service.delete("507f1f77bcf86cd799439011");
+      await service.update("507f1f77bcf86cd799439011", {
+        name: "Updated Name",
+        role: "admin",
+        subscriptionTier: "premium",
+        subscriptionStatus: "active",
+        subscriptionEndDate: "2099-01-01",
+        stripeCustomerId: "cus_123",
+        password: "plain-text",
+        $set: { role: "admin" },
+      });
 
-      expect(result.id).toBe("507f1f77bcf86cd799439011");
+      expect(mockUserModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        "507f1f77bcf86cd799439011",
+        { name: "Updated Name" },
+        { new: true }
+      );
     });
 
     it("should throw NotFoundException if user not found", async () => {
-      mockUserModel.findByIdAndDelete.mockReturnValue({
+      mockUserModel.findByIdAndUpdate.mockReturnValue({
         lean: jest.fn().mockReturnValue({
           exec: jest.fn().mockResolvedValue(null),
         }),
       });
 
-      await expect(service.delete("nonexistent")).rejects.toThrow(
-        NotFoundException
-      );
+      await expect(
+        service.update("nonexistent", { name: "Test" })
+      ).rejects.toThrow(NotFoundException);
     });
   });
 